@@ -2,6 +2,20 @@
 import express, { Application, Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import authRoutes from './routes/auth';
+import healthRoutes from './routes/health';
+import patientRoutes from './routes/patients';
+import sessionRoutes from './routes/sessions';
+import goalRoutes from './routes/goals';
+import exerciseRoutes from './routes/exercises';
+import goalTemplateRoutes from './routes/goalTemplates';
+import carerRoutes from './routes/carers';
+import availabilityRoutes from './routes/availability';
+import calendarRoutes from './routes/calendar';
+import journalRoutes from './routes/journal';
+import recordingRoutes from './routes/recordings';
+import treatmentPlanRoutes from './routes/treatmentPlans';
+import therapistLinkRoutes from './routes/therapistLinks';
 
 dotenv.config();
 
@@ -17,4 +31,20 @@ app.get('/', (req: Request, res: Response) => {
   res.json({ message: 'OwnUrVoice API is running' });
 });
 
+// API routes
+app.use('/api/health', healthRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/patients', patientRoutes);
+app.use('/api/sessions', sessionRoutes);
+app.use('/api/goals', goalRoutes);
+app.use('/api/exercises', exerciseRoutes);
+app.use('/api/goal-templates', goalTemplateRoutes);
+app.use('/api/carers', carerRoutes);
+app.use('/api/availability', availabilityRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/journal', journalRoutes);
+app.use('/api/recordings', recordingRoutes);
+app.use('/api/treatment-plans', treatmentPlanRoutes);
+app.use('/api/therapist-links', therapistLinkRoutes);
+
 export default app;
\ No newline at end of file
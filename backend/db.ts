@@ -0,0 +1,16 @@
+// backend/db.ts
+import { Pool, types } from 'pg';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Return DATE columns as plain YYYY-MM-DD strings instead of local-midnight Date objects
+types.setTypeParser(types.builtins.DATE, (value: string) => value);
+
+// Shared PostgreSQL connection pool
+// Uses DATABASE_URL when set, otherwise falls back to the standard PG* environment variables
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL
+});
+
+export default pool;
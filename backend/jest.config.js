@@ -0,0 +1,9 @@
+// Tests run on a clock ahead of UTC in summer, so a date taken from UTC rather than the
+// clinic's local clock shows up as a day out in tests that fake a time just after midnight
+process.env.TZ = 'Europe/London';
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  testPathIgnorePatterns: ['/node_modules/', '/dist/']
+};
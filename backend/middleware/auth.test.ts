@@ -0,0 +1,111 @@
+import express, { Response } from 'express';
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { setMailTransport } from '../services/mailer';
+import { authenticateToken, authorizeRole, AuthRequest } from './auth';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+// Registration sends a verification email; discard it
+setMailTransport({ send: async () => {} });
+
+// Minimal app with one therapist-only route guarded by the middleware
+const protectedApp = express();
+protectedApp.get(
+  '/therapist-only',
+  authenticateToken,
+  authorizeRole('therapist'),
+  (req: AuthRequest, res: Response) => {
+    res.json({ success: true, user: req.user });
+  }
+);
+
+const registerPatient = async () => {
+  const res = await request(app).post('/api/auth/register').send({
+    username: 'patient123',
+    email: 'patient@example.com',
+    password: 'password123',
+    firstName: 'Jane',
+    lastName: 'Patient',
+    phoneNumber: '+0987654321',
+    dateOfBirth: '1990-08-20',
+    role: 'patient',
+    therapyStartDate: '2024-01-15',
+    preferredContactMethod: 'email'
+  });
+  return res.body.data;
+};
+
+const registerTherapist = async () => {
+  const res = await request(app).post('/api/auth/register').send({
+    username: 'therapist123',
+    email: 'therapist@example.com',
+    password: 'password123',
+    firstName: 'John',
+    lastName: 'Therapist',
+    phoneNumber: '+1234567890',
+    dateOfBirth: '1985-05-15',
+    role: 'therapist',
+    clinicName: 'Speech Therapy Clinic',
+    yearsOfExperience: '10',
+    qualification: 'Master of Speech-Language Pathology'
+  });
+  return res.body.data;
+};
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('authenticateToken', () => {
+  it('rejects requests without a token', async () => {
+    const res = await request(protectedApp).get('/therapist-only');
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('lets a therapist through and exposes the session id', async () => {
+    const { token } = await registerTherapist();
+    const res = await request(protectedApp)
+      .get('/therapist-only')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.user.role).toBe('therapist');
+    expect(res.body.user.sessionId).toBeDefined();
+  });
+
+  it('rejects an access token after its session is logged out', async () => {
+    const { token } = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'therapist123', password: 'password123' })
+      .then(res => res.body.data);
+
+    await request(app).post('/api/auth/logout').set('Authorization', `Bearer ${token}`);
+
+    const res = await request(protectedApp)
+      .get('/therapist-only')
+      .set('Authorization', `Bearer ${token}`);
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('authorizeRole', () => {
+  it('rejects a user with the wrong role', async () => {
+    const { token } = await registerPatient();
+    const res = await request(protectedApp)
+      .get('/therapist-only')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(res.statusCode).toBe(403);
+  });
+});
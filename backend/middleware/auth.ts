@@ -1,8 +1,7 @@
 // backend/middleware/auth.ts
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+import { UserRole } from '../repositories/userRepository';
+import { verifyAccessToken } from '../services/tokenService';
 
 // Extend Request interface to include user property
 export interface AuthRequest extends Request {
@@ -10,42 +9,46 @@ export interface AuthRequest extends Request {
     id: string;
     username: string;
     email: string;
-    role: 'therapist' | 'patient';
+    role: UserRole;
+    sessionId: string;
   };
 }
 
 // Middleware to authenticate JWT token
-export const authenticateToken = (
+// Also rejects tokens whose session was revoked by logout or refresh token reuse
+export const authenticateToken = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): any => {
-  try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ 
-        success: false, 
-        message: 'Access denied. No token provided.' 
-      });
-    }
+): Promise<any> => {
+  const authHeader = req.headers.authorization;
 
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ 
+      success: false, 
+      message: 'Access denied. No token provided.' 
+    });
+  }
+
+  try {
     const token = authHeader.substring(7);
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      id: string;
-      username: string;
-      email: string;
-      role: 'therapist' | 'patient';
-    };
+    const decoded = await verifyAccessToken(token);
 
-    req.user = decoded;
-    next();
+    req.user = {
+      id: decoded.id,
+      username: decoded.username,
+      email: decoded.email,
+      role: decoded.role,
+      sessionId: decoded.sid
+    };
   } catch (error) {
     return res.status(403).json({ 
       success: false, 
       message: 'Invalid or expired token' 
     });
   }
+
+  next();
 };
 
 // Middleware to authorize based on role
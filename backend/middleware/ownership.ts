@@ -0,0 +1,69 @@
+// backend/middleware/ownership.ts
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import {
+  assertCanAccessResource,
+  assertOwnsExercise,
+  assertCanUseExercise,
+  assertOwnsGoalTemplate,
+  assertCanUseGoalTemplate,
+  PatientResource
+} from '../services/accessPolicy';
+import { ServiceError } from '../services/errors';
+
+// Turns a failed policy check into a response; must run after authenticateToken
+const runCheck = async (res: Response, next: NextFunction, check: () => Promise<void>): Promise<any> => {
+  try {
+    await check();
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Access check error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Server error checking access'
+    });
+  }
+
+  next();
+};
+
+// Middleware to check the session/goal/exercise row in req.params[param] belongs to a patient the user may reach
+export const authorizeResource = (resource: PatientResource, param: string) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
+    return runCheck(res, next, () => assertCanAccessResource(req.user!, resource, req.params[param] as string));
+  };
+};
+
+// Middleware to check the exercise in req.params[param] is in the user's own library
+export const authorizeExerciseOwner = (param: string = 'exerciseId') => {
+  return (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
+    return runCheck(res, next, () => assertOwnsExercise(req.user!, req.params[param] as string));
+  };
+};
+
+// Middleware to check the exercise in req.params[param] is the user's own or shared with their clinic
+export const authorizeExerciseUse = (param: string = 'exerciseId') => {
+  return (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
+    return runCheck(res, next, () => assertCanUseExercise(req.user!, req.params[param] as string));
+  };
+};
+
+// Middleware to check the goal template in req.params[param] is the user's own
+export const authorizeGoalTemplateOwner = (param: string = 'templateId') => {
+  return (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
+    return runCheck(res, next, () => assertOwnsGoalTemplate(req.user!, req.params[param] as string));
+  };
+};
+
+// Middleware to check the goal template in req.params[param] is the user's own or shared with their clinic
+export const authorizeGoalTemplateUse = (param: string = 'templateId') => {
+  return (req: AuthRequest, res: Response, next: NextFunction): Promise<any> => {
+    return runCheck(res, next, () => assertCanUseGoalTemplate(req.user!, req.params[param] as string));
+  };
+};
@@ -0,0 +1,64 @@
+// backend/migrate.ts
+import fs from 'fs';
+import path from 'path';
+import { Pool } from 'pg';
+import defaultPool from './db';
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+// Applies every .sql file in migrations/ that has not been run yet
+// Files run in filename order and each one is recorded in schema_migrations
+export const runMigrations = async (pool: Pool): Promise<string[]> => {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      name VARCHAR(255) PRIMARY KEY,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  const { rows } = await pool.query('SELECT name FROM schema_migrations');
+  const applied = new Set(rows.map((row: { name: string }) => row.name));
+
+  const files = fs
+    .readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.sql'))
+    .sort();
+
+  const newlyApplied: string[] = [];
+
+  for (const file of files) {
+    if (applied.has(file)) continue;
+
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    const client = await pool.connect();
+
+    try {
+      // Run each migration in its own transaction so a failure leaves no half-applied schema
+      await client.query('BEGIN');
+      await client.query(sql);
+      await client.query('INSERT INTO schema_migrations (name) VALUES ($1)', [file]);
+      await client.query('COMMIT');
+      newlyApplied.push(file);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new Error(`Migration ${file} failed: ${(error as Error).message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  return newlyApplied;
+};
+
+// Allow running directly: npm run migrate
+if (require.main === module) {
+  runMigrations(defaultPool)
+    .then(applied => {
+      console.log(applied.length ? `Applied: ${applied.join(', ')}` : 'Database is up to date');
+    })
+    .catch(error => {
+      console.error(error.message);
+      process.exitCode = 1;
+    })
+    .finally(() => defaultPool.end());
+}
@@ -0,0 +1,25 @@
+-- 001_create_users.sql
+-- Accounts for the Express auth API (replaces the old in-memory users array)
+
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  username VARCHAR(50) NOT NULL,
+  email VARCHAR(255) NOT NULL,
+  password_hash TEXT NOT NULL,
+  first_name VARCHAR(100) NOT NULL,
+  last_name VARCHAR(100) NOT NULL,
+  phone_number VARCHAR(30) NOT NULL,
+  date_of_birth DATE NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('therapist', 'patient')),
+  -- Therapist-specific fields
+  clinic_name VARCHAR(255),
+  years_of_experience INTEGER,
+  qualification VARCHAR(255),
+  -- Patient-specific fields
+  therapy_start_date DATE,
+  preferred_contact_method VARCHAR(50),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT users_username_key UNIQUE (username),
+  CONSTRAINT users_email_key UNIQUE (email)
+);
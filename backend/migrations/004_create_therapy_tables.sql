@@ -0,0 +1,77 @@
+-- 004_create_therapy_tables.sql
+-- Sessions, goals and exercises for the domain API
+-- Table and column names match the Supabase schema the frontend already reads, so rows keep the same shape
+
+-- An appointment between a therapist and a patient
+-- A therapist is linked to a patient by having at least one session with them
+CREATE TABLE IF NOT EXISTS session (
+  session_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  therapist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_date DATE NOT NULL,
+  session_time TIME NOT NULL,
+  session_type VARCHAR(100) NOT NULL,
+  status VARCHAR(30) NOT NULL DEFAULT 'scheduled',
+  location VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS session_patient_id_idx ON session (patient_id);
+CREATE INDEX IF NOT EXISTS session_therapist_id_idx ON session (therapist_id);
+
+-- Goals hang off a session; a session with goals cannot be deleted until the goals are
+CREATE TABLE IF NOT EXISTS goal (
+  goal_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES session(session_id),
+  goal_description TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  target_date DATE NOT NULL,
+  status VARCHAR(30) NOT NULL DEFAULT 'active',
+  priority VARCHAR(20) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS goal_session_id_idx ON goal (session_id);
+
+CREATE TABLE IF NOT EXISTS exercise (
+  exercise_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  difficulty_level VARCHAR(20) NOT NULL DEFAULT 'beginner',
+  recommended_frequency VARCHAR(30) NOT NULL DEFAULT 'daily',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS exercise_created_by_idx ON exercise (created_by);
+
+-- One row per scheduled practice of an exercise towards a goal (e.g. "Week 1 Mon Morning")
+-- The patient ticks rows off and rates how difficult each practice was
+CREATE TABLE IF NOT EXISTS goal_exercise_set (
+  row_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal_id UUID NOT NULL REFERENCES goal(goal_id) ON DELETE CASCADE,
+  exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+  day_of_week VARCHAR(50),
+  week_number INTEGER,
+  completed BOOLEAN NOT NULL DEFAULT FALSE,
+  completion_date TIMESTAMPTZ,
+  difficulty_rating INTEGER CHECK (difficulty_rating BETWEEN 0 AND 10),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS goal_exercise_set_goal_id_idx ON goal_exercise_set (goal_id);
+CREATE INDEX IF NOT EXISTS goal_exercise_set_exercise_id_idx ON goal_exercise_set (exercise_id);
+
+-- Exercises practised during a session
+CREATE TABLE IF NOT EXISTS session_exercise (
+  session_id UUID NOT NULL REFERENCES session(session_id) ON DELETE CASCADE,
+  exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+  completed BOOLEAN NOT NULL DEFAULT FALSE,
+  completion_date TIMESTAMPTZ,
+  notes TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (session_id, exercise_id)
+);
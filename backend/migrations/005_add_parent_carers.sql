@@ -0,0 +1,34 @@
+-- 005_add_parent_carers.sql
+-- Parent/carer accounts, the invitations that link them to a patient, and who ticked each exercise row
+
+-- users_role_check is the name Postgres gave the inline role check in 001
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('therapist', 'patient', 'parent_carer'));
+
+-- Parent/carer-specific field (e.g. "Mother", "Guardian")
+ALTER TABLE users ADD COLUMN relationship_to_patient VARCHAR(50);
+
+-- A carer asks to be linked to a patient; the patient or one of their therapists accepts or declines
+CREATE TABLE IF NOT EXISTS carer_invitation (
+  invitation_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  carer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  responded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS carer_invitation_carer_id_idx ON carer_invitation (carer_id);
+CREATE INDEX IF NOT EXISTS carer_invitation_patient_id_idx ON carer_invitation (patient_id);
+
+-- An accepted invitation; gives the carer read access to the patient's records
+CREATE TABLE IF NOT EXISTS carer_patient_link (
+  carer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (carer_id, patient_id)
+);
+
+-- Who ticked the row: the patient, or a carer ticking on their behalf
+ALTER TABLE goal_exercise_set ADD COLUMN completed_by UUID REFERENCES users(id) ON DELETE SET NULL;
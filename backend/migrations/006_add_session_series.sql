@@ -0,0 +1,26 @@
+-- 006_add_session_series.sql
+-- Recurring blocks of sessions (e.g. weekly therapy for 8 weeks)
+
+-- How a recurring block was booked; each occurrence is an ordinary session row pointing back here
+-- The session rows are the source of truth - skipped dates are simply never generated
+CREATE TABLE IF NOT EXISTS session_series (
+  series_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  therapist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  frequency VARCHAR(20) NOT NULL CONSTRAINT session_series_frequency_check CHECK (frequency IN ('weekly', 'fortnightly')),
+  start_date DATE NOT NULL,
+  -- Exactly one of occurrences / until_date says when the block ends
+  occurrences INTEGER,
+  until_date DATE,
+  session_time TIME NOT NULL,
+  session_type VARCHAR(100) NOT NULL,
+  location VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS session_series_therapist_id_idx ON session_series (therapist_id);
+
+-- Stand-alone sessions have no series
+ALTER TABLE session ADD COLUMN series_id UUID REFERENCES session_series(series_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS session_series_id_idx ON session (series_id);
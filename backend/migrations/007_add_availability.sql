@@ -0,0 +1,21 @@
+-- 007_add_availability.sql
+-- Session lengths and therapist working hours, used to catch double bookings and suggest free slots
+
+ALTER TABLE session ADD COLUMN duration_minutes INTEGER NOT NULL DEFAULT 60;
+ALTER TABLE session ADD CONSTRAINT session_duration_check CHECK (duration_minutes BETWEEN 15 AND 240);
+
+ALTER TABLE session_series ADD COLUMN duration_minutes INTEGER NOT NULL DEFAULT 60;
+
+-- One row per working window, e.g. Monday 09:00-12:30 and Monday 13:30-17:00
+-- day_of_week follows JavaScript's Date.getDay(): 0 is Sunday, 6 is Saturday
+CREATE TABLE IF NOT EXISTS therapist_availability (
+  availability_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  therapist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  day_of_week INTEGER NOT NULL CONSTRAINT therapist_availability_day_check CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT therapist_availability_window_check CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS therapist_availability_therapist_id_idx ON therapist_availability (therapist_id);
@@ -0,0 +1,33 @@
+-- 008_add_calendar_feeds.sql
+-- iCalendar export: private feed links, and a record of deleted sessions so calendars can cancel them
+
+-- Bumped whenever a session's time or place changes, so calendar apps replace their copy (iCalendar SEQUENCE)
+ALTER TABLE session ADD COLUMN revision INTEGER NOT NULL DEFAULT 0;
+
+-- One private feed link per user; only the SHA-256 hash of the token in the link is stored
+CREATE TABLE IF NOT EXISTS calendar_feed (
+  feed_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT calendar_feed_user_id_key UNIQUE (user_id),
+  CONSTRAINT calendar_feed_token_hash_key UNIQUE (token_hash)
+);
+
+-- A copy of each deleted session, so feeds can keep sending it as cancelled
+-- Subscribed calendars only drop an event they are told is cancelled, not one that silently disappears
+CREATE TABLE IF NOT EXISTS cancelled_session (
+  session_id UUID PRIMARY KEY,
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  therapist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_date DATE NOT NULL,
+  session_time TIME NOT NULL,
+  session_type VARCHAR(100) NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  location VARCHAR(255),
+  revision INTEGER NOT NULL,
+  cancelled_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS cancelled_session_patient_id_idx ON cancelled_session (patient_id);
+CREATE INDEX IF NOT EXISTS cancelled_session_therapist_id_idx ON cancelled_session (therapist_id);
@@ -0,0 +1,13 @@
+-- 009_add_session_status.sql
+-- Session status lifecycle: sessions are marked attended, cancelled, no-show or rescheduled instead of deleted
+
+-- Why the status last changed (e.g. the patient's reason for cancelling) and when
+ALTER TABLE session ADD COLUMN status_reason TEXT;
+ALTER TABLE session ADD COLUMN status_changed_at TIMESTAMPTZ;
+
+-- A rescheduled session points at the session that replaced it
+ALTER TABLE session ADD COLUMN rescheduled_to UUID REFERENCES session(session_id) ON DELETE SET NULL;
+
+ALTER TABLE session ADD CONSTRAINT session_status_check CHECK (
+  status IN ('scheduled', 'attended', 'cancelled_by_patient', 'cancelled_by_therapist', 'no_show', 'rescheduled')
+);
@@ -0,0 +1,33 @@
+-- 010_add_session_notes.sql
+-- Clinical notes a therapist writes after a session, in SOAP form (Subjective, Objective, Assessment, Plan)
+-- A note stays a draft until it is signed; signed notes never change, and later corrections are added as addenda
+
+-- One note per session; like goals, a session with a note cannot be deleted
+-- Notes are part of the clinical record, so their author's account can't be deleted while they exist
+CREATE TABLE IF NOT EXISTS session_note (
+  note_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES session(session_id),
+  author_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  subjective TEXT NOT NULL DEFAULT '',
+  objective TEXT NOT NULL DEFAULT '',
+  assessment TEXT NOT NULL DEFAULT '',
+  plan TEXT NOT NULL DEFAULT '',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  signed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT session_note_session_id_key UNIQUE (session_id),
+  CONSTRAINT session_note_status_check CHECK (status IN ('draft', 'signed'))
+);
+
+-- Dated additions to a signed note, oldest first; they can't be edited either
+CREATE TABLE IF NOT EXISTS session_note_addendum (
+  addendum_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES session_note(note_id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS session_note_addendum_note_id_idx ON session_note_addendum (note_id);
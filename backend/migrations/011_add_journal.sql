@@ -0,0 +1,23 @@
+-- 011_add_journal.sql
+-- The patient's own journal: dated entries with how they felt and how confident they were speaking
+-- Entries are private to the patient unless they choose to share one with their therapists
+
+CREATE TABLE IF NOT EXISTS journal_entry (
+  entry_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entry_date DATE NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  mood INTEGER NOT NULL, -- 1 (very low) to 5 (very good)
+  confidence INTEGER NOT NULL, -- Self-rated speaking confidence, 1 to 10
+  -- Optionally what the entry is about; the entry stays if the goal or exercise is removed
+  goal_id UUID REFERENCES goal(goal_id) ON DELETE SET NULL,
+  exercise_id UUID REFERENCES exercise(exercise_id) ON DELETE SET NULL,
+  visibility VARCHAR(20) NOT NULL DEFAULT 'private',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT journal_entry_mood_check CHECK (mood >= 1 AND mood <= 5),
+  CONSTRAINT journal_entry_confidence_check CHECK (confidence >= 1 AND confidence <= 10),
+  CONSTRAINT journal_entry_visibility_check CHECK (visibility IN ('private', 'shared'))
+);
+
+CREATE INDEX IF NOT EXISTS journal_entry_patient_id_idx ON journal_entry (patient_id, entry_date);
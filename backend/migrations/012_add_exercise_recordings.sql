@@ -0,0 +1,32 @@
+-- 012_add_exercise_recordings.sql
+-- Audio the patient recorded while practising an exercise row, for their therapist to listen back to
+-- The audio itself lives in recording storage under storage_key; these tables hold what is known about it
+
+CREATE TABLE IF NOT EXISTS exercise_recording (
+  recording_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  row_id UUID NOT NULL REFERENCES goal_exercise_set(row_id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  storage_key VARCHAR(255) NOT NULL UNIQUE,
+  mime_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  duration_seconds INTEGER, -- As reported by the recorder; unknown for uploads that don't say
+  reviewed_at TIMESTAMPTZ, -- Set once a therapist has listened to it
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS exercise_recording_row_id_idx ON exercise_recording (row_id);
+CREATE INDEX IF NOT EXISTS exercise_recording_patient_id_idx ON exercise_recording (patient_id);
+
+-- A therapist's comment on a moment in the recording
+CREATE TABLE IF NOT EXISTS recording_comment (
+  comment_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recording_id UUID NOT NULL REFERENCES exercise_recording(recording_id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  position_seconds INTEGER NOT NULL DEFAULT 0, -- How far into the recording the comment refers to
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT recording_comment_position_check CHECK (position_seconds >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS recording_comment_recording_id_idx ON recording_comment (recording_id);
@@ -0,0 +1,11 @@
+-- 013_add_fluency_metrics.sql
+-- Objective fluency measures worked out from each recording's audio (see services/fluencyAnalysis.ts)
+-- All null until the recording has been analysed; analyzed_at says when it was
+
+ALTER TABLE exercise_recording ADD COLUMN speaking_ms INTEGER;
+ALTER TABLE exercise_recording ADD COLUMN pause_count INTEGER;
+ALTER TABLE exercise_recording ADD COLUMN pause_ms INTEGER;
+ALTER TABLE exercise_recording ADD COLUMN syllable_count INTEGER;
+ALTER TABLE exercise_recording ADD COLUMN syllables_per_minute REAL;
+ALTER TABLE exercise_recording ADD COLUMN longest_fluent_ms INTEGER;
+ALTER TABLE exercise_recording ADD COLUMN analyzed_at TIMESTAMPTZ;
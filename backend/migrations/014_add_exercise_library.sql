@@ -0,0 +1,11 @@
+-- 014_add_exercise_library.sql
+-- Turns each therapist's exercises into a library that can be browsed, copied and shared
+-- category is null for exercises created before categories existed
+-- Shared exercises can be found and assigned by every therapist at the same clinic
+-- cloned_from points at the exercise a copy was made from, if it still exists
+
+ALTER TABLE exercise ADD COLUMN category VARCHAR(20);
+ALTER TABLE exercise ADD COLUMN is_shared BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE exercise ADD COLUMN cloned_from UUID REFERENCES exercise(exercise_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS exercise_is_shared_idx ON exercise (is_shared);
@@ -0,0 +1,45 @@
+-- 015_add_exercise_content.sql
+-- What a patient sees when they open an exercise: ordered instruction steps, example media
+-- and the practice words or sentences that practice mode walks through one at a time
+-- Media files live in recording storage under storage_key, next to the recordings
+
+CREATE TABLE IF NOT EXISTS exercise_step (
+  step_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+  position INTEGER NOT NULL, -- 0 for the first step
+  instruction TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS exercise_step_exercise_id_idx ON exercise_step (exercise_id);
+
+CREATE TABLE IF NOT EXISTS exercise_prompt (
+  prompt_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  text TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS exercise_prompt_exercise_id_idx ON exercise_prompt (exercise_id);
+
+CREATE TABLE IF NOT EXISTS exercise_media (
+  media_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+  kind VARCHAR(10) NOT NULL,
+  storage_key VARCHAR(255) NOT NULL UNIQUE,
+  mime_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  caption TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT exercise_media_kind_check CHECK (kind IN ('audio', 'video', 'image'))
+);
+
+CREATE INDEX IF NOT EXISTS exercise_media_exercise_id_idx ON exercise_media (exercise_id);
+
+-- The prompts a patient has tried during practice mode, per scheduled practice
+CREATE TABLE IF NOT EXISTS prompt_attempt (
+  row_id UUID NOT NULL REFERENCES goal_exercise_set(row_id) ON DELETE CASCADE,
+  prompt_id UUID NOT NULL REFERENCES exercise_prompt(prompt_id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (row_id, prompt_id)
+);
@@ -0,0 +1,62 @@
+-- 016_add_exercise_schedules.sql
+-- Exercise schedules are worked out from a rule (see services/exerciseSchedule.ts) instead of
+-- fixed daily/twice daily/weekly branches, and each practice says when it is due in real fields:
+--   scheduled_date - the day it is due; null when the patient picks the day within the week, or for as-needed practice
+--   slot           - the named time of day (Morning, Evening...), null when practised once a day
+--   slot_index     - orders the slots within a day, or numbers the practices within a week when days are flexible
+-- day_of_week keeps just the weekday name, and week_number counts Monday-Sunday weeks from the schedule's start
+
+ALTER TABLE goal_exercise_set ADD COLUMN scheduled_date DATE;
+ALTER TABLE goal_exercise_set ADD COLUMN slot VARCHAR(30);
+ALTER TABLE goal_exercise_set ADD COLUMN slot_index INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS goal_exercise_set_scheduled_date_idx ON goal_exercise_set (scheduled_date);
+
+-- The rule an exercise's practices were generated from, kept so the schedule can be regenerated
+CREATE TABLE IF NOT EXISTS exercise_schedule (
+  goal_id UUID NOT NULL REFERENCES goal(goal_id) ON DELETE CASCADE,
+  exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+  rule JSONB NOT NULL,
+  start_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (goal_id, exercise_id)
+);
+
+-- Existing rows were labelled "Week 2 Tuesday Morning", with week 1 the Monday-Sunday week they were created in
+UPDATE goal_exercise_set SET slot = 'Morning', slot_index = 0 WHERE day_of_week LIKE 'Week % Morning';
+UPDATE goal_exercise_set SET slot = 'Afternoon', slot_index = 1 WHERE day_of_week LIKE 'Week % Afternoon';
+
+UPDATE goal_exercise_set
+SET day_of_week = 'Monday',
+  scheduled_date = CAST(created_at AS DATE) - CAST(EXTRACT(ISODOW FROM created_at) AS INTEGER) + 1 + (week_number - 1) * 7 + 0
+WHERE day_of_week LIKE 'Week % Monday%';
+
+UPDATE goal_exercise_set
+SET day_of_week = 'Tuesday',
+  scheduled_date = CAST(created_at AS DATE) - CAST(EXTRACT(ISODOW FROM created_at) AS INTEGER) + 1 + (week_number - 1) * 7 + 1
+WHERE day_of_week LIKE 'Week % Tuesday%';
+
+UPDATE goal_exercise_set
+SET day_of_week = 'Wednesday',
+  scheduled_date = CAST(created_at AS DATE) - CAST(EXTRACT(ISODOW FROM created_at) AS INTEGER) + 1 + (week_number - 1) * 7 + 2
+WHERE day_of_week LIKE 'Week % Wednesday%';
+
+UPDATE goal_exercise_set
+SET day_of_week = 'Thursday',
+  scheduled_date = CAST(created_at AS DATE) - CAST(EXTRACT(ISODOW FROM created_at) AS INTEGER) + 1 + (week_number - 1) * 7 + 3
+WHERE day_of_week LIKE 'Week % Thursday%';
+
+UPDATE goal_exercise_set
+SET day_of_week = 'Friday',
+  scheduled_date = CAST(created_at AS DATE) - CAST(EXTRACT(ISODOW FROM created_at) AS INTEGER) + 1 + (week_number - 1) * 7 + 4
+WHERE day_of_week LIKE 'Week % Friday%';
+
+UPDATE goal_exercise_set
+SET day_of_week = 'Saturday',
+  scheduled_date = CAST(created_at AS DATE) - CAST(EXTRACT(ISODOW FROM created_at) AS INTEGER) + 1 + (week_number - 1) * 7 + 5
+WHERE day_of_week LIKE 'Week % Saturday%';
+
+UPDATE goal_exercise_set
+SET day_of_week = 'Sunday',
+  scheduled_date = CAST(created_at AS DATE) - CAST(EXTRACT(ISODOW FROM created_at) AS INTEGER) + 1 + (week_number - 1) * 7 + 6
+WHERE day_of_week LIKE 'Week % Sunday%';
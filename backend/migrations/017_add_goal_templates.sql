@@ -0,0 +1,39 @@
+-- 017_add_goal_templates.sql
+-- Goals can be written as SMART goals: the specific behaviour to work on, the measurable criterion
+-- that says it is met ("80% accuracy over 3 sessions") and the context it is practised in;
+-- the timeframe is the goal's start and target dates. goal_description stays the one-line summary
+-- The SMART fields are null for goals written as free text, before or after this migration
+
+ALTER TABLE goal ADD COLUMN specific_behaviour TEXT;
+ALTER TABLE goal ADD COLUMN measurable_criterion TEXT;
+ALTER TABLE goal ADD COLUMN context TEXT;
+
+-- A reusable goal a therapist can set for any patient in one step, shared with their clinic like exercises
+-- timeframe_weeks sets the target date from the start date the goal is given
+CREATE TABLE IF NOT EXISTS goal_template (
+  template_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title VARCHAR(100) NOT NULL,
+  specific_behaviour TEXT NOT NULL,
+  measurable_criterion TEXT NOT NULL,
+  context TEXT NOT NULL DEFAULT '',
+  timeframe_weeks INTEGER NOT NULL,
+  priority VARCHAR(10) NOT NULL DEFAULT 'medium',
+  is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT goal_template_timeframe_check CHECK (timeframe_weeks BETWEEN 1 AND 104)
+);
+
+CREATE INDEX IF NOT EXISTS goal_template_created_by_idx ON goal_template (created_by);
+
+-- The exercises bundled with a template, assigned with it in position order
+-- schedule is the rule they are practised by (see services/exerciseSchedule.ts), or null for
+-- the rule the exercise's recommended frequency gives
+CREATE TABLE IF NOT EXISTS goal_template_exercise (
+  template_id UUID NOT NULL REFERENCES goal_template(template_id) ON DELETE CASCADE,
+  exercise_id UUID NOT NULL REFERENCES exercise(exercise_id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  schedule JSONB,
+  PRIMARY KEY (template_id, exercise_id)
+);
@@ -0,0 +1,47 @@
+-- 018_add_goal_lifecycle.sql
+-- Goal lifecycle: goals move between draft, active, on_hold, achieved, discontinued and carried_over,
+-- with every change kept in goal_status_history. "Overdue" is not stored - it is an active goal
+-- past its target date with practices still to do, worked out when the goal is read
+
+-- The old free-text statuses map onto the lifecycle
+UPDATE goal SET status = 'active' WHERE status = 'in progress';
+UPDATE goal SET status = 'achieved' WHERE status = 'completed';
+UPDATE goal SET status = 'active'
+WHERE status NOT IN ('draft', 'active', 'on_hold', 'achieved', 'discontinued', 'carried_over');
+
+ALTER TABLE goal ADD COLUMN status_changed_at TIMESTAMPTZ;
+
+-- A carried-over goal points at the goal that continues it
+ALTER TABLE goal ADD COLUMN carried_over_to UUID REFERENCES goal(goal_id) ON DELETE SET NULL;
+
+ALTER TABLE goal ADD CONSTRAINT goal_status_check CHECK (
+  status IN ('draft', 'active', 'on_hold', 'achieved', 'discontinued', 'carried_over')
+);
+
+-- One row per status change; from_status is null for the status the goal was created with
+CREATE TABLE IF NOT EXISTS goal_status_history (
+  history_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal_id UUID NOT NULL REFERENCES goal(goal_id) ON DELETE CASCADE,
+  from_status VARCHAR(30),
+  to_status VARCHAR(30) NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS goal_status_history_goal_id_idx ON goal_status_history (goal_id);
+
+-- The therapist's in-session measure of the goal (e.g. 80 for 80% accuracy), checked against its
+-- measurable criterion to suggest when the goal has been achieved
+CREATE TABLE IF NOT EXISTS goal_measurement (
+  measurement_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goal_id UUID NOT NULL REFERENCES goal(goal_id) ON DELETE CASCADE,
+  measured_on DATE NOT NULL,
+  score INTEGER NOT NULL,
+  note TEXT,
+  recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT goal_measurement_score_check CHECK (score BETWEEN 0 AND 100)
+);
+
+CREATE INDEX IF NOT EXISTS goal_measurement_goal_id_idx ON goal_measurement (goal_id);
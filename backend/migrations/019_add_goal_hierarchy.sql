@@ -0,0 +1,14 @@
+-- 019_add_goal_hierarchy.sql
+-- Goals can be broken into short-term objectives: an objective is a goal with a parent_goal_id,
+-- set in the same session as its long-term goal. Exercises are attached to the objectives, and the
+-- long-term goal's progress is rolled up from theirs, each counted by its weight
+-- Goals without objectives work as before, with their own exercises
+
+-- Deleting a long-term goal removes its objectives, and their exercise rows with them
+ALTER TABLE goal ADD COLUMN parent_goal_id UUID REFERENCES goal(goal_id) ON DELETE CASCADE;
+
+-- How much an objective counts towards its long-term goal's progress
+ALTER TABLE goal ADD COLUMN weight INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE goal ADD CONSTRAINT goal_weight_check CHECK (weight BETWEEN 1 AND 10);
+
+CREATE INDEX IF NOT EXISTS goal_parent_goal_id_idx ON goal (parent_goal_id);
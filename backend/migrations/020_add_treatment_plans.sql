@@ -0,0 +1,46 @@
+-- 020_add_treatment_plans.sql
+-- Goals belong to a treatment plan - a therapist's episode of care with a patient - rather than to
+-- whichever session they were set in, so sessions can be deleted without touching the patient's goals
+-- A pair has at most one active plan at a time; new goals go into it, and closing it ends the episode
+
+CREATE TABLE IF NOT EXISTS treatment_plan (
+  plan_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  therapist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  started_on DATE NOT NULL,
+  closed_on DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT treatment_plan_status_check CHECK (status IN ('active', 'closed'))
+);
+
+CREATE INDEX IF NOT EXISTS treatment_plan_patient_id_idx ON treatment_plan (patient_id);
+CREATE INDEX IF NOT EXISTS treatment_plan_therapist_id_idx ON treatment_plan (therapist_id);
+
+-- One active plan for each pair that already has goals, from their earliest session with a goal
+INSERT INTO treatment_plan (patient_id, therapist_id, started_on)
+SELECT s.patient_id, s.therapist_id, MIN(s.session_date)
+FROM goal g
+JOIN session s ON s.session_id = g.session_id
+GROUP BY s.patient_id, s.therapist_id;
+
+ALTER TABLE goal ADD COLUMN plan_id UUID REFERENCES treatment_plan(plan_id) ON DELETE CASCADE;
+
+-- Moves each goal into its pair's plan
+UPDATE goal
+SET plan_id = sp.plan_id
+FROM (
+  SELECT s.session_id, p.plan_id
+  FROM session s
+  JOIN treatment_plan p ON p.patient_id = s.patient_id AND p.therapist_id = s.therapist_id
+) sp
+WHERE goal.session_id = sp.session_id;
+
+ALTER TABLE goal ALTER COLUMN plan_id SET NOT NULL;
+CREATE INDEX IF NOT EXISTS goal_plan_id_idx ON goal (plan_id);
+
+-- The session link goes
+ALTER TABLE goal DROP CONSTRAINT goal_session_id_fkey;
+DROP INDEX IF EXISTS goal_session_id_idx;
+ALTER TABLE goal DROP COLUMN session_id;
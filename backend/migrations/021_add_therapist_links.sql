@@ -0,0 +1,31 @@
+-- 021_add_therapist_links.sql
+-- A therapist is linked to a patient once the patient accepts the therapist's request to take them on
+-- Booking a session no longer links them: only a linked therapist can book sessions with the patient
+
+CREATE TABLE IF NOT EXISTS therapist_link_request (
+  request_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  therapist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS therapist_link_request_therapist_id_idx ON therapist_link_request (therapist_id);
+CREATE INDEX IF NOT EXISTS therapist_link_request_patient_id_idx ON therapist_link_request (patient_id);
+
+-- An accepted request; gives the therapist access to the patient's records
+CREATE TABLE IF NOT EXISTS therapist_patient_link (
+  therapist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (therapist_id, patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS therapist_patient_link_patient_id_idx ON therapist_patient_link (patient_id);
+
+-- Therapists keep the patients they already see
+INSERT INTO therapist_patient_link (therapist_id, patient_id)
+SELECT therapist_id, patient_id FROM session
+UNION
+SELECT therapist_id, patient_id FROM treatment_plan;
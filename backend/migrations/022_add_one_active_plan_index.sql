@@ -0,0 +1,7 @@
+-- 022_add_one_active_plan_index.sql
+-- A pair has at most one active plan; the database enforces it, so two requests opening
+-- the pair's plan at the same moment can't both create one
+
+CREATE UNIQUE INDEX IF NOT EXISTS treatment_plan_one_active_idx
+  ON treatment_plan (therapist_id, patient_id)
+  WHERE status = 'active';
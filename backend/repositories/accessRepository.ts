@@ -0,0 +1,103 @@
+// backend/repositories/accessRepository.ts
+// Lookups used by the access policy to find which patient a record belongs to
+import pool from '../db';
+
+// A therapist is linked to a patient once the patient accepts the therapist's request to take them on
+export const isTherapistLinkedToPatient = async (therapistId: string, patientId: string): Promise<boolean> => {
+  const { rows } = await pool.query(
+    'SELECT therapist_id FROM therapist_patient_link WHERE therapist_id = $1 AND patient_id = $2',
+    [therapistId, patientId]
+  );
+  return rows.length > 0;
+};
+
+// A carer is linked to a patient once the patient or their therapist accepts the carer's invitation
+export const isCarerLinkedToPatient = async (carerId: string, patientId: string): Promise<boolean> => {
+  const { rows } = await pool.query(
+    'SELECT carer_id FROM carer_patient_link WHERE carer_id = $1 AND patient_id = $2',
+    [carerId, patientId]
+  );
+  return rows.length > 0;
+};
+
+// The lookups below return null when the record does not exist
+
+export const findPatientIdForSession = async (sessionId: string): Promise<string | null> => {
+  const { rows } = await pool.query('SELECT patient_id FROM session WHERE session_id = $1', [sessionId]);
+  return rows[0] ? rows[0].patient_id : null;
+};
+
+export const findPatientIdForTreatmentPlan = async (planId: string): Promise<string | null> => {
+  const { rows } = await pool.query('SELECT patient_id FROM treatment_plan WHERE plan_id = $1', [planId]);
+  return rows[0] ? rows[0].patient_id : null;
+};
+
+export const findPatientIdForGoal = async (goalId: string): Promise<string | null> => {
+  const { rows } = await pool.query(
+    `SELECT p.patient_id FROM goal g
+     JOIN treatment_plan p ON p.plan_id = g.plan_id
+     WHERE g.goal_id = $1`,
+    [goalId]
+  );
+  return rows[0] ? rows[0].patient_id : null;
+};
+
+export const findPatientIdForGoalExerciseRow = async (rowId: string): Promise<string | null> => {
+  const { rows } = await pool.query(
+    `SELECT p.patient_id FROM goal_exercise_set ges
+     JOIN goal g ON g.goal_id = ges.goal_id
+     JOIN treatment_plan p ON p.plan_id = g.plan_id
+     WHERE ges.row_id = $1`,
+    [rowId]
+  );
+  return rows[0] ? rows[0].patient_id : null;
+};
+
+export const findPatientIdForJournalEntry = async (entryId: string): Promise<string | null> => {
+  const { rows } = await pool.query('SELECT patient_id FROM journal_entry WHERE entry_id = $1', [entryId]);
+  return rows[0] ? rows[0].patient_id : null;
+};
+
+export const findPatientIdForRecording = async (recordingId: string): Promise<string | null> => {
+  const { rows } = await pool.query('SELECT patient_id FROM exercise_recording WHERE recording_id = $1', [recordingId]);
+  return rows[0] ? rows[0].patient_id : null;
+};
+
+// The therapist whose library the exercise belongs to
+export const findExerciseOwnerId = async (exerciseId: string): Promise<string | null> => {
+  const { rows } = await pool.query('SELECT created_by FROM exercise WHERE exercise_id = $1', [exerciseId]);
+  return rows[0] ? rows[0].created_by : null;
+};
+
+// Who besides its owner can use an exercise: colleagues at the owner's clinic, once it is shared
+export const findExerciseSharing = async (
+  exerciseId: string
+): Promise<{ created_by: string; is_shared: boolean; clinic_name: string | null } | null> => {
+  const { rows } = await pool.query(
+    `SELECT e.created_by, e.is_shared, u.clinic_name
+     FROM exercise e
+     JOIN users u ON u.id = e.created_by
+     WHERE e.exercise_id = $1`,
+    [exerciseId]
+  );
+  return rows[0] || null;
+};
+
+// Goal templates are shared the same way as exercises
+export const findGoalTemplateSharing = async (
+  templateId: string
+): Promise<{ created_by: string; is_shared: boolean; clinic_name: string | null } | null> => {
+  const { rows } = await pool.query(
+    `SELECT t.created_by, t.is_shared, u.clinic_name
+     FROM goal_template t
+     JOIN users u ON u.id = t.created_by
+     WHERE t.template_id = $1`,
+    [templateId]
+  );
+  return rows[0] || null;
+};
+
+export const findClinicName = async (userId: string): Promise<string | null> => {
+  const { rows } = await pool.query('SELECT clinic_name FROM users WHERE id = $1', [userId]);
+  return rows[0] ? rows[0].clinic_name : null;
+};
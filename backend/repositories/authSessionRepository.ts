@@ -0,0 +1,99 @@
+// backend/repositories/authSessionRepository.ts
+import pool from '../db';
+
+// A login session - one refresh token family
+export interface AuthSession {
+  id: string;
+  userId: string;
+  createdAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+}
+
+// A single refresh token issued within a session
+export interface RefreshTokenRecord {
+  id: string;
+  sessionId: string;
+  userId: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  sessionRevokedAt: Date | null;
+}
+
+export const createAuthSession = async (userId: string): Promise<AuthSession> => {
+  const { rows } = await pool.query(
+    'INSERT INTO auth_sessions (user_id) VALUES ($1) RETURNING *',
+    [userId]
+  );
+  return {
+    id: rows[0].id,
+    userId: rows[0].user_id,
+    createdAt: rows[0].created_at,
+    revokedAt: rows[0].revoked_at,
+    revokedReason: rows[0].revoked_reason
+  };
+};
+
+// Used by the auth middleware on every request so revoked sessions stop working straight away
+export const isAuthSessionActive = async (sessionId: string): Promise<boolean> => {
+  const { rows } = await pool.query(
+    'SELECT id FROM auth_sessions WHERE id = $1 AND revoked_at IS NULL',
+    [sessionId]
+  );
+  return rows.length > 0;
+};
+
+export const revokeAuthSession = async (sessionId: string, reason: string): Promise<void> => {
+  await pool.query(
+    'UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = $2 WHERE id = $1 AND revoked_at IS NULL',
+    [sessionId, reason]
+  );
+};
+
+// Kills every session a user has - used when refresh token reuse is detected
+export const revokeAllAuthSessionsForUser = async (userId: string, reason: string): Promise<void> => {
+  await pool.query(
+    'UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = $2 WHERE user_id = $1 AND revoked_at IS NULL',
+    [userId, reason]
+  );
+};
+
+export const saveRefreshToken = async (
+  sessionId: string,
+  tokenHash: string,
+  expiresAt: Date
+): Promise<void> => {
+  await pool.query(
+    'INSERT INTO refresh_tokens (session_id, token_hash, expires_at) VALUES ($1, $2, $3)',
+    [sessionId, tokenHash, expiresAt]
+  );
+};
+
+export const findRefreshTokenByHash = async (tokenHash: string): Promise<RefreshTokenRecord | null> => {
+  const { rows } = await pool.query(
+    `SELECT rt.id, rt.session_id, rt.expires_at, rt.used_at, s.user_id, s.revoked_at
+     FROM refresh_tokens rt
+     JOIN auth_sessions s ON s.id = rt.session_id
+     WHERE rt.token_hash = $1`,
+    [tokenHash]
+  );
+  if (!rows[0]) return null;
+  return {
+    id: rows[0].id,
+    sessionId: rows[0].session_id,
+    userId: rows[0].user_id,
+    expiresAt: rows[0].expires_at,
+    usedAt: rows[0].used_at,
+    sessionRevokedAt: rows[0].revoked_at
+  };
+};
+
+// Atomically marks a refresh token as used
+// Returns false if another request already used it, so two concurrent refreshes cannot both succeed
+export const markRefreshTokenUsed = async (tokenId: string): Promise<boolean> => {
+  const { rows } = await pool.query(
+    'UPDATE refresh_tokens SET used_at = NOW() WHERE id = $1 AND used_at IS NULL RETURNING id',
+    [tokenId]
+  );
+  return rows.length > 0;
+};
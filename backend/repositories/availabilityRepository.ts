@@ -0,0 +1,47 @@
+// backend/repositories/availabilityRepository.ts
+import pool from '../db';
+
+// A weekly working window - same shape as the Supabase therapist_availability table
+export interface AvailabilityWindow {
+  availability_id: string;
+  therapist_id: string;
+  day_of_week: number; // 0 is Sunday, 6 is Saturday
+  start_time: string;
+  end_time: string;
+  created_at: Date;
+}
+
+export type NewAvailabilityWindow = Pick<AvailabilityWindow, 'day_of_week' | 'start_time' | 'end_time'>;
+
+// Monday first, then by start time
+export const findAvailabilityByTherapist = async (therapistId: string): Promise<AvailabilityWindow[]> => {
+  const { rows } = await pool.query(
+    `SELECT * FROM therapist_availability
+     WHERE therapist_id = $1
+     ORDER BY CASE WHEN day_of_week = 0 THEN 7 ELSE day_of_week END ASC, start_time ASC`,
+    [therapistId]
+  );
+  return rows;
+};
+
+// The therapist's working hours are always saved as a whole week
+export const replaceAvailability = async (
+  therapistId: string,
+  windows: NewAvailabilityWindow[]
+): Promise<AvailabilityWindow[]> => {
+  await pool.query('DELETE FROM therapist_availability WHERE therapist_id = $1', [therapistId]);
+  if (windows.length === 0) return [];
+
+  const values: any[] = [therapistId];
+  const placeholders = windows.map(window => {
+    values.push(window.day_of_week, window.start_time, window.end_time);
+    return `($1, $${values.length - 2}, $${values.length - 1}, $${values.length})`;
+  });
+
+  await pool.query(
+    `INSERT INTO therapist_availability (therapist_id, day_of_week, start_time, end_time)
+     VALUES ${placeholders.join(', ')}`,
+    values
+  );
+  return findAvailabilityByTherapist(therapistId);
+};
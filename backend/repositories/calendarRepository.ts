@@ -0,0 +1,86 @@
+// backend/repositories/calendarRepository.ts
+import pool from '../db';
+import { toDateString } from './dates';
+
+// A user's private calendar feed link - only the token's hash is kept
+export interface CalendarFeed {
+  feed_id: string;
+  user_id: string;
+  created_at: Date;
+}
+
+// A deleted session as it was when it was deleted, with the other person's name for the event title
+export interface CancelledSession {
+  session_id: string;
+  patient_id: string;
+  therapist_id: string;
+  session_date: string;
+  session_time: string;
+  session_type: string;
+  duration_minutes: number;
+  location: string | null;
+  revision: number;
+  cancelled_at: Date;
+  patient_name: string;
+  therapist_name: string;
+}
+
+export const findFeedByUser = async (userId: string): Promise<CalendarFeed | null> => {
+  const { rows } = await pool.query(
+    'SELECT feed_id, user_id, created_at FROM calendar_feed WHERE user_id = $1',
+    [userId]
+  );
+  return rows[0] || null;
+};
+
+export const findFeedByTokenHash = async (tokenHash: string): Promise<CalendarFeed | null> => {
+  const { rows } = await pool.query(
+    'SELECT feed_id, user_id, created_at FROM calendar_feed WHERE token_hash = $1',
+    [tokenHash]
+  );
+  return rows[0] || null;
+};
+
+// A user has at most one feed, so saving a new token stops the old link working
+export const saveFeedToken = async (userId: string, tokenHash: string): Promise<CalendarFeed> => {
+  await deleteFeed(userId);
+  const { rows } = await pool.query(
+    `INSERT INTO calendar_feed (user_id, token_hash) VALUES ($1, $2)
+     RETURNING feed_id, user_id, created_at`,
+    [userId, tokenHash]
+  );
+  return rows[0];
+};
+
+export const deleteFeed = async (userId: string): Promise<void> => {
+  await pool.query('DELETE FROM calendar_feed WHERE user_id = $1', [userId]);
+};
+
+// Deleted sessions the user took part in, as patient or therapist
+export const findCancelledSessions = async (userId: string): Promise<CancelledSession[]> => {
+  const { rows } = await pool.query(
+    `SELECT c.*,
+       p.first_name AS patient_first_name, p.last_name AS patient_last_name,
+       t.first_name AS therapist_first_name, t.last_name AS therapist_last_name
+     FROM cancelled_session c
+     JOIN users p ON p.id = c.patient_id
+     JOIN users t ON t.id = c.therapist_id
+     WHERE c.patient_id = $1 OR c.therapist_id = $1
+     ORDER BY c.session_date ASC, c.session_time ASC`,
+    [userId]
+  );
+  return rows.map(row => ({
+    session_id: row.session_id,
+    patient_id: row.patient_id,
+    therapist_id: row.therapist_id,
+    session_date: toDateString(row.session_date),
+    session_time: row.session_time,
+    session_type: row.session_type,
+    duration_minutes: row.duration_minutes,
+    location: row.location,
+    revision: row.revision,
+    cancelled_at: row.cancelled_at,
+    patient_name: `${row.patient_first_name} ${row.patient_last_name}`,
+    therapist_name: `${row.therapist_first_name} ${row.therapist_last_name}`
+  }));
+};
@@ -0,0 +1,134 @@
+// backend/repositories/carerRepository.ts
+import pool from '../db';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined';
+
+// A carer's request to be linked to a patient - same shape as the Supabase carer_invitation table
+export interface CarerInvitation {
+  invitation_id: string;
+  carer_id: string;
+  patient_id: string;
+  status: InvitationStatus;
+  responded_by: string | null;
+  responded_at: Date | null;
+  created_at: Date;
+  // Joined in by the list queries
+  carer?: { first_name: string; last_name: string; email: string; relationship_to_patient: string | null };
+  patient?: { first_name: string; last_name: string; email: string };
+}
+
+const INVITATION_COLUMNS = `
+  ci.invitation_id, ci.carer_id, ci.patient_id, ci.status,
+  ci.responded_by, ci.responded_at, ci.created_at
+`;
+
+// c is the carer and p the patient in every joined query below
+const JOINED_PEOPLE_COLUMNS = `
+  c.first_name AS carer_first_name, c.last_name AS carer_last_name, c.email AS carer_email,
+  c.relationship_to_patient AS carer_relationship_to_patient,
+  p.first_name AS patient_first_name, p.last_name AS patient_last_name, p.email AS patient_email
+`;
+
+const mapInvitation = (row: any): CarerInvitation => ({
+  invitation_id: row.invitation_id,
+  carer_id: row.carer_id,
+  patient_id: row.patient_id,
+  status: row.status,
+  responded_by: row.responded_by,
+  responded_at: row.responded_at,
+  created_at: row.created_at
+});
+
+const mapJoinedInvitation = (row: any): CarerInvitation => ({
+  ...mapInvitation(row),
+  carer: {
+    first_name: row.carer_first_name,
+    last_name: row.carer_last_name,
+    email: row.carer_email,
+    relationship_to_patient: row.carer_relationship_to_patient
+  },
+  patient: {
+    first_name: row.patient_first_name,
+    last_name: row.patient_last_name,
+    email: row.patient_email
+  }
+});
+
+const findJoinedInvitations = async (where: string, params: any[]): Promise<CarerInvitation[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${INVITATION_COLUMNS}, ${JOINED_PEOPLE_COLUMNS}
+     FROM carer_invitation ci
+     JOIN users c ON c.id = ci.carer_id
+     JOIN users p ON p.id = ci.patient_id
+     WHERE ${where}
+     ORDER BY ci.created_at DESC`,
+    params
+  );
+  return rows.map(mapJoinedInvitation);
+};
+
+export const findInvitationById = async (invitationId: string): Promise<CarerInvitation | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${INVITATION_COLUMNS} FROM carer_invitation ci WHERE ci.invitation_id = $1`,
+    [invitationId]
+  );
+  return rows[0] ? mapInvitation(rows[0]) : null;
+};
+
+export const findPendingInvitation = async (carerId: string, patientId: string): Promise<CarerInvitation | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${INVITATION_COLUMNS} FROM carer_invitation ci
+     WHERE ci.carer_id = $1 AND ci.patient_id = $2 AND ci.status = 'pending'`,
+    [carerId, patientId]
+  );
+  return rows[0] ? mapInvitation(rows[0]) : null;
+};
+
+// Everything the carer has sent, answered or not, newest first
+export const findInvitationsByCarer = async (carerId: string): Promise<CarerInvitation[]> => {
+  return findJoinedInvitations('ci.carer_id = $1', [carerId]);
+};
+
+export const findPendingInvitationsForPatient = async (patientId: string): Promise<CarerInvitation[]> => {
+  return findJoinedInvitations(`ci.patient_id = $1 AND ci.status = 'pending'`, [patientId]);
+};
+
+// Pending invitations for any patient linked to the therapist
+export const findPendingInvitationsForTherapist = async (therapistId: string): Promise<CarerInvitation[]> => {
+  return findJoinedInvitations(
+    `ci.status = 'pending' AND ci.patient_id IN (SELECT patient_id FROM therapist_patient_link WHERE therapist_id = $1)`,
+    [therapistId]
+  );
+};
+
+export const createInvitation = async (carerId: string, patientId: string): Promise<CarerInvitation> => {
+  const { rows } = await pool.query(
+    `INSERT INTO carer_invitation (carer_id, patient_id) VALUES ($1, $2) RETURNING *`,
+    [carerId, patientId]
+  );
+  return mapInvitation(rows[0]);
+};
+
+// Only answers invitations that are still pending; returns null if it was already answered
+export const respondToInvitation = async (
+  invitationId: string,
+  status: Exclude<InvitationStatus, 'pending'>,
+  respondedBy: string
+): Promise<CarerInvitation | null> => {
+  const { rows } = await pool.query(
+    `UPDATE carer_invitation
+     SET status = $2, responded_by = $3, responded_at = NOW()
+     WHERE invitation_id = $1 AND status = 'pending'
+     RETURNING *`,
+    [invitationId, status, respondedBy]
+  );
+  return rows[0] ? mapInvitation(rows[0]) : null;
+};
+
+// Links a carer to a patient once an invitation is accepted (carer_patient_link)
+export const createCarerLink = async (carerId: string, patientId: string): Promise<void> => {
+  await pool.query(
+    'INSERT INTO carer_patient_link (carer_id, patient_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+    [carerId, patientId]
+  );
+};
@@ -0,0 +1,10 @@
+// backend/repositories/dates.ts
+
+// DATE columns arrive as YYYY-MM-DD strings (see db.ts), but in-memory test databases return
+// local-midnight Date objects, so those are read back in local time
+export const toDateString = (value: any): string => {
+  if (!(value instanceof Date)) return value;
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+};
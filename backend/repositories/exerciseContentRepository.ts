@@ -0,0 +1,148 @@
+// backend/repositories/exerciseContentRepository.ts
+// The instructions, example media and practice prompts attached to an exercise
+import pool from '../db';
+
+// A practice word or sentence (an exercise_prompt row)
+export interface ExercisePrompt {
+  prompt_id: string;
+  exercise_id: string;
+  position: number;
+  text: string;
+}
+
+// An example recording, video or picture - the file itself lives in recording storage under storage_key
+export interface ExerciseMedia {
+  media_id: string;
+  exercise_id: string;
+  kind: MediaKind;
+  storage_key: string;
+  mime_type: string;
+  size_bytes: number;
+  caption: string;
+  created_at: Date;
+}
+
+export type MediaKind = 'audio' | 'video' | 'image';
+
+export type NewExerciseMedia = Pick<
+  ExerciseMedia,
+  'exercise_id' | 'kind' | 'storage_key' | 'mime_type' | 'size_bytes' | 'caption'
+>;
+
+// A prompt to keep (prompt_id set) or add, in the order the exercise lists them
+export interface PromptInput {
+  prompt_id?: string;
+  text: string;
+}
+
+const MEDIA_COLUMNS = `
+  m.media_id, m.exercise_id, m.kind, m.storage_key, m.mime_type, m.size_bytes, m.caption, m.created_at
+`;
+
+// Steps
+
+export const findSteps = async (exerciseId: string): Promise<string[]> => {
+  const { rows } = await pool.query(
+    'SELECT instruction FROM exercise_step WHERE exercise_id = $1 ORDER BY position ASC',
+    [exerciseId]
+  );
+  return rows.map(row => row.instruction);
+};
+
+// Steps have nothing pointing at them, so they are simply rewritten
+export const replaceSteps = async (exerciseId: string, steps: string[]): Promise<void> => {
+  await pool.query('DELETE FROM exercise_step WHERE exercise_id = $1', [exerciseId]);
+  for (const [position, instruction] of steps.entries()) {
+    await pool.query(
+      'INSERT INTO exercise_step (exercise_id, position, instruction) VALUES ($1, $2, $3)',
+      [exerciseId, position, instruction]
+    );
+  }
+};
+
+// Prompts
+
+export const findPrompts = async (exerciseId: string): Promise<ExercisePrompt[]> => {
+  const { rows } = await pool.query(
+    'SELECT prompt_id, exercise_id, position, text FROM exercise_prompt WHERE exercise_id = $1 ORDER BY position ASC',
+    [exerciseId]
+  );
+  return rows;
+};
+
+/**
+ * Makes the exercise's prompts exactly the given list, in its order
+ * Prompts given with their id keep it, so the attempts patients have made at them are kept too;
+ * prompts left out are deleted along with their attempts
+ */
+export const replacePrompts = async (exerciseId: string, prompts: PromptInput[]): Promise<void> => {
+  const kept = new Set(prompts.map(prompt => prompt.prompt_id).filter(Boolean));
+  for (const existing of await findPrompts(exerciseId)) {
+    if (!kept.has(existing.prompt_id)) {
+      await pool.query('DELETE FROM exercise_prompt WHERE prompt_id = $1', [existing.prompt_id]);
+    }
+  }
+
+  for (const [position, prompt] of prompts.entries()) {
+    if (prompt.prompt_id) {
+      await pool.query(
+        'UPDATE exercise_prompt SET position = $2, text = $3 WHERE prompt_id = $1 AND exercise_id = $4',
+        [prompt.prompt_id, position, prompt.text, exerciseId]
+      );
+    } else {
+      await pool.query(
+        'INSERT INTO exercise_prompt (exercise_id, position, text) VALUES ($1, $2, $3)',
+        [exerciseId, position, prompt.text]
+      );
+    }
+  }
+};
+
+// Media
+
+// Oldest first, so media appears in the order it was added
+export const findMedia = async (exerciseId: string): Promise<ExerciseMedia[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${MEDIA_COLUMNS} FROM exercise_media m WHERE m.exercise_id = $1 ORDER BY m.created_at ASC`,
+    [exerciseId]
+  );
+  return rows;
+};
+
+export const findMediaById = async (mediaId: string): Promise<ExerciseMedia | null> => {
+  const { rows } = await pool.query(`SELECT ${MEDIA_COLUMNS} FROM exercise_media m WHERE m.media_id = $1`, [mediaId]);
+  return rows[0] || null;
+};
+
+export const createMedia = async (media: NewExerciseMedia): Promise<ExerciseMedia> => {
+  const { rows } = await pool.query(
+    `INSERT INTO exercise_media (exercise_id, kind, storage_key, mime_type, size_bytes, caption)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING media_id`,
+    [media.exercise_id, media.kind, media.storage_key, media.mime_type, media.size_bytes, media.caption]
+  );
+  return (await findMediaById(rows[0].media_id))!;
+};
+
+export const deleteMedia = async (mediaId: string): Promise<void> => {
+  await pool.query('DELETE FROM exercise_media WHERE media_id = $1', [mediaId]);
+};
+
+// Prompt attempts
+
+// The prompts the patient has tried during this scheduled practice
+export const findAttemptedPromptIds = async (rowId: string): Promise<string[]> => {
+  const { rows } = await pool.query(
+    'SELECT prompt_id FROM prompt_attempt WHERE row_id = $1 ORDER BY attempted_at ASC',
+    [rowId]
+  );
+  return rows.map(row => row.prompt_id);
+};
+
+// Trying a prompt again during the same practice is not a new attempt
+export const recordPromptAttempt = async (rowId: string, promptId: string, patientId: string): Promise<void> => {
+  await pool.query(
+    'INSERT INTO prompt_attempt (row_id, prompt_id, patient_id) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+    [rowId, promptId, patientId]
+  );
+};
@@ -0,0 +1,467 @@
+// backend/repositories/exerciseRepository.ts
+import pool from '../db';
+import { Goal, mapGoal } from './goalRepository';
+import { toDateString } from './dates';
+import { Queryable } from './transaction';
+import { ScheduleRule } from '../services/exerciseSchedule';
+
+// An exercise in a therapist's library - same shape as the Supabase exercise table
+export interface Exercise {
+  exercise_id: string;
+  created_by: string; // Therapist ID
+  title: string;
+  description: string;
+  difficulty_level: string;
+  recommended_frequency: string;
+  category: string | null; // null for exercises created before categories existed
+  is_shared: boolean; // Published to the therapist's clinic
+  cloned_from: string | null; // The exercise this one was copied from
+  created_at: Date;
+  updated_at: Date;
+  // Joined in when listing the library, so shared exercises say whose they are
+  creator?: { first_name: string; last_name: string };
+}
+
+export type NewExercise = Pick<
+  Exercise,
+  'created_by' | 'title' | 'description' | 'difficulty_level' | 'recommended_frequency' | 'category'
+> & Partial<Pick<Exercise, 'cloned_from'>>;
+
+// recommended_frequency and category are left as they are when not given
+export type ExerciseUpdate = Pick<Exercise, 'title' | 'description' | 'difficulty_level'> &
+  Partial<Pick<Exercise, 'recommended_frequency' | 'category'>>;
+
+// Which part of the library to list: the therapist's own exercises, colleagues' shared ones, or both
+export type LibraryScope = 'mine' | 'shared' | 'all';
+
+export interface LibraryFilters {
+  scope: LibraryScope;
+  category?: string;
+  difficulty_level?: string;
+  recommended_frequency?: string;
+  search?: string; // Matched against the title and description
+}
+
+// One scheduled practice of an exercise towards a goal (a goal_exercise_set row)
+export interface GoalExerciseRow {
+  row_id: string;
+  goal_id: string;
+  exercise_id: string;
+  day_of_week: string | null; // The weekday's name when the practice has a date
+  week_number: number | null;
+  scheduled_date: string | null; // YYYY-MM-DD; null when the patient picks the day, or practises as needed
+  slot: string | null; // The named time of day, when practised more than once a day
+  slot_index: number; // Orders the slots within a day, or the practices within a week
+  completed: boolean;
+  completion_date: Date | null;
+  difficulty_rating: number | null;
+  completed_by: string | null; // the patient, or a carer who ticked the row on their behalf
+  created_at: Date;
+  exercise?: Exercise;
+  goal?: Goal;
+}
+
+// Where a new goal_exercise_set row sits in the goal's schedule (see services/exerciseSchedule.ts)
+export type GoalExerciseSlot = Pick<
+  GoalExerciseRow,
+  'day_of_week' | 'week_number' | 'scheduled_date' | 'slot' | 'slot_index'
+>;
+
+// The rule an exercise's rows for a goal were generated from (an exercise_schedule row)
+export interface ExerciseSchedule {
+  goal_id: string;
+  exercise_id: string;
+  rule: ScheduleRule;
+  start_date: string;
+  created_at: Date;
+}
+
+export type GoalExerciseRowUpdate = Partial<Pick<GoalExerciseRow, 'completed' | 'difficulty_rating'>>;
+
+// An exercise practised during a session (a session_exercise row)
+export interface SessionExercise {
+  session_id: string;
+  exercise_id: string;
+  completed: boolean;
+  completion_date: Date | null;
+  notes: string;
+  created_at: Date;
+  exercise?: Exercise;
+}
+
+const EXERCISE_COLUMNS = `
+  e.exercise_id, e.created_by, e.title, e.description, e.difficulty_level,
+  e.recommended_frequency, e.category, e.is_shared, e.cloned_from, e.created_at, e.updated_at
+`;
+
+// Joined exercise columns are prefixed so they cannot clash with the row's own columns
+const JOINED_EXERCISE_COLUMNS = `
+  e.created_by AS exercise_created_by, e.title AS exercise_title, e.description AS exercise_description,
+  e.difficulty_level AS exercise_difficulty_level, e.recommended_frequency AS exercise_recommended_frequency,
+  e.category AS exercise_category, e.is_shared AS exercise_is_shared, e.cloned_from AS exercise_cloned_from,
+  e.created_at AS exercise_created_at, e.updated_at AS exercise_updated_at
+`;
+
+const JOINED_GOAL_COLUMNS = `
+  g.plan_id AS goal_plan_id, g.goal_description AS goal_goal_description,
+  g.start_date AS goal_start_date, g.target_date AS goal_target_date, g.status AS goal_status,
+  g.priority AS goal_priority, g.created_at AS goal_created_at, g.updated_at AS goal_updated_at
+`;
+
+const mapJoinedExercise = (row: any): Exercise => ({
+  exercise_id: row.exercise_id,
+  created_by: row.exercise_created_by,
+  title: row.exercise_title,
+  description: row.exercise_description,
+  difficulty_level: row.exercise_difficulty_level,
+  recommended_frequency: row.exercise_recommended_frequency,
+  category: row.exercise_category,
+  is_shared: row.exercise_is_shared,
+  cloned_from: row.exercise_cloned_from,
+  created_at: row.exercise_created_at,
+  updated_at: row.exercise_updated_at
+});
+
+const mapJoinedGoal = (row: any): Goal => mapGoal({
+  goal_id: row.goal_id,
+  plan_id: row.goal_plan_id,
+  goal_description: row.goal_goal_description,
+  start_date: row.goal_start_date,
+  target_date: row.goal_target_date,
+  status: row.goal_status,
+  priority: row.goal_priority,
+  created_at: row.goal_created_at,
+  updated_at: row.goal_updated_at
+});
+
+const mapGoalExerciseRow = (row: any): GoalExerciseRow => ({
+  row_id: row.row_id,
+  goal_id: row.goal_id,
+  exercise_id: row.exercise_id,
+  day_of_week: row.day_of_week,
+  week_number: row.week_number,
+  scheduled_date: row.scheduled_date ? toDateString(row.scheduled_date) : null,
+  slot: row.slot,
+  slot_index: row.slot_index,
+  completed: row.completed,
+  completion_date: row.completion_date,
+  difficulty_rating: row.difficulty_rating,
+  completed_by: row.completed_by,
+  created_at: row.created_at
+});
+
+// Exercises
+
+export const findExerciseById = async (exerciseId: string): Promise<Exercise | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${EXERCISE_COLUMNS} FROM exercise e WHERE e.exercise_id = $1`,
+    [exerciseId]
+  );
+  return rows[0] || null;
+};
+
+/**
+ * The exercises a therapist can pick from, alphabetical
+ * Shared exercises are those colleagues at clinicName have published; with no clinic there are none
+ */
+export const findLibraryExercises = async (
+  therapistId: string,
+  clinicName: string | null,
+  filters: LibraryFilters
+): Promise<Exercise[]> => {
+  const values: any[] = [therapistId];
+  const conditions: string[] = [];
+
+  const own = 'e.created_by = $1';
+  let shared = 'FALSE';
+  if (clinicName) {
+    values.push(clinicName.toLowerCase());
+    shared = `(e.is_shared AND e.created_by <> $1 AND LOWER(u.clinic_name) = $${values.length})`;
+  }
+  conditions.push(filters.scope === 'mine' ? own : filters.scope === 'shared' ? shared : `(${own} OR ${shared})`);
+
+  for (const field of ['category', 'difficulty_level', 'recommended_frequency'] as const) {
+    if (filters[field]) {
+      values.push(filters[field]);
+      conditions.push(`e.${field} = $${values.length}`);
+    }
+  }
+  if (filters.search) {
+    values.push(`%${filters.search.toLowerCase()}%`);
+    conditions.push(`(LOWER(e.title) LIKE $${values.length} OR LOWER(e.description) LIKE $${values.length})`);
+  }
+
+  const { rows } = await pool.query(
+    `SELECT ${EXERCISE_COLUMNS}, u.first_name AS creator_first_name, u.last_name AS creator_last_name
+     FROM exercise e
+     JOIN users u ON u.id = e.created_by
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY e.title ASC`,
+    values
+  );
+  return rows.map(({ creator_first_name, creator_last_name, ...exercise }) => ({
+    ...exercise,
+    creator: { first_name: creator_first_name, last_name: creator_last_name }
+  }));
+};
+
+// Whether any other therapist's patients have the exercise in one of their goals
+export const isExerciseUsedByOthers = async (exerciseId: string, therapistId: string): Promise<boolean> => {
+  const { rows } = await pool.query(
+    `SELECT ges.row_id FROM goal_exercise_set ges
+     JOIN goal g ON g.goal_id = ges.goal_id
+     JOIN treatment_plan p ON p.plan_id = g.plan_id
+     WHERE ges.exercise_id = $1 AND p.therapist_id <> $2
+     LIMIT 1`,
+    [exerciseId, therapistId]
+  );
+  return rows.length > 0;
+};
+
+export const createExercise = async (data: NewExercise): Promise<Exercise> => {
+  const { rows } = await pool.query(
+    `INSERT INTO exercise (created_by, title, description, difficulty_level, recommended_frequency, category, cloned_from)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      data.created_by,
+      data.title,
+      data.description,
+      data.difficulty_level,
+      data.recommended_frequency,
+      data.category,
+      data.cloned_from || null
+    ]
+  );
+  return rows[0];
+};
+
+export const updateExercise = async (exerciseId: string, updates: ExerciseUpdate): Promise<Exercise | null> => {
+  const { rows } = await pool.query(
+    `UPDATE exercise
+     SET title = $2, description = $3, difficulty_level = $4,
+       recommended_frequency = COALESCE($5, recommended_frequency), category = COALESCE($6, category),
+       updated_at = NOW()
+     WHERE exercise_id = $1
+     RETURNING *`,
+    [
+      exerciseId,
+      updates.title,
+      updates.description,
+      updates.difficulty_level,
+      updates.recommended_frequency ?? null,
+      updates.category ?? null
+    ]
+  );
+  return rows[0] || null;
+};
+
+export const setExerciseShared = async (exerciseId: string, isShared: boolean): Promise<Exercise | null> => {
+  const { rows } = await pool.query(
+    'UPDATE exercise SET is_shared = $2, updated_at = NOW() WHERE exercise_id = $1 RETURNING *',
+    [exerciseId, isShared]
+  );
+  return rows[0] || null;
+};
+
+// goal_exercise_set and session_exercise rows for the exercise are removed by the foreign key cascade
+export const deleteExercise = async (exerciseId: string): Promise<void> => {
+  await pool.query('DELETE FROM exercise WHERE exercise_id = $1', [exerciseId]);
+};
+
+// Goal exercise rows (goal_exercise_set)
+
+export const findGoalExerciseRowById = async (rowId: string): Promise<GoalExerciseRow | null> => {
+  const { rows } = await pool.query('SELECT * FROM goal_exercise_set WHERE row_id = $1', [rowId]);
+  return rows[0] ? mapGoalExerciseRow(rows[0]) : null;
+};
+
+// Every row of a goal with its exercise, in the order the exercises were assigned then by when they are due
+export const findGoalExerciseRowsByGoal = async (goalId: string): Promise<GoalExerciseRow[]> => {
+  const { rows } = await pool.query(
+    `SELECT ges.*, ${JOINED_EXERCISE_COLUMNS}
+     FROM goal_exercise_set ges
+     JOIN exercise e ON e.exercise_id = ges.exercise_id
+     WHERE ges.goal_id = $1
+     ORDER BY ges.created_at ASC, ges.week_number ASC, ges.scheduled_date ASC, ges.slot_index ASC`,
+    [goalId]
+  );
+  return rows.map(row => ({ ...mapGoalExerciseRow(row), exercise: mapJoinedExercise(row) }));
+};
+
+// Every row across all of the patient's goals, with its exercise and goal
+export const findGoalExerciseRowsByPatient = async (patientId: string): Promise<GoalExerciseRow[]> => {
+  const { rows } = await pool.query(
+    `SELECT ges.*, ${JOINED_EXERCISE_COLUMNS}, ${JOINED_GOAL_COLUMNS}
+     FROM goal_exercise_set ges
+     JOIN exercise e ON e.exercise_id = ges.exercise_id
+     JOIN goal g ON g.goal_id = ges.goal_id
+     JOIN treatment_plan p ON p.plan_id = g.plan_id
+     WHERE p.patient_id = $1
+     ORDER BY ges.created_at ASC, ges.week_number ASC, ges.scheduled_date ASC, ges.slot_index ASC`,
+    [patientId]
+  );
+  return rows.map(row => ({
+    ...mapGoalExerciseRow(row),
+    exercise: mapJoinedExercise(row),
+    goal: mapJoinedGoal(row)
+  }));
+};
+
+// Inserts one row per slot in a single statement
+export const createGoalExerciseRows = async (
+  goalId: string,
+  exerciseId: string,
+  slots: GoalExerciseSlot[],
+  db: Queryable = pool
+): Promise<GoalExerciseRow[]> => {
+  const values: any[] = [goalId, exerciseId];
+  const placeholders = slots.map(slot => {
+    values.push(slot.day_of_week, slot.week_number, slot.scheduled_date, slot.slot, slot.slot_index);
+    const n = values.length;
+    return `($1, $2, $${n - 4}, $${n - 3}, $${n - 2}, $${n - 1}, $${n})`;
+  });
+
+  const { rows } = await db.query(
+    `INSERT INTO goal_exercise_set (goal_id, exercise_id, day_of_week, week_number, scheduled_date, slot, slot_index)
+     VALUES ${placeholders.join(', ')}
+     RETURNING *`,
+    values
+  );
+  return rows.map(mapGoalExerciseRow);
+};
+
+// Exercise schedules
+
+export const findExerciseSchedule = async (goalId: string, exerciseId: string): Promise<ExerciseSchedule | null> => {
+  const { rows } = await pool.query(
+    'SELECT * FROM exercise_schedule WHERE goal_id = $1 AND exercise_id = $2',
+    [goalId, exerciseId]
+  );
+  return rows[0] ? { ...rows[0], start_date: toDateString(rows[0].start_date) } : null;
+};
+
+export const findExerciseSchedulesByGoal = async (goalId: string): Promise<ExerciseSchedule[]> => {
+  const { rows } = await pool.query('SELECT * FROM exercise_schedule WHERE goal_id = $1', [goalId]);
+  return rows.map(row => ({ ...row, start_date: toDateString(row.start_date) }));
+};
+
+// Assigning an exercise to the same goal again replaces the rule its new rows came from
+export const saveExerciseSchedule = async (
+  goalId: string,
+  exerciseId: string,
+  rule: ScheduleRule,
+  startDate: string,
+  db: Queryable = pool
+): Promise<void> => {
+  await db.query('DELETE FROM exercise_schedule WHERE goal_id = $1 AND exercise_id = $2', [goalId, exerciseId]);
+  await db.query(
+    'INSERT INTO exercise_schedule (goal_id, exercise_id, rule, start_date) VALUES ($1, $2, $3, $4)',
+    [goalId, exerciseId, JSON.stringify(rule), startDate]
+  );
+};
+
+// The goal's rows the patient has recorded an attempt at
+export const findRecordedRowIds = async (goalId: string): Promise<string[]> => {
+  const { rows } = await pool.query(
+    `SELECT DISTINCT r.row_id
+     FROM exercise_recording r
+     JOIN goal_exercise_set ges ON ges.row_id = r.row_id
+     WHERE ges.goal_id = $1`,
+    [goalId]
+  );
+  return rows.map(row => row.row_id);
+};
+
+// Their recordings and prompt attempts go with them
+export const deleteGoalExerciseRows = async (rowIds: string[], db: Queryable = pool): Promise<void> => {
+  if (rowIds.length === 0) return;
+  const placeholders = rowIds.map((_, i) => `$${i + 1}`);
+  await db.query(`DELETE FROM goal_exercise_set WHERE row_id IN (${placeholders.join(', ')})`, rowIds);
+};
+
+// Only the fields present in updates are changed
+// Ticking a row timestamps it; unticking clears the timestamp
+// updatedBy is recorded as completed_by when the row is ticked
+export const updateGoalExerciseRow = async (
+  rowId: string,
+  updates: GoalExerciseRowUpdate,
+  updatedBy: string
+): Promise<GoalExerciseRow | null> => {
+  const assignments: string[] = [];
+  const values: any[] = [rowId];
+
+  if (updates.completed !== undefined) {
+    values.push(updates.completed);
+    assignments.push(`completed = $${values.length}`);
+    if (updates.completed) {
+      values.push(updatedBy);
+      assignments.push('completion_date = NOW()', `completed_by = $${values.length}`);
+    } else {
+      assignments.push('completion_date = NULL', 'completed_by = NULL');
+    }
+  }
+  if (updates.difficulty_rating !== undefined) {
+    values.push(updates.difficulty_rating);
+    assignments.push(`difficulty_rating = $${values.length}`);
+  }
+  if (assignments.length === 0) {
+    return findGoalExerciseRowById(rowId);
+  }
+
+  const { rows } = await pool.query(
+    `UPDATE goal_exercise_set SET ${assignments.join(', ')} WHERE row_id = $1 RETURNING *`,
+    values
+  );
+  return rows[0] ? mapGoalExerciseRow(rows[0]) : null;
+};
+
+// Session exercises (session_exercise)
+
+export const findSessionExercisesByPatient = async (patientId: string): Promise<SessionExercise[]> => {
+  const { rows } = await pool.query(
+    `SELECT se.*, ${JOINED_EXERCISE_COLUMNS}
+     FROM session_exercise se
+     JOIN exercise e ON e.exercise_id = se.exercise_id
+     JOIN session s ON s.session_id = se.session_id
+     WHERE s.patient_id = $1
+     ORDER BY se.created_at DESC`,
+    [patientId]
+  );
+  return rows.map(row => ({
+    session_id: row.session_id,
+    exercise_id: row.exercise_id,
+    completed: row.completed,
+    completion_date: row.completion_date,
+    notes: row.notes,
+    created_at: row.created_at,
+    exercise: mapJoinedExercise(row)
+  }));
+};
+
+export const markSessionExerciseComplete = async (
+  sessionId: string,
+  exerciseId: string
+): Promise<SessionExercise | null> => {
+  const { rows } = await pool.query(
+    `UPDATE session_exercise SET completed = TRUE, completion_date = NOW()
+     WHERE session_id = $1 AND exercise_id = $2
+     RETURNING *`,
+    [sessionId, exerciseId]
+  );
+  return rows[0] || null;
+};
+
+export const updateSessionExerciseNotes = async (
+  sessionId: string,
+  exerciseId: string,
+  notes: string
+): Promise<SessionExercise | null> => {
+  const { rows } = await pool.query(
+    `UPDATE session_exercise SET notes = $3
+     WHERE session_id = $1 AND exercise_id = $2
+     RETURNING *`,
+    [sessionId, exerciseId, notes]
+  );
+  return rows[0] || null;
+};
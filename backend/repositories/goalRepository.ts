@@ -0,0 +1,283 @@
+// backend/repositories/goalRepository.ts
+import pool from '../db';
+import { toDateString } from './dates';
+import { Queryable } from './transaction';
+
+// A therapy goal - same shape as the Supabase goal table
+export interface Goal {
+  goal_id: string;
+  plan_id: string; // The treatment plan the goal belongs to, which ties it to its patient and therapist
+  goal_description: string;
+  start_date: string;
+  target_date: string;
+  status: string;
+  priority: string;
+  // SMART parts of the goal; null when it was written as free text
+  specific_behaviour: string | null;
+  measurable_criterion: string | null; // e.g. "80% accuracy over 3 sessions"
+  context: string | null;
+  status_changed_at: Date | null;
+  carried_over_to: string | null; // The goal that continues a carried-over one
+  parent_goal_id: string | null; // Set for a short-term objective, to its long-term goal
+  weight: number; // How much an objective counts towards its long-term goal's progress
+  created_at: Date;
+  updated_at: Date;
+}
+
+// One change of a goal's status; from_status is null for the status it was created with
+export interface GoalStatusChange {
+  history_id: string;
+  goal_id: string;
+  from_status: string | null;
+  to_status: string;
+  reason: string | null;
+  changed_by: string | null;
+  changed_at: Date;
+  changer?: { first_name: string; last_name: string };
+}
+
+// The therapist's in-session measure of a goal, as a percentage
+export interface GoalMeasurement {
+  measurement_id: string;
+  goal_id: string;
+  measured_on: string;
+  score: number;
+  note: string | null;
+  recorded_by: string | null;
+  created_at: Date;
+}
+
+export type NewGoalMeasurement = Pick<GoalMeasurement, 'measured_on' | 'score' | 'note'>;
+
+export type SmartFields = Pick<Goal, 'specific_behaviour' | 'measurable_criterion' | 'context'>;
+
+export type NewGoal = Pick<Goal, 'plan_id' | 'goal_description' | 'start_date' | 'target_date' | 'status' | 'priority'>
+  & Partial<SmartFields>
+  & Partial<Pick<Goal, 'parent_goal_id' | 'weight'>>;
+
+// SMART fields and the weight left out keep their current values
+export type GoalUpdate = Pick<Goal, 'goal_description' | 'target_date' | 'priority'>
+  & Partial<SmartFields>
+  & Partial<Pick<Goal, 'weight'>>;
+
+const GOAL_COLUMNS = `
+  g.goal_id, g.plan_id, g.goal_description, g.start_date, g.target_date,
+  g.status, g.priority, g.specific_behaviour, g.measurable_criterion, g.context,
+  g.status_changed_at, g.carried_over_to, g.parent_goal_id, g.weight, g.created_at, g.updated_at
+`;
+
+export const mapGoal = (row: any): Goal => ({
+  goal_id: row.goal_id,
+  plan_id: row.plan_id,
+  goal_description: row.goal_description,
+  start_date: toDateString(row.start_date),
+  target_date: toDateString(row.target_date),
+  status: row.status,
+  priority: row.priority,
+  specific_behaviour: row.specific_behaviour ?? null,
+  measurable_criterion: row.measurable_criterion ?? null,
+  context: row.context ?? null,
+  status_changed_at: row.status_changed_at ?? null,
+  carried_over_to: row.carried_over_to ?? null,
+  parent_goal_id: row.parent_goal_id ?? null,
+  weight: row.weight ?? 1,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+export const findGoalById = async (goalId: string): Promise<Goal | null> => {
+  const { rows } = await pool.query(`SELECT ${GOAL_COLUMNS} FROM goal g WHERE g.goal_id = $1`, [goalId]);
+  return rows[0] ? mapGoal(rows[0]) : null;
+};
+
+// Goals in any of the patient's treatment plans, newest first
+export const findGoalsByPatient = async (patientId: string): Promise<Goal[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${GOAL_COLUMNS} FROM goal g
+     JOIN treatment_plan p ON p.plan_id = g.plan_id
+     WHERE p.patient_id = $1
+     ORDER BY g.created_at DESC`,
+    [patientId]
+  );
+  return rows.map(mapGoal);
+};
+
+// Current goals only (active, not drafts or ones on hold), soonest target date first
+export const findActiveGoalsByPatient = async (patientId: string): Promise<Goal[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${GOAL_COLUMNS} FROM goal g
+     JOIN treatment_plan p ON p.plan_id = g.plan_id
+     WHERE p.patient_id = $1 AND g.status = 'active'
+     ORDER BY g.target_date ASC`,
+    [patientId]
+  );
+  return rows.map(mapGoal);
+};
+
+// A long-term goal's short-term objectives, in the order they were set
+export const findObjectives = async (goalId: string): Promise<Goal[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${GOAL_COLUMNS} FROM goal g WHERE g.parent_goal_id = $1 ORDER BY g.created_at ASC`,
+    [goalId]
+  );
+  return rows.map(mapGoal);
+};
+
+// Moves objectives in the given statuses to another long-term goal
+export const moveObjectives = async (fromGoalId: string, toGoalId: string, statuses: string[]): Promise<void> => {
+  if (statuses.length === 0) return;
+  const placeholders = statuses.map((_, index) => `$${index + 3}`).join(', ');
+  await pool.query(
+    `UPDATE goal SET parent_goal_id = $2, updated_at = NOW()
+     WHERE parent_goal_id = $1 AND status IN (${placeholders})`,
+    [fromGoalId, toGoalId, ...statuses]
+  );
+};
+
+// Goals in a treatment plan that are still being worked on or prepared
+export const countOpenGoalsForPlan = async (planId: string): Promise<number> => {
+  const { rows } = await pool.query(
+    `SELECT COUNT(*)::int AS count FROM goal
+     WHERE plan_id = $1 AND status IN ('draft', 'active', 'on_hold')`,
+    [planId]
+  );
+  return rows[0].count;
+};
+
+export const createGoal = async (data: NewGoal): Promise<Goal> => {
+  const { rows } = await pool.query(
+    `INSERT INTO goal (
+       plan_id, goal_description, start_date, target_date, status, priority,
+       specific_behaviour, measurable_criterion, context, parent_goal_id, weight
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     RETURNING *`,
+    [
+      data.plan_id,
+      data.goal_description,
+      data.start_date,
+      data.target_date,
+      data.status,
+      data.priority,
+      data.specific_behaviour ?? null,
+      data.measurable_criterion ?? null,
+      data.context ?? null,
+      data.parent_goal_id ?? null,
+      data.weight ?? 1
+    ]
+  );
+  return mapGoal(rows[0]);
+};
+
+// Every field is written; the service fills in SMART fields the caller left out
+export const updateGoal = async (
+  goalId: string,
+  updates: Required<GoalUpdate>,
+  db: Queryable = pool
+): Promise<Goal | null> => {
+  const { rows } = await db.query(
+    `UPDATE goal
+     SET goal_description = $2, target_date = $3, priority = $4,
+       specific_behaviour = $5, measurable_criterion = $6, context = $7, weight = $8, updated_at = NOW()
+     WHERE goal_id = $1
+     RETURNING *`,
+    [
+      goalId,
+      updates.goal_description,
+      updates.target_date,
+      updates.priority,
+      updates.specific_behaviour,
+      updates.measurable_criterion,
+      updates.context,
+      updates.weight
+    ]
+  );
+  return rows[0] ? mapGoal(rows[0]) : null;
+};
+
+export const updateGoalStatus = async (
+  goalId: string,
+  status: string,
+  carriedOverTo: string | null = null
+): Promise<Goal | null> => {
+  const { rows } = await pool.query(
+    `UPDATE goal
+     SET status = $2, carried_over_to = $3, status_changed_at = NOW(), updated_at = NOW()
+     WHERE goal_id = $1
+     RETURNING *`,
+    [goalId, status, carriedOverTo]
+  );
+  return rows[0] ? mapGoal(rows[0]) : null;
+};
+
+export const recordGoalStatusChange = async (
+  change: Pick<GoalStatusChange, 'goal_id' | 'from_status' | 'to_status' | 'reason' | 'changed_by'>
+): Promise<void> => {
+  await pool.query(
+    `INSERT INTO goal_status_history (goal_id, from_status, to_status, reason, changed_by)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [change.goal_id, change.from_status, change.to_status, change.reason, change.changed_by]
+  );
+};
+
+// Oldest first, with who made each change
+export const findGoalStatusHistory = async (goalId: string): Promise<GoalStatusChange[]> => {
+  const { rows } = await pool.query(
+    `SELECT h.*, u.first_name AS changer_first_name, u.last_name AS changer_last_name
+     FROM goal_status_history h
+     LEFT JOIN users u ON u.id = h.changed_by
+     WHERE h.goal_id = $1
+     ORDER BY h.changed_at ASC`,
+    [goalId]
+  );
+  return rows.map(row => ({
+    history_id: row.history_id,
+    goal_id: row.goal_id,
+    from_status: row.from_status,
+    to_status: row.to_status,
+    reason: row.reason,
+    changed_by: row.changed_by,
+    changed_at: row.changed_at,
+    ...(row.changer_first_name && {
+      changer: { first_name: row.changer_first_name, last_name: row.changer_last_name }
+    })
+  }));
+};
+
+const mapMeasurement = (row: any): GoalMeasurement => ({
+  measurement_id: row.measurement_id,
+  goal_id: row.goal_id,
+  measured_on: toDateString(row.measured_on),
+  score: row.score,
+  note: row.note,
+  recorded_by: row.recorded_by,
+  created_at: row.created_at
+});
+
+export const createGoalMeasurement = async (
+  goalId: string,
+  recordedBy: string,
+  data: NewGoalMeasurement
+): Promise<GoalMeasurement> => {
+  const { rows } = await pool.query(
+    `INSERT INTO goal_measurement (goal_id, measured_on, score, note, recorded_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [goalId, data.measured_on, data.score, data.note, recordedBy]
+  );
+  return mapMeasurement(rows[0]);
+};
+
+// Newest first, which is the order the measurable criterion is checked in
+export const findGoalMeasurements = async (goalId: string): Promise<GoalMeasurement[]> => {
+  const { rows } = await pool.query(
+    `SELECT * FROM goal_measurement WHERE goal_id = $1 ORDER BY measured_on DESC, created_at DESC`,
+    [goalId]
+  );
+  return rows.map(mapMeasurement);
+};
+
+// Linked goal_exercise_set rows, and a long-term goal's objectives, are removed by the foreign key cascade
+export const deleteGoal = async (goalId: string): Promise<void> => {
+  await pool.query('DELETE FROM goal WHERE goal_id = $1', [goalId]);
+};
@@ -0,0 +1,156 @@
+// backend/repositories/goalTemplateRepository.ts
+// Reusable SMART goals and the exercises bundled with them
+import pool from '../db';
+import { ScheduleRule } from '../services/exerciseSchedule';
+
+// A goal a therapist can set for any patient in one step
+export interface GoalTemplate {
+  template_id: string;
+  created_by: string; // Therapist ID
+  title: string;
+  specific_behaviour: string;
+  measurable_criterion: string;
+  context: string; // Empty when the template doesn't say
+  timeframe_weeks: number; // The target date is this many weeks after the goal's start
+  priority: string;
+  is_shared: boolean; // Published to the therapist's clinic
+  created_at: Date;
+  updated_at: Date;
+  creator?: { first_name: string; last_name: string };
+  exercises: GoalTemplateExercise[];
+}
+
+// An exercise bundled with a template, in the order they are assigned
+export interface GoalTemplateExercise {
+  exercise_id: string;
+  title: string;
+  recommended_frequency: string;
+  position: number;
+  schedule: ScheduleRule | null; // null to use the rule the exercise's recommended frequency gives
+}
+
+export type GoalTemplateFields = Pick<
+  GoalTemplate,
+  'title' | 'specific_behaviour' | 'measurable_criterion' | 'context' | 'timeframe_weeks' | 'priority'
+>;
+
+export type TemplateExerciseInput = Pick<GoalTemplateExercise, 'exercise_id' | 'schedule'>;
+
+const TEMPLATE_COLUMNS = `
+  t.template_id, t.created_by, t.title, t.specific_behaviour, t.measurable_criterion, t.context,
+  t.timeframe_weeks, t.priority, t.is_shared, t.created_at, t.updated_at
+`;
+
+const mapTemplate = (row: any, exercises: GoalTemplateExercise[]): GoalTemplate => {
+  const { creator_first_name, creator_last_name, ...template } = row;
+  return {
+    ...template,
+    ...(creator_first_name !== undefined && { creator: { first_name: creator_first_name, last_name: creator_last_name } }),
+    exercises
+  };
+};
+
+// The bundled exercises of each template, keyed by template_id
+const findTemplateExercises = async (templateIds: string[]): Promise<Map<string, GoalTemplateExercise[]>> => {
+  const byTemplate = new Map<string, GoalTemplateExercise[]>(templateIds.map(id => [id, []]));
+  if (templateIds.length === 0) return byTemplate;
+
+  const placeholders = templateIds.map((_, i) => `$${i + 1}`);
+  const { rows } = await pool.query(
+    `SELECT gte.template_id, gte.exercise_id, gte.position, gte.schedule, e.title, e.recommended_frequency
+     FROM goal_template_exercise gte
+     JOIN exercise e ON e.exercise_id = gte.exercise_id
+     WHERE gte.template_id IN (${placeholders.join(', ')})
+     ORDER BY gte.position ASC`,
+    templateIds
+  );
+  rows.forEach(({ template_id, ...exercise }) => byTemplate.get(template_id)!.push(exercise));
+  return byTemplate;
+};
+
+// The therapist's own templates, and colleagues' ones shared with the same clinic, by title
+export const findGoalTemplates = async (therapistId: string, clinicName: string | null): Promise<GoalTemplate[]> => {
+  const values: any[] = [therapistId];
+  let shared = 'FALSE';
+  if (clinicName) {
+    values.push(clinicName.toLowerCase());
+    shared = 't.is_shared AND LOWER(u.clinic_name) = $2';
+  }
+
+  const { rows } = await pool.query(
+    `SELECT ${TEMPLATE_COLUMNS}, u.first_name AS creator_first_name, u.last_name AS creator_last_name
+     FROM goal_template t
+     JOIN users u ON u.id = t.created_by
+     WHERE t.created_by = $1 OR (${shared})
+     ORDER BY t.title ASC`,
+    values
+  );
+  const exercises = await findTemplateExercises(rows.map(row => row.template_id));
+  return rows.map(row => mapTemplate(row, exercises.get(row.template_id)!));
+};
+
+export const findGoalTemplateById = async (templateId: string): Promise<GoalTemplate | null> => {
+  const { rows } = await pool.query(`SELECT ${TEMPLATE_COLUMNS} FROM goal_template t WHERE t.template_id = $1`, [templateId]);
+  if (!rows[0]) return null;
+  const exercises = await findTemplateExercises([templateId]);
+  return mapTemplate(rows[0], exercises.get(templateId)!);
+};
+
+export const createGoalTemplate = async (createdBy: string, fields: GoalTemplateFields): Promise<string> => {
+  const { rows } = await pool.query(
+    `INSERT INTO goal_template (created_by, title, specific_behaviour, measurable_criterion, context, timeframe_weeks, priority)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING template_id`,
+    [
+      createdBy,
+      fields.title,
+      fields.specific_behaviour,
+      fields.measurable_criterion,
+      fields.context,
+      fields.timeframe_weeks,
+      fields.priority
+    ]
+  );
+  return rows[0].template_id;
+};
+
+export const updateGoalTemplate = async (templateId: string, fields: GoalTemplateFields): Promise<void> => {
+  await pool.query(
+    `UPDATE goal_template
+     SET title = $2, specific_behaviour = $3, measurable_criterion = $4, context = $5,
+       timeframe_weeks = $6, priority = $7, updated_at = NOW()
+     WHERE template_id = $1`,
+    [
+      templateId,
+      fields.title,
+      fields.specific_behaviour,
+      fields.measurable_criterion,
+      fields.context,
+      fields.timeframe_weeks,
+      fields.priority
+    ]
+  );
+};
+
+// Nothing points at a template's exercises, so they are simply rewritten
+export const replaceTemplateExercises = async (templateId: string, exercises: TemplateExerciseInput[]): Promise<void> => {
+  await pool.query('DELETE FROM goal_template_exercise WHERE template_id = $1', [templateId]);
+  for (const [position, exercise] of exercises.entries()) {
+    await pool.query(
+      'INSERT INTO goal_template_exercise (template_id, exercise_id, position, schedule) VALUES ($1, $2, $3, $4)',
+      [templateId, exercise.exercise_id, position, exercise.schedule ? JSON.stringify(exercise.schedule) : null]
+    );
+  }
+};
+
+export const setGoalTemplateShared = async (templateId: string, isShared: boolean): Promise<void> => {
+  await pool.query(
+    'UPDATE goal_template SET is_shared = $2, updated_at = NOW() WHERE template_id = $1',
+    [templateId, isShared]
+  );
+};
+
+// Goals already set from the template are unaffected; its goal_template_exercise rows go with it
+export const deleteGoalTemplate = async (templateId: string): Promise<void> => {
+  await pool.query('DELETE FROM goal_template WHERE template_id = $1', [templateId]);
+};
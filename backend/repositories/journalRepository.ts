@@ -0,0 +1,132 @@
+// backend/repositories/journalRepository.ts
+import pool from '../db';
+import { toDateString } from './dates';
+
+export type JournalVisibility = 'private' | 'shared';
+
+// One of a patient's journal entries - same shape as the Supabase journal_entry table
+export interface JournalEntry {
+  entry_id: string;
+  patient_id: string;
+  entry_date: string;
+  content: string;
+  mood: number;
+  confidence: number;
+  goal_id: string | null;
+  exercise_id: string | null;
+  visibility: JournalVisibility;
+  created_at: Date;
+  updated_at: Date;
+  // Joined in so entries can say what they were about
+  goal?: { goal_description: string } | null;
+  exercise?: { title: string } | null;
+}
+
+export type JournalEntryFields = Pick<
+  JournalEntry,
+  'entry_date' | 'content' | 'mood' | 'confidence' | 'goal_id' | 'exercise_id' | 'visibility'
+>;
+
+const ENTRY_COLUMNS = `
+  j.entry_id, j.patient_id, j.entry_date, j.content, j.mood, j.confidence,
+  j.goal_id, j.exercise_id, j.visibility, j.created_at, j.updated_at,
+  g.goal_description, e.title AS exercise_title
+`;
+
+const mapEntry = (row: any): JournalEntry => ({
+  entry_id: row.entry_id,
+  patient_id: row.patient_id,
+  entry_date: toDateString(row.entry_date),
+  content: row.content,
+  mood: row.mood,
+  confidence: row.confidence,
+  goal_id: row.goal_id,
+  exercise_id: row.exercise_id,
+  visibility: row.visibility,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+  goal: row.goal_id ? { goal_description: row.goal_description } : null,
+  exercise: row.exercise_id ? { title: row.exercise_title } : null
+});
+
+const findEntries = async (where: string, params: any[]): Promise<JournalEntry[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${ENTRY_COLUMNS}
+     FROM journal_entry j
+     LEFT JOIN goal g ON g.goal_id = j.goal_id
+     LEFT JOIN exercise e ON e.exercise_id = j.exercise_id
+     WHERE ${where}
+     ORDER BY j.entry_date DESC, j.created_at DESC`,
+    params
+  );
+  return rows.map(mapEntry);
+};
+
+export const findEntryById = async (entryId: string): Promise<JournalEntry | null> => {
+  return (await findEntries('j.entry_id = $1', [entryId]))[0] || null;
+};
+
+// Newest first; sharedOnly leaves out the entries the patient kept private
+export const findEntriesByPatient = async (patientId: string, sharedOnly: boolean = false): Promise<JournalEntry[]> => {
+  return findEntries(
+    `j.patient_id = $1 ${sharedOnly ? `AND j.visibility = 'shared'` : ''}`,
+    [patientId]
+  );
+};
+
+// Whether the exercise has been assigned to any of the patient's goals
+export const isExerciseAssignedToPatient = async (exerciseId: string, patientId: string): Promise<boolean> => {
+  const { rows } = await pool.query(
+    `SELECT ges.row_id FROM goal_exercise_set ges
+     JOIN goal g ON g.goal_id = ges.goal_id
+     JOIN treatment_plan p ON p.plan_id = g.plan_id
+     WHERE ges.exercise_id = $1 AND p.patient_id = $2
+     LIMIT 1`,
+    [exerciseId, patientId]
+  );
+  return rows.length > 0;
+};
+
+export const createEntry = async (patientId: string, fields: JournalEntryFields): Promise<JournalEntry> => {
+  const { rows } = await pool.query(
+    `INSERT INTO journal_entry (patient_id, entry_date, content, mood, confidence, goal_id, exercise_id, visibility)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING entry_id`,
+    [
+      patientId,
+      fields.entry_date,
+      fields.content,
+      fields.mood,
+      fields.confidence,
+      fields.goal_id,
+      fields.exercise_id,
+      fields.visibility
+    ]
+  );
+  return (await findEntryById(rows[0].entry_id))!;
+};
+
+export const updateEntry = async (entryId: string, fields: JournalEntryFields): Promise<JournalEntry | null> => {
+  const { rows } = await pool.query(
+    `UPDATE journal_entry
+     SET entry_date = $2, content = $3, mood = $4, confidence = $5,
+       goal_id = $6, exercise_id = $7, visibility = $8, updated_at = NOW()
+     WHERE entry_id = $1
+     RETURNING entry_id`,
+    [
+      entryId,
+      fields.entry_date,
+      fields.content,
+      fields.mood,
+      fields.confidence,
+      fields.goal_id,
+      fields.exercise_id,
+      fields.visibility
+    ]
+  );
+  return rows[0] ? findEntryById(entryId) : null;
+};
+
+export const deleteEntry = async (entryId: string): Promise<void> => {
+  await pool.query('DELETE FROM journal_entry WHERE entry_id = $1', [entryId]);
+};
@@ -0,0 +1,112 @@
+// backend/repositories/patientRepository.ts
+import pool from '../db';
+import { toDateString } from './dates';
+
+// Patient as returned by the domain API - same shape as the Supabase patient table
+export interface Patient {
+  user_id: string;
+  username: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone_number: string;
+  date_of_birth: string;
+  user_role: 'patient';
+  therapy_start_date: string | null;
+  preferred_contact_method: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Therapist as returned by the domain API - same shape as the Supabase therapist table
+export interface Therapist {
+  user_id: string;
+  username: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone_number: string;
+  date_of_birth: string;
+  user_role: 'therapist';
+  qualification: string | null;
+  years_of_experience: number | null;
+  clinic_name: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Patients and therapists are both rows in users; u is the users alias in every query below
+const PATIENT_COLUMNS = `
+  u.id AS user_id, u.username, u.email, u.first_name, u.last_name, u.phone_number,
+  u.date_of_birth, u.role AS user_role, u.therapy_start_date, u.preferred_contact_method,
+  u.created_at, u.updated_at
+`;
+
+const THERAPIST_COLUMNS = `
+  u.id AS user_id, u.username, u.email, u.first_name, u.last_name, u.phone_number,
+  u.date_of_birth, u.role AS user_role, u.qualification, u.years_of_experience, u.clinic_name,
+  u.created_at, u.updated_at
+`;
+
+const mapPatient = (row: any): Patient => ({
+  ...row,
+  date_of_birth: toDateString(row.date_of_birth),
+  therapy_start_date: row.therapy_start_date ? toDateString(row.therapy_start_date) : null
+});
+
+const mapTherapist = (row: any): Therapist => ({
+  ...row,
+  date_of_birth: toDateString(row.date_of_birth)
+});
+
+export const findPatientById = async (patientId: string): Promise<Patient | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${PATIENT_COLUMNS} FROM users u WHERE u.id = $1 AND u.role = 'patient'`,
+    [patientId]
+  );
+  return rows[0] ? mapPatient(rows[0]) : null;
+};
+
+export const findPatientByEmail = async (email: string): Promise<Patient | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${PATIENT_COLUMNS} FROM users u WHERE u.email = $1 AND u.role = 'patient'`,
+    [email]
+  );
+  return rows[0] ? mapPatient(rows[0]) : null;
+};
+
+// Every patient who has accepted the therapist, newest accounts first
+export const findPatientsByTherapist = async (therapistId: string): Promise<Patient[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${PATIENT_COLUMNS} FROM users u
+     WHERE u.role = 'patient'
+       AND u.id IN (SELECT patient_id FROM therapist_patient_link WHERE therapist_id = $1)
+     ORDER BY u.created_at DESC`,
+    [therapistId]
+  );
+  return rows.map(mapPatient);
+};
+
+// Every patient the carer has been linked to, in name order
+export const findPatientsByCarer = async (carerId: string): Promise<Patient[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${PATIENT_COLUMNS} FROM users u
+     WHERE u.role = 'patient'
+       AND u.id IN (SELECT patient_id FROM carer_patient_link WHERE carer_id = $1)
+     ORDER BY u.first_name, u.last_name`,
+    [carerId]
+  );
+  return rows.map(mapPatient);
+};
+
+// Every therapist the patient has accepted
+export const findTherapistsByPatient = async (patientId: string): Promise<Therapist[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${THERAPIST_COLUMNS} FROM users u
+     WHERE u.role = 'therapist'
+       AND u.id IN (SELECT therapist_id FROM therapist_patient_link WHERE patient_id = $1)
+     ORDER BY u.last_name, u.first_name`,
+    [patientId]
+  );
+  return rows.map(mapTherapist);
+};
@@ -0,0 +1,212 @@
+// backend/repositories/recordingRepository.ts
+import pool from '../db';
+import { FluencyMetrics } from '../services/fluencyAnalysis';
+import { toDateString } from './dates';
+
+// A therapist's comment on a moment in a recording (a recording_comment row)
+export interface RecordingComment {
+  comment_id: string;
+  recording_id: string;
+  author_id: string;
+  position_seconds: number;
+  content: string;
+  created_at: Date;
+  author?: { first_name: string; last_name: string };
+}
+
+// An attempt at an exercise row the patient recorded - same shape as the Supabase exercise_recording table
+// The fluency measures are null until the audio has been analysed
+export interface ExerciseRecording extends NullableMetrics {
+  recording_id: string;
+  row_id: string;
+  patient_id: string;
+  storage_key: string;
+  mime_type: string;
+  size_bytes: number;
+  duration_seconds: number | null;
+  reviewed_at: Date | null;
+  reviewed_by: string | null;
+  created_at: Date;
+  // Joined in so the recording can say which practice it was
+  row?: {
+    day_of_week: string | null;
+    week_number: number | null;
+    scheduled_date: string | null;
+    slot: string | null;
+    goal_id: string;
+  };
+  exercise?: { exercise_id: string; title: string };
+  comments?: RecordingComment[];
+}
+
+type NullableMetrics = { [K in keyof FluencyMetrics]: FluencyMetrics[K] | null } & { analyzed_at: Date | null };
+
+export type NewRecording = Pick<
+  ExerciseRecording,
+  'row_id' | 'patient_id' | 'storage_key' | 'mime_type' | 'size_bytes' | 'duration_seconds'
+>;
+
+const RECORDING_COLUMNS = `
+  r.recording_id, r.row_id, r.patient_id, r.storage_key, r.mime_type, r.size_bytes,
+  r.duration_seconds, r.reviewed_at, r.reviewed_by, r.created_at,
+  r.speaking_ms, r.pause_count, r.pause_ms, r.syllable_count, r.syllables_per_minute, r.longest_fluent_ms, r.analyzed_at,
+  ges.day_of_week, ges.week_number, ges.scheduled_date, ges.slot, ges.goal_id, e.exercise_id, e.title AS exercise_title
+`;
+
+const mapRecording = (row: any): ExerciseRecording => ({
+  recording_id: row.recording_id,
+  row_id: row.row_id,
+  patient_id: row.patient_id,
+  storage_key: row.storage_key,
+  mime_type: row.mime_type,
+  size_bytes: row.size_bytes,
+  duration_seconds: row.duration_seconds,
+  reviewed_at: row.reviewed_at,
+  reviewed_by: row.reviewed_by,
+  created_at: row.created_at,
+  speaking_ms: row.speaking_ms,
+  pause_count: row.pause_count,
+  pause_ms: row.pause_ms,
+  syllable_count: row.syllable_count,
+  syllables_per_minute: row.syllables_per_minute,
+  longest_fluent_ms: row.longest_fluent_ms,
+  analyzed_at: row.analyzed_at,
+  row: {
+    day_of_week: row.day_of_week,
+    week_number: row.week_number,
+    scheduled_date: row.scheduled_date ? toDateString(row.scheduled_date) : null,
+    slot: row.slot,
+    goal_id: row.goal_id
+  },
+  exercise: { exercise_id: row.exercise_id, title: row.exercise_title }
+});
+
+const mapComment = (row: any): RecordingComment => ({
+  comment_id: row.comment_id,
+  recording_id: row.recording_id,
+  author_id: row.author_id,
+  position_seconds: row.position_seconds,
+  content: row.content,
+  created_at: row.created_at,
+  author: { first_name: row.author_first_name, last_name: row.author_last_name }
+});
+
+// Newest recording first
+const findRecordings = async (where: string, params: any[]): Promise<ExerciseRecording[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${RECORDING_COLUMNS}
+     FROM exercise_recording r
+     JOIN goal_exercise_set ges ON ges.row_id = r.row_id
+     JOIN exercise e ON e.exercise_id = ges.exercise_id
+     WHERE ${where}
+     ORDER BY r.created_at DESC`,
+    params
+  );
+  return rows.map(mapRecording);
+};
+
+export const findRecordingById = async (recordingId: string): Promise<ExerciseRecording | null> => {
+  return (await findRecordings('r.recording_id = $1', [recordingId]))[0] || null;
+};
+
+export const findRecordingsByRow = async (rowId: string): Promise<ExerciseRecording[]> => {
+  return findRecordings('r.row_id = $1', [rowId]);
+};
+
+export const findRecordingsByPatient = async (patientId: string): Promise<ExerciseRecording[]> => {
+  return findRecordings('r.patient_id = $1', [patientId]);
+};
+
+// Oldest comment first, so they read in the order they were left
+const findComments = async (where: string, params: any[]): Promise<RecordingComment[]> => {
+  const { rows } = await pool.query(
+    `SELECT c.comment_id, c.recording_id, c.author_id, c.position_seconds, c.content, c.created_at,
+       a.first_name AS author_first_name, a.last_name AS author_last_name
+     FROM recording_comment c
+     JOIN exercise_recording r ON r.recording_id = c.recording_id
+     JOIN users a ON a.id = c.author_id
+     WHERE ${where}
+     ORDER BY c.created_at ASC`,
+    params
+  );
+  return rows.map(mapComment);
+};
+
+export const findCommentsByRecording = async (recordingId: string): Promise<RecordingComment[]> => {
+  return findComments('c.recording_id = $1', [recordingId]);
+};
+
+export const findCommentsByRow = async (rowId: string): Promise<RecordingComment[]> => {
+  return findComments('r.row_id = $1', [rowId]);
+};
+
+export const findCommentsByPatient = async (patientId: string): Promise<RecordingComment[]> => {
+  return findComments('r.patient_id = $1', [patientId]);
+};
+
+export const createRecording = async (recording: NewRecording): Promise<ExerciseRecording> => {
+  const { rows } = await pool.query(
+    `INSERT INTO exercise_recording (row_id, patient_id, storage_key, mime_type, size_bytes, duration_seconds)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING recording_id`,
+    [
+      recording.row_id,
+      recording.patient_id,
+      recording.storage_key,
+      recording.mime_type,
+      recording.size_bytes,
+      recording.duration_seconds
+    ]
+  );
+  return (await findRecordingById(rows[0].recording_id))!;
+};
+
+// Stores the fluency measures; returns null if the recording had already been analysed
+export const saveMetrics = async (recordingId: string, metrics: FluencyMetrics): Promise<ExerciseRecording | null> => {
+  const { rows } = await pool.query(
+    `UPDATE exercise_recording
+     SET speaking_ms = $2, pause_count = $3, pause_ms = $4, syllable_count = $5,
+       syllables_per_minute = $6, longest_fluent_ms = $7, analyzed_at = NOW()
+     WHERE recording_id = $1 AND analyzed_at IS NULL
+     RETURNING recording_id`,
+    [
+      recordingId,
+      metrics.speaking_ms,
+      metrics.pause_count,
+      metrics.pause_ms,
+      metrics.syllable_count,
+      metrics.syllables_per_minute,
+      metrics.longest_fluent_ms
+    ]
+  );
+  return rows[0] ? findRecordingById(recordingId) : null;
+};
+
+// Returns null if the recording had already been reviewed
+export const markReviewed = async (recordingId: string, reviewerId: string): Promise<ExerciseRecording | null> => {
+  const { rows } = await pool.query(
+    `UPDATE exercise_recording SET reviewed_at = NOW(), reviewed_by = $2
+     WHERE recording_id = $1 AND reviewed_at IS NULL
+     RETURNING recording_id`,
+    [recordingId, reviewerId]
+  );
+  return rows[0] ? findRecordingById(recordingId) : null;
+};
+
+export const deleteRecording = async (recordingId: string): Promise<void> => {
+  await pool.query('DELETE FROM exercise_recording WHERE recording_id = $1', [recordingId]);
+};
+
+export const createComment = async (
+  recordingId: string,
+  authorId: string,
+  positionSeconds: number,
+  content: string
+): Promise<RecordingComment> => {
+  const { rows } = await pool.query(
+    `INSERT INTO recording_comment (recording_id, author_id, position_seconds, content) VALUES ($1, $2, $3, $4)
+     RETURNING comment_id`,
+    [recordingId, authorId, positionSeconds, content]
+  );
+  return (await findComments('c.comment_id = $1', [rows[0].comment_id]))[0];
+};
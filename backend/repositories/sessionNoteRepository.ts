@@ -0,0 +1,190 @@
+// backend/repositories/sessionNoteRepository.ts
+import pool from '../db';
+import { toDateString } from './dates';
+
+export type NoteStatus = 'draft' | 'signed';
+
+// A later addition to a signed note (a session_note_addendum row)
+export interface NoteAddendum {
+  addendum_id: string;
+  note_id: string;
+  author_id: string;
+  content: string;
+  created_at: Date;
+  author?: { first_name: string; last_name: string };
+}
+
+// A therapist's SOAP note for one session - same shape as the Supabase session_note table
+export interface SessionNote {
+  note_id: string;
+  session_id: string;
+  author_id: string;
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  tags: string[];
+  status: NoteStatus;
+  signed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  // Joined in by the read queries
+  session?: { session_date: string; session_time: string; session_type: string };
+  author?: { first_name: string; last_name: string };
+  addenda?: NoteAddendum[];
+}
+
+export type NoteContent = Pick<SessionNote, 'subjective' | 'objective' | 'assessment' | 'plan' | 'tags'>;
+
+const NOTE_COLUMNS = `
+  n.note_id, n.session_id, n.author_id, n.subjective, n.objective, n.assessment, n.plan,
+  n.tags, n.status, n.signed_at, n.created_at, n.updated_at
+`;
+
+// s is the note's session and a its author in every joined query below
+const JOINED_COLUMNS = `
+  s.session_date, s.session_time, s.session_type,
+  a.first_name AS author_first_name, a.last_name AS author_last_name
+`;
+
+const mapNote = (row: any): SessionNote => ({
+  note_id: row.note_id,
+  session_id: row.session_id,
+  author_id: row.author_id,
+  subjective: row.subjective,
+  objective: row.objective,
+  assessment: row.assessment,
+  plan: row.plan,
+  tags: row.tags,
+  status: row.status,
+  signed_at: row.signed_at,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+const mapJoinedNote = (row: any): SessionNote => ({
+  ...mapNote(row),
+  session: {
+    session_date: toDateString(row.session_date),
+    session_time: row.session_time,
+    session_type: row.session_type
+  },
+  author: { first_name: row.author_first_name, last_name: row.author_last_name }
+});
+
+const mapAddendum = (row: any): NoteAddendum => ({
+  addendum_id: row.addendum_id,
+  note_id: row.note_id,
+  author_id: row.author_id,
+  content: row.content,
+  created_at: row.created_at,
+  author: { first_name: row.author_first_name, last_name: row.author_last_name }
+});
+
+export const findNoteBySession = async (sessionId: string): Promise<SessionNote | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${NOTE_COLUMNS}, ${JOINED_COLUMNS}
+     FROM session_note n
+     JOIN session s ON s.session_id = n.session_id
+     JOIN users a ON a.id = n.author_id
+     WHERE n.session_id = $1`,
+    [sessionId]
+  );
+  return rows[0] ? mapJoinedNote(rows[0]) : null;
+};
+
+// Notes from all of the patient's sessions, in the order the sessions took place
+export const findNotesByPatient = async (patientId: string): Promise<SessionNote[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${NOTE_COLUMNS}, ${JOINED_COLUMNS}
+     FROM session_note n
+     JOIN session s ON s.session_id = n.session_id
+     JOIN users a ON a.id = n.author_id
+     WHERE s.patient_id = $1
+     ORDER BY s.session_date ASC, s.session_time ASC`,
+    [patientId]
+  );
+  return rows.map(mapJoinedNote);
+};
+
+const findAddenda = async (where: string, params: any[]): Promise<NoteAddendum[]> => {
+  const { rows } = await pool.query(
+    `SELECT d.addendum_id, d.note_id, d.author_id, d.content, d.created_at,
+       a.first_name AS author_first_name, a.last_name AS author_last_name
+     FROM session_note_addendum d
+     JOIN session_note n ON n.note_id = d.note_id
+     JOIN session s ON s.session_id = n.session_id
+     JOIN users a ON a.id = d.author_id
+     WHERE ${where}
+     ORDER BY d.created_at ASC`,
+    params
+  );
+  return rows.map(mapAddendum);
+};
+
+export const findAddendaByNote = async (noteId: string): Promise<NoteAddendum[]> => {
+  return findAddenda('d.note_id = $1', [noteId]);
+};
+
+export const findAddendaByPatient = async (patientId: string): Promise<NoteAddendum[]> => {
+  return findAddenda('s.patient_id = $1', [patientId]);
+};
+
+export const createNote = async (sessionId: string, authorId: string, content: NoteContent): Promise<SessionNote> => {
+  const { rows } = await pool.query(
+    `INSERT INTO session_note (session_id, author_id, subjective, objective, assessment, plan, tags)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [sessionId, authorId, content.subjective, content.objective, content.assessment, content.plan, content.tags]
+  );
+  return mapNote(rows[0]);
+};
+
+// Only drafts can change; returns null if the note has been signed
+export const updateDraftNote = async (noteId: string, content: NoteContent): Promise<SessionNote | null> => {
+  const { rows } = await pool.query(
+    `UPDATE session_note
+     SET subjective = $2, objective = $3, assessment = $4, plan = $5, tags = $6, updated_at = NOW()
+     WHERE note_id = $1 AND status = 'draft'
+     RETURNING *`,
+    [noteId, content.subjective, content.objective, content.assessment, content.plan, content.tags]
+  );
+  return rows[0] ? mapNote(rows[0]) : null;
+};
+
+// Returns null if the note was already signed
+export const signNote = async (noteId: string): Promise<SessionNote | null> => {
+  const { rows } = await pool.query(
+    `UPDATE session_note
+     SET status = 'signed', signed_at = NOW(), updated_at = NOW()
+     WHERE note_id = $1 AND status = 'draft'
+     RETURNING *`,
+    [noteId]
+  );
+  return rows[0] ? mapNote(rows[0]) : null;
+};
+
+export const createAddendum = async (noteId: string, authorId: string, content: string): Promise<NoteAddendum> => {
+  const { rows } = await pool.query(
+    `INSERT INTO session_note_addendum (note_id, author_id, content) VALUES ($1, $2, $3)
+     RETURNING addendum_id`,
+    [noteId, authorId, content]
+  );
+  return (await findAddenda('d.addendum_id = $1', [rows[0].addendum_id]))[0];
+};
+
+export const countNotesForSession = async (sessionId: string): Promise<number> => {
+  const { rows } = await pool.query('SELECT COUNT(*)::int AS count FROM session_note WHERE session_id = $1', [sessionId]);
+  return rows[0].count;
+};
+
+// Notes on a series' sessions; fromDate limits it to sessions on that date and later
+export const countNotesForSeries = async (seriesId: string, fromDate?: string): Promise<number> => {
+  const { rows } = await pool.query(
+    `SELECT COUNT(*)::int AS count FROM session_note n
+     JOIN session s ON s.session_id = n.session_id
+     WHERE s.series_id = $1 ${fromDate ? 'AND s.session_date >= $2' : ''}`,
+    fromDate ? [seriesId, fromDate] : [seriesId]
+  );
+  return rows[0].count;
+};
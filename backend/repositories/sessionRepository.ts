@@ -0,0 +1,318 @@
+// backend/repositories/sessionRepository.ts
+import pool from '../db';
+import { Queryable } from './transaction';
+import { toDateString } from './dates';
+
+// A therapy session - same shape as the Supabase session table
+export interface Session {
+  session_id: string;
+  patient_id: string;
+  therapist_id: string;
+  session_date: string;
+  session_time: string;
+  session_type: string;
+  duration_minutes: number;
+  status: string;
+  // Why the status last changed (e.g. the patient's reason for cancelling) and when
+  status_reason: string | null;
+  status_changed_at: Date | null;
+  // Set on a rescheduled session: the session that replaced it
+  rescheduled_to: string | null;
+  location: string | null;
+  // Set when the session is one occurrence of a recurring series
+  series_id: string | null;
+  // Goes up by one on every change, so calendar apps know to replace their copy
+  revision: number;
+  created_at: Date;
+  updated_at: Date;
+  // Joined in by the list queries, like the Supabase foreign-table selects
+  patient?: { user_id: string; first_name: string; last_name: string; email: string };
+  therapist?: { first_name: string; last_name: string; qualification: string | null };
+}
+
+export interface NewSession {
+  patient_id: string;
+  therapist_id: string;
+  session_date: string;
+  session_time: string;
+  session_type: string;
+  duration_minutes: number;
+  status: string;
+  location: string | null;
+  series_id: string | null;
+}
+
+export type SessionUpdate = Pick<Session, 'session_date' | 'session_time' | 'session_type' | 'duration_minutes' | 'location'>;
+
+const SESSION_COLUMNS = `
+  s.session_id, s.patient_id, s.therapist_id, s.session_date, s.session_time,
+  s.session_type, s.duration_minutes, s.status, s.status_reason, s.status_changed_at, s.rescheduled_to,
+  s.location, s.series_id, s.revision, s.created_at, s.updated_at
+`;
+
+const mapSession = (row: any): Session => ({
+  session_id: row.session_id,
+  patient_id: row.patient_id,
+  therapist_id: row.therapist_id,
+  session_date: toDateString(row.session_date),
+  session_time: row.session_time,
+  session_type: row.session_type,
+  duration_minutes: row.duration_minutes,
+  status: row.status,
+  status_reason: row.status_reason,
+  status_changed_at: row.status_changed_at,
+  rescheduled_to: row.rescheduled_to,
+  location: row.location,
+  series_id: row.series_id,
+  revision: row.revision,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+export const findSessionById = async (sessionId: string): Promise<Session | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${SESSION_COLUMNS} FROM session s WHERE s.session_id = $1`,
+    [sessionId]
+  );
+  return rows[0] ? mapSession(rows[0]) : null;
+};
+
+// Reads a session inside a transaction and locks it until the transaction ends,
+// so two changes to the same session wait for each other instead of both going ahead
+export const lockSessionById = async (sessionId: string, db: Queryable): Promise<Session | null> => {
+  const { rows } = await db.query(
+    `SELECT ${SESSION_COLUMNS} FROM session s WHERE s.session_id = $1 FOR UPDATE`,
+    [sessionId]
+  );
+  return rows[0] ? mapSession(rows[0]) : null;
+};
+
+// Most recent sessions first, each with basic patient details
+export const findSessionsByTherapist = async (therapistId: string, limit: number): Promise<Session[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${SESSION_COLUMNS},
+       p.first_name AS patient_first_name, p.last_name AS patient_last_name, p.email AS patient_email
+     FROM session s
+     JOIN users p ON p.id = s.patient_id
+     WHERE s.therapist_id = $1
+     ORDER BY s.session_date DESC, s.session_time DESC
+     LIMIT $2`,
+    [therapistId, limit]
+  );
+  return rows.map(row => ({
+    ...mapSession(row),
+    patient: {
+      user_id: row.patient_id,
+      first_name: row.patient_first_name,
+      last_name: row.patient_last_name,
+      email: row.patient_email
+    }
+  }));
+};
+
+// All of a patient's sessions (past and upcoming), newest first, each with basic therapist details
+export const findSessionsByPatient = async (patientId: string): Promise<Session[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${SESSION_COLUMNS},
+       t.first_name AS therapist_first_name, t.last_name AS therapist_last_name,
+       t.qualification AS therapist_qualification
+     FROM session s
+     JOIN users t ON t.id = s.therapist_id
+     WHERE s.patient_id = $1
+     ORDER BY s.session_date DESC, s.session_time DESC`,
+    [patientId]
+  );
+  return rows.map(row => ({
+    ...mapSession(row),
+    therapist: {
+      first_name: row.therapist_first_name,
+      last_name: row.therapist_last_name,
+      qualification: row.therapist_qualification
+    }
+  }));
+};
+
+// The therapist's booked sessions between two dates (inclusive), in time order - used to spot double bookings
+// Cancelled and rescheduled sessions have given their time back, so they are left out
+export const findTherapistSessionsBetween = async (
+  therapistId: string,
+  fromDate: string,
+  toDate: string
+): Promise<Session[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${SESSION_COLUMNS} FROM session s
+     WHERE s.therapist_id = $1 AND s.session_date >= $2 AND s.session_date <= $3
+       AND s.status NOT IN ('cancelled_by_patient', 'cancelled_by_therapist', 'rescheduled')
+     ORDER BY s.session_date ASC, s.session_time ASC`,
+    [therapistId, fromDate, toDate]
+  );
+  return rows.map(mapSession);
+};
+
+// Every session the user takes part in, as patient or therapist, with both people's names
+export const findCalendarSessions = async (userId: string): Promise<Session[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${SESSION_COLUMNS},
+       p.first_name AS patient_first_name, p.last_name AS patient_last_name, p.email AS patient_email,
+       t.first_name AS therapist_first_name, t.last_name AS therapist_last_name,
+       t.qualification AS therapist_qualification
+     FROM session s
+     JOIN users p ON p.id = s.patient_id
+     JOIN users t ON t.id = s.therapist_id
+     WHERE s.patient_id = $1 OR s.therapist_id = $1
+     ORDER BY s.session_date ASC, s.session_time ASC`,
+    [userId]
+  );
+  return rows.map(row => ({
+    ...mapSession(row),
+    patient: {
+      user_id: row.patient_id,
+      first_name: row.patient_first_name,
+      last_name: row.patient_last_name,
+      email: row.patient_email
+    },
+    therapist: {
+      first_name: row.therapist_first_name,
+      last_name: row.therapist_last_name,
+      qualification: row.therapist_qualification
+    }
+  }));
+};
+
+// The status of every session the therapist has had with each patient - enough to work out attendance
+export const findSessionStatusesByTherapist = async (
+  therapistId: string
+): Promise<{ patient_id: string; status: string }[]> => {
+  const { rows } = await pool.query(
+    'SELECT patient_id, status FROM session WHERE therapist_id = $1',
+    [therapistId]
+  );
+  return rows;
+};
+
+export const createSession = async (data: NewSession, db: Queryable = pool): Promise<Session> => {
+  const [session] = await createSessions([data], db);
+  return session;
+};
+
+// Inserts several sessions in one statement, e.g. every occurrence of a new series
+export const createSessions = async (data: NewSession[], db: Queryable = pool): Promise<Session[]> => {
+  const values: any[] = [];
+  const placeholders = data.map(session => {
+    values.push(
+      session.patient_id,
+      session.therapist_id,
+      session.session_date,
+      session.session_time,
+      session.session_type,
+      session.duration_minutes,
+      session.status,
+      session.location,
+      session.series_id
+    );
+    const start = values.length - 8;
+    return `(${Array.from({ length: 9 }, (_, i) => `$${start + i}`).join(', ')})`;
+  });
+
+  const { rows } = await db.query(
+    `INSERT INTO session
+       (patient_id, therapist_id, session_date, session_time, session_type, duration_minutes, status, location, series_id)
+     VALUES ${placeholders.join(', ')}
+     RETURNING *`,
+    values
+  );
+  return rows.map(mapSession);
+};
+
+// A series' sessions in date order; fromDate limits it to that date and later
+export const findSeriesSessions = async (seriesId: string, fromDate?: string, db: Queryable = pool): Promise<Session[]> => {
+  const { rows } = await db.query(
+    `SELECT ${SESSION_COLUMNS} FROM session s
+     WHERE s.series_id = $1 ${fromDate ? 'AND s.session_date >= $2' : ''}
+     ORDER BY s.session_date ASC, s.session_time ASC`,
+    fromDate ? [seriesId, fromDate] : [seriesId]
+  );
+  return rows.map(mapSession);
+};
+
+// Hands a series' sessions from fromDate onwards over to another series
+export const moveSeriesSessions = async (
+  seriesId: string,
+  newSeriesId: string,
+  fromDate: string,
+  db: Queryable = pool
+): Promise<void> => {
+  await db.query(
+    'UPDATE session SET series_id = $2, updated_at = NOW() WHERE series_id = $1 AND session_date >= $3',
+    [seriesId, newSeriesId, fromDate]
+  );
+};
+
+export const updateSession = async (
+  sessionId: string,
+  updates: SessionUpdate,
+  db: Queryable = pool
+): Promise<Session | null> => {
+  const { rows } = await db.query(
+    `UPDATE session
+     SET session_date = $2, session_time = $3, session_type = $4, duration_minutes = $5, location = $6,
+       revision = revision + 1, updated_at = NOW()
+     WHERE session_id = $1
+     RETURNING *`,
+    [
+      sessionId,
+      updates.session_date,
+      updates.session_time,
+      updates.session_type,
+      updates.duration_minutes,
+      updates.location
+    ]
+  );
+  return rows[0] ? mapSession(rows[0]) : null;
+};
+
+// Moves a session to a new status; the reason is kept and the change is timestamped
+export const updateSessionStatus = async (
+  sessionId: string,
+  status: string,
+  reason: string | null,
+  rescheduledTo: string | null = null,
+  db: Queryable = pool
+): Promise<Session | null> => {
+  const { rows } = await db.query(
+    `UPDATE session
+     SET status = $2, status_reason = $3, rescheduled_to = $4, status_changed_at = NOW(),
+       revision = revision + 1, updated_at = NOW()
+     WHERE session_id = $1
+     RETURNING *`,
+    [sessionId, status, reason, rescheduledTo]
+  );
+  return rows[0] ? mapSession(rows[0]) : null;
+};
+
+// Keeps a copy of the sessions about to be deleted, so calendar feeds can send them as cancelled
+const archiveSessions = async (condition: string, params: any[]): Promise<void> => {
+  await pool.query(
+    `INSERT INTO cancelled_session
+       (session_id, patient_id, therapist_id, session_date, session_time, session_type, duration_minutes, location, revision)
+     SELECT session_id, patient_id, therapist_id, session_date, session_time, session_type, duration_minutes, location,
+       revision + 1
+     FROM session WHERE ${condition}`,
+    params
+  );
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  await archiveSessions('session_id = $1', [sessionId]);
+  await pool.query('DELETE FROM session WHERE session_id = $1', [sessionId]);
+};
+
+// Returns how many sessions were deleted
+export const deleteSeriesSessions = async (seriesId: string, fromDate?: string): Promise<number> => {
+  const condition = `series_id = $1 ${fromDate ? 'AND session_date >= $2' : ''}`;
+  const params = fromDate ? [seriesId, fromDate] : [seriesId];
+
+  await archiveSessions(condition, params);
+  const { rowCount } = await pool.query(`DELETE FROM session WHERE ${condition}`, params);
+  return rowCount ?? 0;
+};
@@ -0,0 +1,71 @@
+// backend/repositories/sessionSeriesRepository.ts
+import pool from '../db';
+import { Queryable } from './transaction';
+import { toDateString } from './dates';
+
+export type SeriesFrequency = 'weekly' | 'fortnightly';
+
+// How a recurring block of sessions was booked - same shape as the Supabase session_series table
+export interface SessionSeries {
+  series_id: string;
+  patient_id: string;
+  therapist_id: string;
+  frequency: SeriesFrequency;
+  start_date: string;
+  occurrences: number | null;
+  until_date: string | null;
+  session_time: string;
+  session_type: string;
+  duration_minutes: number;
+  location: string | null;
+  created_at: Date;
+}
+
+export type NewSessionSeries = Omit<SessionSeries, 'series_id' | 'created_at'>;
+
+const mapSeries = (row: any): SessionSeries => ({
+  series_id: row.series_id,
+  patient_id: row.patient_id,
+  therapist_id: row.therapist_id,
+  frequency: row.frequency,
+  start_date: toDateString(row.start_date),
+  occurrences: row.occurrences,
+  until_date: row.until_date ? toDateString(row.until_date) : null,
+  session_time: row.session_time,
+  session_type: row.session_type,
+  duration_minutes: row.duration_minutes,
+  location: row.location,
+  created_at: row.created_at
+});
+
+export const findSeriesById = async (seriesId: string): Promise<SessionSeries | null> => {
+  const { rows } = await pool.query('SELECT * FROM session_series WHERE series_id = $1', [seriesId]);
+  return rows[0] ? mapSeries(rows[0]) : null;
+};
+
+export const createSeries = async (data: NewSessionSeries, db: Queryable = pool): Promise<SessionSeries> => {
+  const { rows } = await db.query(
+    `INSERT INTO session_series
+       (patient_id, therapist_id, frequency, start_date, occurrences, until_date,
+        session_time, session_type, duration_minutes, location)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING *`,
+    [
+      data.patient_id,
+      data.therapist_id,
+      data.frequency,
+      data.start_date,
+      data.occurrences,
+      data.until_date,
+      data.session_time,
+      data.session_type,
+      data.duration_minutes,
+      data.location
+    ]
+  );
+  return mapSeries(rows[0]);
+};
+
+export const deleteSeries = async (seriesId: string): Promise<void> => {
+  await pool.query('DELETE FROM session_series WHERE series_id = $1', [seriesId]);
+};
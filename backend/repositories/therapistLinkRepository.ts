@@ -0,0 +1,120 @@
+// backend/repositories/therapistLinkRepository.ts
+import pool from '../db';
+import { InvitationStatus } from './carerRepository';
+
+// A therapist's request to take a patient on
+export interface TherapistLinkRequest {
+  request_id: string;
+  therapist_id: string;
+  patient_id: string;
+  status: InvitationStatus;
+  responded_at: Date | null;
+  created_at: Date;
+  // Joined in by the list queries
+  therapist?: { first_name: string; last_name: string; email: string; clinic_name: string | null };
+  patient?: { first_name: string; last_name: string; email: string };
+}
+
+const REQUEST_COLUMNS = `
+  r.request_id, r.therapist_id, r.patient_id, r.status, r.responded_at, r.created_at
+`;
+
+// t is the therapist and p the patient in every joined query below
+const JOINED_PEOPLE_COLUMNS = `
+  t.first_name AS therapist_first_name, t.last_name AS therapist_last_name, t.email AS therapist_email,
+  t.clinic_name AS therapist_clinic_name,
+  p.first_name AS patient_first_name, p.last_name AS patient_last_name, p.email AS patient_email
+`;
+
+const mapRequest = (row: any): TherapistLinkRequest => ({
+  request_id: row.request_id,
+  therapist_id: row.therapist_id,
+  patient_id: row.patient_id,
+  status: row.status,
+  responded_at: row.responded_at,
+  created_at: row.created_at
+});
+
+const mapJoinedRequest = (row: any): TherapistLinkRequest => ({
+  ...mapRequest(row),
+  therapist: {
+    first_name: row.therapist_first_name,
+    last_name: row.therapist_last_name,
+    email: row.therapist_email,
+    clinic_name: row.therapist_clinic_name
+  },
+  patient: {
+    first_name: row.patient_first_name,
+    last_name: row.patient_last_name,
+    email: row.patient_email
+  }
+});
+
+const findJoinedRequests = async (where: string, params: any[]): Promise<TherapistLinkRequest[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${REQUEST_COLUMNS}, ${JOINED_PEOPLE_COLUMNS}
+     FROM therapist_link_request r
+     JOIN users t ON t.id = r.therapist_id
+     JOIN users p ON p.id = r.patient_id
+     WHERE ${where}
+     ORDER BY r.created_at DESC`,
+    params
+  );
+  return rows.map(mapJoinedRequest);
+};
+
+export const findRequestById = async (requestId: string): Promise<TherapistLinkRequest | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${REQUEST_COLUMNS} FROM therapist_link_request r WHERE r.request_id = $1`,
+    [requestId]
+  );
+  return rows[0] ? mapRequest(rows[0]) : null;
+};
+
+export const findPendingRequest = async (therapistId: string, patientId: string): Promise<TherapistLinkRequest | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${REQUEST_COLUMNS} FROM therapist_link_request r
+     WHERE r.therapist_id = $1 AND r.patient_id = $2 AND r.status = 'pending'`,
+    [therapistId, patientId]
+  );
+  return rows[0] ? mapRequest(rows[0]) : null;
+};
+
+// Everything the therapist has sent, answered or not, newest first
+export const findRequestsByTherapist = async (therapistId: string): Promise<TherapistLinkRequest[]> => {
+  return findJoinedRequests('r.therapist_id = $1', [therapistId]);
+};
+
+export const findPendingRequestsForPatient = async (patientId: string): Promise<TherapistLinkRequest[]> => {
+  return findJoinedRequests(`r.patient_id = $1 AND r.status = 'pending'`, [patientId]);
+};
+
+export const createRequest = async (therapistId: string, patientId: string): Promise<TherapistLinkRequest> => {
+  const { rows } = await pool.query(
+    `INSERT INTO therapist_link_request (therapist_id, patient_id) VALUES ($1, $2) RETURNING *`,
+    [therapistId, patientId]
+  );
+  return mapRequest(rows[0]);
+};
+
+// Only answers requests that are still pending; returns null if it was already answered
+export const respondToRequest = async (
+  requestId: string,
+  status: Exclude<InvitationStatus, 'pending'>
+): Promise<TherapistLinkRequest | null> => {
+  const { rows } = await pool.query(
+    `UPDATE therapist_link_request
+     SET status = $2, responded_at = NOW()
+     WHERE request_id = $1 AND status = 'pending'
+     RETURNING *`,
+    [requestId, status]
+  );
+  return rows[0] ? mapRequest(rows[0]) : null;
+};
+
+export const createTherapistLink = async (therapistId: string, patientId: string): Promise<void> => {
+  await pool.query(
+    'INSERT INTO therapist_patient_link (therapist_id, patient_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+    [therapistId, patientId]
+  );
+};
@@ -0,0 +1,24 @@
+// backend/repositories/transaction.ts
+import { Pool, PoolClient } from 'pg';
+import pool from '../db';
+
+// The shared pool, or a client inside a transaction; repository functions used in one take it as their last argument
+export type Queryable = Pool | PoolClient;
+
+/**
+ * Runs work on one connection between BEGIN and COMMIT, rolling everything back if it throws
+ */
+export const withTransaction = async <T>(work: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
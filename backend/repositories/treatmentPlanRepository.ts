@@ -0,0 +1,78 @@
+// backend/repositories/treatmentPlanRepository.ts
+// A therapist's episodes of care with a patient, which the patient's goals belong to
+import pool from '../db';
+import { toDateString } from './dates';
+
+export interface TreatmentPlan {
+  plan_id: string;
+  patient_id: string;
+  therapist_id: string;
+  status: string; // 'active' or 'closed'
+  started_on: string;
+  closed_on: string | null;
+  created_at: Date;
+  updated_at: Date;
+  therapist?: { first_name: string; last_name: string };
+}
+
+const PLAN_COLUMNS = `
+  p.plan_id, p.patient_id, p.therapist_id, p.status, p.started_on, p.closed_on, p.created_at, p.updated_at
+`;
+
+const mapPlan = (row: any): TreatmentPlan => {
+  const { therapist_first_name, therapist_last_name, ...plan } = row;
+  return {
+    ...plan,
+    started_on: toDateString(plan.started_on),
+    closed_on: plan.closed_on ? toDateString(plan.closed_on) : null,
+    ...(therapist_first_name !== undefined && { therapist: { first_name: therapist_first_name, last_name: therapist_last_name } })
+  };
+};
+
+export const findPlanById = async (planId: string): Promise<TreatmentPlan | null> => {
+  const { rows } = await pool.query(`SELECT ${PLAN_COLUMNS} FROM treatment_plan p WHERE p.plan_id = $1`, [planId]);
+  return rows[0] ? mapPlan(rows[0]) : null;
+};
+
+// The therapist's current episode of care with the patient, if there is one
+export const findActivePlan = async (therapistId: string, patientId: string): Promise<TreatmentPlan | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${PLAN_COLUMNS} FROM treatment_plan p
+     WHERE p.therapist_id = $1 AND p.patient_id = $2 AND p.status = 'active'`,
+    [therapistId, patientId]
+  );
+  return rows[0] ? mapPlan(rows[0]) : null;
+};
+
+// Every plan the patient has had, with each therapist's name, newest first
+export const findPlansByPatient = async (patientId: string): Promise<TreatmentPlan[]> => {
+  const { rows } = await pool.query(
+    `SELECT ${PLAN_COLUMNS}, u.first_name AS therapist_first_name, u.last_name AS therapist_last_name
+     FROM treatment_plan p
+     JOIN users u ON u.id = p.therapist_id
+     WHERE p.patient_id = $1
+     ORDER BY p.started_on DESC, p.created_at DESC`,
+    [patientId]
+  );
+  return rows.map(mapPlan);
+};
+
+export const createPlan = async (therapistId: string, patientId: string, startedOn: string): Promise<TreatmentPlan> => {
+  const { rows } = await pool.query(
+    `INSERT INTO treatment_plan (patient_id, therapist_id, started_on)
+     VALUES ($1, $2, $3)
+     RETURNING *`,
+    [patientId, therapistId, startedOn]
+  );
+  return mapPlan(rows[0]);
+};
+
+export const closePlan = async (planId: string, closedOn: string): Promise<TreatmentPlan | null> => {
+  const { rows } = await pool.query(
+    `UPDATE treatment_plan SET status = 'closed', closed_on = $2, updated_at = NOW()
+     WHERE plan_id = $1
+     RETURNING *`,
+    [planId, closedOn]
+  );
+  return rows[0] ? mapPlan(rows[0]) : null;
+};
@@ -0,0 +1,184 @@
+// backend/repositories/userRepository.ts
+import pool from '../db';
+import { toDateString } from './dates';
+
+export type UserRole = 'therapist' | 'patient' | 'parent_carer';
+
+// User interface
+export interface User {
+  id: string;
+  username: string;
+  email: string;
+  passwordHash: string;
+  firstName: string;
+  lastName: string;
+  phoneNumber: string;
+  dateOfBirth: string;
+  role: UserRole;
+  emailVerified: boolean;
+  createdAt: Date;
+  // Therapist-specific fields
+  clinicName?: string;
+  yearsOfExperience?: number;
+  qualification?: string;
+  // Patient-specific fields
+  therapyStartDate?: string;
+  preferredContactMethod?: string;
+  // Parent/carer-specific fields
+  relationshipToPatient?: string;
+}
+
+// Fields needed to create a user (id and timestamps are generated by the database)
+export type NewUser = Omit<User, 'id' | 'createdAt' | 'emailVerified'>;
+
+// Thrown when an insert hits the username or email unique constraint
+export class DuplicateUserError extends Error {
+  constructor(message: string = 'Username or email already exists') {
+    super(message);
+    this.name = 'DuplicateUserError';
+  }
+}
+
+const USER_COLUMNS = `
+  id, username, email, password_hash, first_name, last_name, phone_number,
+  date_of_birth, role, email_verified_at, created_at,
+  clinic_name, years_of_experience, qualification,
+  therapy_start_date, preferred_contact_method,
+  relationship_to_patient
+`;
+
+// Maps a snake_case database row to the camelCase User shape used by the routes
+const mapRow = (row: any): User => {
+  const user: User = {
+    id: row.id,
+    username: row.username,
+    email: row.email,
+    passwordHash: row.password_hash,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    phoneNumber: row.phone_number,
+    dateOfBirth: toDateString(row.date_of_birth),
+    role: row.role,
+    emailVerified: !!row.email_verified_at,
+    createdAt: row.created_at
+  };
+
+  // Only attach the role-specific fields that belong to this user's role
+  if (user.role === 'therapist') {
+    user.clinicName = row.clinic_name;
+    user.yearsOfExperience = row.years_of_experience;
+    user.qualification = row.qualification;
+  } else if (user.role === 'patient') {
+    user.therapyStartDate = toDateString(row.therapy_start_date);
+    user.preferredContactMethod = row.preferred_contact_method;
+  } else if (user.role === 'parent_carer') {
+    user.relationshipToPatient = row.relationship_to_patient;
+  }
+
+  return user;
+};
+
+export const findUserById = async (id: string): Promise<User | null> => {
+  const { rows } = await pool.query(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [id]);
+  return rows[0] ? mapRow(rows[0]) : null;
+};
+
+export const findUserByUsername = async (username: string): Promise<User | null> => {
+  const { rows } = await pool.query(`SELECT ${USER_COLUMNS} FROM users WHERE username = $1`, [username]);
+  return rows[0] ? mapRow(rows[0]) : null;
+};
+
+export const findUserByEmail = async (email: string): Promise<User | null> => {
+  const { rows } = await pool.query(`SELECT ${USER_COLUMNS} FROM users WHERE email = $1`, [email]);
+  return rows[0] ? mapRow(rows[0]) : null;
+};
+
+// Login accepts either a username or an email address in the same field
+export const findUserByUsernameOrEmail = async (identifier: string): Promise<User | null> => {
+  const { rows } = await pool.query(
+    `SELECT ${USER_COLUMNS} FROM users WHERE username = $1 OR email = $1 LIMIT 1`,
+    [identifier]
+  );
+  return rows[0] ? mapRow(rows[0]) : null;
+};
+
+export const createUser = async (data: NewUser): Promise<User> => {
+  try {
+    const { rows } = await pool.query(
+      `INSERT INTO users (
+        username, email, password_hash, first_name, last_name, phone_number, date_of_birth, role,
+        clinic_name, years_of_experience, qualification,
+        therapy_start_date, preferred_contact_method,
+        relationship_to_patient
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING ${USER_COLUMNS}`,
+      [
+        data.username,
+        data.email,
+        data.passwordHash,
+        data.firstName,
+        data.lastName,
+        data.phoneNumber,
+        data.dateOfBirth,
+        data.role,
+        data.clinicName ?? null,
+        data.yearsOfExperience ?? null,
+        data.qualification ?? null,
+        data.therapyStartDate ?? null,
+        data.preferredContactMethod ?? null,
+        data.relationshipToPatient ?? null
+      ]
+    );
+    return mapRow(rows[0]);
+  } catch (error: any) {
+    // 23505 = unique_violation, raised when a concurrent request registered the same username/email
+    if (error.code === '23505') {
+      throw new DuplicateUserError();
+    }
+    throw error;
+  }
+};
+
+export const updateUserPassword = async (id: string, passwordHash: string): Promise<void> => {
+  await pool.query(
+    'UPDATE users SET password_hash = $2, updated_at = NOW() WHERE id = $1',
+    [id, passwordHash]
+  );
+};
+
+// Keeps the original verification time if the address was already verified
+export const markUserEmailVerified = async (id: string): Promise<void> => {
+  await pool.query(
+    'UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW() WHERE id = $1',
+    [id]
+  );
+};
+
+// Strips the password hash and returns the fields the API sends to clients
+export const toPublicUser = (user: User) => {
+  const userData: any = {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    phoneNumber: user.phoneNumber,
+    dateOfBirth: user.dateOfBirth,
+    role: user.role,
+    emailVerified: user.emailVerified
+  };
+
+  // Add role-specific data
+  if (user.role === 'therapist') {
+    userData.clinicName = user.clinicName;
+    userData.yearsOfExperience = user.yearsOfExperience;
+    userData.qualification = user.qualification;
+  } else if (user.role === 'patient') {
+    userData.therapyStartDate = user.therapyStartDate;
+    userData.preferredContactMethod = user.preferredContactMethod;
+  } else if (user.role === 'parent_carer') {
+    userData.relationshipToPatient = user.relationshipToPatient;
+  }
+
+  return userData;
+};
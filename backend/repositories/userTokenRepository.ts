@@ -0,0 +1,43 @@
+// backend/repositories/userTokenRepository.ts
+import pool from '../db';
+
+// What an emailed token can be used for
+export type UserTokenPurpose = 'password_reset' | 'email_verification';
+
+/**
+ * Stores a new token for a user
+ * Any earlier unused token for the same purpose is removed, so only the latest email link works
+ */
+export const createUserToken = async (
+  userId: string,
+  purpose: UserTokenPurpose,
+  tokenHash: string,
+  expiresAt: Date
+): Promise<void> => {
+  await pool.query(
+    'DELETE FROM user_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL',
+    [userId, purpose]
+  );
+  await pool.query(
+    'INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at) VALUES ($1, $2, $3, $4)',
+    [userId, purpose, tokenHash, expiresAt]
+  );
+};
+
+/**
+ * Marks a token as used and returns its user id
+ * Returns null if the token does not exist, has expired, was already used or is for another purpose
+ * The single UPDATE makes the token single-use even if two requests race
+ */
+export const consumeUserToken = async (
+  tokenHash: string,
+  purpose: UserTokenPurpose
+): Promise<string | null> => {
+  const { rows } = await pool.query(
+    `UPDATE user_tokens SET used_at = NOW()
+     WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING user_id`,
+    [tokenHash, purpose]
+  );
+  return rows[0] ? rows[0].user_id : null;
+};
@@ -0,0 +1,422 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { truncateTables } from '../test-utils/testDb';
+import { setMailTransport, MailMessage } from '../services/mailer';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+const therapist = {
+  username: 'therapist123',
+  email: 'therapist@example.com',
+  password: 'password123',
+  firstName: 'John',
+  lastName: 'Therapist',
+  phoneNumber: '+1234567890',
+  dateOfBirth: '1985-05-15',
+  role: 'therapist',
+  clinicName: 'Speech Therapy Clinic',
+  yearsOfExperience: '10',
+  qualification: 'Master of Speech-Language Pathology'
+};
+
+const patient = {
+  username: 'patient123',
+  email: 'patient@example.com',
+  password: 'password123',
+  firstName: 'Jane',
+  lastName: 'Patient',
+  phoneNumber: '+0987654321',
+  dateOfBirth: '1990-08-20',
+  role: 'patient',
+  therapyStartDate: '2024-01-15',
+  preferredContactMethod: 'email'
+};
+
+// Capture outgoing emails instead of printing them
+const sentMail: MailMessage[] = [];
+setMailTransport({ send: async message => { sentMail.push(message); } });
+
+// Pulls the token out of the link in the most recent email to this address
+const tokenFromLastEmail = (to: string): string => {
+  const message = [...sentMail].reverse().find(m => m.to === to);
+  const match = message?.text.match(/token=([\w-]+)/);
+  if (!match) throw new Error(`No token email sent to ${to}`);
+  return match[1];
+};
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  sentMail.length = 0;
+  await truncateTables(pool, ['user_tokens', 'refresh_tokens', 'auth_sessions', 'users']);
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('POST /api/auth/register', () => {
+  it('stores the user in the database with a UUID id', async () => {
+    const res = await request(app).post('/api/auth/register').send(therapist);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.token).toBeDefined();
+    expect(res.body.data.user).toMatchObject({
+      username: 'therapist123',
+      dateOfBirth: '1985-05-15',
+      clinicName: 'Speech Therapy Clinic',
+      yearsOfExperience: 10
+    });
+    expect(res.body.data.user.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(res.body.data.user).not.toHaveProperty('passwordHash');
+
+    const { rows } = await pool.query('SELECT username, password_hash FROM users');
+    expect(rows).toHaveLength(1);
+    expect(rows[0].password_hash).not.toBe('password123');
+  });
+
+  it('registers a parent/carer with their relationship to the patient', async () => {
+    const res = await request(app).post('/api/auth/register').send({
+      ...patient,
+      username: 'carer123',
+      email: 'carer@example.com',
+      role: 'parent_carer',
+      relationshipToPatient: 'Mother'
+    });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.user).toMatchObject({ role: 'parent_carer', relationshipToPatient: 'Mother' });
+    expect(res.body.data.user).not.toHaveProperty('therapyStartDate');
+  });
+
+  it('requires a parent/carer\'s relationship to the patient', async () => {
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send({ ...patient, role: 'parent_carer' });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('rejects a duplicate username', async () => {
+    await request(app).post('/api/auth/register').send(patient);
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send({ ...patient, email: 'other@example.com' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toBe('Username already exists');
+  });
+
+  it('rejects a duplicate email', async () => {
+    await request(app).post('/api/auth/register').send(patient);
+    const res = await request(app)
+      .post('/api/auth/register')
+      .send({ ...patient, username: 'someone-else' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toBe('Email already exists');
+  });
+
+  it('enforces uniqueness at the database level', async () => {
+    await request(app).post('/api/auth/register').send(patient);
+
+    await expect(
+      pool.query(
+        `INSERT INTO users (username, email, password_hash, first_name, last_name, phone_number, date_of_birth, role)
+         VALUES ($1, $2, 'x', 'A', 'B', '1', '2000-01-01', 'patient')`,
+        ['another', patient.email]
+      )
+    ).rejects.toMatchObject({ code: '23505' });
+  });
+});
+
+describe('POST /api/auth/login', () => {
+  beforeEach(async () => {
+    await request(app).post('/api/auth/register').send(patient);
+  });
+
+  it('logs in with a username or an email', async () => {
+    const byUsername = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'password123' });
+    const byEmail = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient@example.com', password: 'password123' });
+
+    expect(byUsername.statusCode).toBe(200);
+    expect(byEmail.statusCode).toBe(200);
+    expect(byUsername.body.data.user).toMatchObject({
+      therapyStartDate: '2024-01-15',
+      preferredContactMethod: 'email'
+    });
+  });
+
+  it('rejects a wrong password', async () => {
+    const res = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'wrong' });
+
+    expect(res.statusCode).toBe(401);
+  });
+});
+
+describe('GET /api/auth/verify', () => {
+  it('returns the stored user for a valid token', async () => {
+    const registered = await request(app).post('/api/auth/register').send(patient);
+    const res = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${registered.body.data.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.user.id).toBe(registered.body.data.user.id);
+  });
+
+  it('rejects a token for a user that no longer exists', async () => {
+    const registered = await request(app).post('/api/auth/register').send(patient);
+    await truncateTables(pool, ['user_tokens', 'refresh_tokens', 'auth_sessions', 'users']);
+
+    const res = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${registered.body.data.token}`);
+
+    expect(res.statusCode).toBe(401);
+  });
+});
+
+describe('POST /api/auth/refresh', () => {
+  it('rotates the refresh token and issues a new access token', async () => {
+    const registered = await request(app).post('/api/auth/register').send(patient);
+    const res = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: registered.body.data.refreshToken });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.token).toBeDefined();
+    expect(res.body.data.refreshToken).not.toBe(registered.body.data.refreshToken);
+
+    const verify = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${res.body.data.token}`);
+    expect(verify.statusCode).toBe(200);
+  });
+
+  it('stores only a hash of the refresh token', async () => {
+    const registered = await request(app).post('/api/auth/register').send(patient);
+    const { rows } = await pool.query('SELECT token_hash FROM refresh_tokens');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].token_hash).not.toBe(registered.body.data.refreshToken);
+  });
+
+  it('revokes every session of the user when a used refresh token is replayed', async () => {
+    const first = await request(app).post('/api/auth/register').send(patient);
+    const second = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'password123' });
+
+    const rotated = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: first.body.data.refreshToken });
+    expect(rotated.statusCode).toBe(200);
+
+    // Replaying the old token looks like theft
+    const replay = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: first.body.data.refreshToken });
+    expect(replay.statusCode).toBe(401);
+
+    // Both the rotated family and the unrelated second login are now dead
+    const rotatedAgain = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: rotated.body.data.refreshToken });
+    const secondRefresh = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: second.body.data.refreshToken });
+    const secondVerify = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${second.body.data.token}`);
+
+    expect(rotatedAgain.statusCode).toBe(401);
+    expect(secondRefresh.statusCode).toBe(401);
+    expect(secondVerify.statusCode).toBe(401);
+  });
+
+  it('rejects an unknown refresh token', async () => {
+    const res = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: 'not-a-real-token' });
+
+    expect(res.statusCode).toBe(401);
+  });
+});
+
+describe('POST /api/auth/logout', () => {
+  it('revokes the refresh token family and its access tokens', async () => {
+    const registered = await request(app).post('/api/auth/register').send(patient);
+    const { token, refreshToken } = registered.body.data;
+
+    const logout = await request(app).post('/api/auth/logout').send({ refreshToken });
+    expect(logout.statusCode).toBe(200);
+
+    const refresh = await request(app).post('/api/auth/refresh').send({ refreshToken });
+    const verify = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(refresh.statusCode).toBe(401);
+    expect(verify.statusCode).toBe(401);
+  });
+
+  it('leaves other sessions of the same user signed in', async () => {
+    const first = await request(app).post('/api/auth/register').send(patient);
+    const second = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'password123' });
+
+    const logout = await request(app)
+      .post('/api/auth/logout')
+      .set('Authorization', `Bearer ${first.body.data.token}`);
+    expect(logout.statusCode).toBe(200);
+
+    const firstVerify = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${first.body.data.token}`);
+    const secondVerify = await request(app)
+      .get('/api/auth/verify')
+      .set('Authorization', `Bearer ${second.body.data.token}`);
+    expect(firstVerify.statusCode).toBe(401);
+    expect(secondVerify.statusCode).toBe(200);
+  });
+});
+
+describe('email verification', () => {
+  afterEach(() => {
+    delete process.env.REQUIRE_EMAIL_VERIFICATION;
+  });
+
+  it('emails a verification link on registration and verifies the account once', async () => {
+    const registered = await request(app).post('/api/auth/register').send(patient);
+    expect(registered.body.data.user.emailVerified).toBe(false);
+
+    const token = tokenFromLastEmail(patient.email);
+    const first = await request(app).post('/api/auth/verify-email').send({ token });
+    const second = await request(app).post('/api/auth/verify-email').send({ token });
+
+    expect(first.statusCode).toBe(200);
+    expect(second.statusCode).toBe(400);
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'password123' });
+    expect(login.body.data.user.emailVerified).toBe(true);
+  });
+
+  it('blocks login for unverified accounts when the flag is set', async () => {
+    await request(app).post('/api/auth/register').send(patient);
+    process.env.REQUIRE_EMAIL_VERIFICATION = 'true';
+
+    const blocked = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'password123' });
+    expect(blocked.statusCode).toBe(403);
+
+    await request(app)
+      .post('/api/auth/verify-email')
+      .send({ token: tokenFromLastEmail(patient.email) });
+
+    const allowed = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'password123' });
+    expect(allowed.statusCode).toBe(200);
+  });
+});
+
+describe('password reset', () => {
+  beforeEach(async () => {
+    await request(app).post('/api/auth/register').send(patient);
+  });
+
+  it('gives the same answer for unknown emails and sends nothing', async () => {
+    sentMail.length = 0;
+    const known = await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: patient.email });
+    const unknown = await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: 'nobody@example.com' });
+
+    expect(known.statusCode).toBe(200);
+    expect(unknown.statusCode).toBe(200);
+    expect(unknown.body.message).toBe(known.body.message);
+    expect(sentMail.map(m => m.to)).toEqual([patient.email]);
+  });
+
+  it('resets the password with a single-use token and signs out existing sessions', async () => {
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'password123' });
+
+    await request(app).post('/api/auth/forgot-password').send({ email: patient.email });
+    const token = tokenFromLastEmail(patient.email);
+
+    const reset = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token, password: 'new-password456' });
+    const reused = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token, password: 'another-password' });
+
+    expect(reset.statusCode).toBe(200);
+    expect(reused.statusCode).toBe(400);
+
+    const oldSession = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: login.body.data.refreshToken });
+    const oldPassword = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'password123' });
+    const newPassword = await request(app)
+      .post('/api/auth/login')
+      .send({ username: 'patient123', password: 'new-password456' });
+
+    expect(oldSession.statusCode).toBe(401);
+    expect(oldPassword.statusCode).toBe(401);
+    expect(newPassword.statusCode).toBe(200);
+  });
+
+  it('only accepts the most recently emailed token', async () => {
+    await request(app).post('/api/auth/forgot-password').send({ email: patient.email });
+    const firstToken = tokenFromLastEmail(patient.email);
+    await request(app).post('/api/auth/forgot-password').send({ email: patient.email });
+
+    const res = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: firstToken, password: 'new-password456' });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('rejects an expired token', async () => {
+    await request(app).post('/api/auth/forgot-password').send({ email: patient.email });
+    await pool.query("UPDATE user_tokens SET expires_at = NOW() - INTERVAL '1 minute'");
+
+    const res = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: tokenFromLastEmail(patient.email), password: 'new-password456' });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('does not accept an email verification token as a reset token', async () => {
+    const res = await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: tokenFromLastEmail(patient.email), password: 'new-password456' });
+    expect(res.statusCode).toBe(400);
+  });
+});
@@ -1,72 +1,34 @@
 // backend/routes/auth.ts
 import express, { Request, Response, Router } from 'express';
-import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import {
+  createUser,
+  findUserById,
+  findUserByUsername,
+  findUserByEmail,
+  findUserByUsernameOrEmail,
+  toPublicUser,
+  DuplicateUserError,
+  NewUser
+} from '../repositories/userRepository';
+import {
+  startSession,
+  rotateRefreshToken,
+  endSession,
+  endSessionByRefreshToken,
+  verifyAccessToken,
+  RefreshTokenError
+} from '../services/tokenService';
+import {
+  sendVerificationEmail,
+  requestPasswordReset,
+  resetPassword,
+  verifyEmail,
+  isEmailVerificationRequired
+} from '../services/accountService';
 
 const router: Router = express.Router();
 
-// User interface
-interface User {
-  id: string;
-  username: string;
-  email: string;
-  password: string;
-  firstName: string;
-  lastName: string;
-  phoneNumber: string;
-  dateOfBirth: string;
-  role: 'therapist' | 'patient';
-  createdAt: Date;
-  // Therapist-specific fields
-  clinicName?: string;
-  yearsOfExperience?: number;
-  qualification?: string;
-  // Patient-specific fields
-  therapyStartDate?: string;
-  preferredContactMethod?: string;
-}
-
-// Mock user storage - This is temporary storage in memory
-// TODO: Replace this with PostgreSQL database queries later
-const users: User[] = [
-  // Demo therapist account
-  {
-    id: '1',
-    username: 'therapist123',
-    email: 'therapist@example.com',
-    password: '$2a$10$8K1p/a0dL3LXK5YU5gL5qOZVk.X5n5K5Q5K5K5K5K5K5K5K5K5K5K', // Hashed "password123"
-    firstName: 'John',
-    lastName: 'Therapist',
-    phoneNumber: '+1234567890',
-    dateOfBirth: '1985-05-15',
-    role: 'therapist',
-    // Therapist-specific fields
-    clinicName: 'Speech Therapy Clinic',
-    yearsOfExperience: 10,
-    qualification: 'Master of Speech-Language Pathology',
-    createdAt: new Date()
-  },
-  // Demo patient account
-  {
-    id: '2',
-    username: 'patient123',
-    email: 'patient@example.com',
-    password: '$2a$10$8K1p/a0dL3LXK5YU5gL5qOZVk.X5n5K5Q5K5K5K5K5K5K5K5K5K5K', // Hashed "password123"
-    firstName: 'Jane',
-    lastName: 'Patient',
-    phoneNumber: '+0987654321',
-    dateOfBirth: '1990-08-20',
-    role: 'patient',
-    // Patient-specific fields
-    therapyStartDate: '2024-01-15',
-    preferredContactMethod: 'email',
-    createdAt: new Date()
-  }
-];
-
-// Secret key for signing JWT tokens
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-
 // REGISTER ENDPOINT
 // POST /api/auth/register
 router.post('/register', async (req: Request, res: Response): Promise<any> => {
@@ -86,7 +48,9 @@ router.post('/register', async (req: Request, res: Response): Promise<any> => {
       qualification,
       // Patient-specific fields
       therapyStartDate,
-      preferredContactMethod
+      preferredContactMethod,
+      // Parent/carer-specific fields
+      relationshipToPatient
     } = req.body;
 
     // Basic validation
@@ -98,10 +62,10 @@ router.post('/register', async (req: Request, res: Response): Promise<any> => {
     }
 
     // Validate role
-    if (role !== 'therapist' && role !== 'patient') {
+    if (role !== 'therapist' && role !== 'patient' && role !== 'parent_carer') {
       return res.status(400).json({ 
         success: false, 
-        message: 'Role must be either therapist or patient' 
+        message: 'Role must be therapist, patient or parent_carer' 
       });
     }
 
@@ -124,8 +88,17 @@ router.post('/register', async (req: Request, res: Response): Promise<any> => {
       }
     }
 
+    if (role === 'parent_carer') {
+      if (!relationshipToPatient) {
+        return res.status(400).json({ 
+          success: false, 
+          message: 'Relationship to patient is required for parents and carers' 
+        });
+      }
+    }
+
     // Check if username already exists
-    const existingUsername = users.find(u => u.username === username);
+    const existingUsername = await findUserByUsername(username);
     if (existingUsername) {
       return res.status(400).json({ 
         success: false, 
@@ -134,7 +107,7 @@ router.post('/register', async (req: Request, res: Response): Promise<any> => {
     }
 
     // Check if email already exists
-    const existingEmail = users.find(u => u.email === email);
+    const existingEmail = await findUserByEmail(email);
     if (existingEmail) {
       return res.status(400).json({ 
         success: false, 
@@ -145,75 +118,63 @@ router.post('/register', async (req: Request, res: Response): Promise<any> => {
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10);
 
-    // Create new user
-    const newUser: User = {
-      id: (users.length + 1).toString(),
+    // Build the new user record
+    const userFields: NewUser = {
       username,
       email,
-      password: hashedPassword,
+      passwordHash: hashedPassword,
       firstName,
       lastName,
       phoneNumber,
       dateOfBirth,
-      role,
-      createdAt: new Date()
+      role
     };
 
     // Add role-specific fields
     if (role === 'therapist') {
-      newUser.clinicName = clinicName;
-      newUser.yearsOfExperience = parseInt(yearsOfExperience);
-      newUser.qualification = qualification;
+      userFields.clinicName = clinicName;
+      userFields.yearsOfExperience = parseInt(yearsOfExperience);
+      userFields.qualification = qualification;
     } else if (role === 'patient') {
-      newUser.therapyStartDate = therapyStartDate;
-      newUser.preferredContactMethod = preferredContactMethod;
+      userFields.therapyStartDate = therapyStartDate;
+      userFields.preferredContactMethod = preferredContactMethod;
+    } else if (role === 'parent_carer') {
+      userFields.relationshipToPatient = relationshipToPatient;
     }
 
-    users.push(newUser);
+    const newUser = await createUser(userFields);
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        id: newUser.id, 
-        username: newUser.username,
-        email: newUser.email, 
-        role: newUser.role 
-      },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    // Send the verification link; a mail failure should not undo the registration
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailError) {
+      console.error('Failed to send verification email:', mailError);
+    }
 
-    // Prepare user data to return
-    const userData: any = {
-      id: newUser.id,
-      username: newUser.username,
-      email: newUser.email,
-      firstName: newUser.firstName,
-      lastName: newUser.lastName,
-      phoneNumber: newUser.phoneNumber,
-      dateOfBirth: newUser.dateOfBirth,
-      role: newUser.role
-    };
+    // Start a server-side session and issue a short-lived access token plus a refresh token
+    const { accessToken, refreshToken } = await startSession(newUser);
 
-    // Add role-specific data
-    if (role === 'therapist') {
-      userData.clinicName = newUser.clinicName;
-      userData.yearsOfExperience = newUser.yearsOfExperience;
-      userData.qualification = newUser.qualification;
-    } else if (role === 'patient') {
-      userData.therapyStartDate = newUser.therapyStartDate;
-      userData.preferredContactMethod = newUser.preferredContactMethod;
-    }
+    // Prepare user data to return
+    const userData = toPublicUser(newUser);
 
     return res.status(201).json({
       success: true,
       message: 'User registered successfully',
       data: {
-        token,
+        token: accessToken,
+        refreshToken,
         user: userData
       }
     });
   } catch (error) {
+    // Another request registered the same username/email between our check and the insert
+    if (error instanceof DuplicateUserError) {
+      return res.status(400).json({ 
+        success: false, 
+        message: error.message 
+      });
+    }
+
     console.error('Registration error:', error);
     return res.status(500).json({ 
       success: false, 
@@ -237,7 +198,7 @@ router.post('/login', async (req: Request, res: Response): Promise<any> => {
     }
 
     // Find user
-    const user = users.find(u => u.username === username || u.email === username);
+    const user = await findUserByUsernameOrEmail(username);
     if (!user) {
       return res.status(401).json({ 
         success: false, 
@@ -246,7 +207,7 @@ router.post('/login', async (req: Request, res: Response): Promise<any> => {
     }
 
     // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
     if (!isPasswordValid) {
       return res.status(401).json({ 
         success: false, 
@@ -254,45 +215,26 @@ router.post('/login', async (req: Request, res: Response): Promise<any> => {
       });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        id: user.id,
-        username: user.username,
-        email: user.email, 
-        role: user.role 
-      },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    // Block unverified accounts when REQUIRE_EMAIL_VERIFICATION is on
+    if (isEmailVerificationRequired() && !user.emailVerified) {
+      return res.status(403).json({ 
+        success: false, 
+        message: 'Please verify your email address before logging in' 
+      });
+    }
 
-    // Prepare user data
-    const userData: any = {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      phoneNumber: user.phoneNumber,
-      dateOfBirth: user.dateOfBirth,
-      role: user.role
-    };
+    // Start a server-side session and issue a short-lived access token plus a refresh token
+    const { accessToken, refreshToken } = await startSession(user);
 
-    // Add role-specific data
-    if (user.role === 'therapist') {
-      userData.clinicName = user.clinicName;
-      userData.yearsOfExperience = user.yearsOfExperience;
-      userData.qualification = user.qualification;
-    } else if (user.role === 'patient') {
-      userData.therapyStartDate = user.therapyStartDate;
-      userData.preferredContactMethod = user.preferredContactMethod;
-    }
+    // Prepare user data
+    const userData = toPublicUser(user);
 
     return res.json({
       success: true,
       message: 'Login successful',
       data: {
-        token,
+        token: accessToken,
+        refreshToken,
         user: userData
       }
     });
@@ -307,7 +249,7 @@ router.post('/login', async (req: Request, res: Response): Promise<any> => {
 
 // VERIFY TOKEN ENDPOINT
 // GET /api/auth/verify
-router.get('/verify', (req: Request, res: Response): any => {
+router.get('/verify', async (req: Request, res: Response): Promise<any> => {
   try {
     const authHeader = req.headers.authorization;
     
@@ -319,9 +261,9 @@ router.get('/verify', (req: Request, res: Response): any => {
     }
 
     const token = authHeader.substring(7);
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    const decoded = await verifyAccessToken(token);
 
-    const user = users.find(u => u.id === decoded.id);
+    const user = await findUserById(decoded.id);
     if (!user) {
       return res.status(401).json({ 
         success: false, 
@@ -330,26 +272,7 @@ router.get('/verify', (req: Request, res: Response): any => {
     }
 
     // Prepare user data
-    const userData: any = {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      phoneNumber: user.phoneNumber,
-      dateOfBirth: user.dateOfBirth,
-      role: user.role
-    };
-
-    // Add role-specific data
-    if (user.role === 'therapist') {
-      userData.clinicName = user.clinicName;
-      userData.yearsOfExperience = user.yearsOfExperience;
-      userData.qualification = user.qualification;
-    } else if (user.role === 'patient') {
-      userData.therapyStartDate = user.therapyStartDate;
-      userData.preferredContactMethod = user.preferredContactMethod;
-    }
+    const userData = toPublicUser(user);
 
     return res.json({
       success: true,
@@ -365,4 +288,187 @@ router.get('/verify', (req: Request, res: Response): any => {
   }
 });
 
+// REFRESH TOKEN ENDPOINT
+// POST /api/auth/refresh
+// Exchanges a refresh token for a new access token and a new refresh token (the old one stops working)
+router.post('/refresh', async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { refreshToken } = req.body || {};
+
+    if (!refreshToken) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Refresh token is required' 
+      });
+    }
+
+    const tokens = await rotateRefreshToken(refreshToken);
+
+    return res.json({
+      success: true,
+      data: {
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken
+      }
+    });
+  } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      return res.status(401).json({ 
+        success: false, 
+        message: error.message 
+      });
+    }
+
+    console.error('Token refresh error:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Server error during token refresh' 
+    });
+  }
+});
+
+// LOGOUT ENDPOINT
+// POST /api/auth/logout
+// Revokes the whole refresh token family, so neither the refresh token nor its access tokens work afterwards
+router.post('/logout', async (req: Request, res: Response): Promise<any> => {
+  try {
+    // req.body is undefined when the client sends no body (access-token-only logout)
+    const { refreshToken } = req.body || {};
+    const authHeader = req.headers.authorization;
+
+    if (refreshToken) {
+      const revoked = await endSessionByRefreshToken(refreshToken);
+      if (!revoked) {
+        return res.status(401).json({ 
+          success: false, 
+          message: 'Invalid refresh token' 
+        });
+      }
+    } else if (authHeader && authHeader.startsWith('Bearer ')) {
+      // Fall back to the session named in the access token
+      const decoded = await verifyAccessToken(authHeader.substring(7)).catch(() => null);
+      if (!decoded) {
+        return res.status(401).json({ 
+          success: false, 
+          message: 'Invalid token' 
+        });
+      }
+      await endSession(decoded.sid);
+    } else {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Refresh token is required' 
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Server error during logout' 
+    });
+  }
+});
+
+// FORGOT PASSWORD ENDPOINT
+// POST /api/auth/forgot-password
+// Always answers the same way so the endpoint cannot be used to find out which emails are registered
+router.post('/forgot-password', async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { email } = req.body || {};
+
+    if (!email) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Email is required' 
+      });
+    }
+
+    await requestPasswordReset(email);
+
+    return res.json({
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent'
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Server error during password reset request' 
+    });
+  }
+});
+
+// RESET PASSWORD ENDPOINT
+// POST /api/auth/reset-password
+router.post('/reset-password', async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { token, password } = req.body || {};
+
+    if (!token || !password) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Token and new password are required' 
+      });
+    }
+
+    const reset = await resetPassword(token, password);
+    if (!reset) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Reset link is invalid or has expired' 
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Password has been reset. Please log in with your new password'
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Server error during password reset' 
+    });
+  }
+});
+
+// VERIFY EMAIL ENDPOINT
+// POST /api/auth/verify-email
+router.post('/verify-email', async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { token } = req.body || {};
+
+    if (!token) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Token is required' 
+      });
+    }
+
+    const verified = await verifyEmail(token);
+    if (!verified) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Verification link is invalid or has expired' 
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Email address verified'
+    });
+  } catch (error) {
+    console.error('Email verification error:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Server error during email verification' 
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,179 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { startSession } from '../services/tokenService';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+let therapist: TestUser;
+let patient: TestUser;
+
+const bearer = (user: TestUser) => ({ Authorization: `Bearer ${user.token}` });
+
+// Free slots are only offered from today onwards, so these tests book far in the future
+const MONDAY = '2099-03-02';
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  await linkTherapist(therapist, patient);
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('GET and PUT /api/availability', () => {
+  it('uses a Monday to Friday working week until the therapist saves their own', async () => {
+    const res = await request(app).get('/api/availability').set(bearer(therapist));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.using_default).toBe(true);
+    expect(res.body.data.availability.map((w: any) => w.day_of_week)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('replaces the whole week, Monday first', async () => {
+    const res = await request(app)
+      .put('/api/availability')
+      .set(bearer(therapist))
+      .send({
+        availability: [
+          { day_of_week: 0, start_time: '10:00', end_time: '12:00' },
+          { day_of_week: 1, start_time: '13:00', end_time: '17:00' },
+          { day_of_week: 1, start_time: '09:00', end_time: '12:00' }
+        ]
+      });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.availability.map((w: any) => [w.day_of_week, w.start_time])).toEqual([
+      [1, '09:00:00'],
+      [1, '13:00:00'],
+      [0, '10:00:00']
+    ]);
+
+    const saved = await request(app).get('/api/availability').set(bearer(therapist));
+    expect(saved.body.data.using_default).toBe(false);
+  });
+
+  it('rejects windows that end before they start or overlap on the same day', async () => {
+    const backwards = await request(app)
+      .put('/api/availability')
+      .set(bearer(therapist))
+      .send({ availability: [{ day_of_week: 1, start_time: '12:00', end_time: '09:00' }] });
+    const overlapping = await request(app)
+      .put('/api/availability')
+      .set(bearer(therapist))
+      .send({
+        availability: [
+          { day_of_week: 1, start_time: '09:00', end_time: '12:00' },
+          { day_of_week: 1, start_time: '11:00', end_time: '13:00' }
+        ]
+      });
+
+    expect(backwards.statusCode).toBe(400);
+    expect(overlapping.statusCode).toBe(400);
+  });
+
+  it('rejects entries that are not working windows', async () => {
+    const res = await request(app)
+      .put('/api/availability')
+      .set(bearer(therapist))
+      .send({ availability: [{ day_of_week: 1, start_time: '09:00', end_time: '12:00' }, null] });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toContain('working window');
+  });
+
+  it('is only available to therapists', async () => {
+    const res = await request(app).get('/api/availability').set(bearer(patient));
+
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('GET /api/availability/free-slots', () => {
+  beforeEach(async () => {
+    await request(app)
+      .put('/api/availability')
+      .set(bearer(therapist))
+      .send({ availability: [{ day_of_week: 1, start_time: '09:00', end_time: '11:00' }] });
+  });
+
+  it('offers half-hourly starts within working hours, skipping booked time', async () => {
+    await request(app).post('/api/sessions').set(bearer(therapist)).send({
+      patient_id: patient.user.id,
+      session_date: MONDAY,
+      session_time: '09:00',
+      session_type: 'Follow-up',
+      duration_minutes: 45
+    });
+
+    const res = await request(app)
+      .get(`/api/availability/free-slots?from=${MONDAY}&duration=60&count=3`)
+      .set(bearer(therapist));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.slots).toEqual([
+      { session_date: MONDAY, session_time: '10:00:00' },
+      { session_date: '2099-03-09', session_time: '09:00:00' },
+      { session_date: '2099-03-09', session_time: '09:30:00' }
+    ]);
+  });
+
+  it('leaves out time taken by a session that runs past midnight', async () => {
+    await request(app)
+      .put('/api/availability')
+      .set(bearer(therapist))
+      .send({ availability: [{ day_of_week: 2, start_time: '00:00', end_time: '03:00' }] });
+    await request(app).post('/api/sessions').set(bearer(therapist)).send({
+      patient_id: patient.user.id,
+      session_date: MONDAY,
+      session_time: '23:00',
+      session_type: 'Follow-up',
+      duration_minutes: 120
+    });
+
+    const res = await request(app)
+      .get(`/api/availability/free-slots?from=${MONDAY}&duration=60&count=1`)
+      .set(bearer(therapist));
+
+    expect(res.body.data.slots).toEqual([{ session_date: '2099-03-03', session_time: '01:00:00' }]);
+  });
+
+  it('skips times that have already passed on the clinic\'s clock today', async () => {
+    // Only the clock is faked, so the database and HTTP calls still run
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask', 'hrtime', 'performance'] });
+    jest.setSystemTime(new Date(2099, 2, 2, 9, 5)); // 09:05 on MONDAY, local time
+
+    try {
+      // A token issued now, as the one from beforeEach has long expired by then
+      const { accessToken } = await startSession(therapist.user);
+      const res = await request(app)
+        .get(`/api/availability/free-slots?from=${MONDAY}&duration=60&count=1`)
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(res.body.data.slots).toEqual([{ session_date: MONDAY, session_time: '09:30:00' }]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects durations outside 15 to 240 minutes', async () => {
+    const res = await request(app)
+      .get(`/api/availability/free-slots?from=${MONDAY}&duration=5`)
+      .set(bearer(therapist));
+
+    expect(res.statusCode).toBe(400);
+  });
+});
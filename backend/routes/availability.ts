@@ -0,0 +1,71 @@
+// backend/routes/availability.ts
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import {
+  getWorkingHours,
+  saveWorkingHours,
+  getNextFreeSlots,
+  DEFAULT_SESSION_MINUTES
+} from '../services/schedulingService';
+import { sendServiceError } from './respond';
+
+const router: Router = express.Router();
+
+// Working hours belong to therapists only
+router.use(authenticateToken, authorizeRole('therapist'));
+
+// WORKING HOURS ENDPOINT
+// GET /api/availability
+// using_default is true until the therapist saves their own hours (Monday to Friday, 09:00-17:00)
+router.get('/', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const { availability, usingDefault } = await getWorkingHours(req.user!.id);
+    return res.json({ success: true, data: { availability, using_default: usingDefault } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching working hours');
+  }
+});
+
+// SAVE WORKING HOURS ENDPOINT
+// PUT /api/availability
+// Body: { availability: [{ day_of_week, start_time, end_time }] } - replaces the whole week
+router.put('/', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const { availability } = req.body || {};
+
+    if (!availability) {
+      return res.status(400).json({
+        success: false,
+        message: 'availability is required'
+      });
+    }
+
+    const saved = await saveWorkingHours(req.user!.id, availability);
+
+    return res.json({
+      success: true,
+      message: 'Working hours saved',
+      data: { availability: saved }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'saving working hours');
+  }
+});
+
+// FREE SLOTS ENDPOINT
+// GET /api/availability/free-slots?from=2026-03-02&duration=60&count=5
+// The next times within working hours that don't overlap a booked session
+router.get('/free-slots', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const from = (req.query.from as string) || new Date().toISOString().slice(0, 10);
+    const duration = req.query.duration ? Number(req.query.duration) : DEFAULT_SESSION_MINUTES;
+    const count = req.query.count ? Number(req.query.count) : undefined;
+
+    const slots = await getNextFreeSlots(req.user!.id, from, duration, count);
+    return res.json({ success: true, data: { slots } });
+  } catch (error) {
+    return sendServiceError(res, error, 'finding free slots');
+  }
+});
+
+export default router;
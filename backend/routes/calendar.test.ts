@@ -0,0 +1,159 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+import { buildCalendar } from '../services/calendarService';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+let therapist: TestUser;
+let patient: TestUser;
+
+const bearer = (user: TestUser) => ({ Authorization: `Bearer ${user.token}` });
+
+const bookSession = async (sessionTime: string = '10:30'): Promise<string> => {
+  const res = await request(app).post('/api/sessions').set(bearer(therapist)).send({
+    patient_id: patient.user.id,
+    session_date: '2026-03-02',
+    session_time: sessionTime,
+    session_type: 'Follow-up',
+    duration_minutes: 45,
+    location: 'Room 1, Main St'
+  });
+  return res.body.data.session.session_id;
+};
+
+// The VEVENT block for one session, unfolded
+const eventFor = (ics: string, sessionId: string): string => {
+  const unfolded = ics.replace(/\r\n /g, '');
+  const events = unfolded.split('BEGIN:VEVENT').slice(1);
+  return events.find(event => event.includes(`UID:${sessionId}@ownurvoice`)) || '';
+};
+
+const createFeed = async (user: TestUser): Promise<string> => {
+  const res = await request(app).post('/api/calendar/feed').set(bearer(user));
+  return new URL(res.body.data.feed_url).pathname;
+};
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  await linkTherapist(therapist, patient);
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('GET /api/calendar/sessions.ics', () => {
+  it('downloads the user\'s sessions, titled with the other person\'s name', async () => {
+    const sessionId = await bookSession();
+
+    const asPatient = await request(app).get('/api/calendar/sessions.ics').set(bearer(patient));
+    const asTherapist = await request(app).get('/api/calendar/sessions.ics').set(bearer(therapist));
+
+    expect(asPatient.statusCode).toBe(200);
+    expect(asPatient.headers['content-type']).toContain('text/calendar');
+    expect(asPatient.headers['content-disposition']).toContain('ownurvoice-sessions.ics');
+
+    const event = eventFor(asPatient.text, sessionId);
+    expect(event).toContain('DTSTART:20260302T103000');
+    expect(event).toContain('DTEND:20260302T111500');
+    expect(event).toContain('SUMMARY:Follow-up with therapist1 Test');
+    expect(event).toContain('LOCATION:Room 1\\, Main St');
+    expect(event).toContain('STATUS:CONFIRMED');
+    expect(eventFor(asTherapist.text, sessionId)).toContain('SUMMARY:Follow-up with patient1 Test');
+  });
+
+  it('is not available to parents and carers', async () => {
+    const carer = await createTestUser('parent_carer', 'carer1');
+    const res = await request(app).get('/api/calendar/sessions.ics').set(bearer(carer));
+
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('calendar feed links', () => {
+  it('serves the feed without logging in and reflects later changes under the same UID', async () => {
+    const sessionId = await bookSession();
+    const feedPath = await createFeed(patient);
+
+    const before = await request(app).get(feedPath);
+    expect(before.statusCode).toBe(200);
+    expect(eventFor(before.text, sessionId)).toContain('SEQUENCE:0');
+
+    await request(app).put(`/api/sessions/${sessionId}`).set(bearer(therapist)).send({
+      session_date: '2026-03-03',
+      session_time: '14:00',
+      session_type: 'Follow-up',
+      duration_minutes: 45,
+      location: 'Room 2'
+    });
+
+    const after = eventFor((await request(app).get(feedPath)).text, sessionId);
+    expect(after).toContain('SEQUENCE:1');
+    expect(after).toContain('DTSTART:20260303T140000');
+    expect(after).toContain('LOCATION:Room 2');
+  });
+
+  it('keeps deleted sessions in the feed as cancelled', async () => {
+    const sessionId = await bookSession();
+    const feedPath = await createFeed(therapist);
+
+    await request(app).delete(`/api/sessions/${sessionId}`).set(bearer(therapist));
+
+    const event = eventFor((await request(app).get(feedPath)).text, sessionId);
+    expect(event).toContain('STATUS:CANCELLED');
+    expect(event).toContain('SEQUENCE:1');
+  });
+
+  it('stops the old link working when a new one is created or the feed is turned off', async () => {
+    const firstPath = await createFeed(patient);
+    const secondPath = await createFeed(patient);
+
+    expect((await request(app).get(firstPath)).statusCode).toBe(404);
+    expect((await request(app).get(secondPath)).statusCode).toBe(200);
+
+    await request(app).delete('/api/calendar/feed').set(bearer(patient));
+    const status = await request(app).get('/api/calendar/feed').set(bearer(patient));
+
+    expect((await request(app).get(secondPath)).statusCode).toBe(404);
+    expect(status.body.data.feed.active).toBe(false);
+  });
+
+  it('returns 404 for an unknown token', async () => {
+    const res = await request(app).get('/api/calendar/feed/not-a-real-token.ics');
+
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('buildCalendar', () => {
+  it('folds long lines at 75 bytes', () => {
+    const ics = buildCalendar([{
+      uid: 'abc@ownurvoice',
+      session_date: '2026-03-02',
+      session_time: '23:30:00',
+      duration_minutes: 60,
+      summary: 'Follow-up with '.repeat(10),
+      location: null,
+      sequence: 0,
+      last_modified: new Date('2026-01-01T00:00:00Z'),
+      cancelled: false
+    }]);
+
+    expect(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    // Sessions that run past midnight end on the next day
+    expect(ics).toContain('DTEND:20260303T003000');
+  });
+});
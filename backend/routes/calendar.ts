@@ -0,0 +1,90 @@
+// backend/routes/calendar.ts
+import express, { Request, Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import {
+  getSessionCalendar,
+  getCalendarFeedStatus,
+  createCalendarFeed,
+  deleteCalendarFeed,
+  getFeedCalendar
+} from '../services/calendarService';
+import { sendServiceError } from './respond';
+
+const router: Router = express.Router();
+
+const sendCalendar = (res: Response, ics: string, filename?: string): Response => {
+  res.type('text/calendar; charset=utf-8');
+  if (filename) {
+    res.attachment(filename);
+  }
+  return res.send(ics);
+};
+
+// CALENDAR FEED ENDPOINT
+// GET /api/calendar/feed/:token.ics
+// Fetched by calendar apps, which can't log in - the private token in the link is the only credential
+router.get('/feed/:token.ics', async (req: Request, res: Response): Promise<any> => {
+  try {
+    const ics = await getFeedCalendar(req.params.token as string);
+    return sendCalendar(res, ics);
+  } catch (error) {
+    return sendServiceError(res, error, 'building calendar feed');
+  }
+});
+
+// Everything below is for the signed-in patient or therapist managing their own calendar
+router.use(authenticateToken, authorizeRole('patient', 'therapist'));
+
+// DOWNLOAD CALENDAR ENDPOINT
+// GET /api/calendar/sessions.ics
+// A one-off .ics file of the user's sessions, to import into any calendar app
+router.get('/sessions.ics', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const ics = await getSessionCalendar(req.user!.id);
+    return sendCalendar(res, ics, 'ownurvoice-sessions.ics');
+  } catch (error) {
+    return sendServiceError(res, error, 'exporting sessions');
+  }
+});
+
+// FEED STATUS ENDPOINT
+// GET /api/calendar/feed
+// Whether the user has a feed link; the link itself is only shown when it is created
+router.get('/feed', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const feed = await getCalendarFeedStatus(req.user!.id);
+    return res.json({ success: true, data: { feed } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching calendar feed');
+  }
+});
+
+// CREATE FEED ENDPOINT
+// POST /api/calendar/feed
+// Creates a new private feed link; any earlier link stops working
+router.post('/feed', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const feedUrl = await createCalendarFeed(req.user!.id);
+    return res.status(201).json({
+      success: true,
+      message: 'Calendar feed link created',
+      data: { feed_url: feedUrl }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'creating calendar feed');
+  }
+});
+
+// DELETE FEED ENDPOINT
+// DELETE /api/calendar/feed
+// Turns the feed link off; subscribed calendars stop updating
+router.delete('/feed', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    await deleteCalendarFeed(req.user!.id);
+    return res.json({ success: true, message: 'Calendar feed link turned off' });
+  } catch (error) {
+    return sendServiceError(res, error, 'deleting calendar feed');
+  }
+});
+
+export default router;
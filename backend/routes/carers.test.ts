@@ -0,0 +1,266 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+let therapist: TestUser;
+let patient: TestUser;
+let carer: TestUser;
+let goalId: string;
+let rowId: string;
+
+const bearer = (user: TestUser) => ({ Authorization: `Bearer ${user.token}` });
+
+// The carer asks to be linked to the patient and returns the new invitation's id
+const invite = async (from: TestUser = carer, email: string = patient.user.email) => {
+  const res = await request(app).post('/api/carers/invitations').set(bearer(from)).send({ patient_email: email });
+  return res.body.data?.invitation?.invitation_id as string;
+};
+
+const acceptedLink = async () => {
+  const invitationId = await invite();
+  await request(app).post(`/api/carers/invitations/${invitationId}/accept`).set(bearer(patient));
+};
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  carer = await createTestUser('parent_carer', 'carer1');
+  await linkTherapist(therapist, patient);
+
+  // The therapist books a session and sets a goal with one exercise row for the patient
+  await request(app).post('/api/sessions').set(bearer(therapist)).send({
+    patient_id: patient.user.id,
+    session_date: '2026-03-02',
+    session_time: '10:00',
+    session_type: 'Initial Assessment'
+  });
+  const goal = await request(app).post('/api/goals').set(bearer(therapist)).send({
+    patient_id: patient.user.id,
+    goal_description: 'Say /s/ at the start of words',
+    start_date: '2026-03-02',
+    target_date: '2026-04-02'
+  });
+  goalId = goal.body.data.goal.goal_id;
+  const exercise = await request(app).post('/api/exercises').set(bearer(therapist)).send({ title: 'Snake sounds' });
+  const rows = await request(app)
+    .post(`/api/goals/${goalId}/exercises`)
+    .set(bearer(therapist))
+    .send({ exercise_id: exercise.body.data.exercise.exercise_id });
+  rowId = rows.body.data.rows[0].row_id;
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('POST /api/carers/invitations', () => {
+  it('creates a pending invitation for the patient with that email', async () => {
+    const res = await request(app)
+      .post('/api/carers/invitations')
+      .set(bearer(carer))
+      .send({ patient_email: patient.user.email });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.invitation).toMatchObject({
+      carer_id: carer.user.id,
+      patient_id: patient.user.id,
+      status: 'pending'
+    });
+  });
+
+  it('returns 404 when no patient has that email', async () => {
+    const res = await request(app)
+      .post('/api/carers/invitations')
+      .set(bearer(carer))
+      .send({ patient_email: therapist.user.email });
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('refuses a second request while one is pending, or once linked', async () => {
+    await invite();
+    const pending = await request(app)
+      .post('/api/carers/invitations')
+      .set(bearer(carer))
+      .send({ patient_email: patient.user.email });
+
+    await pool.query('DELETE FROM carer_invitation');
+    await acceptedLink();
+    const linked = await request(app)
+      .post('/api/carers/invitations')
+      .set(bearer(carer))
+      .send({ patient_email: patient.user.email });
+
+    expect(pending.statusCode).toBe(409);
+    expect(linked.statusCode).toBe(409);
+  });
+
+  it('is only available to parents and carers', async () => {
+    const res = await request(app)
+      .post('/api/carers/invitations')
+      .set(bearer(therapist))
+      .send({ patient_email: patient.user.email });
+
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('answering an invitation', () => {
+  it('links the carer when the patient accepts', async () => {
+    const invitationId = await invite();
+
+    const waiting = await request(app).get('/api/carers/invitations').set(bearer(patient));
+    expect(waiting.body.data.invitations).toHaveLength(1);
+    expect(waiting.body.data.invitations[0].carer).toMatchObject({
+      first_name: 'carer1',
+      relationship_to_patient: 'Parent'
+    });
+
+    const res = await request(app)
+      .post(`/api/carers/invitations/${invitationId}/accept`)
+      .set(bearer(patient));
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.invitation).toMatchObject({ status: 'accepted', responded_by: patient.user.id });
+
+    const children = await request(app).get('/api/carers/patients').set(bearer(carer));
+    expect(children.body.data.patients.map((p: any) => p.user_id)).toEqual([patient.user.id]);
+  });
+
+  it('lets the patient\'s therapist accept', async () => {
+    const invitationId = await invite();
+
+    const waiting = await request(app).get('/api/carers/invitations').set(bearer(therapist));
+    const res = await request(app)
+      .post(`/api/carers/invitations/${invitationId}/accept`)
+      .set(bearer(therapist));
+
+    expect(waiting.body.data.invitations).toHaveLength(1);
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('does not link the carer when declined', async () => {
+    const invitationId = await invite();
+
+    const res = await request(app)
+      .post(`/api/carers/invitations/${invitationId}/decline`)
+      .set(bearer(patient));
+    const children = await request(app).get('/api/carers/patients').set(bearer(carer));
+
+    expect(res.body.data.invitation.status).toBe('declined');
+    expect(children.body.data.patients).toHaveLength(0);
+  });
+
+  it('can only be answered once', async () => {
+    const invitationId = await invite();
+    await request(app).post(`/api/carers/invitations/${invitationId}/decline`).set(bearer(patient));
+
+    const res = await request(app)
+      .post(`/api/carers/invitations/${invitationId}/accept`)
+      .set(bearer(patient));
+
+    expect(res.statusCode).toBe(409);
+  });
+
+  it('cannot be answered by other patients, unlinked therapists or carers', async () => {
+    const invitationId = await invite();
+    const otherPatient = await createTestUser('patient', 'patient2');
+    const otherTherapist = await createTestUser('therapist', 'therapist2');
+
+    const byPatient = await request(app)
+      .post(`/api/carers/invitations/${invitationId}/accept`)
+      .set(bearer(otherPatient));
+    const byTherapist = await request(app)
+      .post(`/api/carers/invitations/${invitationId}/accept`)
+      .set(bearer(otherTherapist));
+    const byCarer = await request(app)
+      .post(`/api/carers/invitations/${invitationId}/accept`)
+      .set(bearer(carer));
+
+    expect(byPatient.statusCode).toBe(403);
+    expect(byTherapist.statusCode).toBe(403);
+    expect(byCarer.statusCode).toBe(403);
+  });
+});
+
+describe('a linked carer', () => {
+  it('can read the child\'s sessions, goals and exercise rows', async () => {
+    await acceptedLink();
+
+    const sessions = await request(app).get(`/api/patients/${patient.user.id}/sessions`).set(bearer(carer));
+    const goals = await request(app).get(`/api/patients/${patient.user.id}/goals?active=true`).set(bearer(carer));
+    const rows = await request(app).get(`/api/goals/${goalId}/exercises`).set(bearer(carer));
+
+    expect(sessions.body.data.sessions).toHaveLength(1);
+    expect(goals.body.data.goals).toHaveLength(1);
+    expect(rows.body.data.rows).toHaveLength(1);
+  });
+
+  it('ticks an exercise on the child\'s behalf, attributed to the carer', async () => {
+    await acceptedLink();
+
+    const res = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set(bearer(carer))
+      .send({ completed: true });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.row).toMatchObject({ completed: true, completed_by: carer.user.id });
+  });
+
+  it('cannot rate exercises or change the therapy plan', async () => {
+    await acceptedLink();
+
+    const rating = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set(bearer(carer))
+      .send({ difficulty_rating: 4 });
+    const goal = await request(app)
+      .delete(`/api/goals/${goalId}`)
+      .set(bearer(carer));
+
+    expect(rating.statusCode).toBe(403);
+    expect(goal.statusCode).toBe(403);
+  });
+
+  it('has no access before the invitation is accepted', async () => {
+    await invite();
+
+    const profile = await request(app).get(`/api/patients/${patient.user.id}`).set(bearer(carer));
+    const tick = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set(bearer(carer))
+      .send({ completed: true });
+
+    expect(profile.statusCode).toBe(403);
+    expect(tick.statusCode).toBe(403);
+  });
+});
+
+describe('exercise row attribution', () => {
+  it('records the patient when they tick a row and clears it when unticked', async () => {
+    const ticked = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set(bearer(patient))
+      .send({ completed: true });
+    const unticked = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set(bearer(patient))
+      .send({ completed: false });
+
+    expect(ticked.body.data.row.completed_by).toBe(patient.user.id);
+    expect(unticked.body.data.row).toMatchObject({ completed: false, completed_by: null, completion_date: null });
+  });
+});
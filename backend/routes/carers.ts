@@ -0,0 +1,107 @@
+// backend/routes/carers.ts
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import {
+  getCarerPatients,
+  inviteCarerToPatient,
+  getCarerInvitations,
+  respondToCarerInvitation
+} from '../services/carerService';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+router.use(authenticateToken);
+router.param('invitationId', validateIdParam);
+
+// LINKED PATIENTS ENDPOINT
+// GET /api/carers/patients
+// The children the logged-in carer has been linked to; their records are read through /api/patients/:patientId
+router.get('/patients', authorizeRole('parent_carer'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patients = await getCarerPatients(req.user!.id);
+    return res.json({ success: true, data: { patients } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching linked patients');
+  }
+});
+
+// CREATE INVITATION ENDPOINT
+// POST /api/carers/invitations
+// Body: { patient_email } - the carer asks to be linked to a patient
+router.post('/invitations', authorizeRole('parent_carer'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const { patient_email } = req.body || {};
+
+    if (!patient_email) {
+      return res.status(400).json({
+        success: false,
+        message: 'patient_email is required'
+      });
+    }
+
+    const invitation = await inviteCarerToPatient(req.user!.id, patient_email);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Request sent. The patient or their therapist needs to accept it.',
+      data: { invitation }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'creating invitation');
+  }
+});
+
+// LIST INVITATIONS ENDPOINT
+// GET /api/carers/invitations
+// Carers get the requests they sent; patients and therapists get the ones waiting for their answer
+router.get('/invitations', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const invitations = await getCarerInvitations(req.user!);
+    return res.json({ success: true, data: { invitations } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching invitations');
+  }
+});
+
+// ACCEPT INVITATION ENDPOINT
+// POST /api/carers/invitations/:invitationId/accept
+router.post(
+  '/invitations/:invitationId/accept',
+  authorizeRole('patient', 'therapist'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const invitation = await respondToCarerInvitation(req.user!, req.params.invitationId as string, true);
+
+      return res.json({
+        success: true,
+        message: 'Carer linked to the patient',
+        data: { invitation }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'accepting invitation');
+    }
+  }
+);
+
+// DECLINE INVITATION ENDPOINT
+// POST /api/carers/invitations/:invitationId/decline
+router.post(
+  '/invitations/:invitationId/decline',
+  authorizeRole('patient', 'therapist'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const invitation = await respondToCarerInvitation(req.user!, req.params.invitationId as string, false);
+
+      return res.json({
+        success: true,
+        message: 'Invitation declined',
+        data: { invitation }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'declining invitation');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,213 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { FileStorage } from '../services/fileStorage';
+import { setMediaStorage } from '../services/mediaStorage';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+const IMAGE = Buffer.from('pretend png picture');
+
+let storageDir: string;
+let therapist: TestUser;
+let patient: TestUser;
+let exerciseId: string;
+let rowId: string;
+
+const saveContent = (user: TestUser, body: object) =>
+  request(app)
+    .put(`/api/exercises/${exerciseId}/content`)
+    .set('Authorization', `Bearer ${user.token}`)
+    .send(body);
+
+const uploadMedia = (user: TestUser, contentType: string = 'image/png') =>
+  request(app)
+    .post(`/api/exercises/${exerciseId}/media?caption=Lips%20together`)
+    .set('Authorization', `Bearer ${user.token}`)
+    .set('Content-Type', contentType)
+    .send(IMAGE);
+
+const practice = (user: TestUser) =>
+  request(app).get(`/api/goals/rows/${rowId}/practice`).set('Authorization', `Bearer ${user.token}`);
+
+const attempt = (user: TestUser, promptId: string) =>
+  request(app)
+    .post(`/api/goals/rows/${rowId}/practice/attempts`)
+    .set('Authorization', `Bearer ${user.token}`)
+    .send({ prompt_id: promptId });
+
+beforeAll(async () => {
+  await runMigrations(pool);
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ownurvoice-exercise-media-'));
+  setMediaStorage(new FileStorage(storageDir));
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  await linkTherapist(therapist, patient);
+
+  const auth = { Authorization: `Bearer ${therapist.token}` };
+  await request(app).post('/api/sessions').set(auth).send({
+    patient_id: patient.user.id,
+    session_date: '2026-03-02',
+    session_time: '10:00',
+    session_type: 'Initial Assessment'
+  });
+  const goal = await request(app).post('/api/goals').set(auth).send({
+    patient_id: patient.user.id,
+    goal_description: 'Say /p/ at the start of words',
+    start_date: '2026-03-02',
+    target_date: '2026-04-02'
+  });
+  const exercise = await request(app).post('/api/exercises').set(auth).send({ title: 'Popping /p/' });
+  exerciseId = exercise.body.data.exercise.exercise_id;
+  const assigned = await request(app)
+    .post(`/api/goals/${goal.body.data.goal.goal_id}/exercises`)
+    .set(auth)
+    .send({ exercise_id: exerciseId });
+  rowId = assigned.body.data.rows[0].row_id;
+});
+
+afterAll(async () => {
+  fs.rmSync(storageDir, { recursive: true, force: true });
+  await pool.end();
+});
+
+describe('exercise steps and prompts', () => {
+  it('saves them in order and keeps prompt ids when the list is edited', async () => {
+    const saved = await saveContent(therapist, {
+      steps: ['Press your lips together', ' Let the air pop out '],
+      prompts: [{ text: 'pea' }, { text: 'pie' }, { text: 'pool' }]
+    });
+
+    expect(saved.statusCode).toBe(200);
+    expect(saved.body.data.steps).toEqual(['Press your lips together', 'Let the air pop out']);
+    const [pea, pie] = saved.body.data.prompts;
+
+    const edited = await saveContent(therapist, {
+      steps: ['Press your lips together'],
+      prompts: [{ prompt_id: pie.prompt_id, text: 'pie' }, { prompt_id: pea.prompt_id, text: 'peas' }]
+    });
+
+    expect(edited.body.data.prompts).toEqual([
+      expect.objectContaining({ prompt_id: pie.prompt_id, text: 'pie', position: 0 }),
+      expect.objectContaining({ prompt_id: pea.prompt_id, text: 'peas', position: 1 })
+    ]);
+  });
+
+  it('rejects blank entries, unknown prompt ids and other therapists', async () => {
+    const other = await createTestUser('therapist', 'therapist2');
+
+    expect((await saveContent(therapist, { steps: ['  '], prompts: [] })).statusCode).toBe(400);
+    expect((await saveContent(therapist, { steps: [], prompts: 'pea' })).statusCode).toBe(400);
+    expect((await saveContent(therapist, {
+      steps: [],
+      prompts: [{ prompt_id: '00000000-0000-4000-8000-000000000000', text: 'pea' }]
+    })).statusCode).toBe(400);
+    expect((await saveContent(other, { steps: [], prompts: [] })).statusCode).toBe(403);
+  });
+});
+
+describe('exercise media', () => {
+  it('stores the file under the exercise and serves it to the therapist and the patient', async () => {
+    const res = await uploadMedia(therapist);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.media).toMatchObject({ kind: 'image', mime_type: 'image/png', caption: 'Lips together' });
+    expect(fs.readdirSync(path.join(storageDir, 'exercise-media', exerciseId))).toHaveLength(1);
+    const mediaId = res.body.data.media.media_id;
+
+    const asTherapist = await request(app)
+      .get(`/api/exercises/${exerciseId}/media/${mediaId}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .responseType('blob');
+    expect(asTherapist.headers['content-type']).toMatch(/^image\/png/);
+    expect(Buffer.compare(asTherapist.body, IMAGE)).toBe(0);
+
+    const asPatient = await request(app)
+      .get(`/api/goals/rows/${rowId}/media/${mediaId}`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .responseType('blob');
+    expect(asPatient.statusCode).toBe(200);
+  });
+
+  it('only accepts audio, video and images', async () => {
+    expect((await uploadMedia(therapist, 'application/pdf')).statusCode).toBe(400);
+  });
+
+  it('removes the file when the media is deleted', async () => {
+    const mediaId = (await uploadMedia(therapist)).body.data.media.media_id;
+
+    const res = await request(app)
+      .delete(`/api/exercises/${exerciseId}/media/${mediaId}`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(fs.readdirSync(path.join(storageDir, 'exercise-media', exerciseId))).toHaveLength(0);
+  });
+});
+
+describe('practice mode', () => {
+  it('records which prompts the patient has tried during the practice', async () => {
+    await saveContent(therapist, { steps: ['Press your lips together'], prompts: [{ text: 'pea' }, { text: 'pie' }] });
+    const before = await practice(patient);
+
+    expect(before.statusCode).toBe(200);
+    expect(before.body.data.practice).toMatchObject({ steps: ['Press your lips together'], attempted_prompt_ids: [] });
+    const [pea] = before.body.data.practice.prompts;
+
+    expect((await attempt(patient, pea.prompt_id)).statusCode).toBe(201);
+    const again = await attempt(patient, pea.prompt_id);
+    expect(again.body.data.attempted_prompt_ids).toEqual([pea.prompt_id]);
+
+    // The therapist can see what was tried but can't try prompts for the patient
+    expect((await practice(therapist)).body.data.practice.attempted_prompt_ids).toEqual([pea.prompt_id]);
+    expect((await attempt(therapist, pea.prompt_id)).statusCode).toBe(403);
+  });
+
+  it('only accepts prompts from the row\'s own exercise', async () => {
+    const other = await request(app)
+      .post('/api/exercises')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ title: 'Buzzing /b/' });
+    const otherContent = await request(app)
+      .put(`/api/exercises/${other.body.data.exercise.exercise_id}/content`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ steps: [], prompts: [{ text: 'bee' }] });
+
+    const res = await attempt(patient, otherContent.body.data.prompts[0].prompt_id);
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('copying an exercise with content', () => {
+  it('gives the copy its own steps, prompts and media files', async () => {
+    await saveContent(therapist, { steps: ['Press your lips together'], prompts: [{ text: 'pea' }] });
+    await uploadMedia(therapist);
+
+    const copied = await request(app)
+      .post(`/api/exercises/${exerciseId}/clone`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    const copyId = copied.body.data.exercise.exercise_id;
+
+    const content = await request(app)
+      .get(`/api/exercises/${copyId}/content`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(content.body.data.steps).toEqual(['Press your lips together']);
+    expect(content.body.data.prompts.map((p: any) => p.text)).toEqual(['pea']);
+    expect(content.body.data.media).toEqual([expect.objectContaining({ caption: 'Lips together' })]);
+    expect(fs.readdirSync(path.join(storageDir, 'exercise-media', copyId))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,200 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+let therapist: TestUser;
+
+const createExercise = (title: string, body: object = {}) =>
+  request(app)
+    .post('/api/exercises')
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send({ title, description: 'Practise slowly', difficulty_level: 'beginner', recommended_frequency: 'daily', ...body });
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('exercise library', () => {
+  it('creates exercises owned by the therapist and lists them alphabetically', async () => {
+    const created = await createExercise('Slow reading');
+    await createExercise('Breathing');
+
+    expect(created.statusCode).toBe(201);
+    expect(created.body.data.exercise.created_by).toBe(therapist.user.id);
+
+    const res = await request(app)
+      .get('/api/exercises')
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.body.data.exercises.map((e: any) => e.title)).toEqual(['Breathing', 'Slow reading']);
+  });
+
+  it('does not list other therapists\' exercises', async () => {
+    await createExercise('Breathing');
+    const other = await createTestUser('therapist', 'therapist2');
+
+    const res = await request(app)
+      .get('/api/exercises')
+      .set('Authorization', `Bearer ${other.token}`);
+
+    expect(res.body.data.exercises).toHaveLength(0);
+  });
+
+  it('validates difficulty and frequency', async () => {
+    const badDifficulty = await createExercise('Breathing', { difficulty_level: 'expert' });
+    const badFrequency = await createExercise('Breathing', { recommended_frequency: 'hourly' });
+
+    expect(badDifficulty.statusCode).toBe(400);
+    expect(badFrequency.statusCode).toBe(400);
+  });
+
+  it('updates and deletes an exercise', async () => {
+    const created = await createExercise('Breathing');
+    const exerciseId = created.body.data.exercise.exercise_id;
+
+    const updated = await request(app)
+      .put(`/api/exercises/${exerciseId}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ title: 'Diaphragmatic breathing', description: 'Hand on belly', difficulty_level: 'intermediate' });
+    expect(updated.statusCode).toBe(200);
+    expect(updated.body.data.exercise.title).toBe('Diaphragmatic breathing');
+
+    const deleted = await request(app)
+      .delete(`/api/exercises/${exerciseId}`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    expect(deleted.statusCode).toBe(200);
+
+    const missing = await request(app)
+      .delete(`/api/exercises/${exerciseId}`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('is not available to patients', async () => {
+    const patient = await createTestUser('patient', 'patient1');
+
+    const res = await request(app)
+      .get('/api/exercises')
+      .set('Authorization', `Bearer ${patient.token}`);
+
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('browsing and sharing the library', () => {
+  const list = (user: TestUser, query: string = '') =>
+    request(app).get(`/api/exercises${query}`).set('Authorization', `Bearer ${user.token}`);
+
+  const share = (user: TestUser, exerciseId: string, isShared: boolean) =>
+    request(app)
+      .put(`/api/exercises/${exerciseId}/sharing`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ is_shared: isShared });
+
+  it('filters by category, difficulty and frequency, and searches titles and descriptions', async () => {
+    await createExercise('Easy onset', { category: 'fluency' });
+    await createExercise('Minimal pairs', { category: 'articulation', difficulty_level: 'intermediate' });
+    await createExercise('Humming', { category: 'voice', recommended_frequency: 'weekly', description: 'Gentle resonance' });
+
+    const titles = async (query: string) => (await list(therapist, query)).body.data.exercises.map((e: any) => e.title);
+
+    expect(await titles('?category=articulation')).toEqual(['Minimal pairs']);
+    expect(await titles('?difficulty_level=beginner')).toEqual(['Easy onset', 'Humming']);
+    expect(await titles('?recommended_frequency=weekly')).toEqual(['Humming']);
+    expect(await titles('?search=RESONANCE')).toEqual(['Humming']);
+    expect((await list(therapist, '?category=singing')).statusCode).toBe(400);
+  });
+
+  it('shows shared exercises to colleagues at the same clinic only', async () => {
+    const exerciseId = (await createExercise('Easy onset', { category: 'fluency' })).body.data.exercise.exercise_id;
+    const colleague = await createTestUser('therapist', 'therapist2');
+    const elsewhere = await createTestUser('therapist', 'therapist3');
+    await pool.query('UPDATE users SET clinic_name = $1 WHERE id = $2', ['Another Clinic', elsewhere.user.id]);
+
+    expect((await list(colleague, '?scope=shared')).body.data.exercises).toHaveLength(0);
+
+    const shared = await share(therapist, exerciseId, true);
+    expect(shared.statusCode).toBe(200);
+    expect(shared.body.data.exercise.is_shared).toBe(true);
+    expect((await share(colleague, exerciseId, false)).statusCode).toBe(403);
+
+    const colleagueView = await list(colleague, '?scope=all');
+    expect(colleagueView.body.data.exercises).toEqual([
+      expect.objectContaining({ title: 'Easy onset', creator: { first_name: 'therapist1', last_name: 'Test' } })
+    ]);
+    expect((await list(colleague)).body.data.exercises).toHaveLength(0);
+    expect((await list(elsewhere, '?scope=shared')).body.data.exercises).toHaveLength(0);
+  });
+
+  it('copies a shared exercise into the colleague\'s own library', async () => {
+    const exerciseId = (await createExercise('Easy onset', { category: 'fluency' })).body.data.exercise.exercise_id;
+    const colleague = await createTestUser('therapist', 'therapist2');
+    const clone = (user: TestUser) =>
+      request(app).post(`/api/exercises/${exerciseId}/clone`).set('Authorization', `Bearer ${user.token}`);
+
+    expect((await clone(colleague)).statusCode).toBe(403);
+
+    await share(therapist, exerciseId, true);
+    const copied = await clone(colleague);
+    expect(copied.statusCode).toBe(201);
+    expect(copied.body.data.exercise).toMatchObject({
+      created_by: colleague.user.id,
+      title: 'Easy onset',
+      category: 'fluency',
+      is_shared: false,
+      cloned_from: exerciseId
+    });
+
+    const ownCopy = await clone(therapist);
+    expect(ownCopy.body.data.exercise.title).toBe('Easy onset (copy)');
+  });
+
+  it('lets colleagues assign a shared exercise, and then keeps it from being deleted', async () => {
+    const exerciseId = (await createExercise('Easy onset')).body.data.exercise.exercise_id;
+    const colleague = await createTestUser('therapist', 'therapist2');
+    const patient = await createTestUser('patient', 'patient1');
+    await linkTherapist(colleague, patient);
+    const auth = { Authorization: `Bearer ${colleague.token}` };
+
+    await request(app).post('/api/sessions').set(auth).send({
+      patient_id: patient.user.id,
+      session_date: '2026-03-02',
+      session_time: '10:00',
+      session_type: 'Initial Assessment'
+    });
+    const goal = await request(app).post('/api/goals').set(auth).send({
+      patient_id: patient.user.id,
+      goal_description: 'Start phrases smoothly',
+      start_date: '2026-03-02',
+      target_date: '2026-04-02'
+    });
+    const assign = () =>
+      request(app).post(`/api/goals/${goal.body.data.goal.goal_id}/exercises`).set(auth).send({ exercise_id: exerciseId });
+
+    expect((await assign()).statusCode).toBe(403);
+    await share(therapist, exerciseId, true);
+    expect((await assign()).statusCode).toBe(201);
+
+    const deleted = await request(app)
+      .delete(`/api/exercises/${exerciseId}`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    expect(deleted.statusCode).toBe(409);
+  });
+});
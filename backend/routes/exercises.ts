@@ -0,0 +1,231 @@
+// backend/routes/exercises.ts
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import { authorizeExerciseOwner, authorizeExerciseUse } from '../middleware/ownership';
+import { createExercise, updateExercise, deleteExercise } from '../services/therapistService';
+import { getExerciseLibrary, cloneExercise, setExerciseShared } from '../services/exerciseLibraryService';
+import {
+  getExerciseContent,
+  updateExerciseContent,
+  addExerciseMedia,
+  getExerciseMediaFile,
+  deleteExerciseMedia,
+  MAX_MEDIA_BYTES
+} from '../services/exerciseContentService';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+// The exercise library is managed by therapists only
+router.use(authenticateToken, authorizeRole('therapist'));
+router.param('exerciseId', validateIdParam);
+router.param('mediaId', validateIdParam);
+
+// LIST EXERCISES ENDPOINT
+// GET /api/exercises?scope=&category=&difficulty_level=&recommended_frequency=&search=
+// scope is mine (the default), shared (colleagues' exercises shared with the clinic) or all
+router.get('/', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const exercises = await getExerciseLibrary(req.user!.id, req.query as Record<string, unknown>);
+    return res.json({ success: true, data: { exercises } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching exercises');
+  }
+});
+
+// CREATE EXERCISE ENDPOINT
+// POST /api/exercises
+router.post('/', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const { title, description, difficulty_level, recommended_frequency, category } = req.body || {};
+
+    if (!title) {
+      return res.status(400).json({
+        success: false,
+        message: 'Title is required'
+      });
+    }
+
+    const exercise = await createExercise({
+      created_by: req.user!.id,
+      title,
+      description: description || '',
+      difficulty_level: difficulty_level || 'beginner',
+      recommended_frequency: recommended_frequency || 'daily',
+      category: category || null
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Exercise created successfully',
+      data: { exercise }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'creating exercise');
+  }
+});
+
+// UPDATE EXERCISE ENDPOINT
+// PUT /api/exercises/:exerciseId
+router.put('/:exerciseId', authorizeExerciseOwner(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const { title, description, difficulty_level, recommended_frequency, category } = req.body || {};
+
+    if (!title || !difficulty_level) {
+      return res.status(400).json({
+        success: false,
+        message: 'Title and difficulty_level are required'
+      });
+    }
+
+    const exercise = await updateExercise(req.params.exerciseId as string, {
+      title,
+      description: description || '',
+      difficulty_level,
+      recommended_frequency: recommended_frequency || undefined,
+      category: category || undefined
+    });
+
+    return res.json({
+      success: true,
+      message: 'Exercise updated successfully',
+      data: { exercise }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'updating exercise');
+  }
+});
+
+// CLONE EXERCISE ENDPOINT
+// POST /api/exercises/:exerciseId/clone
+// Copies one of the therapist's exercises, or one shared with their clinic, into their own library
+router.post('/:exerciseId/clone', authorizeExerciseUse(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const exercise = await cloneExercise(req.user!.id, req.params.exerciseId as string);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Exercise copied to your library',
+      data: { exercise }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'copying exercise');
+  }
+});
+
+// EXERCISE SHARING ENDPOINT
+// PUT /api/exercises/:exerciseId/sharing
+// Body: { is_shared } - publishes the exercise to every therapist at the same clinic, or takes it back
+router.put('/:exerciseId/sharing', authorizeExerciseOwner(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const exercise = await setExerciseShared(req.user!.id, req.params.exerciseId as string, (req.body || {}).is_shared);
+
+    return res.json({
+      success: true,
+      message: exercise.is_shared ? 'Exercise shared with your clinic' : 'Exercise is no longer shared',
+      data: { exercise }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'sharing exercise');
+  }
+});
+
+// EXERCISE CONTENT ENDPOINT
+// GET /api/exercises/:exerciseId/content
+// The steps, practice prompts and media patients see; patients get them through /api/goals/rows/:rowId/practice
+router.get('/:exerciseId/content', authorizeExerciseUse(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const content = await getExerciseContent(req.params.exerciseId as string);
+    return res.json({ success: true, data: content });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching exercise content');
+  }
+});
+
+// UPDATE EXERCISE CONTENT ENDPOINT
+// PUT /api/exercises/:exerciseId/content
+// Body: { steps: string[], prompts: [{ prompt_id?, text }] } - both lists in the order patients see them
+// Prompts that are kept are sent with their prompt_id; any prompt left out is removed
+router.put('/:exerciseId/content', authorizeExerciseOwner(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const content = await updateExerciseContent(req.params.exerciseId as string, req.body);
+
+    return res.json({
+      success: true,
+      message: 'Exercise content saved',
+      data: content
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'saving exercise content');
+  }
+});
+
+// UPLOAD EXERCISE MEDIA ENDPOINT
+// POST /api/exercises/:exerciseId/media?caption=...
+// Body: the file itself, sent with its audio/*, video/* or image/* Content-Type
+router.post(
+  '/:exerciseId/media',
+  authorizeExerciseOwner(),
+  express.raw({ type: ['audio/*', 'video/*', 'image/*'], limit: MAX_MEDIA_BYTES }),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const media = await addExerciseMedia(
+        req.params.exerciseId as string,
+        req.body,
+        req.headers['content-type'],
+        req.query.caption
+      );
+
+      return res.status(201).json({
+        success: true,
+        message: 'Media added',
+        data: { media }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'adding exercise media');
+    }
+  }
+);
+
+// EXERCISE MEDIA FILE ENDPOINT
+// GET /api/exercises/:exerciseId/media/:mediaId
+// Responds with the file itself, for an <audio>, <video> or <img> element
+router.get('/:exerciseId/media/:mediaId', authorizeExerciseUse(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const { data, mimeType } = await getExerciseMediaFile(req.params.exerciseId as string, req.params.mediaId as string);
+    return res.type(mimeType).send(data);
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching exercise media');
+  }
+});
+
+// DELETE EXERCISE MEDIA ENDPOINT
+// DELETE /api/exercises/:exerciseId/media/:mediaId
+router.delete('/:exerciseId/media/:mediaId', authorizeExerciseOwner(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    await deleteExerciseMedia(req.params.exerciseId as string, req.params.mediaId as string);
+    return res.json({
+      success: true,
+      message: 'Media deleted'
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'deleting exercise media');
+  }
+});
+
+// DELETE EXERCISE ENDPOINT
+// DELETE /api/exercises/:exerciseId
+// Also removes the exercise from every goal it was assigned to
+router.delete('/:exerciseId', authorizeExerciseOwner(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    await deleteExercise(req.params.exerciseId as string);
+    return res.json({
+      success: true,
+      message: 'Exercise deleted successfully'
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'deleting exercise');
+  }
+});
+
+export default router;
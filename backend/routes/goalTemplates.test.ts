@@ -0,0 +1,211 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+let therapist: TestUser;
+let colleague: TestUser;
+let patient: TestUser;
+
+const createExercise = async (owner: TestUser, title: string, recommended_frequency: string = 'daily') => {
+  const res = await request(app)
+    .post('/api/exercises')
+    .set('Authorization', `Bearer ${owner.token}`)
+    .send({ title, difficulty_level: 'beginner', recommended_frequency });
+  return res.body.data.exercise.exercise_id as string;
+};
+
+const newTemplate = (exercises: object[] = []) => ({
+  title: 'Easy onset',
+  specific_behaviour: 'Use easy onset at the start of sentences',
+  measurable_criterion: '80% accuracy over 3 sessions',
+  context: 'in conversation with family',
+  timeframe_weeks: 4,
+  exercises
+});
+
+const createTemplate = async (owner: TestUser, body: object) => {
+  return request(app)
+    .post('/api/goal-templates')
+    .set('Authorization', `Bearer ${owner.token}`)
+    .send(body);
+};
+
+// Goals can only be set for a patient the therapist has a session with
+const bookSession = async (owner: TestUser, patient: TestUser): Promise<void> => {
+  await request(app)
+    .post('/api/sessions')
+    .set('Authorization', `Bearer ${owner.token}`)
+    .send({
+      patient_id: patient.user.id,
+      session_date: '2026-03-02',
+      session_time: '10:00',
+      session_type: 'Initial Assessment'
+    });
+};
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  colleague = await createTestUser('therapist', 'therapist2');
+  patient = await createTestUser('patient', 'patient1');
+  await linkTherapist(therapist, patient);
+  await bookSession(therapist, patient);
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('goal templates', () => {
+  it('creates a template with its bundled exercises, shown to colleagues once shared', async () => {
+    const breathing = await createExercise(therapist, 'Breathing');
+    const reading = await createExercise(therapist, 'Slow reading');
+
+    const created = await createTemplate(therapist, newTemplate([
+      { exercise_id: reading, schedule: { kind: 'per_week', times: 2 } },
+      { exercise_id: breathing }
+    ]));
+    const templateId = created.body.data.template.template_id;
+
+    expect(created.statusCode).toBe(201);
+    expect(created.body.data.template.exercises.map((e: any) => [e.title, e.schedule])).toEqual([
+      ['Slow reading', { kind: 'per_week', times: 2 }],
+      ['Breathing', null]
+    ]);
+
+    const before = await request(app).get('/api/goal-templates').set('Authorization', `Bearer ${colleague.token}`);
+    await request(app)
+      .put(`/api/goal-templates/${templateId}/sharing`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ is_shared: true });
+    const after = await request(app).get('/api/goal-templates').set('Authorization', `Bearer ${colleague.token}`);
+
+    expect(before.body.data.templates).toHaveLength(0);
+    expect(after.body.data.templates.map((t: any) => [t.title, t.creator.first_name])).toEqual([['Easy onset', 'therapist1']]);
+  });
+
+  it('needs the SMART fields, a timeframe and exercises the therapist can use', async () => {
+    const unshared = await createExercise(colleague, 'Lip trills');
+
+    const noCriterion = await createTemplate(therapist, { ...newTemplate(), measurable_criterion: ' ' });
+    const noTimeframe = await createTemplate(therapist, { ...newTemplate(), timeframe_weeks: 0 });
+    const badSchedule = await createTemplate(therapist, newTemplate([
+      { exercise_id: await createExercise(therapist, 'Breathing'), schedule: { kind: 'weekdays', weekdays: [] } }
+    ]));
+    const othersExercise = await createTemplate(therapist, newTemplate([{ exercise_id: unshared }]));
+
+    expect(noCriterion.statusCode).toBe(400);
+    expect(noTimeframe.statusCode).toBe(400);
+    expect(badSchedule.statusCode).toBe(400);
+    expect(othersExercise.statusCode).toBe(403);
+  });
+
+  it('only lets the owner edit or delete a template', async () => {
+    const created = await createTemplate(therapist, newTemplate());
+    const templateId = created.body.data.template.template_id;
+
+    const edited = await request(app)
+      .put(`/api/goal-templates/${templateId}`)
+      .set('Authorization', `Bearer ${colleague.token}`)
+      .send({ ...newTemplate(), title: 'Mine now' });
+    const deleted = await request(app)
+      .delete(`/api/goal-templates/${templateId}`)
+      .set('Authorization', `Bearer ${colleague.token}`);
+    const updated = await request(app)
+      .put(`/api/goal-templates/${templateId}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newTemplate(), timeframe_weeks: 6 });
+
+    expect(edited.statusCode).toBe(403);
+    expect(deleted.statusCode).toBe(403);
+    expect(updated.body.data.template.timeframe_weeks).toBe(6);
+  });
+});
+
+describe('POST /api/goal-templates/:templateId/goals', () => {
+  it('creates the SMART goal over the template\'s timeframe and schedules its exercises', async () => {
+    const breathing = await createExercise(therapist, 'Breathing', 'weekly');
+    const reading = await createExercise(therapist, 'Slow reading');
+    const created = await createTemplate(therapist, newTemplate([
+      { exercise_id: reading, schedule: { kind: 'weekdays', weekdays: [1, 3], slots: [] } },
+      { exercise_id: breathing }
+    ]));
+
+    // 2030-03-04 is a Monday, so the four weeks run to Monday 2030-04-01
+    const res = await request(app)
+      .post(`/api/goal-templates/${created.body.data.template.template_id}/goals`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ patient_id: patient.user.id, start_date: '2030-03-04' });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.goal).toMatchObject({
+      plan_id: expect.any(String),
+      start_date: '2030-03-04',
+      target_date: '2030-04-01',
+      specific_behaviour: 'Use easy onset at the start of sentences',
+      measurable_criterion: '80% accuracy over 3 sessions',
+      goal_description: 'Use easy onset at the start of sentences in conversation with family (80% accuracy over 3 sessions)'
+    });
+
+    const rows = res.body.data.rows;
+    // Mondays and Wednesdays, then once a week by the exercise's recommended frequency
+    expect(rows.filter((row: any) => row.exercise_id === reading)).toHaveLength(9);
+    expect(rows.filter((row: any) => row.exercise_id === breathing)).toHaveLength(5);
+  });
+
+  it('leaves no goal behind when a schedule can\'t be made', async () => {
+    const reading = await createExercise(therapist, 'Slow reading');
+    const created = await createTemplate(therapist, {
+      ...newTemplate([{ exercise_id: reading, schedule: { kind: 'interval', every_days: 1, slots: ['AM', 'Noon', 'PM'] } }]),
+      timeframe_weeks: 52
+    });
+
+    const res = await request(app)
+      .post(`/api/goal-templates/${created.body.data.template.template_id}/goals`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ patient_id: patient.user.id, start_date: '2030-03-04' });
+    const { rows } = await pool.query('SELECT goal_id FROM goal');
+
+    expect(res.statusCode).toBe(400);
+    expect(rows).toHaveLength(0);
+  });
+
+  it('needs a shared template, its exercises shared too, and the therapist\'s own patient', async () => {
+    const reading = await createExercise(therapist, 'Slow reading');
+    const created = await createTemplate(therapist, newTemplate([{ exercise_id: reading }]));
+    const templateId = created.body.data.template.template_id;
+    const colleaguePatient = await createTestUser('patient', 'patient2');
+    await linkTherapist(colleague, colleaguePatient);
+    await bookSession(colleague, colleaguePatient);
+
+    const useTemplate = (user: TestUser, forPatient: TestUser) => request(app)
+      .post(`/api/goal-templates/${templateId}/goals`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ patient_id: forPatient.user.id });
+
+    const notShared = await useTemplate(colleague, colleaguePatient);
+    await request(app)
+      .put(`/api/goal-templates/${templateId}/sharing`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ is_shared: true });
+    const exerciseNotShared = await useTemplate(colleague, colleaguePatient);
+    const othersPatient = await useTemplate(therapist, colleaguePatient);
+
+    expect(notShared.statusCode).toBe(403);
+    expect(exerciseNotShared.statusCode).toBe(403);
+    expect(exerciseNotShared.body.message).toContain('Slow reading');
+    expect(othersPatient.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,147 @@
+// backend/routes/goalTemplates.ts
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import { authorizeGoalTemplateOwner, authorizeGoalTemplateUse } from '../middleware/ownership';
+import {
+  getGoalTemplates,
+  createGoalTemplate,
+  updateGoalTemplate,
+  setGoalTemplateShared,
+  deleteGoalTemplate,
+  instantiateGoalTemplate
+} from '../services/goalTemplateService';
+import { assertCanAccessPatient } from '../services/accessPolicy';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+// Goal templates are managed by therapists only
+router.use(authenticateToken, authorizeRole('therapist'));
+router.param('templateId', validateIdParam);
+
+// LIST GOAL TEMPLATES ENDPOINT
+// GET /api/goal-templates
+// The therapist's own templates and the ones colleagues share with their clinic, each with its bundled exercises
+router.get('/', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const templates = await getGoalTemplates(req.user!.id);
+    return res.json({ success: true, data: { templates } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching goal templates');
+  }
+});
+
+// CREATE GOAL TEMPLATE ENDPOINT
+// POST /api/goal-templates
+// Body: { title, specific_behaviour, measurable_criterion, context?, timeframe_weeks, priority?,
+// exercises?: [{ exercise_id, schedule? }] } - schedule is a rule as for POST /api/goals/:goalId/exercises
+router.post('/', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const template = await createGoalTemplate(req.user!, req.body);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Goal template created',
+      data: { template }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'creating goal template');
+  }
+});
+
+// UPDATE GOAL TEMPLATE ENDPOINT
+// PUT /api/goal-templates/:templateId
+// Same body as creating one; the bundled exercises are replaced with the ones sent
+router.put('/:templateId', authorizeGoalTemplateOwner(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const template = await updateGoalTemplate(req.user!, req.params.templateId as string, req.body);
+
+    return res.json({
+      success: true,
+      message: 'Goal template updated',
+      data: { template }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'updating goal template');
+  }
+});
+
+// GOAL TEMPLATE SHARING ENDPOINT
+// PUT /api/goal-templates/:templateId/sharing
+// Body: { is_shared } - publishes the template to every therapist at the same clinic, or takes it back
+router.put(
+  '/:templateId/sharing',
+  authorizeGoalTemplateOwner(),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const template = await setGoalTemplateShared(
+        req.user!.id,
+        req.params.templateId as string,
+        (req.body || {}).is_shared
+      );
+
+      return res.json({
+        success: true,
+        message: template.is_shared ? 'Goal template shared with your clinic' : 'Goal template is no longer shared',
+        data: { template }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'sharing goal template');
+    }
+  }
+);
+
+// DELETE GOAL TEMPLATE ENDPOINT
+// DELETE /api/goal-templates/:templateId
+// Goals already set from the template are kept
+router.delete('/:templateId', authorizeGoalTemplateOwner(), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    await deleteGoalTemplate(req.params.templateId as string);
+    return res.json({
+      success: true,
+      message: 'Goal template deleted'
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'deleting goal template');
+  }
+});
+
+// USE GOAL TEMPLATE ENDPOINT
+// POST /api/goal-templates/:templateId/goals
+// Body: { patient_id, start_date?, priority? } - creates the goal in the therapist's treatment plan with the patient
+// and schedules its exercises
+router.post(
+  '/:templateId/goals',
+  authorizeGoalTemplateUse(),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { patient_id, start_date, priority } = req.body || {};
+
+      if (!patient_id) {
+        return res.status(400).json({
+          success: false,
+          message: 'patient_id is required'
+        });
+      }
+
+      // Goals can only be set for the therapist's own patients
+      await assertCanAccessPatient(req.user!, patient_id);
+
+      const { goal, rows } = await instantiateGoalTemplate(req.user!, req.params.templateId as string, {
+        patient_id,
+        start_date,
+        priority
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Goal created from template',
+        data: { goal, rows }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'creating goal from template');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,620 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+import { toDateString } from '../repositories/dates';
+import { addDays } from '../services/exerciseSchedule';
+import { startSession } from '../services/tokenService';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+let therapist: TestUser;
+let patient: TestUser;
+
+const newGoal = () => ({
+  patient_id: patient.user.id,
+  goal_description: 'Use /s/ in short phrases',
+  start_date: '2026-03-02',
+  target_date: '2026-04-02',
+  priority: 'high'
+});
+
+const createGoal = async (): Promise<string> => {
+  const res = await request(app)
+    .post('/api/goals')
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send(newGoal());
+  return res.body.data.goal.goal_id;
+};
+
+const createExercise = async (title: string = 'Lip trills'): Promise<string> => {
+  const res = await request(app)
+    .post('/api/exercises')
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send({ title, difficulty_level: 'beginner', recommended_frequency: 'daily' });
+  return res.body.data.exercise.exercise_id;
+};
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  await linkTherapist(therapist, patient);
+
+  await request(app)
+    .post('/api/sessions')
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send({
+      patient_id: patient.user.id,
+      session_date: '2026-03-02',
+      session_time: '10:00',
+      session_type: 'Initial Assessment'
+    });
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('POST /api/goals', () => {
+  it('creates an active goal in the therapist\'s treatment plan with the patient', async () => {
+    const res = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newGoal());
+    const { rows } = await pool.query('SELECT plan_id, patient_id, therapist_id, status FROM treatment_plan');
+
+    expect(res.statusCode).toBe(201);
+    expect(rows).toEqual([{
+      plan_id: res.body.data.goal.plan_id,
+      patient_id: patient.user.id,
+      therapist_id: therapist.user.id,
+      status: 'active'
+    }]);
+    expect(res.body.data.goal).toMatchObject({
+      start_date: '2026-03-02',
+      target_date: '2026-04-02',
+      status: 'active',
+      priority: 'high'
+    });
+  });
+
+  it('summarises a SMART goal sent without a description, and needs its measurable criterion', async () => {
+    const smart = {
+      patient_id: patient.user.id,
+      start_date: '2026-03-02',
+      target_date: '2026-04-02',
+      specific_behaviour: 'Use easy onset at the start of sentences',
+      context: 'in conversation with family'
+    };
+
+    const incomplete = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(smart);
+    const res = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...smart, measurable_criterion: '80% accuracy over 3 sessions' });
+
+    expect(incomplete.statusCode).toBe(400);
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.goal).toMatchObject({
+      goal_description: 'Use easy onset at the start of sentences in conversation with family (80% accuracy over 3 sessions)',
+      measurable_criterion: '80% accuracy over 3 sessions',
+      context: 'in conversation with family'
+    });
+  });
+
+  it('rejects a target date before the start date', async () => {
+    const res = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newGoal(), target_date: '2026-02-01' });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('rejects an unknown priority', async () => {
+    const res = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newGoal(), priority: 'urgent' });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('is only available to therapists', async () => {
+    const res = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send(newGoal());
+
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('PUT and DELETE /api/goals/:goalId', () => {
+  it('updates the description, target date and priority', async () => {
+    const goalId = await createGoal();
+
+    const res = await request(app)
+      .put(`/api/goals/${goalId}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ goal_description: 'Use /s/ in sentences', target_date: '2026-05-01', priority: 'low' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.goal).toMatchObject({
+      goal_description: 'Use /s/ in sentences',
+      target_date: '2026-05-01',
+      priority: 'low'
+    });
+  });
+
+  it('trims and extends exercise schedules when the target date moves, keeping practices already done', async () => {
+    const goal = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newGoal(), start_date: '2030-03-04', target_date: '2030-03-13' });
+    const goalId = goal.body.data.goal.goal_id;
+    const exerciseId = await createExercise();
+    const assigned = await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: exerciseId, schedule: { kind: 'weekdays', weekdays: [1, 3], slots: [] } });
+    const lastRow = assigned.body.data.rows[3];
+    await request(app)
+      .patch(`/api/goals/rows/${lastRow.row_id}`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send({ completed: true });
+
+    const update = (target_date: string) => request(app)
+      .put(`/api/goals/${goalId}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ goal_description: 'Use /s/ in short phrases', target_date, priority: 'high' });
+    const scheduledDates = async () => {
+      const { rows } = await pool.query('SELECT scheduled_date FROM goal_exercise_set ORDER BY scheduled_date');
+      return rows.map(row => toDateString(row.scheduled_date));
+    };
+
+    const preview = await request(app)
+      .get(`/api/goals/${goalId}/schedule-preview?target_date=2030-03-06`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    expect(preview.statusCode).toBe(200);
+    expect(preview.body.data.changes).toEqual([
+      { exercise_id: exerciseId, title: 'Lip trills', added: 0, removed: 1, kept: 1 }
+    ]);
+    expect(await scheduledDates()).toHaveLength(4);
+
+    await update('2030-03-06');
+    expect(await scheduledDates()).toEqual(['2030-03-04', '2030-03-06', '2030-03-13']);
+
+    await update('2030-03-20');
+    expect(await scheduledDates()).toEqual(['2030-03-04', '2030-03-06', '2030-03-11', '2030-03-13', '2030-03-18', '2030-03-20']);
+    const { rows } = await pool.query('SELECT completed FROM goal_exercise_set WHERE row_id = $1', [lastRow.row_id]);
+    expect(rows[0].completed).toBe(true);
+  });
+
+  it('requires a target date to preview', async () => {
+    const goalId = await createGoal();
+
+    const res = await request(app)
+      .get(`/api/goals/${goalId}/schedule-preview`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('deletes a goal together with its exercise rows', async () => {
+    const goalId = await createGoal();
+    const exerciseId = await createExercise();
+    await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: exerciseId });
+
+    const res = await request(app)
+      .delete(`/api/goals/${goalId}`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(200);
+    const { rows } = await pool.query('SELECT * FROM goal_exercise_set');
+    expect(rows).toHaveLength(0);
+  });
+});
+
+describe('goal exercises', () => {
+  it('creates one row per schedule slot and lists them with the exercise', async () => {
+    const goalId = await createGoal();
+    const exerciseId = await createExercise();
+
+    const assigned = await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({
+        exercise_id: exerciseId,
+        slots: [
+          { day_of_week: 'Week 1 Mon', week_number: 1 },
+          { day_of_week: 'Week 1 Tue', week_number: 1 }
+        ]
+      });
+    expect(assigned.statusCode).toBe(201);
+    expect(assigned.body.data.rows).toHaveLength(2);
+
+    const res = await request(app)
+      .get(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${patient.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.rows).toHaveLength(2);
+    expect(res.body.data.rows[0]).toMatchObject({ completed: false, difficulty_rating: null });
+    expect(res.body.data.rows[0].exercise.title).toBe('Lip trills');
+  });
+
+  it('creates a single unscheduled row when no slots are given', async () => {
+    const goalId = await createGoal();
+    const exerciseId = await createExercise();
+
+    const res = await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: exerciseId });
+
+    expect(res.body.data.rows).toHaveLength(1);
+    expect(res.body.data.rows[0]).toMatchObject({ day_of_week: null, week_number: null });
+  });
+
+  it('works out the rows from a schedule rule, from the goal\'s start to its target date', async () => {
+    // A goal that hasn't started yet, so the schedule runs from its start rather than today
+    const goal = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newGoal(), start_date: '2030-03-04', target_date: '2030-03-13' });
+    const goalId = goal.body.data.goal.goal_id;
+    const exerciseId = await createExercise();
+
+    const res = await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: exerciseId, schedule: { kind: 'weekdays', weekdays: [1, 3], slots: ['Morning', 'Evening'] } });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.rows.map((r: any) => [r.scheduled_date, r.day_of_week, r.week_number, r.slot])).toEqual([
+      ['2030-03-04', 'Monday', 1, 'Morning'],
+      ['2030-03-04', 'Monday', 1, 'Evening'],
+      ['2030-03-06', 'Wednesday', 1, 'Morning'],
+      ['2030-03-06', 'Wednesday', 1, 'Evening'],
+      ['2030-03-11', 'Monday', 2, 'Morning'],
+      ['2030-03-11', 'Monday', 2, 'Evening'],
+      ['2030-03-13', 'Wednesday', 2, 'Morning'],
+      ['2030-03-13', 'Wednesday', 2, 'Evening']
+    ]);
+
+    const { rows } = await pool.query('SELECT rule, start_date FROM exercise_schedule WHERE goal_id = $1', [goalId]);
+    expect(rows[0].rule).toEqual({ kind: 'weekdays', weekdays: [1, 3], slots: ['Morning', 'Evening'] });
+  });
+
+  it('starts the schedule on the clinic\'s date just after midnight, not the UTC date', async () => {
+    const goal = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newGoal(), start_date: '2099-06-01', target_date: '2099-06-18' });
+    const goalId = goal.body.data.goal.goal_id;
+    const exerciseId = await createExercise();
+
+    // Only the clock is faked, so the database and HTTP calls still run
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask', 'hrtime', 'performance'] });
+    jest.setSystemTime(new Date('2099-06-15T23:30:00Z')); // 00:30 on 16 June in the tests' time zone (see jest.config.js), still 15 June in UTC
+
+    try {
+      // A token issued now, as the one from beforeEach has long expired by then
+      const { accessToken } = await startSession(therapist.user);
+      const res = await request(app)
+        .post(`/api/goals/${goalId}/exercises`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ exercise_id: exerciseId, schedule: { kind: 'weekdays', weekdays: [0, 1, 2, 3, 4, 5, 6], slots: [] } });
+
+      expect(res.statusCode).toBe(201);
+      expect(res.body.data.rows.map((r: any) => r.scheduled_date)).toEqual(['2099-06-16', '2099-06-17', '2099-06-18']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('rejects schedule rules it cannot work out', async () => {
+    const goalId = await createGoal();
+    const exerciseId = await createExercise();
+
+    const res = await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: exerciseId, schedule: { kind: 'interval', every_days: 0 } });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('returns 404 for an unknown exercise', async () => {
+    const goalId = await createGoal();
+
+    const res = await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: '00000000-0000-4000-8000-000000000000' });
+
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('PATCH /api/goals/rows/:rowId', () => {
+  let rowId: string;
+
+  beforeEach(async () => {
+    const goalId = await createGoal();
+    const exerciseId = await createExercise();
+    const res = await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: exerciseId });
+    rowId = res.body.data.rows[0].row_id;
+  });
+
+  it('ticks a row and timestamps it, then clears the timestamp when unticked', async () => {
+    const ticked = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send({ completed: true });
+    expect(ticked.statusCode).toBe(200);
+    expect(ticked.body.data.row.completed).toBe(true);
+    expect(ticked.body.data.row.completion_date).not.toBeNull();
+
+    const unticked = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send({ completed: false });
+    expect(unticked.body.data.row.completed).toBe(false);
+    expect(unticked.body.data.row.completion_date).toBeNull();
+  });
+
+  it('saves and clears a difficulty rating', async () => {
+    const saved = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send({ difficulty_rating: 7 });
+    expect(saved.body.data.row.difficulty_rating).toBe(7);
+
+    const cleared = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send({ difficulty_rating: null });
+    expect(cleared.body.data.row.difficulty_rating).toBeNull();
+  });
+
+  it('rejects ratings outside 0-10', async () => {
+    const res = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send({ difficulty_rating: 11 });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('is only available to patients', async () => {
+    const res = await request(app)
+      .patch(`/api/goals/rows/${rowId}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ completed: true });
+
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('goal status', () => {
+  const changeStatus = (goalId: string, status: string, reason?: string) => request(app)
+    .post(`/api/goals/${goalId}/status`)
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send({ status, reason });
+
+  const getStatus = (goalId: string) => request(app)
+    .get(`/api/goals/${goalId}/status`)
+    .set('Authorization', `Bearer ${therapist.token}`);
+
+  it('moves a draft goal along the lifecycle, keeping each change in its history', async () => {
+    const created = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newGoal(), status: 'draft' });
+    const goalId = created.body.data.goal.goal_id;
+
+    await changeStatus(goalId, 'active');
+    const onHold = await changeStatus(goalId, 'on_hold', '  Away for a month ');
+    const achievedFromHold = await changeStatus(goalId, 'achieved');
+    const status = await getStatus(goalId);
+
+    expect(onHold.body.data.goal.status).toBe('on_hold');
+    expect(achievedFromHold.statusCode).toBe(409);
+    expect(status.body.data.history.map((h: any) => [h.from_status, h.to_status, h.reason])).toEqual([
+      [null, 'draft', null],
+      ['draft', 'active', null],
+      ['active', 'on_hold', 'Away for a month']
+    ]);
+    expect(status.body.data.history[1].changer.first_name).toBe('therapist1');
+  });
+
+  it('only creates goals as drafts or active, and carries them over with a new target date', async () => {
+    const achieved = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newGoal(), status: 'achieved' });
+    const goalId = await createGoal();
+    const carried = await changeStatus(goalId, 'carried_over');
+
+    expect(achieved.statusCode).toBe(400);
+    expect(carried.statusCode).toBe(400);
+  });
+
+  it('flags an active goal past its target date with practices still to do as overdue', async () => {
+    // The goal ran to 2026-04-02
+    const goalId = await createGoal();
+    await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: await createExercise() });
+
+    const overdue = await getStatus(goalId);
+    await changeStatus(goalId, 'on_hold');
+    const onHold = await getStatus(goalId);
+
+    expect(overdue.body.data).toMatchObject({ overdue: true, progress: { total: 1, completed: 0, percent: 0 } });
+    expect(onHold.body.data.overdue).toBe(false);
+  });
+
+  it('suggests achieved once the measurable criterion is met by the latest measurements', async () => {
+    const created = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({
+        ...newGoal(),
+        specific_behaviour: 'Use easy onset at the start of sentences',
+        measurable_criterion: '80% accuracy over 2 sessions'
+      });
+    const goalId = created.body.data.goal.goal_id;
+
+    const record = (score: number, measured_on: string) => request(app)
+      .post(`/api/goals/${goalId}/measurements`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ score, measured_on });
+
+    const first = await record(85, '2026-03-09');
+    const invalid = await record(120, '2026-03-16');
+    const second = await record(90, '2026-03-16');
+    const status = await getStatus(goalId);
+
+    expect(first.body.data.suggestion).toBeNull();
+    expect(invalid.statusCode).toBe(400);
+    expect(second.body.data.suggestion).toMatchObject({ status: 'achieved' });
+    expect(status.body.data.measurements.map((m: any) => m.score)).toEqual([90, 85]);
+
+    await changeStatus(goalId, 'achieved', 'Criterion met');
+    const achieved = await getStatus(goalId);
+    expect(achieved.body.data.goal.status).toBe('achieved');
+    expect(achieved.body.data.suggestion).toBeNull();
+  });
+
+  it('carries a goal over into a new goal with its exercises rescheduled', async () => {
+    const goalId = await createGoal();
+    const exerciseId = await createExercise();
+    await request(app)
+      .post(`/api/goals/${goalId}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: exerciseId, schedule: { kind: 'per_week', times: 2 } });
+
+    const targetDate = addDays(new Date().toISOString().slice(0, 10), 21);
+    const res = await request(app)
+      .post(`/api/goals/${goalId}/carry-over`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ target_date: targetDate, reason: 'Needs more time' });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.goal).toMatchObject({ status: 'carried_over', carried_over_to: res.body.data.continuation.goal_id });
+    expect(res.body.data.continuation).toMatchObject({
+      status: 'active',
+      goal_description: 'Use /s/ in short phrases',
+      target_date: targetDate
+    });
+    expect(res.body.data.rows.every((row: any) => row.exercise_id === exerciseId)).toBe(true);
+    expect(res.body.data.rows.length).toBeGreaterThanOrEqual(6);
+
+    const again = await request(app)
+      .post(`/api/goals/${goalId}/carry-over`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ target_date: targetDate });
+    expect(again.statusCode).toBe(409);
+  });
+});
+
+describe('objectives', () => {
+  const createObjective = (parentGoalId: string, fields: Record<string, unknown> = {}) => request(app)
+    .post('/api/goals')
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send({
+      parent_goal_id: parentGoalId,
+      goal_description: 'Use /s/ at the start of words',
+      start_date: '2026-03-02',
+      target_date: '2026-03-16',
+      ...fields
+    });
+
+  const assignExercise = async (goalId: string) => request(app)
+    .post(`/api/goals/${goalId}/exercises`)
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send({ exercise_id: await createExercise() });
+
+  it('creates an objective in its long-term goal\'s treatment plan', async () => {
+    const goalId = await createGoal();
+    const res = await createObjective(goalId, { weight: 3 });
+    const { rows } = await pool.query('SELECT plan_id FROM goal WHERE goal_id = $1', [goalId]);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.goal).toMatchObject({ parent_goal_id: goalId, plan_id: rows[0].plan_id, weight: 3 });
+  });
+
+  it('keeps objectives one level deep and within their long-term goal\'s dates', async () => {
+    const goalId = await createGoal();
+    const late = await createObjective(goalId, { target_date: '2026-04-09' });
+    const heavy = await createObjective(goalId, { weight: 11 });
+    const objective = await createObjective(goalId);
+    const nested = await createObjective(objective.body.data.goal.goal_id);
+    const earlier = await request(app)
+      .put(`/api/goals/${goalId}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newGoal(), target_date: '2026-03-09' });
+
+    expect(late.statusCode).toBe(400);
+    expect(heavy.statusCode).toBe(400);
+    expect(nested.statusCode).toBe(400);
+    expect(earlier.statusCode).toBe(400);
+  });
+
+  it('assigns exercises to objectives rather than their long-term goal', async () => {
+    const withObjective = await createGoal();
+    await createObjective(withObjective);
+    const withExercises = await createGoal();
+    await assignExercise(withExercises);
+
+    expect((await assignExercise(withObjective)).statusCode).toBe(409);
+    expect((await createObjective(withExercises)).statusCode).toBe(409);
+  });
+
+  it('rolls objectives\' progress up to their long-term goal by weight', async () => {
+    const goalId = await createGoal();
+    const first = await createObjective(goalId, { weight: 3 });
+    const second = await createObjective(goalId);
+    await assignExercise(first.body.data.goal.goal_id);
+    await assignExercise(second.body.data.goal.goal_id);
+    await request(app)
+      .post(`/api/goals/${second.body.data.goal.goal_id}/status`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ status: 'achieved' });
+
+    const tree = await request(app)
+      .get(`/api/patients/${patient.user.id}/goal-tree`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    const status = await request(app)
+      .get(`/api/goals/${goalId}/status`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(tree.body.data.goals).toHaveLength(1);
+    expect(tree.body.data.goals[0].objectives.map((o: any) => o.weight).sort()).toEqual([1, 3]);
+    expect(tree.body.data.goals[0].progress).toEqual({ total: 2, completed: 1, percent: 25 });
+    expect(status.body.data).toMatchObject({ objectives: 2, progress: { total: 2, completed: 1, percent: 25 } });
+  });
+});
@@ -0,0 +1,505 @@
+// backend/routes/goals.ts
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import { authorizeResource } from '../middleware/ownership';
+import {
+  createGoal,
+  updateGoal,
+  deleteGoal,
+  assignExerciseToGoal,
+  previewTargetDateChange
+} from '../services/therapistService';
+import { getGoalExerciseRows, updateGoalExerciseRow } from '../services/patientService';
+import { getGoalStatus, changeGoalStatus, carryOverGoal, recordGoalMeasurement } from '../services/goalStatusService';
+import { uploadRecording, getRowRecordings, MAX_RECORDING_BYTES } from '../services/recordingService';
+import { getRowPractice, getRowMediaFile, recordPromptAttempt } from '../services/exerciseContentService';
+import { GoalExerciseRowUpdate, GoalExerciseSlot } from '../repositories/exerciseRepository';
+import { openTreatmentPlan } from '../services/treatmentPlanService';
+import { assertCanAccessPatient, assertCanAccessResource, assertCanUseExercise } from '../services/accessPolicy';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+router.use(authenticateToken);
+router.param('goalId', validateIdParam);
+router.param('rowId', validateIdParam);
+router.param('mediaId', validateIdParam);
+
+// CREATE GOAL ENDPOINT
+// POST /api/goals
+// Body: { patient_id, start_date, target_date, goal_description?, specific_behaviour?, measurable_criterion?, context?,
+// status?, priority? } - a SMART goal sent without a goal_description is summarised from its SMART fields
+// The goal goes into the therapist's active treatment plan with the patient, which is opened if there isn't one
+// status is 'active' (the default) or 'draft'; it is moved along afterwards with POST /api/goals/:goalId/status
+// A short-term objective is sent with parent_goal_id (and an optional weight from 1 to 10) instead of patient_id,
+// and belongs to its long-term goal's plan
+router.post('/', authorizeRole('therapist'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const {
+      patient_id,
+      goal_description,
+      start_date,
+      target_date,
+      status,
+      priority,
+      specific_behaviour,
+      measurable_criterion,
+      context,
+      parent_goal_id,
+      weight
+    } = req.body || {};
+
+    if ((!patient_id && !parent_goal_id) || (!goal_description && !specific_behaviour) || !start_date || !target_date) {
+      return res.status(400).json({
+        success: false,
+        message: 'patient_id or parent_goal_id, goal_description or specific_behaviour, start_date and target_date are required'
+      });
+    }
+
+    // Goals can only be set for (or under long-term goals of) the therapist's own patients
+    let planId = '';
+    if (parent_goal_id) {
+      await assertCanAccessResource(req.user!, 'goal', parent_goal_id);
+    } else {
+      await assertCanAccessPatient(req.user!, patient_id);
+      planId = (await openTreatmentPlan(req.user!.id, patient_id)).plan.plan_id;
+    }
+
+    const goal = await createGoal({
+      plan_id: planId,
+      goal_description,
+      start_date,
+      target_date,
+      status: status || 'active',
+      priority: priority || 'medium',
+      specific_behaviour,
+      measurable_criterion,
+      context,
+      parent_goal_id,
+      weight
+    }, req.user!.id);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Goal created successfully',
+      data: { goal }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'creating goal');
+  }
+});
+
+// TARGET DATE PREVIEW ENDPOINT
+// GET /api/goals/:goalId/schedule-preview?target_date=YYYY-MM-DD
+// How many practices each exercise would gain or lose if the target date moved, without changing anything
+router.get(
+  '/:goalId/schedule-preview',
+  authorizeRole('therapist'),
+  authorizeResource('goal', 'goalId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const targetDate = req.query.target_date;
+      if (typeof targetDate !== 'string' || !targetDate) {
+        return res.status(400).json({
+          success: false,
+          message: 'target_date is required'
+        });
+      }
+
+      const changes = await previewTargetDateChange(req.params.goalId as string, targetDate);
+      return res.json({
+        success: true,
+        data: { changes }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'previewing schedule changes');
+    }
+  }
+);
+
+// UPDATE GOAL ENDPOINT
+// PUT /api/goals/:goalId
+// Moving target_date extends or trims each exercise's schedule to match - see the preview endpoint above
+// SMART fields and an objective's weight keep their current values when left out
+router.put(
+  '/:goalId',
+  authorizeRole('therapist'),
+  authorizeResource('goal', 'goalId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { goal_description, target_date, priority, specific_behaviour, measurable_criterion, context, weight } = req.body || {};
+
+      if ((!goal_description && !specific_behaviour) || !target_date || !priority) {
+        return res.status(400).json({
+          success: false,
+          message: 'goal_description or specific_behaviour, target_date and priority are required'
+        });
+      }
+
+      const goal = await updateGoal(req.params.goalId as string, {
+        goal_description,
+        target_date,
+        priority,
+        specific_behaviour,
+        measurable_criterion,
+        context,
+        weight
+      });
+
+      return res.json({
+        success: true,
+        message: 'Goal updated successfully',
+        data: { goal }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'updating goal');
+    }
+  }
+);
+
+// DELETE GOAL ENDPOINT
+// DELETE /api/goals/:goalId
+// Also removes the goal's exercise rows
+router.delete(
+  '/:goalId',
+  authorizeRole('therapist'),
+  authorizeResource('goal', 'goalId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      await deleteGoal(req.params.goalId as string);
+      return res.json({
+        success: true,
+        message: 'Goal deleted successfully'
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'deleting goal');
+    }
+  }
+);
+
+// GOAL STATUS ENDPOINT
+// GET /api/goals/:goalId/status
+// The goal's status history and measurements, its progress through its practices, whether it is overdue
+// (active, past its target date, with practices still to do) and the status it looks ready to move to
+router.get(
+  '/:goalId/status',
+  authorizeRole('therapist'),
+  authorizeResource('goal', 'goalId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const status = await getGoalStatus(req.params.goalId as string);
+      return res.json({ success: true, data: status });
+    } catch (error) {
+      return sendServiceError(res, error, 'fetching goal status');
+    }
+  }
+);
+
+// CHANGE GOAL STATUS ENDPOINT
+// POST /api/goals/:goalId/status
+// Body: { status, reason? } - status is active, on_hold, achieved or discontinued; see goalLifecycle.ts for
+// which moves are allowed
+router.post(
+  '/:goalId/status',
+  authorizeRole('therapist'),
+  authorizeResource('goal', 'goalId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { status, reason } = req.body || {};
+
+      if (!status) {
+        return res.status(400).json({
+          success: false,
+          message: 'status is required'
+        });
+      }
+
+      const goal = await changeGoalStatus(req.params.goalId as string, status, reason, req.user!.id);
+
+      return res.json({
+        success: true,
+        message: 'Goal status updated',
+        data: { goal }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'updating goal status');
+    }
+  }
+);
+
+// CARRY OVER GOAL ENDPOINT
+// POST /api/goals/:goalId/carry-over
+// Body: { target_date, reason? } - continues the goal as a new one from today with its exercises rescheduled,
+// and marks this goal carried over
+router.post(
+  '/:goalId/carry-over',
+  authorizeRole('therapist'),
+  authorizeResource('goal', 'goalId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { target_date, reason } = req.body || {};
+
+      if (!target_date) {
+        return res.status(400).json({
+          success: false,
+          message: 'target_date is required'
+        });
+      }
+
+      const { goal, continuation, rows } = await carryOverGoal(
+        req.params.goalId as string,
+        target_date,
+        reason,
+        req.user!.id
+      );
+
+      return res.status(201).json({
+        success: true,
+        message: 'Goal carried over',
+        data: { goal, continuation, rows }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'carrying over goal');
+    }
+  }
+);
+
+// RECORD GOAL MEASUREMENT ENDPOINT
+// POST /api/goals/:goalId/measurements
+// Body: { score, measured_on?, note? } - score is the whole percentage measured in a session (e.g. 80 for 80%
+// accuracy); the response says if the goal now looks achieved by its measurable criterion
+router.post(
+  '/:goalId/measurements',
+  authorizeRole('therapist'),
+  authorizeResource('goal', 'goalId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { measurement, suggestion } = await recordGoalMeasurement(
+        req.params.goalId as string,
+        req.body || {},
+        req.user!.id
+      );
+
+      return res.status(201).json({
+        success: true,
+        message: 'Measurement recorded',
+        data: { measurement, suggestion }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'recording goal measurement');
+    }
+  }
+);
+
+// GOAL EXERCISE ROWS ENDPOINT
+// GET /api/goals/:goalId/exercises
+router.get(
+  '/:goalId/exercises',
+  authorizeResource('goal', 'goalId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const rows = await getGoalExerciseRows(req.params.goalId as string);
+      return res.json({ success: true, data: { rows } });
+    } catch (error) {
+      return sendServiceError(res, error, 'fetching goal exercises');
+    }
+  }
+);
+
+// ASSIGN EXERCISE ENDPOINT
+// POST /api/goals/:goalId/exercises
+// Body: { exercise_id, schedule?, slots? } - one row is created per practice
+// schedule is a rule such as { kind: 'weekdays', weekdays: [1, 3, 5], slots: ['Morning', 'Evening'] },
+// run until the goal's target date; slots instead lists the rows: [{ scheduled_date?, slot?, day_of_week, week_number }]
+router.post(
+  '/:goalId/exercises',
+  authorizeRole('therapist'),
+  authorizeResource('goal', 'goalId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { exercise_id, schedule, slots } = req.body || {};
+
+      if (!exercise_id) {
+        return res.status(400).json({
+          success: false,
+          message: 'exercise_id is required'
+        });
+      }
+
+      if (slots !== undefined && !Array.isArray(slots)) {
+        return res.status(400).json({
+          success: false,
+          message: 'slots must be an array'
+        });
+      }
+
+      // Exercises from the therapist's own library, or shared by a colleague at their clinic
+      await assertCanUseExercise(req.user!, exercise_id);
+
+      const scheduleSlots: GoalExerciseSlot[] | undefined = slots?.map((slot: any) => ({
+        day_of_week: slot?.day_of_week ?? null,
+        week_number: slot?.week_number ?? null,
+        scheduled_date: slot?.scheduled_date ?? null,
+        slot: slot?.slot ?? null,
+        slot_index: slot?.slot_index ?? 0
+      }));
+
+      const rows = await assignExerciseToGoal(req.params.goalId as string, exercise_id, {
+        schedule,
+        slots: scheduleSlots
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Exercise assigned to goal',
+        data: { rows }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'assigning exercise to goal');
+    }
+  }
+);
+
+// UPDATE EXERCISE ROW ENDPOINT
+// PATCH /api/goals/rows/:rowId
+// Body: { completed?, difficulty_rating? } - the patient ticking off a practice or rating it
+// A linked parent/carer can tick rows on the patient's behalf, but rating is left to the patient
+router.patch(
+  '/rows/:rowId',
+  authorizeRole('patient', 'parent_carer'),
+  authorizeResource('goalExerciseRow', 'rowId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { completed, difficulty_rating } = req.body || {};
+      const updates: GoalExerciseRowUpdate = {};
+
+      if (completed !== undefined) updates.completed = completed;
+      if (difficulty_rating !== undefined) updates.difficulty_rating = difficulty_rating;
+
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Nothing to update'
+        });
+      }
+
+      if (req.user!.role === 'parent_carer' && updates.difficulty_rating !== undefined) {
+        return res.status(403).json({
+          success: false,
+          message: 'Only the patient can rate an exercise'
+        });
+      }
+
+      const row = await updateGoalExerciseRow(req.params.rowId as string, updates, req.user!.id);
+
+      return res.json({
+        success: true,
+        message: 'Exercise updated',
+        data: { row }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'updating exercise row');
+    }
+  }
+);
+
+// UPLOAD RECORDING ENDPOINT
+// POST /api/goals/rows/:rowId/recordings?duration_seconds=42
+// Body: the audio itself, sent with its audio/* Content-Type (e.g. what MediaRecorder produced)
+router.post(
+  '/rows/:rowId/recordings',
+  authorizeRole('patient'),
+  authorizeResource('goalExerciseRow', 'rowId'),
+  express.raw({ type: 'audio/*', limit: MAX_RECORDING_BYTES }),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const recording = await uploadRecording(
+        req.params.rowId as string,
+        req.user!.id,
+        req.body,
+        req.headers['content-type'],
+        req.query.duration_seconds
+      );
+
+      return res.status(201).json({
+        success: true,
+        message: 'Recording uploaded',
+        data: { recording }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'uploading recording');
+    }
+  }
+);
+
+// ROW RECORDINGS ENDPOINT
+// GET /api/goals/rows/:rowId/recordings
+// The row's recordings, newest first, with the therapist's comments
+router.get(
+  '/rows/:rowId/recordings',
+  authorizeResource('goalExerciseRow', 'rowId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const recordings = await getRowRecordings(req.params.rowId as string);
+      return res.json({ success: true, data: { recordings } });
+    } catch (error) {
+      return sendServiceError(res, error, 'fetching recordings');
+    }
+  }
+);
+
+// ROW PRACTICE ENDPOINT
+// GET /api/goals/rows/:rowId/practice
+// The exercise's steps, prompts and media, and which prompts the patient has tried during this practice
+router.get(
+  '/rows/:rowId/practice',
+  authorizeResource('goalExerciseRow', 'rowId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const practice = await getRowPractice(req.params.rowId as string);
+      return res.json({ success: true, data: { practice } });
+    } catch (error) {
+      return sendServiceError(res, error, 'fetching exercise practice');
+    }
+  }
+);
+
+// ROW MEDIA FILE ENDPOINT
+// GET /api/goals/rows/:rowId/media/:mediaId
+// One of the exercise's example files, for the patient and whoever else can reach the row
+router.get(
+  '/rows/:rowId/media/:mediaId',
+  authorizeResource('goalExerciseRow', 'rowId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { data, mimeType } = await getRowMediaFile(req.params.rowId as string, req.params.mediaId as string);
+      return res.type(mimeType).send(data);
+    } catch (error) {
+      return sendServiceError(res, error, 'fetching exercise media');
+    }
+  }
+);
+
+// PROMPT ATTEMPT ENDPOINT
+// POST /api/goals/rows/:rowId/practice/attempts
+// Body: { prompt_id } - the patient has tried this prompt in practice mode
+router.post(
+  '/rows/:rowId/practice/attempts',
+  authorizeRole('patient'),
+  authorizeResource('goalExerciseRow', 'rowId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const attempted = await recordPromptAttempt(req.params.rowId as string, req.user!.id, (req.body || {}).prompt_id);
+
+      return res.status(201).json({
+        success: true,
+        message: 'Prompt attempt recorded',
+        data: { attempted_prompt_ids: attempted }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'recording prompt attempt');
+    }
+  }
+);
+
+export default router;
@@ -1,18 +1,20 @@
-const express = require("express");
-const router = express.Router();
-const pool = require("../db");
+// backend/routes/health.ts
+import express, { Request, Response, Router } from 'express';
+import pool from '../db';
 
-router.get("/", (req, res) => {
-  res.json({ status: "ok", message: "OwnUrVoice API is running" });
+const router: Router = express.Router();
+
+router.get('/', (req: Request, res: Response) => {
+  res.json({ status: 'ok', message: 'OwnUrVoice API is running' });
 });
 
-router.get("/db", async (req, res) => {
+router.get('/db', async (req: Request, res: Response) => {
   try {
-    const result = await pool.query("SELECT NOW() as now");
+    const result = await pool.query('SELECT NOW() as now');
     res.json(result.rows[0]);
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    res.status(500).json({ error: (err as Error).message });
   }
 });
 
-module.exports = router;
+export default router;
@@ -0,0 +1,135 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+let therapist: TestUser;
+let patient: TestUser;
+let otherPatient: TestUser;
+
+const writeEntry = (user: TestUser, entry: object) => {
+  return request(app)
+    .post('/api/journal')
+    .set('Authorization', `Bearer ${user.token}`)
+    .send({ entry_date: '2026-03-03', mood: 4, confidence: 6, content: 'Ordered coffee without blocking', ...entry });
+};
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  otherPatient = await createTestUser('patient', 'patient2');
+  await linkTherapist(therapist, patient);
+
+  // The therapist is linked to the patient through a session
+  await request(app)
+    .post('/api/sessions')
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send({
+      patient_id: patient.user.id,
+      session_date: '2026-03-02',
+      session_time: '10:00',
+      session_type: 'Initial Assessment'
+    });
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('POST /api/journal', () => {
+  it('saves a private entry for the patient', async () => {
+    const res = await writeEntry(patient, {});
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.entry).toMatchObject({
+      patient_id: patient.user.id,
+      entry_date: '2026-03-03',
+      mood: 4,
+      confidence: 6,
+      visibility: 'private',
+      goal: null
+    });
+  });
+
+  it('rejects scores out of range and future dates', async () => {
+    expect((await writeEntry(patient, { mood: 6 })).statusCode).toBe(400);
+    expect((await writeEntry(patient, { confidence: 0 })).statusCode).toBe(400);
+    expect((await writeEntry(patient, { entry_date: '2999-01-01' })).statusCode).toBe(400);
+  });
+
+  it('only lets patients write entries', async () => {
+    const res = await writeEntry(therapist, {});
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('PUT and DELETE /api/journal/:entryId', () => {
+  it('lets the patient change and delete their own entries, but no one else\'s', async () => {
+    const entryId = (await writeEntry(patient, {})).body.data.entry.entry_id;
+
+    const stranger = await request(app)
+      .put(`/api/journal/${entryId}`)
+      .set('Authorization', `Bearer ${otherPatient.token}`)
+      .send({ entry_date: '2026-03-03', mood: 1, confidence: 1 });
+    expect(stranger.statusCode).toBe(403);
+
+    const updated = await request(app)
+      .put(`/api/journal/${entryId}`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send({ entry_date: '2026-03-04', mood: 5, confidence: 8, visibility: 'shared' });
+    expect(updated.statusCode).toBe(200);
+    expect(updated.body.data.entry).toMatchObject({ entry_date: '2026-03-04', mood: 5, visibility: 'shared', content: '' });
+
+    const deleted = await request(app)
+      .delete(`/api/journal/${entryId}`)
+      .set('Authorization', `Bearer ${patient.token}`);
+    expect(deleted.statusCode).toBe(200);
+
+    const journal = await request(app)
+      .get('/api/patients/me/journal')
+      .set('Authorization', `Bearer ${patient.token}`);
+    expect(journal.body.data.entries).toHaveLength(0);
+  });
+});
+
+describe('GET /api/patients/:patientId/journal', () => {
+  it('shows therapists only shared entries, with weekly averages', async () => {
+    await writeEntry(patient, { entry_date: '2026-03-02', mood: 2, confidence: 4, visibility: 'shared' });
+    await writeEntry(patient, { entry_date: '2026-03-04', mood: 3, confidence: 5, visibility: 'shared' });
+    await writeEntry(patient, { entry_date: '2026-03-10', mood: 5, confidence: 9, visibility: 'shared' });
+    await writeEntry(patient, { entry_date: '2026-03-11', mood: 1, confidence: 1 });
+
+    const own = await request(app)
+      .get('/api/patients/me/journal')
+      .set('Authorization', `Bearer ${patient.token}`);
+    expect(own.body.data.entries).toHaveLength(4);
+
+    const res = await request(app)
+      .get(`/api/patients/${patient.user.id}/journal`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.entries.map((entry: any) => entry.entry_date)).toEqual(['2026-03-10', '2026-03-04', '2026-03-02']);
+    expect(res.body.data.trend).toEqual([
+      { week_start: '2026-03-02', mood: 2.5, confidence: 4.5, entries: 2 },
+      { week_start: '2026-03-09', mood: 5, confidence: 9, entries: 1 }
+    ]);
+  });
+
+  it('rejects links to goals the patient does not have', async () => {
+    const res = await writeEntry(otherPatient, { goal_id: '00000000-0000-4000-8000-000000000000' });
+    expect(res.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,67 @@
+// backend/routes/journal.ts
+// The patient writes their own journal here; therapists read shared entries through /api/patients/:patientId/journal
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import { authorizeResource } from '../middleware/ownership';
+import { createJournalEntry, updateJournalEntry, deleteJournalEntry } from '../services/journalService';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+router.use(authenticateToken);
+router.param('entryId', validateIdParam);
+
+// CREATE JOURNAL ENTRY ENDPOINT
+// POST /api/journal
+router.post('/', authorizeRole('patient'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const entry = await createJournalEntry(req.user!.id, req.body || {});
+
+    return res.status(201).json({
+      success: true,
+      message: 'Journal entry saved',
+      data: { entry }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'creating journal entry');
+  }
+});
+
+// UPDATE JOURNAL ENTRY ENDPOINT
+// PUT /api/journal/:entryId
+router.put(
+  '/:entryId',
+  authorizeRole('patient'),
+  authorizeResource('journalEntry', 'entryId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const entry = await updateJournalEntry(req.params.entryId as string, req.body || {});
+
+      return res.json({
+        success: true,
+        message: 'Journal entry updated',
+        data: { entry }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'updating journal entry');
+    }
+  }
+);
+
+// DELETE JOURNAL ENTRY ENDPOINT
+// DELETE /api/journal/:entryId
+router.delete(
+  '/:entryId',
+  authorizeRole('patient'),
+  authorizeResource('journalEntry', 'entryId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      await deleteJournalEntry(req.params.entryId as string);
+      return res.json({ success: true, message: 'Journal entry deleted' });
+    } catch (error) {
+      return sendServiceError(res, error, 'deleting journal entry');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,202 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+// Two separate practices: each therapist has one patient with a session, a goal and one exercise row
+interface Practice {
+  therapist: TestUser;
+  patient: TestUser;
+  sessionId: string;
+  planId: string;
+  goalId: string;
+  exerciseId: string;
+  rowId: string;
+}
+
+const createPractice = async (name: string): Promise<Practice> => {
+  const therapist = await createTestUser('therapist', `${name}-therapist`);
+  const patient = await createTestUser('patient', `${name}-patient`);
+  await linkTherapist(therapist, patient);
+  const auth = { Authorization: `Bearer ${therapist.token}` };
+
+  const session = await request(app).post('/api/sessions').set(auth).send({
+    patient_id: patient.user.id,
+    session_date: '2026-03-02',
+    session_time: '10:00',
+    session_type: 'Initial Assessment'
+  });
+  const sessionId = session.body.data.session.session_id;
+
+  const goal = await request(app).post('/api/goals').set(auth).send({
+    patient_id: patient.user.id,
+    goal_description: 'Fluent greetings',
+    start_date: '2026-03-02',
+    target_date: '2026-04-02'
+  });
+  const goalId = goal.body.data.goal.goal_id;
+
+  const exercise = await request(app).post('/api/exercises').set(auth).send({ title: 'Easy onset' });
+  const exerciseId = exercise.body.data.exercise.exercise_id;
+
+  const rows = await request(app)
+    .post(`/api/goals/${goalId}/exercises`)
+    .set(auth)
+    .send({ exercise_id: exerciseId });
+
+  const planId = goal.body.data.goal.plan_id;
+  return { therapist, patient, sessionId, planId, goalId, exerciseId, rowId: rows.body.data.rows[0].row_id };
+};
+
+let mine: Practice;
+let theirs: Practice;
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  mine = await createPractice('mine');
+  theirs = await createPractice('theirs');
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+const FORBIDDEN = 'Access denied. Insufficient permissions.';
+
+describe('therapist acting on another therapist\'s patient', () => {
+  const attempts: [string, (p: Practice, own: Practice) => request.Test][] = [
+    ['read the patient profile', p => request(app).get(`/api/patients/${p.patient.user.id}`)],
+    ['read the patient\'s goals', p => request(app).get(`/api/patients/${p.patient.user.id}/goals`)],
+    ['read the patient\'s exercise rows', p => request(app).get(`/api/patients/${p.patient.user.id}/exercises`)],
+    ['read the patient\'s stats', p => request(app).get(`/api/patients/${p.patient.user.id}/stats`)],
+    ['update a session', p => request(app).put(`/api/sessions/${p.sessionId}`).send({
+      session_date: '2026-03-09', session_time: '09:00', session_type: 'Follow-up'
+    })],
+    ['delete a session', p => request(app).delete(`/api/sessions/${p.sessionId}`)],
+    ['set a goal for the patient', p => request(app).post('/api/goals').send({
+      patient_id: p.patient.user.id, goal_description: 'Injected', start_date: '2026-03-02', target_date: '2026-04-02'
+    })],
+    ['close the patient\'s treatment plan', p => request(app).post(`/api/treatment-plans/${p.planId}/close`)],
+    ['update a goal', p => request(app).put(`/api/goals/${p.goalId}`).send({
+      goal_description: 'Changed', target_date: '2026-05-01', priority: 'low'
+    })],
+    ['delete a goal', p => request(app).delete(`/api/goals/${p.goalId}`)],
+    ['read a goal\'s exercise rows', p => request(app).get(`/api/goals/${p.goalId}/exercises`)],
+    ['assign an exercise to a goal', (p, own) => request(app)
+      .post(`/api/goals/${p.goalId}/exercises`)
+      .send({ exercise_id: own.exerciseId })],
+    ['assign someone else\'s exercise to their own goal', (p, own) => request(app)
+      .post(`/api/goals/${own.goalId}/exercises`)
+      .send({ exercise_id: p.exerciseId })],
+    ['update an exercise', p => request(app).put(`/api/exercises/${p.exerciseId}`).send({
+      title: 'Changed', difficulty_level: 'advanced'
+    })],
+    ['delete an exercise', p => request(app).delete(`/api/exercises/${p.exerciseId}`)]
+  ];
+
+  it.each(attempts)('cannot %s', async (_, attempt) => {
+    const res = await attempt(theirs, mine).set('Authorization', `Bearer ${mine.therapist.token}`);
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({ success: false, message: FORBIDDEN });
+  });
+
+  it('leaves the other practice\'s data untouched', async () => {
+    await request(app)
+      .delete(`/api/goals/${theirs.goalId}`)
+      .set('Authorization', `Bearer ${mine.therapist.token}`);
+    await request(app)
+      .delete(`/api/exercises/${theirs.exerciseId}`)
+      .set('Authorization', `Bearer ${mine.therapist.token}`);
+
+    const goals = await pool.query('SELECT goal_id FROM goal WHERE goal_id = $1', [theirs.goalId]);
+    const exercises = await pool.query('SELECT exercise_id FROM exercise WHERE exercise_id = $1', [theirs.exerciseId]);
+    expect(goals.rows).toHaveLength(1);
+    expect(exercises.rows).toHaveLength(1);
+  });
+
+  it('cannot book a session to link themselves to the patient', async () => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${mine.therapist.token}`)
+      .send({
+        patient_id: theirs.patient.user.id,
+        session_date: '2026-03-03',
+        session_time: '11:00',
+        session_type: 'Second opinion'
+      });
+
+    const goals = await request(app)
+      .get(`/api/goals/${theirs.goalId}/exercises`)
+      .set('Authorization', `Bearer ${mine.therapist.token}`);
+    expect(res.statusCode).toBe(403);
+    expect(res.body.message).toBe('This patient has not accepted you as their therapist yet');
+    expect(goals.statusCode).toBe(403);
+  });
+
+  it('gains access once the patient accepts their request', async () => {
+    const sent = await request(app)
+      .post('/api/therapist-links/requests')
+      .set('Authorization', `Bearer ${mine.therapist.token}`)
+      .send({ patient_email: theirs.patient.user.email });
+    const waiting = await request(app)
+      .get('/api/therapist-links/requests')
+      .set('Authorization', `Bearer ${theirs.patient.token}`);
+    const answeredByOther = await request(app)
+      .post(`/api/therapist-links/requests/${sent.body.data.request.request_id}/accept`)
+      .set('Authorization', `Bearer ${mine.patient.token}`);
+    await request(app)
+      .post(`/api/therapist-links/requests/${sent.body.data.request.request_id}/accept`)
+      .set('Authorization', `Bearer ${theirs.patient.token}`);
+
+    const res = await request(app)
+      .get(`/api/goals/${theirs.goalId}/exercises`)
+      .set('Authorization', `Bearer ${mine.therapist.token}`);
+    expect(sent.statusCode).toBe(201);
+    expect(waiting.body.data.requests).toHaveLength(1);
+    expect(answeredByOther.statusCode).toBe(403);
+    expect(res.statusCode).toBe(200);
+  });
+});
+
+describe('patient acting on another patient\'s records', () => {
+  const attempts: [string, (p: Practice) => request.Test][] = [
+    ['read their profile', p => request(app).get(`/api/patients/${p.patient.user.id}`)],
+    ['read their sessions', p => request(app).get(`/api/patients/${p.patient.user.id}/sessions`)],
+    ['read a goal\'s exercise rows', p => request(app).get(`/api/goals/${p.goalId}/exercises`)],
+    ['tick an exercise row', p => request(app).patch(`/api/goals/rows/${p.rowId}`).send({ completed: true })],
+    ['rate an exercise row', p => request(app).patch(`/api/goals/rows/${p.rowId}`).send({ difficulty_rating: 5 })],
+    ['complete a session exercise', p => request(app)
+      .post(`/api/sessions/${p.sessionId}/exercises/${p.exerciseId}/complete`)]
+  ];
+
+  it.each(attempts)('cannot %s', async (_, attempt) => {
+    const res = await attempt(theirs).set('Authorization', `Bearer ${mine.patient.token}`);
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({ success: false, message: FORBIDDEN });
+  });
+
+  it('can still update their own rows', async () => {
+    const res = await request(app)
+      .patch(`/api/goals/rows/${mine.rowId}`)
+      .set('Authorization', `Bearer ${mine.patient.token}`)
+      .send({ completed: true });
+
+    expect(res.statusCode).toBe(200);
+
+    const { rows } = await pool.query('SELECT completed FROM goal_exercise_set WHERE row_id = $1', [theirs.rowId]);
+    expect(rows[0].completed).toBe(false);
+  });
+});
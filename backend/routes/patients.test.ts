@@ -0,0 +1,173 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+let therapist: TestUser;
+let patient: TestUser;
+
+const bookSession = async (therapistUser: TestUser, patientId: string, sessionTime = '10:00'): Promise<string> => {
+  const res = await request(app)
+    .post('/api/sessions')
+    .set('Authorization', `Bearer ${therapistUser.token}`)
+    .send({
+      patient_id: patientId,
+      session_date: '2026-03-02',
+      session_time: sessionTime,
+      session_type: 'Initial Assessment'
+    });
+  return res.body.data.session.session_id;
+};
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  await linkTherapist(therapist, patient);
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('GET /api/patients', () => {
+  it('lists each patient the therapist has sessions with once', async () => {
+    await createTestUser('patient', 'unlinked');
+    await bookSession(therapist, patient.user.id);
+    await bookSession(therapist, patient.user.id, '14:00');
+
+    const res = await request(app)
+      .get('/api/patients')
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.patients).toHaveLength(1);
+    expect(res.body.data.patients[0]).toMatchObject({
+      user_id: patient.user.id,
+      first_name: 'patient1',
+      user_role: 'patient'
+    });
+    expect(res.body.data.patients[0].password_hash).toBeUndefined();
+  });
+
+  it('is only available to therapists', async () => {
+    const res = await request(app)
+      .get('/api/patients')
+      .set('Authorization', `Bearer ${patient.token}`);
+
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('GET /api/patients/search', () => {
+  it('finds a patient by email', async () => {
+    const res = await request(app)
+      .get('/api/patients/search')
+      .query({ email: 'patient1@example.com' })
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.patient.user_id).toBe(patient.user.id);
+  });
+
+  it('returns 404 when no patient has that email', async () => {
+    const res = await request(app)
+      .get('/api/patients/search')
+      .query({ email: 'therapist1@example.com' })
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('patient records', () => {
+  it('lets a patient read their own records through /me', async () => {
+    await bookSession(therapist, patient.user.id);
+
+    const profile = await request(app)
+      .get('/api/patients/me')
+      .set('Authorization', `Bearer ${patient.token}`);
+    const therapists = await request(app)
+      .get('/api/patients/me/therapists')
+      .set('Authorization', `Bearer ${patient.token}`);
+
+    expect(profile.body.data.patient.user_id).toBe(patient.user.id);
+    expect(therapists.body.data.therapists.map((t: any) => t.user_id)).toEqual([therapist.user.id]);
+  });
+
+  it('stops a patient reading another patient\'s records', async () => {
+    const other = await createTestUser('patient', 'patient2');
+
+    const res = await request(app)
+      .get(`/api/patients/${other.user.id}/goals`)
+      .set('Authorization', `Bearer ${patient.token}`);
+
+    expect(res.statusCode).toBe(403);
+  });
+
+  it('returns goals (optionally only active ones), exercise rows and stats', async () => {
+    await bookSession(therapist, patient.user.id);
+    const goalIds: string[] = [];
+    for (const description of ['Fluent greetings', 'Read aloud']) {
+      const res = await request(app)
+        .post('/api/goals')
+        .set('Authorization', `Bearer ${therapist.token}`)
+        .send({
+          patient_id: patient.user.id,
+          goal_description: description,
+          start_date: '2026-03-02',
+          target_date: '2026-04-02'
+        });
+      goalIds.push(res.body.data.goal.goal_id);
+    }
+    await request(app)
+      .post(`/api/goals/${goalIds[1]}/status`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ status: 'achieved' });
+
+    const exercise = await request(app)
+      .post('/api/exercises')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ title: 'Easy onset' });
+    await request(app)
+      .post(`/api/goals/${goalIds[0]}/exercises`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ exercise_id: exercise.body.data.exercise.exercise_id });
+
+    const allGoals = await request(app)
+      .get(`/api/patients/${patient.user.id}/goals`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    const activeGoals = await request(app)
+      .get('/api/patients/me/goals?active=true')
+      .set('Authorization', `Bearer ${patient.token}`);
+    const exercises = await request(app)
+      .get('/api/patients/me/exercises')
+      .set('Authorization', `Bearer ${patient.token}`);
+    const stats = await request(app)
+      .get(`/api/patients/${patient.user.id}/stats`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(allGoals.body.data.goals).toHaveLength(2);
+    expect(activeGoals.body.data.goals.map((g: any) => g.goal_id)).toEqual([goalIds[0]]);
+    expect(exercises.body.data.exercises).toHaveLength(1);
+    expect(exercises.body.data.exercises[0].goal.goal_description).toBe('Fluent greetings');
+    expect(exercises.body.data.exercises[0].exercise.title).toBe('Easy onset');
+    expect(stats.body.data.stats).toMatchObject({
+      totalSessions: 1,
+      totalGoals: 2,
+      completedGoals: 1,
+      goalCompletionRate: 50
+    });
+  });
+});
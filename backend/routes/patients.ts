@@ -0,0 +1,233 @@
+// backend/routes/patients.ts
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import { getTherapistPatients, searchPatientByEmail } from '../services/therapistService';
+import {
+  getPatientProfile,
+  getPatientTherapists,
+  getPatientSessions,
+  getPatientGoals,
+  getPatientGoalTree,
+  getPatientExercises,
+  getPatientSessionExercises,
+  getPatientStats
+} from '../services/patientService';
+import { getPatientNotes } from '../services/sessionNoteService';
+import { getPatientTreatmentPlans } from '../services/treatmentPlanService';
+import { getJournal, buildJournalTrend } from '../services/journalService';
+import { getPatientRecordings, buildFluencyTrends } from '../services/recordingService';
+import { assertCanAccessPatient } from '../services/accessPolicy';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+router.use(authenticateToken);
+router.param('patientId', (req, res, next, value) => {
+  return value === 'me' ? next() : validateIdParam(req, res, next, value);
+});
+
+/**
+ * Works out whose records a /:patientId request is for, and checks the user may see them
+ * 'me' is the logged-in patient; therapists and carers need a link to the patient (see accessPolicy)
+ */
+const resolvePatientId = async (req: AuthRequest): Promise<string> => {
+  const patientId = req.params.patientId === 'me' ? req.user!.id : (req.params.patientId as string);
+  await assertCanAccessPatient(req.user!, patientId);
+  return patientId;
+};
+
+// LIST PATIENTS ENDPOINT
+// GET /api/patients
+// Patients linked to the logged-in therapist through at least one session
+router.get('/', authorizeRole('therapist'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patients = await getTherapistPatients(req.user!.id);
+    return res.json({ success: true, data: { patients } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching patients');
+  }
+});
+
+// SEARCH PATIENT ENDPOINT
+// GET /api/patients/search?email=...
+router.get('/search', authorizeRole('therapist'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const email = req.query.email;
+    if (typeof email !== 'string' || !email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is required'
+      });
+    }
+
+    const patient = await searchPatientByEmail(email);
+    return res.json({ success: true, data: { patient } });
+  } catch (error) {
+    return sendServiceError(res, error, 'searching patients');
+  }
+});
+
+// PATIENT PROFILE ENDPOINT
+// GET /api/patients/:patientId (or /api/patients/me)
+router.get('/:patientId', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const patient = await getPatientProfile(patientId);
+    return res.json({ success: true, data: { patient } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching patient');
+  }
+});
+
+// PATIENT THERAPISTS ENDPOINT
+// GET /api/patients/:patientId/therapists
+router.get('/:patientId/therapists', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const therapists = await getPatientTherapists(patientId);
+    return res.json({ success: true, data: { therapists } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching therapists');
+  }
+});
+
+// PATIENT SESSIONS ENDPOINT
+// GET /api/patients/:patientId/sessions
+router.get('/:patientId/sessions', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const sessions = await getPatientSessions(patientId);
+    return res.json({ success: true, data: { sessions } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching sessions');
+  }
+});
+
+// PATIENT GOALS ENDPOINT
+// GET /api/patients/:patientId/goals?active=true
+router.get('/:patientId/goals', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const goals = await getPatientGoals(patientId, req.query.active === 'true');
+    return res.json({ success: true, data: { goals } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching goals');
+  }
+});
+
+// PATIENT GOAL TREE ENDPOINT
+// GET /api/patients/:patientId/goal-tree?active=true
+// Long-term goals with their short-term objectives nested under them, each with its progress
+router.get('/:patientId/goal-tree', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const goals = await getPatientGoalTree(patientId, req.query.active === 'true');
+    return res.json({ success: true, data: { goals } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching goal tree');
+  }
+});
+
+// PATIENT TREATMENT PLANS ENDPOINT
+// GET /api/patients/:patientId/treatment-plans
+// The patient's episodes of care with each of their therapists, newest first
+router.get('/:patientId/treatment-plans', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const plans = await getPatientTreatmentPlans(patientId);
+    return res.json({ success: true, data: { plans } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching treatment plans');
+  }
+});
+
+// PATIENT EXERCISES ENDPOINT
+// GET /api/patients/:patientId/exercises
+// Every goal_exercise_set row across the patient's goals
+router.get('/:patientId/exercises', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const exercises = await getPatientExercises(patientId);
+    return res.json({ success: true, data: { exercises } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching exercises');
+  }
+});
+
+// PATIENT SESSION EXERCISES ENDPOINT
+// GET /api/patients/:patientId/session-exercises
+router.get('/:patientId/session-exercises', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const sessionExercises = await getPatientSessionExercises(patientId);
+    return res.json({ success: true, data: { sessionExercises } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching session exercises');
+  }
+});
+
+// PATIENT STATS ENDPOINT
+// GET /api/patients/:patientId/stats
+router.get('/:patientId/stats', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const stats = await getPatientStats(patientId);
+    return res.json({ success: true, data: { stats } });
+  } catch (error) {
+    return sendServiceError(res, error, 'calculating patient stats');
+  }
+});
+
+// PATIENT SESSION NOTES ENDPOINT
+// GET /api/patients/:patientId/notes
+// Clinical notes from every session with the patient, oldest session first; therapists only
+router.get('/:patientId/notes', authorizeRole('therapist'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const notes = await getPatientNotes(patientId);
+    return res.json({ success: true, data: { notes } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching session notes');
+  }
+});
+
+// PATIENT JOURNAL ENDPOINT
+// GET /api/patients/:patientId/journal
+// The patient gets every entry; therapists only the shared ones. trend holds weekly mood and confidence averages
+router.get('/:patientId/journal', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const entries = await getJournal(req.user!, patientId);
+    return res.json({ success: true, data: { entries, trend: buildJournalTrend(entries) } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching journal');
+  }
+});
+
+// PATIENT RECORDINGS ENDPOINT
+// GET /api/patients/:patientId/recordings
+// Every exercise recording the patient has made, newest first, with the therapist's comments
+router.get('/:patientId/recordings', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const recordings = await getPatientRecordings(patientId);
+    return res.json({ success: true, data: { recordings } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching recordings');
+  }
+});
+
+// PATIENT FLUENCY ENDPOINT
+// GET /api/patients/:patientId/fluency
+// Weekly fluency measures from the patient's analysed recordings, one trend per exercise in each goal
+router.get('/:patientId/fluency', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const patientId = await resolvePatientId(req);
+    const trends = buildFluencyTrends(await getPatientRecordings(patientId));
+    return res.json({ success: true, data: { trends } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching fluency trends');
+  }
+});
+
+export default router;
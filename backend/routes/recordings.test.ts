@@ -0,0 +1,210 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { FileStorage } from '../services/fileStorage';
+import { setRecordingStorage } from '../services/recordingStorage';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+import { synthesizeSpeech, toWav } from '../test-utils/speech';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+const AUDIO = Buffer.from('pretend webm audio');
+
+let storageDir: string;
+let therapist: TestUser;
+let patient: TestUser;
+let rowId: string;
+
+const upload = (user: TestUser, contentType: string = 'audio/webm;codecs=opus') => {
+  return request(app)
+    .post(`/api/goals/rows/${rowId}/recordings?duration_seconds=30`)
+    .set('Authorization', `Bearer ${user.token}`)
+    .set('Content-Type', contentType)
+    .send(AUDIO);
+};
+
+beforeAll(async () => {
+  await runMigrations(pool);
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ownurvoice-recordings-'));
+  setRecordingStorage(new FileStorage(storageDir));
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  await linkTherapist(therapist, patient);
+
+  const auth = { Authorization: `Bearer ${therapist.token}` };
+  await request(app).post('/api/sessions').set(auth).send({
+    patient_id: patient.user.id,
+    session_date: '2026-03-02',
+    session_time: '10:00',
+    session_type: 'Initial Assessment'
+  });
+  const goal = await request(app).post('/api/goals').set(auth).send({
+    patient_id: patient.user.id,
+    goal_description: 'Use /s/ in short phrases',
+    start_date: '2026-03-02',
+    target_date: '2026-04-02'
+  });
+  const exercise = await request(app).post('/api/exercises').set(auth).send({ title: 'Lip trills' });
+  const assigned = await request(app)
+    .post(`/api/goals/${goal.body.data.goal.goal_id}/exercises`)
+    .set(auth)
+    .send({ exercise_id: exercise.body.data.exercise.exercise_id });
+  rowId = assigned.body.data.rows[0].row_id;
+});
+
+afterAll(async () => {
+  fs.rmSync(storageDir, { recursive: true, force: true });
+  await pool.end();
+});
+
+describe('POST /api/goals/rows/:rowId/recordings', () => {
+  it('stores the audio under the row and lets the therapist play it back', async () => {
+    const res = await upload(patient);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.recording).toMatchObject({
+      row_id: rowId,
+      patient_id: patient.user.id,
+      mime_type: 'audio/webm',
+      size_bytes: AUDIO.length,
+      duration_seconds: 30,
+      reviewed_at: null,
+      exercise: { title: 'Lip trills' }
+    });
+    expect(fs.readdirSync(path.join(storageDir, rowId))).toHaveLength(1);
+
+    const audio = await request(app)
+      .get(`/api/recordings/${res.body.data.recording.recording_id}/audio`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .responseType('blob');
+
+    expect(audio.statusCode).toBe(200);
+    expect(audio.headers['content-type']).toMatch(/^audio\/webm/);
+    expect(Buffer.compare(audio.body, AUDIO)).toBe(0);
+  });
+
+  it('only accepts audio, and only from the patient', async () => {
+    expect((await upload(patient, 'text/plain')).statusCode).toBe(400);
+    expect((await upload(therapist)).statusCode).toBe(403);
+  });
+
+  it('keeps other therapists from listening', async () => {
+    const other = await createTestUser('therapist', 'therapist2');
+    const recordingId = (await upload(patient)).body.data.recording.recording_id;
+
+    const res = await request(app)
+      .get(`/api/recordings/${recordingId}/audio`)
+      .set('Authorization', `Bearer ${other.token}`);
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('reviewing recordings', () => {
+  it('lets the therapist comment on a moment and mark the recording reviewed', async () => {
+    const recordingId = (await upload(patient)).body.data.recording.recording_id;
+    const auth = { Authorization: `Bearer ${therapist.token}` };
+
+    const comment = await request(app)
+      .post(`/api/recordings/${recordingId}/comments`)
+      .set(auth)
+      .send({ position_seconds: 12, content: 'Nice easy onset here' });
+    expect(comment.statusCode).toBe(201);
+    expect(comment.body.data.comment).toMatchObject({ position_seconds: 12, author: { first_name: 'therapist1' } });
+
+    const pastEnd = await request(app)
+      .post(`/api/recordings/${recordingId}/comments`)
+      .set(auth)
+      .send({ position_seconds: 45, content: 'Too far' });
+    expect(pastEnd.statusCode).toBe(400);
+
+    const reviewed = await request(app).post(`/api/recordings/${recordingId}/review`).set(auth);
+    expect(reviewed.statusCode).toBe(200);
+    expect(reviewed.body.data.recording.reviewed_by).toBe(therapist.user.id);
+    expect((await request(app).post(`/api/recordings/${recordingId}/review`).set(auth)).statusCode).toBe(409);
+
+    const list = await request(app)
+      .get('/api/patients/me/recordings')
+      .set('Authorization', `Bearer ${patient.token}`);
+    expect(list.body.data.recordings).toHaveLength(1);
+    expect(list.body.data.recordings[0].comments.map((c: any) => c.content)).toEqual(['Nice easy onset here']);
+  });
+
+  it('lets the patient delete a recording until it has been reviewed', async () => {
+    const first = (await upload(patient)).body.data.recording.recording_id;
+    const second = (await upload(patient)).body.data.recording.recording_id;
+    await request(app).post(`/api/recordings/${second}/review`).set('Authorization', `Bearer ${therapist.token}`);
+
+    const auth = { Authorization: `Bearer ${patient.token}` };
+    expect((await request(app).delete(`/api/recordings/${first}`).set(auth)).statusCode).toBe(200);
+    expect((await request(app).delete(`/api/recordings/${second}`).set(auth)).statusCode).toBe(409);
+
+    const rows = await request(app).get(`/api/goals/rows/${rowId}/recordings`).set(auth);
+    expect(rows.body.data.recordings.map((r: any) => r.recording_id)).toEqual([second]);
+    expect(fs.readdirSync(path.join(storageDir, rowId))).toHaveLength(1);
+  });
+});
+
+describe('fluency measures', () => {
+  const METRICS = {
+    speaking_ms: 4200,
+    pause_count: 2,
+    pause_ms: 900,
+    syllable_count: 18,
+    syllables_per_minute: 211.8,
+    longest_fluent_ms: 2600
+  };
+
+  it('analyses WAV uploads straight away', async () => {
+    const wav = toWav(synthesizeSpeech([[300, 0], [800, 4], [500, 0], [400, 2], [300, 0]]));
+    const res = await request(app)
+      .post(`/api/goals/rows/${rowId}/recordings`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .set('Content-Type', 'audio/wav')
+      .send(wav);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.recording).toMatchObject({ pause_count: 1, pause_ms: 500, syllable_count: 6 });
+    expect(res.body.data.recording.analyzed_at).not.toBeNull();
+  });
+
+  it('takes the measures from the browser once, and charts them by week', async () => {
+    const recordingId = (await upload(patient)).body.data.recording.recording_id;
+    const auth = { Authorization: `Bearer ${patient.token}` };
+
+    const invalid = await request(app)
+      .put(`/api/recordings/${recordingId}/metrics`)
+      .set(auth)
+      .send({ ...METRICS, pause_count: 1.5 });
+    expect(invalid.statusCode).toBe(400);
+
+    const saved = await request(app).put(`/api/recordings/${recordingId}/metrics`).set(auth).send(METRICS);
+    expect(saved.statusCode).toBe(200);
+    expect(saved.body.data.recording).toMatchObject(METRICS);
+    expect((await request(app).put(`/api/recordings/${recordingId}/metrics`).set(auth).send(METRICS)).statusCode).toBe(409);
+
+    // Recordings not analysed yet are left out of the trends
+    await upload(patient);
+
+    const fluency = await request(app)
+      .get(`/api/patients/${patient.user.id}/fluency`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    expect(fluency.statusCode).toBe(200);
+    expect(fluency.body.data.trends).toHaveLength(1);
+    expect(fluency.body.data.trends[0]).toMatchObject({ exercise_title: 'Lip trills' });
+    expect(fluency.body.data.trends[0].weeks).toEqual([
+      expect.objectContaining({ syllables_per_minute: 211.8, pause_count: 2, recordings: 1 })
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+// backend/routes/recordings.ts
+// Playing back and reviewing exercise recordings; uploads go to /api/goals/rows/:rowId/recordings
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import { authorizeResource } from '../middleware/ownership';
+import {
+  getRecordingAudio,
+  addRecordingComment,
+  markRecordingReviewed,
+  saveRecordingMetrics,
+  deleteRecording
+} from '../services/recordingService';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+router.use(authenticateToken);
+router.param('recordingId', validateIdParam);
+
+// RECORDING AUDIO ENDPOINT
+// GET /api/recordings/:recordingId/audio
+// Responds with the audio itself, for an <audio> element to play
+router.get(
+  '/:recordingId/audio',
+  authorizeResource('recording', 'recordingId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { audio, mimeType } = await getRecordingAudio(req.params.recordingId as string);
+      return res.type(mimeType).send(audio);
+    } catch (error) {
+      return sendServiceError(res, error, 'fetching recording audio');
+    }
+  }
+);
+
+// RECORDING COMMENT ENDPOINT
+// POST /api/recordings/:recordingId/comments
+// Body: { position_seconds?, content } - a comment on the moment position_seconds into the recording
+router.post(
+  '/:recordingId/comments',
+  authorizeRole('therapist'),
+  authorizeResource('recording', 'recordingId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { position_seconds, content } = req.body || {};
+      const comment = await addRecordingComment(req.params.recordingId as string, req.user!.id, position_seconds, content);
+
+      return res.status(201).json({
+        success: true,
+        message: 'Comment added',
+        data: { comment }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'adding recording comment');
+    }
+  }
+);
+
+// REVIEW RECORDING ENDPOINT
+// POST /api/recordings/:recordingId/review
+router.post(
+  '/:recordingId/review',
+  authorizeRole('therapist'),
+  authorizeResource('recording', 'recordingId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const recording = await markRecordingReviewed(req.params.recordingId as string, req.user!.id);
+
+      return res.json({
+        success: true,
+        message: 'Recording marked as reviewed',
+        data: { recording }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'reviewing recording');
+    }
+  }
+);
+
+// RECORDING METRICS ENDPOINT
+// PUT /api/recordings/:recordingId/metrics
+// Body: the fluency measures the browser worked out, for audio the server can't analyse itself
+router.put(
+  '/:recordingId/metrics',
+  authorizeRole('patient'),
+  authorizeResource('recording', 'recordingId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const recording = await saveRecordingMetrics(req.params.recordingId as string, req.body);
+
+      return res.json({
+        success: true,
+        message: 'Fluency measures saved',
+        data: { recording }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'saving recording metrics');
+    }
+  }
+);
+
+// DELETE RECORDING ENDPOINT
+// DELETE /api/recordings/:recordingId
+// The patient taking back a recording their therapist hasn't reviewed yet
+router.delete(
+  '/:recordingId',
+  authorizeRole('patient'),
+  authorizeResource('recording', 'recordingId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      await deleteRecording(req.params.recordingId as string);
+      return res.json({ success: true, message: 'Recording deleted' });
+    } catch (error) {
+      return sendServiceError(res, error, 'deleting recording');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,34 @@
+// backend/routes/respond.ts
+import { Request, Response, NextFunction } from 'express';
+import { ServiceError } from '../services/errors';
+import { UUID_PATTERN } from '../services/validation';
+
+/**
+ * Sends the error response for a failed domain request
+ * Service errors keep their status and message; anything else is logged and reported as a 500
+ */
+export const sendServiceError = (res: Response, error: unknown, context: string): Response => {
+  if (error instanceof ServiceError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  console.error(`Error ${context}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: `Server error ${context}`
+  });
+};
+
+// router.param handler that rejects ids which are not UUIDs before they reach the database
+export const validateIdParam = (req: Request, res: Response, next: NextFunction, value: string): any => {
+  if (!UUID_PATTERN.test(value)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid id'
+    });
+  }
+  next();
+};
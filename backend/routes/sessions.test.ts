@@ -0,0 +1,767 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+const newSession = (patientId: string) => ({
+  patient_id: patientId,
+  session_date: '2026-03-02',
+  session_time: '10:30',
+  session_type: 'Initial Assessment',
+  location: 'Room 1'
+});
+
+let therapist: TestUser;
+let patient: TestUser;
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  await linkTherapist(therapist, patient);
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('POST /api/sessions', () => {
+  it('books a scheduled session for the logged-in therapist', async () => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSession(patient.user.id));
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.session).toMatchObject({
+      patient_id: patient.user.id,
+      therapist_id: therapist.user.id,
+      session_date: '2026-03-02',
+      session_time: '10:30:00',
+      status: 'scheduled'
+    });
+  });
+
+  it('requires the core fields', async () => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ patient_id: patient.user.id });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('rejects malformed dates and times', async () => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newSession(patient.user.id), session_date: '2026-02-30' });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toContain('session_date');
+  });
+
+  it('returns 404 when the patient does not exist', async () => {
+    const other = await createTestUser('therapist', 'therapist2');
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSession(other.user.id));
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('refuses a therapist the patient has not accepted, one session or a series', async () => {
+    const stranger = await createTestUser('therapist', 'therapist2');
+    const book = (path: string, body: Record<string, unknown>) => request(app)
+      .post(path)
+      .set('Authorization', `Bearer ${stranger.token}`)
+      .send(body);
+
+    const single = await book('/api/sessions', newSession(patient.user.id));
+    const series = await book('/api/sessions/series', { ...newSession(patient.user.id), frequency: 'weekly', occurrences: 4 });
+    const { rows } = await pool.query('SELECT session_id FROM session WHERE therapist_id = $1', [stranger.user.id]);
+
+    expect(single.statusCode).toBe(403);
+    expect(series.statusCode).toBe(403);
+    expect(rows).toHaveLength(0);
+  });
+
+  it('is only available to therapists', async () => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send(newSession(patient.user.id));
+
+    expect(res.statusCode).toBe(403);
+  });
+
+  it('requires a token', async () => {
+    const res = await request(app).post('/api/sessions').send(newSession(patient.user.id));
+    expect(res.statusCode).toBe(401);
+  });
+});
+
+describe('GET /api/sessions', () => {
+  beforeEach(async () => {
+    await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSession(patient.user.id));
+  });
+
+  it('lists the therapist\'s sessions with patient details', async () => {
+    const res = await request(app)
+      .get('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.sessions).toHaveLength(1);
+    expect(res.body.data.sessions[0].patient.first_name).toBe('patient1');
+  });
+
+  it('lists the patient\'s own sessions with therapist details', async () => {
+    const res = await request(app)
+      .get('/api/sessions')
+      .set('Authorization', `Bearer ${patient.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.sessions).toHaveLength(1);
+    expect(res.body.data.sessions[0].therapist.qualification).toBe('MSc');
+  });
+});
+
+describe('PUT and DELETE /api/sessions/:sessionId', () => {
+  let sessionId: string;
+
+  beforeEach(async () => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSession(patient.user.id));
+    sessionId = res.body.data.session.session_id;
+  });
+
+  it('updates a session', async () => {
+    const res = await request(app)
+      .put(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ session_date: '2026-03-09', session_time: '14:00', session_type: 'Follow-up', location: 'Online' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.session).toMatchObject({
+      session_date: '2026-03-09',
+      session_time: '14:00:00',
+      session_type: 'Follow-up',
+      location: 'Online'
+    });
+  });
+
+  it('deletes a session without goals', async () => {
+    const res = await request(app)
+      .delete(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(200);
+    const { rows } = await pool.query('SELECT * FROM session');
+    expect(rows).toHaveLength(0);
+  });
+
+  it('deletes a session but keeps the patient\'s goals, which belong to the treatment plan', async () => {
+    const goal = await request(app)
+      .post('/api/goals')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({
+        patient_id: patient.user.id,
+        goal_description: 'Use /s/ in short phrases',
+        start_date: '2026-03-02',
+        target_date: '2026-04-02'
+      });
+
+    const res = await request(app)
+      .delete(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    const goals = await request(app)
+      .get(`/api/patients/${patient.user.id}/goals`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(goals.statusCode).toBe(200);
+    expect(goals.body.data.goals.map((g: any) => g.goal_id)).toEqual([goal.body.data.goal.goal_id]);
+  });
+
+  it('returns 404 for an unknown session', async () => {
+    const res = await request(app)
+      .delete('/api/sessions/00000000-0000-4000-8000-000000000000')
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('double bookings and working hours', () => {
+  const book = (overrides: Record<string, unknown>) => request(app)
+    .post('/api/sessions')
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send({ ...newSession(patient.user.id), ...overrides });
+
+  it('refuses a session that overlaps another one, but allows back-to-back sessions', async () => {
+    await book({ session_time: '10:00', duration_minutes: 45 });
+
+    const overlapping = await book({ session_time: '10:30' });
+    const backToBack = await book({ session_time: '10:45' });
+
+    expect(overlapping.statusCode).toBe(409);
+    expect(overlapping.body.message).toContain('2026-03-02 at 10:00');
+    expect(backToBack.statusCode).toBe(201);
+    expect(backToBack.body.data.session.duration_minutes).toBe(60);
+  });
+
+  it('refuses a session early the next morning while a late one is still running', async () => {
+    await book({ session_time: '23:00', duration_minutes: 120 });
+
+    const res = await book({ session_date: '2026-03-03', session_time: '00:30' });
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.message).toContain('2026-03-02 at 23:00');
+  });
+
+  it('refuses to move a session onto another one', async () => {
+    await book({ session_time: '10:00' });
+    const other = await book({ session_time: '14:00' });
+
+    const res = await request(app)
+      .put(`/api/sessions/${other.body.data.session.session_id}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ session_date: '2026-03-02', session_time: '10:30', session_type: 'Follow-up' });
+
+    expect(res.statusCode).toBe(409);
+  });
+
+  it('books outside working hours with a warning', async () => {
+    const saturday = await book({ session_date: '2026-03-07' });
+    const monday = await book({ session_time: '15:00' });
+
+    expect(saturday.statusCode).toBe(201);
+    expect(saturday.body.data.warnings).toEqual(['2026-03-07 at 10:30 is outside your working hours']);
+    expect(monday.body.data.warnings).toEqual([]);
+  });
+
+  it('refuses a series when any occurrence overlaps another session', async () => {
+    await book({ session_date: '2026-03-16' });
+
+    const res = await request(app)
+      .post('/api/sessions/series')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newSession(patient.user.id), frequency: 'weekly', occurrences: 4 });
+
+    expect(res.statusCode).toBe(409);
+    const { rows } = await pool.query('SELECT * FROM session');
+    expect(rows).toHaveLength(1);
+  });
+});
+
+describe('recurring session series', () => {
+  const newSeries = (overrides: Record<string, unknown> = {}) => ({
+    ...newSession(patient.user.id),
+    frequency: 'weekly',
+    occurrences: 4,
+    ...overrides
+  });
+
+  const bookSeries = async (overrides: Record<string, unknown> = {}) => {
+    const res = await request(app)
+      .post('/api/sessions/series')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSeries(overrides));
+    return res.body.data.sessions as { session_id: string; session_date: string; series_id: string }[];
+  };
+
+  it('books weekly occurrences, skipped dates not counting towards the total', async () => {
+    const res = await request(app)
+      .post('/api/sessions/series')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSeries({ skip_dates: ['2026-03-09'] }));
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.series).toMatchObject({ frequency: 'weekly', occurrences: 4 });
+    expect(res.body.data.sessions.map((s: any) => s.session_date)).toEqual([
+      '2026-03-02', '2026-03-16', '2026-03-23', '2026-03-30'
+    ]);
+    expect(res.body.data.sessions[0].series_id).toBe(res.body.data.series.series_id);
+  });
+
+  it('books fortnightly occurrences up to an end date', async () => {
+    const sessions = await bookSeries({ frequency: 'fortnightly', occurrences: undefined, until_date: '2026-04-13' });
+
+    expect(sessions.map(s => s.session_date)).toEqual(['2026-03-02', '2026-03-16', '2026-03-30', '2026-04-13']);
+  });
+
+  it('needs exactly one of occurrences and until_date', async () => {
+    const both = await request(app)
+      .post('/api/sessions/series')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSeries({ until_date: '2026-04-13' }));
+    const neither = await request(app)
+      .post('/api/sessions/series')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSeries({ occurrences: undefined }));
+
+    expect(both.statusCode).toBe(400);
+    expect(neither.statusCode).toBe(400);
+  });
+
+  it('moves this and the following occurrences into a series of their own', async () => {
+    const sessions = await bookSeries();
+
+    const res = await request(app)
+      .put(`/api/sessions/${sessions[2].session_id}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ session_date: '2026-03-17', session_time: '15:00', session_type: 'Follow-up', scope: 'following' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.sessions.map((s: any) => s.session_date)).toEqual(['2026-03-17', '2026-03-24']);
+    expect(res.body.data.session).toMatchObject({ session_date: '2026-03-17', session_time: '15:00:00' });
+
+    const { rows } = await pool.query('SELECT DISTINCT series_id FROM session');
+    expect(rows).toHaveLength(2);
+  });
+
+  it('changes the whole series', async () => {
+    const sessions = await bookSeries();
+
+    const res = await request(app)
+      .put(`/api/sessions/${sessions[1].session_id}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ session_date: '2026-03-09', session_time: '09:00', session_type: 'Follow-up', scope: 'all' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.sessions).toHaveLength(4);
+    const { rows } = await pool.query("SELECT * FROM session WHERE session_time = '09:00'");
+    expect(rows).toHaveLength(4);
+  });
+
+  it('moves a cancelled occurrence into the split with the others, counting it', async () => {
+    const sessions = await bookSeries();
+    await request(app)
+      .post(`/api/sessions/${sessions[3].session_id}/status`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ status: 'cancelled_by_patient' });
+
+    const res = await request(app)
+      .put(`/api/sessions/${sessions[2].session_id}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ session_date: '2026-03-17', session_time: '15:00', session_type: 'Follow-up', scope: 'following' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.sessions.map((s: any) => s.session_date)).toEqual(['2026-03-17']);
+    const split = res.body.data.session.series_id;
+    const { rows: series } = await pool.query('SELECT occurrences FROM session_series WHERE series_id = $1', [split]);
+    const { rows: moved } = await pool.query(
+      'SELECT session_id, status FROM session WHERE series_id = $1 ORDER BY session_date', [split]
+    );
+    expect(series[0].occurrences).toBe(2);
+    expect(moved.map(s => s.session_id)).toEqual([sessions[2].session_id, sessions[3].session_id]);
+    expect(moved[1].status).toBe('cancelled_by_patient');
+  });
+
+  it('changes the whole series in place when one occurrence is cancelled', async () => {
+    const sessions = await bookSeries();
+    await request(app)
+      .post(`/api/sessions/${sessions[1].session_id}/status`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ status: 'cancelled_by_therapist' });
+
+    const res = await request(app)
+      .put(`/api/sessions/${sessions[2].session_id}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ session_date: '2026-03-16', session_time: '09:00', session_type: 'Follow-up', scope: 'all' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.sessions).toHaveLength(3);
+    const { rows: series } = await pool.query('SELECT series_id FROM session_series');
+    const { rows } = await pool.query('SELECT DISTINCT series_id FROM session');
+    expect(series).toHaveLength(1);
+    expect(rows).toEqual([{ series_id: sessions[0].series_id }]);
+    const { rows: cancelled } = await pool.query('SELECT session_time FROM session WHERE session_id = $1', [sessions[1].session_id]);
+    expect(cancelled[0].session_time).toBe('10:30:00');
+  });
+
+  it('cancels this and the following occurrences, then the rest of the series', async () => {
+    const sessions = await bookSeries();
+
+    const following = await request(app)
+      .delete(`/api/sessions/${sessions[2].session_id}?scope=following`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    expect(following.statusCode).toBe(200);
+    expect(following.body.message).toBe('2 sessions deleted');
+
+    const all = await request(app)
+      .delete(`/api/sessions/${sessions[0].session_id}?scope=all`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    expect(all.statusCode).toBe(200);
+
+    const { rows } = await pool.query('SELECT * FROM session_series');
+    expect(rows).toHaveLength(0);
+  });
+
+  it('only accepts a series scope for sessions in a series', async () => {
+    const single = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSession(patient.user.id));
+
+    const res = await request(app)
+      .delete(`/api/sessions/${single.body.data.session.session_id}?scope=all`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+describe('session status lifecycle', () => {
+  const book = async (overrides: Record<string, unknown> = {}): Promise<string> => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newSession(patient.user.id), ...overrides });
+    return res.body.data.session.session_id;
+  };
+
+  const setStatus = (sessionId: string, body: Record<string, unknown>) => request(app)
+    .post(`/api/sessions/${sessionId}/status`)
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send(body);
+
+  it('cancels a session with a reason, keeping it on record and freeing its time', async () => {
+    const sessionId = await book();
+
+    const res = await setStatus(sessionId, { status: 'cancelled_by_patient', reason: 'Unwell' });
+    const rebooked = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSession(patient.user.id));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.sessions[0]).toMatchObject({
+      status: 'cancelled_by_patient',
+      status_reason: 'Unwell'
+    });
+    expect(res.body.data.sessions[0].status_changed_at).toBeTruthy();
+    expect(rebooked.statusCode).toBe(201);
+  });
+
+  it('only allows moves the lifecycle permits', async () => {
+    const sessionId = await book();
+    await setStatus(sessionId, { status: 'cancelled_by_therapist' });
+
+    const attended = await setStatus(sessionId, { status: 'attended' });
+    const edited = await request(app)
+      .put(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ session_date: '2026-03-03', session_time: '10:30', session_type: 'Follow-up' });
+    const unknown = await setStatus(await book({ session_time: '14:00' }), { status: 'completed' });
+
+    expect(attended.statusCode).toBe(409);
+    expect(attended.body.message).toBe('This session has already been cancelled');
+    expect(edited.statusCode).toBe(409);
+    expect(unknown.statusCode).toBe(400);
+  });
+
+  it('lets attended and no-show be swapped, but not before the session', async () => {
+    const sessionId = await book();
+    const future = await book({ session_date: '2099-03-02' });
+
+    await setStatus(sessionId, { status: 'no_show' });
+    const corrected = await setStatus(sessionId, { status: 'attended' });
+    const early = await setStatus(future, { status: 'attended' });
+
+    expect(corrected.statusCode).toBe(200);
+    expect(corrected.body.data.sessions[0].status).toBe('attended');
+    expect(early.statusCode).toBe(400);
+  });
+
+  it('reschedules by booking a replacement at the new time', async () => {
+    const sessionId = await book();
+
+    const res = await request(app)
+      .post(`/api/sessions/${sessionId}/reschedule`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ session_date: '2026-03-04', session_time: '11:00', reason: 'Therapist on training' });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.data.replacement).toMatchObject({
+      session_date: '2026-03-04',
+      session_time: '11:00:00',
+      session_type: 'Initial Assessment',
+      location: 'Room 1',
+      status: 'scheduled'
+    });
+    expect(res.body.data.session).toMatchObject({
+      status: 'rescheduled',
+      status_reason: 'Therapist on training',
+      rescheduled_to: res.body.data.replacement.session_id
+    });
+  });
+
+  it('cancels the rest of a series, leaving occurrences that already happened alone', async () => {
+    const series = await request(app)
+      .post('/api/sessions/series')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ ...newSession(patient.user.id), frequency: 'weekly', occurrences: 3 });
+    const [first, second] = series.body.data.sessions;
+    await setStatus(first.session_id, { status: 'attended' });
+
+    const res = await setStatus(first.session_id, { status: 'cancelled_by_therapist', scope: 'all' });
+    const noShows = await setStatus(second.session_id, { status: 'no_show', scope: 'all' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.message).toBe('2 sessions updated');
+    expect(noShows.statusCode).toBe(400);
+  });
+
+  it('works out attendance for the patient list and patient stats', async () => {
+    const times = ['09:00', '10:30', '12:00', '14:00', '15:30'];
+    const ids: string[] = [];
+    for (const time of times) {
+      ids.push(await book({ session_time: time }));
+    }
+    await setStatus(ids[0], { status: 'attended' });
+    await setStatus(ids[1], { status: 'attended' });
+    await setStatus(ids[2], { status: 'no_show' });
+    await setStatus(ids[3], { status: 'cancelled_by_patient' });
+    // Therapist cancellations don't count against the patient
+    await setStatus(ids[4], { status: 'cancelled_by_therapist' });
+
+    const list = await request(app).get('/api/patients').set('Authorization', `Bearer ${therapist.token}`);
+    const stats = await request(app)
+      .get(`/api/patients/${patient.user.id}/stats`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    const expected = {
+      attended: 2,
+      noShows: 1,
+      cancelledByPatient: 1,
+      cancelledByTherapist: 1,
+      attendanceRate: 50
+    };
+    expect(list.body.data.patients[0].attendance).toEqual(expected);
+    expect(stats.body.data.stats.attendance).toEqual(expected);
+  });
+});
+
+describe('clinical session notes', () => {
+  const book = async (user: TestUser = therapist, overrides: Record<string, unknown> = {}): Promise<string> => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ ...newSession(patient.user.id), ...overrides });
+    return res.body.data.session.session_id;
+  };
+
+  const saveNote = (sessionId: string, body: Record<string, unknown>, user: TestUser = therapist) => request(app)
+    .put(`/api/sessions/${sessionId}/note`)
+    .set('Authorization', `Bearer ${user.token}`)
+    .send(body);
+
+  const signNote = (sessionId: string, user: TestUser = therapist) => request(app)
+    .post(`/api/sessions/${sessionId}/note/sign`)
+    .set('Authorization', `Bearer ${user.token}`);
+
+  const addAddendum = (sessionId: string, content: string) => request(app)
+    .post(`/api/sessions/${sessionId}/note/addenda`)
+    .set('Authorization', `Bearer ${therapist.token}`)
+    .send({ content });
+
+  it('saves a draft, signs it, and only takes addenda afterwards', async () => {
+    const sessionId = await book();
+
+    const created = await saveNote(sessionId, { subjective: 'Reports less blocking', tags: ['Fluency', 'fluency '] });
+    const updated = await saveNote(sessionId, {
+      subjective: 'Reports less blocking at school',
+      plan: 'Continue easy onsets',
+      tags: ['Fluency', 'homework']
+    });
+    const early = await addAddendum(sessionId, 'Too soon');
+    const signed = await signNote(sessionId);
+    const edited = await saveNote(sessionId, { subjective: 'Changed' });
+    const addendum = await addAddendum(sessionId, 'Parent confirmed practice at home');
+    const fetched = await request(app)
+      .get(`/api/sessions/${sessionId}/note`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(created.statusCode).toBe(201);
+    expect(created.body.data.note.tags).toEqual(['fluency']);
+    expect(updated.statusCode).toBe(200);
+    expect(updated.body.data.note).toMatchObject({ status: 'draft', plan: 'Continue easy onsets', tags: ['fluency', 'homework'] });
+    expect(early.statusCode).toBe(409);
+    expect(signed.statusCode).toBe(200);
+    expect(signed.body.data.note.status).toBe('signed');
+    expect(signed.body.data.note.signed_at).toBeTruthy();
+    expect(edited.statusCode).toBe(409);
+    expect(addendum.statusCode).toBe(201);
+    expect(fetched.body.data.note).toMatchObject({
+      subjective: 'Reports less blocking at school',
+      session: { session_date: '2026-03-02', session_type: 'Initial Assessment' },
+      author: { first_name: 'therapist1', last_name: 'Test' }
+    });
+    expect(fetched.body.data.note.addenda.map((a: any) => a.content)).toEqual(['Parent confirmed practice at home']);
+  });
+
+  it('lets only the author change or sign a draft, and keeps notes from patients', async () => {
+    const colleague = await createTestUser('therapist', 'therapist2');
+    await linkTherapist(colleague, patient);
+    await book(colleague, { session_time: '14:00' });
+    const sessionId = await book();
+    await saveNote(sessionId, { objective: '12% syllables stuttered' });
+
+    const edited = await saveNote(sessionId, { objective: 'Changed' }, colleague);
+    const signed = await signNote(sessionId, colleague);
+    const read = await request(app)
+      .get(`/api/sessions/${sessionId}/note`)
+      .set('Authorization', `Bearer ${colleague.token}`);
+    const asPatient = await request(app)
+      .get(`/api/sessions/${sessionId}/note`)
+      .set('Authorization', `Bearer ${patient.token}`);
+
+    expect(edited.statusCode).toBe(403);
+    expect(signed.statusCode).toBe(403);
+    expect(read.statusCode).toBe(200);
+    expect(read.body.data.note.objective).toBe('12% syllables stuttered');
+    expect(asPatient.statusCode).toBe(403);
+  });
+
+  it('refuses notes before the session, for cancelled sessions, and empty notes at signing', async () => {
+    const future = await book(therapist, { session_date: '2099-03-02' });
+    const cancelled = await book(therapist, { session_time: '14:00' });
+    await request(app)
+      .post(`/api/sessions/${cancelled}/status`)
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ status: 'cancelled_by_therapist' });
+    const empty = await book(therapist, { session_time: '16:00' });
+    await saveNote(empty, { subjective: '   ' });
+
+    const early = await saveNote(future, { subjective: 'Not yet' });
+    const released = await saveNote(cancelled, { subjective: 'Did not happen' });
+    const signed = await signNote(empty);
+    const badTags = await saveNote(empty, { tags: 'fluency' });
+
+    expect(early.statusCode).toBe(400);
+    expect(released.statusCode).toBe(409);
+    expect(signed.statusCode).toBe(400);
+    expect(badTags.statusCode).toBe(400);
+  });
+
+  it('keeps sessions with notes from being deleted', async () => {
+    const sessionId = await book();
+    await saveNote(sessionId, { assessment: 'Mild developmental stammer' });
+
+    const res = await request(app)
+      .delete(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+
+    expect(res.statusCode).toBe(409);
+  });
+
+  it('keeps signed notes and addenda when their author\'s account is deleted', async () => {
+    // A colleague writes up the therapist's session, so only the note ties the colleague to it
+    const colleague = await createTestUser('therapist', 'therapist2');
+    await linkTherapist(colleague, patient);
+    const sessionId = await book();
+    await saveNote(sessionId, { assessment: 'Mild developmental stammer' }, colleague);
+    await signNote(sessionId, colleague);
+    await request(app)
+      .post(`/api/sessions/${sessionId}/note/addenda`)
+      .set('Authorization', `Bearer ${colleague.token}`)
+      .send({ content: 'Discharged to school support' });
+
+    await expect(pool.query('DELETE FROM users WHERE id = $1', [colleague.user.id])).rejects.toThrow();
+
+    const { rows: notes } = await pool.query('SELECT status FROM session_note WHERE session_id = $1', [sessionId]);
+    const { rows: addenda } = await pool.query('SELECT content FROM session_note_addendum');
+    expect(notes).toEqual([{ status: 'signed' }]);
+    expect(addenda).toEqual([{ content: 'Discharged to school support' }]);
+  });
+
+  it('lists the patient\'s notes with their addenda, oldest session first', async () => {
+    const later = await book(therapist, { session_date: '2026-03-09' });
+    const earlier = await book();
+    await saveNote(later, { plan: 'Review in a week' });
+    await saveNote(earlier, { subjective: 'First visit' });
+    await signNote(earlier);
+    await addAddendum(earlier, 'Referral letter received');
+
+    const res = await request(app)
+      .get(`/api/patients/${patient.user.id}/notes`)
+      .set('Authorization', `Bearer ${therapist.token}`);
+    const asPatient = await request(app)
+      .get('/api/patients/me/notes')
+      .set('Authorization', `Bearer ${patient.token}`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.notes.map((n: any) => n.session_id)).toEqual([earlier, later]);
+    expect(res.body.data.notes[0].addenda).toHaveLength(1);
+    expect(res.body.data.notes[1].addenda).toEqual([]);
+    expect(asPatient.statusCode).toBe(403);
+  });
+});
+
+describe('session exercises', () => {
+  it('lets the patient complete a session exercise and add notes', async () => {
+    const created = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSession(patient.user.id));
+    const sessionId = created.body.data.session.session_id;
+
+    const exercise = await request(app)
+      .post('/api/exercises')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send({ title: 'Lip trills' });
+    const exerciseId = exercise.body.data.exercise.exercise_id;
+
+    await pool.query(
+      'INSERT INTO session_exercise (session_id, exercise_id) VALUES ($1, $2)',
+      [sessionId, exerciseId]
+    );
+
+    const completed = await request(app)
+      .post(`/api/sessions/${sessionId}/exercises/${exerciseId}/complete`)
+      .set('Authorization', `Bearer ${patient.token}`);
+    const notes = await request(app)
+      .put(`/api/sessions/${sessionId}/exercises/${exerciseId}/notes`)
+      .set('Authorization', `Bearer ${patient.token}`)
+      .send({ notes: 'Easier on the second try' });
+
+    expect(completed.statusCode).toBe(200);
+    expect(completed.body.data.sessionExercise.completed).toBe(true);
+    expect(completed.body.data.sessionExercise.completion_date).not.toBeNull();
+    expect(notes.body.data.sessionExercise.notes).toBe('Easier on the second try');
+  });
+});
+
+describe('malformed ids', () => {
+  it('rejects ids that are not UUIDs in the path and the body', async () => {
+    const inPath = await request(app)
+      .delete('/api/sessions/not-a-uuid')
+      .set('Authorization', `Bearer ${therapist.token}`);
+    const inBody = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${therapist.token}`)
+      .send(newSession('not-a-uuid'));
+
+    expect(inPath.statusCode).toBe(400);
+    expect(inBody.statusCode).toBe(400);
+  });
+});
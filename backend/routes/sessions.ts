@@ -0,0 +1,405 @@
+// backend/routes/sessions.ts
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import { authorizeResource } from '../middleware/ownership';
+import { getTherapistSessions, createSessionForPatient } from '../services/therapistService';
+import {
+  createSessionSeries,
+  updateSessionInScope,
+  deleteSessionInScope,
+  changeSessionStatusInScope,
+  SeriesScope
+} from '../services/sessionSeriesService';
+import { getPatientSessions, markExerciseComplete, addExerciseNotes } from '../services/patientService';
+import { DEFAULT_SESSION_MINUTES, findWorkingHoursWarnings } from '../services/schedulingService';
+import { rescheduleSession } from '../services/sessionStatusService';
+import { getSessionNote, saveDraftNote, signSessionNote, addNoteAddendum } from '../services/sessionNoteService';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+router.use(authenticateToken);
+router.param('sessionId', validateIdParam);
+router.param('exerciseId', validateIdParam);
+
+// LIST SESSIONS ENDPOINT
+// GET /api/sessions?limit=10
+// Therapists get their most recent sessions; patients get all of theirs
+router.get('/', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    if (req.user!.role === 'patient') {
+      const sessions = await getPatientSessions(req.user!.id);
+      return res.json({ success: true, data: { sessions } });
+    }
+
+    const limit = parseInt(req.query.limit as string) || 10;
+    const sessions = await getTherapistSessions(req.user!.id, Math.min(limit, 100));
+    return res.json({ success: true, data: { sessions } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching sessions');
+  }
+});
+
+// CREATE SESSION ENDPOINT
+// POST /api/sessions
+// Only patients who have accepted the therapist can be booked
+// Overlapping another session is refused; booking outside working hours comes back with warnings
+router.post('/', authorizeRole('therapist'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const { patient_id, session_date, session_time, session_type, duration_minutes, location } = req.body || {};
+
+    if (!patient_id || !session_date || !session_time || !session_type) {
+      return res.status(400).json({
+        success: false,
+        message: 'patient_id, session_date, session_time and session_type are required'
+      });
+    }
+
+    const session = await createSessionForPatient(patient_id, req.user!.id, {
+      session_date,
+      session_time,
+      session_type,
+      duration_minutes: duration_minutes ?? DEFAULT_SESSION_MINUTES,
+      location: location || null
+    });
+    const warnings = await findWorkingHoursWarnings(req.user!.id, [session]);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Session created successfully',
+      data: { session, warnings }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'creating session');
+  }
+});
+
+// CREATE SESSION SERIES ENDPOINT
+// POST /api/sessions/series
+// Books a weekly or fortnightly block: session_date is the first occurrence,
+// and either occurrences or until_date says when it ends
+router.post('/series', authorizeRole('therapist'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const {
+      patient_id,
+      session_date,
+      session_time,
+      session_type,
+      duration_minutes,
+      location,
+      frequency,
+      occurrences,
+      until_date,
+      skip_dates
+    } = req.body || {};
+
+    if (!patient_id || !session_date || !session_time || !session_type || !frequency) {
+      return res.status(400).json({
+        success: false,
+        message: 'patient_id, session_date, session_time, session_type and frequency are required'
+      });
+    }
+
+    const { series, sessions } = await createSessionSeries(patient_id, req.user!.id, {
+      session_date,
+      session_time,
+      session_type,
+      duration_minutes: duration_minutes ?? DEFAULT_SESSION_MINUTES,
+      location: location || null,
+      frequency,
+      occurrences,
+      until_date,
+      skip_dates
+    });
+
+    const warnings = await findWorkingHoursWarnings(req.user!.id, sessions);
+
+    return res.status(201).json({
+      success: true,
+      message: `${sessions.length} sessions booked`,
+      data: { series, sessions, warnings }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'creating session series');
+  }
+});
+
+// UPDATE SESSION ENDPOINT
+// PUT /api/sessions/:sessionId
+// scope: 'this' (default), 'following' or 'all' occurrences of the session's series
+router.put(
+  '/:sessionId',
+  authorizeRole('therapist'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { session_date, session_time, session_type, duration_minutes, location, scope } = req.body || {};
+
+      if (!session_date || !session_time || !session_type) {
+        return res.status(400).json({
+          success: false,
+          message: 'session_date, session_time and session_type are required'
+        });
+      }
+
+      const sessions = await updateSessionInScope(
+        req.params.sessionId as string,
+        {
+          session_date,
+          session_time,
+          session_type,
+          duration_minutes: duration_minutes ?? DEFAULT_SESSION_MINUTES,
+          location: location || null
+        },
+        (scope || 'this') as SeriesScope
+      );
+      const warnings = await findWorkingHoursWarnings(req.user!.id, sessions);
+
+      return res.json({
+        success: true,
+        message: sessions.length > 1 ? `${sessions.length} sessions updated` : 'Session updated successfully',
+        data: {
+          session: sessions.find(s => s.session_id === req.params.sessionId),
+          sessions,
+          warnings
+        }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'updating session');
+    }
+  }
+);
+
+// SESSION STATUS ENDPOINT
+// POST /api/sessions/:sessionId/status
+// Body: { status, reason?, scope? } - status is attended, no_show, cancelled_by_patient or cancelled_by_therapist
+// Cancellations can cover the 'following' or 'all' occurrences of the session's series
+router.post(
+  '/:sessionId/status',
+  authorizeRole('therapist'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { status, reason, scope } = req.body || {};
+
+      if (!status) {
+        return res.status(400).json({
+          success: false,
+          message: 'status is required'
+        });
+      }
+
+      const sessions = await changeSessionStatusInScope(
+        req.params.sessionId as string,
+        status,
+        reason,
+        (scope || 'this') as SeriesScope
+      );
+
+      return res.json({
+        success: true,
+        message: sessions.length > 1 ? `${sessions.length} sessions updated` : 'Session status updated',
+        data: { sessions }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'updating session status');
+    }
+  }
+);
+
+// RESCHEDULE SESSION ENDPOINT
+// POST /api/sessions/:sessionId/reschedule
+// Body: { session_date, session_time, reason? } - books a replacement and marks this session rescheduled
+router.post(
+  '/:sessionId/reschedule',
+  authorizeRole('therapist'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { session_date, session_time, reason } = req.body || {};
+
+      if (!session_date || !session_time) {
+        return res.status(400).json({
+          success: false,
+          message: 'session_date and session_time are required'
+        });
+      }
+
+      const { session, replacement } = await rescheduleSession(
+        req.params.sessionId as string,
+        { session_date, session_time },
+        reason
+      );
+      const warnings = await findWorkingHoursWarnings(req.user!.id, [replacement]);
+
+      return res.status(201).json({
+        success: true,
+        message: 'Session rescheduled',
+        data: { session, replacement, warnings }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'rescheduling session');
+    }
+  }
+);
+
+// DELETE SESSION ENDPOINT
+// DELETE /api/sessions/:sessionId?scope=following
+// scope: 'this' (default), 'following' or 'all' occurrences of the session's series
+// Removes sessions booked by mistake; sessions that aren't going ahead should be cancelled instead
+router.delete(
+  '/:sessionId',
+  authorizeRole('therapist'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const scope = ((req.query.scope as string) || 'this') as SeriesScope;
+      const deleted = await deleteSessionInScope(req.params.sessionId as string, scope);
+      return res.json({
+        success: true,
+        message: deleted > 1 ? `${deleted} sessions deleted` : 'Session deleted successfully'
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'deleting session');
+    }
+  }
+);
+
+// SESSION NOTE ENDPOINT
+// GET /api/sessions/:sessionId/note
+// The session's SOAP note with its addenda, or null if none has been started
+router.get(
+  '/:sessionId/note',
+  authorizeRole('therapist'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const note = await getSessionNote(req.params.sessionId as string);
+      return res.json({ success: true, data: { note } });
+    } catch (error) {
+      return sendServiceError(res, error, 'fetching session note');
+    }
+  }
+);
+
+// SAVE NOTE DRAFT ENDPOINT
+// PUT /api/sessions/:sessionId/note
+// Body: { subjective?, objective?, assessment?, plan?, tags? } - starts the draft or replaces it
+// Signed notes can't be changed; add an addendum instead
+router.put(
+  '/:sessionId/note',
+  authorizeRole('therapist'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { note, created } = await saveDraftNote(req.params.sessionId as string, req.user!.id, req.body || {});
+      return res.status(created ? 201 : 200).json({
+        success: true,
+        message: 'Note saved',
+        data: { note }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'saving session note');
+    }
+  }
+);
+
+// SIGN NOTE ENDPOINT
+// POST /api/sessions/:sessionId/note/sign
+router.post(
+  '/:sessionId/note/sign',
+  authorizeRole('therapist'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const note = await signSessionNote(req.params.sessionId as string, req.user!.id);
+      return res.json({
+        success: true,
+        message: 'Note signed',
+        data: { note }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'signing session note');
+    }
+  }
+);
+
+// NOTE ADDENDUM ENDPOINT
+// POST /api/sessions/:sessionId/note/addenda
+// Body: { content } - a dated addition to a signed note
+router.post(
+  '/:sessionId/note/addenda',
+  authorizeRole('therapist'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { content } = req.body || {};
+      const addendum = await addNoteAddendum(req.params.sessionId as string, req.user!.id, content);
+      return res.status(201).json({
+        success: true,
+        message: 'Addendum added',
+        data: { addendum }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'adding note addendum');
+    }
+  }
+);
+
+// COMPLETE SESSION EXERCISE ENDPOINT
+// POST /api/sessions/:sessionId/exercises/:exerciseId/complete
+router.post(
+  '/:sessionId/exercises/:exerciseId/complete',
+  authorizeRole('patient'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const sessionExercise = await markExerciseComplete(
+        req.params.sessionId as string,
+        req.params.exerciseId as string
+      );
+      return res.json({
+        success: true,
+        message: 'Exercise marked as complete',
+        data: { sessionExercise }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'completing exercise');
+    }
+  }
+);
+
+// SESSION EXERCISE NOTES ENDPOINT
+// PUT /api/sessions/:sessionId/exercises/:exerciseId/notes
+router.put(
+  '/:sessionId/exercises/:exerciseId/notes',
+  authorizeRole('patient'),
+  authorizeResource('session', 'sessionId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const { notes } = req.body || {};
+
+      if (typeof notes !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'Notes are required'
+        });
+      }
+
+      const sessionExercise = await addExerciseNotes(
+        req.params.sessionId as string,
+        req.params.exerciseId as string,
+        notes
+      );
+      return res.json({
+        success: true,
+        message: 'Notes saved',
+        data: { sessionExercise }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'saving exercise notes');
+    }
+  }
+);
+
+export default router;
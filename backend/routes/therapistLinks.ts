@@ -0,0 +1,86 @@
+// backend/routes/therapistLinks.ts
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import {
+  requestPatientLink,
+  getTherapistLinkRequests,
+  respondToTherapistLinkRequest
+} from '../services/therapistLinkService';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+router.use(authenticateToken);
+router.param('requestId', validateIdParam);
+
+// CREATE REQUEST ENDPOINT
+// POST /api/therapist-links/requests
+// Body: { patient_email } - the therapist asks to take the patient on; sessions can be booked once they accept
+router.post('/requests', authorizeRole('therapist'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const { patient_email } = req.body || {};
+
+    if (!patient_email) {
+      return res.status(400).json({
+        success: false,
+        message: 'patient_email is required'
+      });
+    }
+
+    const request = await requestPatientLink(req.user!.id, patient_email);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Request sent. The patient needs to accept it.',
+      data: { request }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'creating request');
+  }
+});
+
+// LIST REQUESTS ENDPOINT
+// GET /api/therapist-links/requests
+// Therapists get the requests they sent; patients get the ones waiting for their answer
+router.get('/requests', authorizeRole('therapist', 'patient'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const requests = await getTherapistLinkRequests(req.user!);
+    return res.json({ success: true, data: { requests } });
+  } catch (error) {
+    return sendServiceError(res, error, 'fetching requests');
+  }
+});
+
+// ACCEPT REQUEST ENDPOINT
+// POST /api/therapist-links/requests/:requestId/accept
+router.post('/requests/:requestId/accept', authorizeRole('patient'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const request = await respondToTherapistLinkRequest(req.user!, req.params.requestId as string, true);
+
+    return res.json({
+      success: true,
+      message: 'Therapist linked to the patient',
+      data: { request }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'accepting request');
+  }
+});
+
+// DECLINE REQUEST ENDPOINT
+// POST /api/therapist-links/requests/:requestId/decline
+router.post('/requests/:requestId/decline', authorizeRole('patient'), async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const request = await respondToTherapistLinkRequest(req.user!, req.params.requestId as string, false);
+
+    return res.json({
+      success: true,
+      message: 'Request declined',
+      data: { request }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'declining request');
+  }
+});
+
+export default router;
@@ -0,0 +1,137 @@
+import request from 'supertest';
+import pool from '../db';
+import app from '../app';
+import { runMigrations } from '../migrate';
+import { createTestUser, linkTherapist, resetDatabase, TestUser } from '../test-utils/fixtures';
+
+// Swap the real connection pool for the test database
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: require('../test-utils/testDb').createTestPool()
+}));
+
+let therapist: TestUser;
+let patient: TestUser;
+
+const bearer = (user: TestUser) => ({ Authorization: `Bearer ${user.token}` });
+
+const bookSession = (owner: TestUser) => request(app).post('/api/sessions').set(bearer(owner)).send({
+  patient_id: patient.user.id,
+  session_date: '2026-03-02',
+  session_time: '10:00',
+  session_type: 'Initial Assessment'
+});
+
+const setGoal = async (owner: TestUser = therapist) => {
+  const res = await request(app).post('/api/goals').set(bearer(owner)).send({
+    patient_id: patient.user.id,
+    goal_description: 'Use /s/ in short phrases',
+    start_date: '2026-03-02',
+    target_date: '2026-04-02'
+  });
+  return res.body.data.goal as { goal_id: string; plan_id: string };
+};
+
+const closePlan = (planId: string, owner: TestUser = therapist) =>
+  request(app).post(`/api/treatment-plans/${planId}/close`).set(bearer(owner));
+
+beforeAll(async () => {
+  await runMigrations(pool);
+});
+
+beforeEach(async () => {
+  await resetDatabase(pool);
+  therapist = await createTestUser('therapist', 'therapist1');
+  patient = await createTestUser('patient', 'patient1');
+  await linkTherapist(therapist, patient);
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe('POST /api/treatment-plans', () => {
+  const openPlan = () => request(app).post('/api/treatment-plans').set(bearer(therapist)).send({ patient_id: patient.user.id });
+
+  it('opens one plan per therapist and patient, which their goals go into', async () => {
+    await bookSession(therapist);
+
+    const opened = await openPlan();
+    const again = await openPlan();
+    const goal = await setGoal();
+
+    expect(opened.statusCode).toBe(201);
+    expect(opened.body.data.plan).toMatchObject({ patient_id: patient.user.id, therapist_id: therapist.user.id, status: 'active' });
+    expect(again.statusCode).toBe(200);
+    expect(again.body.data.plan.plan_id).toBe(opened.body.data.plan.plan_id);
+    expect(goal.plan_id).toBe(opened.body.data.plan.plan_id);
+  });
+
+  it('opens a single plan when two requests arrive at once', async () => {
+    const [first, second] = await Promise.all([openPlan(), openPlan()]);
+
+    expect([first.statusCode, second.statusCode].sort()).toEqual([200, 201]);
+    expect(second.body.data.plan.plan_id).toBe(first.body.data.plan.plan_id);
+    const { rows } = await pool.query("SELECT plan_id FROM treatment_plan WHERE status = 'active'");
+    expect(rows).toHaveLength(1);
+  });
+
+  it('needs a patient who has accepted the therapist', async () => {
+    const stranger = await createTestUser('therapist', 'therapist2');
+    const res = await request(app).post('/api/treatment-plans').set(bearer(stranger)).send({ patient_id: patient.user.id });
+
+    expect(res.statusCode).toBe(403);
+  });
+});
+
+describe('POST /api/treatment-plans/:planId/close', () => {
+  beforeEach(async () => {
+    await bookSession(therapist);
+  });
+
+  it('waits for the plan\'s goals to be finished, and the next goal opens a new plan', async () => {
+    const goal = await setGoal();
+
+    const early = await closePlan(goal.plan_id);
+    await request(app).post(`/api/goals/${goal.goal_id}/status`).set(bearer(therapist)).send({ status: 'achieved' });
+    const closed = await closePlan(goal.plan_id);
+    const twice = await closePlan(goal.plan_id);
+    const next = await setGoal();
+
+    expect(early.statusCode).toBe(409);
+    expect(closed.statusCode).toBe(200);
+    expect(closed.body.data.plan).toMatchObject({ status: 'closed', closed_on: expect.any(String) });
+    expect(twice.statusCode).toBe(409);
+    expect(next.plan_id).not.toBe(goal.plan_id);
+  });
+
+  it('is left to the therapist running the plan', async () => {
+    const colleague = await createTestUser('therapist', 'therapist2');
+    await linkTherapist(colleague, patient);
+    await bookSession(colleague);
+    const goal = await setGoal();
+    await request(app).post(`/api/goals/${goal.goal_id}/status`).set(bearer(therapist)).send({ status: 'achieved' });
+
+    const res = await closePlan(goal.plan_id, colleague);
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body.message).toBe('Only the therapist running this treatment plan can close it');
+  });
+});
+
+describe('GET /api/patients/:patientId/treatment-plans', () => {
+  it('lists the patient\'s plans with each of their therapists, newest first', async () => {
+    const colleague = await createTestUser('therapist', 'therapist2');
+    await linkTherapist(colleague, patient);
+    await bookSession(therapist);
+    await bookSession(colleague);
+    await setGoal(therapist);
+    await setGoal(colleague);
+
+    const res = await request(app).get('/api/patients/me/treatment-plans').set(bearer(patient));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.plans).toHaveLength(2);
+    expect(res.body.data.plans.map((plan: any) => plan.therapist.first_name).sort()).toEqual(['therapist1', 'therapist2']);
+  });
+});
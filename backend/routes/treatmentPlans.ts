@@ -0,0 +1,63 @@
+// backend/routes/treatmentPlans.ts
+import express, { Response, Router } from 'express';
+import { authenticateToken, authorizeRole, AuthRequest } from '../middleware/auth';
+import { authorizeResource } from '../middleware/ownership';
+import { openTreatmentPlan, closeTreatmentPlan } from '../services/treatmentPlanService';
+import { assertCanAccessPatient } from '../services/accessPolicy';
+import { sendServiceError, validateIdParam } from './respond';
+
+const router: Router = express.Router();
+
+// Treatment plans are run by therapists; patients and carers read them through /api/patients/:patientId
+router.use(authenticateToken, authorizeRole('therapist'));
+router.param('planId', validateIdParam);
+
+// OPEN TREATMENT PLAN ENDPOINT
+// POST /api/treatment-plans
+// Body: { patient_id } - the therapist's active plan with the patient, opened from today if there isn't one
+// Goals open the plan themselves, so this is only needed to start a plan before its first goal
+router.post('/', async (req: AuthRequest, res: Response): Promise<any> => {
+  try {
+    const { patient_id } = req.body || {};
+
+    if (!patient_id) {
+      return res.status(400).json({
+        success: false,
+        message: 'patient_id is required'
+      });
+    }
+
+    await assertCanAccessPatient(req.user!, patient_id);
+    const { plan, opened } = await openTreatmentPlan(req.user!.id, patient_id);
+
+    return res.status(opened ? 201 : 200).json({
+      success: true,
+      message: opened ? 'Treatment plan opened' : 'Treatment plan already open',
+      data: { plan }
+    });
+  } catch (error) {
+    return sendServiceError(res, error, 'opening treatment plan');
+  }
+});
+
+// CLOSE TREATMENT PLAN ENDPOINT
+// POST /api/treatment-plans/:planId/close
+// Ends the episode of care once none of its goals are still in progress; its goals stay on record
+router.post(
+  '/:planId/close',
+  authorizeResource('treatmentPlan', 'planId'),
+  async (req: AuthRequest, res: Response): Promise<any> => {
+    try {
+      const plan = await closeTreatmentPlan(req.params.planId as string, req.user!.id);
+      return res.json({
+        success: true,
+        message: 'Treatment plan closed',
+        data: { plan }
+      });
+    } catch (error) {
+      return sendServiceError(res, error, 'closing treatment plan');
+    }
+  }
+);
+
+export default router;
@@ -1,5 +1,5 @@
 const request = require("supertest");
-const app = require("./app");
+const app = require("./app").default;
 
 describe("GET /api/health", () => {
   it("should return status ok and a message", async () => {
@@ -0,0 +1,135 @@
+// backend/services/accessPolicy.ts
+// Resource ownership rules for the domain API, on top of the coarse role checks in authorizeRole
+import {
+  isTherapistLinkedToPatient,
+  isCarerLinkedToPatient,
+  findPatientIdForSession,
+  findPatientIdForTreatmentPlan,
+  findPatientIdForGoal,
+  findPatientIdForGoalExerciseRow,
+  findPatientIdForJournalEntry,
+  findPatientIdForRecording,
+  findExerciseOwnerId,
+  findExerciseSharing,
+  findGoalTemplateSharing,
+  findClinicName
+} from '../repositories/accessRepository';
+import { ForbiddenError, NotFoundError } from './errors';
+import { assertId } from './validation';
+
+// The logged-in user making the request (req.user)
+export interface Actor {
+  id: string;
+  role: string;
+}
+
+// Records whose access depends on the patient they belong to
+export type PatientResource = 'session' | 'treatmentPlan' | 'goal' | 'goalExerciseRow' | 'journalEntry' | 'recording';
+
+const RESOURCE_LOOKUPS: Record<PatientResource, { find: (id: string) => Promise<string | null>; label: string }> = {
+  session: { find: findPatientIdForSession, label: 'Session' },
+  treatmentPlan: { find: findPatientIdForTreatmentPlan, label: 'Treatment plan' },
+  goal: { find: findPatientIdForGoal, label: 'Goal' },
+  goalExerciseRow: { find: findPatientIdForGoalExerciseRow, label: 'Exercise row' },
+  journalEntry: { find: findPatientIdForJournalEntry, label: 'Journal entry' },
+  recording: { find: findPatientIdForRecording, label: 'Recording' }
+};
+
+/**
+ * A patient can only reach their own records
+ * A therapist can reach a patient's records once the patient has accepted them
+ * A parent/carer can reach them once their invitation to the patient was accepted
+ */
+export const assertCanAccessPatient = async (actor: Actor, patientId: string): Promise<void> => {
+  if (actor.role === 'patient' && actor.id === patientId) return;
+  if (actor.role === 'therapist' && (await isTherapistLinkedToPatient(actor.id, patientId))) return;
+  if (actor.role === 'parent_carer' && (await isCarerLinkedToPatient(actor.id, patientId))) return;
+  throw new ForbiddenError();
+};
+
+// Only a therapist the patient has accepted can book sessions with them
+export const assertCanBookPatient = async (therapistId: string, patientId: string): Promise<void> => {
+  if (!(await isTherapistLinkedToPatient(therapistId, patientId))) {
+    throw new ForbiddenError('This patient has not accepted you as their therapist yet');
+  }
+};
+
+// Carer invitations are answered by the patient themselves or one of their therapists, never by another carer
+export const assertCanApproveCarerFor = async (actor: Actor, patientId: string): Promise<void> => {
+  if (actor.role === 'parent_carer') {
+    throw new ForbiddenError();
+  }
+  await assertCanAccessPatient(actor, patientId);
+};
+
+// 404 if the record does not exist, 403 if it belongs to a patient the actor cannot reach
+export const assertCanAccessResource = async (
+  actor: Actor,
+  resource: PatientResource,
+  id: string
+): Promise<void> => {
+  const { find, label } = RESOURCE_LOOKUPS[resource];
+  assertId(id, `${label} id`);
+
+  const patientId = await find(id);
+  if (!patientId) {
+    throw new NotFoundError(`${label} not found`);
+  }
+  await assertCanAccessPatient(actor, patientId);
+};
+
+// Exercises live in one therapist's library; only that therapist can change, share or delete them
+export const assertOwnsExercise = async (actor: Actor, exerciseId: string): Promise<void> => {
+  assertId(exerciseId, 'Exercise id');
+
+  const ownerId = await findExerciseOwnerId(exerciseId);
+  if (!ownerId) {
+    throw new NotFoundError('Exercise not found');
+  }
+  if (ownerId !== actor.id) {
+    throw new ForbiddenError();
+  }
+};
+
+// Names match whatever their capitalisation, so "Northside Clinic" and "northside clinic" are one clinic
+const sameClinic = (a: string | null, b: string | null): boolean => {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+};
+
+// Exercises can be used (assigned, copied) by their owner, and by colleagues at the owner's clinic once shared
+export const assertCanUseExercise = async (actor: Actor, exerciseId: string): Promise<void> => {
+  assertId(exerciseId, 'Exercise id');
+
+  const sharing = await findExerciseSharing(exerciseId);
+  if (!sharing) {
+    throw new NotFoundError('Exercise not found');
+  }
+  if (sharing.created_by === actor.id) return;
+  if (sharing.is_shared && sameClinic(sharing.clinic_name, await findClinicName(actor.id))) return;
+  throw new ForbiddenError();
+};
+
+// Goal templates follow the same rules as exercises: owners manage them, and shared ones can be used across the clinic
+export const assertOwnsGoalTemplate = async (actor: Actor, templateId: string): Promise<void> => {
+  assertId(templateId, 'Goal template id');
+
+  const sharing = await findGoalTemplateSharing(templateId);
+  if (!sharing) {
+    throw new NotFoundError('Goal template not found');
+  }
+  if (sharing.created_by !== actor.id) {
+    throw new ForbiddenError();
+  }
+};
+
+export const assertCanUseGoalTemplate = async (actor: Actor, templateId: string): Promise<void> => {
+  assertId(templateId, 'Goal template id');
+
+  const sharing = await findGoalTemplateSharing(templateId);
+  if (!sharing) {
+    throw new NotFoundError('Goal template not found');
+  }
+  if (sharing.created_by === actor.id) return;
+  if (sharing.is_shared && sameClinic(sharing.clinic_name, await findClinicName(actor.id))) return;
+  throw new ForbiddenError();
+};
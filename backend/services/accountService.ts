@@ -0,0 +1,93 @@
+// backend/services/accountService.ts
+import bcrypt from 'bcryptjs';
+import {
+  findUserByEmail,
+  updateUserPassword,
+  markUserEmailVerified,
+  User
+} from '../repositories/userRepository';
+import { createUserToken, consumeUserToken } from '../repositories/userTokenRepository';
+import { revokeAllAuthSessionsForUser } from '../repositories/authSessionRepository';
+import { generateOpaqueToken, hashToken } from './tokenService';
+import { sendMail } from './mailer';
+
+// Base URL of the frontend, used to build the links in emails
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48');
+
+// When true, unverified accounts cannot log in
+export const isEmailVerificationRequired = (): boolean => {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+};
+
+/**
+ * Emails the user a link to confirm their address
+ * Called after registration; therapists rely on this address to find and link patients
+ */
+export const sendVerificationEmail = async (user: User): Promise<void> => {
+  const token = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+  await createUserToken(user.id, 'email_verification', hashToken(token), expiresAt);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your OwnUrVoice email address',
+    text:
+      `Hi ${user.firstName},\n\n` +
+      `Please confirm your email address by opening the link below:\n` +
+      `${APP_URL}/verify-email?token=${token}\n\n` +
+      `This link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.`
+  });
+};
+
+/**
+ * Starts a password reset for the account with this email, if there is one
+ * Resolves the same way whether or not the email exists, so callers cannot probe for accounts
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await findUserByEmail(email);
+  if (!user) return;
+
+  const token = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+  await createUserToken(user.id, 'password_reset', hashToken(token), expiresAt);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your OwnUrVoice password',
+    text:
+      `Hi ${user.firstName},\n\n` +
+      `We received a request to reset your password. Open the link below to choose a new one:\n` +
+      `${APP_URL}/reset-password?token=${token}\n\n` +
+      `This link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for this, you can ignore this email.`
+  });
+};
+
+/**
+ * Sets a new password using an emailed reset token
+ * Every existing session is signed out, since the old password may have been compromised
+ * Returns false if the token is invalid, expired or already used
+ */
+export const resetPassword = async (token: string, newPassword: string): Promise<boolean> => {
+  const userId = await consumeUserToken(hashToken(token), 'password_reset');
+  if (!userId) return false;
+
+  const passwordHash = await bcrypt.hash(newPassword, 10);
+  await updateUserPassword(userId, passwordHash);
+  await revokeAllAuthSessionsForUser(userId, 'password_reset');
+
+  // Following the emailed link proves the user owns the address
+  await markUserEmailVerified(userId);
+  return true;
+};
+
+// Returns false if the token is invalid, expired or already used
+export const verifyEmail = async (token: string): Promise<boolean> => {
+  const userId = await consumeUserToken(hashToken(token), 'email_verification');
+  if (!userId) return false;
+
+  await markUserEmailVerified(userId);
+  return true;
+};
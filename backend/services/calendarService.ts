@@ -0,0 +1,205 @@
+// backend/services/calendarService.ts
+// iCalendar (.ics) export of a user's sessions and the private feed links calendar apps subscribe to
+import * as sessions from '../repositories/sessionRepository';
+import * as calendar from '../repositories/calendarRepository';
+import { Session } from '../repositories/sessionRepository';
+import { CancelledSession } from '../repositories/calendarRepository';
+import { generateOpaqueToken, hashToken } from './tokenService';
+import { NotFoundError } from './errors';
+import { RELEASED_STATUSES, SessionStatus } from './sessionStatusService';
+
+// Where calendar apps fetch feeds from - the API itself, not the React app
+const API_URL = process.env.API_URL || 'http://localhost:5000';
+
+const CALENDAR_NAME = 'OwnUrVoice sessions';
+const PRODUCT_ID = '-//OwnUrVoice//Therapy Sessions//EN';
+
+// Lines longer than this many bytes are folded onto continuation lines (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// One session as a calendar event; uid stays the same for the life of the session
+export interface CalendarEvent {
+  uid: string;
+  session_date: string;
+  session_time: string;
+  duration_minutes: number;
+  summary: string;
+  location: string | null;
+  sequence: number;
+  last_modified: Date;
+  cancelled: boolean;
+}
+
+export interface CalendarFeedStatus {
+  active: boolean;
+  created_at: Date | null;
+}
+
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Splits a long line into a first line and continuation lines that start with a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one byte to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatUtc = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Session dates and times are clinic-local, so they are sent as floating times with no time zone
+const formatLocal = (date: string, time: string, addMinutes: number = 0): string => {
+  const result = new Date(`${date}T${time.substring(0, 5)}:00Z`);
+  result.setUTCMinutes(result.getUTCMinutes() + addMinutes);
+  return formatUtc(result).replace('Z', '');
+};
+
+/**
+ * Builds an iCalendar document from a list of events
+ * Cancelled events are kept with STATUS:CANCELLED so subscribed calendars remove them
+ */
+export const buildCalendar = (events: CalendarEvent[], now: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${CALENDAR_NAME}`
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `LAST-MODIFIED:${formatUtc(event.last_modified)}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTART:${formatLocal(event.session_date, event.session_time)}`,
+      `DTEND:${formatLocal(event.session_date, event.session_time, event.duration_minutes)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const sessionUid = (sessionId: string): string => `${sessionId}@ownurvoice`;
+
+// The title names the other person: the therapist for a patient, the patient for a therapist
+const sessionSummary = (
+  sessionType: string,
+  userId: string,
+  patientId: string,
+  patientName: string,
+  therapistName: string
+): string => {
+  return `${sessionType} with ${userId === patientId ? therapistName : patientName}`;
+};
+
+const fromSession = (userId: string, session: Session): CalendarEvent => ({
+  uid: sessionUid(session.session_id),
+  session_date: session.session_date,
+  session_time: session.session_time,
+  duration_minutes: session.duration_minutes,
+  summary: sessionSummary(
+    session.session_type,
+    userId,
+    session.patient_id,
+    `${session.patient!.first_name} ${session.patient!.last_name}`,
+    `${session.therapist!.first_name} ${session.therapist!.last_name}`
+  ),
+  location: session.location,
+  sequence: session.revision,
+  last_modified: session.updated_at,
+  // A rescheduled session's replacement is an event of its own
+  cancelled: RELEASED_STATUSES.includes(session.status as SessionStatus)
+});
+
+const fromCancelled = (userId: string, session: CancelledSession): CalendarEvent => ({
+  uid: sessionUid(session.session_id),
+  session_date: session.session_date,
+  session_time: session.session_time,
+  duration_minutes: session.duration_minutes,
+  summary: sessionSummary(session.session_type, userId, session.patient_id, session.patient_name, session.therapist_name),
+  location: session.location,
+  sequence: session.revision,
+  last_modified: session.cancelled_at,
+  cancelled: true
+});
+
+/**
+ * The user's sessions as an .ics file, including the ones that have been deleted
+ */
+export const getSessionCalendar = async (userId: string): Promise<string> => {
+  const [current, cancelled] = await Promise.all([
+    sessions.findCalendarSessions(userId),
+    calendar.findCancelledSessions(userId)
+  ]);
+
+  return buildCalendar([
+    ...current.map(session => fromSession(userId, session)),
+    ...cancelled.map(session => fromCancelled(userId, session))
+  ]);
+};
+
+const feedUrl = (token: string): string => `${API_URL}/api/calendar/feed/${token}.ics`;
+
+export const getCalendarFeedStatus = async (userId: string): Promise<CalendarFeedStatus> => {
+  const feed = await calendar.findFeedByUser(userId);
+  return { active: !!feed, created_at: feed ? feed.created_at : null };
+};
+
+/**
+ * Creates the user's private feed link, replacing any earlier one
+ * The link is only returned here - afterwards just its hash is stored - so a lost link has to be replaced
+ */
+export const createCalendarFeed = async (userId: string): Promise<string> => {
+  const token = generateOpaqueToken();
+  await calendar.saveFeedToken(userId, hashToken(token));
+  return feedUrl(token);
+};
+
+export const deleteCalendarFeed = async (userId: string): Promise<void> => {
+  await calendar.deleteFeed(userId);
+};
+
+/**
+ * The .ics served to calendar apps for a feed link
+ * Unknown and replaced tokens get the same NotFoundError, so links can't be probed
+ */
+export const getFeedCalendar = async (token: string): Promise<string> => {
+  const feed = await calendar.findFeedByTokenHash(hashToken(token));
+  if (!feed) {
+    throw new NotFoundError('Calendar feed not found');
+  }
+  return getSessionCalendar(feed.user_id);
+};
@@ -0,0 +1,66 @@
+// backend/services/carerService.ts
+// Linking parents/carers to a patient: the carer asks, the patient or a therapist answers
+import * as patients from '../repositories/patientRepository';
+import * as carers from '../repositories/carerRepository';
+import { Patient } from '../repositories/patientRepository';
+import { CarerInvitation } from '../repositories/carerRepository';
+import { isCarerLinkedToPatient } from '../repositories/accessRepository';
+import { Actor, assertCanApproveCarerFor } from './accessPolicy';
+import { ConflictError, NotFoundError } from './errors';
+import { assertId } from './validation';
+
+// The children the carer is linked to
+export const getCarerPatients = async (carerId: string): Promise<Patient[]> => {
+  return patients.findPatientsByCarer(carerId);
+};
+
+// Starts a link request to the patient with this email address
+export const inviteCarerToPatient = async (carerId: string, patientEmail: string): Promise<CarerInvitation> => {
+  const patient = await patients.findPatientByEmail(patientEmail);
+  if (!patient) {
+    throw new NotFoundError('No patient found with this email');
+  }
+  if (await isCarerLinkedToPatient(carerId, patient.user_id)) {
+    throw new ConflictError('You are already linked to this patient');
+  }
+  if (await carers.findPendingInvitation(carerId, patient.user_id)) {
+    throw new ConflictError('A request to this patient is already waiting for an answer');
+  }
+
+  return carers.createInvitation(carerId, patient.user_id);
+};
+
+/**
+ * Carers see every request they have sent
+ * Patients and therapists see the requests still waiting for their answer
+ */
+export const getCarerInvitations = async (actor: Actor): Promise<CarerInvitation[]> => {
+  if (actor.role === 'parent_carer') return carers.findInvitationsByCarer(actor.id);
+  if (actor.role === 'therapist') return carers.findPendingInvitationsForTherapist(actor.id);
+  return carers.findPendingInvitationsForPatient(actor.id);
+};
+
+// Accepting links the carer to the patient; an invitation can only be answered once
+export const respondToCarerInvitation = async (
+  actor: Actor,
+  invitationId: string,
+  accept: boolean
+): Promise<CarerInvitation> => {
+  assertId(invitationId, 'Invitation id');
+
+  const invitation = await carers.findInvitationById(invitationId);
+  if (!invitation) {
+    throw new NotFoundError('Invitation not found');
+  }
+  await assertCanApproveCarerFor(actor, invitation.patient_id);
+
+  const answered = await carers.respondToInvitation(invitationId, accept ? 'accepted' : 'declined', actor.id);
+  if (!answered) {
+    throw new ConflictError('This invitation has already been answered');
+  }
+
+  if (accept) {
+    await carers.createCarerLink(answered.carer_id, answered.patient_id);
+  }
+  return answered;
+};
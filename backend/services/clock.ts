@@ -0,0 +1,12 @@
+// backend/services/clock.ts
+// Session dates and times are the clinic's wall-clock time, so "now" and "today" are read from the local clock too
+// toISOString() would give the UTC date, which is a day out around midnight outside UTC
+
+export const localNow = (): { today: string; nowMinutes: number } => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return { today: `${now.getFullYear()}-${month}-${day}`, nowMinutes: now.getHours() * 60 + now.getMinutes() };
+};
+
+export const localToday = (): string => localNow().today;
@@ -0,0 +1,41 @@
+// backend/services/errors.ts
+
+// Errors thrown by the domain services; the message is safe to send to the client
+// Routes turn them into responses with sendServiceError (routes/respond.ts)
+export class ServiceError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
+
+// Missing or malformed input
+export class ValidationError extends ServiceError {
+  constructor(message: string) {
+    super(400, message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends ServiceError {
+  constructor(message: string) {
+    super(404, message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// The request is valid but clashes with existing data
+export class ConflictError extends ServiceError {
+  constructor(message: string) {
+    super(409, message);
+    this.name = 'ConflictError';
+  }
+}
+
+// The user is logged in but not allowed to touch this record
+export class ForbiddenError extends ServiceError {
+  constructor(message: string = 'Access denied. Insufficient permissions.') {
+    super(403, message);
+    this.name = 'ForbiddenError';
+  }
+}
@@ -0,0 +1,241 @@
+// backend/services/exerciseContentService.ts
+// The instructions, example media and practice prompts a patient sees when they open an exercise
+import { randomUUID } from 'crypto';
+import * as content from '../repositories/exerciseContentRepository';
+import { ExerciseMedia, ExercisePrompt, MediaKind, PromptInput } from '../repositories/exerciseContentRepository';
+import { findGoalExerciseRowById } from '../repositories/exerciseRepository';
+import { saveMedia, readMedia, removeMedia } from './mediaStorage';
+import { NotFoundError, ValidationError } from './errors';
+import { assertId } from './validation';
+
+// Formats every browser we support can play or show
+const MEDIA_TYPES: Record<string, { kind: MediaKind; extension: string }> = {
+  'audio/mpeg': { kind: 'audio', extension: 'mp3' },
+  'audio/mp4': { kind: 'audio', extension: 'm4a' },
+  'audio/wav': { kind: 'audio', extension: 'wav' },
+  'audio/webm': { kind: 'audio', extension: 'webm' },
+  'audio/ogg': { kind: 'audio', extension: 'ogg' },
+  'video/mp4': { kind: 'video', extension: 'mp4' },
+  'video/webm': { kind: 'video', extension: 'webm' },
+  'image/jpeg': { kind: 'image', extension: 'jpg' },
+  'image/png': { kind: 'image', extension: 'png' },
+  'image/gif': { kind: 'image', extension: 'gif' },
+  'image/webp': { kind: 'image', extension: 'webp' }
+};
+
+export const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+
+const MAX_STEPS = 20;
+const MAX_PROMPTS = 100;
+const MAX_TEXT_LENGTH = 500;
+const MAX_CAPTION_LENGTH = 200;
+
+// Everything attached to an exercise, in the order the patient sees it
+export interface ExerciseContent {
+  steps: string[];
+  prompts: ExercisePrompt[];
+  media: ExerciseMedia[];
+}
+
+// The exercise's content as practice mode shows it for one scheduled practice
+export interface RowPractice extends ExerciseContent {
+  row_id: string;
+  exercise_id: string;
+  attempted_prompt_ids: string[];
+}
+
+// Media files sit together under the exercise they belong to
+const mediaKey = (exerciseId: string, extension: string): string => {
+  return `exercise-media/${exerciseId}/${randomUUID()}.${extension}`;
+};
+
+// Trimmed, non-empty and not too long; field says which step or prompt was wrong
+const cleanText = (value: unknown, field: string): string => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) {
+    throw new ValidationError(`${field} must be non-empty text`);
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new ValidationError(`${field} can be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  return text;
+};
+
+const findRowExerciseId = async (rowId: string): Promise<string> => {
+  const row = await findGoalExerciseRowById(rowId);
+  if (!row) {
+    throw new NotFoundError('Exercise row not found');
+  }
+  return row.exercise_id;
+};
+
+// The media must belong to the exercise it was asked for through
+const findExerciseMedia = async (exerciseId: string, mediaId: string): Promise<ExerciseMedia> => {
+  assertId(mediaId, 'Media id');
+  const media = await content.findMediaById(mediaId);
+  if (!media || media.exercise_id !== exerciseId) {
+    throw new NotFoundError('Media not found');
+  }
+  return media;
+};
+
+export const getExerciseContent = async (exerciseId: string): Promise<ExerciseContent> => {
+  const [steps, prompts, media] = await Promise.all([
+    content.findSteps(exerciseId),
+    content.findPrompts(exerciseId),
+    content.findMedia(exerciseId)
+  ]);
+  return { steps, prompts, media };
+};
+
+/**
+ * Replaces the exercise's steps and prompts with the lists given, in their order
+ * Existing prompts are sent back with their prompt_id so patients' attempts at them are kept
+ * input is the request body: { steps: string[], prompts: [{ prompt_id?, text }] }
+ */
+export const updateExerciseContent = async (exerciseId: string, input: any): Promise<ExerciseContent> => {
+  const { steps, prompts } = input || {};
+  if (!Array.isArray(steps) || !Array.isArray(prompts)) {
+    throw new ValidationError('steps and prompts must both be lists');
+  }
+  if (steps.length > MAX_STEPS) {
+    throw new ValidationError(`An exercise can have at most ${MAX_STEPS} steps`);
+  }
+  if (prompts.length > MAX_PROMPTS) {
+    throw new ValidationError(`An exercise can have at most ${MAX_PROMPTS} prompts`);
+  }
+
+  const cleanSteps = steps.map((step, i) => cleanText(step, `Step ${i + 1}`));
+
+  const existingIds = new Set((await content.findPrompts(exerciseId)).map(prompt => prompt.prompt_id));
+  const cleanPrompts: PromptInput[] = prompts.map((prompt, i) => {
+    const promptId = prompt?.prompt_id;
+    if (promptId !== undefined && promptId !== null && !existingIds.has(promptId)) {
+      throw new ValidationError(`Prompt ${i + 1} is not one of this exercise's prompts`);
+    }
+    return { prompt_id: promptId || undefined, text: cleanText(prompt?.text, `Prompt ${i + 1}`) };
+  });
+  if (new Set(cleanPrompts.map(prompt => prompt.prompt_id).filter(Boolean)).size !==
+    cleanPrompts.filter(prompt => prompt.prompt_id).length) {
+    throw new ValidationError('Each prompt can only be listed once');
+  }
+
+  await content.replaceSteps(exerciseId, cleanSteps);
+  await content.replacePrompts(exerciseId, cleanPrompts);
+  return getExerciseContent(exerciseId);
+};
+
+/**
+ * Stores an example recording, video or picture for the exercise
+ * mimeType is the request's Content-Type, which may carry parameters (audio/webm;codecs=opus)
+ */
+export const addExerciseMedia = async (
+  exerciseId: string,
+  data: unknown,
+  mimeType: string | undefined,
+  caption: unknown
+): Promise<ExerciseMedia> => {
+  const baseType = (mimeType || '').split(';')[0].trim().toLowerCase();
+  const type = MEDIA_TYPES[baseType];
+  if (!type || !Buffer.isBuffer(data)) {
+    throw new ValidationError(`Send the file as audio, video or an image (${Object.keys(MEDIA_TYPES).join(', ')})`);
+  }
+  if (data.length === 0) {
+    throw new ValidationError('The file is empty');
+  }
+  if (data.length > MAX_MEDIA_BYTES) {
+    throw new ValidationError('Files can be at most 25 MB');
+  }
+
+  const cleanCaption = caption === undefined ? '' : typeof caption === 'string' ? caption.trim() : null;
+  if (cleanCaption === null || cleanCaption.length > MAX_CAPTION_LENGTH) {
+    throw new ValidationError(`caption can be at most ${MAX_CAPTION_LENGTH} characters`);
+  }
+
+  const storageKey = mediaKey(exerciseId, type.extension);
+  await saveMedia(storageKey, data);
+
+  try {
+    return await content.createMedia({
+      exercise_id: exerciseId,
+      kind: type.kind,
+      storage_key: storageKey,
+      mime_type: baseType,
+      size_bytes: data.length,
+      caption: cleanCaption
+    });
+  } catch (error) {
+    // Don't leave a file behind that nothing points to
+    await removeMedia(storageKey);
+    throw error;
+  }
+};
+
+export const getExerciseMediaFile = async (
+  exerciseId: string,
+  mediaId: string
+): Promise<{ data: Buffer; mimeType: string }> => {
+  const media = await findExerciseMedia(exerciseId, mediaId);
+  const data = await readMedia(media.storage_key);
+  if (!data) {
+    throw new NotFoundError('Media file not found');
+  }
+  return { data, mimeType: media.mime_type };
+};
+
+export const deleteExerciseMedia = async (exerciseId: string, mediaId: string): Promise<void> => {
+  const media = await findExerciseMedia(exerciseId, mediaId);
+  await content.deleteMedia(mediaId);
+  await removeMedia(media.storage_key);
+};
+
+/**
+ * Gives a copied exercise the original's steps, prompts and media
+ * Media files are copied too, so deleting either exercise's media leaves the other's alone
+ */
+export const copyExerciseContent = async (fromExerciseId: string, toExerciseId: string): Promise<void> => {
+  const original = await getExerciseContent(fromExerciseId);
+  await content.replaceSteps(toExerciseId, original.steps);
+  await content.replacePrompts(toExerciseId, original.prompts.map(prompt => ({ text: prompt.text })));
+
+  for (const media of original.media) {
+    const data = await readMedia(media.storage_key);
+    if (!data) continue;
+    const storageKey = mediaKey(toExerciseId, MEDIA_TYPES[media.mime_type]?.extension || 'bin');
+    await saveMedia(storageKey, data);
+    await content.createMedia({ ...media, exercise_id: toExerciseId, storage_key: storageKey });
+  }
+};
+
+// Practice mode
+
+/**
+ * The content of the row's exercise, and which prompts the patient has tried during this practice
+ * The route has checked the row belongs to a patient the user may reach
+ */
+export const getRowPractice = async (rowId: string): Promise<RowPractice> => {
+  const exerciseId = await findRowExerciseId(rowId);
+  const [exerciseContent, attempted] = await Promise.all([
+    getExerciseContent(exerciseId),
+    content.findAttemptedPromptIds(rowId)
+  ]);
+  return { row_id: rowId, exercise_id: exerciseId, ...exerciseContent, attempted_prompt_ids: attempted };
+};
+
+export const getRowMediaFile = async (rowId: string, mediaId: string): Promise<{ data: Buffer; mimeType: string }> => {
+  return getExerciseMediaFile(await findRowExerciseId(rowId), mediaId);
+};
+
+// Marks a prompt as tried during this practice; returns every prompt tried so far
+export const recordPromptAttempt = async (rowId: string, patientId: string, promptId: unknown): Promise<string[]> => {
+  assertId(promptId as string, 'prompt_id');
+  const exerciseId = await findRowExerciseId(rowId);
+
+  const prompts = await content.findPrompts(exerciseId);
+  if (!prompts.some(prompt => prompt.prompt_id === promptId)) {
+    throw new NotFoundError('Prompt not found');
+  }
+
+  await content.recordPromptAttempt(rowId, promptId as string, patientId);
+  return content.findAttemptedPromptIds(rowId);
+};
@@ -0,0 +1,92 @@
+// backend/services/exerciseLibraryService.ts
+// Browsing, copying and sharing exercises; creating and editing them is in therapistService
+import * as exercises from '../repositories/exerciseRepository';
+import { Exercise, LibraryFilters, LibraryScope } from '../repositories/exerciseRepository';
+import { findClinicName } from '../repositories/accessRepository';
+import { copyExerciseContent } from './exerciseContentService';
+import { NotFoundError, ValidationError } from './errors';
+import { assertOneOf, DIFFICULTY_LEVELS, EXERCISE_CATEGORIES, EXERCISE_FREQUENCIES } from './validation';
+
+const LIBRARY_SCOPES: LibraryScope[] = ['mine', 'shared', 'all'];
+
+const MAX_SEARCH_LENGTH = 100;
+
+/**
+ * The exercises a therapist can pick from, alphabetical
+ * query is the request's query string: scope (default mine), category, difficulty_level,
+ * recommended_frequency and search
+ */
+export const getExerciseLibrary = async (therapistId: string, query: Record<string, unknown>): Promise<Exercise[]> => {
+  const text = (field: string): string | undefined => {
+    const value = query[field];
+    if (value === undefined || value === '') return undefined;
+    if (typeof value !== 'string') {
+      throw new ValidationError(`${field} must be given once`);
+    }
+    return value;
+  };
+
+  const filters: LibraryFilters = { scope: (text('scope') || 'mine') as LibraryScope };
+  assertOneOf(filters.scope, LIBRARY_SCOPES, 'scope');
+
+  filters.category = text('category');
+  filters.difficulty_level = text('difficulty_level');
+  filters.recommended_frequency = text('recommended_frequency');
+  if (filters.category) assertOneOf(filters.category, EXERCISE_CATEGORIES, 'category');
+  if (filters.difficulty_level) assertOneOf(filters.difficulty_level, DIFFICULTY_LEVELS, 'difficulty_level');
+  if (filters.recommended_frequency) {
+    assertOneOf(filters.recommended_frequency, EXERCISE_FREQUENCIES, 'recommended_frequency');
+  }
+
+  const search = text('search')?.trim();
+  if (search && search.length > MAX_SEARCH_LENGTH) {
+    throw new ValidationError(`search can be at most ${MAX_SEARCH_LENGTH} characters`);
+  }
+  filters.search = search || undefined;
+
+  return exercises.findLibraryExercises(therapistId, await findClinicName(therapistId), filters);
+};
+
+/**
+ * Copies an exercise into the therapist's own library, to edit without changing the original
+ * The route has checked the therapist may use the original
+ * A copy of the therapist's own exercise is titled "... (copy)" so the two can be told apart
+ * The copy gets its own steps, prompts and media, so editing it leaves the original alone
+ */
+export const cloneExercise = async (therapistId: string, exerciseId: string): Promise<Exercise> => {
+  const original = await exercises.findExerciseById(exerciseId);
+  if (!original) {
+    throw new NotFoundError('Exercise not found');
+  }
+
+  const copy = await exercises.createExercise({
+    created_by: therapistId,
+    title: original.created_by === therapistId ? `${original.title} (copy)` : original.title,
+    description: original.description,
+    difficulty_level: original.difficulty_level,
+    recommended_frequency: original.recommended_frequency,
+    category: original.category,
+    cloned_from: original.exercise_id
+  });
+  await copyExerciseContent(original.exercise_id, copy.exercise_id);
+  return copy;
+};
+
+/**
+ * Publishes an exercise to the therapist's clinic, or takes it back
+ * Goals that already use a withdrawn exercise keep it; colleagues just can't assign it again
+ */
+export const setExerciseShared = async (therapistId: string, exerciseId: string, isShared: unknown): Promise<Exercise> => {
+  if (typeof isShared !== 'boolean') {
+    throw new ValidationError('is_shared must be true or false');
+  }
+  if (isShared && !(await findClinicName(therapistId))?.trim()) {
+    throw new ValidationError('Add your clinic to your profile before sharing exercises');
+  }
+
+  const exercise = await exercises.setExerciseShared(exerciseId, isShared);
+  if (!exercise) {
+    throw new NotFoundError('Exercise not found');
+  }
+  return exercise;
+};
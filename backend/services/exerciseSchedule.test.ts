@@ -0,0 +1,141 @@
+import {
+  buildSchedule,
+  inferScheduleRule,
+  parseScheduleRule,
+  rescheduleRows,
+  ruleForFrequency,
+  ScheduledRow,
+  weekNumberOf
+} from './exerciseSchedule';
+
+// 2026-03-04 is a Wednesday, so its week runs from Monday 2026-03-02
+const START = '2026-03-04';
+
+describe('buildSchedule', () => {
+  it('schedules the chosen weekdays, once per slot, numbering Monday-Sunday weeks from the start', () => {
+    const practices = buildSchedule(
+      { kind: 'weekdays', weekdays: [1, 3], slots: ['Morning', 'Evening'] },
+      START,
+      '2026-03-11'
+    );
+
+    expect(practices.map(p => [p.scheduled_date, p.day_of_week, p.week_number, p.slot, p.slot_index])).toEqual([
+      ['2026-03-04', 'Wednesday', 1, 'Morning', 0],
+      ['2026-03-04', 'Wednesday', 1, 'Evening', 1],
+      ['2026-03-09', 'Monday', 2, 'Morning', 0],
+      ['2026-03-09', 'Monday', 2, 'Evening', 1],
+      ['2026-03-11', 'Wednesday', 2, 'Morning', 0],
+      ['2026-03-11', 'Wednesday', 2, 'Evening', 1]
+    ]);
+  });
+
+  it('schedules every N days from the start', () => {
+    const practices = buildSchedule({ kind: 'interval', every_days: 3, slots: [] }, START, '2026-03-13');
+
+    expect(practices.map(p => p.scheduled_date)).toEqual(['2026-03-04', '2026-03-07', '2026-03-10', '2026-03-13']);
+    expect(practices[0].slot).toBeNull();
+  });
+
+  it('leaves the day open for practices a number of times per week', () => {
+    const practices = buildSchedule({ kind: 'per_week', times: 2 }, START, '2026-03-10');
+
+    expect(practices.map(p => [p.week_number, p.slot_index, p.scheduled_date])).toEqual([
+      [1, 0, null],
+      [1, 1, null],
+      [2, 0, null],
+      [2, 1, null]
+    ]);
+  });
+
+  it('gives the defaults for each recommended frequency the same shape as before', () => {
+    expect(buildSchedule(ruleForFrequency('daily'), START, '2026-03-10')).toHaveLength(7);
+    expect(buildSchedule(ruleForFrequency('twice daily'), START, '2026-03-10')).toHaveLength(14);
+    expect(buildSchedule(ruleForFrequency('weekly'), START, '2026-03-31')).toHaveLength(5);
+    expect(buildSchedule(ruleForFrequency('as needed'), START, '2026-03-31')).toEqual([
+      { scheduled_date: null, day_of_week: null, week_number: null, slot: null, slot_index: 0 }
+    ]);
+  });
+
+  it('treats an end date before the start as a single day', () => {
+    expect(buildSchedule(ruleForFrequency('daily'), START, '2026-03-01')).toHaveLength(1);
+  });
+});
+
+describe('weekNumberOf', () => {
+  it('counts the week the schedule starts in as week 1', () => {
+    expect(weekNumberOf(START, '2026-03-02')).toBe(1);
+    expect(weekNumberOf(START, '2026-03-08')).toBe(1);
+    expect(weekNumberOf(START, '2026-03-09')).toBe(2);
+  });
+});
+
+describe('rescheduleRows', () => {
+  const rowsFor = (practices: ReturnType<typeof buildSchedule>): ScheduledRow[] => practices.map((practice, i) => ({
+    ...practice,
+    row_id: `row-${i}`,
+    completed: false,
+    difficulty_rating: null,
+    has_recordings: false
+  }));
+
+  it('adds practices from today to the new end, without putting back days already missed', () => {
+    const rule = { kind: 'weekdays' as const, weekdays: [1, 3], slots: [] };
+    // Monday's row was trimmed off earlier
+    const rows = rowsFor(buildSchedule(rule, START, '2026-03-08'));
+
+    const change = rescheduleRows(rule, START, '2026-03-18', '2026-03-10', rows);
+
+    expect(change.add.map(p => p.scheduled_date)).toEqual(['2026-03-11', '2026-03-16', '2026-03-18']);
+    expect(change.remove).toEqual([]);
+  });
+
+  it('removes untouched practices after the new end and keeps ones the patient worked on', () => {
+    const rule = { kind: 'per_week' as const, times: 1 };
+    const rows = rowsFor(buildSchedule(rule, START, '2026-03-31'));
+    rows[3].difficulty_rating = 4;
+
+    const change = rescheduleRows(rule, START, '2026-03-10', START, rows);
+
+    expect(change.remove).toEqual(['row-2', 'row-4']);
+    expect(change.kept).toBe(1);
+    expect(change.add).toEqual([]);
+  });
+});
+
+describe('inferScheduleRule', () => {
+  it('works out the weekdays and times of day from dated rows', () => {
+    const rows = buildSchedule({ kind: 'weekdays', weekdays: [2, 4], slots: ['AM', 'PM'] }, START, '2026-03-20');
+
+    expect(inferScheduleRule(rows, START)).toEqual({
+      rule: { kind: 'weekdays', weekdays: [2, 4], slots: ['AM', 'PM'] },
+      start_date: '2026-03-05'
+    });
+  });
+
+  it('counts weekly practices from when they were assigned, and has nothing for as-needed rows', () => {
+    expect(inferScheduleRule(buildSchedule({ kind: 'per_week', times: 2 }, START, '2026-03-20'), START)).toEqual({
+      rule: { kind: 'per_week', times: 2 },
+      start_date: START
+    });
+    expect(inferScheduleRule(buildSchedule({ kind: 'as_needed' }, START, START), START)).toBeNull();
+  });
+});
+
+describe('parseScheduleRule', () => {
+  it('sorts and de-duplicates weekdays and trims slot names', () => {
+    expect(parseScheduleRule({ kind: 'weekdays', weekdays: [5, 1, 5], slots: [' Morning '] })).toEqual({
+      kind: 'weekdays',
+      weekdays: [1, 5],
+      slots: ['Morning']
+    });
+  });
+
+  it('rejects rules that cannot be scheduled', () => {
+    expect(() => parseScheduleRule({ kind: 'weekdays', weekdays: [] })).toThrow('weekdays');
+    expect(() => parseScheduleRule({ kind: 'weekdays', weekdays: [7] })).toThrow('weekdays');
+    expect(() => parseScheduleRule({ kind: 'weekdays', weekdays: [1], slots: ['AM', 'am'] })).toThrow('once');
+    expect(() => parseScheduleRule({ kind: 'interval', every_days: 0 })).toThrow('every_days');
+    expect(() => parseScheduleRule({ kind: 'per_week', times: 8 })).toThrow('times');
+    expect(() => parseScheduleRule({ kind: 'hourly' })).toThrow('kind');
+  });
+});
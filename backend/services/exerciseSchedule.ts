@@ -0,0 +1,248 @@
+// backend/services/exerciseSchedule.ts
+// Turns a schedule rule into the practices (goal_exercise_set rows) a patient ticks off
+import { ValidationError } from './errors';
+
+// Indexed like Date.getUTCDay(): 0 is Sunday
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MAX_SLOTS_PER_DAY = 6;
+const MAX_SLOT_NAME_LENGTH = 30;
+const MAX_INTERVAL_DAYS = 28;
+
+/**
+ * How often an exercise is practised
+ * weekdays - on the given days of the week (0 is Sunday), once per named slot or once a day with no slots
+ * interval - every N days from the start date, with the same slots
+ * per_week - X times a week on whichever days suit the patient
+ * as_needed - a single practice with no date
+ */
+export type ScheduleRule =
+  | { kind: 'weekdays'; weekdays: number[]; slots: string[] }
+  | { kind: 'interval'; every_days: number; slots: string[] }
+  | { kind: 'per_week'; times: number }
+  | { kind: 'as_needed' };
+
+// One practice to tick off, as stored on its goal_exercise_set row
+export interface ScheduledPractice {
+  scheduled_date: string | null; // YYYY-MM-DD; null when the patient picks the day
+  day_of_week: string | null; // The weekday's name, when there is a date
+  week_number: number | null; // Monday-Sunday weeks counted from the schedule's start, which is in week 1
+  slot: string | null; // Morning, Evening...; null when practised once a day
+  slot_index: number; // Orders the slots within a day, or numbers the practices within a week
+}
+
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+const dayOfWeek = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+};
+
+// The Monday on or before the date
+export const mondayOf = (date: string): string => addDays(date, -((dayOfWeek(date) + 6) % 7));
+
+export const weekNumberOf = (startDate: string, date: string): number => {
+  return Math.floor(daysBetween(mondayOf(startDate), date) / 7) + 1;
+};
+
+const parseSlots = (value: unknown): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_SLOTS_PER_DAY) {
+    throw new ValidationError(`slots must be a list of at most ${MAX_SLOTS_PER_DAY} names`);
+  }
+  const slots = value.map(slot => (typeof slot === 'string' ? slot.trim() : ''));
+  if (slots.some(slot => !slot || slot.length > MAX_SLOT_NAME_LENGTH)) {
+    throw new ValidationError(`Each slot needs a name of at most ${MAX_SLOT_NAME_LENGTH} characters`);
+  }
+  if (new Set(slots.map(slot => slot.toLowerCase())).size !== slots.length) {
+    throw new ValidationError('Each slot can only be listed once');
+  }
+  return slots;
+};
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number => {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+};
+
+// Checks a rule sent by the client and returns it in its stored shape
+export const parseScheduleRule = (input: any): ScheduleRule => {
+  switch (input?.kind) {
+    case 'weekdays': {
+      const weekdays = input.weekdays;
+      if (!Array.isArray(weekdays) || weekdays.length === 0 || !weekdays.every(day => isWholeNumber(day, 0, 6))) {
+        throw new ValidationError('weekdays must list at least one day, from 0 (Sunday) to 6 (Saturday)');
+      }
+      return {
+        kind: 'weekdays',
+        weekdays: Array.from(new Set<number>(weekdays)).sort((a, b) => a - b),
+        slots: parseSlots(input.slots)
+      };
+    }
+    case 'interval':
+      if (!isWholeNumber(input.every_days, 1, MAX_INTERVAL_DAYS)) {
+        throw new ValidationError(`every_days must be a whole number from 1 to ${MAX_INTERVAL_DAYS}`);
+      }
+      return { kind: 'interval', every_days: input.every_days, slots: parseSlots(input.slots) };
+    case 'per_week':
+      if (!isWholeNumber(input.times, 1, 7)) {
+        throw new ValidationError('times must be a whole number from 1 to 7');
+      }
+      return { kind: 'per_week', times: input.times };
+    case 'as_needed':
+      return { kind: 'as_needed' };
+    default:
+      throw new ValidationError('kind must be one of: weekdays, interval, per_week, as_needed');
+  }
+};
+
+// The schedule an exercise gets from its recommended frequency when the therapist doesn't choose one
+export const ruleForFrequency = (frequency: string): ScheduleRule => {
+  switch (frequency) {
+    case 'twice daily':
+      return { kind: 'weekdays', weekdays: [0, 1, 2, 3, 4, 5, 6], slots: ['Morning', 'Afternoon'] };
+    case 'weekly':
+      return { kind: 'per_week', times: 1 };
+    case 'as needed':
+      return { kind: 'as_needed' };
+    default:
+      return { kind: 'weekdays', weekdays: [0, 1, 2, 3, 4, 5, 6], slots: [] };
+  }
+};
+
+/**
+ * Every practice the rule asks for from startDate to endDate inclusive (both YYYY-MM-DD)
+ * An end before the start is treated as a schedule of that one day, so there is always something to practise
+ */
+export const buildSchedule = (rule: ScheduleRule, startDate: string, endDate: string): ScheduledPractice[] => {
+  const end = endDate < startDate ? startDate : endDate;
+
+  const dated = (date: string, slots: string[]): ScheduledPractice[] => {
+    return (slots.length > 0 ? slots : [null]).map((slot, index) => ({
+      scheduled_date: date,
+      day_of_week: WEEKDAY_NAMES[dayOfWeek(date)],
+      week_number: weekNumberOf(startDate, date),
+      slot,
+      slot_index: index
+    }));
+  };
+
+  const practices: ScheduledPractice[] = [];
+  switch (rule.kind) {
+    case 'weekdays':
+      for (let date = startDate; date <= end; date = addDays(date, 1)) {
+        if (rule.weekdays.includes(dayOfWeek(date))) practices.push(...dated(date, rule.slots));
+      }
+      break;
+    case 'interval':
+      for (let date = startDate; date <= end; date = addDays(date, rule.every_days)) {
+        practices.push(...dated(date, rule.slots));
+      }
+      break;
+    case 'per_week':
+      for (let week = 1; week <= weekNumberOf(startDate, end); week++) {
+        for (let index = 0; index < rule.times; index++) {
+          practices.push({ scheduled_date: null, day_of_week: null, week_number: week, slot: null, slot_index: index });
+        }
+      }
+      break;
+    case 'as_needed':
+      practices.push({ scheduled_date: null, day_of_week: null, week_number: null, slot: null, slot_index: 0 });
+      break;
+  }
+  return practices;
+};
+
+// A goal_exercise_set row as rescheduling sees it
+export interface ScheduledRow extends ScheduledPractice {
+  row_id: string;
+  completed: boolean;
+  difficulty_rating: number | null;
+  has_recordings: boolean;
+}
+
+// How an exercise's rows change when its goal's target date moves
+export interface ScheduleChange {
+  add: ScheduledPractice[]; // Practices with no row yet
+  remove: string[]; // row_ids of untouched practices after the new target date
+  kept: number; // Practices after the new target date the patient already worked on, which stay
+}
+
+// Identifies a practice within an exercise's schedule, whichever row it is on
+const practiceKey = (practice: ScheduledPractice): string => {
+  return `${practice.scheduled_date ?? `week ${practice.week_number}`}|${practice.slot_index}`;
+};
+
+/**
+ * Works out the rows to add and remove for the schedule to run to a new end date
+ * Practices from today on that have no row yet are added - days already missed are not put back
+ * Rows after the new end are removed, unless they were ticked, rated or recorded: those are kept
+ */
+export const rescheduleRows = (
+  rule: ScheduleRule,
+  startDate: string,
+  endDate: string,
+  today: string,
+  rows: ScheduledRow[]
+): ScheduleChange => {
+  const end = endDate < startDate ? startDate : endDate;
+  const lastWeek = weekNumberOf(startDate, end);
+  const currentWeek = weekNumberOf(startDate, today);
+
+  const existing = new Set(rows.map(practiceKey));
+  const add = buildSchedule(rule, startDate, end).filter(practice => {
+    if (existing.has(practiceKey(practice))) return false;
+    if (practice.scheduled_date) return practice.scheduled_date >= today;
+    return practice.week_number === null || practice.week_number >= currentWeek;
+  });
+
+  const beyond = rows.filter(row => {
+    return row.scheduled_date ? row.scheduled_date > end : row.week_number !== null && row.week_number > lastWeek;
+  });
+  const workedOn = (row: ScheduledRow) => row.completed || row.difficulty_rating !== null || row.has_recordings;
+
+  return {
+    add,
+    remove: beyond.filter(row => !workedOn(row)).map(row => row.row_id),
+    kept: beyond.filter(workedOn).length
+  };
+};
+
+/**
+ * The rule and start date an exercise's rows follow, for rows assigned before rules were stored
+ * Dated rows give the weekdays and times of day they fall on, counted from the first of them;
+ * weekly rows give the practices per week, counted from assignedOn (the date the rows were made)
+ * Rows with neither are practised as needed, and have nothing to reschedule
+ */
+export const inferScheduleRule = (
+  rows: ScheduledPractice[],
+  assignedOn: string
+): { rule: ScheduleRule; start_date: string } | null => {
+  const dated = rows.filter(row => row.scheduled_date).sort((a, b) => a.scheduled_date!.localeCompare(b.scheduled_date!));
+  if (dated.length > 0) {
+    const slots: string[] = [];
+    [...dated].sort((a, b) => a.slot_index - b.slot_index).forEach(row => {
+      if (row.slot && !slots.includes(row.slot)) slots.push(row.slot);
+    });
+    return {
+      rule: {
+        kind: 'weekdays',
+        weekdays: Array.from(new Set(dated.map(row => dayOfWeek(row.scheduled_date!)))).sort((a, b) => a - b),
+        slots
+      },
+      start_date: dated[0].scheduled_date!
+    };
+  }
+
+  if (rows.some(row => row.week_number !== null)) {
+    return {
+      rule: { kind: 'per_week', times: Math.max(...rows.map(row => row.slot_index)) + 1 },
+      start_date: assignedOn
+    };
+  }
+  return null;
+};
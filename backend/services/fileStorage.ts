@@ -0,0 +1,44 @@
+// backend/services/fileStorage.ts
+import fs from 'fs';
+import path from 'path';
+
+// Anything that can hold uploaded files by key - swap in a bucket-backed store in production
+export interface BlobStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer | null>; // null when nothing is stored under the key
+  remove(key: string): Promise<void>;
+}
+
+// Keeps each file under the directory, with the key as its relative path
+export class FileStorage implements BlobStorage {
+  constructor(private directory: string) {}
+
+  // Keys are generated by the server, but never let one point outside the directory
+  private pathFor(key: string): string {
+    const root = path.resolve(this.directory);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+}
@@ -0,0 +1,42 @@
+import { analyzeFluency, decodeWav } from './fluencyAnalysis';
+import { synthesizeSpeech, toWav, SAMPLE_RATE, SpeechSegment } from '../test-utils/speech';
+
+// 4 syllables, a short gap, 3 more, a half-second pause, then 2 - with silence either end
+const SPEECH: SpeechSegment[] = [[300, 0], [800, 4], [100, 0], [600, 3], [500, 0], [400, 2], [300, 0]];
+
+describe('analyzeFluency', () => {
+  it('measures speaking time, pauses, syllables and the longest fluent run', () => {
+    const metrics = analyzeFluency({ samples: synthesizeSpeech(SPEECH), sampleRate: SAMPLE_RATE });
+
+    // The 100ms gap is too short to be a pause, so the first run is 800 + 100 + 600ms
+    expect(metrics).toEqual({
+      speaking_ms: 1900,
+      pause_count: 1,
+      pause_ms: 500,
+      syllable_count: 9,
+      syllables_per_minute: 225,
+      longest_fluent_ms: 1500
+    });
+  });
+
+  it('finds no speech in silence', () => {
+    const metrics = analyzeFluency({ samples: synthesizeSpeech([[1000, 0]]), sampleRate: SAMPLE_RATE });
+    expect(metrics.speaking_ms).toBe(0);
+    expect(metrics.syllable_count).toBe(0);
+  });
+});
+
+describe('decodeWav', () => {
+  it('reads 16-bit PCM back into samples', () => {
+    const samples = synthesizeSpeech(SPEECH);
+    const decoded = decodeWav(toWav(samples));
+
+    expect(decoded!.sampleRate).toBe(SAMPLE_RATE);
+    expect(decoded!.samples).toHaveLength(samples.length);
+    expect(Math.abs(decoded!.samples[4900] - samples[4900])).toBeLessThan(0.001);
+  });
+
+  it('returns null for audio that is not WAV', () => {
+    expect(decodeWav(Buffer.from('pretend webm audio'))).toBeNull();
+  });
+});
@@ -0,0 +1,224 @@
+// backend/services/fluencyAnalysis.ts
+// Objective fluency measures from a recording's audio, worked out from its loudness over time
+// Pure functions with no I/O, so the same numbers come out wherever the audio is analysed
+
+export interface FluencyMetrics {
+  speaking_ms: number; // Time spent speaking, from the first sound to the last, less the pauses
+  pause_count: number; // Silences long enough to count as a pause, between the first and last sound
+  pause_ms: number; // Total length of those pauses
+  syllable_count: number; // Estimated from peaks in loudness (syllable nuclei)
+  syllables_per_minute: number; // Speaking rate across the whole stretch of speech, pauses included
+  longest_fluent_ms: number; // Longest stretch of speech without a pause
+}
+
+// Mono audio as samples from -1 to 1
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+const FRAME_MS = 10;
+// Silences shorter than this are part of normal speech (between words, stop consonants)
+const MIN_PAUSE_MS = 250;
+// Syllables are at least this far apart - about 12 a second at the very fastest
+const MIN_SYLLABLE_GAP_MS = 80;
+// Loudness has to dip by this much between two peaks for them to be separate syllables
+const SYLLABLE_DIP_DB = 2;
+// Frames averaged either side when smoothing the loudness curve
+const SMOOTHING_FRAMES = 2;
+// Anything quieter than this is silence however quiet the rest of the recording is
+const MIN_SPEECH_RMS = 0.005;
+
+const toDb = (rms: number): number => 20 * Math.log10(Math.max(rms, 1e-6));
+
+const percentile = (values: number[], fraction: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+// Root-mean-square loudness of each 10ms frame
+const frameEnergies = (samples: Float32Array, sampleRate: number): number[] => {
+  const frameSize = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  const energies: number[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+    let sum = 0;
+    for (let i = start; i < start + frameSize; i++) sum += samples[i] * samples[i];
+    energies.push(Math.sqrt(sum / frameSize));
+  }
+  return energies;
+};
+
+const smooth = (values: number[]): number[] => {
+  return values.map((_, i) => {
+    const window = values.slice(Math.max(0, i - SMOOTHING_FRAMES), i + SMOOTHING_FRAMES + 1);
+    return window.reduce((sum, value) => sum + value, 0) / window.length;
+  });
+};
+
+/**
+ * Counts syllable nuclei: loudness peaks inside speech with a dip of at least SYLLABLE_DIP_DB either side
+ * voiced[i] says whether frame i is speech; envelope is the smoothed loudness in dB
+ */
+const countSyllables = (envelope: number[], voiced: boolean[]): number => {
+  const minGapFrames = MIN_SYLLABLE_GAP_MS / FRAME_MS;
+  let count = 0;
+  let lastCounted = -Infinity;
+  // Climbing towards a peak, or falling away from one; silence ends a syllable
+  let state: 'silent' | 'rising' | 'falling' = 'silent';
+  let extreme = 0; // The highest level while rising, the lowest while falling
+  let peakFrame = 0;
+
+  const countPeak = () => {
+    if (peakFrame - lastCounted >= minGapFrames) {
+      count++;
+      lastCounted = peakFrame;
+    }
+  };
+
+  for (let i = 0; i < envelope.length; i++) {
+    const level = envelope[i];
+    if (!voiced[i]) {
+      if (state === 'rising') countPeak();
+      state = 'silent';
+    } else if (state === 'silent') {
+      state = 'rising';
+      extreme = level;
+      peakFrame = i;
+    } else if (state === 'rising') {
+      if (level > extreme) {
+        extreme = level;
+        peakFrame = i;
+      } else if (level <= extreme - SYLLABLE_DIP_DB) {
+        countPeak();
+        state = 'falling';
+        extreme = level;
+      }
+    } else if (level < extreme) {
+      extreme = level;
+    } else if (level >= extreme + SYLLABLE_DIP_DB) {
+      state = 'rising';
+      extreme = level;
+      peakFrame = i;
+    }
+  }
+  if (state === 'rising') countPeak();
+
+  return count;
+};
+
+const NO_SPEECH: FluencyMetrics = {
+  speaking_ms: 0,
+  pause_count: 0,
+  pause_ms: 0,
+  syllable_count: 0,
+  syllables_per_minute: 0,
+  longest_fluent_ms: 0
+};
+
+/**
+ * Works out the fluency measures for a recording
+ * Speech is told apart from silence by a loudness threshold set from the recording itself,
+ * so quiet rooms and noisy rooms are both handled without calibration
+ */
+export const analyzeFluency = ({ samples, sampleRate }: DecodedAudio): FluencyMetrics => {
+  const energies = frameEnergies(samples, sampleRate);
+  if (energies.length === 0) return NO_SPEECH;
+
+  // Halfway (in dB) between the background noise and the loud parts of speech
+  const noiseDb = toDb(percentile(energies, 0.1));
+  const speechDb = toDb(percentile(energies, 0.95));
+  const threshold = Math.max(MIN_SPEECH_RMS, Math.pow(10, (noiseDb + (speechDb - noiseDb) / 2) / 20));
+
+  const voiced = energies.map(energy => energy >= threshold);
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  if (first === -1) return NO_SPEECH;
+
+  // Walk the stretch of speech, splitting it into fluent runs at each pause
+  const minPauseFrames = MIN_PAUSE_MS / FRAME_MS;
+  const runs: number[] = [];
+  let pauseCount = 0;
+  let pauseFrames = 0;
+  let runStart = first;
+  let i = first;
+  while (i <= last) {
+    if (voiced[i]) {
+      i++;
+      continue;
+    }
+    const silenceStart = i;
+    while (!voiced[i]) i++;
+    const silence = i - silenceStart;
+    if (silence >= minPauseFrames) {
+      runs.push(silenceStart - runStart);
+      pauseCount++;
+      pauseFrames += silence;
+      runStart = i;
+    }
+  }
+  runs.push(last + 1 - runStart);
+
+  const spanFrames = last + 1 - first;
+  const envelope = smooth(energies).map(toDb);
+  const syllables = countSyllables(envelope, voiced);
+  const spanMinutes = (spanFrames * FRAME_MS) / 60000;
+
+  return {
+    speaking_ms: (spanFrames - pauseFrames) * FRAME_MS,
+    pause_count: pauseCount,
+    pause_ms: pauseFrames * FRAME_MS,
+    syllable_count: syllables,
+    syllables_per_minute: Math.round((syllables / spanMinutes) * 10) / 10,
+    longest_fluent_ms: Math.max(...runs) * FRAME_MS
+  };
+};
+
+/**
+ * Reads a WAV file into mono samples; 16-bit PCM and 32-bit float are supported
+ * Returns null for anything else, including compressed formats like webm
+ */
+export const decodeWav = (buffer: Buffer): DecodedAudio | null => {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      format = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14)
+      };
+    } else if (chunkId === 'data' && format) {
+      const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+      const isPcm16 = audioFormat === 1 && bitsPerSample === 16;
+      const isFloat32 = audioFormat === 3 && bitsPerSample === 32;
+      if (!isPcm16 && !isFloat32) return null;
+
+      const bytesPerSample = bitsPerSample / 8;
+      const frames = Math.floor(Math.min(chunkSize, buffer.length - body) / (bytesPerSample * channels));
+      const samples = new Float32Array(frames);
+      for (let frame = 0; frame < frames; frame++) {
+        // Mix the channels down to mono
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          const position = body + (frame * channels + channel) * bytesPerSample;
+          sum += isPcm16 ? buffer.readInt16LE(position) / 32768 : buffer.readFloatLE(position);
+        }
+        samples[frame] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+  return null;
+};
@@ -0,0 +1,53 @@
+import { buildGoalTree, rollUpProgress } from './goalHierarchy';
+
+describe('rollUpProgress', () => {
+  const progress = (percent: number) => ({ total: 4, completed: percent === 100 ? 4 : 0, percent });
+
+  it('weights each objective and counts achieved objectives as complete', () => {
+    expect(rollUpProgress([
+      { status: 'active', weight: 3, progress: progress(50) },
+      { status: 'achieved', weight: 1, progress: progress(20) }
+    ])).toEqual({ total: 2, completed: 1, percent: 63 });
+  });
+
+  it('leaves out draft, discontinued and carried-over objectives', () => {
+    expect(rollUpProgress([
+      { status: 'active', weight: 1, progress: progress(40) },
+      { status: 'discontinued', weight: 5, progress: progress(0) },
+      { status: 'carried_over', weight: 5, progress: progress(0) }
+    ])).toEqual({ total: 1, completed: 0, percent: 40 });
+    expect(rollUpProgress([{ status: 'draft', weight: 1, progress: progress(0) }])).toBeNull();
+    expect(rollUpProgress([])).toBeNull();
+  });
+});
+
+describe('buildGoalTree', () => {
+  const goal = (goal_id: string, parent_goal_id: string | null = null, weight = 1) => ({
+    goal_id,
+    parent_goal_id,
+    status: 'active',
+    weight
+  });
+
+  it('nests objectives under their long-term goal and rolls their progress up', () => {
+    const tree = buildGoalTree(
+      [goal('long'), goal('first', 'long', 1), goal('second', 'long', 3), goal('flat')],
+      [
+        { goal_id: 'first', completed: true },
+        { goal_id: 'second', completed: true },
+        { goal_id: 'second', completed: false },
+        { goal_id: 'flat', completed: false }
+      ]
+    );
+
+    expect(tree.map(node => node.goal_id)).toEqual(['long', 'flat']);
+    expect(tree[0].objectives.map(node => node.goal_id)).toEqual(['first', 'second']);
+    expect(tree[0].objectives[1].progress).toEqual({ total: 2, completed: 1, percent: 50 });
+    expect(tree[0].progress).toEqual({ total: 2, completed: 1, percent: 63 });
+    expect(tree[1].progress).toEqual({ total: 1, completed: 0, percent: 0 });
+  });
+
+  it('shows objectives at the top level when their long-term goal is not listed', () => {
+    expect(buildGoalTree([goal('first', 'long')], []).map(node => node.goal_id)).toEqual(['first']);
+  });
+});
@@ -0,0 +1,61 @@
+import { criterionMet, goalProgress, isGoalOverdue, parseCriterion, suggestGoalStatus } from './goalLifecycle';
+
+describe('parseCriterion', () => {
+  it('reads percentages, counts and how many sessions must meet them', () => {
+    expect(parseCriterion('80% accuracy over 3 sessions')).toEqual({ target: 80, comparison: 'at_least', sessions: 3 });
+    expect(parseCriterion('fewer than 3% syllables stuttered')).toEqual({ target: 3, comparison: 'below', sessions: 1 });
+    expect(parseCriterion('4 out of 5 attempts in 2 consecutive sessions')).toEqual({
+      target: 80,
+      comparison: 'at_least',
+      sessions: 2
+    });
+    expect(parseCriterion('More than 90% of words, three sessions running')).toEqual({
+      target: 90,
+      comparison: 'above',
+      sessions: 3
+    });
+  });
+
+  it('gives null for criteria without a measurable target', () => {
+    expect(parseCriterion(null)).toBeNull();
+    expect(parseCriterion('Confident on the phone')).toBeNull();
+    expect(parseCriterion('150% of baseline')).toBeNull();
+  });
+});
+
+describe('criterionMet', () => {
+  const criterion = { target: 80, comparison: 'at_least' as const, sessions: 2 };
+
+  it('needs enough of the latest measurements, all meeting the target', () => {
+    expect(criterionMet(criterion, [85])).toBe(false);
+    expect(criterionMet(criterion, [85, 70, 90])).toBe(false);
+    expect(criterionMet(criterion, [80, 95, 40])).toBe(true);
+    expect(criterionMet({ target: 3, comparison: 'below', sessions: 1 }, [3])).toBe(false);
+  });
+});
+
+describe('suggestGoalStatus', () => {
+  const goal = { status: 'active', measurable_criterion: '80% accuracy over 2 sessions' };
+
+  it('suggests achieved when every practice is done or the criterion is met', () => {
+    expect(suggestGoalStatus(goal, goalProgress([{ completed: true }, { completed: false }]), [90])).toBeNull();
+    expect(suggestGoalStatus(goal, goalProgress([{ completed: true }]), [])).toMatchObject({ status: 'achieved' });
+    expect(suggestGoalStatus(goal, goalProgress([]), [90, 82])).toMatchObject({ status: 'achieved' });
+  });
+
+  it('only suggests for active goals', () => {
+    expect(suggestGoalStatus({ ...goal, status: 'on_hold' }, goalProgress([{ completed: true }]), [90, 90])).toBeNull();
+  });
+});
+
+describe('isGoalOverdue', () => {
+  it('flags active goals past their target date with practices left', () => {
+    const unfinished = goalProgress([{ completed: true }, { completed: false }]);
+    const goal = { status: 'active', target_date: '2026-04-02' };
+
+    expect(isGoalOverdue(goal, unfinished, '2026-04-03')).toBe(true);
+    expect(isGoalOverdue(goal, unfinished, '2026-04-02')).toBe(false);
+    expect(isGoalOverdue(goal, goalProgress([{ completed: true }]), '2026-04-03')).toBe(false);
+    expect(isGoalOverdue({ ...goal, status: 'on_hold' }, unfinished, '2026-04-03')).toBe(false);
+  });
+});
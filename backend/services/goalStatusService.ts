@@ -0,0 +1,222 @@
+// backend/services/goalStatusService.ts
+// Goal status lifecycle (see goalLifecycle.ts) - moving goals along, their history of changes,
+// and the therapist's measurements that say when a goal's measurable criterion is met
+import * as goals from '../repositories/goalRepository';
+import * as exercises from '../repositories/exerciseRepository';
+import { Goal, GoalStatusChange, GoalMeasurement } from '../repositories/goalRepository';
+import { GoalExerciseRow } from '../repositories/exerciseRepository';
+import { createGoal, deleteGoal, assignExerciseToGoal, findGoalExerciseRules } from './therapistService';
+import { normaliseReason } from './sessionStatusService';
+import { rollUpProgress } from './goalHierarchy';
+import {
+  GoalStatus,
+  GoalProgress,
+  StatusSuggestion,
+  GOAL_STATUS_TRANSITIONS,
+  GOAL_STATUS_LABELS,
+  goalProgress,
+  isGoalOverdue,
+  suggestGoalStatus
+} from './goalLifecycle';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import { assertDate, assertOneOf, GOAL_STATUSES } from './validation';
+
+// Everything the therapist needs to decide where the goal goes next
+export interface GoalStatusSummary {
+  goal: Goal;
+  progress: GoalProgress; // Counts objectives rather than practices when the goal has any
+  objectives: number; // How many objectives the goal is broken into
+  overdue: boolean;
+  suggestion: StatusSuggestion | null;
+  history: GoalStatusChange[];
+  measurements: GoalMeasurement[]; // Newest first
+}
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+const findGoal = async (goalId: string): Promise<Goal> => {
+  const goal = await goals.findGoalById(goalId);
+  if (!goal) {
+    throw new NotFoundError('Goal not found');
+  }
+  return goal;
+};
+
+// Throws unless the goal may move from its current status to the new one
+const assertTransition = (goal: Goal, status: GoalStatus): void => {
+  const current = goal.status as GoalStatus;
+  if (!GOAL_STATUS_TRANSITIONS[current].includes(status)) {
+    throw new ConflictError(`A goal that is ${GOAL_STATUS_LABELS[current]} cannot be marked ${GOAL_STATUS_LABELS[status]}`);
+  }
+};
+
+// Saves the new status and adds it to the goal's history
+const moveGoal = async (
+  goal: Goal,
+  status: GoalStatus,
+  reason: unknown,
+  changedBy: string,
+  carriedOverTo: string | null = null
+): Promise<Goal> => {
+  const updated = await goals.updateGoalStatus(goal.goal_id, status, carriedOverTo);
+  await goals.recordGoalStatusChange({
+    goal_id: goal.goal_id,
+    from_status: goal.status,
+    to_status: status,
+    reason: normaliseReason(reason),
+    changed_by: changedBy
+  });
+  return updated!;
+};
+
+// A goal's progress through its practices, or rolled up from its objectives when it has any
+const progressOf = async (goalId: string): Promise<{ progress: GoalProgress; objectives: number }> => {
+  const objectives = await goals.findObjectives(goalId);
+  const rolledUp = objectives.length > 0
+    ? rollUpProgress(await Promise.all(objectives.map(async objective => ({
+      status: objective.status,
+      weight: objective.weight,
+      progress: goalProgress(await exercises.findGoalExerciseRowsByGoal(objective.goal_id))
+    }))))
+    : null;
+  return {
+    progress: rolledUp || goalProgress(await exercises.findGoalExerciseRowsByGoal(goalId)),
+    objectives: objectives.length
+  };
+};
+
+/**
+ * The goal's status with its history and measurements, how far through its practices (or objectives) it is,
+ * whether it is overdue, and the status it looks ready to move to
+ */
+export const getGoalStatus = async (goalId: string): Promise<GoalStatusSummary> => {
+  const goal = await findGoal(goalId);
+  const [{ progress, objectives }, history, measurements] = await Promise.all([
+    progressOf(goalId),
+    goals.findGoalStatusHistory(goalId),
+    goals.findGoalMeasurements(goalId)
+  ]);
+
+  return {
+    goal,
+    progress,
+    objectives,
+    overdue: isGoalOverdue(goal, progress, today()),
+    suggestion: suggestGoalStatus(goal, progress, measurements.map(measurement => measurement.score)),
+    history,
+    measurements
+  };
+};
+
+/**
+ * Moves a goal to a new status, keeping the reason and who made the change in its history
+ * Carrying a goal over needs a new target date, so it goes through carryOverGoal instead
+ */
+export const changeGoalStatus = async (
+  goalId: string,
+  status: string,
+  reason: unknown,
+  changedBy: string
+): Promise<Goal> => {
+  assertOneOf(status, GOAL_STATUSES, 'status');
+  if (status === 'carried_over') {
+    throw new ValidationError('Give a new target date to carry a goal over');
+  }
+
+  const goal = await findGoal(goalId);
+  assertTransition(goal, status as GoalStatus);
+  return moveGoal(goal, status as GoalStatus, reason, changedBy);
+};
+
+/**
+ * Continues an unfinished goal as a new active goal from today to targetDate, and marks the original carried over
+ * The new goal keeps the description, SMART fields, priority and place in its long-term goal, and each exercise
+ * is scheduled again by the rule it was practised by; exercises practised as needed stay as needed
+ * A long-term goal's unfinished objectives move to the new goal
+ * A schedule that can't be made leaves the original goal as it was
+ */
+export const carryOverGoal = async (
+  goalId: string,
+  targetDate: string,
+  reason: unknown,
+  changedBy: string
+): Promise<{ goal: Goal; continuation: Goal; rows: GoalExerciseRow[] }> => {
+  assertDate(targetDate, 'target_date');
+  const goal = await findGoal(goalId);
+  assertTransition(goal, 'carried_over');
+
+  const startDate = today();
+  if (targetDate <= startDate) {
+    throw new ValidationError('The carried-over goal needs a target date after today');
+  }
+
+  const [rules, previousRows] = await Promise.all([
+    findGoalExerciseRules(goalId),
+    exercises.findGoalExerciseRowsByGoal(goalId)
+  ]);
+  const exerciseIds = Array.from(new Set(previousRows.map(row => row.exercise_id)));
+
+  const continuation = await createGoal({
+    plan_id: goal.plan_id,
+    goal_description: goal.goal_description,
+    start_date: startDate,
+    target_date: targetDate,
+    status: 'active',
+    priority: goal.priority,
+    specific_behaviour: goal.specific_behaviour,
+    measurable_criterion: goal.measurable_criterion,
+    context: goal.context,
+    parent_goal_id: goal.parent_goal_id,
+    weight: goal.weight
+  }, changedBy);
+
+  const rows: GoalExerciseRow[] = [];
+  try {
+    for (const exerciseId of exerciseIds) {
+      const rule = rules.find(item => item.exercise.exercise_id === exerciseId);
+      rows.push(...(await assignExerciseToGoal(continuation.goal_id, exerciseId, rule ? { schedule: rule.rule } : {})));
+    }
+  } catch (error) {
+    await deleteGoal(continuation.goal_id);
+    throw error;
+  }
+
+  await goals.moveObjectives(goalId, continuation.goal_id, ['draft', 'active', 'on_hold']);
+  const updated = await moveGoal(goal, 'carried_over', reason, changedBy, continuation.goal_id);
+  return { goal: updated, continuation, rows };
+};
+
+/**
+ * Records the therapist's measure of the goal in a session, as a whole percentage
+ * measured_on defaults to today and can't be in the future
+ * Returns the status the goal now looks ready to move to, if any
+ */
+export const recordGoalMeasurement = async (
+  goalId: string,
+  input: { score?: unknown; measured_on?: unknown; note?: unknown },
+  recordedBy: string
+): Promise<{ measurement: GoalMeasurement; suggestion: StatusSuggestion | null }> => {
+  const { score, note } = input;
+  const measuredOn = input.measured_on === undefined || input.measured_on === null ? today() : input.measured_on;
+
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 0 || score > 100) {
+    throw new ValidationError('score must be a whole percentage from 0 to 100');
+  }
+  assertDate(measuredOn as string, 'measured_on');
+  if ((measuredOn as string) > today()) {
+    throw new ValidationError('A measurement cannot be recorded for a future date');
+  }
+  if (note !== undefined && note !== null && typeof note !== 'string') {
+    throw new ValidationError('note must be text');
+  }
+
+  await findGoal(goalId);
+  const measurement = await goals.createGoalMeasurement(goalId, recordedBy, {
+    measured_on: measuredOn as string,
+    score,
+    note: (note as string | null | undefined)?.trim() || null
+  });
+
+  const { suggestion } = await getGoalStatus(goalId);
+  return { measurement, suggestion };
+};
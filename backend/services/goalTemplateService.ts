@@ -0,0 +1,183 @@
+// backend/services/goalTemplateService.ts
+// Reusable SMART goals with a bundle of exercises, set for a patient in one step
+import * as templates from '../repositories/goalTemplateRepository';
+import { GoalTemplate, GoalTemplateFields, TemplateExerciseInput } from '../repositories/goalTemplateRepository';
+import { findClinicName } from '../repositories/accessRepository';
+import { Goal } from '../repositories/goalRepository';
+import { GoalExerciseRow } from '../repositories/exerciseRepository';
+import { Actor, assertCanUseExercise } from './accessPolicy';
+import { createGoal, deleteGoal, assignExerciseToGoal } from './therapistService';
+import { openTreatmentPlan } from './treatmentPlanService';
+import { addDays, parseScheduleRule, ruleForFrequency } from './exerciseSchedule';
+import { parseSmartFields, describeSmartGoal } from './smartGoal';
+import { ForbiddenError, NotFoundError, ValidationError } from './errors';
+import { assertDate, assertId, assertOneOf, GOAL_PRIORITIES } from './validation';
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_TIMEFRAME_WEEKS = 104;
+const MAX_TEMPLATE_EXERCISES = 10;
+
+// The therapist's own templates and the ones colleagues share with their clinic, by title
+export const getGoalTemplates = async (therapistId: string): Promise<GoalTemplate[]> => {
+  return templates.findGoalTemplates(therapistId, await findClinicName(therapistId));
+};
+
+/**
+ * Checks a template sent by the client:
+ * { title, specific_behaviour, measurable_criterion, context?, timeframe_weeks, priority?, exercises?: [{ exercise_id, schedule? }] }
+ * Bundled exercises must be ones the therapist can assign, and are listed in the order they will be assigned
+ */
+const parseTemplate = async (
+  actor: Actor,
+  input: any
+): Promise<{ fields: GoalTemplateFields; exercises: TemplateExerciseInput[] }> => {
+  const title = typeof input?.title === 'string' ? input.title.trim() : '';
+  if (!title || title.length > MAX_TITLE_LENGTH) {
+    throw new ValidationError(`title must be non-empty text of at most ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  const smart = parseSmartFields(input);
+  if (!smart.specific_behaviour || !smart.measurable_criterion) {
+    throw new ValidationError('specific_behaviour and measurable_criterion are required');
+  }
+
+  const weeks = input.timeframe_weeks;
+  if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_TIMEFRAME_WEEKS) {
+    throw new ValidationError(`timeframe_weeks must be a whole number from 1 to ${MAX_TIMEFRAME_WEEKS}`);
+  }
+
+  const priority = input.priority || 'medium';
+  assertOneOf(priority, GOAL_PRIORITIES, 'priority');
+
+  const list = input.exercises ?? [];
+  if (!Array.isArray(list) || list.length > MAX_TEMPLATE_EXERCISES) {
+    throw new ValidationError(`exercises must be a list of at most ${MAX_TEMPLATE_EXERCISES}`);
+  }
+  const exercises: TemplateExerciseInput[] = list.map((exercise: any, i: number) => {
+    assertId(exercise?.exercise_id, `Exercise ${i + 1}'s exercise_id`);
+    return {
+      exercise_id: exercise.exercise_id,
+      schedule: exercise.schedule == null ? null : parseScheduleRule(exercise.schedule)
+    };
+  });
+  if (new Set(exercises.map(exercise => exercise.exercise_id)).size !== exercises.length) {
+    throw new ValidationError('Each exercise can only be bundled once');
+  }
+  for (const exercise of exercises) {
+    await assertCanUseExercise(actor, exercise.exercise_id);
+  }
+
+  return {
+    fields: {
+      title,
+      specific_behaviour: smart.specific_behaviour,
+      measurable_criterion: smart.measurable_criterion,
+      context: smart.context || '',
+      timeframe_weeks: weeks,
+      priority
+    },
+    exercises
+  };
+};
+
+export const createGoalTemplate = async (actor: Actor, input: unknown): Promise<GoalTemplate> => {
+  const { fields, exercises } = await parseTemplate(actor, input);
+  const templateId = await templates.createGoalTemplate(actor.id, fields);
+  await templates.replaceTemplateExercises(templateId, exercises);
+  return (await templates.findGoalTemplateById(templateId)) as GoalTemplate;
+};
+
+// Replaces the template's fields and bundled exercises; goals already set from it keep theirs
+export const updateGoalTemplate = async (actor: Actor, templateId: string, input: unknown): Promise<GoalTemplate> => {
+  const { fields, exercises } = await parseTemplate(actor, input);
+  await templates.updateGoalTemplate(templateId, fields);
+  await templates.replaceTemplateExercises(templateId, exercises);
+  return (await templates.findGoalTemplateById(templateId)) as GoalTemplate;
+};
+
+/**
+ * Publishes a template to the therapist's clinic, or takes it back
+ * Colleagues can only set it for a patient once its exercises are shared too
+ */
+export const setGoalTemplateShared = async (
+  therapistId: string,
+  templateId: string,
+  isShared: unknown
+): Promise<GoalTemplate> => {
+  if (typeof isShared !== 'boolean') {
+    throw new ValidationError('is_shared must be true or false');
+  }
+  if (isShared && !(await findClinicName(therapistId))?.trim()) {
+    throw new ValidationError('Add your clinic to your profile before sharing goal templates');
+  }
+
+  await templates.setGoalTemplateShared(templateId, isShared);
+  return (await templates.findGoalTemplateById(templateId)) as GoalTemplate;
+};
+
+export const deleteGoalTemplate = async (templateId: string): Promise<void> => {
+  await templates.deleteGoalTemplate(templateId);
+};
+
+/**
+ * Sets the template's goal in the therapist's treatment plan with the patient and schedules its exercises
+ * The goal runs from start_date (default today) for the template's timeframe; priority defaults to the template's
+ * Each exercise is practised by the template's rule for it, or the rule its recommended frequency gives
+ * The route has checked the therapist may use the template and set goals for the patient
+ */
+export const instantiateGoalTemplate = async (
+  actor: Actor,
+  templateId: string,
+  input: { patient_id?: unknown; start_date?: unknown; priority?: unknown }
+): Promise<{ goal: Goal; rows: GoalExerciseRow[] }> => {
+  const template = await templates.findGoalTemplateById(templateId);
+  if (!template) {
+    throw new NotFoundError('Goal template not found');
+  }
+
+  const startDate = input.start_date || new Date().toISOString().slice(0, 10);
+  if (typeof startDate !== 'string') {
+    throw new ValidationError('start_date must be a date in YYYY-MM-DD format');
+  }
+  assertDate(startDate, 'start_date');
+
+  // A colleague's template may bundle exercises that were since taken back from the clinic
+  for (const exercise of template.exercises) {
+    try {
+      await assertCanUseExercise(actor, exercise.exercise_id);
+    } catch (error) {
+      if (!(error instanceof ForbiddenError)) throw error;
+      throw new ForbiddenError(`"${exercise.title}" is not shared with your clinic, so this template can't be used`);
+    }
+  }
+
+  const smart = {
+    specific_behaviour: template.specific_behaviour,
+    measurable_criterion: template.measurable_criterion,
+    context: template.context || null
+  };
+  const { plan } = await openTreatmentPlan(actor.id, input.patient_id as string);
+  const goal = await createGoal({
+    plan_id: plan.plan_id,
+    goal_description: describeSmartGoal(smart),
+    start_date: startDate,
+    target_date: addDays(startDate, template.timeframe_weeks * 7),
+    status: 'active',
+    priority: (input.priority as string) || template.priority,
+    ...smart
+  }, actor.id);
+
+  // A schedule that can't be made leaves no half-set goal behind
+  const rows: GoalExerciseRow[] = [];
+  try {
+    for (const exercise of template.exercises) {
+      rows.push(...(await assignExerciseToGoal(goal.goal_id, exercise.exercise_id, {
+        schedule: exercise.schedule || ruleForFrequency(exercise.recommended_frequency)
+      })));
+    }
+  } catch (error) {
+    await deleteGoal(goal.goal_id);
+    throw error;
+  }
+  return { goal, rows };
+};
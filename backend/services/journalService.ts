@@ -0,0 +1,132 @@
+// backend/services/journalService.ts
+// The patient's journal: how they felt and how confident they were speaking, day by day
+import * as journal from '../repositories/journalRepository';
+import { JournalEntry, JournalEntryFields, JournalVisibility } from '../repositories/journalRepository';
+import { findPatientIdForGoal } from '../repositories/accessRepository';
+import { Actor } from './accessPolicy';
+import { ForbiddenError, NotFoundError, ValidationError } from './errors';
+import { assertDate, assertId, assertOneOf, JOURNAL_VISIBILITIES } from './validation';
+
+const MOOD_RANGE = { min: 1, max: 5 };
+const CONFIDENCE_RANGE = { min: 1, max: 10 };
+
+// Average mood and confidence for the week starting on week_start (a Monday)
+export interface JournalTrendPoint {
+  week_start: string;
+  mood: number;
+  confidence: number;
+  entries: number;
+}
+
+const assertScore = (value: unknown, range: { min: number; max: number }, field: string): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < range.min || value > range.max) {
+    throw new ValidationError(`${field} must be a whole number from ${range.min} to ${range.max}`);
+  }
+  return value;
+};
+
+/**
+ * Checks an entry sent by the patient; the whole entry is replaced with what is sent
+ * A linked goal must be one of the patient's own, and a linked exercise one they have been given
+ */
+const parseEntry = async (patientId: string, input: any): Promise<JournalEntryFields> => {
+  const { entry_date, content, goal_id, exercise_id } = input;
+
+  assertDate(entry_date, 'entry_date');
+  if (entry_date > new Date().toISOString().slice(0, 10)) {
+    throw new ValidationError('Journal entries can\'t be dated in the future');
+  }
+  if (content !== undefined && content !== null && typeof content !== 'string') {
+    throw new ValidationError('content must be text');
+  }
+
+  const visibility = input.visibility ?? 'private';
+  assertOneOf(visibility, JOURNAL_VISIBILITIES, 'visibility');
+
+  if (goal_id) {
+    assertId(goal_id, 'goal_id');
+    if ((await findPatientIdForGoal(goal_id)) !== patientId) {
+      throw new ValidationError('The linked goal must be one of your own goals');
+    }
+  }
+  if (exercise_id) {
+    assertId(exercise_id, 'exercise_id');
+    if (!(await journal.isExerciseAssignedToPatient(exercise_id, patientId))) {
+      throw new ValidationError('The linked exercise must be one you have been given');
+    }
+  }
+
+  return {
+    entry_date,
+    content: (content || '').trim(),
+    mood: assertScore(input.mood, MOOD_RANGE, 'mood'),
+    confidence: assertScore(input.confidence, CONFIDENCE_RANGE, 'confidence'),
+    goal_id: goal_id || null,
+    exercise_id: exercise_id || null,
+    visibility: visibility as JournalVisibility
+  };
+};
+
+/**
+ * The journal as the actor is allowed to see it
+ * Patients see every entry they wrote; therapists only the ones shared with them
+ * Carers don't see the journal at all
+ */
+export const getJournal = async (actor: Actor, patientId: string): Promise<JournalEntry[]> => {
+  if (actor.role === 'parent_carer') {
+    throw new ForbiddenError('The journal is only shared with the patient\'s therapists');
+  }
+  return journal.findEntriesByPatient(patientId, actor.role !== 'patient');
+};
+
+export const createJournalEntry = async (patientId: string, input: any): Promise<JournalEntry> => {
+  return journal.createEntry(patientId, await parseEntry(patientId, input));
+};
+
+// Access to the entry is checked by the route (authorizeResource)
+export const updateJournalEntry = async (entryId: string, input: any): Promise<JournalEntry> => {
+  const entry = await journal.findEntryById(entryId);
+  if (!entry) {
+    throw new NotFoundError('Journal entry not found');
+  }
+
+  const updated = await journal.updateEntry(entryId, await parseEntry(entry.patient_id, input));
+  if (!updated) {
+    throw new NotFoundError('Journal entry not found');
+  }
+  return updated;
+};
+
+export const deleteJournalEntry = async (entryId: string): Promise<void> => {
+  await journal.deleteEntry(entryId);
+};
+
+// The Monday on or before the date, as YYYY-MM-DD
+const weekStart = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+};
+
+const average = (values: number[]): number => {
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+};
+
+// Weekly averages of mood and confidence, oldest week first, for the trend charts
+export const buildJournalTrend = (entries: JournalEntry[]): JournalTrendPoint[] => {
+  const weeks = new Map<string, JournalEntry[]>();
+  for (const entry of entries) {
+    const key = weekStart(entry.entry_date);
+    weeks.set(key, [...(weeks.get(key) || []), entry]);
+  }
+
+  return [...weeks.keys()].sort().map(week => {
+    const weekEntries = weeks.get(week)!;
+    return {
+      week_start: week,
+      mood: average(weekEntries.map(entry => entry.mood)),
+      confidence: average(weekEntries.map(entry => entry.confidence)),
+      entries: weekEntries.length
+    };
+  });
+};
@@ -0,0 +1,26 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileTransport } from './mailer';
+
+describe('FileTransport', () => {
+  it('writes each email to a file in the outbox directory', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ownurvoice-mail-'));
+    const transport = new FileTransport(directory);
+
+    await transport.send({
+      to: 'patient@example.com',
+      subject: 'Reset your OwnUrVoice password',
+      text: 'http://localhost:3000/reset-password?token=abc'
+    });
+
+    const files = fs.readdirSync(directory);
+    expect(files).toHaveLength(1);
+
+    const contents = fs.readFileSync(path.join(directory, files[0]), 'utf8');
+    expect(contents).toContain('To: patient@example.com');
+    expect(contents).toContain('reset-password?token=abc');
+
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,57 @@
+// backend/services/mailer.ts
+import fs from 'fs';
+import path from 'path';
+
+// A plain-text email
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver an email - swap in an SMTP or provider-backed transport in production
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'OwnUrVoice <no-reply@ownurvoice.local>';
+
+// Prints emails to the server log - the default, so links can be copied during local development
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      `\n--- Email ---\nFrom: ${MAIL_FROM}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n-------------\n`
+    );
+  }
+}
+
+// Writes each email to its own .txt file, for offline testing without a mail server
+export class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.txt`;
+    const contents = `From: ${MAIL_FROM}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await fs.promises.writeFile(path.join(this.directory, fileName), contents, 'utf8');
+  }
+}
+
+// Picks the transport from MAIL_TRANSPORT (console | file)
+const createDefaultTransport = (): MailTransport => {
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    return new FileTransport(process.env.MAIL_FILE_DIR || path.join(__dirname, '..', 'mail-outbox'));
+  }
+  return new ConsoleTransport();
+};
+
+let transport: MailTransport = createDefaultTransport();
+
+// Replaces the active transport (used by tests and to plug in a real provider)
+export const setMailTransport = (newTransport: MailTransport): void => {
+  transport = newTransport;
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => {
+  return transport.send(message);
+};
@@ -0,0 +1,19 @@
+// backend/services/mediaStorage.ts
+import path from 'path';
+import { BlobStorage, FileStorage } from './fileStorage';
+
+// Images, audio and video therapists attach to library exercises
+let storage: BlobStorage = new FileStorage(
+  process.env.MEDIA_STORAGE_DIR || path.join(__dirname, '..', 'media')
+);
+
+// Replaces the active storage (used by tests and to plug in a real provider)
+export const setMediaStorage = (newStorage: BlobStorage): void => {
+  storage = newStorage;
+};
+
+export const saveMedia = (key: string, data: Buffer): Promise<void> => storage.save(key, data);
+
+export const readMedia = (key: string): Promise<Buffer | null> => storage.read(key);
+
+export const removeMedia = (key: string): Promise<void> => storage.remove(key);
@@ -0,0 +1,160 @@
+// backend/services/patientService.ts
+// Server-side versions of the frontend's supabasePatientService functions, plus the patient reads therapists share
+import * as patients from '../repositories/patientRepository';
+import * as sessions from '../repositories/sessionRepository';
+import * as goals from '../repositories/goalRepository';
+import * as exercises from '../repositories/exerciseRepository';
+import { Patient, Therapist } from '../repositories/patientRepository';
+import { Session } from '../repositories/sessionRepository';
+import { Goal } from '../repositories/goalRepository';
+import {
+  GoalExerciseRow,
+  GoalExerciseRowUpdate,
+  SessionExercise
+} from '../repositories/exerciseRepository';
+import { NotFoundError, ValidationError } from './errors';
+import { AttendanceSummary, summariseAttendance } from './sessionStatusService';
+import { GoalNode, buildGoalTree } from './goalHierarchy';
+
+export interface PatientStats {
+  totalSessions: number;
+  totalGoals: number;
+  completedGoals: number;
+  goalCompletionRate: number;
+  totalExercises: number;
+  completedExercises: number;
+  exerciseCompletionRate: number;
+  attendance: AttendanceSummary;
+}
+
+// Percentage rounded to a whole number, 0 when there is nothing to count
+const percentage = (part: number, total: number): number => {
+  return total ? Math.round((part / total) * 100) : 0;
+};
+
+export const getPatientProfile = async (patientId: string): Promise<Patient> => {
+  const patient = await patients.findPatientById(patientId);
+  if (!patient) {
+    throw new NotFoundError('Patient not found');
+  }
+  return patient;
+};
+
+// Every therapist the patient has accepted
+export const getPatientTherapists = async (patientId: string): Promise<Therapist[]> => {
+  return patients.findTherapistsByPatient(patientId);
+};
+
+// All sessions, past and upcoming, so the client can filter by past/upcoming/this week
+export const getPatientSessions = async (patientId: string): Promise<Session[]> => {
+  return sessions.findSessionsByPatient(patientId);
+};
+
+// All goals across every session, or only the current ones when activeOnly is set
+export const getPatientGoals = async (patientId: string, activeOnly: boolean = false): Promise<Goal[]> => {
+  return activeOnly
+    ? goals.findActiveGoalsByPatient(patientId)
+    : goals.findGoalsByPatient(patientId);
+};
+
+/**
+ * The patient's goals with each short-term objective nested under its long-term goal
+ * A long-term goal's progress is rolled up from its objectives by their weights
+ */
+export const getPatientGoalTree = async (patientId: string, activeOnly: boolean = false): Promise<GoalNode<Goal>[]> => {
+  const [patientGoals, rows] = await Promise.all([
+    getPatientGoals(patientId, activeOnly),
+    exercises.findGoalExerciseRowsByPatient(patientId)
+  ]);
+  return buildGoalTree(patientGoals, rows);
+};
+
+// Every goal_exercise_set row across the patient's goals, with its exercise and goal
+export const getPatientExercises = async (patientId: string): Promise<GoalExerciseRow[]> => {
+  return exercises.findGoalExerciseRowsByPatient(patientId);
+};
+
+export const getPatientSessionExercises = async (patientId: string): Promise<SessionExercise[]> => {
+  return exercises.findSessionExercisesByPatient(patientId);
+};
+
+// The rows behind a goal's progress bar and weekly grid
+export const getGoalExerciseRows = async (goalId: string): Promise<GoalExerciseRow[]> => {
+  const goal = await goals.findGoalById(goalId);
+  if (!goal) {
+    throw new NotFoundError('Goal not found');
+  }
+  return exercises.findGoalExerciseRowsByGoal(goalId);
+};
+
+/**
+ * Ticks/unticks a practice row or records how difficult it felt
+ * difficulty_rating is a whole number from 0 to 10, or null to clear it
+ * updatedBy is the patient or the carer ticking on their behalf, stored as completed_by
+ */
+export const updateGoalExerciseRow = async (
+  rowId: string,
+  updates: GoalExerciseRowUpdate,
+  updatedBy: string
+): Promise<GoalExerciseRow> => {
+  if (updates.completed !== undefined && typeof updates.completed !== 'boolean') {
+    throw new ValidationError('completed must be true or false');
+  }
+
+  const rating = updates.difficulty_rating;
+  if (rating !== undefined && rating !== null && (!Number.isInteger(rating) || rating < 0 || rating > 10)) {
+    throw new ValidationError('difficulty_rating must be a whole number from 0 to 10');
+  }
+
+  const row = await exercises.updateGoalExerciseRow(rowId, updates, updatedBy);
+  if (!row) {
+    throw new NotFoundError('Exercise row not found');
+  }
+  return row;
+};
+
+// Marks an exercise from a session as done and timestamps it
+export const markExerciseComplete = async (sessionId: string, exerciseId: string): Promise<SessionExercise> => {
+  const sessionExercise = await exercises.markSessionExerciseComplete(sessionId, exerciseId);
+  if (!sessionExercise) {
+    throw new NotFoundError('Session exercise not found');
+  }
+  return sessionExercise;
+};
+
+export const addExerciseNotes = async (
+  sessionId: string,
+  exerciseId: string,
+  notes: string
+): Promise<SessionExercise> => {
+  const sessionExercise = await exercises.updateSessionExerciseNotes(sessionId, exerciseId, notes);
+  if (!sessionExercise) {
+    throw new NotFoundError('Session exercise not found');
+  }
+  return sessionExercise;
+};
+
+// Completion and attendance rates for the patient dashboard
+export const getPatientStats = async (patientId: string): Promise<PatientStats> => {
+  const [patientSessions, patientGoals, sessionExercises] = await Promise.all([
+    sessions.findSessionsByPatient(patientId),
+    goals.findGoalsByPatient(patientId),
+    exercises.findSessionExercisesByPatient(patientId)
+  ]);
+
+  // Drafts aren't set yet, and a carried-over goal is counted once, as the goal that continues it
+  const setGoals = patientGoals.filter(goal => goal.status !== 'draft' && goal.status !== 'carried_over');
+  const completedGoals = setGoals.filter(goal => goal.status === 'achieved').length;
+  const completedExercises = sessionExercises.filter(exercise => exercise.completed).length;
+
+  return {
+    totalSessions: patientSessions.length,
+    totalGoals: setGoals.length,
+    completedGoals,
+    goalCompletionRate: percentage(completedGoals, setGoals.length),
+    totalExercises: sessionExercises.length,
+    completedExercises,
+    exerciseCompletionRate: percentage(completedExercises, sessionExercises.length),
+    attendance: summariseAttendance(patientSessions.map(session => session.status))
+  };
+};
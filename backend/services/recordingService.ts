@@ -0,0 +1,266 @@
+// backend/services/recordingService.ts
+// Audio the patient records while practising, and the therapist's review of it
+import { randomUUID } from 'crypto';
+import * as recordings from '../repositories/recordingRepository';
+import { ExerciseRecording, RecordingComment } from '../repositories/recordingRepository';
+import { saveRecordingAudio, readRecordingAudio, removeRecordingAudio } from './recordingStorage';
+import { analyzeFluency, decodeWav, FluencyMetrics } from './fluencyAnalysis';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+
+// What MediaRecorder produces in the browsers we support, plus common upload formats
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav'
+};
+
+export const MAX_RECORDING_BYTES = 10 * 1024 * 1024;
+
+const MAX_COMMENT_LENGTH = 1000;
+
+// Weekly averages of one exercise's fluency measures, for the charts next to the goal's progress
+export interface FluencyTrendPoint extends Omit<FluencyMetrics, 'syllable_count'> {
+  week_start: string; // The Monday, as YYYY-MM-DD
+  recordings: number;
+}
+
+export interface FluencyTrend {
+  goal_id: string;
+  exercise_id: string;
+  exercise_title: string;
+  weeks: FluencyTrendPoint[];
+}
+
+const findRecording = async (recordingId: string): Promise<ExerciseRecording> => {
+  const recording = await recordings.findRecordingById(recordingId);
+  if (!recording) {
+    throw new NotFoundError('Recording not found');
+  }
+  return recording;
+};
+
+// Recordings with their comments attached, as the list endpoints return them
+const withComments = (list: ExerciseRecording[], comments: RecordingComment[]): ExerciseRecording[] => {
+  return list.map(recording => ({
+    ...recording,
+    comments: comments.filter(comment => comment.recording_id === recording.recording_id)
+  }));
+};
+
+/**
+ * Stores an attempt at an exercise row; the audio is keyed by the row so a row's recordings sit together
+ * The route has checked the row is one of the patient's own
+ * mimeType is the request's Content-Type, which may carry codec parameters (audio/webm;codecs=opus)
+ */
+export const uploadRecording = async (
+  rowId: string,
+  patientId: string,
+  audio: unknown,
+  mimeType: string | undefined,
+  durationSeconds: unknown
+): Promise<ExerciseRecording> => {
+  const baseType = (mimeType || '').split(';')[0].trim().toLowerCase();
+  const extension = AUDIO_EXTENSIONS[baseType];
+  if (!extension || !Buffer.isBuffer(audio)) {
+    throw new ValidationError(`Send the recording as audio (${Object.keys(AUDIO_EXTENSIONS).join(', ')})`);
+  }
+  if (audio.length === 0) {
+    throw new ValidationError('The recording is empty');
+  }
+  if (audio.length > MAX_RECORDING_BYTES) {
+    throw new ValidationError('Recordings can be at most 10 MB');
+  }
+
+  let duration: number | null = null;
+  if (durationSeconds !== undefined && durationSeconds !== '') {
+    duration = Number(durationSeconds);
+    if (!Number.isInteger(duration) || duration < 0) {
+      throw new ValidationError('duration_seconds must be a whole number of seconds');
+    }
+  }
+
+  const storageKey = `${rowId}/${randomUUID()}.${extension}`;
+  await saveRecordingAudio(storageKey, audio);
+
+  let recording: ExerciseRecording;
+  try {
+    recording = await recordings.createRecording({
+      row_id: rowId,
+      patient_id: patientId,
+      storage_key: storageKey,
+      mime_type: baseType,
+      size_bytes: audio.length,
+      duration_seconds: duration
+    });
+  } catch (error) {
+    // Don't leave audio behind that nothing points to
+    await removeRecordingAudio(storageKey);
+    throw error;
+  }
+
+  // WAV can be analysed here; compressed audio is analysed in the browser, which sends the measures after
+  const decoded = baseType === 'audio/wav' ? decodeWav(audio) : null;
+  if (!decoded) return recording;
+  return (await recordings.saveMetrics(recording.recording_id, analyzeFluency(decoded))) || recording;
+};
+
+/**
+ * Stores fluency measures worked out in the browser, for audio the server can't decode
+ * A recording is only analysed once, so the measures can't be rewritten afterwards
+ */
+export const saveRecordingMetrics = async (recordingId: string, input: any): Promise<ExerciseRecording> => {
+  const metrics = {} as FluencyMetrics;
+  const fields: (keyof FluencyMetrics)[] = [
+    'speaking_ms', 'pause_count', 'pause_ms', 'syllable_count', 'syllables_per_minute', 'longest_fluent_ms'
+  ];
+  for (const field of fields) {
+    const value = (input || {})[field];
+    // The rate is the only measure that isn't a whole number
+    const wholeNumber = field !== 'syllables_per_minute';
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (wholeNumber && !Number.isInteger(value))) {
+      throw new ValidationError(`${field} must be a ${wholeNumber ? 'whole ' : ''}number of at least 0`);
+    }
+    metrics[field] = value;
+  }
+
+  await findRecording(recordingId);
+  const analyzed = await recordings.saveMetrics(recordingId, metrics);
+  if (!analyzed) {
+    throw new ConflictError('This recording has already been analysed');
+  }
+  return analyzed;
+};
+
+export const getRowRecordings = async (rowId: string): Promise<ExerciseRecording[]> => {
+  const [list, comments] = await Promise.all([
+    recordings.findRecordingsByRow(rowId),
+    recordings.findCommentsByRow(rowId)
+  ]);
+  return withComments(list, comments);
+};
+
+export const getPatientRecordings = async (patientId: string): Promise<ExerciseRecording[]> => {
+  const [list, comments] = await Promise.all([
+    recordings.findRecordingsByPatient(patientId),
+    recordings.findCommentsByPatient(patientId)
+  ]);
+  return withComments(list, comments);
+};
+
+// The audio to play back, with the type it was uploaded as
+export const getRecordingAudio = async (recordingId: string): Promise<{ audio: Buffer; mimeType: string }> => {
+  const recording = await findRecording(recordingId);
+  const audio = await readRecordingAudio(recording.storage_key);
+  if (!audio) {
+    throw new NotFoundError('The audio for this recording is missing');
+  }
+  return { audio, mimeType: recording.mime_type };
+};
+
+/**
+ * Leaves a comment on a moment in the recording, e.g. "0:42 - good easy onset here"
+ * positionSeconds can't be past the end of the recording when its length is known
+ */
+export const addRecordingComment = async (
+  recordingId: string,
+  authorId: string,
+  positionSeconds: unknown,
+  content: unknown
+): Promise<RecordingComment> => {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new ValidationError('content is required');
+  }
+  if (content.trim().length > MAX_COMMENT_LENGTH) {
+    throw new ValidationError(`Comments can be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const position = positionSeconds === undefined || positionSeconds === null ? 0 : positionSeconds;
+  if (typeof position !== 'number' || !Number.isInteger(position) || position < 0) {
+    throw new ValidationError('position_seconds must be a whole number of seconds');
+  }
+
+  const recording = await findRecording(recordingId);
+  if (recording.duration_seconds !== null && position > recording.duration_seconds) {
+    throw new ValidationError('position_seconds is past the end of the recording');
+  }
+
+  return recordings.createComment(recordingId, authorId, position, content.trim());
+};
+
+export const markRecordingReviewed = async (recordingId: string, reviewerId: string): Promise<ExerciseRecording> => {
+  await findRecording(recordingId);
+
+  const reviewed = await recordings.markReviewed(recordingId, reviewerId);
+  if (!reviewed) {
+    throw new ConflictError('This recording has already been reviewed');
+  }
+  return reviewed;
+};
+
+// Patients can take back a recording until their therapist has reviewed it
+export const deleteRecording = async (recordingId: string): Promise<void> => {
+  const recording = await findRecording(recordingId);
+  if (recording.reviewed_at) {
+    throw new ConflictError('Reviewed recordings are kept with the therapist\'s comments');
+  }
+
+  await recordings.deleteRecording(recordingId);
+  await removeRecordingAudio(recording.storage_key);
+};
+
+// The Monday on or before the day the recording was made, as YYYY-MM-DD
+const weekStart = (date: Date): string => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+};
+
+const average = (values: number[]): number => {
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+};
+
+/**
+ * Weekly averages of the fluency measures, one trend per exercise in each goal, oldest week first
+ * Recordings that haven't been analysed are left out
+ */
+export const buildFluencyTrends = (list: ExerciseRecording[]): FluencyTrend[] => {
+  const trends = new Map<string, { trend: FluencyTrend; weeks: Map<string, ExerciseRecording[]> }>();
+  for (const recording of list) {
+    if (!recording.analyzed_at || !recording.row || !recording.exercise) continue;
+
+    const key = `${recording.row.goal_id}/${recording.exercise.exercise_id}`;
+    if (!trends.has(key)) {
+      trends.set(key, {
+        trend: {
+          goal_id: recording.row.goal_id,
+          exercise_id: recording.exercise.exercise_id,
+          exercise_title: recording.exercise.title,
+          weeks: []
+        },
+        weeks: new Map()
+      });
+    }
+    const { weeks } = trends.get(key)!;
+    const week = weekStart(new Date(recording.created_at));
+    weeks.set(week, [...(weeks.get(week) || []), recording]);
+  }
+
+  return [...trends.values()].map(({ trend, weeks }) => ({
+    ...trend,
+    weeks: [...weeks.keys()].sort().map(week => {
+      const weekRecordings = weeks.get(week)!;
+      const averageOf = (field: keyof FluencyMetrics) => average(weekRecordings.map(recording => recording[field] as number));
+      return {
+        week_start: week,
+        speaking_ms: averageOf('speaking_ms'),
+        pause_count: averageOf('pause_count'),
+        pause_ms: averageOf('pause_ms'),
+        syllables_per_minute: averageOf('syllables_per_minute'),
+        longest_fluent_ms: averageOf('longest_fluent_ms'),
+        recordings: weekRecordings.length
+      };
+    })
+  }));
+};
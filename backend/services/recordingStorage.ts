@@ -0,0 +1,19 @@
+// backend/services/recordingStorage.ts
+import path from 'path';
+import { BlobStorage, FileStorage } from './fileStorage';
+
+// Patients' exercise recordings; kept apart from exercise media so each can live in its own store
+let storage: BlobStorage = new FileStorage(
+  process.env.RECORDING_STORAGE_DIR || path.join(__dirname, '..', 'recordings')
+);
+
+// Replaces the active storage (used by tests and to plug in a real provider)
+export const setRecordingStorage = (newStorage: BlobStorage): void => {
+  storage = newStorage;
+};
+
+export const saveRecordingAudio = (key: string, data: Buffer): Promise<void> => storage.save(key, data);
+
+export const readRecordingAudio = (key: string): Promise<Buffer | null> => storage.read(key);
+
+export const removeRecordingAudio = (key: string): Promise<void> => storage.remove(key);
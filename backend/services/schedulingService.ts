@@ -0,0 +1,216 @@
+// backend/services/schedulingService.ts
+// Session lengths, therapist working hours, double-booking checks and free-slot suggestions
+import * as sessions from '../repositories/sessionRepository';
+import * as availability from '../repositories/availabilityRepository';
+import { NewAvailabilityWindow } from '../repositories/availabilityRepository';
+import { ConflictError, ValidationError } from './errors';
+import { assertDate, assertTime } from './validation';
+import { localNow } from './clock';
+
+export const DEFAULT_SESSION_MINUTES = 60;
+const MIN_SESSION_MINUTES = 15;
+const MAX_SESSION_MINUTES = 240;
+
+// Used until a therapist saves their own working hours: Monday to Friday, 09:00-17:00
+const DEFAULT_WORKING_HOURS: NewAvailabilityWindow[] = [1, 2, 3, 4, 5].map(day => ({
+  day_of_week: day,
+  start_time: '09:00:00',
+  end_time: '17:00:00'
+}));
+
+// Free slots start on the half hour, up to four weeks ahead
+const SLOT_STEP_MINUTES = 30;
+const FREE_SLOT_SEARCH_DAYS = 28;
+const MAX_FREE_SLOTS = 20;
+
+// Where and how long a session would be, before it is saved
+export interface ProposedSession {
+  session_date: string;
+  session_time: string;
+  duration_minutes: number;
+}
+
+export interface FreeSlot {
+  session_date: string;
+  session_time: string;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number): string => {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+};
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+const dayOfWeek = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Minutes since 1970-01-01 00:00 in the clinic's local time, so a session that runs past midnight
+// still overlaps one booked early the next morning
+const startMinute = (session: ProposedSession): number => {
+  return Date.parse(`${session.session_date}T00:00:00Z`) / 60000 + toMinutes(session.session_time);
+};
+
+const overlaps = (a: ProposedSession, b: ProposedSession): boolean => {
+  const aStart = startMinute(a);
+  const bStart = startMinute(b);
+  return aStart < bStart + b.duration_minutes && bStart < aStart + a.duration_minutes;
+};
+
+const withinWorkingHours = (windows: NewAvailabilityWindow[], session: ProposedSession): boolean => {
+  const start = toMinutes(session.session_time);
+  const day = dayOfWeek(session.session_date);
+  return windows.some(window =>
+    window.day_of_week === day &&
+    toMinutes(window.start_time) <= start &&
+    start + session.duration_minutes <= toMinutes(window.end_time)
+  );
+};
+
+export const assertDuration = (value: number): void => {
+  if (!Number.isInteger(value) || value < MIN_SESSION_MINUTES || value > MAX_SESSION_MINUTES) {
+    throw new ValidationError(
+      `duration_minutes must be a whole number from ${MIN_SESSION_MINUTES} to ${MAX_SESSION_MINUTES}`
+    );
+  }
+};
+
+// The therapist's saved working hours, or the default working week if they have not set any
+export const getWorkingHours = async (
+  therapistId: string
+): Promise<{ availability: NewAvailabilityWindow[]; usingDefault: boolean }> => {
+  const saved = await availability.findAvailabilityByTherapist(therapistId);
+  return saved.length > 0
+    ? { availability: saved, usingDefault: false }
+    : { availability: DEFAULT_WORKING_HOURS, usingDefault: true };
+};
+
+// Replaces the whole week; windows on the same day must not overlap
+export const saveWorkingHours = async (
+  therapistId: string,
+  windows: NewAvailabilityWindow[]
+): Promise<NewAvailabilityWindow[]> => {
+  if (!Array.isArray(windows)) {
+    throw new ValidationError('availability must be a list of working windows');
+  }
+
+  windows.forEach(window => {
+    if (!window || typeof window !== 'object') {
+      throw new ValidationError('Each working window needs a day_of_week, start_time and end_time');
+    }
+    if (!Number.isInteger(window.day_of_week) || window.day_of_week < 0 || window.day_of_week > 6) {
+      throw new ValidationError('day_of_week must be a whole number from 0 (Sunday) to 6 (Saturday)');
+    }
+    assertTime(window.start_time, 'start_time');
+    assertTime(window.end_time, 'end_time');
+    if (toMinutes(window.end_time) <= toMinutes(window.start_time)) {
+      throw new ValidationError('end_time must be after start_time');
+    }
+  });
+
+  windows.forEach((window, i) => {
+    const clash = windows.slice(i + 1).some(other =>
+      other.day_of_week === window.day_of_week &&
+      toMinutes(other.start_time) < toMinutes(window.end_time) &&
+      toMinutes(window.start_time) < toMinutes(other.end_time)
+    );
+    if (clash) {
+      throw new ValidationError('Working windows on the same day cannot overlap');
+    }
+  });
+
+  return availability.replaceAvailability(therapistId, windows);
+};
+
+/**
+ * Rejects bookings that overlap another of the therapist's sessions
+ * ignoreSessionIds are sessions being moved, so they don't clash with their own old times
+ */
+export const assertNoConflicts = async (
+  therapistId: string,
+  proposed: ProposedSession[],
+  ignoreSessionIds: string[] = []
+): Promise<void> => {
+  if (proposed.length === 0) return;
+
+  const dates = proposed.map(p => p.session_date).sort();
+  // From the day before, in case a session then runs past midnight
+  const existing = (await sessions.findTherapistSessionsBetween(therapistId, addDays(dates[0], -1), dates[dates.length - 1]))
+    .filter(s => !ignoreSessionIds.includes(s.session_id));
+
+  for (const session of proposed) {
+    const clash = existing.find(s => overlaps(session, s));
+    if (clash) {
+      throw new ConflictError(
+        `This overlaps another session on ${clash.session_date} at ${clash.session_time.slice(0, 5)}`
+      );
+    }
+  }
+};
+
+// Bookings outside working hours are allowed, but the therapist is told about them
+export const findWorkingHoursWarnings = async (therapistId: string, proposed: ProposedSession[]): Promise<string[]> => {
+  const { availability: windows } = await getWorkingHours(therapistId);
+  return proposed
+    .filter(session => !withinWorkingHours(windows, session))
+    .map(session => `${session.session_date} at ${session.session_time.slice(0, 5)} is outside your working hours`);
+};
+
+/**
+ * The earliest times within working hours that have room for a session of this length
+ * Searches up to four weeks from fromDate; on today's date, times that have passed are skipped
+ */
+export const getNextFreeSlots = async (
+  therapistId: string,
+  fromDate: string,
+  durationMinutes: number = DEFAULT_SESSION_MINUTES,
+  count: number = 5
+): Promise<FreeSlot[]> => {
+  assertDate(fromDate, 'from');
+  assertDuration(durationMinutes);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_FREE_SLOTS) {
+    throw new ValidationError(`count must be a whole number from 1 to ${MAX_FREE_SLOTS}`);
+  }
+
+  const toDate = addDays(fromDate, FREE_SLOT_SEARCH_DAYS - 1);
+  const [{ availability: windows }, booked] = await Promise.all([
+    getWorkingHours(therapistId),
+    // From the day before, in case a session then runs past midnight
+    sessions.findTherapistSessionsBetween(therapistId, addDays(fromDate, -1), toDate)
+  ]);
+
+  const { today, nowMinutes } = localNow();
+
+  const slots: FreeSlot[] = [];
+  for (let date = fromDate; date <= toDate && slots.length < count; date = addDays(date, 1)) {
+    if (date < today) continue;
+
+    const day = dayOfWeek(date);
+    const dayWindows = windows
+      .filter(window => window.day_of_week === day)
+      .sort((a, b) => toMinutes(a.start_time) - toMinutes(b.start_time));
+
+    for (const window of dayWindows) {
+      const end = toMinutes(window.end_time);
+      for (let start = toMinutes(window.start_time); start + durationMinutes <= end; start += SLOT_STEP_MINUTES) {
+        if (date === today && start <= nowMinutes) continue;
+
+        const candidate = { session_date: date, session_time: toTime(start), duration_minutes: durationMinutes };
+        if (booked.some(s => overlaps(candidate, s))) continue;
+
+        slots.push({ session_date: date, session_time: candidate.session_time });
+        if (slots.length === count) break;
+      }
+      if (slots.length === count) break;
+    }
+  }
+
+  return slots;
+};
@@ -0,0 +1,154 @@
+// backend/services/sessionNoteService.ts
+// Clinical session notes in SOAP form: drafts, signing, and addenda to signed notes
+import * as sessions from '../repositories/sessionRepository';
+import * as notes from '../repositories/sessionNoteRepository';
+import { Session } from '../repositories/sessionRepository';
+import { SessionNote, NoteAddendum, NoteContent } from '../repositories/sessionNoteRepository';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from './errors';
+import { RELEASED_STATUSES, SessionStatus } from './sessionStatusService';
+
+const NOTE_SECTIONS = ['subjective', 'objective', 'assessment', 'plan'] as const;
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+const SIGNED_MESSAGE = 'This note has been signed and can no longer be changed. Add an addendum instead.';
+
+const findSession = async (sessionId: string): Promise<Session> => {
+  const session = await sessions.findSessionById(sessionId);
+  if (!session) {
+    throw new NotFoundError('Session not found');
+  }
+  return session;
+};
+
+const findNote = async (sessionId: string): Promise<SessionNote> => {
+  const note = await notes.findNoteBySession(sessionId);
+  if (!note) {
+    throw new NotFoundError('This session has no notes yet');
+  }
+  return note;
+};
+
+// Tags are short labels for finding notes again, e.g. "fluency" or "homework"; stored lower case without repeats
+const parseTags = (tags: unknown): string[] => {
+  if (tags === undefined || tags === null) return [];
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new ValidationError('tags must be a list of words');
+  }
+
+  const cleaned = [...new Set(tags.map((tag: string) => tag.trim().toLowerCase()).filter(tag => tag))];
+  if (cleaned.length > MAX_TAGS) {
+    throw new ValidationError(`A note can have at most ${MAX_TAGS} tags`);
+  }
+  if (cleaned.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    throw new ValidationError(`Tags can be at most ${MAX_TAG_LENGTH} characters`);
+  }
+  return cleaned;
+};
+
+// Every section is optional free text while the note is a draft
+const parseContent = (input: any): NoteContent => {
+  const content = { tags: parseTags(input.tags) } as NoteContent;
+  for (const section of NOTE_SECTIONS) {
+    const value = input[section];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      throw new ValidationError(`${section} must be text`);
+    }
+    content[section] = (value || '').trim();
+  }
+  return content;
+};
+
+export const getSessionNote = async (sessionId: string): Promise<SessionNote | null> => {
+  const note = await notes.findNoteBySession(sessionId);
+  if (!note) return null;
+  return { ...note, addenda: await notes.findAddendaByNote(note.note_id) };
+};
+
+/**
+ * Starts or updates the session's draft note; the whole note is replaced with what is sent
+ * Notes are written once the session has happened, and only by the therapist who started them
+ */
+export const saveDraftNote = async (
+  sessionId: string,
+  authorId: string,
+  input: any
+): Promise<{ note: SessionNote; created: boolean }> => {
+  const content = parseContent(input);
+  const session = await findSession(sessionId);
+
+  if (RELEASED_STATUSES.includes(session.status as SessionStatus)) {
+    throw new ConflictError('Cancelled and rescheduled sessions don\'t have notes');
+  }
+  if (session.session_date > new Date().toISOString().slice(0, 10)) {
+    throw new ValidationError('Notes can only be written once the session has taken place');
+  }
+
+  const existing = await notes.findNoteBySession(sessionId);
+  if (!existing) {
+    return { note: await notes.createNote(sessionId, authorId, content), created: true };
+  }
+  if (existing.status === 'signed') {
+    throw new ConflictError(SIGNED_MESSAGE);
+  }
+  if (existing.author_id !== authorId) {
+    throw new ForbiddenError('Only the therapist who wrote this note can change it');
+  }
+
+  const updated = await notes.updateDraftNote(existing.note_id, content);
+  if (!updated) {
+    throw new ConflictError(SIGNED_MESSAGE);
+  }
+  return { note: updated, created: false };
+};
+
+/**
+ * Signs the draft, after which it can't be changed
+ * A note needs at least one section filled in to be signed
+ */
+export const signSessionNote = async (sessionId: string, authorId: string): Promise<SessionNote> => {
+  const note = await findNote(sessionId);
+
+  if (note.status === 'signed') {
+    throw new ConflictError('This note has already been signed');
+  }
+  if (note.author_id !== authorId) {
+    throw new ForbiddenError('Only the therapist who wrote this note can sign it');
+  }
+  if (NOTE_SECTIONS.every(section => !note[section])) {
+    throw new ValidationError('Fill in at least one section before signing the note');
+  }
+
+  const signed = await notes.signNote(note.note_id);
+  if (!signed) {
+    throw new ConflictError('This note has already been signed');
+  }
+  return signed;
+};
+
+// Adds a dated correction or follow-up to a signed note; drafts are edited directly instead
+export const addNoteAddendum = async (sessionId: string, authorId: string, content: unknown): Promise<NoteAddendum> => {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new ValidationError('content is required');
+  }
+
+  const note = await findNote(sessionId);
+  if (note.status !== 'signed') {
+    throw new ConflictError('Addenda can only be added to signed notes; edit the draft instead');
+  }
+  return notes.createAddendum(note.note_id, authorId, content.trim());
+};
+
+// Every note for the patient with its addenda, in the order the sessions took place
+export const getPatientNotes = async (patientId: string): Promise<SessionNote[]> => {
+  const [patientNotes, addenda] = await Promise.all([
+    notes.findNotesByPatient(patientId),
+    notes.findAddendaByPatient(patientId)
+  ]);
+
+  return patientNotes.map(note => ({
+    ...note,
+    addenda: addenda.filter(addendum => addendum.note_id === note.note_id)
+  }));
+};
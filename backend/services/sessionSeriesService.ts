@@ -0,0 +1,302 @@
+// backend/services/sessionSeriesService.ts
+// Recurring sessions: booking a weekly or fortnightly block, then changing or cancelling part of it
+import * as patients from '../repositories/patientRepository';
+import * as sessions from '../repositories/sessionRepository';
+import * as seriesRepo from '../repositories/sessionSeriesRepository';
+import * as notes from '../repositories/sessionNoteRepository';
+import { withTransaction } from '../repositories/transaction';
+import { Session, SessionUpdate } from '../repositories/sessionRepository';
+import { SessionSeries, SeriesFrequency } from '../repositories/sessionSeriesRepository';
+import { updateSession, deleteSession } from './therapistService';
+import { assertDuration, assertNoConflicts } from './schedulingService';
+import {
+  applyStatusChange,
+  changeSessionStatus,
+  CANCELLED_STATUSES,
+  RELEASED_STATUSES,
+  SessionStatus
+} from './sessionStatusService';
+import { assertCanBookPatient } from './accessPolicy';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import { assertId, assertDate, assertTime, assertOneOf, SERIES_FREQUENCIES, SERIES_SCOPES } from './validation';
+
+// A year of weekly sessions
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const INTERVAL_DAYS: Record<SeriesFrequency, number> = { weekly: 7, fortnightly: 14 };
+
+export type SeriesScope = 'this' | 'following' | 'all';
+
+// session_date is the first occurrence; the block ends after occurrences sessions or on until_date
+export interface SeriesRequest extends SessionUpdate {
+  frequency: SeriesFrequency;
+  occurrences?: number | null;
+  until_date?: string | null;
+  skip_dates?: string[];
+}
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+};
+
+/**
+ * The dates a series falls on, in order
+ * Skipped dates do not count towards occurrences - the block runs on until that many sessions are booked
+ */
+export const buildSeriesDates = (rule: SeriesRequest): string[] => {
+  const skipped = new Set(rule.skip_dates || []);
+  const dates: string[] = [];
+
+  for (let date = rule.session_date; ; date = addDays(date, INTERVAL_DAYS[rule.frequency])) {
+    if (rule.until_date ? date > rule.until_date : dates.length === rule.occurrences) break;
+    if (skipped.has(date)) continue;
+
+    dates.push(date);
+    if (dates.length > MAX_SERIES_OCCURRENCES) {
+      throw new ValidationError(`A series can have at most ${MAX_SERIES_OCCURRENCES} sessions`);
+    }
+  }
+
+  return dates;
+};
+
+const validateSeriesRequest = (rule: SeriesRequest): void => {
+  assertDate(rule.session_date, 'session_date');
+  assertTime(rule.session_time, 'session_time');
+  assertDuration(rule.duration_minutes);
+  assertOneOf(rule.frequency, SERIES_FREQUENCIES, 'frequency');
+
+  const hasOccurrences = rule.occurrences !== undefined && rule.occurrences !== null;
+  const hasUntilDate = !!rule.until_date;
+  if (hasOccurrences === hasUntilDate) {
+    throw new ValidationError('Give either occurrences or until_date to say when the series ends');
+  }
+
+  if (hasOccurrences) {
+    const count = rule.occurrences as number;
+    if (!Number.isInteger(count) || count < 2 || count > MAX_SERIES_OCCURRENCES) {
+      throw new ValidationError(`occurrences must be a whole number from 2 to ${MAX_SERIES_OCCURRENCES}`);
+    }
+  } else {
+    assertDate(rule.until_date as string, 'until_date');
+    if (rule.until_date! <= rule.session_date) {
+      throw new ValidationError('until_date must be after session_date');
+    }
+  }
+
+  if (rule.skip_dates !== undefined && !Array.isArray(rule.skip_dates)) {
+    throw new ValidationError('skip_dates must be a list of dates');
+  }
+  (rule.skip_dates || []).forEach(date => assertDate(date, 'skip_dates'));
+};
+
+/**
+ * Books every occurrence of a recurring block with a patient
+ * The series record keeps the rule; each occurrence is an ordinary session that can be changed on its own
+ * Nothing is booked if any occurrence overlaps another of the therapist's sessions
+ */
+export const createSessionSeries = async (
+  patientId: string,
+  therapistId: string,
+  rule: SeriesRequest
+): Promise<{ series: SessionSeries; sessions: Session[] }> => {
+  assertId(patientId, 'patient_id');
+  validateSeriesRequest(rule);
+
+  const dates = buildSeriesDates(rule);
+  if (dates.length === 0) {
+    throw new ValidationError('Every date in the series is skipped');
+  }
+
+  const patient = await patients.findPatientById(patientId);
+  if (!patient) {
+    throw new NotFoundError('Patient not found');
+  }
+  await assertCanBookPatient(therapistId, patientId);
+
+  await assertNoConflicts(therapistId, dates.map(date => ({ ...rule, session_date: date })));
+
+  // The series and its sessions are saved together, so a failure leaves no series without sessions
+  return withTransaction(async client => {
+    const series = await seriesRepo.createSeries({
+      patient_id: patientId,
+      therapist_id: therapistId,
+      frequency: rule.frequency,
+      start_date: rule.session_date,
+      occurrences: rule.occurrences ?? null,
+      until_date: rule.until_date || null,
+      session_time: rule.session_time,
+      session_type: rule.session_type,
+      duration_minutes: rule.duration_minutes,
+      location: rule.location
+    }, client);
+
+    const created = await sessions.createSessions(dates.map(date => ({
+      patient_id: patientId,
+      therapist_id: therapistId,
+      session_date: date,
+      session_time: rule.session_time,
+      session_type: rule.session_type,
+      duration_minutes: rule.duration_minutes,
+      status: 'scheduled',
+      location: rule.location,
+      series_id: series.series_id
+    })), client);
+
+    return { series, sessions: created };
+  });
+};
+
+// The session an edit or cancellation starts from; 'following' and 'all' only make sense inside a series
+const findOccurrence = async (sessionId: string, scope: SeriesScope): Promise<Session> => {
+  assertOneOf(scope, SERIES_SCOPES, 'scope');
+
+  const session = await sessions.findSessionById(sessionId);
+  if (!session) {
+    throw new NotFoundError('Session not found');
+  }
+  if (scope !== 'this' && !session.series_id) {
+    throw new ValidationError('This session is not part of a series');
+  }
+  return session;
+};
+
+/**
+ * Changes one session, this and the following occurrences, or the whole series
+ * Moving the date moves every affected occurrence by the same number of days, so the spacing is kept
+ * "This and following" splits those occurrences off into a series of their own,
+ * so the earlier part can still be changed as a block without touching them
+ * Nothing changes if a moved occurrence would overlap another of the therapist's sessions
+ */
+export const updateSessionInScope = async (
+  sessionId: string,
+  updates: SessionUpdate,
+  scope: SeriesScope
+): Promise<Session[]> => {
+  const session = await findOccurrence(sessionId, scope);
+  if (scope === 'this') {
+    return [await updateSession(sessionId, updates)];
+  }
+
+  assertDate(updates.session_date, 'session_date');
+  assertTime(updates.session_time, 'session_time');
+  assertDuration(updates.duration_minutes);
+
+  if (RELEASED_STATUSES.includes(session.status as SessionStatus)) {
+    throw new ConflictError('Cancelled and rescheduled sessions cannot be changed');
+  }
+
+  const seriesId = session.series_id!;
+  const all = await sessions.findSeriesSessions(seriesId);
+  const inScope = scope === 'all' ? all : all.filter(s => s.session_date >= session.session_date);
+  // Occurrences that are no longer going ahead keep their date and time
+  const affected = inScope.filter(s => !RELEASED_STATUSES.includes(s.status as SessionStatus));
+  // Only this and the following occurrences, with earlier ones left behind, become a series of their own
+  const splits = scope === 'following' && inScope.length < all.length;
+
+  const shift = daysBetween(session.session_date, updates.session_date);
+  const moved = affected.map(occurrence => ({ ...updates, session_date: addDays(occurrence.session_date, shift) }));
+  await assertNoConflicts(session.therapist_id, moved, affected.map(s => s.session_id));
+
+  const original = (await seriesRepo.findSeriesById(seriesId))!;
+
+  // The split and every moved occurrence are saved together, or not at all
+  return withTransaction(async client => {
+    if (splits) {
+      const split = await seriesRepo.createSeries({
+        patient_id: original.patient_id,
+        therapist_id: original.therapist_id,
+        frequency: original.frequency,
+        start_date: updates.session_date,
+        occurrences: inScope.length,
+        until_date: null,
+        session_time: updates.session_time,
+        session_type: updates.session_type,
+        duration_minutes: updates.duration_minutes,
+        location: updates.location
+      }, client);
+      await sessions.moveSeriesSessions(seriesId, split.series_id, session.session_date, client);
+    }
+
+    const updated: Session[] = [];
+    for (const [i, occurrence] of affected.entries()) {
+      updated.push((await sessions.updateSession(occurrence.session_id, moved[i], client))!);
+    }
+    return updated;
+  });
+};
+
+/**
+ * Sets the status of one session, or cancels this and the following occurrences or the whole series
+ * Only cancellations can cover more than one session; occurrences that have already
+ * happened or been cancelled are left as they are
+ */
+export const changeSessionStatusInScope = async (
+  sessionId: string,
+  status: string,
+  reason: unknown,
+  scope: SeriesScope
+): Promise<Session[]> => {
+  const session = await findOccurrence(sessionId, scope);
+  if (scope === 'this') {
+    return [await changeSessionStatus(sessionId, status, reason)];
+  }
+
+  if (!CANCELLED_STATUSES.includes(status as SessionStatus)) {
+    throw new ValidationError('Only cancellations can apply to more than one session');
+  }
+
+  const fromDate = scope === 'following' ? session.session_date : undefined;
+
+  // Every occurrence is cancelled together, or none is; the session it starts from is locked,
+  // so a second cancellation or a reschedule of it waits and then sees this one's result
+  return withTransaction(async client => {
+    await sessions.lockSessionById(sessionId, client);
+    const scheduled = (await sessions.findSeriesSessions(session.series_id!, fromDate, client))
+      .filter(s => s.status === 'scheduled');
+
+    if (scheduled.length === 0) {
+      throw new ConflictError('There are no scheduled sessions left to cancel');
+    }
+
+    const updated: Session[] = [];
+    for (const occurrence of scheduled) {
+      updated.push(await applyStatusChange(occurrence, status as SessionStatus, reason, client));
+    }
+    return updated;
+  });
+};
+
+/**
+ * Permanently deletes one session, this and the following occurrences, or the whole series
+ * Nothing is deleted if any of the affected sessions has clinical notes linked to it
+ * Returns how many sessions were deleted
+ */
+export const deleteSessionInScope = async (sessionId: string, scope: SeriesScope): Promise<number> => {
+  const session = await findOccurrence(sessionId, scope);
+  if (scope === 'this') {
+    await deleteSession(sessionId);
+    return 1;
+  }
+
+  const seriesId = session.series_id!;
+  const fromDate = scope === 'following' ? session.session_date : undefined;
+
+  if ((await notes.countNotesForSeries(seriesId, fromDate)) > 0) {
+    throw new ConflictError('Some of these sessions have clinical notes, so they are kept on record and cannot be deleted.');
+  }
+
+  const deleted = await sessions.deleteSeriesSessions(seriesId, fromDate);
+
+  // A series with no sessions left has nothing to describe
+  if ((await sessions.findSeriesSessions(seriesId)).length === 0) {
+    await seriesRepo.deleteSeries(seriesId);
+  }
+  return deleted;
+};
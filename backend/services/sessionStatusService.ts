@@ -0,0 +1,188 @@
+// backend/services/sessionStatusService.ts
+// Session status lifecycle - attended, cancelled, no-show and rescheduled - and the attendance figures built on it
+import * as sessions from '../repositories/sessionRepository';
+import { Session } from '../repositories/sessionRepository';
+import { Queryable, withTransaction } from '../repositories/transaction';
+import { assertNoConflicts } from './schedulingService';
+import { localToday } from './clock';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import { assertDate, assertTime, assertOneOf, SESSION_STATUSES } from './validation';
+
+export type SessionStatus =
+  | 'scheduled'
+  | 'attended'
+  | 'cancelled_by_patient'
+  | 'cancelled_by_therapist'
+  | 'no_show'
+  | 'rescheduled';
+
+export const CANCELLED_STATUSES: SessionStatus[] = ['cancelled_by_patient', 'cancelled_by_therapist'];
+
+// Sessions in these statuses are no longer going ahead, so they don't block the therapist's time
+export const RELEASED_STATUSES: SessionStatus[] = [...CANCELLED_STATUSES, 'rescheduled'];
+
+// Where each status can move to; attended and no-show can be swapped to correct a mistake
+const STATUS_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  scheduled: ['attended', 'cancelled_by_patient', 'cancelled_by_therapist', 'no_show', 'rescheduled'],
+  attended: ['no_show'],
+  no_show: ['attended'],
+  cancelled_by_patient: [],
+  cancelled_by_therapist: [],
+  rescheduled: []
+};
+
+// Statuses that record what happened at the session, so they can't be set before it
+const OUTCOME_STATUSES: SessionStatus[] = ['attended', 'no_show'];
+
+export interface AttendanceSummary {
+  attended: number;
+  noShows: number;
+  cancelledByPatient: number;
+  cancelledByTherapist: number;
+  // Attended out of the sessions the patient was expected at (attended, no-shows and their own cancellations)
+  // null until one of those has happened
+  attendanceRate: number | null;
+}
+
+export interface NewSessionTime {
+  session_date: string;
+  session_time: string;
+}
+
+const STATUS_LABELS: Record<SessionStatus, string> = {
+  scheduled: 'scheduled',
+  attended: 'attended',
+  cancelled_by_patient: 'cancelled',
+  cancelled_by_therapist: 'cancelled',
+  no_show: 'marked as a no-show',
+  rescheduled: 'rescheduled'
+};
+
+// Reasons are optional free text; blank ones are stored as null
+export const normaliseReason = (reason: unknown): string | null => {
+  if (reason === undefined || reason === null) return null;
+  if (typeof reason !== 'string') {
+    throw new ValidationError('reason must be text');
+  }
+  return reason.trim() || null;
+};
+
+// Locks the session until the transaction ends, so a concurrent change to it waits and then sees this one's result
+const lockSession = async (sessionId: string, db: Queryable): Promise<Session> => {
+  const session = await sessions.lockSessionById(sessionId, db);
+  if (!session) {
+    throw new NotFoundError('Session not found');
+  }
+  return session;
+};
+
+// Throws unless the session may move from its current status to the new one
+const assertTransition = (session: Session, status: SessionStatus): void => {
+  const current = session.status as SessionStatus;
+  if (!STATUS_TRANSITIONS[current].includes(status)) {
+    throw new ConflictError(`This session has already been ${STATUS_LABELS[current]}`);
+  }
+  if (OUTCOME_STATUSES.includes(status) && session.session_date > localToday()) {
+    throw new ValidationError('A session can only be marked attended or no-show once it has taken place');
+  }
+};
+
+/**
+ * Moves a session to a new status, keeping the reason and when it changed
+ * Cancelled sessions stay on record instead of being deleted
+ * Rescheduling needs a new time, so it goes through rescheduleSession instead
+ */
+export const changeSessionStatus = async (
+  sessionId: string,
+  status: string,
+  reason?: unknown
+): Promise<Session> => {
+  assertOneOf(status, SESSION_STATUSES, 'status');
+  if (status === 'rescheduled') {
+    throw new ValidationError('Give a new date and time to reschedule a session');
+  }
+
+  return withTransaction(async client =>
+    applyStatusChange(await lockSession(sessionId, client), status as SessionStatus, reason, client)
+  );
+};
+
+/**
+ * Moves a session already read in the caller's transaction to a new status
+ * Used where one change covers several sessions, so they all change or none do
+ */
+export const applyStatusChange = async (
+  session: Session,
+  status: SessionStatus,
+  reason: unknown,
+  db: Queryable
+): Promise<Session> => {
+  assertTransition(session, status);
+  return (await sessions.updateSessionStatus(session.session_id, status, normaliseReason(reason), null, db))!;
+};
+
+/**
+ * Books a replacement for a scheduled session at a new date and time, and marks the original as rescheduled
+ * The replacement keeps everything else about the session, including its place in a series
+ * Nothing changes if the new time overlaps another of the therapist's sessions
+ */
+export const rescheduleSession = async (
+  sessionId: string,
+  newTime: NewSessionTime,
+  reason?: unknown
+): Promise<{ session: Session; replacement: Session }> => {
+  assertDate(newTime.session_date, 'session_date');
+  assertTime(newTime.session_time, 'session_time');
+
+  // The replacement and the original's new status are saved together, and a second reschedule
+  // of the same session waits on the lock and then finds it already rescheduled
+  return withTransaction(async client => {
+    const session = await lockSession(sessionId, client);
+    assertTransition(session, 'rescheduled');
+
+    const proposed = { ...newTime, duration_minutes: session.duration_minutes };
+    await assertNoConflicts(session.therapist_id, [proposed], [sessionId]);
+
+    const replacement = await sessions.createSession({
+      patient_id: session.patient_id,
+      therapist_id: session.therapist_id,
+      session_date: newTime.session_date,
+      session_time: newTime.session_time,
+      session_type: session.session_type,
+      duration_minutes: session.duration_minutes,
+      status: 'scheduled',
+      location: session.location,
+      series_id: session.series_id
+    }, client);
+
+    const updated = await sessions.updateSessionStatus(
+      sessionId,
+      'rescheduled',
+      normaliseReason(reason),
+      replacement.session_id,
+      client
+    );
+    return { session: updated!, replacement };
+  });
+};
+
+/**
+ * Counts attended, missed and cancelled sessions from their statuses
+ * Therapist cancellations and reschedules don't count against the patient's attendance
+ */
+export const summariseAttendance = (statuses: string[]): AttendanceSummary => {
+  const count = (status: SessionStatus) => statuses.filter(s => s === status).length;
+
+  const attended = count('attended');
+  const noShows = count('no_show');
+  const cancelledByPatient = count('cancelled_by_patient');
+  const expected = attended + noShows + cancelledByPatient;
+
+  return {
+    attended,
+    noShows,
+    cancelledByPatient,
+    cancelledByTherapist: count('cancelled_by_therapist'),
+    attendanceRate: expected ? Math.round((attended / expected) * 100) : null
+  };
+};
@@ -0,0 +1,47 @@
+// backend/services/smartGoal.ts
+// SMART goals: a specific behaviour, a measurable criterion and the context it is practised in,
+// over the goal's timeframe (its start and target dates)
+import { SmartFields } from '../repositories/goalRepository';
+import { ValidationError } from './errors';
+
+const MAX_FIELD_LENGTH = 500;
+
+const SMART_FIELDS: (keyof SmartFields)[] = ['specific_behaviour', 'measurable_criterion', 'context'];
+
+/**
+ * Checks the SMART fields sent by the client, trimmed, with blanks as null
+ * Fields that were not sent are left out, so an update keeps their current values
+ */
+export const parseSmartFields = (input: any): Partial<SmartFields> => {
+  const fields: Partial<SmartFields> = {};
+  for (const field of SMART_FIELDS) {
+    const value = input?.[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== 'string') {
+      throw new ValidationError(`${field} must be text`);
+    }
+    const text = value?.trim() || null;
+    if (text && text.length > MAX_FIELD_LENGTH) {
+      throw new ValidationError(`${field} can be at most ${MAX_FIELD_LENGTH} characters`);
+    }
+    fields[field] = text;
+  }
+  return fields;
+};
+
+// A SMART goal needs at least the behaviour and how it will be measured; free-text goals have neither
+export const assertCompleteSmartGoal = (fields: Partial<SmartFields>): void => {
+  const written = SMART_FIELDS.some(field => fields[field]);
+  if (written && (!fields.specific_behaviour || !fields.measurable_criterion)) {
+    throw new ValidationError('A SMART goal needs both a specific_behaviour and a measurable_criterion');
+  }
+};
+
+/**
+ * The one-line goal_description for a SMART goal, e.g.
+ * "Use easy onset at the start of sentences in conversation with family (80% accuracy over 3 sessions)"
+ */
+export const describeSmartGoal = (fields: Partial<SmartFields>): string => {
+  const behaviour = [fields.specific_behaviour, fields.context].filter(Boolean).join(' ');
+  return fields.measurable_criterion ? `${behaviour} (${fields.measurable_criterion})` : behaviour;
+};
@@ -0,0 +1,61 @@
+// backend/services/therapistLinkService.ts
+// Linking a therapist to a patient: the therapist asks, the patient answers
+import * as patients from '../repositories/patientRepository';
+import * as links from '../repositories/therapistLinkRepository';
+import { TherapistLinkRequest } from '../repositories/therapistLinkRepository';
+import { isTherapistLinkedToPatient } from '../repositories/accessRepository';
+import { Actor } from './accessPolicy';
+import { ConflictError, ForbiddenError, NotFoundError } from './errors';
+import { assertId } from './validation';
+
+// Starts a request to take on the patient with this email address
+export const requestPatientLink = async (therapistId: string, patientEmail: string): Promise<TherapistLinkRequest> => {
+  const patient = await patients.findPatientByEmail(patientEmail);
+  if (!patient) {
+    throw new NotFoundError('No patient found with this email');
+  }
+  if (await isTherapistLinkedToPatient(therapistId, patient.user_id)) {
+    throw new ConflictError('You are already linked to this patient');
+  }
+  if (await links.findPendingRequest(therapistId, patient.user_id)) {
+    throw new ConflictError('A request to this patient is already waiting for an answer');
+  }
+
+  return links.createRequest(therapistId, patient.user_id);
+};
+
+/**
+ * Therapists see every request they have sent
+ * Patients see the requests still waiting for their answer
+ */
+export const getTherapistLinkRequests = async (actor: Actor): Promise<TherapistLinkRequest[]> => {
+  if (actor.role === 'therapist') return links.findRequestsByTherapist(actor.id);
+  return links.findPendingRequestsForPatient(actor.id);
+};
+
+// Only the patient can accept a therapist; a request can only be answered once
+export const respondToTherapistLinkRequest = async (
+  actor: Actor,
+  requestId: string,
+  accept: boolean
+): Promise<TherapistLinkRequest> => {
+  assertId(requestId, 'Request id');
+
+  const request = await links.findRequestById(requestId);
+  if (!request) {
+    throw new NotFoundError('Request not found');
+  }
+  if (request.patient_id !== actor.id) {
+    throw new ForbiddenError();
+  }
+
+  const answered = await links.respondToRequest(requestId, accept ? 'accepted' : 'declined');
+  if (!answered) {
+    throw new ConflictError('This request has already been answered');
+  }
+
+  if (accept) {
+    await links.createTherapistLink(answered.therapist_id, answered.patient_id);
+  }
+  return answered;
+};
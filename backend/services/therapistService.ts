@@ -0,0 +1,509 @@
+// backend/services/therapistService.ts
+// Server-side versions of the frontend's supabaseTherapistService functions
+import * as patients from '../repositories/patientRepository';
+import * as sessions from '../repositories/sessionRepository';
+import * as goals from '../repositories/goalRepository';
+import * as exercises from '../repositories/exerciseRepository';
+import * as notes from '../repositories/sessionNoteRepository';
+import * as treatmentPlans from '../repositories/treatmentPlanRepository';
+import { findMedia } from '../repositories/exerciseContentRepository';
+import { toDateString } from '../repositories/dates';
+import { withTransaction } from '../repositories/transaction';
+import { Patient } from '../repositories/patientRepository';
+import { Session, SessionUpdate } from '../repositories/sessionRepository';
+import { Goal, NewGoal, GoalUpdate, SmartFields } from '../repositories/goalRepository';
+import {
+  Exercise,
+  NewExercise,
+  ExerciseUpdate,
+  GoalExerciseRow,
+  GoalExerciseSlot
+} from '../repositories/exerciseRepository';
+import { assertCanBookPatient } from './accessPolicy';
+import { ConflictError, NotFoundError, ValidationError } from './errors';
+import { removeMedia } from './mediaStorage';
+import { assertDuration, assertNoConflicts } from './schedulingService';
+import { localToday } from './clock';
+import {
+  buildSchedule,
+  parseScheduleRule,
+  rescheduleRows,
+  inferScheduleRule,
+  ScheduleRule,
+  ScheduleChange
+} from './exerciseSchedule';
+import { parseSmartFields, assertCompleteSmartGoal, describeSmartGoal } from './smartGoal';
+import { RELEASED_STATUSES, SessionStatus, AttendanceSummary, summariseAttendance } from './sessionStatusService';
+import { INITIAL_GOAL_STATUSES } from './goalLifecycle';
+import { MAX_OBJECTIVE_WEIGHT } from './goalHierarchy';
+import {
+  assertId,
+  assertDate,
+  assertTime,
+  assertOneOf,
+  GOAL_PRIORITIES,
+  DIFFICULTY_LEVELS,
+  EXERCISE_FREQUENCIES,
+  EXERCISE_CATEGORIES
+} from './validation';
+
+// Largest number of rows a single assignment may create (twice daily for a year is 730)
+const MAX_ASSIGNMENT_ROWS = 800;
+
+// What moving a goal's target date does to one of its exercises
+export interface ExerciseScheduleChange {
+  exercise_id: string;
+  title: string;
+  added: number; // New practices up to the new target date
+  removed: number; // Untouched practices after it
+  kept: number; // Practices after it the patient already ticked, rated or recorded
+}
+
+// The rule one of a goal's exercises is practised by
+export interface GoalExerciseRule {
+  exercise: Exercise;
+  rows: GoalExerciseRow[];
+  rule: ScheduleRule;
+  start_date: string;
+  stored: boolean; // false when the rule was worked out from rows assigned before rules were kept
+}
+
+interface PlannedReschedule extends ScheduleChange, Omit<GoalExerciseRule, 'rows'> {}
+
+export interface PatientWithAttendance extends Patient {
+  // Attendance at this therapist's sessions
+  attendance: AttendanceSummary;
+}
+
+// Patients who have accepted this therapist
+export const getTherapistPatients = async (therapistId: string): Promise<PatientWithAttendance[]> => {
+  const [therapistPatients, statuses] = await Promise.all([
+    patients.findPatientsByTherapist(therapistId),
+    sessions.findSessionStatusesByTherapist(therapistId)
+  ]);
+
+  return therapistPatients.map(patient => ({
+    ...patient,
+    attendance: summariseAttendance(
+      statuses.filter(row => row.patient_id === patient.user_id).map(row => row.status)
+    )
+  }));
+};
+
+// Recent sessions, newest first, with basic patient details
+export const getTherapistSessions = async (therapistId: string, limit: number = 10): Promise<Session[]> => {
+  return sessions.findSessionsByTherapist(therapistId, limit);
+};
+
+// Used before linking, so a therapist can find a patient who already has an account
+export const searchPatientByEmail = async (email: string): Promise<Patient> => {
+  const patient = await patients.findPatientByEmail(email);
+  if (!patient) {
+    throw new NotFoundError('No patient found with that email');
+  }
+  return patient;
+};
+
+const validateSessionFields = (sessionData: SessionUpdate): void => {
+  assertDate(sessionData.session_date, 'session_date');
+  assertTime(sessionData.session_time, 'session_time');
+  assertDuration(sessionData.duration_minutes);
+};
+
+/**
+ * Books a session with an existing patient
+ * Only patients who have accepted the therapist can be booked
+ * Refused if it overlaps another of the therapist's sessions
+ */
+export const createSessionForPatient = async (
+  patientId: string,
+  therapistId: string,
+  sessionData: SessionUpdate
+): Promise<Session> => {
+  assertId(patientId, 'patient_id');
+  validateSessionFields(sessionData);
+
+  const patient = await patients.findPatientById(patientId);
+  if (!patient) {
+    throw new NotFoundError('Patient not found');
+  }
+  await assertCanBookPatient(therapistId, patientId);
+
+  await assertNoConflicts(therapistId, [sessionData]);
+
+  return sessions.createSession({
+    patient_id: patientId,
+    therapist_id: therapistId,
+    session_date: sessionData.session_date,
+    session_time: sessionData.session_time,
+    session_type: sessionData.session_type,
+    duration_minutes: sessionData.duration_minutes,
+    status: 'scheduled',
+    location: sessionData.location,
+    series_id: null
+  });
+};
+
+export const updateSession = async (sessionId: string, updates: SessionUpdate): Promise<Session> => {
+  validateSessionFields(updates);
+
+  const existing = await sessions.findSessionById(sessionId);
+  if (!existing) {
+    throw new NotFoundError('Session not found');
+  }
+  if (RELEASED_STATUSES.includes(existing.status as SessionStatus)) {
+    throw new ConflictError('Cancelled and rescheduled sessions cannot be changed');
+  }
+
+  await assertNoConflicts(existing.therapist_id, [updates], [sessionId]);
+  return (await sessions.updateSession(sessionId, updates)) as Session;
+};
+
+// Goals belong to the treatment plan rather than a session, so they are kept whichever sessions are deleted
+// Sessions with clinical notes are kept as part of the patient's record
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const session = await sessions.findSessionById(sessionId);
+  if (!session) {
+    throw new NotFoundError('Session not found');
+  }
+
+  if ((await notes.countNotesForSession(sessionId)) > 0) {
+    throw new ConflictError('This session has clinical notes, so it is kept on record and cannot be deleted.');
+  }
+
+  await sessions.deleteSession(sessionId);
+};
+
+const validateGoalFields = (goalData: { start_date?: string; target_date: string; priority: string }): void => {
+  if (goalData.start_date) {
+    assertDate(goalData.start_date, 'start_date');
+  }
+  assertDate(goalData.target_date, 'target_date');
+  assertOneOf(goalData.priority, GOAL_PRIORITIES, 'priority');
+
+  if (goalData.start_date && goalData.target_date < goalData.start_date) {
+    throw new ValidationError('target_date cannot be before start_date');
+  }
+};
+
+// A goal written as SMART fields without a goal_description is summarised from them
+const goalDescriptionFor = (description: unknown, smart: Partial<SmartFields>): string => {
+  const text = (typeof description === 'string' && description.trim()) || describeSmartGoal(smart);
+  if (!text) {
+    throw new ValidationError('goal_description or specific_behaviour is required');
+  }
+  return text;
+};
+
+const assertWeight = (weight: unknown): void => {
+  if (!Number.isInteger(weight) || (weight as number) < 1 || (weight as number) > MAX_OBJECTIVE_WEIGHT) {
+    throw new ValidationError(`weight must be a whole number from 1 to ${MAX_OBJECTIVE_WEIGHT}`);
+  }
+};
+
+/**
+ * Checks a short-term objective can go under the long-term goal: only one level deep,
+ * within the goal's dates, and only under a goal that doesn't have exercises of its own
+ */
+const assertFitsUnder = async (parent: Goal, dates: { start_date?: string; target_date: string }): Promise<void> => {
+  if (parent.parent_goal_id) {
+    throw new ValidationError('An objective cannot have objectives of its own');
+  }
+  if ((dates.start_date && dates.start_date < parent.start_date) || dates.target_date > parent.target_date) {
+    throw new ValidationError('An objective must fall within its long-term goal\'s start and target dates');
+  }
+  if ((await exercises.findGoalExerciseRowsByGoal(parent.goal_id)).length > 0) {
+    throw new ConflictError('This goal has exercises of its own, so it cannot be broken into objectives');
+  }
+};
+
+/**
+ * Goals belong to a treatment plan, which is how they are tied to a patient; only an active plan takes new goals
+ * A short-term objective gives its long-term goal's parent_goal_id instead, and goes into the same plan
+ * They start as a draft or active; createdBy is recorded as making the first entry in the goal's status history
+ */
+export const createGoal = async (goalData: NewGoal, createdBy: string): Promise<Goal> => {
+  validateGoalFields(goalData);
+  assertOneOf(goalData.status, INITIAL_GOAL_STATUSES, 'status');
+  if (goalData.weight !== undefined) assertWeight(goalData.weight);
+  const smart = parseSmartFields(goalData);
+  assertCompleteSmartGoal(smart);
+
+  let planId = goalData.plan_id;
+  if (goalData.parent_goal_id) {
+    assertId(goalData.parent_goal_id, 'parent_goal_id');
+    const parent = await goals.findGoalById(goalData.parent_goal_id);
+    if (!parent) {
+      throw new NotFoundError('Long-term goal not found');
+    }
+    await assertFitsUnder(parent, goalData);
+    planId = parent.plan_id;
+  }
+
+  assertId(planId, 'plan_id');
+  const plan = await treatmentPlans.findPlanById(planId);
+  if (!plan) {
+    throw new NotFoundError('Treatment plan not found');
+  }
+  if (plan.status !== 'active') {
+    throw new ConflictError('This treatment plan is closed, so no more goals can be added to it');
+  }
+
+  const goal = await goals.createGoal({
+    ...goalData,
+    ...smart,
+    plan_id: planId,
+    goal_description: goalDescriptionFor(goalData.goal_description, smart)
+  });
+  await goals.recordGoalStatusChange({
+    goal_id: goal.goal_id,
+    from_status: null,
+    to_status: goal.status,
+    reason: null,
+    changed_by: createdBy
+  });
+  return goal;
+};
+
+// An objective's target date stays within its long-term goal's, and a long-term goal's covers its objectives'
+const assertWithinHierarchy = async (goal: Goal, targetDate: string): Promise<void> => {
+  if (goal.parent_goal_id) {
+    const parent = await goals.findGoalById(goal.parent_goal_id);
+    if (parent && targetDate > parent.target_date) {
+      throw new ValidationError('An objective must fall within its long-term goal\'s start and target dates');
+    }
+  }
+
+  const latest = (await goals.findObjectives(goal.goal_id))
+    .map(objective => objective.target_date)
+    .sort()
+    .pop();
+  if (latest && targetDate < latest) {
+    throw new ValidationError(`This goal's objectives run to ${latest}, so its target date cannot be earlier`);
+  }
+};
+
+export const updateGoal = async (goalId: string, updates: GoalUpdate): Promise<Goal> => {
+  const existing = await goals.findGoalById(goalId);
+  if (!existing) {
+    throw new NotFoundError('Goal not found');
+  }
+
+  validateGoalFields({ ...updates, start_date: existing.start_date });
+  if (updates.weight !== undefined) assertWeight(updates.weight);
+  await assertWithinHierarchy(existing, updates.target_date);
+  const smart: SmartFields = {
+    specific_behaviour: existing.specific_behaviour,
+    measurable_criterion: existing.measurable_criterion,
+    context: existing.context,
+    ...parseSmartFields(updates)
+  };
+  assertCompleteSmartGoal(smart);
+
+  // Worked out before saving, so a schedule that would grow too large stops the update
+  const plans = updates.target_date !== existing.target_date
+    ? await planReschedule(goalId, updates.target_date)
+    : [];
+
+  // The goal and its rescheduled rows are saved together, or not at all
+  return withTransaction(async client => {
+    const goal = (await goals.updateGoal(goalId, {
+      ...updates,
+      ...smart,
+      weight: updates.weight ?? existing.weight,
+      goal_description: goalDescriptionFor(updates.goal_description, smart)
+    }, client)) as Goal;
+    for (const plan of plans) {
+      await exercises.deleteGoalExerciseRows(plan.remove, client);
+      if (plan.add.length > 0) {
+        await exercises.createGoalExerciseRows(goalId, plan.exercise.exercise_id, plan.add, client);
+      }
+      if (!plan.stored) {
+        await exercises.saveExerciseSchedule(goalId, plan.exercise.exercise_id, plan.rule, plan.start_date, client);
+      }
+    }
+    return goal;
+  });
+};
+
+/**
+ * How each of the goal's exercise schedules would change if its target date moved to targetDate,
+ * for the therapist to check before saving
+ */
+export const previewTargetDateChange = async (goalId: string, targetDate: string): Promise<ExerciseScheduleChange[]> => {
+  const goal = await goals.findGoalById(goalId);
+  if (!goal) {
+    throw new NotFoundError('Goal not found');
+  }
+  validateGoalFields({ start_date: goal.start_date, target_date: targetDate, priority: goal.priority });
+
+  const plans = await planReschedule(goalId, targetDate);
+  return plans.map(plan => ({
+    exercise_id: plan.exercise.exercise_id,
+    title: plan.exercise.title,
+    added: plan.add.length,
+    removed: plan.remove.length,
+    kept: plan.kept
+  }));
+};
+
+/**
+ * The rule each of the goal's exercises is practised by, with its rows
+ * Rules for rows assigned before rules were kept are worked out from the rows;
+ * exercises practised as needed have no rule and are left out
+ */
+export const findGoalExerciseRules = async (goalId: string): Promise<GoalExerciseRule[]> => {
+  const [rows, schedules] = await Promise.all([
+    exercises.findGoalExerciseRowsByGoal(goalId),
+    exercises.findExerciseSchedulesByGoal(goalId)
+  ]);
+
+  const rowsByExercise = new Map<string, GoalExerciseRow[]>();
+  rows.forEach(row => rowsByExercise.set(row.exercise_id, [...(rowsByExercise.get(row.exercise_id) || []), row]));
+
+  const rules: GoalExerciseRule[] = [];
+  rowsByExercise.forEach((exerciseRows, exerciseId) => {
+    const stored = schedules.find(schedule => schedule.exercise_id === exerciseId);
+    const schedule = stored || inferScheduleRule(exerciseRows, toDateString(exerciseRows[0].created_at));
+    if (!schedule) return;
+    rules.push({
+      exercise: exerciseRows[0].exercise!,
+      rows: exerciseRows,
+      rule: schedule.rule,
+      start_date: schedule.start_date,
+      stored: !!stored
+    });
+  });
+  return rules;
+};
+
+/**
+ * The rows to add and remove for each of the goal's exercises to run to targetDate
+ * Exercises practised as needed have nothing to change and are left out
+ */
+const planReschedule = async (goalId: string, targetDate: string): Promise<PlannedReschedule[]> => {
+  const [rules, recordedRowIds] = await Promise.all([
+    findGoalExerciseRules(goalId),
+    exercises.findRecordedRowIds(goalId)
+  ]);
+  const recorded = new Set(recordedRowIds);
+  const today = localToday();
+
+  return rules.map(({ rows, ...schedule }) => {
+    const change = rescheduleRows(
+      schedule.rule,
+      schedule.start_date,
+      targetDate,
+      today,
+      rows.map(row => ({ ...row, has_recordings: recorded.has(row.row_id) }))
+    );
+    if (rows.length + change.add.length - change.remove.length > MAX_ASSIGNMENT_ROWS) {
+      throw new ValidationError(
+        `${schedule.exercise.title} would be scheduled more than ${MAX_ASSIGNMENT_ROWS} times - choose an earlier target date`
+      );
+    }
+    return { ...change, ...schedule };
+  });
+};
+
+// Also removes the goal's goal_exercise_set rows
+export const deleteGoal = async (goalId: string): Promise<void> => {
+  const goal = await goals.findGoalById(goalId);
+  if (!goal) {
+    throw new NotFoundError('Goal not found');
+  }
+  await goals.deleteGoal(goalId);
+};
+
+export const createExercise = async (exerciseData: NewExercise): Promise<Exercise> => {
+  assertOneOf(exerciseData.difficulty_level, DIFFICULTY_LEVELS, 'difficulty_level');
+  assertOneOf(exerciseData.recommended_frequency, EXERCISE_FREQUENCIES, 'recommended_frequency');
+  if (exerciseData.category !== null) assertOneOf(exerciseData.category, EXERCISE_CATEGORIES, 'category');
+  return exercises.createExercise(exerciseData);
+};
+
+export const updateExercise = async (exerciseId: string, updates: ExerciseUpdate): Promise<Exercise> => {
+  assertOneOf(updates.difficulty_level, DIFFICULTY_LEVELS, 'difficulty_level');
+  if (updates.recommended_frequency !== undefined) {
+    assertOneOf(updates.recommended_frequency, EXERCISE_FREQUENCIES, 'recommended_frequency');
+  }
+  if (updates.category !== undefined && updates.category !== null) {
+    assertOneOf(updates.category, EXERCISE_CATEGORIES, 'category');
+  }
+
+  const exercise = await exercises.updateExercise(exerciseId, updates);
+  if (!exercise) {
+    throw new NotFoundError('Exercise not found');
+  }
+  return exercise;
+};
+
+// Also removes every goal_exercise_set row that used the exercise
+// A shared exercise colleagues have assigned to their patients is kept, so their goals don't lose it
+export const deleteExercise = async (exerciseId: string): Promise<void> => {
+  const exercise = await exercises.findExerciseById(exerciseId);
+  if (!exercise) {
+    throw new NotFoundError('Exercise not found');
+  }
+  if (await exercises.isExerciseUsedByOthers(exerciseId, exercise.created_by)) {
+    throw new ConflictError('Other therapists have assigned this exercise to their patients, so it cannot be deleted. Stop sharing it instead.');
+  }
+
+  // The media rows go with the exercise, so find the files first
+  const media = await findMedia(exerciseId);
+  await exercises.deleteExercise(exerciseId);
+  await Promise.all(media.map(item => removeMedia(item.storage_key)));
+};
+
+/**
+ * Links an exercise to a goal, creating one goal_exercise_set row per practice
+ * plan.schedule is a schedule rule (see exerciseSchedule.ts), run from today, or the goal's start if later,
+ * to the goal's target date; the rule is kept so the schedule can be worked out again
+ * plan.slots lists the rows to create instead, for callers that lay out the schedule themselves
+ * With neither a single unscheduled row is created (as needed)
+ */
+export const assignExerciseToGoal = async (
+  goalId: string,
+  exerciseId: string,
+  plan: { schedule?: unknown; slots?: GoalExerciseSlot[] } = {}
+): Promise<GoalExerciseRow[]> => {
+  assertId(exerciseId, 'exercise_id');
+  if (plan.schedule !== undefined && plan.slots !== undefined) {
+    throw new ValidationError('Send either a schedule or slots, not both');
+  }
+  const rule = plan.schedule !== undefined ? parseScheduleRule(plan.schedule) : null;
+
+  const [goal, exercise] = await Promise.all([
+    goals.findGoalById(goalId),
+    exercises.findExerciseById(exerciseId)
+  ]);
+  if (!goal) {
+    throw new NotFoundError('Goal not found');
+  }
+  if (!exercise) {
+    throw new NotFoundError('Exercise not found');
+  }
+  if ((await goals.findObjectives(goalId)).length > 0) {
+    throw new ConflictError('This goal is broken into objectives, so exercises are assigned to the objectives instead');
+  }
+
+  const today = localToday();
+  const startDate = goal.start_date > today ? goal.start_date : today;
+  const slots = rule
+    ? buildSchedule(rule, startDate, goal.target_date)
+    : plan.slots || buildSchedule({ kind: 'as_needed' }, startDate, goal.target_date);
+
+  if (slots.length === 0) {
+    throw new ValidationError(rule
+      ? 'The schedule has no practices before the goal\'s target date'
+      : 'At least one schedule slot is required');
+  }
+  if (slots.length > MAX_ASSIGNMENT_ROWS) {
+    throw new ValidationError(`An exercise can be scheduled at most ${MAX_ASSIGNMENT_ROWS} times per goal`);
+  }
+  slots.forEach(slot => slot.scheduled_date && assertDate(slot.scheduled_date, 'scheduled_date'));
+
+  const rows = await exercises.createGoalExerciseRows(goalId, exerciseId, slots);
+  if (rule) await exercises.saveExerciseSchedule(goalId, exerciseId, rule, startDate);
+  return rows;
+};
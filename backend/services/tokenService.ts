@@ -0,0 +1,149 @@
+// backend/services/tokenService.ts
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import {
+  createAuthSession,
+  isAuthSessionActive,
+  revokeAuthSession,
+  revokeAllAuthSessionsForUser,
+  saveRefreshToken,
+  findRefreshTokenByHash,
+  markRefreshTokenUsed
+} from '../repositories/authSessionRepository';
+import { findUserById, UserRole } from '../repositories/userRepository';
+
+// Secret key for signing JWT tokens
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+// Access tokens are short-lived; refresh tokens keep the user signed in between them
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+// Claims carried inside an access token
+export interface AccessTokenPayload {
+  id: string;
+  username: string;
+  email: string;
+  role: UserRole;
+  sid: string; // auth session (refresh token family) the token was issued for
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Raised for any refresh token that cannot be exchanged; the message is safe to send to the client
+export class RefreshTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+// Tokens handed to users are stored as SHA-256 hashes so a database leak does not expose them
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Random URL-safe token for refresh tokens and emailed links
+export const generateOpaqueToken = (): string => {
+  return crypto.randomBytes(48).toString('base64url');
+};
+
+const signAccessToken = (payload: AccessTokenPayload): string => {
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn'] });
+};
+
+// Creates a new random refresh token in the given session and stores its hash
+const issueRefreshToken = async (sessionId: string): Promise<string> => {
+  const refreshToken = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  await saveRefreshToken(sessionId, hashToken(refreshToken), expiresAt);
+  return refreshToken;
+};
+
+// Starts a new session for a user who just registered or logged in
+export const startSession = async (
+  user: Omit<AccessTokenPayload, 'sid'>
+): Promise<TokenPair> => {
+  const session = await createAuthSession(user.id);
+  const accessToken = signAccessToken({
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    sid: session.id
+  });
+  const refreshToken = await issueRefreshToken(session.id);
+  return { accessToken, refreshToken };
+};
+
+/**
+ * Exchanges a refresh token for a new token pair (rotation)
+ * A token that was already exchanged is treated as stolen: every session of that user is revoked
+ */
+export const rotateRefreshToken = async (refreshToken: string): Promise<TokenPair> => {
+  const record = await findRefreshTokenByHash(hashToken(refreshToken));
+  if (!record) {
+    throw new RefreshTokenError('Invalid refresh token');
+  }
+
+  if (record.sessionRevokedAt) {
+    throw new RefreshTokenError('Session has been revoked');
+  }
+
+  // Reuse detection - the old token of a rotated pair is being replayed
+  if (record.usedAt || !(await markRefreshTokenUsed(record.id))) {
+    await revokeAllAuthSessionsForUser(record.userId, 'refresh_token_reuse');
+    throw new RefreshTokenError('Refresh token has already been used');
+  }
+
+  if (new Date(record.expiresAt).getTime() <= Date.now()) {
+    await revokeAuthSession(record.sessionId, 'expired');
+    throw new RefreshTokenError('Refresh token has expired');
+  }
+
+  // Re-read the user so the new access token reflects any changes since the last one
+  const user = await findUserById(record.userId);
+  if (!user) {
+    throw new RefreshTokenError('User not found');
+  }
+
+  const accessToken = signAccessToken({
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    sid: record.sessionId
+  });
+  const nextRefreshToken = await issueRefreshToken(record.sessionId);
+  return { accessToken, refreshToken: nextRefreshToken };
+};
+
+// Ends the session (token family) the given refresh token belongs to
+// Returns false when the token is unknown
+export const endSessionByRefreshToken = async (refreshToken: string): Promise<boolean> => {
+  const record = await findRefreshTokenByHash(hashToken(refreshToken));
+  if (!record) return false;
+  await revokeAuthSession(record.sessionId, 'logout');
+  return true;
+};
+
+export const endSession = async (sessionId: string): Promise<void> => {
+  await revokeAuthSession(sessionId, 'logout');
+};
+
+/**
+ * Verifies an access token's signature and expiry, then checks its session has not been revoked
+ * Throws if the token is invalid, expired or belongs to a revoked session
+ */
+export const verifyAccessToken = async (token: string): Promise<AccessTokenPayload> => {
+  const decoded = jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+
+  if (!decoded.sid || !(await isAuthSessionActive(decoded.sid))) {
+    throw new Error('Session has been revoked');
+  }
+
+  return decoded;
+};
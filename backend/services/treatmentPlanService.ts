@@ -0,0 +1,60 @@
+// backend/services/treatmentPlanService.ts
+// Treatment plans: a therapist's episode of care with a patient, which the patient's goals belong to
+import * as plans from '../repositories/treatmentPlanRepository';
+import * as goals from '../repositories/goalRepository';
+import { TreatmentPlan } from '../repositories/treatmentPlanRepository';
+import { ConflictError, ForbiddenError, NotFoundError } from './errors';
+import { assertId } from './validation';
+import { localToday } from './clock';
+
+/**
+ * The therapist's active plan with the patient, opened from today when there isn't one
+ * The route has checked the therapist is linked to the patient
+ */
+export const openTreatmentPlan = async (
+  therapistId: string,
+  patientId: string
+): Promise<{ plan: TreatmentPlan; opened: boolean }> => {
+  assertId(patientId, 'patient_id');
+
+  const active = await plans.findActivePlan(therapistId, patientId);
+  if (active) {
+    return { plan: active, opened: false };
+  }
+  try {
+    return { plan: await plans.createPlan(therapistId, patientId, localToday()), opened: true };
+  } catch (error: any) {
+    // 23505 = unique_violation, raised when a concurrent request opened the pair's plan first
+    if (error.code === '23505') {
+      return { plan: (await plans.findActivePlan(therapistId, patientId))!, opened: false };
+    }
+    throw error;
+  }
+};
+
+// Every plan the patient has had with any of their therapists, newest first
+export const getPatientTreatmentPlans = async (patientId: string): Promise<TreatmentPlan[]> => {
+  return plans.findPlansByPatient(patientId);
+};
+
+/**
+ * Ends the episode of care; the plan's goals stay on record, and the next goal set opens a new plan
+ * Goals still being worked on or prepared have to be achieved, discontinued or carried over first
+ */
+export const closeTreatmentPlan = async (planId: string, therapistId: string): Promise<TreatmentPlan> => {
+  const plan = await plans.findPlanById(planId);
+  if (!plan) {
+    throw new NotFoundError('Treatment plan not found');
+  }
+  if (plan.therapist_id !== therapistId) {
+    throw new ForbiddenError('Only the therapist running this treatment plan can close it');
+  }
+  if (plan.status === 'closed') {
+    throw new ConflictError('This treatment plan is already closed');
+  }
+  if ((await goals.countOpenGoalsForPlan(planId)) > 0) {
+    throw new ConflictError('This treatment plan still has goals in progress. Achieve, discontinue or carry them over first.');
+  }
+
+  return (await plans.closePlan(planId, localToday()))!;
+};
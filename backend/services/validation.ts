@@ -0,0 +1,54 @@
+// backend/services/validation.ts
+import { ValidationError } from './errors';
+
+export const GOAL_PRIORITIES = ['low', 'medium', 'high'];
+export const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'];
+export const EXERCISE_FREQUENCIES = ['daily', 'twice daily', 'weekly', 'as needed'];
+export const EXERCISE_CATEGORIES = ['fluency', 'articulation', 'voice', 'language'];
+export const SERIES_FREQUENCIES = ['weekly', 'fortnightly'];
+// Which occurrences of a recurring series an edit or cancellation applies to
+export const SERIES_SCOPES = ['this', 'following', 'all'];
+// Where a session is in its lifecycle; every session starts as scheduled
+export const SESSION_STATUSES = [
+  'scheduled',
+  'attended',
+  'cancelled_by_patient',
+  'cancelled_by_therapist',
+  'no_show',
+  'rescheduled'
+];
+// Where a goal is in its lifecycle - see goalLifecycle.ts for how it moves between them
+export const GOAL_STATUSES = ['draft', 'active', 'on_hold', 'achieved', 'discontinued', 'carried_over'];
+// Journal entries are private to the patient unless they share them with their therapists
+export const JOURNAL_VISIBILITIES = ['private', 'shared'];
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids are checked before they reach the database, which would otherwise fail on a malformed UUID
+export const assertId = (value: string, field: string): void => {
+  if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+    throw new ValidationError(`${field} is not a valid id`);
+  }
+};
+
+// YYYY-MM-DD that is also a real calendar date
+export const assertDate = (value: string, field: string): void => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = match ? new Date(`${value}T00:00:00Z`) : null;
+  if (!date || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new ValidationError(`${field} must be a date in YYYY-MM-DD format`);
+  }
+};
+
+// HH:MM or HH:MM:SS, 24-hour clock
+export const assertTime = (value: string, field: string): void => {
+  if (!/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value)) {
+    throw new ValidationError(`${field} must be a time in HH:MM format`);
+  }
+};
+
+export const assertOneOf = (value: string, allowed: string[], field: string): void => {
+  if (!allowed.includes(value)) {
+    throw new ValidationError(`${field} must be one of: ${allowed.join(', ')}`);
+  }
+};
@@ -0,0 +1,85 @@
+// backend/test-utils/fixtures.ts
+import bcrypt from 'bcryptjs';
+import { Pool } from 'pg';
+import { createUser, NewUser, User, UserRole } from '../repositories/userRepository';
+import { createTherapistLink } from '../repositories/therapistLinkRepository';
+import { startSession } from '../services/tokenService';
+import { truncateTables } from './testDb';
+
+// Every table, children before parents so the deletes respect foreign keys
+const ALL_TABLES = [
+  'journal_entry',
+  'carer_patient_link',
+  'carer_invitation',
+  'therapist_patient_link',
+  'therapist_link_request',
+  'session_exercise',
+  'prompt_attempt',
+  'exercise_prompt',
+  'exercise_step',
+  'exercise_media',
+  'recording_comment',
+  'exercise_recording',
+  'goal_exercise_set',
+  'exercise_schedule',
+  'goal_template_exercise',
+  'goal_template',
+  'exercise',
+  'goal_measurement',
+  'goal_status_history',
+  'goal',
+  'treatment_plan',
+  'session_note_addendum',
+  'session_note',
+  'cancelled_session',
+  'calendar_feed',
+  'session',
+  'session_series',
+  'therapist_availability',
+  'user_tokens',
+  'refresh_tokens',
+  'auth_sessions',
+  'users'
+];
+
+export const resetDatabase = async (pool: Pool): Promise<void> => {
+  await truncateTables(pool, ALL_TABLES);
+};
+
+// Role-specific fields every test user of that role gets
+const ROLE_FIELDS: Record<UserRole, Partial<NewUser>> = {
+  therapist: { clinicName: 'Test Clinic', yearsOfExperience: 5, qualification: 'MSc' },
+  patient: { therapyStartDate: '2026-01-01', preferredContactMethod: 'email' },
+  parent_carer: { relationshipToPatient: 'Parent' }
+};
+
+export interface TestUser {
+  user: User;
+  token: string; // access token to send as "Authorization: Bearer <token>"
+}
+
+/**
+ * Creates a user straight in the database and starts a session for them
+ * name is used for the username and email, so it must be unique within a test
+ */
+export const createTestUser = async (role: UserRole, name: string): Promise<TestUser> => {
+  const user = await createUser({
+    username: name,
+    email: `${name}@example.com`,
+    passwordHash: await bcrypt.hash('password123', 4),
+    firstName: name,
+    lastName: 'Test',
+    phoneNumber: '1234567890',
+    dateOfBirth: '1990-01-01',
+    role,
+    ...ROLE_FIELDS[role]
+  });
+
+  const { accessToken } = await startSession(user);
+  return { user, token: accessToken };
+};
+
+// Links the therapist to the patient as if the patient had accepted the therapist's request
+export const linkTherapist = async (therapist: TestUser, patient: TestUser): Promise<void> => {
+  await createTherapistLink(therapist.user.id, patient.user.id);
+};
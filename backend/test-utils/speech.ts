@@ -0,0 +1,55 @@
+// backend/test-utils/speech.ts
+// Synthetic "speech" for the fluency analysis tests: bursts of syllables separated by silence
+
+export const SAMPLE_RATE = 16000;
+
+// Each segment is [length in ms, syllables spoken in it]; a segment with no syllables is silence
+export type SpeechSegment = [number, number];
+
+/**
+ * Builds mono samples where each syllable is one swell in loudness on a 180Hz tone
+ * A little deterministic noise sits under everything, like a quiet room
+ */
+export const synthesizeSpeech = (segments: SpeechSegment[]): Float32Array => {
+  const total = segments.reduce((sum, [ms]) => sum + (ms * SAMPLE_RATE) / 1000, 0);
+  const samples = new Float32Array(total);
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed / 2147483647 - 0.5) * 0.002;
+  };
+
+  let offset = 0;
+  for (const [ms, syllables] of segments) {
+    const length = (ms * SAMPLE_RATE) / 1000;
+    for (let i = 0; i < length; i++) {
+      const t = i / length;
+      const envelope = syllables > 0 ? 0.15 + 0.35 * Math.sin(Math.PI * t * syllables) ** 2 : 0;
+      samples[offset + i] = envelope * Math.sin((2 * Math.PI * 180 * (offset + i)) / SAMPLE_RATE) + noise();
+    }
+    offset += length;
+  }
+  return samples;
+};
+
+// The samples as a 16-bit PCM mono WAV file
+export const toWav = (samples: Float32Array): Buffer => {
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 32767), i * 2));
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+};
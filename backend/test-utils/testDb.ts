@@ -0,0 +1,47 @@
+// backend/test-utils/testDb.ts
+import { randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import { newDb, DataType } from 'pg-mem';
+
+// Postgres name → pg-mem name, for the unnamed constraints a migration drops
+// pg-mem calls an inline check <table>_constraint_<n> and a column's foreign key <table>_<column>_fk
+const PG_MEM_CONSTRAINT_NAMES: Record<string, string> = {
+  users_role_check: 'users_constraint_1',
+  goal_session_id_fkey: 'goal_session_id_fk'
+};
+
+const DROP_CONSTRAINT = /(DROP CONSTRAINT (?:IF EXISTS )?)(\w+)/gi;
+
+// Creates the pool used by the test suites
+// Set TEST_DATABASE_URL to run against a local Postgres, otherwise an in-process pg-mem database is used
+export const createTestPool = (): Pool => {
+  if (process.env.TEST_DATABASE_URL) {
+    return new Pool({ connectionString: process.env.TEST_DATABASE_URL });
+  }
+
+  const db = newDb();
+
+  // pg-mem does not ship gen_random_uuid(), which the migrations use for primary keys
+  db.public.registerFunction({
+    name: 'gen_random_uuid',
+    returns: DataType.uuid,
+    implementation: randomUUID,
+    impure: true
+  });
+
+  // Migrations drop constraints by the names Postgres gives them, which pg-mem names differently
+  db.public.interceptQueries(sql => {
+    const renamed = sql.replace(DROP_CONSTRAINT, (_match, prefix: string, name: string) => prefix + (PG_MEM_CONSTRAINT_NAMES[name] || name));
+    return renamed === sql ? null : db.public.many(renamed);
+  });
+
+  const { Pool: MemPool } = db.adapters.createPg();
+  return new MemPool();
+};
+
+// Empties the given tables between tests so each test starts from a clean state
+export const truncateTables = async (pool: Pool, tables: string[]): Promise<void> => {
+  for (const table of tables) {
+    await pool.query(`DELETE FROM ${table}`);
+  }
+};
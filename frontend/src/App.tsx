@@ -9,44 +9,57 @@ import AddPatient from './components/dashboards/AddPatient';
 import PatientDetails from './components/dashboards/PatientDetails';
 import PatientDashboard from './components/dashboards/PatientDashboard';
 import PatientGoalsProgress from './components/dashboards/PatientGoalsProgress';
+import PatientJournal from './components/dashboards/PatientJournal';
 import GoalsExercises from './components/dashboards/GoalsExercises';
+import ExerciseLibrary from './components/dashboards/ExerciseLibrary';
+import CarerDashboard from './components/dashboards/CarerDashboard';
+import RequireRole from './components/auth/RequireRole';
+import { AuthProvider } from './context/AuthContext';
 import 'bootstrap/dist/css/bootstrap.min.css';
 import './App.css';
 
 function App() {
   return (
     <Router>
-      <div className="App">
-        <Routes>
-          {/* Home page */}
-          <Route path="/" element={<Home />} />
+      {/* Shares the signed-in user with every page; RequireRole guards the dashboards */}
+      <AuthProvider>
+        <div className="App">
+          <Routes>
+            {/* Home page */}
+            <Route path="/" element={<Home />} />
           
-          {/* Auth routes */}
-          <Route path="/login" element={<Login />} />
-          <Route path="/register" element={<Register />} />
+            {/* Auth routes */}
+            <Route path="/login" element={<Login />} />
+            <Route path="/register" element={<Register />} />
 
-          {/* Therapist routes */}
-          <Route path="/therapist-dashboard" element={<TherapistDashboard/>} />
-          <Route path="/therapist/patients" element={<TherapistPatients/>} />
-          {/* Add patient — legacy manual patient registration form */}
-          {/* This page is no longer the primary method for adding patients */}
-          {/* Patients are now linked via the 'Create a Session' modal in the Therapist Dashboard */}
-          {/* Route kept for backward compatibility to prevent broken links */}
-          <Route path="/therapist/patients/add" element={<AddPatient/>} />
-          <Route path="/therapist/patient/:patientId" element={<PatientDetails/>} />
-          <Route path="/therapist/goals" element={<GoalsExercises/>} />
+            {/* Therapist routes */}
+            <Route path="/therapist-dashboard" element={<RequireRole role="therapist"><TherapistDashboard/></RequireRole>} />
+            <Route path="/therapist/patients" element={<RequireRole role="therapist"><TherapistPatients/></RequireRole>} />
+            {/* Add patient — legacy manual patient registration form */}
+            {/* This page is no longer the primary method for adding patients */}
+            {/* Patients are now linked via the 'Create a Session' modal in the Therapist Dashboard */}
+            {/* Route kept for backward compatibility to prevent broken links */}
+            <Route path="/therapist/patients/add" element={<RequireRole role="therapist"><AddPatient/></RequireRole>} />
+            <Route path="/therapist/patient/:patientId" element={<RequireRole role="therapist"><PatientDetails/></RequireRole>} />
+            <Route path="/therapist/goals" element={<RequireRole role="therapist"><GoalsExercises/></RequireRole>} />
+            <Route path="/therapist/exercises" element={<RequireRole role="therapist"><ExerciseLibrary/></RequireRole>} />
 
-          {/* Patient routes */}
-          <Route path="/patient-dashboard" element={<PatientDashboard/>} />
-          <Route path="/patient/goals-progress" element={<PatientGoalsProgress/>} />
+            {/* Patient routes */}
+            <Route path="/patient-dashboard" element={<RequireRole role="patient"><PatientDashboard/></RequireRole>} />
+            <Route path="/patient/goals-progress" element={<RequireRole role="patient"><PatientGoalsProgress/></RequireRole>} />
+            <Route path="/patient/journal" element={<RequireRole role="patient"><PatientJournal/></RequireRole>} />
 
-          {/* Old route for backward compatibility */}
-          <Route path="/patient-details/:patientId" element={<PatientDetails/>} />
+            {/* Parent/carer routes */}
+            <Route path="/carer-dashboard" element={<RequireRole role="parent_carer"><CarerDashboard/></RequireRole>} />
 
-          {/* Catch all - redirect to home */}
-          <Route path="*" element={<Navigate to="/" replace />} />
-        </Routes>
-      </div>
+            {/* Old route for backward compatibility */}
+            <Route path="/patient-details/:patientId" element={<RequireRole role="therapist"><PatientDetails/></RequireRole>} />
+
+            {/* Catch all - redirect to home */}
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
+        </div>
+      </AuthProvider>
     </Router>
   );
 };
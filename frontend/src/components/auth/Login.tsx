@@ -1,15 +1,21 @@
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import supabaseAuthService from '../../services/supabaseAuthService';
-import { supabase } from '../../services/supabaseClient';
+import { useNavigate, useLocation, Link, Location } from 'react-router-dom';
+import { useAuth, ROLE_HOME } from '../../context/AuthContext';
+import { AuthUser } from '../../services/supabaseAuthService';
 import './Auth.css';
 
 /**
  * Handles user Authentication and redirects users to specific dashboards based on their role 
+ * If a guarded page sent the user here, they are taken back to it instead
  */
 
 const Login: React.FC = () => {
   const navigate = useNavigate(); // Hook for programmatic redirection after login
+  const location = useLocation();
+  const { login } = useAuth();
+
+  // The page RequireRole redirected from, if any
+  const from = (location.state as { from?: Location } | null)?.from;
   
   // State for login form - track input values for username and password 
   const [formData, setFormData] = useState({
@@ -46,31 +52,20 @@ const handleSubmit = async (e: React.FormEvent) => {
   try {
     console.log(' Attempting login with username:', formData.username);
     
-    // Call Supabase login API
-    const response = await supabaseAuthService.login(formData.username, formData.password);
+    // Call Supabase login API - also stores the user in the auth context
+    const response = await login(formData.username, formData.password);
     
     console.log(' Login response:', response);
 
     if (response.success) {
       console.log(' Login successful! User:', response.user);
     
-      // Save session data so the user stays logged in after a refresh 
-      localStorage.setItem('userData', JSON.stringify(response.user));
-    
-      // Normalize role (prevents issues like "Therapist" or "therapist ")
-      const userRole = (response.user?.role || '').trim().toLowerCase();
-    
-      console.log(' ROLE USED FOR REDIRECT:', userRole);
-    
-      // Map roles to their respective dashboard routes 
-      const roleToPath: Record<string, string> = {
-        therapist: '/therapist-dashboard',
-        patient: '/patient-dashboard',
-        parent_carer: '/parent-dashboard',
-      };
-    
-      // Redirect user- moves user to dashboard 
-      navigate(roleToPath[userRole] ?? '/', { replace: true });
+      // Redirect user - back to the page they asked for, otherwise to their dashboard
+      // (RequireRole sends them on to their dashboard if that page is for another role)
+      const destination = from
+        ? `${from.pathname}${from.search}${from.hash}`
+        : ROLE_HOME[(response.user as AuthUser).role];
+      navigate(destination, { replace: true });
     } else {
       console.log(' Login failed:', response.message);
       setError(response.message || 'Login failed');
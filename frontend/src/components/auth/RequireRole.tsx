@@ -0,0 +1,41 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth, ROLE_HOME } from '../../context/AuthContext';
+import { UserRole } from '../../services/supabaseAuthService';
+
+/**
+ * Only renders its children for a signed-in user with one of the given roles
+ * Signed-out users go to /login, which sends them back here afterwards;
+ * users with a different role go to their own dashboard
+ */
+const RequireRole: React.FC<{
+  role: UserRole | UserRole[];
+  children: React.ReactNode;
+}> = ({ role, children }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  // Wait for the stored session to be checked before deciding where to go
+  if (loading) {
+    return (
+      <div className="text-center py-5">
+        <div className="spinner-border text-primary" role="status">
+          <span className="visually-hidden">Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  const allowed = Array.isArray(role) ? role : [role];
+  if (!allowed.includes(user.role)) {
+    return <Navigate to={ROLE_HOME[user.role]} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
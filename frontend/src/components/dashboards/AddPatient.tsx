@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { createPatientWithSession } from '../../services/supabaseTherapistService';
+import { createPatientWithSession } from '../../services/dataLayer';
+import { useAuth } from '../../context/AuthContext';
 import './TherapistDashboard.css';
 
 /**
@@ -10,6 +11,9 @@ import './TherapistDashboard.css';
 const AddPatient: React.FC = () => {
   const navigate = useNavigate();
 
+  // The logged-in therapist - RequireRole only renders this page for therapists
+  const { user, logout } = useAuth();
+
   // UI state management
   const [loading, setLoading] = useState(false); // Controls the loading spinner
   const [error, setError] = useState<string | null>(null); // Stores error messages 
@@ -27,23 +31,6 @@ const AddPatient: React.FC = () => {
     preferredContactMethod: 'email', // Default contact method
   });
 
-  
-  // Retrieve session data from local storage 
-  const userDataString = localStorage.getItem('userData');
-  const userData = userDataString ? JSON.parse(userDataString) : null;
-
-  // Check multiple possible role field names
-  const userRole = userData?.user_role || userData?.role || userData?.userRole;
-
-  // Redirect if user is not logged in or is not a therapist 
-  if (!userData || userRole !== 'therapist') {
-    console.log('Not authorised - redirecting to login');
-    console.log('User data:', userData);
-    console.log('User role:', userRole);
-    navigate('/login');
-    return null;
-  }
-
 
 /**
  * Universal change handler for all input types 
@@ -110,11 +97,8 @@ const AddPatient: React.FC = () => {
         preferred_contact_method: formData.preferredContactMethod,
       };
 
-      // Retrieve the correct therapist ID from the session data
-      const userId = userData.user_id || userData.id;
-
       // Create the patient record and their first session in the database
-      const result = await createPatientWithSession(patientData, userId);
+      const result = await createPatientWithSession(patientData, user!.user_id);
 
       setSuccessMessage(`Patient ${formData.firstName} ${formData.lastName} added successfully!`);
       
@@ -164,12 +148,12 @@ const AddPatient: React.FC = () => {
           <div className="d-flex align-items-center">
             {/* Display the logged-in therapist's full name */}
             <span className="text-white me-3">
-              {userData?.first_name} {userData?.last_name}
+              {user?.firstName} {user?.lastName}
             </span>
-            {/* Logout button — clears session data and redirects to login */}
-            <button className="btn btn-outline-light" onClick={() => {
-              localStorage.removeItem('userData');
-              navigate('/login');
+            {/* Logout button — signs out of Supabase and redirects to login */}
+            <button className="btn btn-outline-light" onClick={async () => {
+              await logout();
+              navigate('/login', { replace: true });
             }}>
               Logout
             </button>
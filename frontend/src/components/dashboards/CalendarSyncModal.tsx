@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import {
+  downloadSessionCalendar,
+  getCalendarFeedStatus,
+  createCalendarFeed,
+  deleteCalendarFeed,
+  CalendarFeedStatus
+} from '../../services/supabaseCalendarService';
+
+/**
+ * Gets the user's sessions into their own calendar app (Google, Outlook, Apple...)
+ * A downloaded .ics file is a one-off copy; a feed link keeps the calendar up to date,
+ * including moved and cancelled sessions
+ * Used by both the patient and therapist dashboards
+ */
+const CalendarSyncModal: React.FC<{
+  userId: string;
+  onClose: () => void;
+}> = ({ userId, onClose }) => {
+  const [feed, setFeed] = useState<CalendarFeedStatus | null>(null);
+  // Only known right after the link is created - just its hash is saved
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCalendarFeedStatus(userId)
+      .then(setFeed)
+      .catch(() => setError('Failed to load your calendar link'));
+  }, [userId]);
+
+  /**
+   * Runs one of the modal's actions, showing its error in the modal if it fails
+   */
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setWorking(true);
+      setError(null);
+      await action();
+    } catch (err: any) {
+      setError(err.message || failure);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDownload = () => run(() => downloadSessionCalendar(userId), 'Failed to download your sessions');
+
+  /**
+   * Creates a new feed link; any calendar subscribed to the old one stops updating
+   */
+  const handleCreateLink = () => run(async () => {
+    if (feed?.active && !window.confirm('Your old link will stop working. Create a new one?')) return;
+    setFeedUrl(await createCalendarFeed(userId));
+    setFeed({ active: true, created_at: new Date().toISOString() });
+    setCopied(false);
+  }, 'Failed to create a calendar link');
+
+  const handleTurnOff = () => run(async () => {
+    await deleteCalendarFeed(userId);
+    setFeed({ active: false, created_at: null });
+    setFeedUrl(null);
+  }, 'Failed to turn off your calendar link');
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  return (
+    // Clicking outside the modal closes it
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={onClose}>
+      <div className="modal-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Add Sessions to Your Calendar</h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            {/* One-off download */}
+            <h6 style={{ fontWeight: 600 }}>Download</h6>
+            <p style={{ color: '#6c757d', fontSize: '14px' }}>
+              Import an .ics file of your sessions. Later changes won't appear unless you download it again.
+            </p>
+            <button type="button" className="btn btn-outline-primary mb-4" onClick={handleDownload} disabled={working}>
+              <i className="bi bi-download me-2"></i>
+              Download .ics
+            </button>
+
+            {/* Private subscription link */}
+            <h6 style={{ fontWeight: 600 }}>Subscribe</h6>
+            <p style={{ color: '#6c757d', fontSize: '14px' }}>
+              Add this link to your calendar app ("From URL" or "Subscribe to calendar") and it will stay up to date,
+              including moved and cancelled sessions. Anyone with the link can see your sessions, so keep it private.
+            </p>
+
+            {feedUrl && (
+              <>
+                <div className="input-group mb-2">
+                  <input type="text" className="form-control" value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+                  <button type="button" className="btn btn-outline-secondary" onClick={handleCopy}>
+                    {copied ? 'Copied' : 'Copy'}
+                  </button>
+                </div>
+                <div className="alert alert-info" style={{ fontSize: '14px' }}>
+                  Copy this link now - it won't be shown again.
+                </div>
+              </>
+            )}
+
+            {/* The link can't be shown again, only replaced */}
+            {!feedUrl && feed?.active && (
+              <div className="alert alert-secondary" style={{ fontSize: '14px' }}>
+                Your calendar link has been on since {new Date(feed.created_at!).toLocaleDateString('en-GB')}.
+                If you've lost it, create a new one.
+              </div>
+            )}
+
+            <div className="d-flex gap-2">
+              <button type="button" className="btn btn-primary" onClick={handleCreateLink} disabled={working || !feed}>
+                {feed?.active ? 'Create New Link' : 'Create Link'}
+              </button>
+              {feed?.active && (
+                <button type="button" className="btn btn-outline-danger" onClick={handleTurnOff} disabled={working}>
+                  Turn Off Link
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="modal-footer">
+            <button type="button" className="btn btn-secondary" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSyncModal;
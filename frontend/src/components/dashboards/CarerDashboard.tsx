@@ -0,0 +1,392 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  getCarerProfile,
+  getCarerPatients,
+  getCarerSentInvitations,
+  requestCarerLink,
+  ParentCarer,
+  CarerInvitation
+} from '../../services/supabaseCarerService';
+import { getPatientUpcomingSessions } from '../../services/supabasePatientService';
+import { Patient, Session } from '../../services/supabaseTherapistService';
+import { RELEASED_STATUSES, SessionStatus } from '../../services/supabaseSessionStatusService';
+import { localToday } from '../../services/clock';
+import PatientGoalsProgress from './PatientGoalsProgress';
+import { useAuth } from '../../context/AuthContext';
+import './TherapistDashboard.css';
+
+// Badge colours for each invitation status
+const statusColors: Record<CarerInvitation['status'], { bg: string; text: string }> = {
+  pending: { bg: '#fef3c7', text: '#b45309' },
+  accepted: { bg: '#dcfce7', text: '#15803d' },
+  declined: { bg: '#fee2e2', text: '#b91c1c' }
+};
+
+/**
+ * Dashboard for parents and carers
+ * Shows a linked child's upcoming sessions, active goals and weekly exercise grid,
+ * and lets the carer tick off exercises practised at home on the child's behalf
+ * Carers link to a child by sending a request the patient or their therapist accepts
+ */
+const CarerDashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const [carer, setCarer] = useState<ParentCarer | null>(null);
+  const [children, setChildren] = useState<Patient[]>([]);
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+  const [upcomingSessions, setUpcomingSessions] = useState<Session[]>([]);
+  const [sentInvitations, setSentInvitations] = useState<CarerInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Link request form state
+  const [linkEmail, setLinkEmail] = useState('');
+  const [linking, setLinking] = useState(false);
+
+  // The logged-in carer - RequireRole only renders this page for parents/carers
+  const { user, logout } = useAuth();
+
+  /**
+   * Fetches the carer's profile, linked children and the link requests they have sent
+   */
+  const loadDashboardData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const userId = user!.user_id;
+
+      const profileData = await getCarerProfile(userId);
+      if (!profileData) {
+        setError('Carer profile not found');
+        return;
+      }
+      setCarer(profileData);
+
+      const [childrenData, invitationsData] = await Promise.all([
+        getCarerPatients(userId),
+        getCarerSentInvitations(userId)
+      ]);
+      setChildren(childrenData);
+      setSentInvitations(invitationsData);
+
+      // Start with the first child selected
+      if (childrenData.length > 0) setSelectedChildId(childrenData[0].user_id);
+    } catch (err: any) {
+      console.error('Error loading carer dashboard:', err);
+      setError(err.message || 'Failed to load dashboard data');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadDashboardData();
+  }, [loadDashboardData]);
+
+  // Reload the sessions whenever the carer switches between children
+  useEffect(() => {
+    if (selectedChildId) loadUpcomingSessions(selectedChildId);
+  }, [selectedChildId]);
+
+  /**
+   * Keeps only sessions from today onwards that are still going ahead, soonest first
+   */
+  const loadUpcomingSessions = async (childId: string) => {
+    try {
+      const today = localToday();
+      const sessionsData = await getPatientUpcomingSessions(childId);
+      setUpcomingSessions(
+        sessionsData
+          .filter(s => s.session_date >= today && !RELEASED_STATUSES.includes(s.status as SessionStatus))
+          .sort((a, b) => `${a.session_date} ${a.session_time}`.localeCompare(`${b.session_date} ${b.session_time}`))
+      );
+    } catch (err: any) {
+      setError(err.message || 'Failed to load sessions');
+    }
+  };
+
+  /**
+   * Sends a link request to the patient with the entered email
+   */
+  const handleRequestLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!carer || !linkEmail.trim()) return;
+
+    try {
+      setLinking(true);
+      setError(null);
+      const invitation = await requestCarerLink(carer.user_id, linkEmail);
+      setSentInvitations(prev => [invitation, ...prev]);
+      setLinkEmail('');
+      setSuccessMessage('Request sent. The patient or their therapist needs to accept it.');
+    } catch (err: any) {
+      setError(err.message || 'Failed to send request');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  /**
+   * Signs out of Supabase and redirects to login
+   */
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
+  /**
+   * Format date in long UK style e.g. Sunday, 18 January 2026
+   */
+  const formatDate = (dateString: string) => {
+    if (!dateString) return 'N/A';
+    const date = new Date(dateString + 'T00:00:00Z');
+    return date.toLocaleDateString('en-GB', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric'
+    });
+  };
+
+  /**
+   * Format time — trims seconds from HH:MM:SS to HH:MM
+   */
+  const formatTime = (timeString: string) => {
+    if (!timeString) return 'N/A';
+    return timeString.substring(0, 5);
+  };
+
+  // Shared card style for each dashboard section
+  const card: React.CSSProperties = {
+    backgroundColor: '#fff', border: '1px solid #dee2e6',
+    borderRadius: '12px', padding: '24px', marginBottom: '24px', textAlign: 'left'
+  };
+
+  if (loading) {
+    return (
+      <div className="dashboard-container">
+        <div className="text-center py-5">
+          <div className="spinner-border text-primary" role="status">
+            <span className="visually-hidden">Loading...</span>
+          </div>
+          <p className="mt-3">Loading your dashboard...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const selectedChild = children.find(c => c.user_id === selectedChildId);
+
+  return (
+    <div style={{ display: 'flex', minHeight: '100vh', backgroundColor: '#f8f9fa' }}>
+
+      {/* Sidebar */}
+      <div style={{
+        width: '240px',
+        backgroundColor: '#fff',
+        borderRight: '1px solid #dee2e6',
+        padding: '20px 0'
+      }}>
+        {/* Platform logo */}
+        <div style={{ padding: '0 20px', marginBottom: '30px' }}>
+          <img src="/logo.jpg" alt="OwnUrVoice Logo" style={{ height: '100px', width: 'auto' }} />
+        </div>
+
+        {/* Sidebar Navigation */}
+        <nav>
+          {/* Dashboard — active page, highlighted in purple */}
+          <div
+            onClick={() => navigate('/carer-dashboard')}
+            style={{
+              display: 'flex', alignItems: 'center', padding: '12px 20px',
+              color: '#6366f1', cursor: 'pointer',
+              backgroundColor: '#e0e7ff', borderLeft: '3px solid #6366f1'
+            }}
+          >
+            <i className="bi bi-grid me-2"></i>Dashboard
+          </div>
+        </nav>
+      </div>
+
+      {/* Main Content */}
+      <div style={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
+
+        {/* Top Bar - displays welcome message and logout button */}
+        <div style={{
+          backgroundColor: '#fff',
+          borderBottom: '1px solid #dee2e6',
+          padding: '16px 32px',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          alignItems: 'center'
+        }}>
+          <span style={{ marginRight: '20px', color: '#6c757d' }}>
+            Welcome, {carer?.first_name}
+          </span>
+          <button
+            onClick={handleLogout}
+            style={{
+              padding: '8px 16px', border: 'none',
+              backgroundColor: 'transparent', color: '#6c757d',
+              cursor: 'pointer', textDecoration: 'underline'
+            }}
+          >
+            Logout
+          </button>
+        </div>
+
+        {/* Content Area */}
+        <div style={{ flex: 1, padding: '32px', maxWidth: '1050px', width: '100%', margin: '0 auto', overflowY: 'auto' }}>
+          {error && (
+            <div className="alert alert-danger alert-dismissible fade show" role="alert">
+              {error}
+              <button type="button" className="btn-close" onClick={() => setError(null)}></button>
+            </div>
+          )}
+          {successMessage && (
+            <div className="alert alert-success alert-dismissible fade show">
+              {successMessage}
+              <button type="button" className="btn-close" onClick={() => setSuccessMessage(null)}></button>
+            </div>
+          )}
+
+          {/* Header with a child picker when the carer is linked to more than one child */}
+          <div style={{
+            display: 'flex', justifyContent: 'space-between',
+            alignItems: 'center', marginBottom: '24px', gap: '12px', flexWrap: 'wrap'
+          }}>
+            <h2 style={{ margin: 0 }}>
+              {selectedChild ? `${selectedChild.first_name}'s therapy` : 'Your child\'s therapy'}
+            </h2>
+            {children.length > 1 && (
+              <select
+                value={selectedChildId ?? ''}
+                onChange={e => setSelectedChildId(e.target.value)}
+                style={{
+                  padding: '8px 12px', borderRadius: '8px', border: '1px solid #dee2e6',
+                  fontSize: '14px', color: '#1a1a2e', cursor: 'pointer', backgroundColor: '#fff'
+                }}
+              >
+                {children.map(child => (
+                  <option key={child.user_id} value={child.user_id}>
+                    {child.first_name} {child.last_name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Empty state — shown until a link request has been accepted */}
+          {!selectedChild && (
+            <div style={card}>
+              <p className="text-muted" style={{ margin: 0 }}>
+                You are not linked to a child yet. Send a request below using the email address
+                on your child's account; once they or their therapist accept it, their sessions
+                and exercises will appear here.
+              </p>
+            </div>
+          )}
+
+          {selectedChild && carer && (
+            <>
+              {/* Upcoming sessions */}
+              <div style={card}>
+                <h5 style={{ marginBottom: '16px', color: '#1a1a2e' }}>
+                  <i className="bi bi-calendar me-2"></i>Upcoming sessions
+                </h5>
+                {upcomingSessions.length === 0 ? (
+                  <p className="text-muted" style={{ margin: 0 }}>No upcoming sessions booked.</p>
+                ) : (
+                  upcomingSessions.map(session => (
+                    <div
+                      key={session.session_id}
+                      style={{
+                        display: 'flex', gap: '24px', padding: '10px 0',
+                        borderTop: '1px solid #f0f0f0', fontSize: '14px',
+                        color: '#6c757d', flexWrap: 'wrap'
+                      }}
+                    >
+                      <strong style={{ color: '#1a1a2e', minWidth: '240px' }}>{formatDate(session.session_date)}</strong>
+                      <span><i className="bi bi-clock me-1"></i>{formatTime(session.session_time)}</span>
+                      <span>{session.session_type}</span>
+                      {session.therapist && (
+                        <span>
+                          <i className="bi bi-person me-1"></i>
+                          {session.therapist.first_name} {session.therapist.last_name}
+                        </span>
+                      )}
+                      {session.location && <span><i className="bi bi-geo-alt me-1"></i>{session.location}</span>}
+                    </div>
+                  ))
+                )}
+              </div>
+
+              {/* Active goals and the weekly exercise grid — ticks are recorded against the carer */}
+              <PatientGoalsProgress
+                key={selectedChild.user_id}
+                patientId={selectedChild.user_id}
+                carerId={carer.user_id}
+              />
+            </>
+          )}
+
+          {/* Link to a child */}
+          <div style={{ ...card, marginTop: '8px' }}>
+            <h5 style={{ marginBottom: '4px', color: '#1a1a2e' }}>
+              <i className="bi bi-person-plus me-2"></i>Link to a child
+            </h5>
+            <p style={{ color: '#6c757d', fontSize: '14px', marginBottom: '16px' }}>
+              Enter the email address on your child's account. They or their therapist will be asked to accept.
+            </p>
+            <form onSubmit={handleRequestLink} style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+              <input
+                type="email"
+                className="form-control"
+                style={{ maxWidth: '360px' }}
+                placeholder="child@example.com"
+                value={linkEmail}
+                onChange={e => setLinkEmail(e.target.value)}
+                required
+              />
+              <button type="submit" className="btn btn-primary" disabled={linking}>
+                {linking ? 'Sending...' : 'Send request'}
+              </button>
+            </form>
+
+            {/* Requests already sent, with their current status */}
+            {sentInvitations.length > 0 && (
+              <div style={{ marginTop: '16px' }}>
+                {sentInvitations.map(invitation => (
+                  <div
+                    key={invitation.invitation_id}
+                    style={{
+                      display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+                      padding: '8px 0', borderTop: '1px solid #f0f0f0', fontSize: '14px'
+                    }}
+                  >
+                    <span>
+                      {invitation.patient?.first_name} {invitation.patient?.last_name}
+                      <span style={{ color: '#6c757d' }}> ({invitation.patient?.email})</span>
+                    </span>
+                    <span style={{
+                      fontSize: '12px', padding: '2px 10px', borderRadius: '20px', fontWeight: '600',
+                      backgroundColor: statusColors[invitation.status].bg,
+                      color: statusColors[invitation.status].text,
+                      textTransform: 'capitalize'
+                    }}>
+                      {invitation.status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CarerDashboard;
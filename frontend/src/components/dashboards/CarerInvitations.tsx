@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getPendingCarerInvitations,
+  respondToCarerInvitation,
+  CarerInvitation
+} from '../../services/supabaseCarerService';
+
+/**
+ * Parent/carer link requests waiting for an answer
+ * Shown on the patient dashboard (requests for the patient) and the therapist dashboard
+ * (requests for any of the therapist's patients); renders nothing when there are none
+ */
+const CarerInvitations: React.FC<{
+  userId: string;
+  role: 'patient' | 'therapist';
+}> = ({ userId, role }) => {
+  const [invitations, setInvitations] = useState<CarerInvitation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tracks which invitation is being answered so its buttons can be disabled
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPendingCarerInvitations(userId, role)
+      .then(setInvitations)
+      .catch(() => setError('Failed to load carer requests'));
+  }, [userId, role]);
+
+  /**
+   * Accepts or declines a request and removes it from the list
+   */
+  const handleRespond = async (invitationId: string, accept: boolean) => {
+    try {
+      setRespondingId(invitationId);
+      setError(null);
+      await respondToCarerInvitation(invitationId, accept, userId);
+      setInvitations(prev => prev.filter(i => i.invitation_id !== invitationId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to answer the request');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invitations.length === 0 && !error) return null;
+
+  return (
+    <div style={{
+      backgroundColor: '#fff', border: '1px solid #dee2e6',
+      borderRadius: '12px', padding: '20px 24px', marginBottom: '24px', textAlign: 'left'
+    }}>
+      <h5 style={{ marginBottom: '4px', color: '#1a1a2e' }}>
+        <i className="bi bi-person-plus me-2"></i>Parent/carer requests
+      </h5>
+      <p style={{ color: '#6c757d', fontSize: '14px', marginBottom: '16px' }}>
+        Accepting lets the parent/carer see upcoming sessions and goals, and tick off exercises at home
+      </p>
+
+      {error && <div className="alert alert-danger py-2">{error}</div>}
+
+      {invitations.map(invitation => (
+        <div
+          key={invitation.invitation_id}
+          style={{
+            display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+            padding: '12px 0', borderTop: '1px solid #f0f0f0', gap: '12px', flexWrap: 'wrap'
+          }}
+        >
+          <div style={{ fontSize: '14px' }}>
+            <strong>{invitation.carer?.first_name} {invitation.carer?.last_name}</strong>
+            {invitation.carer?.relationship_to_patient && (
+              <span style={{ color: '#6c757d' }}> ({invitation.carer.relationship_to_patient})</span>
+            )}
+            {/* Therapists answer for several patients, so show whose carer this is */}
+            {role === 'therapist' && (
+              <span style={{ color: '#6c757d' }}>
+                {' '}for {invitation.patient?.first_name} {invitation.patient?.last_name}
+              </span>
+            )}
+            <div style={{ color: '#6c757d', fontSize: '13px' }}>{invitation.carer?.email}</div>
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button
+              className="btn btn-primary btn-sm"
+              disabled={respondingId === invitation.invitation_id}
+              onClick={() => handleRespond(invitation.invitation_id, true)}
+            >
+              Accept
+            </button>
+            <button
+              className="btn btn-outline-secondary btn-sm"
+              disabled={respondingId === invitation.invitation_id}
+              onClick={() => handleRespond(invitation.invitation_id, false)}
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CarerInvitations;
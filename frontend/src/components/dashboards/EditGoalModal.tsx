@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { previewTargetDateChange, ExerciseScheduleChange } from '../../services/supabaseTherapistService';
+import { updateGoal } from '../../services/dataLayer';
+import type { Goal } from '../../services/supabaseTherapistService';
+import { SmartGoalDraft, describeSmartGoal, smartGoalError, smartGoalFields } from '../../services/smartGoal';
+import SmartGoalFields from './SmartGoalFields';
+
+/**
+ * Edits a goal's description, target date and priority
+ * A SMART goal is edited through its SMART fields, and its description summarised from them again
+ * Moving the target date extends or trims the goal's exercise schedules, so the change
+ * to each exercise is previewed before it is saved
+ */
+const EditGoalModal: React.FC<{
+  goal: Goal;
+  onClose: () => void;
+  onSaved: () => void;
+}> = ({ goal, onClose, onSaved }) => {
+  const [description, setDescription] = useState(goal.goal_description);
+  // Only set for goals written as SMART goals; free-text goals keep their description box
+  const [smartGoal, setSmartGoal] = useState<SmartGoalDraft | null>(goal.specific_behaviour
+    ? {
+      specific_behaviour: goal.specific_behaviour,
+      measurable_criterion: goal.measurable_criterion || '',
+      context: goal.context || ''
+    }
+    : null);
+  const [targetDate, setTargetDate] = useState(goal.target_date);
+  const [priority, setPriority] = useState(goal.priority);
+  const [changes, setChanges] = useState<ExerciseScheduleChange[] | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetMoved = targetDate !== goal.target_date && targetDate >= goal.start_date;
+
+  /**
+   * Previews the schedule changes whenever a new target date is picked
+   * A preview that arrives after the date changed again is ignored
+   */
+  useEffect(() => {
+    setChanges(null);
+    if (!targetMoved) return;
+
+    let current = true;
+    previewTargetDateChange(goal.goal_id, targetDate)
+      .then(preview => current && setChanges(preview))
+      .catch(() => current && setError('Failed to preview the schedule changes'));
+    return () => { current = false; };
+  }, [goal.goal_id, targetDate, targetMoved]);
+
+  const handleSave = async () => {
+    const smartError = smartGoal && smartGoalError(smartGoal);
+    if (smartError) { setError(smartError + '.'); return; }
+    if (!smartGoal && !description.trim()) { setError('Please enter a goal description.'); return; }
+    if (!targetDate || targetDate < goal.start_date) { setError('The target date cannot be before the start date.'); return; }
+
+    try {
+      setWorking(true);
+      setError(null);
+      await updateGoal(goal.goal_id, {
+        goal_description: smartGoal ? describeSmartGoal(smartGoal) : description.trim(),
+        target_date: targetDate,
+        priority,
+        ...(smartGoal && smartGoalFields(smartGoal))
+      });
+      onSaved();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update the goal');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const plural = (count: number) => `${count} ${count === 1 ? 'practice' : 'practices'}`;
+
+  return (
+    // Clicking outside the modal closes it
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={onClose}>
+      <div className="modal-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Edit Goal</h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            {smartGoal ? (
+              <SmartGoalFields value={smartGoal} onChange={setSmartGoal} />
+            ) : (
+              <div className="mb-3">
+                <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>Description</label>
+                <textarea
+                  className="form-control"
+                  rows={2}
+                  value={description}
+                  onChange={e => setDescription(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="row">
+              <div className="col-6 mb-3">
+                <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>Target Date</label>
+                <input
+                  type="date"
+                  className="form-control"
+                  min={goal.start_date}
+                  value={targetDate}
+                  onChange={e => setTargetDate(e.target.value)}
+                />
+              </div>
+              <div className="col-6 mb-3">
+                <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>Priority</label>
+                <select className="form-select" value={priority} onChange={e => setPriority(e.target.value)}>
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </select>
+              </div>
+            </div>
+
+            {/* What the new target date does to each exercise's schedule */}
+            {targetMoved && (
+              <div className="p-3 rounded-3" style={{ backgroundColor: '#f5f3ff', fontSize: '13px' }}>
+                <div className="fw-semibold mb-2" style={{ color: '#5B4FCF' }}>Schedule changes</div>
+                {!changes ? (
+                  <div className="spinner-border spinner-border-sm text-primary" role="status" />
+                ) : changes.every(change => !change.added && !change.removed && !change.kept) ? (
+                  <span className="text-muted">No exercise schedules change.</span>
+                ) : (
+                  <ul className="mb-0 ps-3">
+                    {changes.map(change => (
+                      <li key={change.exercise_id}>
+                        <strong>{change.title}</strong>
+                        {change.added > 0 && <span className="text-success"> · {plural(change.added)} added</span>}
+                        {change.removed > 0 && <span className="text-danger"> · {plural(change.removed)} removed</span>}
+                        {change.kept > 0 && (
+                          <span className="text-muted"> · {plural(change.kept)} after the new date kept, as they were already done</span>
+                        )}
+                        {!change.added && !change.removed && !change.kept && <span className="text-muted"> · no change</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="modal-footer">
+            <button type="button" className="btn btn-secondary" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="button" className="btn btn-primary" onClick={handleSave} disabled={working}>
+              Save Goal
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditGoalModal;
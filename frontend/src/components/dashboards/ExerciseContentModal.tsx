@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getExerciseContent,
+  saveExerciseContent,
+  uploadExerciseMedia,
+  deleteExerciseMedia,
+  ExerciseContent,
+  ExerciseMedia,
+  PromptInput,
+  MEDIA_ACCEPT
+} from '../../services/supabaseExerciseContentService';
+
+const MEDIA_ICONS: Record<ExerciseMedia['kind'], string> = {
+  audio: 'bi-music-note-beamed',
+  video: 'bi-camera-video',
+  image: 'bi-image'
+};
+
+/**
+ * Prompts typed one per line, matched back to the saved ones by their text
+ * so attempts patients already made at an unchanged prompt are kept
+ */
+const toPromptInputs = (lines: string[], saved: ExerciseContent['prompts']): PromptInput[] => {
+  const unused = [...saved];
+  return lines.map(text => {
+    const index = unused.findIndex(prompt => prompt.text === text);
+    const match = index >= 0 ? unused.splice(index, 1)[0] : null;
+    return { prompt_id: match?.prompt_id, text };
+  });
+};
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+/**
+ * What the patient sees when they open the exercise: instruction steps in order,
+ * example audio, video or pictures, and the words or sentences practice mode walks through
+ */
+const ExerciseContentModal: React.FC<{
+  exerciseId: string;
+  exerciseTitle: string;
+  onClose: () => void;
+}> = ({ exerciseId, exerciseTitle, onClose }) => {
+  const [content, setContent] = useState<ExerciseContent | null>(null);
+  const [stepsText, setStepsText] = useState('');
+  const [promptsText, setPromptsText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [caption, setCaption] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  // Bumped to reload after media is added or removed
+  const [contentVersion, setContentVersion] = useState(0);
+
+  useEffect(() => {
+    getExerciseContent(exerciseId)
+      .then(loaded => {
+        setContent(loaded);
+        // Reloads keep whatever is being typed
+        if (contentVersion === 0) {
+          setStepsText(loaded.steps.join('\n'));
+          setPromptsText(loaded.prompts.map(prompt => prompt.text).join('\n'));
+        }
+      })
+      .catch(() => setError('Failed to load the exercise content'));
+  }, [exerciseId, contentVersion]);
+
+  /**
+   * Runs one of the modal's actions, showing its error in the modal if it fails
+   */
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setWorking(true);
+      setError(null);
+      setSaved(false);
+      await action();
+    } catch (err: any) {
+      setError(err.message || failure);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    await saveExerciseContent(exerciseId, toLines(stepsText), toPromptInputs(toLines(promptsText), content?.prompts || []));
+    setContentVersion(v => v + 1);
+    setSaved(true);
+  }, 'Failed to save the exercise content');
+
+  const handleUpload = () => run(async () => {
+    if (!file) return;
+    await uploadExerciseMedia(exerciseId, file, caption);
+    setFile(null);
+    setCaption('');
+    setContentVersion(v => v + 1);
+  }, 'Failed to upload the file');
+
+  const handleDeleteMedia = (media: ExerciseMedia) => run(async () => {
+    if (!window.confirm(`Remove ${media.caption || 'this file'}?`)) return;
+    await deleteExerciseMedia(media);
+    setContentVersion(v => v + 1);
+  }, 'Failed to remove the file');
+
+  return (
+    // Clicking outside the modal closes it
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={onClose}>
+      <div className="modal-dialog modal-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Content for {exerciseTitle}</h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+            {saved && <div className="alert alert-success py-2">Content saved</div>}
+
+            {!content ? (
+              <div className="text-center py-4">
+                <div className="spinner-border spinner-border-sm text-primary" role="status" />
+              </div>
+            ) : (
+              <>
+                <div className="mb-3">
+                  <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>Steps</label>
+                  <textarea
+                    className="form-control"
+                    rows={4}
+                    value={stepsText}
+                    onChange={e => setStepsText(e.target.value)}
+                    placeholder={'One instruction per line, in order\ne.g. Breathe in through your nose'}
+                  />
+                </div>
+
+                <div className="mb-3">
+                  <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>Practice prompts</label>
+                  <textarea
+                    className="form-control"
+                    rows={5}
+                    value={promptsText}
+                    onChange={e => setPromptsText(e.target.value)}
+                    placeholder={'One word or sentence per line\ne.g. Peter picked a pepper'}
+                  />
+                  <small className="text-muted">Practice mode shows these to the patient one at a time.</small>
+                </div>
+
+                <button type="button" className="btn btn-primary mb-4" onClick={handleSave} disabled={working}>
+                  Save Steps & Prompts
+                </button>
+
+                {/* Example media */}
+                <h6 style={{ fontWeight: 600 }}>Examples</h6>
+                {content.media.length === 0 ? (
+                  <p className="text-muted" style={{ fontSize: '14px' }}>No audio, video or pictures yet.</p>
+                ) : (
+                  <ul className="list-group mb-3">
+                    {content.media.map(media => (
+                      <li key={media.media_id} className="list-group-item d-flex align-items-center gap-2">
+                        <i className={`bi ${MEDIA_ICONS[media.kind]}`}></i>
+                        <a href={media.url} target="_blank" rel="noreferrer" style={{ flex: 1 }}>
+                          {media.caption || `Example ${media.kind}`}
+                        </a>
+                        <button
+                          type="button"
+                          className="btn btn-sm btn-outline-danger"
+                          title="Remove"
+                          onClick={() => handleDeleteMedia(media)}
+                          disabled={working}
+                        >
+                          <i className="bi bi-trash"></i>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="row g-2 align-items-center">
+                  <div className="col-12 col-md-5">
+                    {/* Keyed on the version so the picker empties after an upload */}
+                    <input
+                      key={contentVersion}
+                      type="file"
+                      className="form-control form-control-sm"
+                      accept={MEDIA_ACCEPT}
+                      onChange={e => setFile(e.target.files?.[0] || null)}
+                    />
+                  </div>
+                  <div className="col-8 col-md-5">
+                    <input
+                      type="text"
+                      className="form-control form-control-sm"
+                      placeholder="Caption (optional)"
+                      maxLength={200}
+                      value={caption}
+                      onChange={e => setCaption(e.target.value)}
+                    />
+                  </div>
+                  <div className="col-4 col-md-2">
+                    <button
+                      type="button"
+                      className="btn btn-sm btn-outline-primary w-100"
+                      onClick={handleUpload}
+                      disabled={working || !file}
+                    >
+                      <i className="bi bi-upload me-1"></i>Add
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="modal-footer">
+            <button type="button" className="btn btn-secondary" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExerciseContentModal;
@@ -0,0 +1,478 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  getExerciseLibrary,
+  createLibraryExercise,
+  cloneExercise,
+  setExerciseShared,
+  LibraryExercise,
+  LibraryFilters,
+  LibraryScope,
+  ExerciseFields,
+  EXERCISE_CATEGORIES,
+  DIFFICULTY_LEVELS,
+  EXERCISE_FREQUENCIES
+} from '../../services/supabaseExerciseService';
+import { updateLibraryExercise, deleteLibraryExercise } from '../../services/dataLayer';
+import { useAuth } from '../../context/AuthContext';
+import ExerciseContentModal from './ExerciseContentModal';
+import './TherapistDashboard.css';
+
+const emptyExercise = (): ExerciseFields => ({
+  title: '',
+  description: '',
+  difficulty_level: 'beginner',
+  recommended_frequency: 'daily',
+  category: 'fluency'
+});
+
+const SCOPE_LABELS: Record<LibraryScope, string> = {
+  mine: 'My Exercises',
+  shared: 'Shared by My Clinic',
+  all: 'All'
+};
+
+const capitalise = (value: string) => value[0].toUpperCase() + value.slice(1);
+
+/**
+ * The therapist's exercise library
+ * Exercises are written once here and picked from when assigning them to goals
+ * Colleagues at the same clinic can share exercises; a shared one can be copied and edited without changing the original
+ */
+const ExerciseLibrary: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+  const therapistId = user!.user_id;
+
+  const [exercises, setExercises] = useState<LibraryExercise[]>([]);
+  const [filters, setFilters] = useState<LibraryFilters>({ scope: 'all' });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+
+  // The exercise being written; editingId is set when it replaces an existing one
+  const [form, setForm] = useState<ExerciseFields>(emptyExercise());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // The exercise whose steps, prompts and media are being edited
+  const [contentExercise, setContentExercise] = useState<LibraryExercise | null>(null);
+  // Bumped to reload the library after an exercise is saved, copied, shared or deleted
+  const [libraryVersion, setLibraryVersion] = useState(0);
+
+  /**
+   * Effect: loads the library whenever the filters change
+   */
+  useEffect(() => {
+    setLoading(true);
+    getExerciseLibrary(therapistId, filters)
+      .then(setExercises)
+      .catch(err => setError('Failed to load the exercise library: ' + err.message))
+      .finally(() => setLoading(false));
+  }, [therapistId, filters, libraryVersion]);
+
+  const showSuccess = (message: string) => {
+    setSuccessMsg(message);
+    setTimeout(() => setSuccessMsg(null), 3000);
+  };
+
+  const updateFilter = (field: keyof LibraryFilters, value: string) => {
+    setFilters(current => ({ ...current, [field]: value || undefined }));
+  };
+
+  const openForm = (exercise?: LibraryExercise) => {
+    setEditingId(exercise ? exercise.exercise_id : null);
+    setForm(exercise ? {
+      title: exercise.title,
+      description: exercise.description,
+      difficulty_level: exercise.difficulty_level,
+      recommended_frequency: exercise.recommended_frequency,
+      category: exercise.category || 'fluency'
+    } : emptyExercise());
+    setShowForm(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingId) {
+        await updateLibraryExercise(editingId, form);
+      } else {
+        await createLibraryExercise(therapistId, form);
+      }
+      setShowForm(false);
+      setLibraryVersion(v => v + 1);
+      showSuccess(editingId ? 'Exercise updated' : 'Exercise added to your library');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the exercise');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Copies the exercise into the therapist's own library and opens the copy for editing
+  const handleClone = async (exercise: LibraryExercise) => {
+    try {
+      setError(null);
+      const copy = await cloneExercise(therapistId, exercise);
+      setLibraryVersion(v => v + 1);
+      openForm(copy);
+    } catch (err: any) {
+      setError(err.message || 'Failed to copy the exercise');
+    }
+  };
+
+  const handleToggleShared = async (exercise: LibraryExercise) => {
+    try {
+      setError(null);
+      await setExerciseShared(exercise.exercise_id, !exercise.is_shared);
+      setLibraryVersion(v => v + 1);
+      showSuccess(exercise.is_shared ? 'Exercise is no longer shared' : 'Exercise shared with your clinic');
+    } catch (err: any) {
+      setError(err.message || 'Failed to change sharing');
+    }
+  };
+
+  const handleDelete = async (exercise: LibraryExercise) => {
+    if (!window.confirm(`Delete "${exercise.title}"? It will also be removed from every goal it is assigned to.`)) return;
+    try {
+      setError(null);
+      await deleteLibraryExercise(therapistId, exercise.exercise_id);
+      setLibraryVersion(v => v + 1);
+      showSuccess('Exercise deleted');
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the exercise');
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
+  return (
+    <div style={{ backgroundColor: '#f8f9fa', minHeight: '100vh' }}>
+
+      {/* Navigation Bar */}
+      <nav className="dashboard-nav">
+        <div className="nav-content">
+          <img src="/logo.jpg" alt="OwnUrVoice Logo" style={{ height: '70px', width: 'auto' }} />
+          <div className="nav-right">
+            <span className="welcome-text">Welcome, {user?.firstName} {user?.lastName}</span>
+            <button onClick={handleLogout} className="logout-btn">Logout</button>
+          </div>
+        </div>
+      </nav>
+
+      <div className="dashboard-container">
+
+        {/* Left Sidebar Navigation */}
+        <aside className="sidebar">
+          <div className="sidebar-item" onClick={() => navigate('/therapist-dashboard')} style={{ cursor: 'pointer' }}>
+            <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <rect x="3" y="3" width="7" height="7"/>
+              <rect x="14" y="3" width="7" height="7"/>
+              <rect x="14" y="14" width="7" height="7"/>
+              <rect x="3" y="14" width="7" height="7"/>
+            </svg>
+            <span>Dashboard</span>
+          </div>
+
+          <div className="sidebar-item" onClick={() => navigate('/therapist/patients')} style={{ cursor: 'pointer' }}>
+            <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"/>
+              <circle cx="12" cy="7" r="4"/>
+            </svg>
+            <span>Patient Details</span>
+          </div>
+
+          <div className="sidebar-item" onClick={() => navigate('/therapist/goals')} style={{ cursor: 'pointer' }}>
+            <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <circle cx="12" cy="12" r="10"/>
+              <path d="M12 6v6l4 2"/>
+            </svg>
+            <span>Goals & Exercises</span>
+          </div>
+
+          {/* Exercise Library — active page */}
+          <div className="sidebar-item active" style={{ cursor: 'pointer' }}>
+            <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/>
+              <path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/>
+            </svg>
+            <span>Exercise Library</span>
+          </div>
+        </aside>
+
+        <main className="main-panel">
+          <div className="panel-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <div>
+              <h2 className="panel-title">Exercise Library</h2>
+              <p className="panel-subtitle">Write exercises once and reuse them across your patients' goals</p>
+            </div>
+            <button
+              className="btn btn-sm text-white fw-semibold"
+              style={{ backgroundColor: '#5B4FCF', borderRadius: '8px', padding: '8px 16px' }}
+              onClick={() => openForm()}
+            >
+              + New Exercise
+            </button>
+          </div>
+
+          <div style={{ padding: '0 20px 20px' }}>
+            {successMsg && <div className="alert alert-success py-2">{successMsg}</div>}
+            {error && (
+              <div className="alert alert-danger alert-dismissible fade show">
+                {error}
+                <button type="button" className="btn-close" onClick={() => setError(null)} />
+              </div>
+            )}
+
+            {/* New / edit exercise form */}
+            {showForm && (
+              <form
+                onSubmit={handleSave}
+                className="mb-4 p-3 rounded-3"
+                style={{ backgroundColor: '#f0eeff', border: '1px solid #d4cff5' }}
+              >
+                <h6 className="fw-bold mb-3" style={{ color: '#5B4FCF' }}>
+                  {editingId ? 'Edit Exercise' : 'New Exercise'}
+                </h6>
+                <div className="mb-2">
+                  <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>
+                    Title <span className="text-danger">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    className="form-control"
+                    value={form.title}
+                    onChange={e => setForm({ ...form, title: e.target.value })}
+                    placeholder="e.g. Slow speech reading"
+                    required
+                  />
+                </div>
+                <div className="mb-2">
+                  <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>Description</label>
+                  <textarea
+                    className="form-control"
+                    rows={3}
+                    value={form.description}
+                    onChange={e => setForm({ ...form, description: e.target.value })}
+                    placeholder="How to do the exercise..."
+                  />
+                </div>
+                <div className="row">
+                  <div className="col-4 mb-2">
+                    <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>Category</label>
+                    <select
+                      className="form-select"
+                      value={form.category || 'fluency'}
+                      onChange={e => setForm({ ...form, category: e.target.value })}
+                    >
+                      {EXERCISE_CATEGORIES.map(category => (
+                        <option key={category} value={category}>{capitalise(category)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-4 mb-2">
+                    <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>Difficulty</label>
+                    <select
+                      className="form-select"
+                      value={form.difficulty_level}
+                      onChange={e => setForm({ ...form, difficulty_level: e.target.value })}
+                    >
+                      {DIFFICULTY_LEVELS.map(level => (
+                        <option key={level} value={level}>{capitalise(level)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-4 mb-2">
+                    <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>Recommended Frequency</label>
+                    <select
+                      className="form-select"
+                      value={form.recommended_frequency}
+                      onChange={e => setForm({ ...form, recommended_frequency: e.target.value })}
+                    >
+                      {EXERCISE_FREQUENCIES.map(frequency => (
+                        <option key={frequency} value={frequency}>{capitalise(frequency)}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="d-flex gap-2 mt-2">
+                  <button
+                    type="submit"
+                    className="btn text-white fw-semibold"
+                    style={{ backgroundColor: '#5B4FCF', borderRadius: '8px' }}
+                    disabled={saving}
+                  >
+                    {saving ? 'Saving...' : 'Save Exercise'}
+                  </button>
+                  <button type="button" className="btn btn-light fw-semibold" onClick={() => setShowForm(false)}>
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {/* Filters — scope, category, difficulty, frequency and a text search */}
+            <div className="card border-0 shadow-sm mb-3" style={{ borderRadius: '16px' }}>
+              <div className="card-body p-3">
+                <div className="btn-group btn-group-sm mb-3">
+                  {(Object.keys(SCOPE_LABELS) as LibraryScope[]).map(scope => (
+                    <button
+                      key={scope}
+                      type="button"
+                      className={`btn ${filters.scope === scope ? 'btn-primary' : 'btn-outline-secondary'}`}
+                      onClick={() => setFilters({ ...filters, scope })}
+                    >
+                      {SCOPE_LABELS[scope]}
+                    </button>
+                  ))}
+                </div>
+                <div className="row g-2">
+                  <div className="col-12 col-md-3">
+                    <input
+                      type="text"
+                      className="form-control form-control-sm"
+                      placeholder="Search exercises..."
+                      value={filters.search || ''}
+                      onChange={e => updateFilter('search', e.target.value)}
+                    />
+                  </div>
+                  <div className="col-4 col-md-3">
+                    <select
+                      className="form-select form-select-sm"
+                      value={filters.category || ''}
+                      onChange={e => updateFilter('category', e.target.value)}
+                    >
+                      <option value="">All categories</option>
+                      {EXERCISE_CATEGORIES.map(category => (
+                        <option key={category} value={category}>{capitalise(category)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-4 col-md-3">
+                    <select
+                      className="form-select form-select-sm"
+                      value={filters.difficulty_level || ''}
+                      onChange={e => updateFilter('difficulty_level', e.target.value)}
+                    >
+                      <option value="">All difficulties</option>
+                      {DIFFICULTY_LEVELS.map(level => (
+                        <option key={level} value={level}>{capitalise(level)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-4 col-md-3">
+                    <select
+                      className="form-select form-select-sm"
+                      value={filters.recommended_frequency || ''}
+                      onChange={e => updateFilter('recommended_frequency', e.target.value)}
+                    >
+                      <option value="">All frequencies</option>
+                      {EXERCISE_FREQUENCIES.map(frequency => (
+                        <option key={frequency} value={frequency}>{capitalise(frequency)}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Exercise list */}
+            {loading ? (
+              <div className="text-center py-4">
+                <div className="spinner-border spinner-border-sm text-primary" role="status" />
+              </div>
+            ) : exercises.length === 0 ? (
+              <p className="text-muted text-center py-4">No exercises match these filters.</p>
+            ) : (
+              exercises.map(exercise => {
+                const isOwn = exercise.created_by === therapistId;
+                return (
+                  <div
+                    key={exercise.exercise_id}
+                    className="p-3 rounded-3 mb-2"
+                    style={{ backgroundColor: '#fff', border: '1px solid #e9ecef' }}
+                  >
+                    <div className="d-flex align-items-start justify-content-between gap-2">
+                      <div style={{ flex: 1, textAlign: 'left' }}>
+                        <div className="d-flex align-items-center gap-2 flex-wrap">
+                          <span className="fw-semibold" style={{ fontSize: '15px', color: '#1a1a2e' }}>{exercise.title}</span>
+                          {exercise.category && (
+                            <span style={{ fontSize: '11px', padding: '2px 8px', borderRadius: '20px', backgroundColor: '#e0e7ff', color: '#5B4FCF' }}>
+                              {exercise.category}
+                            </span>
+                          )}
+                          <span style={{ fontSize: '11px', color: '#6c757d' }}>{exercise.difficulty_level}</span>
+                          <span style={{ fontSize: '11px', color: '#6c757d' }}>🔁 {exercise.recommended_frequency}</span>
+                          {isOwn && exercise.is_shared && (
+                            <span style={{ fontSize: '11px', color: '#16a34a' }}>
+                              <i className="bi bi-people me-1"></i>Shared with your clinic
+                            </span>
+                          )}
+                        </div>
+                        {exercise.description && (
+                          <p className="text-muted mb-0 mt-1" style={{ fontSize: '13px' }}>{exercise.description}</p>
+                        )}
+                        {!isOwn && (
+                          <small className="text-muted">
+                            Shared by {exercise.creator?.first_name} {exercise.creator?.last_name}
+                          </small>
+                        )}
+                      </div>
+
+                      {/* Own exercises can be edited, shared and deleted; colleagues' can only be copied */}
+                      <div className="d-flex gap-1 flex-shrink-0">
+                        <button className="btn btn-sm btn-outline-secondary" title="Copy to my library" onClick={() => handleClone(exercise)}>
+                          <i className="bi bi-copy"></i>
+                        </button>
+                        {isOwn && (
+                          <>
+                            <button className="btn btn-sm btn-outline-secondary" title="Edit" onClick={() => openForm(exercise)}>
+                              <i className="bi bi-pencil"></i>
+                            </button>
+                            <button
+                              className="btn btn-sm btn-outline-secondary"
+                              title="Steps, prompts and examples"
+                              onClick={() => setContentExercise(exercise)}
+                            >
+                              <i className="bi bi-list-check"></i>
+                            </button>
+                            <button
+                              className={`btn btn-sm ${exercise.is_shared ? 'btn-success' : 'btn-outline-secondary'}`}
+                              title={exercise.is_shared ? 'Stop sharing' : 'Share with my clinic'}
+                              onClick={() => handleToggleShared(exercise)}
+                            >
+                              <i className="bi bi-people"></i>
+                            </button>
+                            <button className="btn btn-sm btn-outline-danger" title="Delete" onClick={() => handleDelete(exercise)}>
+                              <i className="bi bi-trash"></i>
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </main>
+      </div>
+
+      {contentExercise && (
+        <ExerciseContentModal
+          exerciseId={contentExercise.exercise_id}
+          exerciseTitle={contentExercise.title}
+          onClose={() => setContentExercise(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ExerciseLibrary;
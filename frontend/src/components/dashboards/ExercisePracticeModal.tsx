@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getExerciseContent,
+  getAttemptedPromptIds,
+  recordPromptAttempt,
+  ExerciseContent,
+  ExerciseMedia
+} from '../../services/supabaseExerciseContentService';
+
+// One example file, shown with the player or picture that suits it
+const MediaItem: React.FC<{ media: ExerciseMedia }> = ({ media }) => (
+  <figure style={{ marginBottom: '12px' }}>
+    {media.kind === 'audio' && <audio controls src={media.url} style={{ width: '100%' }} />}
+    {media.kind === 'video' && <video controls src={media.url} style={{ width: '100%', borderRadius: '8px' }} />}
+    {media.kind === 'image' && (
+      <img src={media.url} alt={media.caption || 'Example'} style={{ maxWidth: '100%', borderRadius: '8px' }} />
+    )}
+    {media.caption && (
+      <figcaption style={{ fontSize: '13px', color: '#6c757d', marginTop: '4px' }}>{media.caption}</figcaption>
+    )}
+  </figure>
+);
+
+/**
+ * The exercise as the patient opens it from their goals: the therapist's steps and examples,
+ * and a practice mode that walks through the prompts one at a time
+ * Each prompt the patient tries is recorded against rowId, the practice they are doing now
+ * A carer sees the same content and what was tried, but doesn't try prompts for the patient
+ */
+const ExercisePracticeModal: React.FC<{
+  exerciseId: string;
+  exerciseTitle: string;
+  rowId: string;
+  patientId: string;
+  readOnly?: boolean;
+  onClose: () => void;
+}> = ({ exerciseId, exerciseTitle, rowId, patientId, readOnly = false, onClose }) => {
+  const [content, setContent] = useState<ExerciseContent | null>(null);
+  const [attempted, setAttempted] = useState<string[]>([]);
+  const [practising, setPractising] = useState(false);
+  // Which prompt practice mode is showing
+  const [index, setIndex] = useState(0);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getExerciseContent(exerciseId), getAttemptedPromptIds(rowId)])
+      .then(([loaded, attemptedIds]) => {
+        setContent(loaded);
+        setAttempted(attemptedIds);
+      })
+      .catch(() => setError('Failed to load the exercise'));
+  }, [exerciseId, rowId]);
+
+  const prompts = content?.prompts || [];
+  const prompt = prompts[index];
+
+  /**
+   * Marks the prompt on screen as tried and moves on to the next one
+   */
+  const handleTried = async () => {
+    if (!prompt) return;
+    try {
+      setWorking(true);
+      setError(null);
+      await recordPromptAttempt(rowId, prompt.prompt_id, patientId);
+      setAttempted(current => current.includes(prompt.prompt_id) ? current : [...current, prompt.prompt_id]);
+      if (index < prompts.length - 1) setIndex(index + 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save your attempt');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const triedCount = prompts.filter(p => attempted.includes(p.prompt_id)).length;
+
+  return (
+    // Clicking outside the modal closes it
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={onClose}>
+      <div className="modal-dialog modal-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">{exerciseTitle}</h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            {!content ? (
+              <div className="text-center py-4">
+                <div className="spinner-border spinner-border-sm text-primary" role="status" />
+              </div>
+            ) : practising && prompt ? (
+              // Practice mode — one prompt at a time
+              <div style={{ textAlign: 'center' }}>
+                <small className="text-muted">Prompt {index + 1} of {prompts.length}</small>
+                <div style={{
+                  fontSize: '28px', fontWeight: 600, color: '#1a1a2e',
+                  padding: '40px 16px', margin: '12px 0', borderRadius: '12px',
+                  backgroundColor: attempted.includes(prompt.prompt_id) ? '#f0fdf4' : '#f0eeff'
+                }}>
+                  {prompt.text}
+                </div>
+                {attempted.includes(prompt.prompt_id) && (
+                  <p style={{ color: '#22c55e', fontSize: '14px' }}>✓ Tried</p>
+                )}
+
+                <div className="d-flex justify-content-center gap-2">
+                  <button
+                    type="button"
+                    className="btn btn-outline-secondary"
+                    onClick={() => setIndex(index - 1)}
+                    disabled={index === 0}
+                  >
+                    <i className="bi bi-chevron-left"></i> Previous
+                  </button>
+                  {!readOnly && (
+                    <button type="button" className="btn btn-primary" onClick={handleTried} disabled={working}>
+                      I tried this
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="btn btn-outline-secondary"
+                    onClick={() => setIndex(index + 1)}
+                    disabled={index === prompts.length - 1}
+                  >
+                    Next <i className="bi bi-chevron-right"></i>
+                  </button>
+                </div>
+
+                <p className="text-muted mt-3 mb-0" style={{ fontSize: '13px' }}>
+                  {triedCount} of {prompts.length} prompts tried
+                </p>
+              </div>
+            ) : (
+              <>
+                {content.steps.length === 0 && content.media.length === 0 && prompts.length === 0 && (
+                  <p className="text-muted">Your therapist hasn't added instructions for this exercise yet.</p>
+                )}
+
+                {content.steps.length > 0 && (
+                  <>
+                    <h6 style={{ fontWeight: 600 }}>How to do it</h6>
+                    <ol style={{ fontSize: '14px' }}>
+                      {content.steps.map((step, i) => <li key={i} style={{ marginBottom: '4px' }}>{step}</li>)}
+                    </ol>
+                  </>
+                )}
+
+                {content.media.length > 0 && (
+                  <>
+                    <h6 style={{ fontWeight: 600 }}>Examples</h6>
+                    {content.media.map(media => <MediaItem key={media.media_id} media={media} />)}
+                  </>
+                )}
+
+                {prompts.length > 0 && (
+                  <div className="d-flex align-items-center gap-3 mt-3">
+                    <button
+                      type="button"
+                      className="btn btn-primary"
+                      onClick={() => {
+                        // Start from the first prompt not tried yet
+                        const next = prompts.findIndex(p => !attempted.includes(p.prompt_id));
+                        setIndex(next >= 0 ? next : 0);
+                        setPractising(true);
+                      }}
+                    >
+                      <i className="bi bi-play-fill me-1"></i>
+                      {readOnly ? 'View Prompts' : 'Start Practice'}
+                    </button>
+                    <small className="text-muted">
+                      {triedCount} of {prompts.length} prompts tried
+                    </small>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="modal-footer">
+            {practising && (
+              <button type="button" className="btn btn-outline-secondary me-auto" onClick={() => setPractising(false)}>
+                Back to Instructions
+              </button>
+            )}
+            <button type="button" className="btn btn-secondary" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExercisePracticeModal;
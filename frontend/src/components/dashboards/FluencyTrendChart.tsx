@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { FluencyTrend, FluencyTrendPoint } from '../../services/supabaseRecordingService';
+
+const WIDTH = 600;
+const HEIGHT = 140;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 48 };
+
+type MetricKey = 'syllables_per_minute' | 'pause_count' | 'longest_fluent_ms' | 'speaking_ms';
+
+// The measures a therapist can switch between; times are charted in seconds
+const METRICS: { key: MetricKey; label: string; unit: string; scale: number }[] = [
+  { key: 'syllables_per_minute', label: 'Speaking rate', unit: 'syll/min', scale: 1 },
+  { key: 'pause_count', label: 'Pauses', unit: 'pauses', scale: 1 },
+  { key: 'longest_fluent_ms', label: 'Longest fluent run', unit: 's', scale: 1000 },
+  { key: 'speaking_ms', label: 'Speaking time', unit: 's', scale: 1000 }
+];
+
+/**
+ * Line chart of one exercise's weekly fluency measures from the patient's recordings
+ * One measure is shown at a time, picked from the buttons above the chart
+ * Hovering a point shows the week's average and how many recordings it came from
+ */
+const FluencyTrendChart: React.FC<{ trend: FluencyTrend }> = ({ trend }) => {
+  const [metricKey, setMetricKey] = useState<MetricKey>('syllables_per_minute');
+  const metric = METRICS.find(m => m.key === metricKey)!;
+  const weeks = trend.weeks;
+
+  const value = (point: FluencyTrendPoint) => Math.round((point[metric.key] / metric.scale) * 10) / 10;
+  // Leave a little headroom above the highest week
+  const max = Math.max(1, ...weeks.map(value)) * 1.1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  // A single week sits in the middle rather than on the axis
+  const x = (index: number) =>
+    PADDING.left + (weeks.length === 1 ? plotWidth / 2 : (index / (weeks.length - 1)) * plotWidth);
+  const y = (amount: number) => PADDING.top + plotHeight - (amount / max) * plotHeight;
+
+  const weekLabel = (weekStart: string) =>
+    new Date(`${weekStart}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+  // Label at most about six weeks so they don't overlap
+  const labelEvery = Math.ceil(weeks.length / 6);
+
+  return (
+    <div style={{ marginTop: '12px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '6px' }}>
+        <span style={{ fontSize: '13px', fontWeight: 600 }}>
+          <i className="bi bi-soundwave me-1"></i>{trend.exercise_title}
+        </span>
+        <div className="btn-group btn-group-sm">
+          {METRICS.map(m => (
+            <button
+              key={m.key}
+              type="button"
+              className={`btn ${m.key === metricKey ? 'btn-primary' : 'btn-outline-secondary'}`}
+              onClick={() => setMetricKey(m.key)}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: '100%', height: 'auto' }} role="img" aria-label={`Weekly ${metric.label.toLowerCase()}`}>
+        {/* Zero and top guide lines */}
+        {[0, 1].map(fraction => (
+          <line
+            key={fraction}
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={PADDING.top + plotHeight * fraction}
+            y2={PADDING.top + plotHeight * fraction}
+            stroke="#e9ecef"
+          />
+        ))}
+        <text x={PADDING.left - 8} y={PADDING.top + 4} textAnchor="end" fontSize="11" fill="#6c757d">
+          {Math.round(max)}
+        </text>
+        <text x={PADDING.left - 8} y={PADDING.top + plotHeight + 4} textAnchor="end" fontSize="11" fill="#6c757d">0</text>
+
+        {weeks.map((point, index) => index % labelEvery === 0 && (
+          <text key={point.week_start} x={x(index)} y={HEIGHT - 8} textAnchor="middle" fontSize="11" fill="#6c757d">
+            {weekLabel(point.week_start)}
+          </text>
+        ))}
+
+        <polyline
+          fill="none"
+          stroke="#6366f1"
+          strokeWidth="2"
+          points={weeks.map((point, index) => `${x(index)},${y(value(point))}`).join(' ')}
+        />
+        {weeks.map((point, index) => (
+          <circle key={point.week_start} cx={x(index)} cy={y(value(point))} r="4" fill="#6366f1">
+            <title>
+              {`Week of ${weekLabel(point.week_start)}: ${value(point)} ${metric.unit} (${point.recordings} ${point.recordings === 1 ? 'recording' : 'recordings'})`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default FluencyTrendChart;
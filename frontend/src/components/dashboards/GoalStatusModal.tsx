@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Goal } from '../../services/supabaseTherapistService';
+import { getGoalStatus, GoalStatusSummary } from '../../services/supabaseGoalStatusService';
+import { changeGoalStatus, carryOverGoal, recordGoalMeasurement } from '../../services/dataLayer';
+import { GoalStatus, GOAL_STATUS_LABELS, GOAL_STATUS_TRANSITIONS } from '../../services/goalLifecycle';
+import { addDays } from '../../services/exerciseSchedule';
+
+/**
+ * Moves a goal through its lifecycle: active, on hold, achieved, discontinued or carried over
+ * Shows the goal's progress and history, and the measurements taken against its measurable criterion;
+ * when every practice is done or the criterion is met, achieved is suggested for the therapist to confirm
+ * Saving a status or measurement refreshes the cached goals, so the goal list updates behind the modal
+ */
+const GoalStatusModal: React.FC<{
+  goal: Goal;
+  therapistId: string;
+  onClose: () => void;
+}> = ({ goal, therapistId, onClose }) => {
+  const current = goal.status as GoalStatus;
+  const options = GOAL_STATUS_TRANSITIONS[current];
+  const today = new Date().toISOString().split('T')[0];
+
+  const [summary, setSummary] = useState<GoalStatusSummary | null>(null);
+  const [status, setStatus] = useState<GoalStatus | null>(null);
+  const [reason, setReason] = useState('');
+  const [carryOverDate, setCarryOverDate] = useState(addDays(today, 28)); // Only used to carry the goal over
+  const [score, setScore] = useState('');
+  const [measuredOn, setMeasuredOn] = useState(today);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      setSummary(await getGoalStatus(goal));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load goal status');
+    }
+  }, [goal]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  /**
+   * Saves the chosen status; carrying over also creates the goal that continues this one
+   */
+  const handleSave = async () => {
+    if (!status) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (status === 'carried_over') {
+        await carryOverGoal(goal, carryOverDate, reason, therapistId);
+      } else {
+        await changeGoalStatus(goal, status, reason, therapistId);
+      }
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update goal status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Records a session's measurement; the suggestion is worked out again with it
+   */
+  const handleRecordMeasurement = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await recordGoalMeasurement(goal.goal_id, { score: Number(score), measured_on: measuredOn, note }, therapistId);
+      setScore('');
+      setNote('');
+      await loadSummary();
+    } catch (err: any) {
+      setError(err.message || 'Failed to record measurement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    // Clicking outside the modal closes it without saving
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={onClose}>
+      <div className="modal-dialog modal-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Goal Status</h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            {/* Which goal this is, where it is in its lifecycle and how far through its practices */}
+            <div style={{
+              backgroundColor: '#f8f9fa',
+              borderRadius: '8px',
+              padding: '16px',
+              marginBottom: '16px',
+              border: '1px solid #dee2e6'
+            }}>
+              <p style={{ margin: 0, fontWeight: '600', color: '#1a1a2e' }}>{goal.goal_description}</p>
+              <p style={{ margin: '4px 0 0', color: '#6c757d', fontSize: '14px' }}>
+                {new Date(goal.start_date).toLocaleDateString('en-GB')} to {new Date(goal.target_date).toLocaleDateString('en-GB')}
+                {summary && ` · ${summary.progress.completed} of ${summary.progress.total} ${summary.objectives > 0 ? 'objectives' : 'practices'} done (${summary.progress.percent}%)`}
+              </p>
+              <p style={{ margin: '8px 0 0', fontSize: '14px' }}>
+                <span className="badge bg-secondary">{GOAL_STATUS_LABELS[current]}</span>
+                {summary?.overdue && <span className="badge bg-danger ms-2">Overdue</span>}
+              </p>
+            </div>
+
+            {/* Suggestion - the therapist confirms it by saving */}
+            {summary?.suggestion && (
+              <div className="alert alert-success d-flex align-items-center justify-content-between">
+                <span>
+                  <i className="bi bi-stars me-2"></i>
+                  Ready to mark {GOAL_STATUS_LABELS[summary.suggestion.status].toLowerCase()}? {summary.suggestion.reason}.
+                </span>
+                <button
+                  type="button"
+                  className="btn btn-sm btn-success ms-2"
+                  onClick={() => setStatus(summary.suggestion!.status)}
+                >
+                  Select
+                </button>
+              </div>
+            )}
+
+            {/* Overdue - past the target date with practices still to do */}
+            {summary?.overdue && !summary.suggestion && (
+              <div className="alert alert-warning">
+                <i className="bi bi-exclamation-triangle me-2"></i>
+                The target date has passed with practices still to do. Carry the goal over, put it on hold or discontinue it.
+              </div>
+            )}
+
+            {/* Measurements against the goal's measurable criterion */}
+            {goal.measurable_criterion && (
+              <div className="mb-3">
+                <label className="form-label fw-semibold">
+                  Measurements <span className="text-muted fw-normal">({goal.measurable_criterion})</span>
+                </label>
+                <div className="row g-2 align-items-end">
+                  <div className="col-md-3">
+                    <input
+                      type="number"
+                      className="form-control"
+                      min={0}
+                      max={100}
+                      placeholder="Score %"
+                      value={score}
+                      onChange={(e) => setScore(e.target.value)}
+                    />
+                  </div>
+                  <div className="col-md-3">
+                    <input
+                      type="date"
+                      className="form-control"
+                      max={today}
+                      value={measuredOn}
+                      onChange={(e) => setMeasuredOn(e.target.value)}
+                    />
+                  </div>
+                  <div className="col-md-4">
+                    <input
+                      type="text"
+                      className="form-control"
+                      placeholder="Note (optional)"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                    />
+                  </div>
+                  <div className="col-md-2">
+                    <button
+                      type="button"
+                      className="btn btn-outline-primary w-100"
+                      onClick={handleRecordMeasurement}
+                      disabled={saving || score === ''}
+                    >
+                      Record
+                    </button>
+                  </div>
+                </div>
+                {summary && summary.measurements.length > 0 && (
+                  <ul className="list-unstyled mt-2 mb-0" style={{ fontSize: '13px' }}>
+                    {summary.measurements.slice(0, 5).map(measurement => (
+                      <li key={measurement.measurement_id}>
+                        {new Date(measurement.measured_on).toLocaleDateString('en-GB')}: <strong>{measurement.score}%</strong>
+                        {measurement.note && <span className="text-muted"> · {measurement.note}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {options.length === 0 ? (
+              <p className="text-muted">
+                This goal is {GOAL_STATUS_LABELS[current].toLowerCase()}, so its status can't change.
+              </p>
+            ) : (
+              <>
+                <label className="form-label">Mark as</label>
+                {options.map(option => (
+                  <div className="form-check" key={option}>
+                    <input
+                      className="form-check-input"
+                      type="radio"
+                      name="goal-status"
+                      id={`goal-status-${option}`}
+                      checked={status === option}
+                      onChange={() => setStatus(option)}
+                    />
+                    <label className="form-check-label" htmlFor={`goal-status-${option}`}>
+                      {current === 'achieved' && option === 'active' ? 'Reopen' : GOAL_STATUS_LABELS[option]}
+                    </label>
+                  </div>
+                ))}
+
+                {/* New target date - only when carrying over */}
+                {status === 'carried_over' && (
+                  <div className="mt-3">
+                    <label className="form-label">New Target Date <span className="text-danger">*</span></label>
+                    <input
+                      type="date"
+                      className="form-control"
+                      min={addDays(today, 1)}
+                      value={carryOverDate}
+                      onChange={(e) => setCarryOverDate(e.target.value)}
+                    />
+                    <small className="text-muted">A new goal continues this one from today, with its exercises rescheduled.</small>
+                  </div>
+                )}
+
+                <div className="mt-3">
+                  <label className="form-label">Reason (optional)</label>
+                  <textarea
+                    className="form-control"
+                    rows={2}
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Patient away for a month"
+                  />
+                </div>
+              </>
+            )}
+
+            {/* Status history, oldest first */}
+            {summary && summary.history.length > 0 && (
+              <div className="mt-3">
+                <label className="form-label fw-semibold">History</label>
+                <ul className="list-unstyled mb-0" style={{ fontSize: '13px' }}>
+                  {summary.history.map(change => (
+                    <li key={change.history_id}>
+                      {new Date(change.changed_at).toLocaleDateString('en-GB')}:{' '}
+                      {change.from_status ? `${GOAL_STATUS_LABELS[change.from_status]} → ` : 'Created as '}
+                      {GOAL_STATUS_LABELS[change.to_status]}
+                      {change.changer && <span className="text-muted"> by {change.changer.first_name} {change.changer.last_name}</span>}
+                      {change.reason && <span className="text-muted"> · {change.reason}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="modal-footer">
+            <button type="button" className="btn btn-secondary" onClick={onClose} disabled={saving}>
+              Close
+            </button>
+            {options.length > 0 && (
+              <button
+                type="button"
+                className="btn btn-primary"
+                onClick={handleSave}
+                disabled={saving || !status || (status === 'carried_over' && !carryOverDate)}
+              >
+                {saving ? (
+                  <>
+                    <span className="spinner-border spinner-border-sm me-2"></span>
+                    Saving...
+                  </>
+                ) : (
+                  'Save Status'
+                )}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoalStatusModal;
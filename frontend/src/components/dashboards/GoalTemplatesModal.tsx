@@ -0,0 +1,384 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getGoalTemplates,
+  createGoalTemplate,
+  updateGoalTemplate,
+  setGoalTemplateShared,
+  deleteGoalTemplate,
+  templateDraft,
+  GoalTemplate,
+  GoalTemplateInput,
+  MAX_TIMEFRAME_WEEKS,
+  MAX_TEMPLATE_EXERCISES
+} from '../../services/supabaseGoalTemplateService';
+import { getExerciseLibrary, LibraryExercise } from '../../services/supabaseExerciseService';
+import {
+  buildSchedule,
+  describeRule,
+  ruleForFrequency,
+  scheduleRuleError,
+  ScheduleRule
+} from '../../services/exerciseSchedule';
+import { EMPTY_SMART_GOAL, TIMEFRAME_WEEKS, describeSmartGoal, targetDateForWeeks } from '../../services/smartGoal';
+import SmartGoalFields from './SmartGoalFields';
+import ScheduleRuleFields from './ScheduleRuleFields';
+
+const EMPTY_TEMPLATE: GoalTemplateInput = {
+  ...EMPTY_SMART_GOAL,
+  title: '',
+  timeframe_weeks: 8,
+  priority: 'medium',
+  exercises: []
+};
+
+/**
+ * Lists the therapist's goal templates and the ones colleagues share with their clinic,
+ * and creates, edits, shares and deletes their own
+ * A template is a SMART goal with a timeframe in weeks and a bundle of exercises, each practised by
+ * its own schedule or the one its recommended frequency gives
+ */
+const GoalTemplatesModal: React.FC<{
+  therapistId: string;
+  onClose: () => void;
+  onChanged: () => void;
+}> = ({ therapistId, onClose, onChanged }) => {
+  const [templates, setTemplates] = useState<GoalTemplate[]>([]);
+  const [version, setVersion] = useState(0); // Bumped to reload the list after a change
+  const [loading, setLoading] = useState(true);
+  const [library, setLibrary] = useState<LibraryExercise[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form State - editingId is null for a new template
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<GoalTemplateInput>(EMPTY_TEMPLATE);
+  const [pickedExerciseId, setPickedExerciseId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    getGoalTemplates(therapistId)
+      .then(setTemplates)
+      .catch(() => setError('Failed to load goal templates'))
+      .finally(() => setLoading(false));
+  }, [therapistId, version]);
+
+  // The exercises a template can bundle: the therapist's own and clinic-shared ones
+  useEffect(() => {
+    if (!showForm) return;
+    getExerciseLibrary(therapistId, { scope: 'all' })
+      .then(setLibrary)
+      .catch(() => setError('Failed to load the exercise library'));
+  }, [showForm, therapistId]);
+
+  const openForm = (template?: GoalTemplate) => {
+    setEditingId(template?.template_id ?? null);
+    setForm(template
+      ? {
+        ...templateDraft(template),
+        title: template.title,
+        timeframe_weeks: template.timeframe_weeks,
+        priority: template.priority,
+        exercises: template.exercises.map(item => ({ exercise_id: item.exercise_id, schedule: item.schedule }))
+      }
+      : EMPTY_TEMPLATE);
+    setPickedExerciseId('');
+    setError(null);
+    setShowForm(true);
+  };
+
+  const changed = () => {
+    setVersion(v => v + 1);
+    onChanged();
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingId) {
+        await updateGoalTemplate(editingId, form);
+      } else {
+        await createGoalTemplate(therapistId, form);
+      }
+      setShowForm(false);
+      changed();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleShared = async (template: GoalTemplate) => {
+    try {
+      setError(null);
+      await setGoalTemplateShared(template.template_id, !template.is_shared);
+      changed();
+    } catch (err: any) {
+      setError(err.message || 'Failed to change sharing');
+    }
+  };
+
+  const handleDelete = async (template: GoalTemplate) => {
+    if (!window.confirm(`Delete the "${template.title}" template? Goals already set from it are kept.`)) return;
+    try {
+      setError(null);
+      await deleteGoalTemplate(template.template_id);
+      changed();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the template');
+    }
+  };
+
+  const exerciseById = (exerciseId: string) => library.find(exercise => exercise.exercise_id === exerciseId);
+
+  const addExercise = () => {
+    if (!pickedExerciseId) return;
+    setForm({ ...form, exercises: [...form.exercises, { exercise_id: pickedExerciseId, schedule: null }] });
+    setPickedExerciseId('');
+  };
+
+  const setExerciseSchedule = (index: number, schedule: ScheduleRule | null) => {
+    setForm({ ...form, exercises: form.exercises.map((item, i) => (i === index ? { ...item, schedule } : item)) });
+  };
+
+  // How many practices a rule makes over the template's timeframe, counted from today
+  const practiceCount = (rule: ScheduleRule): number => {
+    if (scheduleRuleError(rule) || form.timeframe_weeks < 1) return 0;
+    const today = new Date().toISOString().slice(0, 10);
+    return buildSchedule(rule, today, targetDateForWeeks(today, Math.min(form.timeframe_weeks, MAX_TIMEFRAME_WEEKS))).length;
+  };
+
+  const labelStyle = { fontSize: '14px' };
+
+  return (
+    // Clicking outside the modal closes it
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={onClose}>
+      <div className="modal-dialog modal-lg modal-dialog-scrollable" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">{showForm ? (editingId ? 'Edit Goal Template' : 'New Goal Template') : 'Goal Templates'}</h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            {showForm ? (
+              <>
+                <div className="mb-3">
+                  <label className="form-label fw-semibold" style={labelStyle}>
+                    Title <span className="text-danger">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    className="form-control"
+                    placeholder="e.g. Easy onset in conversation"
+                    maxLength={100}
+                    value={form.title}
+                    onChange={e => setForm({ ...form, title: e.target.value })}
+                  />
+                </div>
+
+                <SmartGoalFields value={form} onChange={draft => setForm({ ...form, ...draft })} />
+
+                <div className="row">
+                  <div className="col-6 mb-3">
+                    <label className="form-label fw-semibold" style={labelStyle}>Timeframe (weeks)</label>
+                    <input
+                      type="number"
+                      className="form-control"
+                      min={1}
+                      max={MAX_TIMEFRAME_WEEKS}
+                      value={form.timeframe_weeks}
+                      onChange={e => setForm({ ...form, timeframe_weeks: Number(e.target.value) })}
+                    />
+                    <div className="d-flex flex-wrap gap-1 mt-1">
+                      {TIMEFRAME_WEEKS.map(weeks => (
+                        <button
+                          key={weeks}
+                          type="button"
+                          className="btn btn-sm btn-light"
+                          style={{ fontSize: '12px' }}
+                          onClick={() => setForm({ ...form, timeframe_weeks: weeks })}
+                        >
+                          {weeks} weeks
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="col-6 mb-3">
+                    <label className="form-label fw-semibold" style={labelStyle}>Priority</label>
+                    <select
+                      className="form-select"
+                      value={form.priority}
+                      onChange={e => setForm({ ...form, priority: e.target.value })}
+                    >
+                      <option value="high">High</option>
+                      <option value="medium">Medium</option>
+                      <option value="low">Low</option>
+                    </select>
+                  </div>
+                </div>
+
+                {/* Bundled exercises, assigned in this order when the template is used */}
+                <label className="form-label fw-semibold" style={labelStyle}>Exercises</label>
+                {form.exercises.map((item, index) => {
+                  const exercise = exerciseById(item.exercise_id);
+                  const defaultRule = ruleForFrequency(exercise?.recommended_frequency || 'daily');
+                  return (
+                    <div key={item.exercise_id} className="p-2 mb-2 rounded-3" style={{ backgroundColor: '#f5f3ff', fontSize: '13px' }}>
+                      <div className="d-flex align-items-center justify-content-between gap-2">
+                        <div>
+                          <span className="fw-semibold">{exercise?.title || 'Exercise'}</span>
+                          <span className="text-muted"> · {describeRule(item.schedule || defaultRule)}</span>
+                        </div>
+                        <div className="d-flex gap-1 flex-shrink-0">
+                          <button
+                            type="button"
+                            className={`btn btn-sm ${item.schedule ? 'btn-primary' : 'btn-outline-secondary'}`}
+                            style={{ fontSize: '12px' }}
+                            title={item.schedule ? 'Use the recommended frequency' : 'Set a schedule'}
+                            onClick={() => setExerciseSchedule(index, item.schedule ? null : defaultRule)}
+                          >
+                            <i className="bi bi-calendar-week"></i>
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-outline-danger"
+                            title="Remove"
+                            onClick={() => setForm({ ...form, exercises: form.exercises.filter((_, i) => i !== index) })}
+                          >
+                            <i className="bi bi-x"></i>
+                          </button>
+                        </div>
+                      </div>
+                      {item.schedule && (
+                        <div className="mt-2">
+                          <ScheduleRuleFields
+                            value={item.schedule}
+                            practiceCount={practiceCount(item.schedule)}
+                            onChange={rule => setExerciseSchedule(index, rule)}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {form.exercises.length < MAX_TEMPLATE_EXERCISES && (
+                  <div className="d-flex gap-2">
+                    <select
+                      className="form-select form-select-sm"
+                      value={pickedExerciseId}
+                      onChange={e => setPickedExerciseId(e.target.value)}
+                    >
+                      <option value="">Pick an exercise to bundle...</option>
+                      {library
+                        .filter(exercise => !form.exercises.some(item => item.exercise_id === exercise.exercise_id))
+                        .map(exercise => (
+                          <option key={exercise.exercise_id} value={exercise.exercise_id}>
+                            {exercise.title} ({exercise.recommended_frequency})
+                          </option>
+                        ))}
+                    </select>
+                    <button type="button" className="btn btn-sm btn-outline-primary" onClick={addExercise} disabled={!pickedExerciseId}>
+                      Add
+                    </button>
+                  </div>
+                )}
+              </>
+            ) : loading ? (
+              <div className="text-center py-3">
+                <div className="spinner-border spinner-border-sm text-primary" role="status" />
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-muted text-center mb-0">No goal templates yet. Create one to set the same goal for several patients.</p>
+            ) : (
+              templates.map(template => {
+                const isOwn = template.created_by === therapistId;
+                return (
+                  <div
+                    key={template.template_id}
+                    className="p-3 rounded-3 mb-2"
+                    style={{ backgroundColor: '#fff', border: '1px solid #e9ecef' }}
+                  >
+                    <div className="d-flex align-items-start justify-content-between gap-2">
+                      <div style={{ flex: 1 }}>
+                        <div className="d-flex align-items-center gap-2 flex-wrap">
+                          <span className="fw-semibold" style={{ fontSize: '15px', color: '#1a1a2e' }}>{template.title}</span>
+                          <span style={{ fontSize: '11px', color: '#6c757d' }}>📅 {template.timeframe_weeks} weeks</span>
+                          {isOwn && template.is_shared && (
+                            <span style={{ fontSize: '11px', color: '#16a34a' }}>
+                              <i className="bi bi-people me-1"></i>Shared with your clinic
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-muted mb-1 mt-1" style={{ fontSize: '13px' }}>{describeSmartGoal(templateDraft(template))}</p>
+                        {template.exercises.length > 0 && (
+                          <small className="text-muted">
+                            🏋️ {template.exercises.map(item => item.exercise?.title || 'Unshared exercise').join(', ')}
+                          </small>
+                        )}
+                        {!isOwn && (
+                          <div>
+                            <small className="text-muted">
+                              Shared by {template.creator?.first_name} {template.creator?.last_name}
+                            </small>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Own templates can be edited, shared and deleted; colleagues' can only be used */}
+                      {isOwn && (
+                        <div className="d-flex gap-1 flex-shrink-0">
+                          <button className="btn btn-sm btn-outline-secondary" title="Edit" onClick={() => openForm(template)}>
+                            <i className="bi bi-pencil"></i>
+                          </button>
+                          <button
+                            className={`btn btn-sm ${template.is_shared ? 'btn-success' : 'btn-outline-secondary'}`}
+                            title={template.is_shared ? 'Stop sharing' : 'Share with my clinic'}
+                            onClick={() => handleToggleShared(template)}
+                          >
+                            <i className="bi bi-people"></i>
+                          </button>
+                          <button className="btn btn-sm btn-outline-danger" title="Delete" onClick={() => handleDelete(template)}>
+                            <i className="bi bi-trash"></i>
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <div className="modal-footer">
+            {showForm ? (
+              <>
+                <button type="button" className="btn btn-secondary" onClick={() => setShowForm(false)}>
+                  Back
+                </button>
+                <button type="button" className="btn btn-primary" onClick={handleSave} disabled={saving}>
+                  Save Template
+                </button>
+              </>
+            ) : (
+              <>
+                <button type="button" className="btn btn-secondary" onClick={onClose}>
+                  Close
+                </button>
+                <button type="button" className="btn btn-primary" onClick={() => openForm()}>
+                  + New Template
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoalTemplatesModal;
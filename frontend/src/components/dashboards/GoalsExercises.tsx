@@ -1,48 +1,98 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import {
-  getTherapistPatients,
-  getPatientGoals,
-  createGoal,
-  createExercise,
-  assignExerciseToGoal,
-  getTherapistSessions,
-} from '../../services/supabaseTherapistService';
 import type { Patient, Goal } from '../../services/supabaseTherapistService';
-import { supabase } from '../../services/supabaseClient';
+import { createGoal, assignExerciseToGoal, instantiateGoalTemplate } from '../../services/dataLayer';
+import { useTherapistPatients, usePatientGoals } from '../../hooks/queries';
+import {
+  getExerciseLibrary,
+  createLibraryExercise,
+  LibraryExercise,
+  EXERCISE_CATEGORIES,
+  EXERCISE_FREQUENCIES
+} from '../../services/supabaseExerciseService';
+import {
+  buildSchedule,
+  describeRule,
+  ruleForFrequency,
+  scheduleRuleError,
+  scheduleStartDate,
+  ScheduleRule
+} from '../../services/exerciseSchedule';
+import {
+  getGoalTemplates,
+  templateDraft,
+  GoalTemplate
+} from '../../services/supabaseGoalTemplateService';
+import {
+  SmartGoalDraft,
+  EMPTY_SMART_GOAL,
+  TIMEFRAME_WEEKS,
+  describeSmartGoal,
+  smartGoalError,
+  smartGoalFields,
+  targetDateForWeeks
+} from '../../services/smartGoal';
+import ScheduleRuleFields from './ScheduleRuleFields';
+import SmartGoalFields from './SmartGoalFields';
+import {
+  GoalStatus,
+  GoalProgress,
+  GOAL_STATUS_LABELS,
+  goalProgress,
+  isGoalOverdue,
+  suggestGoalStatus
+} from '../../services/goalLifecycle';
+import { getGoalMeasurements } from '../../services/supabaseGoalStatusService';
+import { openTreatmentPlan } from '../../services/supabaseTreatmentPlanService';
+import { MAX_OBJECTIVE_WEIGHT, rollUpProgress } from '../../services/goalHierarchy';
+import EditGoalModal from './EditGoalModal';
+import GoalTemplatesModal from './GoalTemplatesModal';
+import GoalStatusModal from './GoalStatusModal';
+import { useAuth } from '../../context/AuthContext';
+
+// Shown until the first load, and kept the same between renders so the derived lists aren't worked out again
+const NO_PATIENTS: Patient[] = [];
+const NO_GOALS: Goal[] = [];
 
 /**
  * GoalsExercises Component
  * Allows therapists to manage goals and exercises for their patients.
  * Exercises are linked to goals via goal_exercise_set table.
- * Each exercise gets multiple rows in goal_exercise_set based on frequency:
- * - Daily: 7 rows (Mon-Sun)
- * - Twice Daily: 14 rows (Mon-Sun Morning + Afternoon)
- * - Weekly: 4 rows (Week 1-4)
+ * Each exercise gets one row in goal_exercise_set per practice its schedule rule asks for, up to the goal's target date:
+ * - Set days of the week or every N days: one row per day, or one per time of day (e.g. Morning, Evening)
+ * - A number of times a week: that many rows per week, ticked off on whichever days suit the patient
  * - As Needed: 1 row
+ * The schedule defaults to the exercise's recommended frequency.
+ * Goals are written as SMART goals (specific behaviour, measurable criterion, context and timeframe),
+ * or set from a goal template, which creates the goal and schedules its bundled exercises in one step.
+ * Each goal shows where it is in its lifecycle, whether it is overdue, and when it looks ready to mark achieved.
+ * A long-term goal can be broken into weighted short-term objectives, listed under it; its exercises are then
+ * assigned to the objectives, and its progress is rolled up from theirs.
  */
 const GoalsExercises: React.FC = () => {
   const navigate = useNavigate();
 
   // Auth & Therapist State
-  const [user, setUser] = useState<any>(null);
-  const [therapistId, setTherapistId] = useState<string>(''); // Used when creating goals and exercises
+  const { user, logout } = useAuth();
+  const therapistId = user!.user_id; // Used when creating goals and exercises
 
   // Data State 
-  const [patients, setPatients] = useState<Patient[]>([]); // Full list of linked patients 
-  const [sessions, setSessions] = useState<any[]>([]);     // All sessions for this therapist 
+  // Patients and goals are read through the shared cache; saving a goal or exercise refreshes them there
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null); // Patient currently being viewed in the right panel
-  const [goals, setGoals] = useState<Goal[]>([]);                               // Goals for the selected patient
+  const patientsQuery = useTherapistPatients(therapistId); // Full list of linked patients
+  const goalsQuery = usePatientGoals(selectedPatient?.user_id); // Goals for the selected patient, with their exercise rows
+  const patients = patientsQuery.data ?? NO_PATIENTS;
+  const goals = goalsQuery.data?.goals ?? NO_GOALS;
 
-  // Stores goal_id → array of goal_exercise_set rows (with exercise info)
-  const [goalExercises, setGoalExercises] = useState<Record<string, any[]>>({});
+  // Stores goal_id → measurement scores, newest first
+  const [goalScores, setGoalScores] = useState<Record<string, number[]>>({});
 
   // Search State 
   const [searchQuery, setSearchQuery] = useState(''); // Current search input value
 
   // Loading State
-  const [loading, setLoading] = useState(true); // Initial patients load
-  const [goalsLoading, setGoalsLoading] = useState(false); // Per-patient goals load
+  const loading = patientsQuery.loading; // Initial patients load
+  const goalsLoading = goalsQuery.loading; // Per-patient goals load
 
   // Alert State
   const [successMsg, setSuccessMsg] = useState<string | null>(null); // Success message
@@ -50,10 +100,26 @@ const GoalsExercises: React.FC = () => {
 
   // Goal Form State 
   const [showGoalForm, setShowGoalForm] = useState(false); // Controls goal form visibility
-  const [goalDescription, setGoalDescription] = useState(''); // Goal description input
+  const [goalSource, setGoalSource] = useState<'smart' | 'template'>('smart'); // Write the goal, or set it from a template
+  const [smartGoal, setSmartGoal] = useState<SmartGoalDraft>(EMPTY_SMART_GOAL); // SMART goal builder inputs
   const [goalStartDate, setGoalStartDate] = useState(new Date().toISOString().split('T')[0]); // Defaults to today
   const [goalTargetDate, setGoalTargetDate] = useState(''); // Goal target date input
   const [goalPriority, setGoalPriority] = useState('medium'); // Goal priority input
+  const [saveAsDraft, setSaveAsDraft] = useState(false); // Draft goals aren't shown to the patient until made active
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null); // Goal open in the edit modal
+  const [statusGoal, setStatusGoal] = useState<Goal | null>(null); // Goal open in the status modal
+
+  // Objective form state
+  const [showObjectiveFormForGoal, setShowObjectiveFormForGoal] = useState<string | null>(null); // Long-term goal the form is open for
+  const [objectiveDescription, setObjectiveDescription] = useState(''); // Objective description input
+  const [objectiveTargetDate, setObjectiveTargetDate] = useState(''); // Objective target date input
+  const [objectiveWeight, setObjectiveWeight] = useState(1); // How much the objective counts towards its goal
+
+  // Goal Template State
+  const [goalTemplates, setGoalTemplates] = useState<GoalTemplate[]>([]); // Own and clinic-shared templates
+  const [templatesVersion, setTemplatesVersion] = useState(0); // Bumped when templates are changed in the modal
+  const [selectedTemplateId, setSelectedTemplateId] = useState(''); // Template the goal is set from
+  const [showTemplates, setShowTemplates] = useState(false); // Controls the template management modal
 
   // Exercise Form State 
   // Tracks which goal's exercise form is open (stores goal_id or null)
@@ -62,107 +128,124 @@ const GoalsExercises: React.FC = () => {
   const [exerciseDescription, setExerciseDescription] = useState(''); // Exercise description input 
   const [exerciseDifficulty, setExerciseDifficulty] = useState('beginner'); // Exercise difficulty input
   const [exerciseFrequency, setExerciseFrequency] = useState('daily'); // Exercise frequency input
+  const [scheduleRule, setScheduleRule] = useState<ScheduleRule>(ruleForFrequency('daily')); // When the exercise is practised
+  const [exerciseCategory, setExerciseCategory] = useState('fluency'); // Exercise category input
+
+  // Exercise Library State
+  // Whether the exercise form picks an existing exercise from the library or creates a new one
+  const [exerciseSource, setExerciseSource] = useState<'library' | 'new'>('library');
+  const [libraryExercises, setLibraryExercises] = useState<LibraryExercise[]>([]); // Own and clinic-shared exercises
+  const [librarySearch, setLibrarySearch] = useState(''); // Filters the library list by title or category
+  const [selectedExerciseId, setSelectedExerciseId] = useState<string | null>(null); // Exercise picked from the library
+
+  /**
+   * When a load fails: show why; the cached patients or goals stay on screen
+   */
+  useEffect(() => {
+    if (patientsQuery.error) setErrorMsg('Failed to load patients: ' + patientsQuery.error.message);
+  }, [patientsQuery.error]);
+
+  useEffect(() => {
+    if (goalsQuery.error) setErrorMsg('Failed to load goals: ' + goalsQuery.error.message);
+  }, [goalsQuery.error]);
 
   /**
-   * On mount: validate user role, set therapist ID, and load patients
+   * When an exercise form opens: load the therapist's own and clinic-shared exercises to pick from
    */
   useEffect(() => {
-    const userStr = localStorage.getItem('userData');
-    if (!userStr) { navigate('/login'); return; } // Redirect if not logged in
-    const userData = JSON.parse(userStr);
-    const role = userData.user_role || userData.role;
-    if (role !== 'therapist') { navigate('/patient-dashboard'); return; } // Redirect if not a therapist
-    setUser(userData);
-    const id = userData.user_id || userData.id;
-    setTherapistId(id);
-    loadPatients(id);
-  }, [navigate]);
+    if (!showExerciseFormForGoal) return;
+    getExerciseLibrary(therapistId, { scope: 'all' })
+      .then(setLibraryExercises)
+      .catch(err => setErrorMsg('Failed to load the exercise library: ' + err.message));
+  }, [showExerciseFormForGoal, therapistId]);
 
   /**
-   * Loads all patients and sessions linked to this therapist.
+   * When the goal form opens, or templates change: load the templates a goal can be set from
    */
-  const loadPatients = async (id: string) => {
-    try {
-      setLoading(true);
-      const [patientsData, sessionsData] = await Promise.all([
-        getTherapistPatients(id),
-        getTherapistSessions(id)
-      ]);
-      setPatients(patientsData);
-      setSessions(sessionsData);
-    } catch (err: any) {
-      setErrorMsg('Failed to load patients: ' + err.message);
-    } finally {
-      // Always stop the loading spinner regardless of success or failure
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (!showGoalForm) return;
+    getGoalTemplates(therapistId)
+      .then(setGoalTemplates)
+      .catch(err => setErrorMsg('Failed to load goal templates: ' + err.message));
+  }, [showGoalForm, therapistId, templatesVersion]);
 
   /**
    * Called when therapist clicks a patient in the left panel.
-   * Resets right panel and loads goals for the selected patient.
+   * Resets right panel; the goals query then loads goals for the selected patient.
    */
-  const handleSelectPatient = async (patient: Patient) => {
+  const handleSelectPatient = (patient: Patient) => {
     setSelectedPatient(patient);
     // Reset all form states when switching patients
     setShowGoalForm(false);
     setShowExerciseFormForGoal(null);
-    setGoals([]);
-    setGoalExercises({});
-    await loadGoalsForPatient(patient.user_id);
   };
 
   /**
-   * Fetches all goals for a specific patient.
-   * For each goal, fetches unique exercises from goal_exercise_set
+   * Works out each goal's exercises and progress from the goal_exercise_set rows loaded with the goals
    * Removes duplicate exercise entries by exercise_id, so each exercise only shows once in the list.
+   * goalExercises: goal_id → array of goal_exercise_set rows (with exercise info)
+   * goalProgressMap: goal_id → practices done out of all of them
    */
-  const loadGoalsForPatient = async (patientUserId: string) => {
-    try {
-      setGoalsLoading(true);
-      const goalsData = await getPatientGoals(patientUserId);
-      setGoals(goalsData);
-
-      // For each goal fetch its linked exercises from goal_exercise_set
-      // We only need unique exercise_ids for display in the therapist view
-      const exercisesMap: Record<string, any[]> = {};
-      for (const goal of goalsData) {
-        const { data } = await supabase
-          .from('goal_exercise_set')
-          .select('*, exercise:exercise_id(*)')
-          .eq('goal_id', goal.goal_id)
-          .order('created_at', { ascending: true });
-
-        // Removes duplicate exercise entries by exercise_id, preserving earliest-created order
-        const seen = new Set();
-        const unique = (data || []).filter((row: any) => {
-          if (seen.has(row.exercise_id)) return false;
-          seen.add(row.exercise_id);
-          return true;
-        });
-        exercisesMap[goal.goal_id] = unique;
-      }
-      setGoalExercises(exercisesMap);
-    } catch (err: any) {
-      setErrorMsg('Failed to load goals: ' + err.message);
-    } finally {
-      // Always stop the loading spinner regardless of success or failure
-      setGoalsLoading(false);
+  const { goalExercises, goalProgressMap } = useMemo(() => {
+    const goalsData = goalsQuery.data?.goals ?? NO_GOALS;
+    const rowsByGoal = goalsQuery.data?.rowsByGoal ?? {};
+
+    // We only need unique exercise_ids for display in the therapist view, but every row counts towards progress
+    const exercisesMap: Record<string, any[]> = {};
+    const progressMap: Record<string, GoalProgress> = {};
+    for (const goal of goalsData) {
+      const rows = rowsByGoal[goal.goal_id];
+      progressMap[goal.goal_id] = goalProgress(rows);
+
+      // Removes duplicate exercise entries by exercise_id, preserving earliest-created order
+      const seen = new Set();
+      exercisesMap[goal.goal_id] = rows.filter(row => {
+        if (seen.has(row.exercise_id)) return false;
+        seen.add(row.exercise_id);
+        return true;
+      });
     }
-  };
+    // A long-term goal's progress is its objectives' progress, weighted together
+    goalsData.forEach(goal => {
+      const objectives = goalsData.filter(objective => objective.parent_goal_id === goal.goal_id);
+      const rolledUp = rollUpProgress(objectives.map(objective => ({
+        status: objective.status,
+        weight: objective.weight,
+        progress: progressMap[objective.goal_id]
+      })));
+      if (rolledUp) progressMap[goal.goal_id] = rolledUp;
+    });
+    return { goalExercises: exercisesMap, goalProgressMap: progressMap };
+  }, [goalsQuery.data]);
+
+  /**
+   * Whenever the goals load: fetch their measurements, newest first, to check each goal's measurable criterion against
+   */
+  useEffect(() => {
+    if (goals.length === 0) { setGoalScores({}); return; }
+    getGoalMeasurements(goals.map(goal => goal.goal_id))
+      .then(measurements => {
+        const scores: Record<string, number[]> = {};
+        measurements.forEach(m => { scores[m.goal_id] = [...(scores[m.goal_id] || []), m.score]; });
+        setGoalScores(scores);
+      })
+      .catch(err => setErrorMsg('Failed to load goal measurements: ' + err.message));
+  }, [goals]);
+
+  const selectedTemplate = goalTemplates.find(template => template.template_id === selectedTemplateId) || null;
 
   /**
-   * Finds the most recent session_id for a given patient.
-   * Required because goals must be linked to a session in the database
+   * Picks the template to set the goal from; its priority becomes the goal's
    */
-  const getSessionIdForPatient = (patientUserId: string): string | null => {
-    const patientSessions = sessions.filter(s => s.patient_id === patientUserId);
-    if (patientSessions.length === 0) return null; // No session found
-    return patientSessions[0].session_id; // Return the most recent session
-  }; 
+  const handlePickTemplate = (templateId: string) => {
+    setSelectedTemplateId(templateId);
+    const template = goalTemplates.find(t => t.template_id === templateId);
+    if (template) setGoalPriority(template.priority);
+  };
 
   /**
    * Handles saving a new goal for the selected patient.
+   * A SMART goal is summarised into its description; a goal set from a template also gets the template's exercises
    */
   const handleSaveGoal = async (e: React.FormEvent) => {
     // Prevent the browser from refreshing the page on form submit 
@@ -170,39 +253,39 @@ const GoalsExercises: React.FC = () => {
     setErrorMsg(null);
 
     // Validation Gatekeepers 
-    if (!goalDescription) { setErrorMsg('Please enter a goal description.'); return; }
-    if (!goalTargetDate) { setErrorMsg('Please enter a target date.'); return; }
+    if (goalSource === 'template' && !selectedTemplate) { setErrorMsg('Please pick a goal template.'); return; }
+    const smartError = goalSource === 'smart' ? smartGoalError(smartGoal) : null;
+    if (smartError) { setErrorMsg(smartError + '.'); return; }
+    if (goalSource === 'smart' && !goalTargetDate) { setErrorMsg('Please enter a target date.'); return; }
     if (!selectedPatient) return;
 
-    // Retrieve the session ID associated with this patient 
-    const sessionId = getSessionIdForPatient(selectedPatient.user_id);
-
-    // A goal cannot exist without a session; block if session ID is missing
-    if (!sessionId) {
-      setErrorMsg('No session found for this patient. Please create a session first.');
-      return;
-    }
-
     try {
+      // Goals go into the therapist's treatment plan with the patient, which is opened if there isn't one
+      const plan = await openTreatmentPlan(therapistId, selectedPatient.user_id);
+
       // Submit the new goal object to the backend/database 
-      await createGoal({
-        session_id: sessionId,
-        goal_description: goalDescription,
-        start_date: goalStartDate,
-        target_date: goalTargetDate,
-        status: 'active',
-        priority: goalPriority,
-      });
+      if (selectedTemplate && goalSource === 'template') {
+        await instantiateGoalTemplate(selectedTemplate, plan.plan_id, goalStartDate, goalPriority, therapistId);
+      } else {
+        await createGoal({
+          plan_id: plan.plan_id,
+          goal_description: describeSmartGoal(smartGoal),
+          start_date: goalStartDate,
+          target_date: goalTargetDate,
+          status: saveAsDraft ? 'draft' : 'active',
+          priority: goalPriority,
+          ...smartGoalFields(smartGoal)
+        }, therapistId);
+      }
       setSuccessMsg('Goal saved successfully!');
       setShowGoalForm(false);
 
       // Reset form fields to their default empty states 
-      setGoalDescription('');
+      setSmartGoal(EMPTY_SMART_GOAL);
+      setSelectedTemplateId('');
       setGoalTargetDate('');
       setGoalPriority('medium');
-
-      // Refresh the list of goals so the new one appears immediately 
-      await loadGoalsForPatient(selectedPatient.user_id);
+      setSaveAsDraft(false);
 
       // Clear the success message after 3 seconds 
       setTimeout(() => setSuccessMsg(null), 3000);
@@ -213,137 +296,80 @@ const GoalsExercises: React.FC = () => {
   };
 
   /**
-   * Handles saving a new exercise and linking it to a specific goal.
-   * auto-generates a schedule based on the chosen frequency 
-   * 
-   * Note: The logic for calculating the exercise schedule rows based on
-   * the goal's target date was developed with inspiration and debugging
-   * assistance from Claude. The final implementation was reviewed, adapted and validated to reflect the specific data
-   * structure and requirements of OwnUrVoice.
+   * Handles saving a short-term objective under a long-term goal
+   * The objective runs from the goal's start (or today, if later) and must finish by the goal's target date
+   */
+  const handleSaveObjective = async (e: React.FormEvent, parent: Goal) => {
+    e.preventDefault();
+    setErrorMsg(null);
+
+    if (!objectiveDescription.trim()) { setErrorMsg('Please describe the objective.'); return; }
+    if (!objectiveTargetDate) { setErrorMsg('Please enter a target date.'); return; }
+    if (!selectedPatient) return;
+
+    try {
+      await createGoal({
+        plan_id: parent.plan_id,
+        goal_description: objectiveDescription.trim(),
+        start_date: scheduleStartDate(parent.start_date),
+        target_date: objectiveTargetDate,
+        status: 'active',
+        priority: parent.priority,
+        parent_goal_id: parent.goal_id,
+        weight: objectiveWeight
+      }, therapistId);
+      setSuccessMsg('Objective saved!');
+      setShowObjectiveFormForGoal(null);
+      setObjectiveDescription('');
+      setObjectiveTargetDate('');
+      setObjectiveWeight(1);
+      setTimeout(() => setSuccessMsg(null), 3000);
+    } catch (err: any) {
+      setErrorMsg('Failed to save objective: ' + err.message);
+    }
+  };
+
+  /**
+   * Picks an exercise from the library; the schedule defaults to the exercise's recommended frequency
+   */
+  const handlePickExercise = (exercise: LibraryExercise) => {
+    setSelectedExerciseId(exercise.exercise_id);
+    setScheduleRule(ruleForFrequency(exercise.recommended_frequency));
+  };
+
+  /**
+   * Handles linking an exercise to a specific goal - one picked from the library, or a new one saved to it first.
+   * Schedules its practices from the chosen rule, up to the goal's target date
    */
   const handleSaveExercise = async (e: React.FormEvent, goalId: string) => {
     e.preventDefault(); // Prevent the browser from reloading the page
     setErrorMsg(null);
   
-    // Validation - exercise title is required before proceeding 
-    if (!exerciseTitle) { setErrorMsg('Please enter an exercise title.'); return; }
+    // Validation - an exercise must be picked, or a new one given a title, before proceeding 
+    if (exerciseSource === 'library' && !selectedExerciseId) { setErrorMsg('Please pick an exercise from the library.'); return; }
+    if (exerciseSource === 'new' && !exerciseTitle) { setErrorMsg('Please enter an exercise title.'); return; }
+    const ruleError = scheduleRuleError(scheduleRule);
+    if (ruleError) { setErrorMsg(ruleError); return; }
     if (!selectedPatient) return;
-  
-    try {
-      // Create the exercise in the exercise table
-      const newExercise = await createExercise({
-        // Save the general exercise details to the exercise table first 
-        created_by: therapistId,
-        title: exerciseTitle,
-        description: exerciseDescription,
-        difficulty_level: exerciseDifficulty,
-        recommended_frequency: exerciseFrequency,
-      });
-  
-      // Find the goal's target date to calculate the schedule (how many rows to generate)
-      const goal = goals.find(g => g.goal_id === goalId);
-      if (!goal) { setErrorMsg('Goal not found.'); return; }
-  
-      // Count the days from today to the target date (e.g. today → target = 14 days)
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const targetDate = new Date(goal.target_date + 'T00:00:00Z');
-      const diffTime = targetDate.getTime() - today.getTime();
-
-      // Math.max(1) ensures at least one row is always creates
-      // Math.ceil rounds up so no sessions are missed 
-      const totalDays = Math.max(1, Math.ceil(diffTime / (1000 * 60 * 60 * 24)));
-      const totalWeeks = Math.max(1, Math.ceil(totalDays / 7));
-
-      // Day names cycle — repeats Mon-Sun across all weeks
-      const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-
-      // Create one row per day (daily), two rows per day (twice daily), or one row per week (weekly)
-      // Each row = one scheduled slot the patient needs to tick off
-      let rows: any[] = [];
-
-      // Assign week numbers based on a Mon-Sun grid starting from today's day of the week
-      // e.g. if today is Wednesday (index 2), week 1 covers Mon-Sun of the same week
-      const startDayIndex = today.getDay() === 0 ? 6 : today.getDay() - 1;
-
-      if (exerciseFrequency === 'daily') {
-        // One row per day from today to the target date
-        rows = Array.from({ length: totalDays }, (_, i) => {
-          const date = new Date(today);
-          date.setDate(today.getDate() + i);
-
-          const jsDay = date.getDay(); // 0 = Sun, 1 = Mon...
-          const dayIndex = jsDay === 0 ? 6 : jsDay - 1; // Monday = 0 index
-          const dayName = dayNames[dayIndex];
-
-          // Make week numbers align to Mon-Sun grid
-          // Calculate which week number this day falls in 
-          const weekNumber = Math.floor((startDayIndex + i) / 7) + 1;
-
-          return {
-            goal_id: goalId,
-            exercise_id: newExercise.exercise_id,
-            day_of_week: `Week ${weekNumber} ${dayName}`,
-            week_number: weekNumber,
-            completed: false,       // All session start as incomplete
-            difficulty_rating: null // No difficulty rating until the patient completes the session
-          };
-        });
-      }
 
-      else if (exerciseFrequency === 'twice daily') {
-        // Two rows per day — Morning and Afternoon
-        rows = Array.from({ length: totalDays }, (_, i) => {
-          const date = new Date(today);
-          date.setDate(today.getDate() + i);
-      
-          const jsDay = date.getDay();
-          const dayIndex = jsDay === 0 ? 6 : jsDay - 1;
-          const dayName = dayNames[dayIndex];
-      
-          // Make week numbers align to Mon-Sun grid
-          // Calculate which week number this day falls in 
-          const weekNumber = Math.floor((startDayIndex + i) / 7) + 1;
-      
-          // Return an array of two rows for this day 
-          return [
-            {
-              goal_id: goalId,
-              exercise_id: newExercise.exercise_id,
-              day_of_week: `Week ${weekNumber} ${dayName} Morning`,
-              week_number: weekNumber,
-              completed: false,
-              difficulty_rating: null
-            },
-            {
-              goal_id: goalId,
-              exercise_id: newExercise.exercise_id,
-              day_of_week: `Week ${weekNumber} ${dayName} Afternoon`,
-              week_number: weekNumber,
-              completed: false,
-              difficulty_rating: null
-            }
-          ];
-        }).flat(); // Flattens the nested arrays into a single list, each day produces 2 rows (AM/PM)
-      
-  
-      } else if (exerciseFrequency === 'weekly') {
-        // One row per week from today to target date 
-        // Uses week numbers instead of day names
-        // e.g. if target is 6 weeks away → 6 rows (Week 1 to Week 6)
-        rows = Array.from({ length: totalWeeks }, (_, i) => ({
-          goal_id: goalId,
-          exercise_id: newExercise.exercise_id,
-          day_of_week: null,        // No specific day for weekly exercises
-          week_number: i + 1,       // Week 1, Week 2 , Week 3...
-          completed: false,
-          difficulty_rating: null
-        }));
-      }
+    // Find the goal - its start and target dates bound the schedule
+    const goal = goals.find(g => g.goal_id === goalId);
+    if (!goal) { setErrorMsg('Goal not found.'); return; }
   
-      // Insert all rows into goal_exercise_set
-      const { error } = await supabase.from('goal_exercise_set').insert(rows);
-      if (error) throw error;
+    try {
+      // A new exercise is saved to the library first, so it can be reused for other goals
+      const exerciseId = exerciseSource === 'library'
+        ? selectedExerciseId!
+        : (await createLibraryExercise(therapistId, {
+            title: exerciseTitle,
+            description: exerciseDescription,
+            difficulty_level: exerciseDifficulty,
+            recommended_frequency: exerciseFrequency,
+            category: exerciseCategory
+          })).exercise_id;
+
+      // One goal_exercise_set row per practice - each one the patient needs to tick off
+      await assignExerciseToGoal(goal, exerciseId, scheduleRule);
   
       // Show success message to confirm the exercise was saved 
       setSuccessMsg('Exercise saved and linked to goal!');
@@ -354,8 +380,9 @@ const GoalsExercises: React.FC = () => {
       setExerciseDescription('');
       setExerciseDifficulty('beginner');
       setExerciseFrequency('daily');
-      // Refresh the goals and exercises list so the new exercise appears immediately
-      await loadGoalsForPatient(selectedPatient.user_id);
+      setScheduleRule(ruleForFrequency('daily'));
+      setExerciseCategory('fluency');
+      setSelectedExerciseId(null);
       // Clear success message after 3 seconds 
       setTimeout(() => setSuccessMsg(null), 3000);
     } catch (err: any) {
@@ -365,12 +392,11 @@ const GoalsExercises: React.FC = () => {
   }
 
   /**
-   * Clears local storage and redirects to login
+   * Signs out of Supabase and redirects to login
    */
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('userData');
-    navigate('/login');
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login', { replace: true });
   };
 
   /**
@@ -455,6 +481,14 @@ const GoalsExercises: React.FC = () => {
             </svg>
             <span>Goals & Exercises</span>
           </div>
+          {/* Exercise Library — navigates to the exercise library page */}
+          <div className="sidebar-item" onClick={() => navigate('/therapist/exercises')} style={{ cursor: 'pointer' }}>
+            <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/>
+              <path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/>
+            </svg>
+            <span>Exercise Library</span>
+          </div>
 
           {/* Resources — navigates to the resources page */}
           <div className="sidebar-item" onClick={() => navigate('/therapist/resources')} style={{ cursor: 'pointer' }}>
@@ -624,6 +658,14 @@ const GoalsExercises: React.FC = () => {
                           {/* Patient email */}
                           <small className="text-muted">{selectedPatient.email}</small>
                         </div>
+                        {/* Templates button — opens the goal template manager */}
+                        <button
+                          className="btn btn-sm btn-outline-secondary fw-semibold ms-auto me-2"
+                          style={{ borderRadius: '8px', padding: '8px 16px' }}
+                          onClick={() => setShowTemplates(true)}
+                        >
+                          <i className="bi bi-collection me-1"></i>Templates
+                        </button>
                         {/* Add Goal button — toggles the goal form */}
                         <button
                           className="btn btn-sm text-white fw-semibold"
@@ -645,23 +687,68 @@ const GoalsExercises: React.FC = () => {
                           className="mb-4 p-3 rounded-3"
                           style={{ backgroundColor: '#f0eeff', border: '1px solid #d4cff5' }}
                         >
-                          <h6 className="fw-bold mb-3" style={{ color: '#5B4FCF' }}>New Goal</h6>
-
-                          {/* Goal Description input */}
-                          <div className="mb-3">
-                            <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>
-                              Goal Description <span className="text-danger">*</span>
-                            </label>
-                            <textarea
-                              className="form-control"
-                              rows={2}
-                              placeholder="e.g. Improve speech fluency..."
-                              value={goalDescription}
-                              onChange={e => setGoalDescription(e.target.value)}
-                              required
-                            />
+                          <div className="d-flex align-items-center justify-content-between mb-3">
+                            <h6 className="fw-bold mb-0" style={{ color: '#5B4FCF' }}>New Goal</h6>
+                            {/* Source toggle — write a SMART goal or set one from a template */}
+                            <div className="btn-group btn-group-sm">
+                              {(['smart', 'template'] as const).map(source => (
+                                <button
+                                  key={source}
+                                  type="button"
+                                  className={`btn ${goalSource === source ? 'btn-primary' : 'btn-outline-secondary'}`}
+                                  onClick={() => setGoalSource(source)}
+                                >
+                                  {source === 'smart' ? 'SMART Goal' : 'From Template'}
+                                </button>
+                              ))}
+                            </div>
                           </div>
 
+                          {goalSource === 'template' ? (
+                            <div className="mb-3">
+                              {/* Template picker — the goal and its exercises are set in one step */}
+                              <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>
+                                Goal Template <span className="text-danger">*</span>
+                              </label>
+                              <select
+                                className="form-select"
+                                value={selectedTemplateId}
+                                onChange={e => handlePickTemplate(e.target.value)}
+                              >
+                                <option value="">Pick a template...</option>
+                                {goalTemplates.map(template => (
+                                  <option key={template.template_id} value={template.template_id}>
+                                    {template.title} ({template.timeframe_weeks} weeks)
+                                  </option>
+                                ))}
+                              </select>
+                              {goalTemplates.length === 0 && (
+                                <small className="text-muted">No templates yet. Create one with the Templates button above.</small>
+                              )}
+
+                              {/* Selected template — its SMART goal and the exercises it will schedule */}
+                              {selectedTemplate && (
+                                <div className="mt-2 p-2 rounded-3" style={{ backgroundColor: '#fff', fontSize: '13px' }}>
+                                  <div className="mb-1">{describeSmartGoal(templateDraft(selectedTemplate))}</div>
+                                  {selectedTemplate.exercises.length === 0 ? (
+                                    <span className="text-muted">No exercises bundled</span>
+                                  ) : (
+                                    <ul className="mb-0 ps-3 text-muted">
+                                      {selectedTemplate.exercises.map(item => (
+                                        <li key={item.exercise_id}>
+                                          {item.exercise?.title || 'Exercise not shared with your clinic'}
+                                          {item.exercise && ` · ${describeRule(item.schedule || ruleForFrequency(item.exercise.recommended_frequency))}`}
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <SmartGoalFields value={smartGoal} onChange={setSmartGoal} />
+                          )}
+
                           <div className="row">
                             {/* Start Date input — defaults to today */}
                             <div className="col-6 mb-3">
@@ -678,19 +765,44 @@ const GoalsExercises: React.FC = () => {
                               />
                             </div>
 
-                             {/* Target Date input — required, cannot be set in the past */}
+                            {/* Target Date — set from the template's timeframe, or picked for a SMART goal */}
                             <div className="col-6 mb-3">
                               <label className="form-label fw-semibold" style={{ fontSize: '14px' }}>
                                 Target Date <span className="text-danger">*</span>
                               </label>
-                              <input
-                                type="date"
-                                className="form-control"
-                                value={goalTargetDate}
-                                min={new Date().toISOString().split('T')[0]}
-                                onChange={e => setGoalTargetDate(e.target.value)}
-                                required
-                              />
+                              {goalSource === 'template' ? (
+                                <div className="form-control bg-light">
+                                  {selectedTemplate && goalStartDate
+                                    ? new Date(targetDateForWeeks(goalStartDate, selectedTemplate.timeframe_weeks)).toLocaleDateString('en-GB')
+                                    : '—'}
+                                </div>
+                              ) : (
+                                <>
+                                  <input
+                                    type="date"
+                                    className="form-control"
+                                    value={goalTargetDate}
+                                    min={new Date().toISOString().split('T')[0]}
+                                    onChange={e => setGoalTargetDate(e.target.value)}
+                                    required
+                                  />
+                                  {/* Timeframe shortcuts — set the target date from the start date */}
+                                  <div className="d-flex flex-wrap gap-1 mt-1">
+                                    {TIMEFRAME_WEEKS.map(weeks => (
+                                      <button
+                                        key={weeks}
+                                        type="button"
+                                        className="btn btn-sm btn-light"
+                                        style={{ fontSize: '12px' }}
+                                        disabled={!goalStartDate}
+                                        onClick={() => setGoalTargetDate(targetDateForWeeks(goalStartDate, weeks))}
+                                      >
+                                        {weeks} weeks
+                                      </button>
+                                    ))}
+                                  </div>
+                                </>
+                              )}
                             </div>
                           </div>
 
@@ -710,6 +822,22 @@ const GoalsExercises: React.FC = () => {
                             </select>
                           </div>
 
+                          {/* Draft checkbox — a draft goal can be finished off before the patient sees it */}
+                          {goalSource === 'smart' && (
+                            <div className="form-check mb-3">
+                              <input
+                                className="form-check-input"
+                                type="checkbox"
+                                id="goal-draft"
+                                checked={saveAsDraft}
+                                onChange={e => setSaveAsDraft(e.target.checked)}
+                              />
+                              <label className="form-check-label" htmlFor="goal-draft" style={{ fontSize: '14px' }}>
+                                Save as draft
+                              </label>
+                            </div>
+                          )}
+
                           {/* Form action buttons */}
                           <div className="d-flex gap-2">
                             {/* Save Goal button — submits the form */}
@@ -744,22 +872,37 @@ const GoalsExercises: React.FC = () => {
                           <p>No goals yet for this patient. Click "+ Add Goal" to create one.</p>
                         </div>
                       ) : (
-                        // Goals List — one card per goal 
-                        goals.map(goal => {
+                        // Goals List — one card per goal, with each goal's objectives indented under it
+                        goals
+                          .filter(goal => !goal.parent_goal_id || !goals.some(parent => parent.goal_id === goal.parent_goal_id))
+                          .flatMap(goal => [goal, ...goals.filter(objective => objective.parent_goal_id === goal.goal_id)])
+                          .map(goal => {
                           const badge = priorityBadge(goal.priority);
                           // Get unique exercises for this goal for display
                           const linkedExercises = goalExercises[goal.goal_id] || [];
+                          // A long-term goal with objectives has its exercises assigned to them instead
+                          const objectives = goals.filter(objective => objective.parent_goal_id === goal.goal_id);
+                          const isObjective = goals.some(parent => parent.goal_id === goal.parent_goal_id);
+                          // Where the goal is in its lifecycle, and whether it is overdue or looks achieved
+                          const progress = goalProgressMap[goal.goal_id] || goalProgress([]);
+                          const overdue = isGoalOverdue(goal, progress, new Date().toISOString().split('T')[0]);
+                          const suggestion = suggestGoalStatus(goal, progress, goalScores[goal.goal_id] || []);
                           return (
                             <div
                               key={goal.goal_id}
                               className="mb-4 p-3 rounded-3"
-                              style={{ backgroundColor: '#fafafa', border: '1px solid #e9ecef' }}
+                              style={{
+                                backgroundColor: '#fafafa',
+                                border: '1px solid #e9ecef',
+                                // Objectives sit indented under their long-term goal
+                                ...(isObjective ? { marginLeft: '32px', marginTop: '-12px', borderLeft: '3px solid #c4b5fd' } : {})
+                              }}
                             >
                               {/* Goal header — description, priority badge and Add Exercise button */}
                               <div className="d-flex align-items-start justify-content-between mb-2">
                                 <div className="flex-grow-1">
                                   <div className="d-flex align-items-center gap-2 flex-wrap mb-1">
-                                    <span style={{ fontSize: '15px' }}>🎯</span>
+                                    <span style={{ fontSize: '15px' }}>{isObjective ? '↳' : '🎯'}</span>
                                     {/* Goal description */}
                                     <span className="fw-semibold" style={{ fontSize: '15px', color: '#1a1a2e' }}>
                                       {goal.goal_description}
@@ -775,115 +918,356 @@ const GoalsExercises: React.FC = () => {
                                     }}>
                                       {goal.priority} priority
                                     </span>
+                                    {/* Weight — how much the objective counts towards its long-term goal */}
+                                    {isObjective && (
+                                      <span className="badge bg-light text-dark border" style={{ fontSize: '11px' }}>
+                                        Weight {goal.weight}
+                                      </span>
+                                    )}
+                                    {/* Status badge — where the goal is in its lifecycle */}
+                                    <span className="badge bg-light text-dark border" style={{ fontSize: '11px' }}>
+                                      {GOAL_STATUS_LABELS[goal.status as GoalStatus] || goal.status}
+                                    </span>
+                                    {overdue && (
+                                      <span className="badge bg-danger" style={{ fontSize: '11px' }}>Overdue</span>
+                                    )}
+                                    {/* Suggestion — opens the status modal to confirm it */}
+                                    {suggestion && (
+                                      <button
+                                        type="button"
+                                        className="badge bg-success border-0"
+                                        style={{ fontSize: '11px' }}
+                                        title={suggestion.reason}
+                                        onClick={() => setStatusGoal(goal)}
+                                      >
+                                        <i className="bi bi-stars me-1"></i>Ready to mark achieved?
+                                      </button>
+                                    )}
                                   </div>
                                   {/* Goal target date */}
                                   <div className="d-flex align-items-center gap-2">
                                     <span style={{ fontSize: '13px' }}>📅</span>
                                     <small className="text-muted">
                                       Target: {new Date(goal.target_date).toLocaleDateString('en-GB')}
+                                      {objectives.length > 0 && (
+                                        <> · {progress.completed} of {progress.total} objectives done ({progress.percent}%)</>
+                                      )}
                                     </small>
                                   </div>
                                 </div>
 
-                                {/* Add Exercise button — toggles the exercise form for this goal */}
+                                {/* Status button — moves the goal along its lifecycle and records measurements */}
                                 <button
-                                  className="btn btn-sm text-white fw-semibold ms-2"
-                                  style={{
-                                    backgroundColor: '#5B4FCF',
-                                    borderRadius: '8px',
-                                    fontSize: '12px',
-                                    whiteSpace: 'nowrap'
-                                  }}
-                                  onClick={() => {
-                                    // Toggle the exercise form for this specific goal
-                                    setShowExerciseFormForGoal(
-                                      showExerciseFormForGoal === goal.goal_id ? null : goal.goal_id
-                                    );
-                                    setShowGoalForm(false);
-                                    setExerciseTitle('');
-                                    setExerciseDescription('');
-                                    setExerciseDifficulty('beginner');
-                                    setExerciseFrequency('daily');
-                                  }}
+                                  className="btn btn-sm btn-outline-secondary ms-2"
+                                  style={{ borderRadius: '8px', fontSize: '12px' }}
+                                  title="Goal status"
+                                  onClick={() => setStatusGoal(goal)}
                                 >
-                                  + Add Exercise
+                                  <i className="bi bi-flag"></i>
                                 </button>
+
+                                {/* Edit button — opens the goal in the edit modal */}
+                                <button
+                                  className="btn btn-sm btn-outline-secondary ms-2"
+                                  style={{ borderRadius: '8px', fontSize: '12px' }}
+                                  title="Edit goal"
+                                  onClick={() => setEditingGoal(goal)}
+                                >
+                                  <i className="bi bi-pencil"></i>
+                                </button>
+
+                                {/* Add Objective button — breaks a long-term goal without exercises of its own into objectives */}
+                                {!isObjective && linkedExercises.length === 0 && (
+                                  <button
+                                    className="btn btn-sm btn-outline-secondary fw-semibold ms-2"
+                                    style={{ borderRadius: '8px', fontSize: '12px', whiteSpace: 'nowrap' }}
+                                    onClick={() => {
+                                      setShowObjectiveFormForGoal(
+                                        showObjectiveFormForGoal === goal.goal_id ? null : goal.goal_id
+                                      );
+                                      setShowExerciseFormForGoal(null);
+                                      setObjectiveDescription('');
+                                      setObjectiveTargetDate(goal.target_date);
+                                      setObjectiveWeight(1);
+                                    }}
+                                  >
+                                    + Objective
+                                  </button>
+                                )}
+
+                                {/* Add Exercise button — toggles the exercise form for this goal */}
+                                {objectives.length === 0 && (
+                                  <button
+                                    className="btn btn-sm text-white fw-semibold ms-2"
+                                    style={{
+                                      backgroundColor: '#5B4FCF',
+                                      borderRadius: '8px',
+                                      fontSize: '12px',
+                                      whiteSpace: 'nowrap'
+                                    }}
+                                    onClick={() => {
+                                      // Toggle the exercise form for this specific goal
+                                      setShowExerciseFormForGoal(
+                                        showExerciseFormForGoal === goal.goal_id ? null : goal.goal_id
+                                      );
+                                      setShowGoalForm(false);
+                                      setExerciseTitle('');
+                                      setExerciseDescription('');
+                                      setExerciseDifficulty('beginner');
+                                      setExerciseFrequency('daily');
+                                      setScheduleRule(ruleForFrequency('daily'));
+                                      setExerciseCategory('fluency');
+                                      setExerciseSource('library');
+                                      setLibrarySearch('');
+                                      setSelectedExerciseId(null);
+                                    }}
+                                  >
+                                    + Add Exercise
+                                  </button>
+                                )}
                               </div>
 
-                              {/* Add Exercise Form */}
-                              {/* Only shown when the Add Exercise button is clicked for this goal */}
-                              {showExerciseFormForGoal === goal.goal_id && (
+                              {/* Add Objective Form */}
+                              {/* Only shown when the Objective button is clicked for this goal */}
+                              {showObjectiveFormForGoal === goal.goal_id && (
                                 <form
-                                  onSubmit={(e) => handleSaveExercise(e, goal.goal_id)}
+                                  onSubmit={(e) => handleSaveObjective(e, goal)}
                                   className="mt-3 p-3 rounded-3"
-                                  style={{ backgroundColor: '#ede9fe', border: '1px solid #c4b5fd' }}
+                                  style={{ backgroundColor: '#f5f3ff', border: '1px solid #ddd6fe' }}
                                 >
                                   <h6 className="fw-bold mb-3" style={{ color: '#5B4FCF', fontSize: '13px' }}>
-                                    New Exercise for this goal
+                                    Add a short-term objective to this goal
                                   </h6>
-
-                                  {/* Exercise Title input */}
-                                  <div className="mb-2">
-                                    <label className="form-label fw-semibold" style={{ fontSize: '13px' }}>
-                                      Exercise Title <span className="text-danger">*</span>
-                                    </label>
-                                    <input
-                                      type="text"
-                                      className="form-control form-control-sm"
-                                      placeholder="e.g. Daily breathing exercises"
-                                      value={exerciseTitle}
-                                      onChange={e => setExerciseTitle(e.target.value)}
-                                      required
-                                    />
+                                  <div className="row g-2">
+                                    <div className="col-12">
+                                      <input
+                                        type="text"
+                                        className="form-control form-control-sm"
+                                        placeholder="e.g. Use /s/ at the start of single words"
+                                        value={objectiveDescription}
+                                        onChange={(e) => setObjectiveDescription(e.target.value)}
+                                      />
+                                    </div>
+                                    <div className="col-md-6">
+                                      <label className="form-label small fw-semibold">Target Date</label>
+                                      <input
+                                        type="date"
+                                        className="form-control form-control-sm"
+                                        min={scheduleStartDate(goal.start_date)}
+                                        max={goal.target_date}
+                                        value={objectiveTargetDate}
+                                        onChange={(e) => setObjectiveTargetDate(e.target.value)}
+                                      />
+                                    </div>
+                                    <div className="col-md-6">
+                                      <label className="form-label small fw-semibold">Weight (1-{MAX_OBJECTIVE_WEIGHT})</label>
+                                      <input
+                                        type="number"
+                                        className="form-control form-control-sm"
+                                        min={1}
+                                        max={MAX_OBJECTIVE_WEIGHT}
+                                        value={objectiveWeight}
+                                        onChange={(e) => setObjectiveWeight(Number(e.target.value))}
+                                      />
+                                    </div>
                                   </div>
-
-                                  {/* Exercise Description input */}
-                                  <div className="mb-2">
-                                    <label className="form-label fw-semibold" style={{ fontSize: '13px' }}>
-                                      Description
-                                    </label>
-                                    <textarea
-                                      className="form-control form-control-sm"
-                                      rows={2}
-                                      placeholder="Describe the exercise..."
-                                      value={exerciseDescription}
-                                      onChange={e => setExerciseDescription(e.target.value)}
-                                    />
+                                  <div className="d-flex gap-2 mt-3">
+                                    <button type="submit" className="btn btn-sm text-white" style={{ backgroundColor: '#5B4FCF' }}>
+                                      Save Objective
+                                    </button>
+                                    <button
+                                      type="button"
+                                      className="btn btn-sm btn-outline-secondary"
+                                      onClick={() => setShowObjectiveFormForGoal(null)}
+                                    >
+                                      Cancel
+                                    </button>
                                   </div>
+                                </form>
+                              )}
 
-                                  <div className="row">
-                                    {/* Difficulty dropdown — defaults to beginner */}
-                                    <div className="col-6 mb-2">
-                                      <label className="form-label fw-semibold" style={{ fontSize: '13px' }}>
-                                        Difficulty
-                                      </label>
-                                      <select
-                                        className="form-select form-select-sm"
-                                        value={exerciseDifficulty}
-                                        onChange={e => setExerciseDifficulty(e.target.value)}
-                                      >
-                                        <option value="beginner">Beginner</option>
-                                        <option value="intermediate">Intermediate</option>
-                                        <option value="advanced">Advanced</option>
-                                      </select>
+                              {/* Add Exercise Form */}
+                              {/* Only shown when the Add Exercise button is clicked for this goal */}
+                              {showExerciseFormForGoal === goal.goal_id && (
+                                <form
+                                  onSubmit={(e) => handleSaveExercise(e, goal.goal_id)}
+                                  className="mt-3 p-3 rounded-3"
+                                  style={{ backgroundColor: '#ede9fe', border: '1px solid #c4b5fd' }}
+                                >
+                                  <div className="d-flex align-items-center justify-content-between mb-3">
+                                    <h6 className="fw-bold mb-0" style={{ color: '#5B4FCF', fontSize: '13px' }}>
+                                      Add an Exercise to this goal
+                                    </h6>
+                                    {/* Source toggle — pick an existing exercise or write a new one */}
+                                    <div className="btn-group btn-group-sm">
+                                      {(['library', 'new'] as const).map(source => (
+                                        <button
+                                          key={source}
+                                          type="button"
+                                          className={`btn ${exerciseSource === source ? 'btn-primary' : 'btn-outline-secondary'}`}
+                                          onClick={() => setExerciseSource(source)}
+                                        >
+                                          {source === 'library' ? 'From Library' : 'New Exercise'}
+                                        </button>
+                                      ))}
                                     </div>
+                                  </div>
 
-                                    {/* Frequency dropdown — determines how many rows are generated */}
-                                    <div className="col-6 mb-2">
-                                      <label className="form-label fw-semibold" style={{ fontSize: '13px' }}>
-                                        Frequency
-                                      </label>
-                                      <select
-                                        className="form-select form-select-sm"
-                                        value={exerciseFrequency}
-                                        onChange={e => setExerciseFrequency(e.target.value)}
+                                  {exerciseSource === 'library' ? (
+                                    <div className="mb-2">
+                                      {/* Library search — filters by title or category */}
+                                      <input
+                                        type="text"
+                                        className="form-control form-control-sm mb-2"
+                                        placeholder="Search your library..."
+                                        value={librarySearch}
+                                        onChange={e => setLibrarySearch(e.target.value)}
+                                      />
+                                      {/* Library list — own exercises and ones shared by colleagues at the clinic */}
+                                      <div style={{ maxHeight: '200px', overflowY: 'auto' }}>
+                                        {libraryExercises
+                                          .filter(exercise =>
+                                            `${exercise.title} ${exercise.category || ''}`
+                                              .toLowerCase()
+                                              .includes(librarySearch.toLowerCase())
+                                          )
+                                          .map(exercise => (
+                                            <div
+                                              key={exercise.exercise_id}
+                                              onClick={() => handlePickExercise(exercise)}
+                                              className="d-flex align-items-center gap-2 p-2 rounded-2 mb-1"
+                                              style={{
+                                                cursor: 'pointer',
+                                                backgroundColor: selectedExerciseId === exercise.exercise_id ? '#fff' : '#f5f3ff',
+                                                border: selectedExerciseId === exercise.exercise_id
+                                                  ? '2px solid #5B4FCF' : '2px solid transparent'
+                                              }}
+                                            >
+                                              <span style={{ fontSize: '13px', flex: 1, textAlign: 'left' }}>{exercise.title}</span>
+                                              {exercise.category && (
+                                                <span style={{ fontSize: '11px', color: '#5B4FCF' }}>{exercise.category}</span>
+                                              )}
+                                              <span style={{ fontSize: '11px', color: '#6c757d' }}>{exercise.difficulty_level}</span>
+                                              {/* Whose it is, for exercises shared by a colleague */}
+                                              {exercise.created_by !== therapistId && (
+                                                <span style={{ fontSize: '11px', color: '#6c757d' }}>
+                                                  <i className="bi bi-people me-1"></i>{exercise.creator?.first_name} {exercise.creator?.last_name}
+                                                </span>
+                                              )}
+                                            </div>
+                                          ))}
+                                        {libraryExercises.length === 0 && (
+                                          <p className="text-muted mb-0" style={{ fontSize: '13px' }}>
+                                            Your library is empty. Write a new exercise instead.
+                                          </p>
+                                        )}
+                                      </div>
+                                      <button
+                                        type="button"
+                                        className="btn btn-link btn-sm p-0 mt-1"
+                                        onClick={() => navigate('/therapist/exercises')}
                                       >
-                                        <option value="daily">Daily</option>
-                                        <option value="twice daily">Twice Daily</option>
-                                        <option value="weekly">Weekly</option>
-                                      </select>
+                                        Manage exercise library
+                                      </button>
                                     </div>
-                                  </div>
+                                  ) : (
+                                    <>
+                                      {/* Exercise Title input */}
+                                      <div className="mb-2">
+                                        <label className="form-label fw-semibold" style={{ fontSize: '13px' }}>
+                                          Exercise Title <span className="text-danger">*</span>
+                                        </label>
+                                        <input
+                                          type="text"
+                                          className="form-control form-control-sm"
+                                          placeholder="e.g. Daily breathing exercises"
+                                          value={exerciseTitle}
+                                          onChange={e => setExerciseTitle(e.target.value)}
+                                          required
+                                        />
+                                      </div>
+
+                                      {/* Exercise Description input */}
+                                      <div className="mb-2">
+                                        <label className="form-label fw-semibold" style={{ fontSize: '13px' }}>
+                                          Description
+                                        </label>
+                                        <textarea
+                                          className="form-control form-control-sm"
+                                          rows={2}
+                                          placeholder="Describe the exercise..."
+                                          value={exerciseDescription}
+                                          onChange={e => setExerciseDescription(e.target.value)}
+                                        />
+                                      </div>
+
+                                      <div className="row">
+                                        {/* Difficulty dropdown — defaults to beginner */}
+                                        <div className="col-6 mb-2">
+                                          <label className="form-label fw-semibold" style={{ fontSize: '13px' }}>
+                                            Difficulty
+                                          </label>
+                                          <select
+                                            className="form-select form-select-sm"
+                                            value={exerciseDifficulty}
+                                            onChange={e => setExerciseDifficulty(e.target.value)}
+                                          >
+                                            <option value="beginner">Beginner</option>
+                                            <option value="intermediate">Intermediate</option>
+                                            <option value="advanced">Advanced</option>
+                                          </select>
+                                        </div>
+
+                                        {/* Category dropdown — how the exercise is filed in the library */}
+                                        <div className="col-6 mb-2">
+                                          <label className="form-label fw-semibold" style={{ fontSize: '13px' }}>
+                                            Category
+                                          </label>
+                                          <select
+                                            className="form-select form-select-sm"
+                                            value={exerciseCategory}
+                                            onChange={e => setExerciseCategory(e.target.value)}
+                                          >
+                                            {EXERCISE_CATEGORIES.map(category => (
+                                              <option key={category} value={category}>
+                                                {category[0].toUpperCase() + category.slice(1)}
+                                              </option>
+                                            ))}
+                                          </select>
+                                        </div>
+                                      </div>
+
+                                      {/* Recommended frequency — saved with the exercise, and the schedule it starts from */}
+                                      <div className="mb-2">
+                                        <label className="form-label fw-semibold" style={{ fontSize: '13px' }}>
+                                          Recommended Frequency
+                                        </label>
+                                        <select
+                                          className="form-select form-select-sm"
+                                          value={exerciseFrequency}
+                                          onChange={e => {
+                                            setExerciseFrequency(e.target.value);
+                                            setScheduleRule(ruleForFrequency(e.target.value));
+                                          }}
+                                        >
+                                          {EXERCISE_FREQUENCIES.map(frequency => (
+                                            <option key={frequency} value={frequency}>
+                                              {frequency[0].toUpperCase() + frequency.slice(1)}
+                                            </option>
+                                          ))}
+                                        </select>
+                                      </div>
+                                    </>
+                                  )}
+
+                                  {/* Schedule — which days and times of day each practice falls on */}
+                                  <ScheduleRuleFields
+                                    value={scheduleRule}
+                                    practiceCount={scheduleRuleError(scheduleRule)
+                                      ? 0
+                                      : buildSchedule(scheduleRule, scheduleStartDate(goal.start_date), goal.target_date).length}
+                                    onChange={setScheduleRule}
+                                  />
 
                                   {/* Form action buttons */}
                                   <div className="d-flex gap-2 mt-2">
@@ -967,6 +1351,37 @@ const GoalsExercises: React.FC = () => {
         </main>
       </div>
 
+      {/* Edit Goal modal — previews what a new target date does to the exercise schedules */}
+      {editingGoal && (
+        <EditGoalModal
+          goal={editingGoal}
+          onClose={() => setEditingGoal(null)}
+          onSaved={() => {
+            setEditingGoal(null);
+            setSuccessMsg('Goal updated!');
+            setTimeout(() => setSuccessMsg(null), 3000);
+          }}
+        />
+      )}
+
+      {/* Goal Status modal — the goals refresh once a status or measurement is saved */}
+      {statusGoal && (
+        <GoalStatusModal
+          goal={statusGoal}
+          therapistId={therapistId}
+          onClose={() => setStatusGoal(null)}
+        />
+      )}
+
+      {/* Goal Templates modal — reloads the form's template list when templates change */}
+      {showTemplates && (
+        <GoalTemplatesModal
+          therapistId={therapistId}
+          onClose={() => setShowTemplates(false)}
+          onChanged={() => setTemplatesVersion(v => v + 1)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="footer">
         <div className="footer-content">
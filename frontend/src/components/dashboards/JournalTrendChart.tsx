@@ -0,0 +1,93 @@
+import React from 'react';
+import { JournalTrendPoint, MAX_CONFIDENCE, MAX_MOOD } from '../../services/supabaseJournalService';
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 40 };
+
+// Each line is drawn against its own scale, so mood (1–5) and confidence (1–10) share the chart
+const SERIES: { key: 'mood' | 'confidence'; label: string; max: number; color: string }[] = [
+  { key: 'mood', label: `Mood (1–${MAX_MOOD})`, max: MAX_MOOD, color: '#6366f1' },
+  { key: 'confidence', label: `Speaking confidence (1–${MAX_CONFIDENCE})`, max: MAX_CONFIDENCE, color: '#f97316' }
+];
+
+/**
+ * Line chart of the weekly mood and confidence averages from the journal
+ * Hovering a point shows the week's averages and how many entries they came from
+ */
+const JournalTrendChart: React.FC<{ trend: JournalTrendPoint[] }> = ({ trend }) => {
+  if (trend.length === 0) {
+    return <p className="text-muted" style={{ marginBottom: 0 }}>No entries to chart yet.</p>;
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  // A single week sits in the middle rather than on the axis
+  const x = (index: number) =>
+    PADDING.left + (trend.length === 1 ? plotWidth / 2 : (index / (trend.length - 1)) * plotWidth);
+  const y = (value: number, max: number) =>
+    PADDING.top + plotHeight - ((value - 1) / (max - 1)) * plotHeight;
+
+  const weekLabel = (weekStart: string) =>
+    new Date(`${weekStart}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+  // Label at most about six weeks so they don't overlap
+  const labelEvery = Math.ceil(trend.length / 6);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: '100%', height: 'auto' }} role="img" aria-label="Weekly mood and confidence">
+        {/* Low and high guide lines */}
+        {[0, 0.5, 1].map(fraction => (
+          <line
+            key={fraction}
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={PADDING.top + plotHeight * fraction}
+            y2={PADDING.top + plotHeight * fraction}
+            stroke="#e9ecef"
+          />
+        ))}
+        <text x={PADDING.left - 8} y={PADDING.top + 4} textAnchor="end" fontSize="11" fill="#6c757d">High</text>
+        <text x={PADDING.left - 8} y={PADDING.top + plotHeight + 4} textAnchor="end" fontSize="11" fill="#6c757d">Low</text>
+
+        {trend.map((point, index) => index % labelEvery === 0 && (
+          <text key={point.week_start} x={x(index)} y={HEIGHT - 10} textAnchor="middle" fontSize="11" fill="#6c757d">
+            {weekLabel(point.week_start)}
+          </text>
+        ))}
+
+        {SERIES.map(series => (
+          <g key={series.key}>
+            <polyline
+              fill="none"
+              stroke={series.color}
+              strokeWidth="2"
+              points={trend.map((point, index) => `${x(index)},${y(point[series.key], series.max)}`).join(' ')}
+            />
+            {trend.map((point, index) => (
+              <circle key={point.week_start} cx={x(index)} cy={y(point[series.key], series.max)} r="4" fill={series.color}>
+                <title>
+                  {`Week of ${weekLabel(point.week_start)}: ${series.label.split(' (')[0]} ${point[series.key]} (${point.entries} ${point.entries === 1 ? 'entry' : 'entries'})`}
+                </title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {/* Legend */}
+      <div style={{ display: 'flex', gap: '20px', justifyContent: 'center', fontSize: '13px', color: '#6c757d' }}>
+        {SERIES.map(series => (
+          <span key={series.key}>
+            <span style={{ display: 'inline-block', width: '12px', height: '12px', borderRadius: '50%', backgroundColor: series.color, marginRight: '6px', verticalAlign: 'middle' }}></span>
+            {series.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default JournalTrendChart;
@@ -7,6 +7,10 @@ import {
   PatientProfile
 } from '../../services/supabasePatientService';
 import { Session, Therapist } from '../../services/supabaseTherapistService';
+import CarerInvitations from './CarerInvitations';
+import TherapistLinkRequests from './TherapistLinkRequests';
+import CalendarSyncModal from './CalendarSyncModal';
+import { useAuth } from '../../context/AuthContext';
 import './TherapistDashboard.css';
 
 /**
@@ -24,25 +28,15 @@ const PatientDashboard: React.FC = () => {
   // Session filter dropdown state
   const [sessionFilter, setSessionFilter] = useState('all');
 
-  const userDataString = localStorage.getItem('userData');
-  const userData = userDataString ? JSON.parse(userDataString) : null;
+  // Download / subscribe modal for getting sessions into the patient's own calendar
+  const [showCalendarSync, setShowCalendarSync] = useState(false);
+
+  // The logged-in patient - RequireRole only renders this page for patients
+  const { user, logout } = useAuth();
 
   useEffect(() => {
-    if (!userData) {
-      navigate('/login', { replace: true });
-      return;
-    }
-    const role = (userData.role || '').trim().toLowerCase();
-    if (role !== 'patient') {
-      if (role === 'therapist') {
-        navigate('/therapist-dashboard', { replace: true });
-      } else {
-        navigate('/login', { replace: true });
-      }
-      return;
-    }
     loadDashboardData();
-  }, [navigate]);
+  }, []);
 
   /**
    * Fetches all necessary dashboard data from Supabase services
@@ -53,8 +47,7 @@ const PatientDashboard: React.FC = () => {
       setLoading(true);
       setError(null);
 
-      // Normalise userId from different possible userData structures  
-      const userId = userData.user_id || userData.id;
+      const userId = user!.user_id;
 
       // Fetching the profile 
       const profileData = await getPatientProfile(userId);
@@ -84,10 +77,10 @@ const PatientDashboard: React.FC = () => {
   };
 
   /**
-   * Clears local session and redirects to login
+   * Signs out of Supabase and redirects to login
    */
-  const handleLogout = () => {
-    localStorage.removeItem('userData');
+  const handleLogout = async () => {
+    await logout();
     navigate('/login', { replace: true });
   };
 
@@ -297,6 +290,12 @@ const PatientDashboard: React.FC = () => {
             </div>
           )}
 
+          {/* Therapists asking to take the patient on - accepting one adds them to the therapist list */}
+          {profile && <TherapistLinkRequests patientId={profile.user_id} onAccepted={loadDashboardData} />}
+
+          {/* Parent/carer link requests waiting for the patient's answer - hidden when there are none */}
+          {profile && <CarerInvitations userId={profile.user_id} role="patient" />}
+
           {/* Session Notes header with filter dropdown */}
           <div style={{
             display: 'flex',
@@ -306,25 +305,37 @@ const PatientDashboard: React.FC = () => {
           }}>
             <h2 style={{ margin: 0 }}> Your Sessions </h2>
 
-            {/* Filter dropdown - filters sessions by All, This Week, Past or Upcoming */}
-            <select
-              value={sessionFilter}
-              onChange={e => setSessionFilter(e.target.value)}
-              style={{
-                padding: '8px 12px',
-                borderRadius: '8px',
-                border: '1px solid #dee2e6',
-                fontSize: '14px',
-                color: '#1a1a2e',
-                cursor: 'pointer',
-                backgroundColor: '#fff'
-              }}
-            >
-              <option value="all">All Sessions</option>
-              <option value="this_week">This Week</option>
-              <option value="past">Past Appointments</option>
-              <option value="upcoming">Upcoming</option>
-            </select>
+            <div className="d-flex align-items-center gap-2">
+              {/* Calendar button - download an .ics file or get a feed link */}
+              <button
+                type="button"
+                className="btn btn-outline-primary btn-sm"
+                onClick={() => setShowCalendarSync(true)}
+              >
+                <i className="bi bi-calendar-plus me-2"></i>
+                Add to Calendar
+              </button>
+
+              {/* Filter dropdown - filters sessions by All, This Week, Past or Upcoming */}
+              <select
+                value={sessionFilter}
+                onChange={e => setSessionFilter(e.target.value)}
+                style={{
+                  padding: '8px 12px',
+                  borderRadius: '8px',
+                  border: '1px solid #dee2e6',
+                  fontSize: '14px',
+                  color: '#1a1a2e',
+                  cursor: 'pointer',
+                  backgroundColor: '#fff'
+                }}
+              >
+                <option value="all">All Sessions</option>
+                <option value="this_week">This Week</option>
+                <option value="past">Past Appointments</option>
+                <option value="upcoming">Upcoming</option>
+              </select>
+            </div>
           </div>
 
           <p style={{ color: '#6c757d', marginBottom: '32px', textAlign: 'left' }}>
@@ -422,6 +433,10 @@ const PatientDashboard: React.FC = () => {
           )}
         </div>
       </div>
+
+      {showCalendarSync && (
+        <CalendarSyncModal userId={user!.user_id} onClose={() => setShowCalendarSync(false)} />
+      )}
     </div>
   );
 };
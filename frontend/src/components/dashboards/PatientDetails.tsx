@@ -1,7 +1,30 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation, useParams } from 'react-router-dom';
-import { getPatientGoals } from '../../services/supabaseTherapistService';
-import { supabase } from '../../services/supabaseClient';
+import type { Goal, GoalExercise, Session } from '../../services/supabaseTherapistService';
+import { usePatientGoals } from '../../hooks/queries';
+import { GoalStatus, GOAL_STATUS_LABELS, isGoalOverdue } from '../../services/goalLifecycle';
+import { buildGoalTree, GoalNode } from '../../services/goalHierarchy';
+import {
+  getPatientNotes,
+  getSessionsAwaitingNotes,
+  signSessionNote,
+  addNoteAddendum,
+  NOTE_SECTIONS,
+  SessionNote
+} from '../../services/supabaseSessionNoteService';
+import SessionNoteModal from './SessionNoteModal';
+import {
+  getJournalEntries,
+  buildJournalTrend,
+  JournalEntry,
+  MOOD_LABELS,
+  MAX_CONFIDENCE
+} from '../../services/supabaseJournalService';
+import JournalTrendChart from './JournalTrendChart';
+import { getPatientRecordings, buildFluencyTrends, ExerciseRecording } from '../../services/supabaseRecordingService';
+import RecordingReview from './RecordingReview';
+import FluencyTrendChart from './FluencyTrendChart';
+import { useAuth } from '../../context/AuthContext';
 import './PatientDetails.css';
 
 /**
@@ -15,16 +38,19 @@ interface PatientInfo {
   user_id: string;
 }
 
+// Shown until the goals have loaded, and kept the same between renders
+const NO_GOALS: Goal[] = [];
+const NO_ROWS: Record<string, GoalExercise[]> = {};
+
 /**
- * Represents the logged-in therapist's session data
+ * One entry in the clinical timeline: a goal being set or a session's notes
  */
-interface User {
-  firstName: string;
-  lastName: string;
-}
+type TimelineEntry =
+  | { kind: 'goal'; date: string; goal: any }
+  | { kind: 'note'; date: string; note: SessionNote };
 
 /**
- * Shows a specific patient's goals, progress bars, and assigned exercises
+ * Shows a specific patient's goals, progress bars, assigned exercises and clinical notes
  * Therapists navigate here from the session table or the patients list
  */
 const PatientDetails: React.FC = () => {
@@ -32,78 +58,131 @@ const PatientDetails: React.FC = () => {
   const location = useLocation();
   const { patientId } = useParams();
 
-  const [user, setUser] = useState<User | null>(null);
+  // The logged-in therapist - RequireRole only renders this page for therapists
+  const { user, logout } = useAuth();
   const [patientInfo, setPatientInfo] = useState<PatientInfo | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [goals, setGoals] = useState<any[]>([]);
   // Tracks which filter tab the therapist has selected — defaults to showing all goals
   const [goalFilter, setGoalFilter] = useState<'all' | 'in-progress' | 'completed'>('all');
-
-  // Stores goal_id → array of goal_exercise_set rows
-  const [goalExerciseRows, setGoalExerciseRows] = useState<Record<string, any[]>>({});
+  // Long-term goals whose objectives are shown
+  const [expandedGoals, setExpandedGoals] = useState<string[]>([]);
+
+  // Session notes, and this therapist's sessions with the patient that don't have one yet
+  const [notes, setNotes] = useState<SessionNote[]>([]);
+  const [sessionsAwaitingNotes, setSessionsAwaitingNotes] = useState<Session[]>([]);
+  // The note modal is open when this is set; note is the draft being edited, or undefined for a new note
+  const [noteModal, setNoteModal] = useState<{ note?: SessionNote } | null>(null);
+  // The signed note an addendum is being written for (by session ID)
+  const [addendumFor, setAddendumFor] = useState<string | null>(null);
+  const [addendumText, setAddendumText] = useState('');
+  const [noteError, setNoteError] = useState<string | null>(null);
+  // Bumped to reload the notes after one is saved, signed or added to
+  const [notesVersion, setNotesVersion] = useState(0);
+
+  // Journal entries the patient has shared with their therapists
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
+
+  // The patient's exercise recordings, newest first
+  const [recordings, setRecordings] = useState<ExerciseRecording[]>([]);
+  // Bumped to reload the recordings after one is commented on or reviewed
+  const [recordingsVersion, setRecordingsVersion] = useState(0);
 
   const sessionData = location.state?.session;
+  const currentPatientId: string | undefined = sessionData?.patient?.user_id || patientId;
+
+  // All goals and their exercise rows, read through the shared cache; edits made elsewhere refresh them there
+  const goalsQuery = usePatientGoals(currentPatientId);
+  const goals = goalsQuery.data?.goals ?? NO_GOALS;
+  // Stores goal_id → array of goal_exercise_set rows
+  const goalExerciseRows = goalsQuery.data?.rowsByGoal ?? NO_ROWS;
+  const loading = goalsQuery.loading;
 
   useEffect(() => {
-    const userStr = localStorage.getItem('userData');
-    if (userStr) {
-      const userData = JSON.parse(userStr);
-      setUser(userData);
-      const userRole = userData?.user_role || userData?.role || userData?.userRole;
-      if (userRole !== 'therapist') {
-        navigate('/patient-dashboard');
-        return;
-      }
-    } else {
-      navigate('/login');
-      return;
+    // Use the patient details already present in the session object, when coming from the session table
+    if (sessionData && sessionData.patient) {
+      setPatientInfo(sessionData.patient);
     }
+  }, [sessionData]);
 
-    // check if session context already includes the nested patient object 
-    if (sessionData && sessionData.patient) {
+  /**
+   * Effect: loads the patient's session notes, and this therapist's sessions still waiting for one
+   * Runs again whenever notesVersion is bumped after a note changes
+   */
+  useEffect(() => {
+    if (!currentPatientId) return;
+
+    Promise.all([
+      getPatientNotes(currentPatientId),
+      getSessionsAwaitingNotes(currentPatientId, user!.user_id)
+    ])
+      .then(([notesData, awaiting]) => {
+        setNotes(notesData);
+        setSessionsAwaitingNotes(awaiting);
+      })
+      .catch(err => console.error('Error loading session notes:', err));
+  }, [currentPatientId, user, notesVersion]);
 
-      // Update the UI state with the patient details already present in the session object 
-      setPatientInfo(sessionData.patient);
+  /**
+   * Effect: loads the journal entries the patient chose to share; private ones never reach the therapist
+   */
+  useEffect(() => {
+    if (!currentPatientId) return;
 
-      // Loads the patient's data from the database using patient's ID 
-      loadPatientData(sessionData.patient.user_id);
+    getJournalEntries(currentPatientId, true)
+      .then(setJournalEntries)
+      .catch(err => console.error('Error loading journal entries:', err));
+  }, [currentPatientId]);
 
-      // If no session data is found, load the patient info using their ID instead 
-    } else if (patientId) {
-      loadPatientData(patientId);
-    }
+  /**
+   * Effect: loads the patient's exercise recordings with their comments
+   */
+  useEffect(() => {
+    if (!currentPatientId) return;
+
+    getPatientRecordings(currentPatientId)
+      .then(setRecordings)
+      .catch(err => console.error('Error loading recordings:', err));
+  }, [currentPatientId, recordingsVersion]);
 
-    setLoading(false);
-  }, [navigate, sessionData, patientId]);
+  /**
+   * Signs a draft note; it can't be edited afterwards
+   */
+  const handleSignNote = async (note: SessionNote) => {
+    try {
+      setNoteError(null);
+      await signSessionNote(note.session_id, user!.user_id);
+      setNotesVersion(v => v + 1);
+    } catch (err: any) {
+      setNoteError(err.message || 'Failed to sign the note');
+    }
+  };
 
   /**
-   * Fetches all goals and their associated exercises for a specific patient
+   * Adds the addendum being written to its signed note
    */
-  const loadPatientData = async (patientUserId: string) => {
+  const handleAddAddendum = async (note: SessionNote) => {
     try {
-      // Retrieve the main list of goals for the patient 
-      const goalsData = await getPatientGoals(patientUserId);
-      setGoals(goalsData);
-
-      // Prepare a map to store exercises, using goal IDs as keys
-      const rowsMap: Record<string, any[]> = {};
-
-      // Loop through each goal to fetch its specific exercises 
-      for (const goal of goalsData) {
-        const { data } = await supabase
-          .from('goal_exercise_set')
-          .select('*, exercise:exercise_id(*)') // Join with the exercise table to get full details
-          .eq('goal_id', goal.goal_id);
-        rowsMap[goal.goal_id] = data || [];
-      }
-      // Save the exercises grouped by their Goal IDs
-      setGoalExerciseRows(rowsMap);
-    } catch (err) {
-      // Log any database or network errors 
-      console.error('Error loading patient data:', err);
+      setNoteError(null);
+      await addNoteAddendum(note.session_id, user!.user_id, addendumText);
+      setAddendumFor(null);
+      setAddendumText('');
+      setNotesVersion(v => v + 1);
+    } catch (err: any) {
+      setNoteError(err.message || 'Failed to add the addendum');
     }
   };
 
+  /**
+   * Goals and session notes in one list, in the order they happened
+   * Goals are placed at their start date and notes at their session's date
+   */
+  const getTimeline = (): TimelineEntry[] => {
+    const entries: TimelineEntry[] = [
+      ...goals.map(goal => ({ kind: 'goal' as const, date: goal.start_date, goal })),
+      ...notes.map(note => ({ kind: 'note' as const, date: note.session!.session_date, note }))
+    ];
+    return entries.sort((a, b) => a.date.localeCompare(b.date));
+  };
+
   /**
    * Gets unique exercises across all goals with their completion status.
    * Builds a map of exercises, counting total and completed rows for each one
@@ -159,24 +238,18 @@ const PatientDetails: React.FC = () => {
   };
 
   /**
-   * Calculates a goal's completion percentage 
-   * Each completed task adds 1% to the total, up to a maximum of 100%
+   * Shows or hides a long-term goal's objectives
    */
-  const getGoalProgress = (goalId: string): number => {
-    const rows = goalExerciseRows[goalId] || [];
-    const totalRows = rows.length;
-    if (totalRows === 0) return 0;
-    const completedRows = rows.filter((r: any) => r.completed).length;
-    return Math.round((completedRows / totalRows) * 100);
+  const toggleGoal = (goalId: string) => {
+    setExpandedGoals(prev => prev.includes(goalId) ? prev.filter(id => id !== goalId) : [...prev, goalId]);
   };
 
   /**
-   * Clears session tokens and redirects to login
+   * Signs out of Supabase and redirects to login
    */
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('userData');
-    navigate('/login');
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login', { replace: true });
   };
 
   /**
@@ -258,6 +331,14 @@ const PatientDetails: React.FC = () => {
             </svg>
             <span>Goals & Exercises</span>
           </div>
+          {/* Exercise Library — navigates to the exercise library page */}
+          <div className="sidebar-item" onClick={() => navigate('/therapist/exercises')} style={{ cursor: 'pointer' }}>
+            <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/>
+              <path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/>
+            </svg>
+            <span>Exercise Library</span>
+          </div>
 
           {/* Resources — navigates to the resources page */}
           <div className="sidebar-item">
@@ -341,9 +422,11 @@ const PatientDetails: React.FC = () => {
             {goals.length === 0 ? (
               <p style={{ color: '#6c757d', padding: '16px 0' }}>No goals set yet.</p>
             ) : (() => {
+              // Objectives nested under their long-term goals, whose progress rolls up from them
+              const goalTree = buildGoalTree<Goal>(goals, Object.values(goalExerciseRows).flat());
               // Filter goals based on the selected tab
-              const filteredGoals = goals.filter(goal => {
-                const p = getGoalProgress(goal.goal_id);
+              const filteredGoals = goalTree.filter(goal => {
+                const p = goal.progress.percent;
                 if (goalFilter === 'completed') return p === 100;   // Case 1: only fully done goals
                 if (goalFilter === 'in-progress') return p < 100;   // Case 2: only goals still in progress
                 return true;                                         // Case 3: show everything
@@ -355,60 +438,108 @@ const PatientDetails: React.FC = () => {
                   No {goalFilter === 'completed' ? 'completed' : 'in-progress'} goals yet.
                 </p>
               );
-              return (
-              <div className="goals-list">
-                {filteredGoals.map((goal, index) => {
-                  const progress = getGoalProgress(goal.goal_id);
-                  // Flag used to switch the card to green styling and show the completed badge when goal is fully completed
-                  const goalComplete = progress === 100;
-                  return (
-                    <div
-                      key={goal.goal_id}
-                      className="goal-item"
-                      style={{
-                        animationDelay: `${index * 0.1}s`,
-                        // Turn the card green when the goal is fully completed
-                        ...(goalComplete ? { backgroundColor: '#f0fdf4', borderColor: '#86efac' } : {})
-                      }}
-                    >
-                      <div className="goal-header">
-                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-                          {/* Goal description */}
-                          <h4 className="goal-title" style={{ margin: 0 }}>{goal.goal_description}</h4>
-                          {/* Completed badge — only shown when progress reaches 100% */}
-                          {goalComplete && (
-                            <span style={{
-                              fontSize: '11px', padding: '2px 10px', borderRadius: '20px',
-                              backgroundColor: '#22c55e', color: '#fff', fontWeight: '600', flexShrink: 0
-                            }}>
-                              ✓ Completed
-                            </span>
-                          )}
-                        </div>
-                        {/* Progress percentage — green when completed, purple when in progress */}
-                        <span className="goal-percentage" style={{ color: goalComplete ? '#22c55e' : undefined }}>
-                          {progress}%
-                        </span>
-                      </div>
-                      {/* Goal target date and priority */}
-                      <p className="goal-description">
-                        Target: {formatDate(goal.target_date)}
-                        &nbsp;·&nbsp;
-                        Priority: {goal.priority}
-                      </p>
-                       {/* Goal progress bar — fills based on completed rows divide by total rows */}
-                      <div className="progress-bar">
-                        <div
-                          className="progress-fill"
-                          style={{
-                            width: `${progress}%`,
-                            animationDelay: `${index * 0.1 + 0.2}s`
-                          }}
-                        />
+              // Weekly fluency measures from the analysed recordings, charted under each goal's progress bar
+              const fluencyTrends = buildFluencyTrends(recordings);
+
+              /**
+               * One goal's card; a long-term goal's objectives are listed inside it, collapsed until
+               * the chevron is clicked
+               */
+              const renderGoal = (goal: GoalNode<Goal>, index: number, isObjective: boolean): React.ReactNode => {
+                const progress = goal.progress.percent;
+                // Flag used to switch the card to green styling and show the completed badge when goal is fully completed
+                const goalComplete = progress === 100;
+                // Active, past its target date with practices still to do
+                const overdue = isGoalOverdue(goal, goal.progress, new Date().toISOString().split('T')[0]);
+                const expanded = expandedGoals.includes(goal.goal_id);
+                return (
+                  <div
+                    key={goal.goal_id}
+                    className="goal-item"
+                    style={{
+                      animationDelay: `${index * 0.1}s`,
+                      // Objectives sit inside their long-term goal's card, smaller and indented
+                      ...(isObjective ? { padding: '1rem', marginTop: '0.75rem', backgroundColor: '#fff' } : {}),
+                      // Turn the card green when the goal is fully completed
+                      ...(goalComplete ? { backgroundColor: '#f0fdf4', borderColor: '#86efac' } : {})
+                    }}
+                  >
+                    <div className="goal-header">
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        {/* Chevron — shows or hides the long-term goal's objectives */}
+                        {goal.objectives.length > 0 && (
+                          <button
+                            type="button"
+                            className="btn btn-sm btn-link p-0"
+                            onClick={() => toggleGoal(goal.goal_id)}
+                            title={expanded ? 'Hide objectives' : 'Show objectives'}
+                          >
+                            <i className={`bi bi-chevron-${expanded ? 'down' : 'right'}`}></i>
+                          </button>
+                        )}
+                        {/* Goal description */}
+                        <h4 className="goal-title" style={{ margin: 0, ...(isObjective ? { fontSize: '1rem' } : {}) }}>
+                          {goal.goal_description}
+                        </h4>
+                        {/* Completed badge — only shown when progress reaches 100% */}
+                        {goalComplete && (
+                          <span style={{
+                            fontSize: '11px', padding: '2px 10px', borderRadius: '20px',
+                            backgroundColor: '#22c55e', color: '#fff', fontWeight: '600', flexShrink: 0
+                          }}>
+                            ✓ Completed
+                          </span>
+                        )}
+                        {/* Overdue badge — the target date has passed with practices still to do */}
+                        {overdue && (
+                          <span style={{
+                            fontSize: '11px', padding: '2px 10px', borderRadius: '20px',
+                            backgroundColor: '#ef4444', color: '#fff', fontWeight: '600', flexShrink: 0
+                          }}>
+                            Overdue
+                          </span>
+                        )}
                       </div>
+                      {/* Progress percentage — green when completed, purple when in progress */}
+                      <span className="goal-percentage" style={{ color: goalComplete ? '#22c55e' : undefined }}>
+                        {progress}%
+                      </span>
+                    </div>
+                    {/* Goal target date and priority; objectives show their weight instead */}
+                    <p className="goal-description">
+                      Target: {formatDate(goal.target_date)}
+                      &nbsp;·&nbsp;
+                      {isObjective ? `Weight: ${goal.weight}` : `Priority: ${goal.priority}`}
+                      &nbsp;·&nbsp;
+                      Status: {GOAL_STATUS_LABELS[goal.status as GoalStatus] || goal.status}
+                      {goal.objectives.length > 0 && (
+                        <>
+                          &nbsp;·&nbsp;
+                          {goal.progress.completed} of {goal.progress.total} objectives done
+                        </>
+                      )}
+                    </p>
+                     {/* Goal progress bar — fills based on completed rows, or the objectives' weighted progress */}
+                    <div className="progress-bar">
+                      <div
+                        className="progress-fill"
+                        style={{
+                          width: `${progress}%`,
+                          animationDelay: `${index * 0.1 + 0.2}s`
+                        }}
+                      />
                     </div>
-                  );
-                })}
+                    {fluencyTrends
+                      .filter(trend => trend.goal_id === goal.goal_id)
+                      .map(trend => <FluencyTrendChart key={trend.exercise_id} trend={trend} />)}
+                    {expanded && goal.objectives.map((objective, objectiveIndex) => renderGoal(objective, objectiveIndex, true))}
+                  </div>
+                );
+              };
+
+              return (
+              <div className="goals-list">
+                {filteredGoals.map((goal, index) => renderGoal(goal, index, false))}
               </div>
               );
             })()}
@@ -502,9 +633,225 @@ const PatientDetails: React.FC = () => {
             })()}
           </div>
 
+          {/* Clinical Timeline Section — goals and session notes in the order they happened */}
+          <div className="section-card">
+            <div className="section-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '8px' }}>
+              <h3 className="section-title">Clinical Timeline</h3>
+              {/* New notes can only be written for sessions that have taken place and have none yet */}
+              <button
+                className="btn btn-sm btn-primary"
+                onClick={() => setNoteModal({})}
+                disabled={sessionsAwaitingNotes.length === 0}
+                title={sessionsAwaitingNotes.length === 0 ? 'Every past session already has notes' : undefined}
+              >
+                <i className="bi bi-journal-plus me-2"></i>
+                Write Note
+              </button>
+            </div>
+
+            {noteError && (
+              <div className="alert alert-danger alert-dismissible fade show">
+                {noteError}
+                <button type="button" className="btn-close" onClick={() => setNoteError(null)}></button>
+              </div>
+            )}
+
+            {/* Empty state — shown when there are no goals or notes yet */}
+            {getTimeline().length === 0 ? (
+              <p style={{ color: '#6c757d', padding: '16px 0' }}>No goals or session notes yet.</p>
+            ) : (
+              <div className="timeline">
+                {getTimeline().map(entry => entry.kind === 'goal' ? (
+                  // Goal entry — when the goal was set
+                  <div key={`goal-${entry.goal.goal_id}`} className="timeline-item goal">
+                    <div className="timeline-date">{formatDate(entry.date)}</div>
+                    <div className="timeline-body">
+                      <p className="timeline-heading">
+                        <i className="bi bi-flag me-2"></i>
+                        Goal set: {entry.goal.goal_description}
+                      </p>
+                      <p className="timeline-meta">Target {formatDate(entry.goal.target_date)} · Priority: {entry.goal.priority}</p>
+                    </div>
+                  </div>
+                ) : (
+                  // Note entry — the SOAP sections, tags and any addenda
+                  <div key={`note-${entry.note.note_id}`} className="timeline-item note">
+                    <div className="timeline-date">{formatDate(entry.date)}</div>
+                    <div className="timeline-body">
+                      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+                        <p className="timeline-heading">
+                          <i className="bi bi-journal-text me-2"></i>
+                          {entry.note.session?.session_type} notes
+                        </p>
+                        <span className={`note-status ${entry.note.status}`}>
+                          {entry.note.status === 'signed' ? 'Signed' : 'Draft'}
+                        </span>
+                      </div>
+                      <p className="timeline-meta">
+                        {entry.note.author?.first_name} {entry.note.author?.last_name}
+                        {entry.note.signed_at && ` · signed ${new Date(entry.note.signed_at).toLocaleDateString('en-GB')}`}
+                      </p>
+
+                      {/* Only the sections that were filled in */}
+                      {NOTE_SECTIONS.filter(section => entry.note[section.key]).map(section => (
+                        <p key={section.key} className="note-section">
+                          <strong>{section.label.charAt(0)}:</strong> {entry.note[section.key]}
+                        </p>
+                      ))}
+
+                      {entry.note.tags.length > 0 && (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '8px' }}>
+                          {entry.note.tags.map(tag => (
+                            <span key={tag} className="badge bg-light text-dark border">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Addenda — later additions to the signed note, oldest first */}
+                      {entry.note.addenda && entry.note.addenda.length > 0 && (
+                        <div className="note-addenda">
+                          {entry.note.addenda.map(addendum => (
+                            <p key={addendum.addendum_id} className="note-section">
+                              <strong>Addendum {new Date(addendum.created_at).toLocaleDateString('en-GB')}</strong>
+                              {' '}({addendum.author?.first_name} {addendum.author?.last_name}): {addendum.content}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Drafts can be edited and signed by their author; signed notes take addenda */}
+                      <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+                        {entry.note.status === 'draft' && entry.note.author_id === user?.user_id && (
+                          <>
+                            <button className="btn btn-sm btn-outline-secondary" onClick={() => setNoteModal({ note: entry.note })}>
+                              <i className="bi bi-pencil me-1"></i>
+                              Edit
+                            </button>
+                            <button className="btn btn-sm btn-outline-primary" onClick={() => handleSignNote(entry.note)}>
+                              <i className="bi bi-pen me-1"></i>
+                              Sign
+                            </button>
+                          </>
+                        )}
+                        {entry.note.status === 'signed' && addendumFor !== entry.note.session_id && (
+                          <button
+                            className="btn btn-sm btn-outline-secondary"
+                            onClick={() => {
+                              setAddendumFor(entry.note.session_id);
+                              setAddendumText('');
+                            }}
+                          >
+                            <i className="bi bi-plus me-1"></i>
+                            Add Addendum
+                          </button>
+                        )}
+                      </div>
+
+                      {addendumFor === entry.note.session_id && (
+                        <div style={{ marginTop: '12px' }}>
+                          <textarea
+                            className="form-control"
+                            rows={2}
+                            value={addendumText}
+                            onChange={(e) => setAddendumText(e.target.value)}
+                            placeholder="What needs adding to this note?"
+                          />
+                          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                            <button className="btn btn-sm btn-secondary" onClick={() => setAddendumFor(null)}>
+                              Cancel
+                            </button>
+                            <button
+                              className="btn btn-sm btn-primary"
+                              onClick={() => handleAddAddendum(entry.note)}
+                              disabled={!addendumText.trim()}
+                            >
+                              Add Addendum
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Exercise Recordings Section — attempts the patient recorded, unreviewed ones first */}
+          <div className="section-card">
+            <div className="section-header">
+              <h3 className="section-title">Exercise Recordings</h3>
+            </div>
+
+            {recordings.length === 0 ? (
+              <p style={{ color: '#6c757d', padding: '16px 0' }}>No recordings yet.</p>
+            ) : (
+              <div className="timeline">
+                {[...recordings]
+                  .sort((a, b) => Number(!!a.reviewed_at) - Number(!!b.reviewed_at))
+                  .map(recording => (
+                    <div key={recording.recording_id} className="timeline-item">
+                      <div className="timeline-date">{new Date(recording.created_at).toLocaleDateString('en-GB')}</div>
+                      <RecordingReview
+                        recording={recording}
+                        reviewerId={user!.user_id}
+                        onChanged={() => setRecordingsVersion(v => v + 1)}
+                      />
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+
+          {/* Patient Journal Section — entries the patient shared, with weekly mood and confidence */}
+          <div className="section-card">
+            <div className="section-header">
+              <h3 className="section-title">Patient Journal</h3>
+            </div>
+
+            {/* Empty state — private entries are never shown here */}
+            {journalEntries.length === 0 ? (
+              <p style={{ color: '#6c757d', padding: '16px 0' }}>The patient hasn't shared any journal entries yet.</p>
+            ) : (
+              <>
+                <JournalTrendChart trend={buildJournalTrend(journalEntries)} />
+
+                <div className="timeline" style={{ marginTop: '1.5rem' }}>
+                  {journalEntries.map(entry => (
+                    <div key={entry.entry_id} className="timeline-item">
+                      <div className="timeline-date">{formatDate(entry.entry_date)}</div>
+                      <div className="timeline-body">
+                        <p className="timeline-heading">
+                          Mood: {MOOD_LABELS[entry.mood]} · Confidence: {entry.confidence}/{MAX_CONFIDENCE}
+                        </p>
+                        {(entry.goal || entry.exercise) && (
+                          <p className="timeline-meta">
+                            {[entry.goal?.goal_description, entry.exercise?.title].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                        {entry.content && <p className="note-section">{entry.content}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
         </main>
       </div>
 
+      {/* Session Note Modal — writing a new note or editing a draft */}
+      {noteModal && (
+        <SessionNoteModal
+          authorId={user!.user_id}
+          note={noteModal.note}
+          sessions={sessionsAwaitingNotes}
+          onClose={() => setNoteModal(null)}
+          onSaved={() => setNotesVersion(v => v + 1)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="footer">
         <div className="footer-content">
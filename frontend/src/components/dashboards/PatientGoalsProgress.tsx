@@ -2,12 +2,21 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   getPatientProfile,
-  getPatientActiveGoals,
   getPatientUpcomingSessions,
+  GoalExerciseRowChanges,
+  GoalsWithRows,
   PatientProfile
 } from '../../services/supabasePatientService';
 import { Goal, Session } from '../../services/supabaseTherapistService';
-import { supabase } from '../../services/supabaseClient';
+import { queryKeys, updateGoalExerciseRow } from '../../services/dataLayer';
+import { setQueryData } from '../../services/queryCache';
+import { usePatientGoals } from '../../hooks/queries';
+import { getPatientRecordings, ExerciseRecording } from '../../services/supabaseRecordingService';
+import RecordingButton from './RecordingButton';
+import ExercisePracticeModal from './ExercisePracticeModal';
+import { addDays, mondayOf } from '../../services/exerciseSchedule';
+import { buildGoalTree, GoalNode } from '../../services/goalHierarchy';
+import { useAuth } from '../../context/AuthContext';
 import '../../components/dashboards/TherapistDashboard.css';
 
 // Days of the week used for building the exercise table columns
@@ -32,12 +41,14 @@ const difficultyLabels: Record<number, string> = {
  * A small circular button that opens a 0–10 difficulty picker
  * Patients tap the circle to log how hard an exercise felt
  * Clicking the same value again will clear the rating
+ * When disabled the circle only shows the rating (carers can see but not change it)
  */
 const DifficultyDropdown: React.FC<{
   currentRating: number | null | undefined;
   onSelect: (val: number) => void;
   onClear: () => void;
-}> = ({ currentRating, onSelect, onClear }) => {
+  disabled?: boolean;
+}> = ({ currentRating, onSelect, onClear, disabled = false }) => {
   const [isOpen, setIsOpen] = React.useState(false);
 
   const handleSelect = (val: number) => {
@@ -48,14 +59,14 @@ const DifficultyDropdown: React.FC<{
   return (
     <div style={{ position: 'relative', display: 'inline-block' }}>
       <div
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={() => !disabled && setIsOpen(!isOpen)}
         style={{
           width: '36px', height: '36px', borderRadius: '50%',
           backgroundColor: currentRating !== null && currentRating !== undefined
             ? difficultyColors[currentRating] : '#e9ecef',
           color: currentRating !== null && currentRating !== undefined ? '#fff' : '#6c757d',
           display: 'flex', alignItems: 'center', justifyContent: 'center',
-          fontWeight: 'bold', fontSize: '13px', cursor: 'pointer',
+          fontWeight: 'bold', fontSize: '13px', cursor: disabled ? 'default' : 'pointer',
           border: '2px solid',
           borderColor: currentRating !== null && currentRating !== undefined
             ? difficultyColors[currentRating] : '#dee2e6',
@@ -123,21 +134,40 @@ const DifficultyDropdown: React.FC<{
   );
 };
 
+// Shown until the goals have loaded, and kept the same between renders
+const NO_GOALS: Goal[] = [];
+const NO_ROWS: Record<string, any[]> = {};
+
+interface PatientGoalsProgressProps {
+  // Set when a parent/carer views their child's goals inside the carer dashboard
+  // The page then skips its own sidebar and records ticks against the carer
+  patientId?: string;
+  carerId?: string;
+}
+
 /**
  * Patient-facing goals and exercises tracker
  * Shows active goals with progress bars, and a weekly exercise schedule
  * Patients can tick off exercises and rate their difficulty from here
  */
-const PatientGoalsProgress: React.FC = () => {
+const PatientGoalsProgress: React.FC<PatientGoalsProgressProps> = ({ patientId, carerId }) => {
   const navigate = useNavigate();
 
+  // The logged-in patient, or the carer when embedded in the carer dashboard
+  const { user, logout } = useAuth();
+  const patientUserId = patientId ?? user!.user_id;
+
   // Patient data
   const [profile, setProfile] = useState<PatientProfile | null>(null);
-  const [activeGoals, setActiveGoals] = useState<Goal[]>([]);
   const [sessions, setSessions] = useState<Session[]>([]);
+  // Active goals with all their exercise rows, read through the shared cache; a tick here or an edit
+  // by the therapist refreshes them there
+  const goalsQuery = usePatientGoals(patientUserId, true);
+  const activeGoals = goalsQuery.data?.goals ?? NO_GOALS;
 
   // UI state 
-  const [loading, setLoading] = useState(true);
+  const [profileLoading, setProfileLoading] = useState(true);
+  const loading = profileLoading || goalsQuery.loading;
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
@@ -146,125 +176,147 @@ const PatientGoalsProgress: React.FC = () => {
   const [goalFilter, setGoalFilter] = useState<'all' | 'in-progress' | 'completed'>('all');
 
   // Stores goal_id → all exercise rows with their completion and difficulty data
-  const [goalExerciseRows, setGoalExerciseRows] = useState<Record<string, any[]>>({});
+  const goalExerciseRows: Record<string, any[]> = goalsQuery.data?.rowsByGoal ?? NO_ROWS;
 
-  // Pull user data from local storage to get the patient ID
-  const userDataString = localStorage.getItem('userData');
-  const userData = userDataString ? JSON.parse(userDataString) : null;
+  // Long-term goals whose objectives are shown
+  const [expandedGoals, setExpandedGoals] = useState<string[]>([]);
+
+  // Stores row_id → the patient's recordings of that practice (not loaded for carers, who can't record)
+  const [recordingsByRow, setRecordingsByRow] = useState<Record<string, ExerciseRecording[]>>({});
+
+  // The exercise opened to read its instructions and practise its prompts, and the practice it counts towards
+  const [practice, setPractice] = useState<{ exerciseId: string; title: string; rowId: string } | null>(null);
 
   // Used to highlight today's column in the exercise table
   const todayName = new Date().toLocaleDateString('en-US', { weekday: 'long' });
+  const todayDate = new Date().toISOString().slice(0, 10);
 
+  // The carer dashboard has already checked the carer is linked to this patient
   useEffect(() => {
-    if (!userData) { navigate('/login'); return; }
-    const role = userData.user_role || userData.role;
-    if (role !== 'patient') { navigate('/login'); return; }
     loadGoalsData();
+    if (!carerId) loadRecordings();
   }, []);
 
+  // The goals come from the cache, which keeps their error; it is shown with the page's other errors
+  useEffect(() => {
+    if (goalsQuery.error) setError(goalsQuery.error.message || 'Failed to load goals data');
+  }, [goalsQuery.error]);
+
   /**
-   * Fetches the patient's profile, active goals, sessions, and all exercise rows on load
+   * Fetches the patient's profile and sessions on load, side by side
+   * The goals and their rows, which power the progress bars and weekly tables, load through usePatientGoals
    */
   const loadGoalsData = async () => {
     try {
-      setLoading(true);
+      setProfileLoading(true);
       setError(null);
 
-      const profileData = await getPatientProfile(userData.user_id);
+      const [profileData, sessionsData] = await Promise.all([
+        getPatientProfile(patientUserId),
+        getPatientUpcomingSessions(patientUserId)
+      ]);
       if (!profileData) { setError('Patient profile not found'); return; }
       setProfile(profileData);
-
-      const [goalsData, sessionsData] = await Promise.all([
-        getPatientActiveGoals(profileData.user_id),
-        getPatientUpcomingSessions(profileData.user_id)
-      ]);
-
-      setActiveGoals(goalsData);
       setSessions(sessionsData);
 
-      // Fetch every exercise row for every goal and store them grouped by goal_id
-      // This powers both the progress bars and the weekly schedule tables
-      const rowsMap: Record<string, any[]> = {};
-      for (const goal of goalsData) {
-        const { data } = await supabase
-          .from('goal_exercise_set')
-          .select('*, exercise:exercise_id(*)')
-          .eq('goal_id', goal.goal_id)
-          // Order by created_at first so exercises always appear in the order
-          // they were assigned — week and day ordering is applied after that
-          .order('created_at', { ascending: true })
-          .order('week_number', { ascending: true })
-          .order('day_of_week', { ascending: true });
-        rowsMap[goal.goal_id] = data || [];
-      }
-      setGoalExerciseRows(rowsMap);
-
     } catch (err: any) {
       console.error('Error loading goals:', err);
       setError(err.message || 'Failed to load goals data');
     } finally {
-      setLoading(false);
+      setProfileLoading(false);
     }
   };
 
   /**
-   * Re-fetches all exercise rows for every active goal after a checkbox
-   * toggle or difficulty save, so the UI reflects the latest DB state
+   * Shows a change to one exercise row straight away, before it is saved
+   * Returns a function that puts the row back as it was, for when saving fails
    */
-  const refreshRows = async () => {
-    const rowsMap: Record<string, any[]> = {};
-    for (const goal of activeGoals) {
-      const { data } = await supabase
-        .from('goal_exercise_set')
-        .select('*, exercise:exercise_id(*)')
-        .eq('goal_id', goal.goal_id)
-        // Same stable ordering as the initial load so exercises never swap places
-        .order('created_at', { ascending: true })
-        .order('week_number', { ascending: true })
-        .order('day_of_week', { ascending: true });
-      rowsMap[goal.goal_id] = data || [];
+  const changeRow = (rowId: string, changes: Record<string, any>): (() => void) => {
+    const row = Object.values(goalExerciseRows).flat().find(r => r.row_id === rowId);
+    const previous = Object.fromEntries(Object.keys(changes).map(key => [key, row?.[key]]));
+    const apply = (values: Record<string, any>) => setQueryData<GoalsWithRows>(queryKeys.patientGoals(patientUserId, true), data => ({
+      goals: data?.goals ?? [],
+      rowsByGoal: Object.fromEntries(Object.entries(data?.rowsByGoal ?? {}).map(([goalId, rows]) => [
+        goalId,
+        rows.map(r => (r.row_id === rowId ? { ...r, ...values } : r))
+      ]))
+    }));
+    apply(changes);
+    return () => apply(previous);
+  };
+
+  /**
+   * Re-fetches the patient's recordings and groups them by exercise row
+   */
+  const refreshRecordings = async (patientUserId: string) => {
+    const recordings = await getPatientRecordings(patientUserId);
+    const byRow: Record<string, ExerciseRecording[]> = {};
+    recordings.forEach(recording => {
+      byRow[recording.row_id] = [...(byRow[recording.row_id] || []), recording];
+    });
+    setRecordingsByRow(byRow);
+  };
+
+  /**
+   * Loads the patient's recordings on their own, so the goals still show if they can't be fetched
+   */
+  const loadRecordings = async () => {
+    try {
+      await refreshRecordings(patientUserId);
+    } catch (err: any) {
+      console.error('Error loading recordings:', err);
+      setError(err.message || 'Failed to load recordings');
+    }
+  };
+
+  /**
+   * Called once a recording has uploaded - shows the new count on the row's button
+   */
+  const handleRecordingUploaded = async () => {
+    try {
+      setSuccessMessage('Recording sent to your therapist!');
+      await refreshRecordings(profile!.user_id);
+      setTimeout(() => setSuccessMessage(null), 2000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load recordings');
     }
-    setGoalExerciseRows(rowsMap);
   };
 
   /**
    * Flips the completed status of a single exercise row and timestamps the change
+   * The tick and progress bar update straight away, and go back if the change can't be saved
    */
   const handleToggleDay = async (rowId: string, currentStatus: boolean) => {
+    const changes: GoalExerciseRowChanges = {
+      // Toggle the completed status - if true set to false, if false set to true
+      completed: !currentStatus,
+      // Timestamp the completion if ticking, clear the data if unticking
+      completion_date: !currentStatus ? new Date().toISOString() : null,
+      // Record who ticked it — the patient, or the carer ticking on their behalf
+      completed_by: !currentStatus ? (carerId ?? profile?.user_id) : null
+    };
+    const undo = changeRow(rowId, changes);
     try {
-      const { error } = await supabase
-        .from('goal_exercise_set')
-        .update({
-          // Toggle the completed status - if true set to false, if false set to true
-          completed: !currentStatus,
-          // Timestamp the completion if ticking, clear the data if unticking
-          completion_date: !currentStatus ? new Date().toISOString() : null
-        })
-        .eq('row_id', rowId); // Only update the specific row the patient clicked
-      if (error) throw error;
-      // Refresh all rows so the progress bar updates immediately 
-      await refreshRows();
+      await updateGoalExerciseRow(rowId, changes); // Only update the specific row the patient clicked
     } catch (err: any) {
+      undo();
       setError(err.message || 'Failed to update exercise');
     }
   };
 
   /**
    * Saves the patient's difficulty rating for a specific exercise row
+   * The rating circle updates straight away, and goes back if the rating can't be saved
    */
   const handleSaveDifficulty = async (rowId: string, rating: number) => {
+    const undo = changeRow(rowId, { difficulty_rating: rating }); // The selected 0-10 rating
     try {
-      const { error } = await supabase
-        .from('goal_exercise_set')
-        .update({ difficulty_rating: rating }) // Save the selected 0-10 rating
-        .eq('row_id', rowId); // Only update the specific row 
-      if (error) throw error;
+      await updateGoalExerciseRow(rowId, { difficulty_rating: rating }); // Only update the specific row
       setSuccessMessage('Difficulty saved!');
-      // Refresh rows so the updated rating circle appears immediately 
-      await refreshRows();
       // Clear the success message after 2 seconds 
       setTimeout(() => setSuccessMessage(null), 2000);
     } catch (err: any) {
+      undo();
       setError(err.message || 'Failed to save difficulty');
     }
   };
@@ -273,25 +325,21 @@ const PatientGoalsProgress: React.FC = () => {
    * Removes the difficulty rating from a row — resets the circle back to the default dash
    */
   const handleClearDifficulty = async (rowId: string) => {
+    const undo = changeRow(rowId, { difficulty_rating: null }); // null shows the default dash
     try {
-      const { error } = await supabase
-        .from('goal_exercise_set')
-        .update({ difficulty_rating: null }) // Set rating back to null to show the default dash
-        .eq('row_id', rowId); // Only update the specific row 
-      if (error) throw error;
-      // Refresh rows so the cleared rating circle appears immediately 
-      await refreshRows();
+      await updateGoalExerciseRow(rowId, { difficulty_rating: null }); // Only update the specific row
     } catch (err: any) {
+      undo();
       setError(err.message || 'Failed to clear difficulty');
     }
   };
 
   /**
-   * Clears session data and sends the patient back to login
+   * Signs out of Supabase and sends the patient back to login
    */
-  const handleLogout = () => {
-    localStorage.removeItem('userData');
-    navigate('/login');
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login', { replace: true });
   };
 
   /**
@@ -348,63 +396,73 @@ const PatientGoalsProgress: React.FC = () => {
   };
 
   /**
-   * Calculates an overall completion percentage for a goal
-   * Formula: completed checkboxes ÷ total checkboxes × 100
-   * Loops through every exercise linked to the goal and adds up all the rows
+   * Shows or hides a long-term goal's objectives
    */
-  const getGoalProgress = (goalId: string): number => {
-    const exercises = getExercisesForGoal(goalId);
-    let completedRows = 0;
-    let totalRows = 0;
-    exercises.forEach(({ rows }) => {
-      completedRows += rows.filter((r: any) => r.completed).length;
-      totalRows += rows.length;
-    });
-    if (totalRows === 0) return 0;
-    return Math.round((completedRows / totalRows) * 100); // e.g. 7 ÷ 14 × 100 = 50%
+  const toggleGoal = (goalId: string) => {
+    setExpandedGoals(prev => prev.includes(goalId) ? prev.filter(id => id !== goalId) : [...prev, goalId]);
   };
 
   /**
-   * Detects the schedule type of an exercise based on its row data
-   * Used to decide which column layout to render in the exercise table
+   * Picks the table layout for an exercise from how its practices are scheduled
+   * dated - a Mon-Sun grid per week, with a column per time of day when there are several
+   * weekly - practices done on whichever days suit the patient, in columns per week
+   * other - practices with no date or week, e.g. as needed
    */
-  const getFrequencyType = (rows: any[]): 'daily' | 'twice_daily' | 'weekly' | 'other' => {
-    // Extract all valid 'day of week labels from the rows 
-    const dayValues = rows.map(r => r.day_of_week).filter(Boolean);
-    // Check for specific 'Morning' or 'Afternoon' keywords 
-    if (dayValues.some((d: string) => d.includes('Morning') || d.includes('Afternoon'))) return 'twice_daily'; // Found AM/PM indicators 
-    // If we have days listed but no AM/PM, it's a standard daily schedule
-    if (dayValues.length > 0) return 'daily';
-    // Looks for week numbers if days labels are missing 
-    if (rows.some(r => r.week_number)) return 'weekly'; // Found 'Week 1', 'Week 2' etc
-    return 'other'; // Default if no recognisable pattern is found
+  const getScheduleLayout = (rows: any[]): 'dated' | 'weekly' | 'other' => {
+    if (rows.some(r => r.scheduled_date)) return 'dated';
+    if (rows.some(r => r.week_number)) return 'weekly';
+    return 'other';
   };
 
   /**
-   * Calculates whether a cell (day column in a week row) is before
-   * the date the exercise was created — used to grey out past days
+   * The times of day an exercise is practised at, in order - a single unnamed one when it is once a day
    */
-  const isCellBeforeCreation = (
-    rows: any[],
-    weekNum: number,
-    weekNumbers: number[],
-    dayIndex: number
-  ): boolean => {
-    if (!rows[0]?.created_at) return false;
-
-    // Get the date the exercise was created (time zeroed out)
-    const createdAt = new Date(rows[0].created_at);
-    createdAt.setHours(0, 0, 0, 0);
+  const getSlots = (rows: any[]): { index: number; name: string | null }[] => {
+    const slots: { index: number; name: string | null }[] = [];
+    rows.forEach((r: any) => {
+      if (!slots.some(slot => slot.index === r.slot_index)) slots.push({ index: r.slot_index, name: r.slot });
+    });
+    return slots.sort((a, b) => a.index - b.index);
+  };
 
-    // Day index of the creation date (0=Mon, 6=Sun)
-    const createdDayIndex = createdAt.getDay() === 0 ? 6 : createdAt.getDay() - 1;
+  /**
+   * Unique week numbers of the rows in ascending order
+   */
+  const getWeekNumbers = (rows: any[]): number[] => rows
+    .map((r: any) => r.week_number)
+    .filter((w: number, i: number, arr: number[]) => w && arr.indexOf(w) === i)
+    .sort((a: number, b: number) => a - b);
 
-    // Only grey out days in week 1 that are before the creation day
-    if (weekNum === weekNumbers[0] && dayIndex < createdDayIndex) return true;
+  /**
+   * The practice that prompts tried now are recorded against:
+   * today's first unticked one, otherwise the first unticked one, otherwise the last
+   */
+  const getPracticeRow = (rows: any[]): any => {
+    const open = rows.filter((r: any) => !r.completed);
+    return open.find((r: any) => r.scheduled_date === todayDate) || open[0] || rows[rows.length - 1];
+  };
 
-    return false;
+  /**
+   * Tooltip for a ticked row that someone other than the patient ticked
+   */
+  const getTickedByLabel = (row: any): string | undefined => {
+    if (!row.completed || !row.completed_by || row.completed_by === profile?.user_id) return undefined;
+    return row.completed_by === carerId ? 'Ticked by you' : 'Ticked by a parent/carer';
   };
 
+  /**
+   * The microphone button for one exercise row, or the usual dash where there is no row
+   */
+  const renderRecordCell = (row: any) => row ? (
+    <RecordingButton
+      rowId={row.row_id}
+      patientId={profile!.user_id}
+      recordings={recordingsByRow[row.row_id] || []}
+      onUploaded={handleRecordingUploaded}
+      onError={setError}
+    />
+  ) : <span style={{ color: '#dee2e6' }}>—</span>;
+
   /**
    * Returns the inline style object for a sidebar nav item
    * Active item gets the purple highlight, inactive stays grey
@@ -429,6 +487,570 @@ const PatientGoalsProgress: React.FC = () => {
     );
   }
 
+  // Goal cards with their weekly grids — the whole page for a patient, one section of the carer dashboard
+  const goalsContent = (
+    <>
+      {/* Success message — shown briefly after saving a difficulty rating */}
+      {successMessage && (
+        <div className="alert alert-success alert-dismissible fade show">
+          {successMessage}
+          <button type="button" className="btn-close" onClick={() => setSuccessMessage(null)}></button>
+        </div>
+      )}
+
+      {/* Error message — shown if a checkbox toggle or difficulty save fails */}
+      {error && (
+        <div className="alert alert-danger alert-dismissible fade show">
+          {error}
+          <button type="button" className="btn-close" onClick={() => setError(null)}></button>
+        </div>
+      )}
+
+      {/* Page heading and filter buttons sit side by side */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start', marginBottom: '8px', flexWrap: 'wrap', gap: '12px' }}>
+        <div>
+          <h2 style={{ marginBottom: '4px' }}>Goals & Progress</h2>
+          <p style={{ color: '#6c757d', margin: 0 }}>
+            {carerId ? 'Tick off the exercises practised at home' : 'Track your therapy goals and complete your exercises'}
+          </p>
+        </div>
+
+        {/* Filter buttons — highlight the currently active tab */}
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {(['all', 'in-progress', 'completed'] as const).map(f => (
+            <button
+              key={f}
+              onClick={() => setGoalFilter(f)}
+              style={{
+                padding: '6px 16px', borderRadius: '20px', fontSize: '13px',
+                fontWeight: '500', cursor: 'pointer', border: '1px solid',
+                borderColor: goalFilter === f ? '#6366f1' : '#dee2e6',
+                backgroundColor: goalFilter === f ? '#6366f1' : '#fff',
+                color: goalFilter === f ? '#fff' : '#6c757d',
+                transition: 'all 0.15s'
+              }}
+            >
+              {f === 'all' ? 'All' : f === 'in-progress' ? 'In Progress' : 'Completed'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div style={{ marginBottom: '32px' }} />
+
+      {(() => {
+        // Show a message if the patient has no goals at all
+        if (activeGoals.length === 0) return <p className="text-muted">No active goals yet. Your therapist will assign goals for you.</p>;
+
+        // Objectives nested under their long-term goals; a goal's progress is its completed checkboxes ÷ total
+        // checkboxes × 100, or its objectives' progress weighted together when it has objectives
+        const goalTree = buildGoalTree(activeGoals, Object.values(goalExerciseRows).flat());
+
+        // Filter goals based on the selected tab
+        const filteredGoals = goalTree.filter(goal => {
+          const p = goal.progress.percent;
+          if (goalFilter === 'completed') return p === 100;   // Case 1: only fully done goals
+          if (goalFilter === 'in-progress') return p < 100;   // Case 2: only goals still in progress
+          return true;                                         // Case 3: show everything
+        });
+
+        // Show a helpful empty state if no goals match the selected filter
+        if (filteredGoals.length === 0) return (
+          <p className="text-muted">
+            No {goalFilter === 'completed' ? 'completed' : 'in-progress'} goals yet.
+          </p>
+        );
+         {/* Goal Cards  */}
+         {/* One card per goal — each card contains a progress bar and the full exercise schedule table,
+             or for a long-term goal its objectives' cards, collapsed until opened */}
+        const renderGoal = (goal: GoalNode<Goal>, isObjective: boolean): React.ReactNode => {
+          const linkedExercises = getExercisesForGoal(goal.goal_id);
+          const progress = goal.progress.percent;
+          const expanded = expandedGoals.includes(goal.goal_id);
+
+          // Count total and completed rows across all exercises for this goal
+          const totalRows = linkedExercises.reduce((sum, e) => sum + e.rows.length, 0);
+          const completedRows = linkedExercises.reduce(
+            (sum, e) => sum + e.rows.filter((r: any) => r.completed).length, 0
+          );
+
+          // Flag used to switch the card to green styling and show the completed badge when goal is fully completed
+          const goalComplete = progress === 100;
+          return (
+            <div
+              key={goal.goal_id}
+              style={{
+                // Turn the card green when the goal is fully completed
+                backgroundColor: goalComplete ? '#f0fdf4' : '#fff',
+                border: `1px solid ${goalComplete ? '#86efac' : '#dee2e6'}`,
+                borderRadius: '12px', padding: '16px', marginBottom: '16px',
+                // Objectives sit inside their long-term goal's card
+                ...(isObjective ? { marginLeft: '16px' } : {})
+              }}
+            >
+              {/* Goal Header */}
+              <div style={{ marginBottom: '20px' }}>
+                <div style={{
+                  display: 'flex', justifyContent: 'space-between',
+                  alignItems: 'start', marginBottom: '8px'
+                }}>
+                  <div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+                      <h5 style={{ margin: 0, color: '#1a1a2e' }}>
+                        {isObjective ? '↳' : '🎯'} {goal.goal_description}
+                      </h5>
+                      {/* Completed badge — only shown when progress reaches 100% */}
+                      {goalComplete && (
+                        <span style={{
+                          fontSize: '11px', padding: '2px 10px', borderRadius: '20px',
+                          backgroundColor: '#22c55e', color: '#fff', fontWeight: '600', flexShrink: 0
+                        }}>
+                          ✓ Completed
+                        </span>
+                      )}
+                    </div>
+                    {/* Goal priority and target date */}
+                    <small style={{ color: '#6c757d', display: 'block', textAlign: 'left', paddingLeft: '34px' }}>
+                      {goal.priority} priority &nbsp;·&nbsp; Target: {formatShortDate(goal.target_date)}
+                    </small>
+                  </div>
+                  {/* Progress percentage — green when completed, purple when in progress */}
+                  <span style={{ color: goalComplete ? '#22c55e' : '#6366f1', fontWeight: 'bold', fontSize: '20px', flexShrink: 0 }}>
+                    {progress}%
+                  </span>
+                </div>
+                {/* Goal progress bar — fills based on completed rows divide by total rows */}
+                <div style={{
+                  width: '100%', height: '10px', backgroundColor: '#e9ecef',
+                  borderRadius: '5px', overflow: 'hidden', marginBottom: '6px'
+                }}>
+                  <div style={{
+                    width: `${progress}%`, height: '100%',
+                    // Green when completed, purple when in progress
+                    backgroundColor: progress === 100 ? '#22c55e' : '#6366f1',
+                    transition: 'width 0.4s ease'
+                  }}></div>
+                </div>
+                {/* Session completion count, or how many objectives are done */}
+                <small style={{ color: '#6c757d' }}>
+                  {goal.objectives.length > 0
+                    ? `${goal.progress.completed} of ${goal.progress.total} objectives completed`
+                    : `${completedRows} of ${totalRows} sessions completed`}
+                </small>
+              </div>
+
+              {/* Objectives - a long-term goal's exercises are practised through its objectives */}
+              {goal.objectives.length > 0 ? (
+                <div>
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-link p-0 mb-2"
+                    style={{ color: '#6366f1', fontSize: '14px', textDecoration: 'none' }}
+                    onClick={() => toggleGoal(goal.goal_id)}
+                  >
+                    <i className={`bi bi-chevron-${expanded ? 'down' : 'right'} me-1`}></i>
+                    {goal.objectives.length} {goal.objectives.length === 1 ? 'objective' : 'objectives'}
+                  </button>
+                  {expanded && goal.objectives.map(objective => renderGoal(objective, true))}
+                </div>
+              ) : linkedExercises.length === 0 ? (
+                // Empty state — shown when no exercises have been assigned to this goal yet
+                <p style={{ color: '#6c757d', fontSize: '14px', fontStyle: 'italic' }}>
+                  No exercises assigned for this goal yet.
+                </p>
+              ) : (
+                <div>
+                  <h6 style={{ color: '#6366f1', marginBottom: '16px', fontSize: '14px' }}>
+                    📋 Exercises
+                  </h6>
+
+                  {/* Loop through each exercise linked to this goal */}
+                  {linkedExercises.map(({ exerciseId, rows, exerciseInfo }) => {
+                    // Pick the table layout from how the practices are scheduled
+                    const layout = getScheduleLayout(rows);
+
+                    // Dated practices in order of day then time of day, weekly ones by week then their order in it
+                    const sortedRows = layout === 'dated'
+                      ? [...rows].sort((a: any, b: any) =>
+                          (a.scheduled_date || '').localeCompare(b.scheduled_date || '') || a.slot_index - b.slot_index
+                        )
+                      : layout === 'weekly'
+                      ? [...rows].sort((a: any, b: any) =>
+                          (a.week_number || 0) - (b.week_number || 0) || a.slot_index - b.slot_index
+                        )
+                      : rows;
+
+                    // Flag used to switch the exercise card to green when all sessions are done
+                    const exComplete = getExerciseProgress(rows) === 100;
+                    return (
+                      <div
+                        key={exerciseId}
+                        style={{
+                          // Turn the exercise card green when every session is completed
+                          backgroundColor: exComplete ? '#f0fdf4' : '#fafafa',
+                          border: `1px solid ${exComplete ? '#86efac' : '#e9ecef'}`,
+                          borderRadius: '10px', padding: '16px', marginBottom: '16px'
+                        }}
+                      >
+                        {/* Exercise Header */}
+                        <div style={{
+                          display: 'flex', alignItems: 'center', gap: '10px',
+                          marginBottom: '12px', flexWrap: 'wrap'
+                        }}>
+                          {/* Exercise title — opens the instructions and practice mode */}
+                          <span style={{ flex: 1 }}>
+                            <button
+                              type="button"
+                              className="btn btn-link p-0 text-start"
+                              style={{ fontWeight: '600', fontSize: '15px', color: '#1a1a2e', textDecoration: 'none' }}
+                              title="Open instructions and practice"
+                              onClick={() => setPractice({
+                                exerciseId,
+                                title: exerciseInfo?.title,
+                                rowId: getPracticeRow(sortedRows).row_id
+                              })}
+                            >
+                              {exerciseInfo?.title}
+                              <i className="bi bi-journal-text ms-2" style={{ color: '#6366f1', fontSize: '13px' }}></i>
+                            </button>
+                          </span>
+                          {/* Completed badge — only shown when all sessions are ticked */}
+                          {exComplete && (
+                            <span style={{
+                              fontSize: '11px', padding: '2px 10px', borderRadius: '20px',
+                              backgroundColor: '#22c55e', color: '#fff', fontWeight: '600'
+                            }}>
+                              ✓ Completed
+                            </span>
+                          )}
+
+                          {/* Exercise description */}
+                          {exerciseInfo?.description && (
+                            <span style={{ fontSize: '13px', color: '#6c757d' }}>
+                              {exerciseInfo.description}
+                            </span>
+                          )}
+
+                          {/* Difficulty level badge */}
+                          <span style={{
+                            padding: '3px 10px', borderRadius: '20px',
+                            fontSize: '11px', backgroundColor: '#e0e7ff', color: '#6366f1'
+                          }}>
+                            {exerciseInfo?.difficulty_level}
+                          </span>
+
+                          {/* Frequency badge */}
+                          <span style={{ fontSize: '12px', color: '#6c757d' }}>
+                            🔁 {exerciseInfo?.recommended_frequency}
+                          </span>
+                        </div>
+
+                        {/* Exercise progress bar — completed divide by total × 100 */}
+                        {(() => {
+                          const exProgress = getExerciseProgress(rows); // percentage (0–100)
+                          const exCompleted = rows.filter((r: any) => r.completed).length; // ticked checkboxes
+                          const exTotal = rows.length; // total scheduled slots
+                          return (
+                            <div style={{ marginBottom: '16px' }}>
+                              <div style={{
+                                display: 'flex', justifyContent: 'space-between',
+                                alignItems: 'center', marginBottom: '4px'
+                              }}>
+                                {/* Session completion count */}
+                                <small style={{ color: '#6c757d', fontSize: '12px' }}>
+                                  {exCompleted} of {exTotal} sessions completed
+                                </small>
+                                {/* Progress percentage — green when completed, purple when in progress */}
+                                <small style={{
+                                  color: exProgress === 100 ? '#22c55e' : '#6366f1',
+                                  fontWeight: 'bold', fontSize: '12px'
+                                }}>
+                                  {exProgress}%
+                                </small>
+                              </div>
+                              {/* Progress bar — fills based on completed divide total */}
+                              <div style={{
+                                width: '100%', height: '6px', backgroundColor: '#e9ecef',
+                                borderRadius: '3px', overflow: 'hidden'
+                              }}>
+                                <div style={{
+                                  width: `${exProgress}%`, height: '100%',
+                                  // Green when completed, purple when in progress
+                                  backgroundColor: exProgress === 100 ? '#22c55e' : '#6366f1',
+                                  transition: 'width 0.4s ease'
+                                }}></div>
+                              </div>
+                            </div>
+                          );
+                        })()}
+
+                        {/* DATED layout */}
+                        {/* Renders a Mon-Sun grid per week, with a sub-column for each time of day (e.g. Morning, Evening) */}
+                        {layout === 'dated' && (() => {
+                          const slots = getSlots(sortedRows);
+                          // Once-a-day practices have a single unnamed slot and need no sub-header
+                          const showSlots = slots.length > 1 || !!slots[0]?.name;
+                          const weekNumbers = getWeekNumbers(sortedRows);
+
+                          // The practice in each column of a week - every time of day of Monday, then Tuesday...
+                          // or undefined where nothing is scheduled
+                          const getWeekCells = (weekNum: number): any[] => {
+                            const weekRows = sortedRows.filter((r: any) => r.week_number === weekNum && r.scheduled_date);
+                            const monday = mondayOf(weekRows[0].scheduled_date);
+                            return DAYS.flatMap((_, i) => slots.map(slot => weekRows.find((r: any) =>
+                              r.scheduled_date === addDays(monday, i) && r.slot_index === slot.index
+                            )));
+                          };
+
+                          const dash = <span style={{ color: '#dee2e6' }}>—</span>;
+
+                          return (
+                            <div style={{ overflowX: 'auto', maxWidth: '100%' }}>
+                              <table style={{ borderCollapse: 'collapse', fontSize: '13px', width: '100%' }}>
+                                <thead>
+                                  <tr>
+                                    {/* Empty header cell for the row label column */}
+                                    <th style={{ padding: '6px 12px', width: '80px', textAlign: 'left', color: '#6c757d', fontSize: '12px' }}></th>
+                                    {/* Day column headers — today's column is highlighted in purple */}
+                                    {DAY_LABELS.map((label, i) => {
+                                      const isToday = DAYS[i] === todayName;
+                                      return (
+                                        <th key={label} colSpan={slots.length} style={{
+                                          padding: '6px 8px', textAlign: 'center',
+                                          fontWeight: '600', fontSize: '13px', minWidth: `${55 * slots.length}px`,
+                                          // Highlight today's column in purple
+                                          color: isToday ? '#6366f1' : '#6c757d',
+                                          borderBottom: isToday ? '2px solid #6366f1' : '2px solid transparent'
+                                        }}>
+                                          {label}
+                                        </th>
+                                      );
+                                    })}
+                                  </tr>
+                                  {/* Sub-header row naming the times of day */}
+                                  {showSlots && (
+                                    <tr>
+                                      <th></th>
+                                      {DAY_LABELS.map(label => slots.map(slot => (
+                                        <th key={`${label}-${slot.index}`} style={{ padding: '4px 8px', textAlign: 'center', fontSize: '11px', color: '#6c757d', fontWeight: '500', minWidth: '45px' }}>
+                                          {slot.name}
+                                        </th>
+                                      )))}
+                                    </tr>
+                                  )}
+                                </thead>
+                                <tbody>
+                                  {/* One set of rows (Done + Diff + Rec) per week */}
+                                  {weekNumbers.map((weekNum: number) => {
+                                    const cells = getWeekCells(weekNum);
+                                    return (
+                                      <React.Fragment key={`week-${weekNum}`}>
+                                        {/* Done row - a checkbox for each practice this week */}
+                                        <tr style={{ borderTop: weekNum > weekNumbers[0] ? '2px solid #e9ecef' : '1px solid #e9ecef' }}>
+                                          <td style={{
+                                            padding: '10px 12px', fontWeight: '600',
+                                            color: '#5B4FCF', fontSize: '12px', whiteSpace: 'nowrap'
+                                          }}>
+                                            W{weekNum} Done
+                                          </td>
+                                          {cells.map((row: any, i: number) => (
+                                            <td key={`done-w${weekNum}-${i}`} style={{ padding: '10px 8px', textAlign: 'center' }}>
+                                              {row ? (
+                                                // Checkbox — ticking updates the completed status in the database
+                                                <input
+                                                  type="checkbox"
+                                                  checked={row.completed}
+                                                  title={getTickedByLabel(row)}
+                                                  onChange={() => handleToggleDay(row.row_id, row.completed)}
+                                                  style={{ width: '18px', height: '18px', accentColor: '#6366f1', cursor: 'pointer' }}
+                                                />
+                                              ) : dash}
+                                            </td>
+                                          ))}
+                                        </tr>
+                                        {/* Diff row — a difficulty rating circle for each practice this week */}
+                                        <tr style={{ borderTop: '1px solid #f0f0f0' }}>
+                                          <td style={{
+                                            padding: '10px 12px', fontWeight: '600',
+                                            color: '#5B4FCF', fontSize: '12px', whiteSpace: 'nowrap'
+                                          }}>
+                                            W{weekNum} Diff
+                                          </td>
+                                          {cells.map((row: any, i: number) => (
+                                            <td key={`diff-w${weekNum}-${i}`} style={{ padding: '10px 8px', textAlign: 'center' }}>
+                                              {row ? (
+                                                // Difficulty dropdown — clicking opens the 0-10 rating picker
+                                                <DifficultyDropdown
+                                                  disabled={!!carerId}
+                                                  currentRating={row.difficulty_rating}
+                                                  onSelect={(val) => handleSaveDifficulty(row.row_id, val)}
+                                                  onClear={() => handleClearDifficulty(row.row_id)}
+                                                />
+                                              ) : dash}
+                                            </td>
+                                          ))}
+                                        </tr>
+                                        {/* Rec row — record an attempt at each practice this week (patients only) */}
+                                        {!carerId && (
+                                          <tr style={{ borderTop: '1px solid #f0f0f0' }}>
+                                            <td style={{
+                                            padding: '10px 12px', fontWeight: '600',
+                                            color: '#5B4FCF', fontSize: '12px', whiteSpace: 'nowrap'
+                                          }}>
+                                              W{weekNum} Rec
+                                            </td>
+                                            {cells.map((row: any, i: number) => (
+                                              <td key={`rec-w${weekNum}-${i}`} style={{ padding: '10px 8px', textAlign: 'center' }}>
+                                                {renderRecordCell(row)}
+                                              </td>
+                                            ))}
+                                          </tr>
+                                        )}
+                                      </React.Fragment>
+                                    );
+                                  })}
+                                </tbody>
+                              </table>
+                            </div>
+                          );
+                        })()}
+
+                        {/* WEEKLY layout */}
+                        {/* Renders a Week 1 / Week 2 / Week 3 grid with one checkbox per practice that week */}
+                        {layout === 'weekly' && (() => {
+                          const weekNumbers = getWeekNumbers(sortedRows);
+                          // Practised more than once a week - number the practices under each week
+                          const showPracticeNumbers = sortedRows.some((r: any) => r.slot_index > 0);
+
+                          return (
+                            <div style={{ overflowX: 'auto' }}>
+                              <table style={{ borderCollapse: 'collapse', fontSize: '13px', width: '100%' }}>
+                                <thead>
+                                  <tr>
+                                    <th style={{ padding: '6px 12px', width: '80px' }}></th>
+                                    {/* One column per week, split into one per practice */}
+                                    {weekNumbers.map((weekNum: number) => (
+                                      <th
+                                        key={`week-header-${weekNum}`}
+                                        colSpan={sortedRows.filter((r: any) => r.week_number === weekNum).length}
+                                        style={{
+                                          padding: '6px 12px', textAlign: 'center',
+                                          fontWeight: '600', fontSize: '13px',
+                                          color: '#6c757d', minWidth: '80px'
+                                        }}
+                                      >
+                                        Week {weekNum}
+                                      </th>
+                                    ))}
+                                  </tr>
+                                  {showPracticeNumbers && (
+                                    <tr>
+                                      <th></th>
+                                      {sortedRows.map((row: any) => (
+                                        <th key={`practice-header-${row.row_id}`} style={{ padding: '4px 8px', textAlign: 'center', fontSize: '11px', color: '#6c757d', fontWeight: '500' }}>
+                                          {row.slot_index + 1}
+                                        </th>
+                                      ))}
+                                    </tr>
+                                  )}
+                                </thead>
+                                <tbody>
+                                  {/* Done row — one checkbox per practice */}
+                                  <tr style={{ borderTop: '1px solid #e9ecef' }}>
+                                    <td style={{ padding: '10px 12px', fontWeight: '600', color: '#6c757d', fontSize: '12px', textTransform: 'uppercase' }}>Done</td>
+                                    {sortedRows.map((row: any) => (
+                                      <td key={`done-${row.row_id}`} style={{ padding: '10px 12px', textAlign: 'center' }}>
+                                        {/* Checkbox — ticking updates the completed status in the database */}
+                                        <input type="checkbox" checked={row.completed} title={getTickedByLabel(row)}
+                                          onChange={() => handleToggleDay(row.row_id, row.completed)}
+                                          style={{ width: '18px', height: '18px', accentColor: '#6366f1', cursor: 'pointer' }}
+                                        />
+                                      </td>
+                                    ))}
+                                  </tr>
+                                  {/* Diff row — one difficulty rating per practice */}
+                                  <tr style={{ borderTop: '1px solid #e9ecef' }}>
+                                    <td style={{ padding: '10px 12px', fontWeight: '600', color: '#6c757d', fontSize: '12px', textTransform: 'uppercase' }}>Diff</td>
+                                    {sortedRows.map((row: any) => (
+                                      <td key={`diff-${row.row_id}`} style={{ padding: '10px 12px', textAlign: 'center' }}>
+                                        <DifficultyDropdown disabled={!!carerId} currentRating={row.difficulty_rating}
+                                          onSelect={(val) => handleSaveDifficulty(row.row_id, val)}
+                                          onClear={() => handleClearDifficulty(row.row_id)}
+                                        />
+                                      </td>
+                                    ))}
+                                  </tr>
+                                  {/* Rec row — record an attempt at each practice (patients only) */}
+                                  {!carerId && (
+                                    <tr style={{ borderTop: '1px solid #e9ecef' }}>
+                                      <td style={{ padding: '10px 12px', fontWeight: '600', color: '#6c757d', fontSize: '12px', textTransform: 'uppercase' }}>Rec</td>
+                                      {sortedRows.map((row: any) => (
+                                        <td key={`rec-${row.row_id}`} style={{ padding: '10px 12px', textAlign: 'center' }}>
+                                          {renderRecordCell(row)}
+                                        </td>
+                                      ))}
+                                    </tr>
+                                  )}
+                                </tbody>
+                              </table>
+                            </div>
+                          );
+                        })()}
+
+                        {/* OTHER layout */}
+                        {/* For practices with no date or week, e.g. as needed */}
+                        {layout === 'other' && sortedRows.map((row: any) => (
+                          <div key={`other-${row.row_id}`} style={{
+                            display: 'flex', alignItems: 'center', gap: '16px', padding: '12px',
+                            // Green background when completed
+                            backgroundColor: row.completed ? '#f0fdf4' : '#fff',
+                            borderRadius: '8px',
+                            border: `1px solid ${row.completed ? '#bbf7d0' : '#e9ecef'}`
+                          }}>
+                            {/* Checkbox */}
+                            <input type="checkbox" checked={row.completed} title={getTickedByLabel(row)}
+                              onChange={() => handleToggleDay(row.row_id, row.completed)}
+                              style={{ width: '20px', height: '20px', accentColor: '#6366f1', cursor: 'pointer' }}
+                            />
+                            <span style={{ fontSize: '14px', color: '#6c757d' }}>
+                              {row.completed ? '✅ Completed' : 'Mark as done'}
+                            </span>
+                            {/* Difficulty rating */}
+                            <DifficultyDropdown disabled={!!carerId} currentRating={row.difficulty_rating}
+                              onSelect={(val) => handleSaveDifficulty(row.row_id, val)}
+                              onClear={() => handleClearDifficulty(row.row_id)}
+                            />
+                            {/* Record an attempt (patients only) */}
+                            {!carerId && renderRecordCell(row)}
+                          </div>
+                        ))}
+
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        };
+
+        return filteredGoals.map(goal => renderGoal(goal, false));
+      })()}
+
+      {practice && profile && (
+        <ExercisePracticeModal
+          exerciseId={practice.exerciseId}
+          exerciseTitle={practice.title}
+          rowId={practice.rowId}
+          patientId={profile.user_id}
+          readOnly={!!carerId}
+          onClose={() => setPractice(null)}
+        />
+      )}
+    </>
+  );
+
+  if (carerId) return goalsContent;
+
   return (
     <div style={{ display: 'flex', minHeight: '100vh', backgroundColor: '#f8f9fa' }}>
 
@@ -495,609 +1117,7 @@ const PatientGoalsProgress: React.FC = () => {
         {/* Content Area */}
         <div style={{ flex: 1, padding: '32px', maxWidth: '1050px', margin: '0 auto', overflowY: 'auto' }}>
 
-          {/* Success message — shown briefly after saving a difficulty rating */}
-          {successMessage && (
-            <div className="alert alert-success alert-dismissible fade show">
-              {successMessage}
-              <button type="button" className="btn-close" onClick={() => setSuccessMessage(null)}></button>
-            </div>
-          )}
-
-          {/* Error message — shown if a checkbox toggle or difficulty save fails */}
-          {error && (
-            <div className="alert alert-danger alert-dismissible fade show">
-              {error}
-              <button type="button" className="btn-close" onClick={() => setError(null)}></button>
-            </div>
-          )}
-
-          {/* Page heading and filter buttons sit side by side */}
-          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start', marginBottom: '8px', flexWrap: 'wrap', gap: '12px' }}>
-            <div>
-              <h2 style={{ marginBottom: '4px' }}>Goals & Progress</h2>
-              <p style={{ color: '#6c757d', margin: 0 }}>Track your therapy goals and complete your exercises</p>
-            </div>
-
-            {/* Filter buttons — highlight the currently active tab */}
-            <div style={{ display: 'flex', gap: '8px' }}>
-              {(['all', 'in-progress', 'completed'] as const).map(f => (
-                <button
-                  key={f}
-                  onClick={() => setGoalFilter(f)}
-                  style={{
-                    padding: '6px 16px', borderRadius: '20px', fontSize: '13px',
-                    fontWeight: '500', cursor: 'pointer', border: '1px solid',
-                    borderColor: goalFilter === f ? '#6366f1' : '#dee2e6',
-                    backgroundColor: goalFilter === f ? '#6366f1' : '#fff',
-                    color: goalFilter === f ? '#fff' : '#6c757d',
-                    transition: 'all 0.15s'
-                  }}
-                >
-                  {f === 'all' ? 'All' : f === 'in-progress' ? 'In Progress' : 'Completed'}
-                </button>
-              ))}
-            </div>
-          </div>
-          <div style={{ marginBottom: '32px' }} />
-
-          {(() => {
-            // Show a message if the patient has no goals at all
-            if (activeGoals.length === 0) return <p className="text-muted">No active goals yet. Your therapist will assign goals for you.</p>;
-
-            // Filter goals based on the selected tab
-            const filteredGoals = activeGoals.filter(goal => {
-              const p = getGoalProgress(goal.goal_id);
-              if (goalFilter === 'completed') return p === 100;   // Case 1: only fully done goals
-              if (goalFilter === 'in-progress') return p < 100;   // Case 2: only goals still in progress
-              return true;                                         // Case 3: show everything
-            });
-
-            // Show a helpful empty state if no goals match the selected filter
-            if (filteredGoals.length === 0) return (
-              <p className="text-muted">
-                No {goalFilter === 'completed' ? 'completed' : 'in-progress'} goals yet.
-              </p>
-            );
-             {/* Goal Cards  */}
-             {/* One card per goal — each card contains a progress bar and the full exercise schedule table */}
-            return filteredGoals.map(goal => {
-              const linkedExercises = getExercisesForGoal(goal.goal_id);
-              const progress = getGoalProgress(goal.goal_id);
-
-              // Count total and completed rows across all exercises for this goal
-              const totalRows = linkedExercises.reduce((sum, e) => sum + e.rows.length, 0);
-              const completedRows = linkedExercises.reduce(
-                (sum, e) => sum + e.rows.filter((r: any) => r.completed).length, 0
-              );
-
-              // Flag used to switch the card to green styling and show the completed badge when goal is fully completed
-              const goalComplete = progress === 100;
-              return (
-                <div
-                  key={goal.goal_id}
-                  style={{
-                    // Turn the card green when the goal is fully completed
-                    backgroundColor: goalComplete ? '#f0fdf4' : '#fff',
-                    border: `1px solid ${goalComplete ? '#86efac' : '#dee2e6'}`,
-                    borderRadius: '12px', padding: '16px', marginBottom: '16px'
-                  }}
-                >
-                  {/* Goal Header */}
-                  <div style={{ marginBottom: '20px' }}>
-                    <div style={{
-                      display: 'flex', justifyContent: 'space-between',
-                      alignItems: 'start', marginBottom: '8px'
-                    }}>
-                      <div>
-                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
-                          <h5 style={{ margin: 0, color: '#1a1a2e' }}>
-                            🎯 {goal.goal_description}
-                          </h5>
-                          {/* Completed badge — only shown when progress reaches 100% */}
-                          {goalComplete && (
-                            <span style={{
-                              fontSize: '11px', padding: '2px 10px', borderRadius: '20px',
-                              backgroundColor: '#22c55e', color: '#fff', fontWeight: '600', flexShrink: 0
-                            }}>
-                              ✓ Completed
-                            </span>
-                          )}
-                        </div>
-                        {/* Goal priority and target date */}
-                        <small style={{ color: '#6c757d', display: 'block', textAlign: 'left', paddingLeft: '34px' }}>
-                          {goal.priority} priority &nbsp;·&nbsp; Target: {formatShortDate(goal.target_date)}
-                        </small>
-                      </div>
-                      {/* Progress percentage — green when completed, purple when in progress */}
-                      <span style={{ color: goalComplete ? '#22c55e' : '#6366f1', fontWeight: 'bold', fontSize: '20px', flexShrink: 0 }}>
-                        {progress}%
-                      </span>
-                    </div>
-                    {/* Goal progress bar — fills based on completed rows divide by total rows */}
-                    <div style={{
-                      width: '100%', height: '10px', backgroundColor: '#e9ecef',
-                      borderRadius: '5px', overflow: 'hidden', marginBottom: '6px'
-                    }}>
-                      <div style={{
-                        width: `${progress}%`, height: '100%',
-                        // Green when completed, purple when in progress
-                        backgroundColor: progress === 100 ? '#22c55e' : '#6366f1',
-                        transition: 'width 0.4s ease'
-                      }}></div>
-                    </div>
-                    {/* Session completion count */}
-                    <small style={{ color: '#6c757d' }}>
-                      {completedRows} of {totalRows} sessions completed
-                    </small>
-                  </div>
-
-                  {/* Exercises */}
-                  {linkedExercises.length === 0 ? (
-                    // Empty state — shown when no exercises have been assigned to this goal yet
-                    <p style={{ color: '#6c757d', fontSize: '14px', fontStyle: 'italic' }}>
-                      No exercises assigned for this goal yet.
-                    </p>
-                  ) : (
-                    <div>
-                      <h6 style={{ color: '#6366f1', marginBottom: '16px', fontSize: '14px' }}>
-                        📋 Exercises
-                      </h6>
-
-                      {/* Loop through each exercise linked to this goal */}
-                      {linkedExercises.map(({ exerciseId, rows, exerciseInfo }) => {
-                        // Detect the schedule type to determine which layout table to render
-                        const frequencyType = getFrequencyType(rows);
-
-                        // Sort rows into the correct column order depending on the schedule type
-                        // Twice daily: sort by day then Morning before Afternoon
-                        // Daily: sort by day of week Mon→Sun
-                        // Weekly: sort by week number ascending
-                        const sortedRows = frequencyType === 'twice_daily'
-                          ? [...rows].sort((a: any, b: any) => {
-                            // Sort twice daily rows by day first, then Morning before Afternoon
-                              const dayA = a.day_of_week?.replace(' Morning', '').replace(' Afternoon', '') || '';
-                              const dayB = b.day_of_week?.replace(' Morning', '').replace(' Afternoon', '') || '';
-                              const dayDiff = DAYS.indexOf(dayA) - DAYS.indexOf(dayB);
-                              if (dayDiff !== 0) return dayDiff;
-                              return a.day_of_week?.includes('Morning') ? -1 : 1;
-                            })
-                          : frequencyType === 'daily'
-                          // Sort daily rows by day of week Mon to Sun
-                          ? [...rows].sort((a: any, b: any) =>
-                              DAYS.indexOf(a.day_of_week) - DAYS.indexOf(b.day_of_week)
-                            )
-                          : frequencyType === 'weekly'
-                          // Sort weekly rows by week number ascending
-                          ? [...rows].sort((a: any, b: any) => (a.week_number || 0) - (b.week_number || 0))
-                          : rows;
-
-                        // Flag used to switch the exercise card to green when all sessions are done
-                        const exComplete = getExerciseProgress(rows) === 100;
-                        return (
-                          <div
-                            key={exerciseId}
-                            style={{
-                              // Turn the exercise card green when every session is completed
-                              backgroundColor: exComplete ? '#f0fdf4' : '#fafafa',
-                              border: `1px solid ${exComplete ? '#86efac' : '#e9ecef'}`,
-                              borderRadius: '10px', padding: '16px', marginBottom: '16px'
-                            }}
-                          >
-                            {/* Exercise Header */}
-                            <div style={{
-                              display: 'flex', alignItems: 'center', gap: '10px',
-                              marginBottom: '12px', flexWrap: 'wrap'
-                            }}>
-                              {/* Exercise title */}
-                              <span style={{ fontWeight: '600', fontSize: '15px', color: '#1a1a2e', flex: 1 }}>
-                                {exerciseInfo?.title}
-                              </span>
-                              {/* Completed badge — only shown when all sessions are ticked */}
-                              {exComplete && (
-                                <span style={{
-                                  fontSize: '11px', padding: '2px 10px', borderRadius: '20px',
-                                  backgroundColor: '#22c55e', color: '#fff', fontWeight: '600'
-                                }}>
-                                  ✓ Completed
-                                </span>
-                              )}
-
-                              {/* Exercise description */}
-                              {exerciseInfo?.description && (
-                                <span style={{ fontSize: '13px', color: '#6c757d' }}>
-                                  {exerciseInfo.description}
-                                </span>
-                              )}
-
-                              {/* Difficulty level badge */}
-                              <span style={{
-                                padding: '3px 10px', borderRadius: '20px',
-                                fontSize: '11px', backgroundColor: '#e0e7ff', color: '#6366f1'
-                              }}>
-                                {exerciseInfo?.difficulty_level}
-                              </span>
-
-                              {/* Frequency badge */}
-                              <span style={{ fontSize: '12px', color: '#6c757d' }}>
-                                🔁 {exerciseInfo?.recommended_frequency}
-                              </span>
-                            </div>
-
-                            {/* Exercise progress bar — completed divide by total × 100 */}
-                            {(() => {
-                              const exProgress = getExerciseProgress(rows); // percentage (0–100)
-                              const exCompleted = rows.filter((r: any) => r.completed).length; // ticked checkboxes
-                              const exTotal = rows.length; // total scheduled slots
-                              return (
-                                <div style={{ marginBottom: '16px' }}>
-                                  <div style={{
-                                    display: 'flex', justifyContent: 'space-between',
-                                    alignItems: 'center', marginBottom: '4px'
-                                  }}>
-                                    {/* Session completion count */}
-                                    <small style={{ color: '#6c757d', fontSize: '12px' }}>
-                                      {exCompleted} of {exTotal} sessions completed
-                                    </small>
-                                    {/* Progress percentage — green when completed, purple when in progress */}
-                                    <small style={{
-                                      color: exProgress === 100 ? '#22c55e' : '#6366f1',
-                                      fontWeight: 'bold', fontSize: '12px'
-                                    }}>
-                                      {exProgress}%
-                                    </small>
-                                  </div>
-                                  {/* Progress bar — fills based on completed divide total */}
-                                  <div style={{
-                                    width: '100%', height: '6px', backgroundColor: '#e9ecef',
-                                    borderRadius: '3px', overflow: 'hidden'
-                                  }}>
-                                    <div style={{
-                                      width: `${exProgress}%`, height: '100%',
-                                      // Green when completed, purple when in progress
-                                      backgroundColor: exProgress === 100 ? '#22c55e' : '#6366f1',
-                                      transition: 'width 0.4s ease'
-                                    }}></div>
-                                  </div>
-                                </div>
-                              );
-                            })()}
-
-                            {/* DAILY layout */}
-                            {/* Renders a Mon-Sun grid with one checkbox and one difficulty rating per day */}
-                            {frequencyType === 'daily' && (() => {
-                              // Get unique week numbers from the rows in ascending order
-                              const weekNumbers = sortedRows
-                                .map((r: any) => r.week_number)
-                                .filter((w: number, i: number, arr: number[]) => arr.indexOf(w) === i)
-                                .sort((a: number, b: number) => a - b);
-
-                              return (
-                                <div style={{ overflowX: 'auto', maxWidth: '100%' }}>
-                                  <table style={{ borderCollapse: 'collapse', fontSize: '13px', width: '100%' }}>
-                                    <thead>
-                                      <tr>
-                                        {/* Empty header cell for the row label column */}
-                                        <th style={{ padding: '6px 12px', width: '80px', textAlign: 'left', color: '#6c757d', fontSize: '12px' }}></th>
-                                        {/* Day column headers — today's column is highlighted in purple */}
-                                        {DAY_LABELS.map((label, i) => {
-                                          const isToday = DAYS[i] === todayName;
-                                          return (
-                                            <th key={label} style={{
-                                              padding: '6px 12px', textAlign: 'center',
-                                              fontWeight: '600', fontSize: '13px', minWidth: '55px',
-                                              // Highlight today's column in purple
-                                              color: isToday ? '#6366f1' : '#6c757d',
-                                              borderBottom: isToday ? '2px solid #6366f1' : '2px solid transparent'
-                                            }}>
-                                              {label}
-                                            </th>
-                                          );
-                                        })}
-                                      </tr>
-                                    </thead>
-                                    <tbody>
-                                      {/* One pair of rows (Done + Diff) per week */}
-                                      {weekNumbers.map((weekNum: number) => {
-                                        const weekRows = sortedRows.filter((r: any) => r.week_number === weekNum);
-                                        return (
-                                          <React.Fragment key={`week-${weekNum}`}>
-                                            {/* Done row - checkboxes for each day of this week */}
-                                            <tr style={{ borderTop: weekNum > weekNumbers[0] ? '2px solid #e9ecef' : '1px solid #e9ecef' }}>
-                                              <td style={{
-                                                padding: '10px 12px', fontWeight: '600',
-                                                color: '#5B4FCF', fontSize: '12px', whiteSpace: 'nowrap'
-                                              }}>
-                                                W{weekNum} Done
-                                              </td>
-                                              {DAY_LABELS.map((_, i) => {
-                                                // Find the row matching this day of the week
-                                                const row = weekRows.find((r: any) => {
-                                                  const dayPart = r.day_of_week?.split(' ').pop();
-                                                  return dayPart === DAYS[i];
-                                                });
-                                                // Grey out days before the exercise was created
-                                                const isPastDay = isCellBeforeCreation(rows, weekNum, weekNumbers, i);
-                                                return (
-                                                  <td key={`done-w${weekNum}-${i}`}
-                                                    style={{ padding: '10px 12px', textAlign: 'center', opacity: isPastDay ? 0.4 : 1 }}>
-                                                    {row ? (
-                                                      // Checkbox — ticking updates the completed status in the database
-                                                      <input
-                                                        type="checkbox"
-                                                        checked={row.completed}
-                                                        disabled={isPastDay}
-                                                        onChange={() => !isPastDay && handleToggleDay(row.row_id, row.completed)}
-                                                        style={{
-                                                          width: '18px', height: '18px',
-                                                          accentColor: '#6366f1',
-                                                          cursor: isPastDay ? 'not-allowed' : 'pointer'
-                                                        }}
-                                                      />
-                                                    ) : <span style={{ color: '#dee2e6' }}>—</span>}
-                                                  </td>
-                                                );
-                                              })}
-                                            </tr>
-                                            {/* Diff row — difficulty rating circles for each day of this week */}
-                                            <tr style={{ borderTop: '1px solid #f0f0f0' }}>
-                                              <td style={{
-                                                padding: '10px 12px', fontWeight: '600',
-                                                color: '#5B4FCF', fontSize: '12px', whiteSpace: 'nowrap'
-                                              }}>
-                                                W{weekNum} Diff
-                                              </td>
-                                              {DAY_LABELS.map((_, i) => {
-                                                const row = weekRows.find((r: any) => {
-                                                  const dayPart = r.day_of_week?.split(' ').pop();
-                                                  return dayPart === DAYS[i];
-                                                });
-                                                const isPastDay = isCellBeforeCreation(rows, weekNum, weekNumbers, i);
-                                                return (
-                                                  <td key={`diff-w${weekNum}-${i}`}
-                                                    style={{ padding: '10px 8px', textAlign: 'center', opacity: isPastDay ? 0.4 : 1, pointerEvents: isPastDay ? 'none' : 'auto' }}>
-                                                    {row ? (
-                                                      // Difficulty dropdown — clicking opens the 0-10 rating picker
-                                                      <DifficultyDropdown
-                                                        currentRating={row.difficulty_rating}
-                                                        onSelect={(val) => handleSaveDifficulty(row.row_id, val)}
-                                                        onClear={() => handleClearDifficulty(row.row_id)}
-                                                      />
-                                                    ) : <span style={{ color: '#dee2e6' }}>—</span>}
-                                                  </td>
-                                                );
-                                              })}
-                                            </tr>
-                                          </React.Fragment>
-                                        );
-                                      })}
-                                    </tbody>
-                                  </table>
-                                </div>
-                              );
-                            })()}
-
-                            {/* TWICE DAILY layout */}
-                            {/* Renders a Mon-Sun grid with AM and PM sub-columns per day */}
-                            {frequencyType === 'twice_daily' && (() => {
-                              const weekNumbers = sortedRows
-                                .map((r: any) => r.week_number)
-                                .filter((w: number, i: number, arr: number[]) => arr.indexOf(w) === i)
-                                .sort((a: number, b: number) => a - b);
-
-                              return (
-                                <div style={{ overflowX: 'auto', maxWidth: '100%' }}>
-                                  <table style={{ borderCollapse: 'collapse', fontSize: '13px', width: '100%' }}>
-                                    <thead>
-                                      <tr>
-                                        <th style={{ padding: '6px 12px', width: '80px' }}></th>
-                                        {/* Each day has two columns — AM and PM */}
-                                        {DAY_LABELS.map((label, i) => {
-                                          const isToday = DAYS[i] === todayName;
-                                          return (
-                                            <th key={label} colSpan={2} style={{
-                                              padding: '6px 8px', textAlign: 'center',
-                                              fontWeight: '600', fontSize: '13px', minWidth: '100px',
-                                              // Highlight today's column in purple
-                                              color: isToday ? '#6366f1' : '#6c757d',
-                                              borderBottom: isToday ? '2px solid #6366f1' : '2px solid transparent'
-                                            }}>
-                                              {label}
-                                            </th>
-                                          );
-                                        })}
-                                      </tr>
-                                      {/* Sub-header row showing AM and PM labels */}
-                                      <tr>
-                                        <th></th>
-                                        {DAY_LABELS.map(label => (
-                                          <React.Fragment key={label}>
-                                            <th style={{ padding: '4px 8px', textAlign: 'center', fontSize: '11px', color: '#6c757d', fontWeight: '500', minWidth: '45px' }}>AM</th>
-                                            <th style={{ padding: '4px 8px', textAlign: 'center', fontSize: '11px', color: '#6c757d', fontWeight: '500', minWidth: '45px' }}>PM</th>
-                                          </React.Fragment>
-                                        ))}
-                                      </tr>
-                                    </thead>
-                                    <tbody>
-                                      {weekNumbers.map((weekNum: number) => {
-                                        const weekRows = sortedRows.filter((r: any) => r.week_number === weekNum);
-                                        return (
-                                          <React.Fragment key={`week-${weekNum}`}>
-                                            {/* Done row — AM and PM checkboxes for each day */}
-                                            <tr style={{ borderTop: weekNum > weekNumbers[0] ? '2px solid #e9ecef' : '1px solid #e9ecef' }}>
-                                              <td style={{
-                                                padding: '10px 12px', fontWeight: '600',
-                                                color: '#5B4FCF', fontSize: '12px', whiteSpace: 'nowrap'
-                                              }}>
-                                                W{weekNum} Done
-                                              </td>
-                                              {DAY_LABELS.map((_, i) => {
-                                                // Find the Morning and Afternoon rows for this day
-                                                const morningRow = weekRows.find((r: any) =>
-                                                  r.day_of_week?.includes(DAYS[i]) && r.day_of_week?.includes('Morning')
-                                                );
-                                                const afternoonRow = weekRows.find((r: any) =>
-                                                  r.day_of_week?.includes(DAYS[i]) && r.day_of_week?.includes('Afternoon')
-                                                );
-                                                const isPastDay = isCellBeforeCreation(rows, weekNum, weekNumbers, i);
-                                                return (
-                                                  <React.Fragment key={`done-w${weekNum}-${i}`}>
-                                                    {/* Morning checkbox */}
-                                                    <td style={{ padding: '10px 8px', textAlign: 'center', opacity: isPastDay ? 0.4 : 1 }}>
-                                                      {morningRow ? (
-                                                        <input type="checkbox" checked={morningRow.completed} disabled={isPastDay}
-                                                          onChange={() => !isPastDay && handleToggleDay(morningRow.row_id, morningRow.completed)}
-                                                          style={{ width: '18px', height: '18px', accentColor: '#6366f1', cursor: isPastDay ? 'not-allowed' : 'pointer' }}
-                                                        />
-                                                      ) : <span style={{ color: '#dee2e6' }}>—</span>}
-                                                    </td>
-                                                    {/* Afternoon checkbox */}
-                                                    <td style={{ padding: '10px 8px', textAlign: 'center', opacity: isPastDay ? 0.4 : 1 }}>
-                                                      {afternoonRow ? (
-                                                        <input type="checkbox" checked={afternoonRow.completed} disabled={isPastDay}
-                                                          onChange={() => !isPastDay && handleToggleDay(afternoonRow.row_id, afternoonRow.completed)}
-                                                          style={{ width: '18px', height: '18px', accentColor: '#6366f1', cursor: isPastDay ? 'not-allowed' : 'pointer' }}
-                                                        />
-                                                      ) : <span style={{ color: '#dee2e6' }}>—</span>}
-                                                    </td>
-                                                  </React.Fragment>
-                                                );
-                                              })}
-                                            </tr>
-                                            {/* Diff row — AM and PM difficulty ratings for each day */}
-                                            <tr style={{ borderTop: '1px solid #f0f0f0' }}>
-                                              <td style={{
-                                                padding: '10px 12px', fontWeight: '600',
-                                                color: '#5B4FCF', fontSize: '12px', whiteSpace: 'nowrap'
-                                              }}>
-                                                W{weekNum} Diff
-                                              </td>
-                                              {DAY_LABELS.map((_, i) => {
-                                                const morningRow = weekRows.find((r: any) =>
-                                                  r.day_of_week?.includes(DAYS[i]) && r.day_of_week?.includes('Morning')
-                                                );
-                                                const afternoonRow = weekRows.find((r: any) =>
-                                                  r.day_of_week?.includes(DAYS[i]) && r.day_of_week?.includes('Afternoon')
-                                                );
-                                                const isPastDay = isCellBeforeCreation(rows, weekNum, weekNumbers, i);
-                                                return (
-                                                  <React.Fragment key={`diff-w${weekNum}-${i}`}>
-                                                    {/* Morning difficulty rating */}
-                                                    <td style={{ padding: '10px 8px', textAlign: 'center', opacity: isPastDay ? 0.4 : 1, pointerEvents: isPastDay ? 'none' : 'auto' }}>
-                                                      {morningRow ? (
-                                                        <DifficultyDropdown currentRating={morningRow.difficulty_rating}
-                                                          onSelect={(val) => handleSaveDifficulty(morningRow.row_id, val)}
-                                                          onClear={() => handleClearDifficulty(morningRow.row_id)}
-                                                        />
-                                                      ) : <span style={{ color: '#dee2e6' }}>—</span>}
-                                                    </td>
-                                                    {/* Afternoon difficulty rating */}
-                                                    <td style={{ padding: '10px 8px', textAlign: 'center', opacity: isPastDay ? 0.4 : 1, pointerEvents: isPastDay ? 'none' : 'auto' }}>
-                                                      {afternoonRow ? (
-                                                        <DifficultyDropdown currentRating={afternoonRow.difficulty_rating}
-                                                          onSelect={(val) => handleSaveDifficulty(afternoonRow.row_id, val)}
-                                                          onClear={() => handleClearDifficulty(afternoonRow.row_id)}
-                                                        />
-                                                      ) : <span style={{ color: '#dee2e6' }}>—</span>}
-                                                    </td>
-                                                  </React.Fragment>
-                                                );
-                                              })}
-                                            </tr>
-                                          </React.Fragment>
-                                        );
-                                      })}
-                                    </tbody>
-                                  </table>
-                                </div>
-                              );
-                            })()}
-
-                            {/* WEEKLY layout */}
-                            {/* Renders a simple Week 1 / Week 2 / Week 3 grid with one checkbox per week */}
-                            {frequencyType === 'weekly' && (
-                              <div style={{ overflowX: 'auto' }}>
-                                <table style={{ borderCollapse: 'collapse', fontSize: '13px', width: '100%' }}>
-                                  <thead>
-                                    <tr>
-                                      <th style={{ padding: '6px 12px', width: '80px' }}></th>
-                                      {/* One column per week */}
-                                      {sortedRows.map((row: any) => (
-                                        <th key={`week-header-${row.row_id}`} style={{
-                                          padding: '6px 12px', textAlign: 'center',
-                                          fontWeight: '600', fontSize: '13px',
-                                          color: '#6c757d', minWidth: '80px'
-                                        }}>
-                                          Week {row.week_number}
-                                        </th>
-                                      ))}
-                                    </tr>
-                                  </thead>
-                                  <tbody>
-                                    {/* Done row — one checkbox per week */}
-                                    <tr style={{ borderTop: '1px solid #e9ecef' }}>
-                                      <td style={{ padding: '10px 12px', fontWeight: '600', color: '#6c757d', fontSize: '12px', textTransform: 'uppercase' }}>Done</td>
-                                      {sortedRows.map((row: any) => (
-                                        <td key={`done-${row.row_id}`} style={{ padding: '10px 12px', textAlign: 'center' }}>
-                                          {/* Checkbox — ticking updates the completed status in the database */}
-                                          <input type="checkbox" checked={row.completed}
-                                            onChange={() => handleToggleDay(row.row_id, row.completed)}
-                                            style={{ width: '18px', height: '18px', accentColor: '#6366f1', cursor: 'pointer' }}
-                                          />
-                                        </td>
-                                      ))}
-                                    </tr>
-                                    {/* Diff row — one difficulty rating per week */}
-                                    <tr style={{ borderTop: '1px solid #e9ecef' }}>
-                                      <td style={{ padding: '10px 12px', fontWeight: '600', color: '#6c757d', fontSize: '12px', textTransform: 'uppercase' }}>Diff</td>
-                                      {sortedRows.map((row: any) => (
-                                        <td key={`diff-${row.row_id}`} style={{ padding: '10px 12px', textAlign: 'center' }}>
-                                          <DifficultyDropdown currentRating={row.difficulty_rating}
-                                            onSelect={(val) => handleSaveDifficulty(row.row_id, val)}
-                                            onClear={() => handleClearDifficulty(row.row_id)}
-                                          />
-                                        </td>
-                                      ))}
-                                    </tr>
-                                  </tbody>
-                                </table>
-                              </div>
-                            )}
-
-                            {/* OTHER layout */}
-                            {/* Fallback layout for any exercise rows that don't match daily, twice daily or weekly */}
-                            {frequencyType === 'other' && sortedRows.map((row: any) => (
-                              <div key={`other-${row.row_id}`} style={{
-                                display: 'flex', alignItems: 'center', gap: '16px', padding: '12px',
-                                // Green background when completed
-                                backgroundColor: row.completed ? '#f0fdf4' : '#fff',
-                                borderRadius: '8px',
-                                border: `1px solid ${row.completed ? '#bbf7d0' : '#e9ecef'}`
-                              }}>
-                                {/* Checkbox */}
-                                <input type="checkbox" checked={row.completed}
-                                  onChange={() => handleToggleDay(row.row_id, row.completed)}
-                                  style={{ width: '20px', height: '20px', accentColor: '#6366f1', cursor: 'pointer' }}
-                                />
-                                <span style={{ fontSize: '14px', color: '#6c757d' }}>
-                                  {row.completed ? '✅ Completed' : 'Mark as done'}
-                                </span>
-                                {/* Difficulty rating */}
-                                <DifficultyDropdown currentRating={row.difficulty_rating}
-                                  onSelect={(val) => handleSaveDifficulty(row.row_id, val)}
-                                  onClear={() => handleClearDifficulty(row.row_id)}
-                                />
-                              </div>
-                            ))}
-
-                          </div>
-                        );
-                      })}
-                    </div>
-                  )}
-                </div>
-              );
-            });
-          })()}
+          {goalsContent}
         </div>
       </div>
     </div>
@@ -0,0 +1,424 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  getPatientProfile,
+  getPatientActiveGoals,
+  getPatientAssignedExercises,
+  PatientProfile
+} from '../../services/supabasePatientService';
+import { Goal, Exercise } from '../../services/supabaseTherapistService';
+import {
+  getJournalEntries,
+  createJournalEntry,
+  updateJournalEntry,
+  deleteJournalEntry,
+  buildJournalTrend,
+  JournalEntry,
+  JournalEntryInput,
+  MOOD_LABELS,
+  MAX_MOOD,
+  MAX_CONFIDENCE
+} from '../../services/supabaseJournalService';
+import JournalTrendChart from './JournalTrendChart';
+import { useAuth } from '../../context/AuthContext';
+import '../../components/dashboards/TherapistDashboard.css';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyEntry = (): JournalEntryInput => ({
+  entry_date: today(),
+  content: '',
+  mood: 3,
+  confidence: 5,
+  goal_id: null,
+  exercise_id: null,
+  visibility: 'private'
+});
+
+/**
+ * The patient's journal
+ * Patients note how they felt and how confident they were speaking each day, optionally about a goal or exercise
+ * Entries are private unless the patient shares them, in which case their therapists can read them too
+ */
+const PatientJournal: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+
+  const [profile, setProfile] = useState<PatientProfile | null>(null);
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  // What an entry can be linked to
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // The entry being written; editingId is set when it replaces an existing one
+  const [form, setForm] = useState<JournalEntryInput>(emptyEntry());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Bumped to reload the entries after one is saved or deleted
+  const [entriesVersion, setEntriesVersion] = useState(0);
+
+  /**
+   * Effect: loads the patient's profile and what their entries can be linked to
+   */
+  useEffect(() => {
+    const patientId = user!.user_id;
+
+    Promise.all([
+      getPatientProfile(patientId),
+      getPatientActiveGoals(patientId),
+      getPatientAssignedExercises(patientId)
+    ])
+      .then(([profileData, goalsData, assigned]) => {
+        setProfile(profileData);
+        setGoals(goalsData);
+
+        // The same exercise can be assigned to several goals; list it once
+        const unique = new Map<string, Exercise>();
+        assigned.forEach(row => {
+          if (row.exercise) unique.set(row.exercise_id, row.exercise);
+        });
+        setExercises(Array.from(unique.values()));
+      })
+      .catch(err => {
+        console.error('Error loading journal page:', err);
+        setError('Failed to load your details');
+      });
+  }, [user]);
+
+  /**
+   * Effect: loads the journal entries
+   * Runs again whenever entriesVersion is bumped after an entry changes
+   */
+  useEffect(() => {
+    getJournalEntries(user!.user_id)
+      .then(setEntries)
+      .catch(err => {
+        console.error('Error loading journal entries:', err);
+        setError('Failed to load your journal');
+      })
+      .finally(() => setLoading(false));
+  }, [user, entriesVersion]);
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
+  const resetForm = () => {
+    setForm(emptyEntry());
+    setEditingId(null);
+  };
+
+  /**
+   * Saves the form as a new entry, or over the entry being edited
+   */
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (editingId) {
+        await updateJournalEntry(editingId, form);
+      } else {
+        await createJournalEntry(user!.user_id, form);
+      }
+
+      resetForm();
+      setEntriesVersion(v => v + 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (entry: JournalEntry) => {
+    setEditingId(entry.entry_id);
+    setForm({
+      entry_date: entry.entry_date,
+      content: entry.content,
+      mood: entry.mood,
+      confidence: entry.confidence,
+      goal_id: entry.goal_id,
+      exercise_id: entry.exercise_id,
+      visibility: entry.visibility
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = async (entryId: string) => {
+    if (!window.confirm('Delete this journal entry? This cannot be undone.')) return;
+    try {
+      await deleteJournalEntry(entryId);
+      if (editingId === entryId) resetForm();
+      setEntriesVersion(v => v + 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the entry');
+    }
+  };
+
+  /**
+   * Returns the inline style object for a sidebar nav item
+   * Active item gets the purple highlight, inactive stays grey
+   */
+  const navItem = (active: boolean) => ({
+    display: 'flex', alignItems: 'center', padding: '12px 20px', cursor: 'pointer',
+    color: active ? '#6366f1' : '#6c757d',
+    backgroundColor: active ? '#e0e7ff' : 'transparent',
+    borderLeft: active ? '3px solid #6366f1' : '3px solid transparent',
+    fontSize: '14px'
+  });
+
+  const cardStyle = {
+    backgroundColor: '#fff', borderRadius: '12px', border: '1px solid #e9ecef',
+    padding: '24px', marginBottom: '24px'
+  };
+
+  return (
+    <div style={{ display: 'flex', minHeight: '100vh', backgroundColor: '#f8f9fa' }}>
+
+      {/* Sidebar */}
+      <div style={{
+        width: '240px', backgroundColor: '#fff',
+        borderRight: '1px solid #dee2e6', padding: '20px 0'
+      }}>
+        {/* Platform logo */}
+        <div style={{ padding: '0 20px', marginBottom: '30px' }}>
+          <img src="/logo.jpg" alt="OwnUrVoice Logo" style={{ height: '100px', width: 'auto' }} />
+        </div>
+        {/* Sidebar Navigation */}
+        <nav>
+          <div style={navItem(false)} onClick={() => navigate('/patient-dashboard')}>
+            <i className="bi bi-grid me-2"></i>Dashboard
+          </div>
+          <div style={navItem(false)} onClick={() => navigate('/patient/goals-progress')}>
+            <i className="bi bi-bullseye me-2"></i>Goals & Progress
+          </div>
+          {/* Journal — active page, highlighted in purple */}
+          <div style={navItem(true)} onClick={() => navigate('/patient/journal')}>
+            <i className="bi bi-journal-text me-2"></i>Journal
+          </div>
+          <div style={navItem(false)} onClick={() => navigate('/patient/community')}>
+            <i className="bi bi-people me-2"></i>Community
+          </div>
+          <div style={navItem(false)} onClick={() => navigate('/patient/resources')}>
+            <i className="bi bi-folder me-2"></i>Resources
+          </div>
+        </nav>
+      </div>
+
+      {/* Main Content */}
+      <div style={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
+
+        {/* Top Bar - displays welcome message and logout button */}
+        <div style={{
+          backgroundColor: '#fff', borderBottom: '1px solid #dee2e6',
+          padding: '16px 32px', display: 'flex',
+          justifyContent: 'flex-end', alignItems: 'center'
+        }}>
+          <span style={{ marginRight: '20px', color: '#6c757d' }}>
+            Welcome, {profile?.first_name}
+          </span>
+          <button
+            onClick={handleLogout}
+            style={{
+              padding: '8px 16px', border: 'none',
+              backgroundColor: 'transparent', color: '#6c757d',
+              cursor: 'pointer', textDecoration: 'underline'
+            }}
+          >
+            Logout
+          </button>
+        </div>
+
+        {/* Content Area */}
+        <div style={{ flex: 1, padding: '32px', maxWidth: '1050px', width: '100%', margin: '0 auto', overflowY: 'auto' }}>
+          <h2 style={{ marginBottom: '4px' }}>My Journal</h2>
+          <p className="text-muted" style={{ marginBottom: '24px' }}>
+            How did today go? Entries are private unless you choose to share them with your therapist.
+          </p>
+
+          {error && (
+            <div className="alert alert-danger alert-dismissible fade show">
+              {error}
+              <button type="button" className="btn-close" onClick={() => setError(null)}></button>
+            </div>
+          )}
+
+          {/* Entry form */}
+          <form style={cardStyle} onSubmit={handleSave}>
+            <h5 style={{ marginBottom: '16px' }}>{editingId ? 'Edit Entry' : 'New Entry'}</h5>
+
+            <div className="row">
+              <div className="col-md-4 mb-3">
+                <label className="form-label">Date</label>
+                <input
+                  type="date"
+                  className="form-control"
+                  value={form.entry_date}
+                  max={today()}
+                  onChange={(e) => setForm({ ...form, entry_date: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="col-md-4 mb-3">
+                <label className="form-label">Mood — {MOOD_LABELS[form.mood]}</label>
+                <input
+                  type="range"
+                  className="form-range"
+                  min={1}
+                  max={MAX_MOOD}
+                  value={form.mood}
+                  onChange={(e) => setForm({ ...form, mood: parseInt(e.target.value) })}
+                />
+              </div>
+
+              <div className="col-md-4 mb-3">
+                <label className="form-label">Speaking confidence — {form.confidence}/{MAX_CONFIDENCE}</label>
+                <input
+                  type="range"
+                  className="form-range"
+                  min={1}
+                  max={MAX_CONFIDENCE}
+                  value={form.confidence}
+                  onChange={(e) => setForm({ ...form, confidence: parseInt(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="mb-3">
+              <label className="form-label">What happened?</label>
+              <textarea
+                className="form-control"
+                rows={4}
+                value={form.content}
+                onChange={(e) => setForm({ ...form, content: e.target.value })}
+                placeholder="e.g. Ordered at the café without switching words"
+              />
+            </div>
+
+            <div className="row">
+              <div className="col-md-6 mb-3">
+                <label className="form-label">About a goal (optional)</label>
+                <select
+                  className="form-select"
+                  value={form.goal_id || ''}
+                  onChange={(e) => setForm({ ...form, goal_id: e.target.value || null })}
+                >
+                  <option value="">None</option>
+                  {goals.map(goal => (
+                    <option key={goal.goal_id} value={goal.goal_id}>{goal.goal_description}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="col-md-6 mb-3">
+                <label className="form-label">About an exercise (optional)</label>
+                <select
+                  className="form-select"
+                  value={form.exercise_id || ''}
+                  onChange={(e) => setForm({ ...form, exercise_id: e.target.value || null })}
+                >
+                  <option value="">None</option>
+                  {exercises.map(exercise => (
+                    <option key={exercise.exercise_id} value={exercise.exercise_id}>{exercise.title}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="form-check form-switch mb-3">
+              <input
+                className="form-check-input"
+                type="checkbox"
+                id="journal-share"
+                checked={form.visibility === 'shared'}
+                onChange={(e) => setForm({ ...form, visibility: e.target.checked ? 'shared' : 'private' })}
+              />
+              <label className="form-check-label" htmlFor="journal-share">Share this entry with my therapist</label>
+            </div>
+
+            <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+              {editingId && (
+                <button type="button" className="btn btn-secondary" onClick={resetForm} disabled={saving}>
+                  Cancel
+                </button>
+              )}
+              <button type="submit" className="btn btn-primary" disabled={saving}>
+                {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Add Entry'}
+              </button>
+            </div>
+          </form>
+
+          {/* Weekly trends */}
+          <div style={cardStyle}>
+            <h5 style={{ marginBottom: '16px' }}>Weekly Trends</h5>
+            <JournalTrendChart trend={buildJournalTrend(entries)} />
+          </div>
+
+          {/* Past entries, newest first */}
+          <div style={cardStyle}>
+            <h5 style={{ marginBottom: '16px' }}>Past Entries</h5>
+
+            {loading ? (
+              <div className="text-center py-3">
+                <div className="spinner-border text-primary" role="status">
+                  <span className="visually-hidden">Loading...</span>
+                </div>
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-muted" style={{ marginBottom: 0 }}>No entries yet. Your first one will appear here.</p>
+            ) : (
+              entries.map(entry => (
+                <div key={entry.entry_id} style={{ borderTop: '1px solid #e9ecef', padding: '16px 0' }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start', gap: '12px' }}>
+                    <div>
+                      <strong>{new Date(`${entry.entry_date}T00:00:00`).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}</strong>
+                      <span className="text-muted" style={{ marginLeft: '12px', fontSize: '14px' }}>
+                        Mood: {MOOD_LABELS[entry.mood]} · Confidence: {entry.confidence}/{MAX_CONFIDENCE}
+                      </span>
+                      <span
+                        className={`badge ${entry.visibility === 'shared' ? 'bg-success' : 'bg-secondary'}`}
+                        style={{ marginLeft: '12px' }}
+                      >
+                        <i className={`bi ${entry.visibility === 'shared' ? 'bi-people' : 'bi-lock'} me-1`}></i>
+                        {entry.visibility === 'shared' ? 'Shared' : 'Private'}
+                      </span>
+                    </div>
+                    <div style={{ display: 'flex', gap: '4px' }}>
+                      <button className="btn btn-sm btn-outline-primary" onClick={() => handleEdit(entry)} title="Edit entry">
+                        <i className="bi bi-pencil"></i>
+                      </button>
+                      <button className="btn btn-sm btn-outline-danger" onClick={() => handleDelete(entry.entry_id)} title="Delete entry">
+                        <i className="bi bi-trash"></i>
+                      </button>
+                    </div>
+                  </div>
+
+                  {(entry.goal || entry.exercise) && (
+                    <div className="text-muted" style={{ fontSize: '13px', marginTop: '4px' }}>
+                      {entry.goal && <span><i className="bi bi-bullseye me-1"></i>{entry.goal.goal_description}</span>}
+                      {entry.goal && entry.exercise && ' · '}
+                      {entry.exercise && <span><i className="bi bi-activity me-1"></i>{entry.exercise.title}</span>}
+                    </div>
+                  )}
+
+                  {entry.content && (
+                    <p style={{ marginTop: '8px', marginBottom: 0, whiteSpace: 'pre-wrap' }}>{entry.content}</p>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PatientJournal;
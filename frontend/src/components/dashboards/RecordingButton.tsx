@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { uploadRecording, ExerciseRecording } from '../../services/supabaseRecordingService';
+import { analyzeRecording } from '../../services/fluencyAnalysis';
+
+// Long enough for any single practice, short enough to stay under the upload limit
+const MAX_RECORDING_SECONDS = 5 * 60;
+
+/**
+ * A small circular button that records an attempt at one exercise row
+ * Tap once to start recording from the microphone, again to stop; the audio is then analysed for fluency
+ * and uploaded for the therapist
+ * A badge shows how many recordings the row already has
+ */
+const RecordingButton: React.FC<{
+  rowId: string;
+  patientId: string;
+  recordings: ExerciseRecording[]; // The row's existing recordings
+  onUploaded: () => void;
+  onError: (message: string) => void;
+}> = ({ rowId, patientId, recordings, onUploaded, onError }) => {
+  const [state, setState] = useState<'idle' | 'recording' | 'uploading'>('idle');
+  const [elapsed, setElapsed] = useState(0);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startedAtRef = useRef(0);
+
+  // Count the seconds while recording, and stop at the limit
+  useEffect(() => {
+    if (state !== 'recording') return;
+
+    const timer = window.setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAtRef.current) / 1000);
+      setElapsed(seconds);
+      if (seconds >= MAX_RECORDING_SECONDS) recorderRef.current?.stop();
+    }, 500);
+
+    return () => window.clearInterval(timer);
+  }, [state]);
+
+  // Release the microphone if the page is left mid-recording
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const startRecording = async () => {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      onError('Recording isn\'t supported in this browser');
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        const duration = (Date.now() - startedAtRef.current) / 1000;
+
+        try {
+          setState('uploading');
+          const audio = new Blob(chunks, { type: recorder.mimeType });
+          await uploadRecording(rowId, patientId, audio, duration, await analyzeRecording(audio));
+          onUploaded();
+        } catch (err: any) {
+          onError(err.message || 'Failed to upload the recording');
+        } finally {
+          setState('idle');
+          recorderRef.current = null;
+        }
+      };
+
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      recorder.start();
+      setState('recording');
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      onError('Allow microphone access to record your practice');
+    }
+  };
+
+  const handleClick = () => {
+    if (state === 'idle') startRecording();
+    else if (state === 'recording') recorderRef.current?.stop();
+  };
+
+  const reviewed = recordings.filter(recording => recording.reviewed_at).length;
+  const title = state === 'recording'
+    ? 'Tap to stop and send'
+    : recordings.length > 0
+      ? `${recordings.length} recording${recordings.length === 1 ? '' : 's'} · ${reviewed} reviewed — tap to record another`
+      : 'Record your practice';
+
+  return (
+    <div style={{ position: 'relative', display: 'inline-block' }}>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={state === 'uploading'}
+        title={title}
+        style={{
+          width: '36px', height: '36px', borderRadius: '50%',
+          border: '2px solid', padding: 0,
+          borderColor: state === 'recording' ? '#ef4444' : '#dee2e6',
+          backgroundColor: state === 'recording' ? '#ef4444' : '#fff',
+          color: state === 'recording' ? '#fff' : '#6366f1',
+          display: 'flex', alignItems: 'center', justifyContent: 'center',
+          fontSize: state === 'recording' ? '11px' : '15px', fontWeight: 'bold',
+          cursor: state === 'uploading' ? 'wait' : 'pointer', transition: 'all 0.15s'
+        }}
+      >
+        {state === 'uploading' ? (
+          <span className="spinner-border spinner-border-sm"></span>
+        ) : state === 'recording' ? (
+          `${Math.floor(elapsed / 60)}:${String(elapsed % 60).padStart(2, '0')}`
+        ) : (
+          <i className="bi bi-mic"></i>
+        )}
+      </button>
+
+      {/* Count of recordings already sent - green once every one has been reviewed */}
+      {recordings.length > 0 && state === 'idle' && (
+        <span style={{
+          position: 'absolute', top: '-4px', right: '-6px',
+          minWidth: '16px', height: '16px', borderRadius: '8px', padding: '0 4px',
+          backgroundColor: reviewed === recordings.length ? '#22c55e' : '#6366f1',
+          color: '#fff', fontSize: '10px', lineHeight: '16px', textAlign: 'center'
+        }}>
+          {recordings.length}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default RecordingButton;
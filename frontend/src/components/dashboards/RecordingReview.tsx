@@ -0,0 +1,156 @@
+import React, { useRef, useState } from 'react';
+import {
+  getRecordingUrl,
+  addRecordingComment,
+  markRecordingReviewed,
+  formatPosition,
+  ExerciseRecording
+} from '../../services/supabaseRecordingService';
+
+/**
+ * One of the patient's exercise recordings as the therapist reviews it
+ * The audio is only fetched once the therapist chooses to listen
+ * Comments are pinned to the moment the player is at; clicking a comment's time jumps back to it
+ */
+const RecordingReview: React.FC<{
+  recording: ExerciseRecording;
+  reviewerId: string;
+  onChanged: () => void;
+}> = ({ recording, reviewerId, onChanged }) => {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [commentText, setCommentText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const handleListen = async () => {
+    try {
+      setError(null);
+      setAudioUrl(await getRecordingUrl(recording.storage_key));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the recording');
+    }
+  };
+
+  const seekTo = (seconds: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    audioRef.current.play();
+  };
+
+  const handleAddComment = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await addRecordingComment(recording.recording_id, reviewerId, position, commentText);
+      setCommentText('');
+      onChanged();
+    } catch (err: any) {
+      setError(err.message || 'Failed to add the comment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMarkReviewed = async () => {
+    try {
+      setError(null);
+      await markRecordingReviewed(recording.recording_id, reviewerId);
+      onChanged();
+    } catch (err: any) {
+      setError(err.message || 'Failed to mark the recording reviewed');
+    }
+  };
+
+  const practice = [
+    recording.row?.week_number ? `Week ${recording.row.week_number}` : null,
+    recording.row?.day_of_week,
+    recording.row?.scheduled_date && new Date(`${recording.row.scheduled_date}T00:00:00`).toLocaleDateString('en-GB'),
+    recording.row?.slot
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="timeline-body">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+        <p className="timeline-heading">
+          <i className="bi bi-mic me-2"></i>
+          {recording.row?.exercise?.title}
+        </p>
+        <span className={`note-status ${recording.reviewed_at ? 'signed' : ''}`}>
+          {recording.reviewed_at ? 'Reviewed' : 'Not reviewed'}
+        </span>
+      </div>
+      <p className="timeline-meta">
+        {practice && `${practice} · `}
+        {recording.duration_seconds !== null && `${formatPosition(recording.duration_seconds)} long`}
+        {recording.syllables_per_minute !== null &&
+          ` · ${recording.syllables_per_minute} syllables/min, ${recording.pause_count} ${recording.pause_count === 1 ? 'pause' : 'pauses'}`}
+      </p>
+
+      {error && <div className="alert alert-danger py-2">{error}</div>}
+
+      {audioUrl ? (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          style={{ width: '100%' }}
+          onTimeUpdate={(e) => setPosition(e.currentTarget.currentTime)}
+        />
+      ) : (
+        <button className="btn btn-sm btn-outline-primary" onClick={handleListen}>
+          <i className="bi bi-play-fill me-1"></i>Listen
+        </button>
+      )}
+
+      {/* Comments, each pinned to a moment in the recording */}
+      {(recording.comments || []).length > 0 && (
+        <div className="note-addenda">
+          {recording.comments!.map(comment => (
+            <p key={comment.comment_id} className="note-section">
+              <button
+                className="btn btn-link btn-sm p-0 me-2"
+                onClick={() => seekTo(comment.position_seconds)}
+                disabled={!audioUrl}
+                title={audioUrl ? 'Play from here' : 'Listen first to jump to this moment'}
+              >
+                {formatPosition(comment.position_seconds)}
+              </button>
+              {comment.content}
+              <span className="text-muted"> — {comment.author?.first_name} {comment.author?.last_name}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {audioUrl && (
+        <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+          <input
+            type="text"
+            className="form-control form-control-sm"
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            placeholder={`Comment at ${formatPosition(position)}`}
+          />
+          <button
+            className="btn btn-sm btn-primary"
+            onClick={handleAddComment}
+            disabled={saving || !commentText.trim()}
+            style={{ whiteSpace: 'nowrap' }}
+          >
+            Add Comment
+          </button>
+        </div>
+      )}
+
+      {!recording.reviewed_at && (
+        <button className="btn btn-sm btn-success mt-2" onClick={handleMarkReviewed}>
+          <i className="bi bi-check2 me-1"></i>Mark as Reviewed
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RecordingReview;
@@ -0,0 +1,191 @@
+import React from 'react';
+import {
+  ScheduleRule,
+  WEEKDAY_NAMES,
+  MAX_SLOT_NAME_LENGTH,
+  MAX_SLOTS_PER_DAY,
+  MAX_INTERVAL_DAYS,
+  describeRule,
+  scheduleRuleError
+} from '../../services/exerciseSchedule';
+
+const KIND_LABELS: Record<ScheduleRule['kind'], string> = {
+  weekdays: 'On set days of the week',
+  interval: 'Every few days',
+  per_week: 'A number of times a week, any days',
+  as_needed: 'As needed'
+};
+
+// Monday first, like the patient's grid
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// Common ways of splitting a day, offered as a starting point for the times of day
+const SLOT_PRESETS: { label: string; slots: string[] }[] = [
+  { label: 'Once a day', slots: [] },
+  { label: 'Morning & Afternoon', slots: ['Morning', 'Afternoon'] },
+  { label: 'Morning, Afternoon & Evening', slots: ['Morning', 'Afternoon', 'Evening'] }
+];
+
+/**
+ * The fields for choosing when an exercise is practised: which days, and how many times on each
+ * Shows a summary of the rule and how many practices it makes up to the goal's target date,
+ * or what needs changing before it can be saved
+ */
+const ScheduleRuleFields: React.FC<{
+  value: ScheduleRule;
+  practiceCount: number;
+  onChange: (rule: ScheduleRule) => void;
+}> = ({ value, practiceCount, onChange }) => {
+  const slots = value.kind === 'weekdays' || value.kind === 'interval' ? value.slots : [];
+
+  /**
+   * Switches to another kind of rule, keeping the times of day where the new kind has them
+   */
+  const changeKind = (kind: ScheduleRule['kind']) => {
+    switch (kind) {
+      case 'weekdays':
+        return onChange({ kind, weekdays: [1, 2, 3, 4, 5], slots });
+      case 'interval':
+        return onChange({ kind, every_days: 2, slots });
+      case 'per_week':
+        return onChange({ kind, times: 3 });
+      default:
+        return onChange({ kind: 'as_needed' });
+    }
+  };
+
+  const changeSlots = (next: string[]) => {
+    if (value.kind === 'weekdays' || value.kind === 'interval') onChange({ ...value, slots: next });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (value.kind !== 'weekdays') return;
+    onChange({
+      ...value,
+      weekdays: value.weekdays.includes(day) ? value.weekdays.filter(d => d !== day) : [...value.weekdays, day]
+    });
+  };
+
+  const labelStyle = { fontSize: '13px' };
+  const ruleError = scheduleRuleError(value);
+
+  return (
+    <div className="mb-2">
+      <label className="form-label fw-semibold" style={labelStyle}>Schedule</label>
+      <select
+        className="form-select form-select-sm mb-2"
+        value={value.kind}
+        onChange={e => changeKind(e.target.value as ScheduleRule['kind'])}
+      >
+        {(Object.keys(KIND_LABELS) as ScheduleRule['kind'][]).map(kind => (
+          <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+        ))}
+      </select>
+
+      {/* Days of the week to practise on */}
+      {value.kind === 'weekdays' && (
+        <div className="d-flex flex-wrap gap-1 mb-2">
+          {WEEK_ORDER.map(day => (
+            <button
+              key={day}
+              type="button"
+              className={`btn btn-sm ${value.weekdays.includes(day) ? 'btn-primary' : 'btn-outline-secondary'}`}
+              onClick={() => toggleWeekday(day)}
+            >
+              {WEEKDAY_NAMES[day].slice(0, 3)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value.kind === 'interval' && (
+        <div className="d-flex align-items-center gap-2 mb-2" style={labelStyle}>
+          Every
+          <input
+            type="number"
+            className="form-control form-control-sm"
+            style={{ width: '70px' }}
+            min={1}
+            max={MAX_INTERVAL_DAYS}
+            value={value.every_days}
+            onChange={e => onChange({ ...value, every_days: Number(e.target.value) })}
+          />
+          days
+        </div>
+      )}
+
+      {value.kind === 'per_week' && (
+        <div className="d-flex align-items-center gap-2 mb-2" style={labelStyle}>
+          <input
+            type="number"
+            className="form-control form-control-sm"
+            style={{ width: '70px' }}
+            min={1}
+            max={7}
+            value={value.times}
+            onChange={e => onChange({ ...value, times: Number(e.target.value) })}
+          />
+          times a week, on whichever days suit the patient
+        </div>
+      )}
+
+      {/* Times of day - one practice per named slot on each scheduled day */}
+      {(value.kind === 'weekdays' || value.kind === 'interval') && (
+        <div className="mb-2">
+          <div className="d-flex flex-wrap gap-1 mb-1">
+            {SLOT_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                type="button"
+                className="btn btn-sm btn-light"
+                style={{ fontSize: '12px' }}
+                onClick={() => changeSlots(preset.slots)}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          {slots.map((slot, index) => (
+            <div key={index} className="d-flex gap-1 mb-1">
+              <input
+                type="text"
+                className="form-control form-control-sm"
+                placeholder="Time of day, e.g. Evening"
+                maxLength={MAX_SLOT_NAME_LENGTH}
+                value={slot}
+                onChange={e => changeSlots(slots.map((s, i) => (i === index ? e.target.value : s)))}
+              />
+              <button
+                type="button"
+                className="btn btn-sm btn-outline-danger"
+                title="Remove"
+                onClick={() => changeSlots(slots.filter((_, i) => i !== index))}
+              >
+                <i className="bi bi-x"></i>
+              </button>
+            </div>
+          ))}
+          {slots.length < MAX_SLOTS_PER_DAY && (
+            <button
+              type="button"
+              className="btn btn-link btn-sm p-0"
+              onClick={() => changeSlots([...slots, ''])}
+            >
+              + Add a time of day
+            </button>
+          )}
+        </div>
+      )}
+
+      {ruleError ? (
+        <small className="text-danger">{ruleError}</small>
+      ) : (
+        <small className="text-muted">
+          {describeRule(value)} — {practiceCount} {practiceCount === 1 ? 'practice' : 'practices'} until the target date
+        </small>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleRuleFields;
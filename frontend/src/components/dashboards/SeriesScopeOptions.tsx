@@ -0,0 +1,42 @@
+import React from 'react';
+import type { SeriesScope } from '../../services/supabaseTherapistService';
+
+/**
+ * Radio buttons for which occurrences of a recurring series an edit, cancellation or delete applies to
+ * Only shown for sessions that belong to a series
+ */
+const SeriesScopeOptions: React.FC<{
+  name: string;
+  action: string;
+  value: SeriesScope;
+  onChange: (scope: SeriesScope) => void;
+}> = ({ name, action, value, onChange }) => {
+  const options: { scope: SeriesScope; label: string }[] = [
+    { scope: 'this', label: `${action} this session only` },
+    { scope: 'following', label: `${action} this and following sessions` },
+    { scope: 'all', label: `${action} every session in the series` }
+  ];
+
+  return (
+    <div className="mb-3">
+      <label className="form-label">This session repeats</label>
+      {options.map(option => (
+        <div className="form-check" key={option.scope}>
+          <input
+            className="form-check-input"
+            type="radio"
+            name={name}
+            id={`${name}-${option.scope}`}
+            checked={value === option.scope}
+            onChange={() => onChange(option.scope)}
+          />
+          <label className="form-check-label" htmlFor={`${name}-${option.scope}`}>
+            {option.label}
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SeriesScopeOptions;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import type { Session } from '../../services/supabaseTherapistService';
+import {
+  saveDraftNote,
+  signSessionNote,
+  parseTags,
+  NOTE_SECTIONS,
+  NoteContent,
+  SessionNote
+} from '../../services/supabaseSessionNoteService';
+
+/**
+ * Writes or edits a draft SOAP note for a session
+ * A new note picks one of the sessions still waiting for notes; an existing draft keeps its session
+ * Signing from here saves the draft first; signed notes can't be changed afterwards
+ */
+const SessionNoteModal: React.FC<{
+  authorId: string;
+  note?: SessionNote; // The draft being edited, if any
+  sessions: Session[]; // Sessions a new note can be written for
+  onClose: () => void;
+  onSaved: () => void;
+}> = ({ authorId, note, sessions, onClose, onSaved }) => {
+  const [sessionId, setSessionId] = useState(note ? note.session_id : sessions[0]?.session_id || '');
+  const [content, setContent] = useState<Omit<NoteContent, 'tags'>>({
+    subjective: note?.subjective || '',
+    objective: note?.objective || '',
+    assessment: note?.assessment || '',
+    plan: note?.plan || ''
+  });
+  const [tagInput, setTagInput] = useState((note?.tags || []).join(', '));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Saves the draft, and signs it too when sign is true
+   */
+  const handleSave = async (sign: boolean) => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      await saveDraftNote(sessionId, authorId, { ...content, tags: parseTags(tagInput) });
+      if (sign) await signSessionNote(sessionId, authorId);
+
+      onSaved();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    // Clicking outside the modal closes it without saving
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={onClose}>
+      <div className="modal-dialog modal-lg modal-dialog-scrollable" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">{note ? 'Edit Session Note' : 'Write Session Note'}</h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            {/* Session - fixed once a draft exists */}
+            <div className="mb-3">
+              <label className="form-label">Session</label>
+              {note ? (
+                <p className="form-control-plaintext">
+                  {new Date(note.session!.session_date).toLocaleDateString('en-GB')} · {note.session!.session_type}
+                </p>
+              ) : (
+                <select className="form-select" value={sessionId} onChange={(e) => setSessionId(e.target.value)}>
+                  {sessions.map(session => (
+                    <option key={session.session_id} value={session.session_id}>
+                      {new Date(session.session_date).toLocaleDateString('en-GB')} at {session.session_time.substring(0, 5)} · {session.session_type}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {/* SOAP sections - each one optional while the note is a draft */}
+            {NOTE_SECTIONS.map(section => (
+              <div className="mb-3" key={section.key}>
+                <label className="form-label">
+                  {section.label} <span className="text-muted" style={{ fontSize: '13px' }}>— {section.hint}</span>
+                </label>
+                <textarea
+                  className="form-control"
+                  rows={3}
+                  value={content[section.key]}
+                  onChange={(e) => setContent({ ...content, [section.key]: e.target.value })}
+                />
+              </div>
+            ))}
+
+            <div className="mb-3">
+              <label className="form-label">Tags</label>
+              <input
+                type="text"
+                className="form-control"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="e.g. fluency, homework"
+              />
+              <small className="text-muted">Separate tags with commas</small>
+            </div>
+
+            <p className="text-muted" style={{ fontSize: '14px', marginBottom: 0 }}>
+              <i className="bi bi-lock me-1"></i>
+              Signed notes can't be edited. Later changes are added as dated addenda.
+            </p>
+          </div>
+
+          <div className="modal-footer">
+            <button type="button" className="btn btn-secondary" onClick={onClose} disabled={saving}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="btn btn-outline-primary"
+              onClick={() => handleSave(false)}
+              disabled={saving || !sessionId}
+            >
+              Save Draft
+            </button>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => handleSave(true)}
+              disabled={saving || !sessionId}
+            >
+              {saving ? (
+                <>
+                  <span className="spinner-border spinner-border-sm me-2"></span>
+                  Saving...
+                </>
+              ) : (
+                'Save & Sign'
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionNoteModal;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import type { Session, SeriesScope } from '../../services/supabaseTherapistService';
+import { changeSessionStatus, rescheduleSession } from '../../services/dataLayer';
+import {
+  SessionStatus,
+  SESSION_STATUS_LABELS,
+  STATUS_TRANSITIONS,
+  CANCELLED_STATUSES,
+  OUTCOME_STATUSES
+} from '../../services/supabaseSessionStatusService';
+import SeriesScopeOptions from './SeriesScopeOptions';
+
+/**
+ * Records what happened to a session: attended, no-show, cancelled or rescheduled
+ * Only the moves the status lifecycle allows are offered, with an optional reason
+ * Saving refreshes the cached sessions, so the dashboard shows the change without reloading itself
+ */
+const SessionStatusModal: React.FC<{
+  session: Session;
+  onClose: () => void;
+}> = ({ session, onClose }) => {
+  const current = session.status as SessionStatus;
+  const options = STATUS_TRANSITIONS[current];
+  // Attendance can't be recorded before the session has happened
+  const isFuture = session.session_date > new Date().toISOString().split('T')[0];
+
+  const [status, setStatus] = useState<SessionStatus | null>(null);
+  const [reason, setReason] = useState('');
+  const [scope, setScope] = useState<SeriesScope>('this'); // Only used to cancel sessions in a series
+  const [newDate, setNewDate] = useState(session.session_date);
+  const [newTime, setNewTime] = useState(session.session_time.substring(0, 5));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Saves the chosen status; rescheduling also books the replacement session
+   */
+  const handleSave = async () => {
+    if (!status) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (status === 'rescheduled') {
+        await rescheduleSession(session.session_id, { session_date: newDate, session_time: newTime }, reason);
+      } else {
+        await changeSessionStatus(session.session_id, status, reason, CANCELLED_STATUSES.includes(status) ? scope : 'this');
+      }
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update session status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    // Clicking outside the modal closes it without saving
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={onClose}>
+      <div className="modal-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Session Status</h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            {/* Which session this is, and where it is in its lifecycle */}
+            <div style={{
+              backgroundColor: '#f8f9fa',
+              borderRadius: '8px',
+              padding: '16px',
+              marginBottom: '16px',
+              border: '1px solid #dee2e6'
+            }}>
+              <p style={{ margin: 0, fontWeight: '600', color: '#1a1a2e' }}>
+                {session.patient?.first_name} {session.patient?.last_name}
+              </p>
+              <p style={{ margin: '4px 0 0', color: '#6c757d', fontSize: '14px' }}>
+                {new Date(session.session_date).toLocaleDateString('en-GB')} at {session.session_time.substring(0, 5)} · {session.session_type}
+              </p>
+              <p style={{ margin: '8px 0 0', fontSize: '14px' }}>
+                <span className={`session-status ${current}`}>{SESSION_STATUS_LABELS[current]}</span>
+                {session.status_reason && (
+                  <span style={{ marginLeft: '8px', color: '#6c757d' }}>{session.status_reason}</span>
+                )}
+              </p>
+            </div>
+
+            {options.length === 0 ? (
+              <p className="text-muted">
+                This session is {SESSION_STATUS_LABELS[current].toLowerCase()}, so its status can't change.
+              </p>
+            ) : (
+              <>
+                <label className="form-label">Mark as</label>
+                {options.map(option => {
+                  const tooEarly = isFuture && OUTCOME_STATUSES.includes(option);
+                  return (
+                    <div className="form-check" key={option}>
+                      <input
+                        className="form-check-input"
+                        type="radio"
+                        name="session-status"
+                        id={`session-status-${option}`}
+                        checked={status === option}
+                        disabled={tooEarly}
+                        onChange={() => setStatus(option)}
+                      />
+                      <label className="form-check-label" htmlFor={`session-status-${option}`}>
+                        {SESSION_STATUS_LABELS[option]}
+                        {tooEarly && <span className="text-muted"> (after the session)</span>}
+                      </label>
+                    </div>
+                  );
+                })}
+
+                {/* New time - only when rescheduling */}
+                {status === 'rescheduled' && (
+                  <div className="row mt-3">
+                    <div className="col-md-6 mb-3">
+                      <label className="form-label">New Date <span className="text-danger">*</span></label>
+                      <input type="date" className="form-control" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+                    </div>
+                    <div className="col-md-6 mb-3">
+                      <label className="form-label">New Time <span className="text-danger">*</span></label>
+                      <input type="time" className="form-control" value={newTime} onChange={(e) => setNewTime(e.target.value)} />
+                    </div>
+                  </div>
+                )}
+
+                {/* Series scope - cancelling a session in a series can cancel the rest too */}
+                {status && CANCELLED_STATUSES.includes(status) && session.series_id && (
+                  <div className="mt-3">
+                    <SeriesScopeOptions name="cancel-scope" action="Cancel" value={scope} onChange={setScope} />
+                  </div>
+                )}
+
+                <div className="mt-3">
+                  <label className="form-label">Reason (optional)</label>
+                  <textarea
+                    className="form-control"
+                    rows={2}
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Patient unwell"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="modal-footer">
+            <button type="button" className="btn btn-secondary" onClick={onClose} disabled={saving}>
+              Close
+            </button>
+            {options.length > 0 && (
+              <button
+                type="button"
+                className="btn btn-primary"
+                onClick={handleSave}
+                disabled={saving || !status || (status === 'rescheduled' && (!newDate || !newTime))}
+              >
+                {saving ? (
+                  <>
+                    <span className="spinner-border spinner-border-sm me-2"></span>
+                    Saving...
+                  </>
+                ) : (
+                  'Save Status'
+                )}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionStatusModal;
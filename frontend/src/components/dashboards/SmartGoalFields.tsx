@@ -0,0 +1,81 @@
+import React from 'react';
+import { SmartGoalDraft, CRITERION_EXAMPLES, describeSmartGoal } from '../../services/smartGoal';
+
+/**
+ * The SMART goal builder's fields: the specific behaviour, how it is measured and where it is practised
+ * The timeframe is set alongside, by the goal's dates or the template's weeks
+ * Shows the one-line goal the fields add up to
+ */
+const SmartGoalFields: React.FC<{
+  value: SmartGoalDraft;
+  onChange: (draft: SmartGoalDraft) => void;
+}> = ({ value, onChange }) => {
+  const labelStyle = { fontSize: '14px' };
+  const summary = describeSmartGoal(value);
+
+  return (
+    <>
+      <div className="mb-3">
+        <label className="form-label fw-semibold" style={labelStyle}>
+          Specific behaviour <span className="text-danger">*</span>
+        </label>
+        <textarea
+          className="form-control"
+          rows={2}
+          placeholder="e.g. Use easy onset at the start of sentences"
+          maxLength={500}
+          value={value.specific_behaviour}
+          onChange={e => onChange({ ...value, specific_behaviour: e.target.value })}
+        />
+      </div>
+
+      <div className="mb-3">
+        <label className="form-label fw-semibold" style={labelStyle}>
+          Measurable criterion <span className="text-danger">*</span>
+        </label>
+        <input
+          type="text"
+          className="form-control"
+          placeholder="e.g. 80% accuracy over 3 sessions"
+          maxLength={500}
+          value={value.measurable_criterion}
+          onChange={e => onChange({ ...value, measurable_criterion: e.target.value })}
+        />
+        {/* Starting points the therapist can pick and then adjust */}
+        <div className="d-flex flex-wrap gap-1 mt-1">
+          {CRITERION_EXAMPLES.map(example => (
+            <button
+              key={example}
+              type="button"
+              className="btn btn-sm btn-light"
+              style={{ fontSize: '12px' }}
+              onClick={() => onChange({ ...value, measurable_criterion: example })}
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-3">
+        <label className="form-label fw-semibold" style={labelStyle}>Context</label>
+        <input
+          type="text"
+          className="form-control"
+          placeholder="e.g. in conversation with family"
+          maxLength={500}
+          value={value.context}
+          onChange={e => onChange({ ...value, context: e.target.value })}
+        />
+      </div>
+
+      {summary && (
+        <div className="mb-3 p-2 rounded-3" style={{ backgroundColor: '#fff', fontSize: '13px' }}>
+          <span className="text-muted">Goal: </span>{summary}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SmartGoalFields;
@@ -1,25 +1,60 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { getTherapistSessions, searchPatientByEmail, createSessionForPatient, updateSession, deleteSession } from '../../services/supabaseTherapistService';
-import type { Session } from '../../services/supabaseTherapistService';
+import { searchPatientByEmail, buildSeriesDates, MAX_SERIES_OCCURRENCES } from '../../services/supabaseTherapistService';
+import { isTherapistLinkedToPatient, requestPatientLink } from '../../services/supabaseTherapistLinkService';
+import type { Session, SeriesFrequency, SeriesRule, SeriesScope } from '../../services/supabaseTherapistService';
+import {
+  getWorkingHours,
+  getNextFreeSlots,
+  isWithinWorkingHours,
+  DEFAULT_SESSION_MINUTES,
+  DEFAULT_WORKING_HOURS,
+  SESSION_DURATIONS
+} from '../../services/supabaseSchedulingService';
+import type { AvailabilityWindow, FreeSlot } from '../../services/supabaseSchedulingService';
+import { RELEASED_STATUSES, SESSION_STATUS_LABELS } from '../../services/supabaseSessionStatusService';
+import type { SessionStatus } from '../../services/supabaseSessionStatusService';
+import { createSessionForPatient, createSessionSeries, updateSession, deleteSession } from '../../services/dataLayer';
+import { useTherapistSessions } from '../../hooks/queries';
+import WorkingHoursModal from './WorkingHoursModal';
+import CalendarSyncModal from './CalendarSyncModal';
+import SessionStatusModal from './SessionStatusModal';
+import SeriesScopeOptions from './SeriesScopeOptions';
+import CarerInvitations from './CarerInvitations';
+import { useAuth } from '../../context/AuthContext';
 import './TherapistDashboard.css';
 
-// Interface for representing the authenticated user's structure
-interface User {
-  username: string;
-  firstName: string;
-  lastName: string;
-  role: 'therapist' | 'patient' | 'parent_carer';
-  user_id?: string;
-  id?: string;
-}
+// Shown until the first load, and kept the same between renders so the free slots aren't looked up again
+const NO_SESSIONS: Session[] = [];
+
+/**
+ * Dropdown of the offered session lengths
+ */
+const DurationSelect: React.FC<{
+  value: number;
+  onChange: (minutes: number) => void;
+}> = ({ value, onChange }) => (
+  <div className="mb-3">
+    <label className="form-label">Duration <span className="text-danger">*</span></label>
+    <select className="form-select" value={value} onChange={(e) => onChange(Number(e.target.value))}>
+      {SESSION_DURATIONS.map(minutes => (
+        <option key={minutes} value={minutes}>{minutes} minutes</option>
+      ))}
+    </select>
+  </div>
+);
 
 // UI & Data state
 const TherapistDashboard: React.FC = () => {
   const navigate = useNavigate();
-  const [user, setUser] = useState<User | null>(null);
-  const [sessions, setSessions] = useState<Session[]>([]);
-  const [loading, setLoading] = useState(true);
+  // RequireRole only renders this page for a signed-in therapist
+  const { user, logout } = useAuth();
+  const therapistId = user!.user_id;
+  // Read through the shared cache; the session changes below refresh it, so there's nothing to reload here
+  const sessionsQuery = useTherapistSessions(therapistId);
+  const sessions = sessionsQuery.data ?? NO_SESSIONS;
+  const loading = sessionsQuery.loading;
+  // Errors from deleting a session; load errors come from the query
   const [error, setError] = useState<string | null>(null);
 
   // Session filter state
@@ -30,6 +65,8 @@ const TherapistDashboard: React.FC = () => {
   const [formLoading, setFormLoading] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Set when the patient hasn't accepted the therapist yet, so a link request can be sent instead
+  const [unlinkedEmail, setUnlinkedEmail] = useState<string | null>(null);
 
   // Edit modal state
   const [showEditModal, setShowEditModal] = useState(false);
@@ -38,14 +75,20 @@ const TherapistDashboard: React.FC = () => {
   const [editTime, setEditTime] = useState('');
   const [editType, setEditType] = useState('');
   const [editLocation, setEditLocation] = useState('');
+  const [editDuration, setEditDuration] = useState(DEFAULT_SESSION_MINUTES);
   const [editLoading, setEditLoading] = useState(false);
   const [editError, setEditError] = useState<string | null>(null);
   const [editSuccess, setEditSuccess] = useState<string | null>(null);
+  const [editScope, setEditScope] = useState<SeriesScope>('this'); // Only used for sessions in a series
 
   // Delete confirmation state
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [sessionToDelete, setSessionToDelete] = useState<Session | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
+  const [deleteScope, setDeleteScope] = useState<SeriesScope>('this'); // Only used for sessions in a series
+
+  // Session status state - the session whose attendance or cancellation is being recorded
+  const [statusSession, setStatusSession] = useState<Session | null>(null);
 
   // Create session form state (used inside the "Create a Session" modal)
   const [searchEmail, setSearchEmail] = useState('');
@@ -59,56 +102,48 @@ const TherapistDashboard: React.FC = () => {
   });
   const [sessionType, setSessionType] = useState('Initial Assessment');
   const [location, setLocation] = useState('');
+  const [sessionDuration, setSessionDuration] = useState(DEFAULT_SESSION_MINUTES);
+
+  // Working hours - used to warn about out-of-hours bookings and to suggest free slots
+  const [workingHours, setWorkingHours] = useState<AvailabilityWindow[]>(DEFAULT_WORKING_HOURS);
+  const [showWorkingHours, setShowWorkingHours] = useState(false);
+  const [showCalendarSync, setShowCalendarSync] = useState(false);
+  const [freeSlots, setFreeSlots] = useState<FreeSlot[]>([]);
+
+  // Recurring series options (used inside the "Create a Session" modal)
+  const [repeat, setRepeat] = useState<'none' | SeriesFrequency>('none');
+  const [seriesEnd, setSeriesEnd] = useState<'occurrences' | 'until'>('occurrences');
+  const [occurrences, setOccurrences] = useState(6);
+  const [untilDate, setUntilDate] = useState('');
+  const [skipDate, setSkipDate] = useState('');
+  const [skipDates, setSkipDates] = useState<string[]>([]);
 
   /**
-   * Initial effect to authorise user and trigger data loading
+   * Loads the working hours once; the sessions come from the query above
    */
   useEffect(() => {
-    const userStr = localStorage.getItem('userData');
-    if (userStr) {
-      const userData = JSON.parse(userStr);
-      setUser(userData);
-
-      const userRole = userData.user_role || userData.role;
-      if (userRole !== 'therapist') {
-        navigate('/patient-dashboard');
-        return;
-      }
-
-      loadSessions(userData);
-    } else {
-      navigate('/login');
-      return;
-    }
-  }, [navigate]);
+    getWorkingHours(therapistId)
+      .then(({ availability }) => setWorkingHours(availability))
+      .catch(() => {}); // The default working week stays in place
+  }, [therapistId]);
 
   /**
-   * Fetches the list of sessions associated with the current therapist
+   * Suggests the next free slots from the chosen date whenever the Create a Session modal is open
+   * Re-run after a booking too, so a slot that was just taken disappears
    */
-  const loadSessions = async (userData: any) => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const userId = userData.user_id || userData.id;
-      const sessionsData = await getTherapistSessions(userId);
-
-      setSessions(sessionsData);
-    } catch (err: any) {
-      console.error('Error loading sessions:', err);
-      setError(err.message || 'Failed to load sessions');
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (!showModal || !sessionDate) return;
+    getNextFreeSlots(therapistId, sessionDate, sessionDuration)
+      .then(setFreeSlots)
+      .catch(() => setFreeSlots([]));
+  }, [therapistId, showModal, sessionDate, sessionDuration, sessions, workingHours]);
 
   /**
-   * Clears session storage and redirects to login page
+   * Signs out of Supabase and redirects to login page
    */
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('userData');
-    navigate('/login');
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login', { replace: true });
   };
 
   /**
@@ -131,9 +166,11 @@ const TherapistDashboard: React.FC = () => {
     setEditTime(session.session_time ? session.session_time.substring(0, 5) : '');
     setEditType(session.session_type || 'Initial Assessment');
     setEditLocation(session.location || '');
+    setEditDuration(session.duration_minutes || DEFAULT_SESSION_MINUTES);
     // Reset any previous error or success messages 
     setEditError(null);
     setEditSuccess(null);
+    setEditScope('this');
     // Open the edit modal 
     setShowEditModal(true);
   };
@@ -171,13 +208,13 @@ const TherapistDashboard: React.FC = () => {
         session_date: editDate,
         session_time: editTime,
         session_type: editType,
+        duration_minutes: editDuration,
         // Default to 'To be determined' if location is left empty 
         location: editLocation || 'To be determined'
-      });
+      }, editScope);
 
-      setEditSuccess('Session updated successfully!');
-      // Refresh the session list so the updated data appears immediately 
-      if (user) await loadSessions(user);
+      setEditSuccess(editScope === 'this' ? 'Session updated successfully!' : 'Sessions updated successfully!');
+      // The session list refreshes itself, as updateSession invalidates the cached sessions
 
       // Auto-close the modal after 1.5 seconds 
       setTimeout(() => {
@@ -200,6 +237,7 @@ const TherapistDashboard: React.FC = () => {
    */
   const handleDeleteClick = (session: Session) => {
     setSessionToDelete(session);
+    setDeleteScope('this');
     setShowDeleteConfirm(true);
   };
 
@@ -213,9 +251,7 @@ const TherapistDashboard: React.FC = () => {
       setDeleteLoading(true);
 
       // Delete the session from the Supabase using its ID 
-      await deleteSession(sessionToDelete.session_id);
-      // Refresh the session list so the deleted session disappears immediately
-      if (user) await loadSessions(user);
+      await deleteSession(sessionToDelete.session_id, deleteScope);
       // Close the modal and reset the selected session 
       setShowDeleteConfirm(false);
       setSessionToDelete(null);
@@ -229,13 +265,48 @@ const TherapistDashboard: React.FC = () => {
   };
 
   /**
-   * Handle linking existing patient
-   * Validates email, checks for patient existence, and creates the first session
+   * Builds the repeat rule from the series options, or null for a one-off session
+   */
+  const getSeriesRule = (): SeriesRule | null => {
+    if (repeat === 'none') return null;
+    return seriesEnd === 'occurrences'
+      ? { frequency: repeat, occurrences, skip_dates: skipDates }
+      : { frequency: repeat, until_date: untilDate, skip_dates: skipDates };
+  };
+
+  /**
+   * Dates the series would be booked on, shown under the series options before booking
+   * Returns an empty list while the options are incomplete or invalid
+   */
+  const getSeriesPreview = (): string[] => {
+    const rule = getSeriesRule();
+    if (!rule || (seriesEnd === 'until' && !untilDate)) return [];
+    try {
+      return buildSeriesDates(sessionDate, rule);
+    } catch {
+      return [];
+    }
+  };
+
+  /**
+   * Adds the chosen date to the dates the series should skip (e.g. school holidays)
+   */
+  const handleAddSkipDate = () => {
+    if (!skipDate || skipDates.includes(skipDate)) return;
+    setSkipDates([...skipDates, skipDate].sort());
+    setSkipDate('');
+  };
+
+  /**
+   * Handle booking an existing patient
+   * Validates email, checks the patient exists and has accepted the therapist, and creates the session
+   * (or every session of a recurring series)
    */
   const handleLinkPatient = async (e: React.FormEvent) => {
     e.preventDefault();
     setFormError(null);
     setSuccessMessage(null);
+    setUnlinkedEmail(null);
 
     // Validation
     if (!searchEmail) {
@@ -275,6 +346,19 @@ const TherapistDashboard: React.FC = () => {
       }
     }
 
+    // Series validation — the block needs an end, and must fit within the maximum length
+    const seriesRule = getSeriesRule();
+    if (seriesRule) {
+      if (seriesEnd === 'occurrences' && (!Number.isInteger(occurrences) || occurrences < 2 || occurrences > MAX_SERIES_OCCURRENCES)) {
+        setFormError(`A series needs between 2 and ${MAX_SERIES_OCCURRENCES} sessions.`);
+        return;
+      }
+      if (seriesEnd === 'until' && (!untilDate || untilDate <= sessionDate)) {
+        setFormError('Please choose an end date after the first session date.');
+        return;
+      }
+    }
+
     try {
       setFormLoading(true);
 
@@ -287,22 +371,35 @@ const TherapistDashboard: React.FC = () => {
         return;
       }
 
-      // Link therapist and patient by creating an initial session
-      const userId = user?.user_id || user?.id;
-      // Create the record in the 'sessions' table to link the two users 
-      await createSessionForPatient(
-        patient.user_id, // Patient ID 
-        userId!, // The current Therapist's ID 
-        {
-          session_date: sessionDate,
-          session_time: sessionTime + ':00', // Append seconds to meet database 'HH:mm:ss' format
-          session_type: sessionType,
-          location: location || 'To be determined' // Default text if location is empty
-        }
-      );
-
-      // Success message 
-      setSuccessMessage(`Successfully linked ${patient.first_name} ${patient.last_name}!`);
+      // Sessions can only be booked once the patient has accepted the therapist
+      if (!(await isTherapistLinkedToPatient(therapistId, patient.user_id))) {
+        setFormError(`${patient.first_name} ${patient.last_name} has not accepted you as their therapist yet.`);
+        setUnlinkedEmail(searchEmail);
+        return;
+      }
+
+      const sessionData = {
+        session_date: sessionDate,
+        session_time: sessionTime + ':00', // Append seconds to meet database 'HH:mm:ss' format
+        session_type: sessionType,
+        duration_minutes: sessionDuration,
+        location: location || 'To be determined' // Default text if location is empty
+      };
+
+      if (seriesRule) {
+        // Book every occurrence of the series
+        const booked = await createSessionSeries(patient.user_id, therapistId, sessionData, seriesRule);
+        setSuccessMessage(`Booked ${booked.length} sessions with ${patient.first_name} ${patient.last_name}!`);
+      } else {
+        await createSessionForPatient(
+          patient.user_id, // Patient ID 
+          therapistId, // The current Therapist's ID 
+          sessionData
+        );
+
+        // Success message 
+        setSuccessMessage(`Booked a session with ${patient.first_name} ${patient.last_name}!`);
+      }
 
       // Reset form on success
       setSearchEmail('');
@@ -311,11 +408,12 @@ const TherapistDashboard: React.FC = () => {
       setSessionTime(`${String(nowReset.getHours()).padStart(2, '0')}:${String(nowReset.getMinutes()).padStart(2, '0')}`);
       setSessionType('Initial Assessment');
       setLocation('');
-
-      // Refresh the dashboard data so the new session appears immediately
-      if (user) {
-        await loadSessions(user);
-      }
+      setSessionDuration(DEFAULT_SESSION_MINUTES);
+      setRepeat('none');
+      setSeriesEnd('occurrences');
+      setOccurrences(6);
+      setUntilDate('');
+      setSkipDates([]);
 
       // Auto-close modal after 2 seconds, user can see the success message and close the popup
       setTimeout(() => {
@@ -324,14 +422,32 @@ const TherapistDashboard: React.FC = () => {
       }, 2000);
 
     } catch (err: any) {
-      console.error('Error linking patient:', err);
-      setFormError(err.message || 'Failed to link patient. Please try again.');
+      console.error('Error booking session:', err);
+      setFormError(err.message || 'Failed to book the session. Please try again.');
     } finally {
       // Always stop the 'loading' spinner regardless of success or failure
       setFormLoading(false);
     }
   };
 
+  /**
+   * Asks a patient who hasn't accepted the therapist yet to do so; sessions can be booked once they have
+   */
+  const handleRequestLink = async () => {
+    if (!unlinkedEmail) return;
+    try {
+      setFormLoading(true);
+      setFormError(null);
+      await requestPatientLink(therapistId, unlinkedEmail);
+      setUnlinkedEmail(null);
+      setSuccessMessage('Link request sent. You can book sessions once the patient accepts it.');
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to send the link request');
+    } finally {
+      setFormLoading(false);
+    }
+  };
+
   /**
    * Format date for display in GB format
    */
@@ -413,6 +529,9 @@ const TherapistDashboard: React.FC = () => {
     );
   }
 
+  // Dates the series options would book, shown in the Create a Session modal
+  const seriesPreview = getSeriesPreview();
+
   /** UI Components */
   return (
     <div className="therapist-dashboard">
@@ -462,6 +581,14 @@ const TherapistDashboard: React.FC = () => {
             </svg>
             <span>Goals & Exercises</span>
           </div>
+          {/* Exercise Library — navigates to the exercise library page */}
+          <div className="sidebar-item" onClick={() => navigate('/therapist/exercises')} style={{ cursor: 'pointer' }}>
+            <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/>
+              <path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/>
+            </svg>
+            <span>Exercise Library</span>
+          </div>
           {/* Resources - navigates to the resources page */}
           <div className="sidebar-item" onClick={() => navigate('/therapist/resources')} style={{ cursor: 'pointer' }}>
             <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
@@ -522,15 +649,38 @@ const TherapistDashboard: React.FC = () => {
             >
               View All Patients
             </button>
+            {/* Working Hours button - opens the weekly availability editor */}
+            <button
+              onClick={() => setShowWorkingHours(true)}
+              style={{
+                padding: '12px 24px',
+                backgroundColor: 'white',
+                color: '#007bff',
+                border: '1.5px solid #007bff',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                fontSize: '16px',
+                fontWeight: '600',
+                boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+                transition: 'all 0.3s'
+              }}
+              onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#eef5ff'}
+              onMouseOut={(e) => e.currentTarget.style.backgroundColor = 'white'}
+            >
+              Working Hours
+            </button>
           </div>
 
-          {/* Error Message - only shown if session loading fails */}
-          {error && (
+          {/* Error Message - only shown if session loading or deleting fails */}
+          {(error || sessionsQuery.error) && (
             <div className="alert alert-danger mx-3" role="alert">
-              {error}
+              {error || sessionsQuery.error?.message || 'Failed to load sessions'}
             </div>
           )}
 
+          {/* Parent/carer requests for any of this therapist's patients - hidden when there are none */}
+          {user && <CarerInvitations userId={user.user_id} role="therapist" />}
+
           {/* Sessions Card - displays the list of recent sessions */}
           <div className="sessions-card">
 
@@ -543,25 +693,37 @@ const TherapistDashboard: React.FC = () => {
             }}>
               <h3 className="card-title" style={{ margin: 0 }}>Recent Sessions</h3>
 
-              {/* Session filter dropdown - filters sessions by time period */}
-              <select
-                value={sessionFilter}
-                onChange={e => setSessionFilter(e.target.value)}
-                style={{
-                  padding: '8px 12px',
-                  borderRadius: '8px',
-                  border: '1px solid #dee2e6',
-                  fontSize: '14px',
-                  color: '#1a1a2e',
-                  cursor: 'pointer',
-                  backgroundColor: '#fff'
-                }}
-              >
-                <option value="all">All Sessions</option>
-                <option value="this_week">This Week</option>
-                <option value="past">Past Appointments</option>
-                <option value="upcoming">Upcoming</option>
-              </select>
+              <div className="d-flex align-items-center gap-2">
+                {/* Calendar button - download an .ics file or get a feed link */}
+                <button
+                  type="button"
+                  className="btn btn-outline-primary btn-sm"
+                  onClick={() => setShowCalendarSync(true)}
+                >
+                  <i className="bi bi-calendar-plus me-2"></i>
+                  Add to Calendar
+                </button>
+
+                {/* Session filter dropdown - filters sessions by time period */}
+                <select
+                  value={sessionFilter}
+                  onChange={e => setSessionFilter(e.target.value)}
+                  style={{
+                    padding: '8px 12px',
+                    borderRadius: '8px',
+                    border: '1px solid #dee2e6',
+                    fontSize: '14px',
+                    color: '#1a1a2e',
+                    cursor: 'pointer',
+                    backgroundColor: '#fff'
+                  }}
+                >
+                  <option value="all">All Sessions</option>
+                  <option value="this_week">This Week</option>
+                  <option value="past">Past Appointments</option>
+                  <option value="upcoming">Upcoming</option>
+                </select>
+              </div>
             </div>
             
             {/* Empty state - shown when no sessions exist */}
@@ -583,6 +745,7 @@ const TherapistDashboard: React.FC = () => {
                   <div className="th">DATE</div>
                   <div className="th">TIME</div>
                   <div className="th">TYPE</div>
+                  <div className="th">STATUS</div>
                   <div className="th">ACTIONS</div>
                 </div>
 
@@ -613,13 +776,25 @@ const TherapistDashboard: React.FC = () => {
                       {/* Session time - trimmed to HH:MM */}
                       <div className="td">{formatTime(session.session_time)}</div>
                       {/* Session type */}
-                      <div className="td">{session.session_type || 'Assessment'}</div>
+                      <div className="td">
+                        {session.session_type || 'Assessment'}
+                        {/* Repeat icon marks sessions booked as part of a series */}
+                        {session.series_id && (
+                          <i className="bi bi-arrow-repeat ms-2" title="Part of a recurring series" style={{ color: '#6c757d' }}></i>
+                        )}
+                      </div>
+                      {/* Session status - the reason shows on hover */}
+                      <div className="td">
+                        <span className={`session-status ${session.status}`} title={session.status_reason || undefined}>
+                          {SESSION_STATUS_LABELS[session.status as SessionStatus]}
+                        </span>
+                      </div>
 
                       {/* Actions column */}
                       <div className="td">
                       <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '6px' }}>
 
-                      {/* Edit & Delete — only visible on row hover */}
+                      {/* Status, Edit & Delete — only visible on row hover */}
                       <div
                         className="hover-actions"
                         style={{
@@ -629,7 +804,32 @@ const TherapistDashboard: React.FC = () => {
                           transition: 'opacity 0.2s ease'
                         }}
                       >
+                        {/* Status button — blue outline, records attendance, cancellation or a new time */}
+                        <button
+                          onClick={() => setStatusSession(session)}
+                          title="Update status"
+                          style={{
+                            width: '30px',
+                            height: '30px',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            backgroundColor: 'white',
+                            border: '1.5px solid #0d6efd',
+                            borderRadius: '6px',
+                            cursor: 'pointer',
+                            padding: 0,
+                            transition: 'background-color 0.2s'
+                          }}
+                          onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#f0f6ff'}
+                          onMouseOut={(e) => e.currentTarget.style.backgroundColor = 'white'}
+                        >
+                          <i className="bi bi-check2-circle" style={{ color: '#0d6efd', fontSize: '14px' }}></i>
+                        </button>
+
                         {/* Edit button — amber outline, white background, opens edit modal */}
+                        {/* Cancelled and rescheduled sessions can't be edited */}
+                        {!RELEASED_STATUSES.includes(session.status as SessionStatus) && (
                         <button
                           onClick={() => handleEditClick(session)}
                           title="Edit session"
@@ -654,6 +854,7 @@ const TherapistDashboard: React.FC = () => {
                             <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"/>
                           </svg>
                         </button>
+                        )}
 
                         {/* Delete button — red outline, white background, opens delete confirmation modal */}
                         <button
@@ -722,14 +923,22 @@ const TherapistDashboard: React.FC = () => {
                 <button type="button" className="btn-close" onClick={() => setShowModal(false)}></button>
               </div>
               <div className="modal-body">
-                {/* Error message - shown if validation or linking fails */}
+                {/* Error message - shown if validation or booking fails */}
                 {formError && (
                   <div className="alert alert-danger alert-dismissible fade show">
                     {formError}
+                    {/* The patient hasn't accepted the therapist - offer to ask them */}
+                    {unlinkedEmail && (
+                      <div className="mt-2">
+                        <button type="button" className="btn btn-sm btn-outline-danger" disabled={formLoading} onClick={handleRequestLink}>
+                          Send link request
+                        </button>
+                      </div>
+                    )}
                     <button type="button" className="btn-close" onClick={() => setFormError(null)}></button>
                   </div>
                 )}
-                {/* Success message - shown when patient is successfully linked */}
+                {/* Success message - shown when the session is booked or a link request is sent */}
                 {successMessage && (
                   <div className="alert alert-success alert-dismissible fade show">
                     {successMessage}
@@ -737,9 +946,9 @@ const TherapistDashboard: React.FC = () => {
                   </div>
                 )}
 
-                {/* Info banner - reminds therapist than patient must register first */}
+                {/* Info banner - reminds therapist than patient must register and accept them first */}
                 <div className="alert alert-info">
-                  <strong>Note:</strong> The patient must register first before you can link them. Ask your patient to create an account, then enter their email here.
+                  <strong>Note:</strong> The patient must register and accept your link request before you can book sessions with them. Ask your patient to create an account, then enter their email here.
                 </div>
 
                 <form onSubmit={handleLinkPatient}>
@@ -790,6 +999,42 @@ const TherapistDashboard: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Session Duration - used to spot overlapping sessions */}
+                  <DurationSelect value={sessionDuration} onChange={setSessionDuration} />
+
+                  {/* Working hours warning - booking is still allowed */}
+                  {sessionTime && !isWithinWorkingHours(workingHours, {
+                    session_date: sessionDate,
+                    session_time: sessionTime,
+                    duration_minutes: sessionDuration
+                  }) && (
+                    <div className="alert alert-warning py-2">
+                      This session is outside your working hours.
+                    </div>
+                  )}
+
+                  {/* Next free slots - clicking one fills in the date and time */}
+                  {freeSlots.length > 0 && (
+                    <div className="mb-3">
+                      <label className="form-label">Next free slots</label>
+                      <div className="d-flex flex-wrap gap-2">
+                        {freeSlots.map(slot => (
+                          <button
+                            key={`${slot.session_date} ${slot.session_time}`}
+                            type="button"
+                            className="btn btn-outline-primary btn-sm"
+                            onClick={() => {
+                              setSessionDate(slot.session_date);
+                              setSessionTime(slot.session_time.substring(0, 5));
+                            }}
+                          >
+                            {formatDate(slot.session_date)} {formatTime(slot.session_time)}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Session type dropdown - defaults to initial assessment */}
                   <div className="mb-3">
                     <label className="form-label">Session Type <span className="text-danger">*</span></label>
@@ -819,6 +1064,103 @@ const TherapistDashboard: React.FC = () => {
                     <small className="text-muted">Leave blank for "To be determined"</small>
                   </div>
 
+                  {/* Repeat dropdown - books a weekly or fortnightly block instead of a single session */}
+                  <div className="mb-3">
+                    <label className="form-label">Repeat</label>
+                    <select
+                      className="form-select"
+                      value={repeat}
+                      onChange={(e) => setRepeat(e.target.value as 'none' | SeriesFrequency)}
+                    >
+                      <option value="none">Does not repeat</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="fortnightly">Fortnightly</option>
+                    </select>
+                  </div>
+
+                  {repeat !== 'none' && (
+                    <div className="mb-3" style={{ backgroundColor: '#f8f9fa', borderRadius: '8px', padding: '16px' }}>
+                      {/* Series end - after a number of sessions or on a date */}
+                      <label className="form-label">Ends</label>
+                      <div className="d-flex align-items-center gap-2 mb-2">
+                        <input
+                          className="form-check-input mt-0"
+                          type="radio"
+                          name="series-end"
+                          checked={seriesEnd === 'occurrences'}
+                          onChange={() => setSeriesEnd('occurrences')}
+                        />
+                        <span>After</span>
+                        <input
+                          type="number"
+                          className="form-control form-control-sm"
+                          style={{ width: '80px' }}
+                          min={2}
+                          max={MAX_SERIES_OCCURRENCES}
+                          value={occurrences}
+                          onChange={(e) => setOccurrences(Number(e.target.value))}
+                          disabled={seriesEnd !== 'occurrences'}
+                        />
+                        <span>sessions</span>
+                      </div>
+                      <div className="d-flex align-items-center gap-2 mb-3">
+                        <input
+                          className="form-check-input mt-0"
+                          type="radio"
+                          name="series-end"
+                          checked={seriesEnd === 'until'}
+                          onChange={() => setSeriesEnd('until')}
+                        />
+                        <span>On</span>
+                        <input
+                          type="date"
+                          className="form-control form-control-sm"
+                          style={{ width: '180px' }}
+                          min={sessionDate}
+                          value={untilDate}
+                          onChange={(e) => setUntilDate(e.target.value)}
+                          disabled={seriesEnd !== 'until'}
+                        />
+                      </div>
+
+                      {/* Skip dates - e.g. school holidays; skipped sessions don't count towards the total */}
+                      <label className="form-label">Skip dates</label>
+                      <div className="d-flex gap-2 mb-2">
+                        <input
+                          type="date"
+                          className="form-control form-control-sm"
+                          style={{ width: '180px' }}
+                          min={sessionDate}
+                          value={skipDate}
+                          onChange={(e) => setSkipDate(e.target.value)}
+                        />
+                        <button type="button" className="btn btn-outline-secondary btn-sm" onClick={handleAddSkipDate}>
+                          Skip
+                        </button>
+                      </div>
+                      <div className="d-flex flex-wrap gap-2 mb-2">
+                        {skipDates.map(date => (
+                          <span key={date} className="badge bg-secondary">
+                            {formatDate(date)}
+                            <button
+                              type="button"
+                              className="btn-close btn-close-white ms-2"
+                              style={{ fontSize: '8px' }}
+                              onClick={() => setSkipDates(skipDates.filter(d => d !== date))}
+                            ></button>
+                          </span>
+                        ))}
+                      </div>
+
+                      {/* Preview of the dates that will be booked */}
+                      {seriesPreview.length > 0 && (
+                        <small className="text-muted">
+                          {seriesPreview.length} sessions: {seriesPreview.map(formatDate).join(', ')}
+                        </small>
+                      )}
+                    </div>
+                  )}
+
                   {/* Modal footer - cancel and submit buttons */}
                   <div className="modal-footer">
                     {/* Cancel button - closes modal without saving */}
@@ -840,10 +1182,10 @@ const TherapistDashboard: React.FC = () => {
                       {formLoading ? (
                         <>
                           <span className="spinner-border spinner-border-sm me-2"></span>
-                          Linking...
+                          Booking...
                         </>
                       ) : (
-                        'Create Session'
+                        repeat === 'none' ? 'Create Session' : 'Create Sessions'
                       )}
                     </button>
                   </div>
@@ -854,6 +1196,29 @@ const TherapistDashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Working Hours Modal */}
+      {showWorkingHours && (
+        <WorkingHoursModal
+          therapistId={therapistId}
+          onClose={() => setShowWorkingHours(false)}
+          onSaved={(windows) => setWorkingHours(windows.length > 0 ? windows : DEFAULT_WORKING_HOURS)}
+        />
+      )}
+
+      {/* Calendar Export Modal */}
+      {showCalendarSync && (
+        <CalendarSyncModal userId={therapistId} onClose={() => setShowCalendarSync(false)} />
+      )}
+
+      {/* Session Status Modal */}
+      {/* Opens when therapist clicks the status icon on a session row */}
+      {statusSession && (
+        <SessionStatusModal
+          session={statusSession}
+          onClose={() => setStatusSession(null)}
+        />
+      )}
+
       {/* Edit Session Modal */}
       {/* Opens when therapist clicks the edit icon on a session row  */}
       {showEditModal && editSession && (
@@ -917,6 +1282,20 @@ const TherapistDashboard: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Session Duration - pre-filled with the existing duration */}
+                  <DurationSelect value={editDuration} onChange={setEditDuration} />
+
+                  {/* Working hours warning - saving is still allowed */}
+                  {editTime && !isWithinWorkingHours(workingHours, {
+                    session_date: editDate,
+                    session_time: editTime,
+                    duration_minutes: editDuration
+                  }) && (
+                    <div className="alert alert-warning py-2">
+                      This session is outside your working hours.
+                    </div>
+                  )}
+
                   {/* Session Type dropdown - pre-filled with the existing session type */}
                   <div className="mb-3">
                     <label className="form-label">Session Type <span className="text-danger">*</span></label>
@@ -946,6 +1325,11 @@ const TherapistDashboard: React.FC = () => {
                     <small className="text-muted">Leave blank for "To be determined"</small>
                   </div>
 
+                  {/* Series scope - moving the date moves every chosen session by the same number of days */}
+                  {editSession.series_id && (
+                    <SeriesScopeOptions name="edit-scope" action="Change" value={editScope} onChange={setEditScope} />
+                  )}
+
                   {/* Modal Footer - cancel and save changes buttons */}
                   <div className="modal-footer">
                     {/* Cancel button - closes modal without saving */}
@@ -1016,6 +1400,18 @@ const TherapistDashboard: React.FC = () => {
                   </p>
                 </div>
 
+                {/* Series scope - only shown for sessions in a recurring series */}
+                {sessionToDelete.series_id && (
+                  <div style={{ marginTop: '16px' }}>
+                    <SeriesScopeOptions name="delete-scope" action="Delete" value={deleteScope} onChange={setDeleteScope} />
+                  </div>
+                )}
+
+                {/* Deleting is for sessions booked by mistake - cancelling keeps the session on record */}
+                <p style={{ marginTop: '16px', color: '#6c757d', fontSize: '14px' }}>
+                  If this session isn't going ahead, cancel it from its status instead to keep it in the patient's attendance record.
+                </p>
+
                 {/* Warning message - reminds therapist this action cannot be undone */}
                 <p style={{ marginTop: '16px', color: '#dc3545', fontSize: '14px' }}>
                   ⚠️ This action cannot be undone.
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getPendingTherapistLinkRequests,
+  respondToTherapistLinkRequest,
+  TherapistLinkRequest
+} from '../../services/supabaseTherapistLinkService';
+
+/**
+ * Therapists asking to take the patient on, shown on the patient dashboard
+ * Accepting lets the therapist book sessions and set goals; renders nothing when there are none
+ */
+const TherapistLinkRequests: React.FC<{
+  patientId: string;
+  onAccepted: () => void;
+}> = ({ patientId, onAccepted }) => {
+  const [requests, setRequests] = useState<TherapistLinkRequest[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tracks which request is being answered so its buttons can be disabled
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPendingTherapistLinkRequests(patientId)
+      .then(setRequests)
+      .catch(() => setError('Failed to load therapist requests'));
+  }, [patientId]);
+
+  /**
+   * Accepts or declines a request and removes it from the list
+   */
+  const handleRespond = async (requestId: string, accept: boolean) => {
+    try {
+      setRespondingId(requestId);
+      setError(null);
+      await respondToTherapistLinkRequest(requestId, accept);
+      setRequests(prev => prev.filter(r => r.request_id !== requestId));
+      if (accept) onAccepted();
+    } catch (err: any) {
+      setError(err.message || 'Failed to answer the request');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (requests.length === 0 && !error) return null;
+
+  return (
+    <div style={{
+      backgroundColor: '#fff', border: '1px solid #dee2e6',
+      borderRadius: '12px', padding: '20px 24px', marginBottom: '24px', textAlign: 'left'
+    }}>
+      <h5 style={{ marginBottom: '4px', color: '#1a1a2e' }}>
+        <i className="bi bi-person-check me-2"></i>Therapist requests
+      </h5>
+      <p style={{ color: '#6c757d', fontSize: '14px', marginBottom: '16px' }}>
+        Accepting lets the therapist book your sessions, set your goals and see your progress
+      </p>
+
+      {error && <div className="alert alert-danger py-2">{error}</div>}
+
+      {requests.map(request => (
+        <div
+          key={request.request_id}
+          style={{
+            display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+            padding: '12px 0', borderTop: '1px solid #f0f0f0', gap: '12px', flexWrap: 'wrap'
+          }}
+        >
+          <div style={{ fontSize: '14px' }}>
+            <strong>{request.therapist?.first_name} {request.therapist?.last_name}</strong>
+            {request.therapist?.clinic_name && (
+              <span style={{ color: '#6c757d' }}> ({request.therapist.clinic_name})</span>
+            )}
+            <div style={{ color: '#6c757d', fontSize: '13px' }}>{request.therapist?.email}</div>
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button
+              className="btn btn-primary btn-sm"
+              disabled={respondingId === request.request_id}
+              onClick={() => handleRespond(request.request_id, true)}
+            >
+              Accept
+            </button>
+            <button
+              className="btn btn-outline-secondary btn-sm"
+              disabled={respondingId === request.request_id}
+              onClick={() => handleRespond(request.request_id, false)}
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TherapistLinkRequests;
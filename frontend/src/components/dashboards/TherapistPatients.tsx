@@ -1,20 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { getTherapistPatients, Patient } from '../../services/supabaseTherapistService';
+import { Patient } from '../../services/supabaseTherapistService';
+import { AttendanceSummary } from '../../services/supabaseSessionStatusService';
+import { useTherapistPatients, useTherapistAttendance } from '../../hooks/queries';
+import { useAuth } from '../../context/AuthContext';
 import './TherapistDashboard.css';
 import './PatientDetails.css';
 
-/**
- * Represents the logged-in user session structure 
- */
-interface User {
-  username: string;
-  firstName: string;
-  lastName: string;
-  role: 'therapist' | 'patient' | 'parent_carer';
-  user_id?: string;
-  id?: string;
-}
+// Shown until the first load, and kept the same between renders so the search filter doesn't re-run
+const NO_PATIENTS: Patient[] = [];
+const NO_ATTENDANCE: Record<string, AttendanceSummary> = {};
 
 const TherapistPatients: React.FC = () => {
   const navigate = useNavigate();
@@ -24,50 +19,23 @@ const TherapistPatients: React.FC = () => {
    * Manages the patient list, search term, loading and error states 
    */
 
- // Full list of patients from Supabase 
-  const [patients, setPatients] = useState<Patient[]>([]);
+  // The logged-in therapist - RequireRole only renders this page for therapists
+  const { user, logout } = useAuth();
+  // Full list of patients and their attendance at this therapist's sessions, keyed by patient ID
+  // Read through the shared cache, so coming back to this page shows them straight away
+  const patientsQuery = useTherapistPatients(user!.user_id);
+  const attendanceQuery = useTherapistAttendance(user!.user_id);
+  const patients = patientsQuery.data ?? NO_PATIENTS;
+  const attendance = attendanceQuery.data ?? NO_ATTENDANCE;
   // Filtered list based on search 
   const [filteredPatients, setFilteredPatients] = useState<Patient[]>([]);
   // Current search input value 
   const [searchTerm, setSearchTerm] = useState('');
   // Controls the loading spinner 
-  const [loading, setLoading] = useState(true);
+  const loading = patientsQuery.loading || attendanceQuery.loading;
   // Stores any error messages 
-  const [error, setError] = useState<string | null>(null);
-  // Stores the logged-in therapist 
-  const [user, setUser] = useState<User | null>(null);
-
-  /**
-   * Effect: Authentication & Authorisation 
-   * Redirects to login if user is not authenticated or not a therapist 
-   */
-
-  useEffect(() => {
-    const userDataString = localStorage.getItem('userData');
-    const userData = userDataString ? JSON.parse(userDataString) : null;
-
-    // Redirects to login if no user data found in local storage 
-    if (!userData) {
-      navigate('/login');
-      return;
-    }
-
-    /**
-     * Check multiple possible key names for roles to ensure compatibility 
-     */
-
-    const userRole = userData?.user_role || userData?.role || userData?.userRole;
-
-    // Redirects non-therapist users back to login
-    if (userRole !== 'therapist') {
-      console.log(' Not authorised - redirecting to login');
-      navigate('/login');
-      return;
-    }
-
-    setUser(userData);
-    loadPatients(userData);
-  }, [navigate]);
+  const loadError = patientsQuery.error || attendanceQuery.error;
+  const error = loadError ? loadError.message || 'Failed to load patients' : null;
 
   /**
    * Effect: Client-side Search Filtering 
@@ -89,35 +57,13 @@ const TherapistPatients: React.FC = () => {
     }
   }, [searchTerm, patients]);
 
-  /**
-   * Fetches the list of patients from Supabase 
-   */
-  const loadPatients = async (userData: any) => {
-    try {
-      setLoading(true);
-      // Retrieve the correct user ID from the session data 
-      const userId = userData.user_id || userData.id;
-      const data = await getTherapistPatients(userId);
-      // Set both the full list and the filtered list to the same data initial load
-      setPatients(data);
-      setFilteredPatients(data);
-    } catch (err: any) {
-      setError(err.message || 'Failed to load patients');
-    } finally {
-      // Always stop the loading spinner regardless of success or failure
-      setLoading(false);
-    }
-  };
-
- 
-
   /**
    * Event Handlers
-   * Clears session data from local storage and redirects to login
+   * Signs out of Supabase and redirects to login
    */
-  const handleLogout = () => {
-    localStorage.removeItem('userData');
-    navigate('/login');
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login', { replace: true });
   };
 
   /**
@@ -142,6 +88,15 @@ const TherapistPatients: React.FC = () => {
     });
   };
 
+  /**
+   * Describes a patient's attendance, e.g. "83% (5 of 6 sessions)"
+   */
+  const formatAttendance = (summary?: AttendanceSummary) => {
+    if (!summary || summary.attendanceRate === null) return 'No sessions recorded yet';
+    const expected = summary.attended + summary.noShows + summary.cancelledByPatient;
+    return `${summary.attendanceRate}% (${summary.attended} of ${expected} sessions)`;
+  };
+
   /**
    * Calculates current age based on Date of Birth
    * Accounts for whether the birthday has occurred yet this year 
@@ -217,6 +172,14 @@ const TherapistPatients: React.FC = () => {
             </svg>
             <span>Goals & Exercises</span>
           </div>
+          {/* Exercise Library — navigates to the exercise library page */}
+          <div className="sidebar-item" onClick={() => navigate('/therapist/exercises')} style={{ cursor: 'pointer' }}>
+            <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/>
+              <path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/>
+            </svg>
+            <span>Exercise Library</span>
+          </div>
           
           <div className="sidebar-item">
             <svg className="sidebar-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor">
@@ -360,12 +323,17 @@ const TherapistPatients: React.FC = () => {
                         {/* Dynamically calculated age from date of birth */}
                         <span>Age: {calculateAge(patient.date_of_birth)} years</span>
                       </div>
-                      <div style={{ display: 'flex', alignItems: 'center' }}>
+                      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '6px' }}>
                         <svg width="14" height="14" fill="currentColor" viewBox="0 0 16 16" style={{ marginRight: '8px' }}>
                           <path d="M4 .5a.5.5 0 0 0-1 0V1H2a2 2 0 0 0-2 2v1h16V3a2 2 0 0 0-2-2h-1V.5a.5.5 0 0 0-1 0V1H4V.5zM16 14V5H0v9a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2z"/>
                         </svg>
                         <span>Joined: {formatDate(patient.therapy_start_date)}</span>
                       </div>
+                      {/* Attended out of the sessions the patient was expected at */}
+                      <div style={{ display: 'flex', alignItems: 'center' }}>
+                        <i className="bi bi-check2-circle" style={{ marginRight: '8px', fontSize: '14px' }}></i>
+                        <span>Attendance: {formatAttendance(attendance[patient.user_id])}</span>
+                      </div>
                     </div>
 
                     {/* View Details Button */}
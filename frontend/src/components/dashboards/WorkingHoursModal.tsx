@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getWorkingHours,
+  saveWorkingHours,
+  AvailabilityWindow
+} from '../../services/supabaseSchedulingService';
+
+// Monday first, matching how the week is shown everywhere else
+const DAYS = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 0, label: 'Sunday' }
+];
+
+/**
+ * Lets a therapist set the weekly hours they take sessions in
+ * Each day can have several windows (e.g. a lunch break); a day with none is a day off
+ * onSaved receives the new week so the dashboard can update its warnings and free slots
+ */
+const WorkingHoursModal: React.FC<{
+  therapistId: string;
+  onClose: () => void;
+  onSaved: (windows: AvailabilityWindow[]) => void;
+}> = ({ therapistId, onClose, onSaved }) => {
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [usingDefault, setUsingDefault] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getWorkingHours(therapistId)
+      .then(({ availability, usingDefault }) => {
+        // Times are edited as HH:mm in the time inputs
+        setWindows(availability.map(w => ({
+          ...w,
+          start_time: w.start_time.substring(0, 5),
+          end_time: w.end_time.substring(0, 5)
+        })));
+        setUsingDefault(usingDefault);
+      })
+      .catch(() => setError('Failed to load working hours'))
+      .finally(() => setLoading(false));
+  }, [therapistId]);
+
+  /**
+   * Adds a window to a day, starting where its last window ends
+   */
+  const handleAddWindow = (day: number) => {
+    const dayWindows = windows.filter(w => w.day_of_week === day);
+    const start = dayWindows.length > 0 ? dayWindows[dayWindows.length - 1].end_time : '09:00';
+    const end = start < '17:00' ? '17:00' : '23:59';
+    setWindows([...windows, { day_of_week: day, start_time: start, end_time: end }]);
+  };
+
+  /**
+   * Updates the start or end time of one window
+   */
+  const handleChangeWindow = (index: number, field: 'start_time' | 'end_time', value: string) => {
+    setWindows(windows.map((w, i) => (i === index ? { ...w, [field]: value } : w)));
+  };
+
+  /**
+   * Saves the whole week, replacing the previous working hours
+   */
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const toSave = windows.map(w => ({ ...w, start_time: w.start_time + ':00', end_time: w.end_time + ':00' }));
+      await saveWorkingHours(therapistId, toSave);
+      onSaved(toSave);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save working hours');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    // Clicking outside the modal closes it without saving
+    <div className="modal show d-block" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }} onClick={onClose}>
+      <div className="modal-dialog modal-lg modal-dialog-scrollable" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-content">
+          <div className="modal-header">
+            <h5 className="modal-title">Working Hours</h5>
+            <button type="button" className="btn-close" onClick={onClose}></button>
+          </div>
+
+          <div className="modal-body">
+            {error && <div className="alert alert-danger">{error}</div>}
+
+            {/* Reminder that nothing has been saved yet */}
+            {usingDefault && (
+              <div className="alert alert-info">
+                You haven't set your working hours yet, so Monday to Friday 09:00-17:00 is used.
+              </div>
+            )}
+
+            {loading ? (
+              <div className="text-center py-3">
+                <span className="spinner-border spinner-border-sm"></span>
+              </div>
+            ) : (
+              DAYS.map(day => (
+                <div
+                  key={day.value}
+                  style={{ display: 'flex', alignItems: 'flex-start', gap: '16px', padding: '10px 0', borderBottom: '1px solid #f0f0f0' }}
+                >
+                  <div style={{ width: '110px', fontWeight: 600, paddingTop: '4px' }}>{day.label}</div>
+                  <div style={{ flex: 1 }}>
+                    {windows.every(w => w.day_of_week !== day.value) && (
+                      <div style={{ color: '#6c757d', fontSize: '14px', paddingTop: '4px' }}>Not working</div>
+                    )}
+                    {windows.map((w, index) => w.day_of_week === day.value && (
+                      <div key={index} className="d-flex align-items-center gap-2 mb-2">
+                        <input
+                          type="time"
+                          className="form-control form-control-sm"
+                          style={{ width: '130px' }}
+                          value={w.start_time}
+                          onChange={(e) => handleChangeWindow(index, 'start_time', e.target.value)}
+                        />
+                        <span>to</span>
+                        <input
+                          type="time"
+                          className="form-control form-control-sm"
+                          style={{ width: '130px' }}
+                          value={w.end_time}
+                          onChange={(e) => handleChangeWindow(index, 'end_time', e.target.value)}
+                        />
+                        <button
+                          type="button"
+                          className="btn btn-outline-danger btn-sm"
+                          onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button type="button" className="btn btn-outline-secondary btn-sm" onClick={() => handleAddWindow(day.value)}>
+                    + Add hours
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="modal-footer">
+            <button type="button" className="btn btn-secondary" onClick={onClose} disabled={saving}>
+              Cancel
+            </button>
+            <button type="button" className="btn btn-primary" onClick={handleSave} disabled={saving || loading}>
+              {saving ? (
+                <>
+                  <span className="spinner-border spinner-border-sm me-2"></span>
+                  Saving...
+                </>
+              ) : (
+                'Save Working Hours'
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkingHoursModal;
@@ -0,0 +1,102 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { supabase } from '../services/supabaseClient';
+import supabaseAuthService, { AuthResponse, AuthUser, UserRole } from '../services/supabaseAuthService';
+import { clearQueryCache } from '../services/queryCache';
+
+// Where each role lands after logging in, or when it opens a page meant for another role
+export const ROLE_HOME: Record<UserRole, string> = {
+  therapist: '/therapist-dashboard',
+  patient: '/patient-dashboard',
+  parent_carer: '/carer-dashboard',
+};
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  // True until the stored Supabase session has been checked on page load
+  loading: boolean;
+  login: (username: string, password: string) => Promise<AuthResponse>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+/**
+ * Keeps the signed-in user in sync with the Supabase session
+ * The session survives page refreshes, so the user is restored from it rather than from localStorage
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Bumped whenever the user signs out, so a profile lookup still on its way for them is dropped
+  const lookupGeneration = useRef(0);
+
+  useEffect(() => {
+    let active = true;
+
+    // Fires with INITIAL_SESSION straight away, then on every sign in, sign out and token refresh
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (!session) {
+        lookupGeneration.current++;
+        // Nothing cached for the user who was signed in may be shown to the next one
+        clearQueryCache();
+        setUser(null);
+        setLoading(false);
+        return;
+      }
+      // A refreshed token belongs to the same user, so there is nothing to look up again
+      if (event === 'TOKEN_REFRESHED') return;
+
+      // Supabase calls made inside this callback can deadlock, so look the profile up afterwards
+      const generation = lookupGeneration.current;
+      setTimeout(async () => {
+        let authUser: AuthUser | null;
+        try {
+          authUser = await supabaseAuthService.getAuthUser(session.user.id);
+        } catch (error) {
+          console.error('Error loading the signed-in user:', error);
+          authUser = null;
+        }
+        // Signed out meanwhile: keep them signed out
+        if (!active || generation !== lookupGeneration.current) return;
+        setUser(authUser);
+        setLoading(false);
+      }, 0);
+    });
+
+    return () => {
+      active = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const login = async (username: string, password: string): Promise<AuthResponse> => {
+    const response = await supabaseAuthService.login(username, password);
+    if (response.success) setUser(response.user);
+    return response;
+  };
+
+  const logout = async (): Promise<void> => {
+    await supabaseAuthService.logout();
+    lookupGeneration.current++;
+    clearQueryCache();
+    setUser(null);
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, loading, login, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+/**
+ * Access the signed-in user and the login/logout actions
+ * Pages behind <RequireRole> can rely on user being set
+ */
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside an AuthProvider');
+  }
+  return context;
+};
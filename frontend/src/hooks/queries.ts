@@ -0,0 +1,27 @@
+import { useQuery } from './useQuery';
+import { queryKeys } from '../services/dataLayer';
+import { getTherapistPatients, getTherapistSessions } from '../services/supabaseTherapistService';
+import { getTherapistAttendance } from '../services/supabaseSessionStatusService';
+import { getPatientGoalsWithRows } from '../services/supabasePatientService';
+
+// Hooks for the reads pages share, cached under the keys in dataLayer.ts
+// Pass undefined while the id isn't known yet and nothing is read
+
+// Patients the therapist has sessions with
+export const useTherapistPatients = (therapistId: string | undefined) =>
+  useQuery(therapistId ? queryKeys.therapistPatients(therapistId) : null, () => getTherapistPatients(therapistId!));
+
+// The therapist's most recent sessions, each with its patient
+export const useTherapistSessions = (therapistId: string | undefined) =>
+  useQuery(therapistId ? queryKeys.therapistSessions(therapistId) : null, () => getTherapistSessions(therapistId!));
+
+// patient_id → how the patient has attended the therapist's sessions
+export const useTherapistAttendance = (therapistId: string | undefined) =>
+  useQuery(therapistId ? queryKeys.therapistAttendance(therapistId) : null, () => getTherapistAttendance(therapistId!));
+
+// The patient's goals with every exercise row of each (see getPatientGoalsWithRows)
+export const usePatientGoals = (patientId: string | undefined, activeOnly: boolean = false) =>
+  useQuery(
+    patientId ? queryKeys.patientGoals(patientId, activeOnly) : null,
+    () => getPatientGoalsWithRows(patientId!, activeOnly)
+  );
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  QueryKey,
+  QueryState,
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  subscribeToQuery
+} from '../services/queryCache';
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  loading: boolean;  // Nothing to show yet: the first read is still on its way
+  fetching: boolean; // A read is on its way, possibly behind cached data that is shown meanwhile
+  error: Error | null;
+  refetch: () => void;
+}
+
+const NO_QUERY: QueryState<any> = { data: undefined, error: null, fetching: false, updatedAt: 0 };
+const ignore = () => {};
+
+/**
+ * Reads key through the shared cache (see queryCache.ts) and re-renders whenever it changes
+ * Cached data shows straight away and is fetched again in the background once stale;
+ * components asking for the same key at the same time share one request
+ * A null key reads nothing, e.g. until a patient is picked
+ */
+export const useQuery = <T>(key: QueryKey | null, fetcher: () => Promise<T>, staleTime?: number): QueryResult<T> => {
+  // The key's contents decide which entry is read, not the array passed in on each render
+  const hash = key ? JSON.stringify(key) : null;
+
+  // The latest fetcher is used without re-running the effect when a new function is passed in
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => (hash ? subscribeToQuery(JSON.parse(hash), listener) : ignore),
+    [hash]
+  );
+  const getSnapshot = useCallback(() => (hash ? getQueryState<T>(JSON.parse(hash)) : NO_QUERY), [hash]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!hash) return;
+    // Errors are kept in the entry's state, which the component reads
+    fetchQuery(JSON.parse(hash), () => fetcherRef.current(), staleTime).catch(ignore);
+  }, [hash, staleTime]);
+
+  const refetch = useCallback(() => {
+    if (hash) invalidateQueries(JSON.parse(hash));
+  }, [hash]);
+
+  return {
+    data: state.data,
+    loading: hash !== null && state.data === undefined && state.error === null,
+    fetching: state.fetching,
+    error: state.error,
+    refetch
+  };
+};
@@ -1,3 +1,8 @@
 /// <reference types="react-scripts" />
 
 declare module '*.css';
+
+// Safari before 14.1 only has the prefixed Web Audio constructor
+interface Window {
+  webkitAudioContext?: typeof AudioContext;
+}
@@ -21,6 +21,9 @@ export interface User {
     // Patient-specific fields 
     therapyStartDate?: string; 
     preferredContactMethod?: string;
+
+    // Set once the user follows the link in their verification email 
+    emailVerified?: boolean;
 }
 
 // response structure from the API 
@@ -29,6 +32,7 @@ export interface AuthResponse {
     message: string;
     data:{
         token: string;
+        refreshToken: string;
         user: User;
     };
 }
@@ -84,6 +88,7 @@ class AuthService {
             // If successful, save token and user data to browser's local storage 
             if (result.data.token){
                 localStorage.setItem('token', result.data.token);
+                localStorage.setItem('refreshToken', result.data.refreshToken);
                 localStorage.setItem('user', JSON.stringify(result.data));
             }
             return result;
@@ -113,6 +118,7 @@ class AuthService {
             // save token and user data to local storage 
             if (result.data.token) {
                 localStorage.setItem('token', result.data.token);
+                localStorage.setItem('refreshToken', result.data.refreshToken);
                 localStorage.setItem('user', JSON.stringify(result.data.user));
             }
             return result;
@@ -120,10 +126,31 @@ class AuthService {
             throw error;
         }
     }
-    // logout - clears user session 
-    logout(): void{
-        // remove token and user data from local storage 
+    // logout - revokes the session on the server, then clears it locally 
+    async logout(): Promise<void>{
+        const refreshToken = this.getRefreshToken();
+        try{
+            if (refreshToken) {
+                // revokes the refresh token and every access token issued with it 
+                await fetch(`${API_URL}/auth/logout`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({ refreshToken })
+                });
+            }
+        }catch (error){
+            // still sign out locally if the server can't be reached 
+            console.error('Logout request failed:', error);
+        }finally{
+            this.clearSession();
+        }
+    }
+    // clear session - removes tokens and user data from local storage 
+    clearSession(): void{
         localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
         localStorage.removeItem('user');
     }
     // get current user - returns logged in user data 
@@ -140,6 +167,66 @@ class AuthService {
     getToken(): string | null {
         return localStorage.getItem('token');
     }
+    // get refresh token - returns the token used to get new access tokens 
+    getRefreshToken(): string | null {
+        return localStorage.getItem('refreshToken');
+    }
+    // refresh access token - swaps the refresh token for a new pair 
+    // the old refresh token stops working, so both tokens are replaced 
+    async refreshAccessToken(): Promise<boolean> {
+        try{
+            const refreshToken = this.getRefreshToken();
+            if (!refreshToken) return false;
+
+            const response = await fetch(`${API_URL}/auth/refresh`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ refreshToken })
+            });
+
+            if (!response.ok) {
+                this.clearSession(); // refresh token revoked or expired 
+                return false;
+            }
+
+            const result = await response.json();
+            localStorage.setItem('token', result.data.token);
+            localStorage.setItem('refreshToken', result.data.refreshToken);
+            return true;
+        }catch (error){
+            return false;
+        }
+    }
+    // post account action - shared by the emailed-link endpoints below 
+    private async postAccountAction(path: string, body: object): Promise<AuthResponse> {
+        const response = await fetch(`${API_URL}/auth/${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body)
+        });
+        const result: AuthResponse = await response.json();
+        if (!response.ok) {
+            throw new Error(result.message || 'Request failed');
+        }
+        return result;
+    }
+    // forgot password - emails a reset link if the address belongs to an account 
+    async forgotPassword(email: string): Promise<AuthResponse> {
+        return this.postAccountAction('forgot-password', { email });
+    }
+    // reset password - sets a new password using the token from the reset email 
+    // every existing session is signed out, so the user has to log in again 
+    async resetPassword(token: string, password: string): Promise<AuthResponse> {
+        return this.postAccountAction('reset-password', { token, password });
+    }
+    // verify email - confirms the address using the token from the verification email 
+    async verifyEmail(token: string): Promise<AuthResponse> {
+        return this.postAccountAction('verify-email', { token });
+    }
     // is authenticated - checks if user is logged in 
     isAuthenticated(): boolean{
         // user is authenticated if they have a token 
@@ -159,14 +246,13 @@ class AuthService {
                 }
             });
 
-            // if response is not ok, token is invalid 
+            // access tokens are short-lived, so try a refresh before giving up 
             if (!response.ok) {
-                this.logout(); // cleat invalid session 
-                return false;
+                return await this.refreshAccessToken();
             }
             return true; // token is valid 
         }catch (error){
-            this.logout(); // clear session on error 
+            this.clearSession(); // clear session on error 
             return false;
         }
     }
@@ -0,0 +1,59 @@
+import { QueryKey, invalidateQueries } from './queryCache';
+import * as therapistService from './supabaseTherapistService';
+import * as patientService from './supabasePatientService';
+import * as exerciseService from './supabaseExerciseService';
+import * as sessionStatusService from './supabaseSessionStatusService';
+import * as goalStatusService from './supabaseGoalStatusService';
+import * as goalTemplateService from './supabaseGoalTemplateService';
+
+// The cached reads of supabaseTherapistService and supabasePatientService; the hooks in hooks/queries.ts read them
+// Keys start with what they hold, so a change can mark every copy of it out of date at once
+export const queryKeys = {
+  therapistPatients: (therapistId: string) => ['patients', therapistId] as const,
+  therapistSessions: (therapistId: string) => ['sessions', therapistId] as const,
+  therapistAttendance: (therapistId: string) => ['attendance', therapistId] as const,
+  patientGoals: (patientId: string, activeOnly: boolean = false) => ['goals', patientId, activeOnly] as const
+};
+
+// A therapist's attendance figures are worked out from their sessions, so they change with them
+const SESSION_READS: QueryKey[] = [['sessions'], ['attendance']];
+// A therapist's patients are the ones linked to them, which adding a patient changes
+const PATIENT_READS: QueryKey[] = [['patients']];
+const GOAL_READS: QueryKey[] = [['goals']];
+
+/**
+ * Wraps a service mutation so the reads it changes are fetched again afterwards
+ * They are invalidated even when it fails, as a failed series or carry-over may have saved part of its work
+ */
+const invalidating = <A extends unknown[], R>(mutation: (...args: A) => Promise<R>, reads: QueryKey[]) =>
+  async (...args: A): Promise<R> => {
+    try {
+      return await mutation(...args);
+    } finally {
+      reads.forEach(invalidateQueries);
+    }
+  };
+
+// Sessions, and the new patients registered with their first one
+export const createPatientWithSession = invalidating(therapistService.createPatientWithSession, [...PATIENT_READS, ...SESSION_READS]);
+export const createSessionForPatient = invalidating(therapistService.createSessionForPatient, SESSION_READS);
+export const createSessionSeries = invalidating(therapistService.createSessionSeries, SESSION_READS);
+export const updateSession = invalidating(therapistService.updateSession, SESSION_READS);
+export const deleteSession = invalidating(therapistService.deleteSession, SESSION_READS);
+export const changeSessionStatus = invalidating(sessionStatusService.changeSessionStatus, SESSION_READS);
+export const rescheduleSession = invalidating(sessionStatusService.rescheduleSession, SESSION_READS);
+
+// Goals and the exercises assigned to them
+export const createGoal = invalidating(therapistService.createGoal, GOAL_READS);
+export const updateGoal = invalidating(therapistService.updateGoal, GOAL_READS);
+export const deleteGoal = invalidating(therapistService.deleteGoal, GOAL_READS);
+export const assignExerciseToGoal = invalidating(therapistService.assignExerciseToGoal, GOAL_READS);
+export const instantiateGoalTemplate = invalidating(goalTemplateService.instantiateGoalTemplate, GOAL_READS);
+export const changeGoalStatus = invalidating(goalStatusService.changeGoalStatus, GOAL_READS);
+export const carryOverGoal = invalidating(goalStatusService.carryOverGoal, GOAL_READS);
+export const recordGoalMeasurement = invalidating(goalStatusService.recordGoalMeasurement, GOAL_READS);
+export const updateGoalExerciseRow = invalidating(patientService.updateGoalExerciseRow, GOAL_READS);
+
+// Library exercises are read embedded in each goal's rows, and deleting one removes its rows
+export const updateLibraryExercise = invalidating(exerciseService.updateLibraryExercise, GOAL_READS);
+export const deleteLibraryExercise = invalidating(exerciseService.deleteLibraryExercise, GOAL_READS);
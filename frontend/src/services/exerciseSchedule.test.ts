@@ -0,0 +1,106 @@
+import * as frontend from './exerciseSchedule';
+import * as backend from '../../../backend/services/exerciseSchedule';
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('scheduleStartDate', () => {
+  it('starts on the clinic\'s date just after midnight, not the UTC date', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2099-06-15T23:30:00Z')); // 00:30 on 16 June in the tests' time zone, still 15 June in UTC
+
+    expect(frontend.scheduleStartDate('2099-06-01')).toBe('2099-06-16');
+    expect(frontend.scheduleStartDate('2099-06-20')).toBe('2099-06-20');
+  });
+});
+
+// The frontend keeps its own copy of the backend's exercise schedule rules; these check the two agree
+describe('exercise schedule copy', () => {
+  const rules: frontend.ScheduleRule[] = [
+    { kind: 'weekdays', weekdays: [1, 3, 5], slots: [] },
+    { kind: 'weekdays', weekdays: [0, 6], slots: ['Morning', 'Evening'] },
+    { kind: 'interval', every_days: 3, slots: [] },
+    { kind: 'interval', every_days: 2, slots: ['Morning'] },
+    { kind: 'per_week', times: 3 },
+    { kind: 'as_needed' }
+  ];
+
+  it('works with dates the same way', () => {
+    expect(frontend.WEEKDAY_NAMES).toEqual(backend.WEEKDAY_NAMES);
+    ['2026-02-26', '2026-03-01', '2026-03-02', '2026-12-31'].forEach(date => {
+      expect(frontend.addDays(date, 5)).toBe(backend.addDays(date, 5));
+      expect(frontend.addDays(date, -40)).toBe(backend.addDays(date, -40));
+      expect(frontend.mondayOf(date)).toBe(backend.mondayOf(date));
+      expect(frontend.weekNumberOf('2026-02-25', date)).toBe(backend.weekNumberOf('2026-02-25', date));
+    });
+  });
+
+  it('gives the same rule for each recommended frequency', () => {
+    ['daily', 'twice daily', 'weekly', 'as needed', 'hourly'].forEach(frequency => {
+      expect(frontend.ruleForFrequency(frequency)).toEqual(backend.ruleForFrequency(frequency));
+    });
+  });
+
+  it('accepts and refuses the same rules', () => {
+    const checked: frontend.ScheduleRule[] = [
+      ...rules,
+      { kind: 'weekdays', weekdays: [], slots: [] },
+      { kind: 'weekdays', weekdays: [2], slots: ['Morning', ' morning '] },
+      { kind: 'weekdays', weekdays: [2], slots: ['  '] },
+      { kind: 'weekdays', weekdays: [2], slots: ['x'.repeat(30)] },
+      { kind: 'weekdays', weekdays: [2], slots: ['x'.repeat(31)] },
+      { kind: 'interval', every_days: 1, slots: ['1', '2', '3', '4', '5', '6'] },
+      { kind: 'interval', every_days: 1, slots: ['1', '2', '3', '4', '5', '6', '7'] },
+      { kind: 'interval', every_days: 0, slots: [] },
+      { kind: 'interval', every_days: 28, slots: [] },
+      { kind: 'interval', every_days: 29, slots: [] },
+      { kind: 'interval', every_days: 1.5, slots: [] },
+      { kind: 'per_week', times: 0 },
+      { kind: 'per_week', times: 7 },
+      { kind: 'per_week', times: 8 }
+    ];
+    checked.forEach(rule => {
+      const backendAccepts = (() => {
+        try {
+          backend.parseScheduleRule(rule);
+          return true;
+        } catch {
+          return false;
+        }
+      })();
+      expect({ rule, accepted: frontend.scheduleRuleError(rule) === null }).toEqual({ rule, accepted: backendAccepts });
+    });
+  });
+
+  it('builds the same practices from each rule', () => {
+    rules.forEach(rule => {
+      expect(frontend.buildSchedule(rule, '2026-03-04', '2026-03-24')).toEqual(backend.buildSchedule(rule, '2026-03-04', '2026-03-24'));
+      expect(frontend.buildSchedule(rule, '2026-03-04', '2026-03-01')).toEqual(backend.buildSchedule(rule, '2026-03-04', '2026-03-01'));
+    });
+  });
+
+  it('reschedules rows the same way', () => {
+    rules.forEach(rule => {
+      const rows = backend.buildSchedule(rule, '2026-03-04', '2026-03-24').map((practice, i) => ({
+        ...practice,
+        row_id: `row-${i}`,
+        completed: i % 4 === 0,
+        difficulty_rating: i % 5 === 0 ? 3 : null,
+        has_recordings: false
+      }));
+      [['2026-03-12', '2026-03-10'], ['2026-04-07', '2026-03-10']].forEach(([endDate, today]) => {
+        expect(frontend.rescheduleRows(rule, '2026-03-04', endDate, today, rows))
+          .toEqual(backend.rescheduleRows(rule, '2026-03-04', endDate, today, rows));
+      });
+    });
+  });
+
+  it('infers the same rule from older rows', () => {
+    rules.forEach(rule => {
+      const rows = backend.buildSchedule(rule, '2026-03-04', '2026-03-24');
+      expect(frontend.inferScheduleRule(rows, '2026-03-03')).toEqual(backend.inferScheduleRule(rows, '2026-03-03'));
+    });
+    expect(frontend.inferScheduleRule([], '2026-03-03')).toEqual(backend.inferScheduleRule([], '2026-03-03'));
+  });
+});
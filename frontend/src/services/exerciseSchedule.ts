@@ -0,0 +1,252 @@
+// Turns a schedule rule into the practices (goal_exercise_set rows) a patient ticks off
+// The same rules and rows the backend builds when an exercise is assigned through the API
+import { localToday } from './clock';
+
+// Indexed like Date.getUTCDay(): 0 is Sunday
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const MAX_SLOTS_PER_DAY = 6;
+export const MAX_SLOT_NAME_LENGTH = 30;
+export const MAX_INTERVAL_DAYS = 28;
+
+/**
+ * How often an exercise is practised
+ * weekdays - on the given days of the week (0 is Sunday), once per named slot or once a day with no slots
+ * interval - every N days from the start date, with the same slots
+ * per_week - X times a week on whichever days suit the patient
+ * as_needed - a single practice with no date
+ */
+export type ScheduleRule =
+  | { kind: 'weekdays'; weekdays: number[]; slots: string[] }
+  | { kind: 'interval'; every_days: number; slots: string[] }
+  | { kind: 'per_week'; times: number }
+  | { kind: 'as_needed' };
+
+// One practice to tick off, as stored on its goal_exercise_set row
+export interface ScheduledPractice {
+  scheduled_date: string | null; // YYYY-MM-DD; null when the patient picks the day
+  day_of_week: string | null; // The weekday's name, when there is a date
+  week_number: number | null; // Monday-Sunday weeks counted from the schedule's start, which is in week 1
+  slot: string | null; // Morning, Evening...; null when practised once a day
+  slot_index: number; // Orders the slots within a day, or numbers the practices within a week
+}
+
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+const dayOfWeek = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+};
+
+// The Monday on or before the date
+export const mondayOf = (date: string): string => addDays(date, -((dayOfWeek(date) + 6) % 7));
+
+export const weekNumberOf = (startDate: string, date: string): number => {
+  return Math.floor(daysBetween(mondayOf(startDate), date) / 7) + 1;
+};
+
+// Schedules start today, or on the goal's start date if that is later
+export const scheduleStartDate = (goalStartDate: string): string => {
+  const today = localToday();
+  return goalStartDate > today ? goalStartDate : today;
+};
+
+/**
+ * Why the rule can't be scheduled, or null when it can - the checks the backend makes
+ */
+export const scheduleRuleError = (rule: ScheduleRule): string | null => {
+  const slots = rule.kind === 'weekdays' || rule.kind === 'interval' ? rule.slots : [];
+  if (slots.length > MAX_SLOTS_PER_DAY) return `Use at most ${MAX_SLOTS_PER_DAY} times of day`;
+  if (slots.some(slot => !slot.trim())) return 'Give each time of day a name';
+  if (slots.some(slot => slot.trim().length > MAX_SLOT_NAME_LENGTH)) {
+    return `Keep each time of day to ${MAX_SLOT_NAME_LENGTH} characters`;
+  }
+  if (new Set(slots.map(slot => slot.trim().toLowerCase())).size !== slots.length) {
+    return 'Each time of day can only be listed once';
+  }
+
+  switch (rule.kind) {
+    case 'weekdays':
+      return rule.weekdays.length === 0 ? 'Pick at least one day of the week' : null;
+    case 'interval':
+      return Number.isInteger(rule.every_days) && rule.every_days >= 1 && rule.every_days <= MAX_INTERVAL_DAYS
+        ? null
+        : `Repeat every 1 to ${MAX_INTERVAL_DAYS} days`;
+    case 'per_week':
+      return Number.isInteger(rule.times) && rule.times >= 1 && rule.times <= 7 ? null : 'Practise 1 to 7 times a week';
+    default:
+      return null;
+  }
+};
+
+// The schedule an exercise gets from its recommended frequency when the therapist doesn't choose one
+export const ruleForFrequency = (frequency: string): ScheduleRule => {
+  switch (frequency) {
+    case 'twice daily':
+      return { kind: 'weekdays', weekdays: [0, 1, 2, 3, 4, 5, 6], slots: ['Morning', 'Afternoon'] };
+    case 'weekly':
+      return { kind: 'per_week', times: 1 };
+    case 'as needed':
+      return { kind: 'as_needed' };
+    default:
+      return { kind: 'weekdays', weekdays: [0, 1, 2, 3, 4, 5, 6], slots: [] };
+  }
+};
+
+/**
+ * Every practice the rule asks for from startDate to endDate inclusive (both YYYY-MM-DD)
+ * An end before the start is treated as a schedule of that one day, so there is always something to practise
+ */
+export const buildSchedule = (rule: ScheduleRule, startDate: string, endDate: string): ScheduledPractice[] => {
+  const end = endDate < startDate ? startDate : endDate;
+
+  const dated = (date: string, slots: string[]): ScheduledPractice[] => {
+    return (slots.length > 0 ? slots : [null]).map((slot, index) => ({
+      scheduled_date: date,
+      day_of_week: WEEKDAY_NAMES[dayOfWeek(date)],
+      week_number: weekNumberOf(startDate, date),
+      slot: slot && slot.trim(),
+      slot_index: index
+    }));
+  };
+
+  const practices: ScheduledPractice[] = [];
+  switch (rule.kind) {
+    case 'weekdays':
+      for (let date = startDate; date <= end; date = addDays(date, 1)) {
+        if (rule.weekdays.includes(dayOfWeek(date))) practices.push(...dated(date, rule.slots));
+      }
+      break;
+    case 'interval':
+      for (let date = startDate; date <= end; date = addDays(date, rule.every_days)) {
+        practices.push(...dated(date, rule.slots));
+      }
+      break;
+    case 'per_week':
+      for (let week = 1; week <= weekNumberOf(startDate, end); week++) {
+        for (let index = 0; index < rule.times; index++) {
+          practices.push({ scheduled_date: null, day_of_week: null, week_number: week, slot: null, slot_index: index });
+        }
+      }
+      break;
+    case 'as_needed':
+      practices.push({ scheduled_date: null, day_of_week: null, week_number: null, slot: null, slot_index: 0 });
+      break;
+  }
+  return practices;
+};
+
+// A goal_exercise_set row as rescheduling sees it
+export interface ScheduledRow extends ScheduledPractice {
+  row_id: string;
+  completed: boolean;
+  difficulty_rating: number | null;
+  has_recordings: boolean;
+}
+
+// How an exercise's rows change when its goal's target date moves
+export interface ScheduleChange {
+  add: ScheduledPractice[]; // Practices with no row yet
+  remove: string[]; // row_ids of untouched practices after the new target date
+  kept: number; // Practices after the new target date the patient already worked on, which stay
+}
+
+// Identifies a practice within an exercise's schedule, whichever row it is on
+const practiceKey = (practice: ScheduledPractice): string => {
+  return `${practice.scheduled_date ?? `week ${practice.week_number}`}|${practice.slot_index}`;
+};
+
+/**
+ * Works out the rows to add and remove for the schedule to run to a new end date
+ * Practices from today on that have no row yet are added - days already missed are not put back
+ * Rows after the new end are removed, unless they were ticked, rated or recorded: those are kept
+ */
+export const rescheduleRows = (
+  rule: ScheduleRule,
+  startDate: string,
+  endDate: string,
+  today: string,
+  rows: ScheduledRow[]
+): ScheduleChange => {
+  const end = endDate < startDate ? startDate : endDate;
+  const lastWeek = weekNumberOf(startDate, end);
+  const currentWeek = weekNumberOf(startDate, today);
+
+  const existing = new Set(rows.map(practiceKey));
+  const add = buildSchedule(rule, startDate, end).filter(practice => {
+    if (existing.has(practiceKey(practice))) return false;
+    if (practice.scheduled_date) return practice.scheduled_date >= today;
+    return practice.week_number === null || practice.week_number >= currentWeek;
+  });
+
+  const beyond = rows.filter(row => {
+    return row.scheduled_date ? row.scheduled_date > end : row.week_number !== null && row.week_number > lastWeek;
+  });
+  const workedOn = (row: ScheduledRow) => row.completed || row.difficulty_rating !== null || row.has_recordings;
+
+  return {
+    add,
+    remove: beyond.filter(row => !workedOn(row)).map(row => row.row_id),
+    kept: beyond.filter(workedOn).length
+  };
+};
+
+/**
+ * The rule and start date an exercise's rows follow, for rows assigned before rules were stored
+ * Dated rows give the weekdays and times of day they fall on, counted from the first of them;
+ * weekly rows give the practices per week, counted from assignedOn (the date the rows were made)
+ * Rows with neither are practised as needed, and have nothing to reschedule
+ */
+export const inferScheduleRule = (
+  rows: ScheduledPractice[],
+  assignedOn: string
+): { rule: ScheduleRule; start_date: string } | null => {
+  const dated = rows.filter(row => row.scheduled_date).sort((a, b) => a.scheduled_date!.localeCompare(b.scheduled_date!));
+  if (dated.length > 0) {
+    const slots: string[] = [];
+    [...dated].sort((a, b) => a.slot_index - b.slot_index).forEach(row => {
+      if (row.slot && !slots.includes(row.slot)) slots.push(row.slot);
+    });
+    return {
+      rule: {
+        kind: 'weekdays',
+        weekdays: Array.from(new Set(dated.map(row => dayOfWeek(row.scheduled_date!)))).sort((a, b) => a - b),
+        slots
+      },
+      start_date: dated[0].scheduled_date!
+    };
+  }
+
+  if (rows.some(row => row.week_number !== null)) {
+    return {
+      rule: { kind: 'per_week', times: Math.max(...rows.map(row => row.slot_index)) + 1 },
+      start_date: assignedOn
+    };
+  }
+  return null;
+};
+
+// A short description of the rule, e.g. "Mon, Wed · Morning, Evening"
+export const describeRule = (rule: ScheduleRule): string => {
+  const withSlots = (text: string, slots: string[]) => (slots.length > 0 ? `${text} · ${slots.join(', ')}` : text);
+  switch (rule.kind) {
+    case 'weekdays': {
+      // Listed Monday first, like the grids
+      const days = [...rule.weekdays]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map(day => WEEKDAY_NAMES[day].slice(0, 3));
+      return withSlots(rule.weekdays.length === 7 ? 'Every day' : days.join(', '), rule.slots);
+    }
+    case 'interval':
+      return withSlots(rule.every_days === 1 ? 'Every day' : `Every ${rule.every_days} days`, rule.slots);
+    case 'per_week':
+      return rule.times === 1 ? 'Once a week' : `${rule.times} times a week`;
+    default:
+      return 'As needed';
+  }
+};
@@ -0,0 +1,26 @@
+// The frontend keeps its own copy of the backend's fluency analysis; these check the two agree
+import * as frontend from './fluencyAnalysis';
+import * as backend from '../../../backend/services/fluencyAnalysis';
+import { synthesizeSpeech, SAMPLE_RATE, SpeechSegment } from '../../../backend/test-utils/speech';
+
+const RECORDINGS: SpeechSegment[][] = [
+  [[1000, 0]],
+  [[300, 0], [800, 4], [100, 0], [600, 3], [500, 0], [400, 2], [300, 0]],
+  [[1200, 6]],
+  [[200, 0], [300, 1], [900, 0], [300, 1], [260, 0], [500, 3], [240, 0], [700, 5], [400, 0]]
+];
+
+describe('fluency analysis copy', () => {
+  it('measures the same recordings the same way', () => {
+    for (const segments of RECORDINGS) {
+      const audio = { samples: synthesizeSpeech(segments), sampleRate: SAMPLE_RATE };
+      expect(frontend.analyzeFluency(audio)).toEqual(backend.analyzeFluency(audio));
+    }
+  });
+
+  it('measures the same way at another sample rate', () => {
+    // The same samples read as 48kHz audio, as browsers often record - a third as long
+    const audio = { samples: synthesizeSpeech(RECORDINGS[1]), sampleRate: 48000 };
+    expect(frontend.analyzeFluency(audio)).toEqual(backend.analyzeFluency(audio));
+  });
+});
@@ -0,0 +1,198 @@
+// Objective fluency measures from a recording's audio, worked out from its loudness over time
+// The same measures the backend works out for WAV uploads, for the compressed audio browsers record
+
+export interface FluencyMetrics {
+  speaking_ms: number; // Time spent speaking, from the first sound to the last, less the pauses
+  pause_count: number; // Silences long enough to count as a pause, between the first and last sound
+  pause_ms: number; // Total length of those pauses
+  syllable_count: number; // Estimated from peaks in loudness (syllable nuclei)
+  syllables_per_minute: number; // Speaking rate across the whole stretch of speech, pauses included
+  longest_fluent_ms: number; // Longest stretch of speech without a pause
+}
+
+// Mono audio as samples from -1 to 1
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+const FRAME_MS = 10;
+// Silences shorter than this are part of normal speech (between words, stop consonants)
+const MIN_PAUSE_MS = 250;
+// Syllables are at least this far apart - about 12 a second at the very fastest
+const MIN_SYLLABLE_GAP_MS = 80;
+// Loudness has to dip by this much between two peaks for them to be separate syllables
+const SYLLABLE_DIP_DB = 2;
+// Frames averaged either side when smoothing the loudness curve
+const SMOOTHING_FRAMES = 2;
+// Anything quieter than this is silence however quiet the rest of the recording is
+const MIN_SPEECH_RMS = 0.005;
+
+const toDb = (rms: number): number => 20 * Math.log10(Math.max(rms, 1e-6));
+
+const percentile = (values: number[], fraction: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+// Root-mean-square loudness of each 10ms frame
+const frameEnergies = (samples: Float32Array, sampleRate: number): number[] => {
+  const frameSize = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  const energies: number[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+    let sum = 0;
+    for (let i = start; i < start + frameSize; i++) sum += samples[i] * samples[i];
+    energies.push(Math.sqrt(sum / frameSize));
+  }
+  return energies;
+};
+
+const smooth = (values: number[]): number[] => {
+  return values.map((_, i) => {
+    const window = values.slice(Math.max(0, i - SMOOTHING_FRAMES), i + SMOOTHING_FRAMES + 1);
+    return window.reduce((sum, value) => sum + value, 0) / window.length;
+  });
+};
+
+/**
+ * Counts syllable nuclei: loudness peaks inside speech with a dip of at least SYLLABLE_DIP_DB either side
+ * voiced[i] says whether frame i is speech; envelope is the smoothed loudness in dB
+ */
+const countSyllables = (envelope: number[], voiced: boolean[]): number => {
+  const minGapFrames = MIN_SYLLABLE_GAP_MS / FRAME_MS;
+  let count = 0;
+  let lastCounted = -Infinity;
+  // Climbing towards a peak, or falling away from one; silence ends a syllable
+  let state: 'silent' | 'rising' | 'falling' = 'silent';
+  let extreme = 0; // The highest level while rising, the lowest while falling
+  let peakFrame = 0;
+
+  const countPeak = () => {
+    if (peakFrame - lastCounted >= minGapFrames) {
+      count++;
+      lastCounted = peakFrame;
+    }
+  };
+
+  for (let i = 0; i < envelope.length; i++) {
+    const level = envelope[i];
+    if (!voiced[i]) {
+      if (state === 'rising') countPeak();
+      state = 'silent';
+    } else if (state === 'silent') {
+      state = 'rising';
+      extreme = level;
+      peakFrame = i;
+    } else if (state === 'rising') {
+      if (level > extreme) {
+        extreme = level;
+        peakFrame = i;
+      } else if (level <= extreme - SYLLABLE_DIP_DB) {
+        countPeak();
+        state = 'falling';
+        extreme = level;
+      }
+    } else if (level < extreme) {
+      extreme = level;
+    } else if (level >= extreme + SYLLABLE_DIP_DB) {
+      state = 'rising';
+      extreme = level;
+      peakFrame = i;
+    }
+  }
+  if (state === 'rising') countPeak();
+
+  return count;
+};
+
+const NO_SPEECH: FluencyMetrics = {
+  speaking_ms: 0,
+  pause_count: 0,
+  pause_ms: 0,
+  syllable_count: 0,
+  syllables_per_minute: 0,
+  longest_fluent_ms: 0
+};
+
+/**
+ * Works out the fluency measures for a recording
+ * Speech is told apart from silence by a loudness threshold set from the recording itself,
+ * so quiet rooms and noisy rooms are both handled without calibration
+ */
+export const analyzeFluency = ({ samples, sampleRate }: DecodedAudio): FluencyMetrics => {
+  const energies = frameEnergies(samples, sampleRate);
+  if (energies.length === 0) return NO_SPEECH;
+
+  // Halfway (in dB) between the background noise and the loud parts of speech
+  const noiseDb = toDb(percentile(energies, 0.1));
+  const speechDb = toDb(percentile(energies, 0.95));
+  const threshold = Math.max(MIN_SPEECH_RMS, Math.pow(10, (noiseDb + (speechDb - noiseDb) / 2) / 20));
+
+  const voiced = energies.map(energy => energy >= threshold);
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  if (first === -1) return NO_SPEECH;
+
+  // Walk the stretch of speech, splitting it into fluent runs at each pause
+  const minPauseFrames = MIN_PAUSE_MS / FRAME_MS;
+  const runs: number[] = [];
+  let pauseCount = 0;
+  let pauseFrames = 0;
+  let runStart = first;
+  let i = first;
+  while (i <= last) {
+    if (voiced[i]) {
+      i++;
+      continue;
+    }
+    const silenceStart = i;
+    while (!voiced[i]) i++;
+    const silence = i - silenceStart;
+    if (silence >= minPauseFrames) {
+      runs.push(silenceStart - runStart);
+      pauseCount++;
+      pauseFrames += silence;
+      runStart = i;
+    }
+  }
+  runs.push(last + 1 - runStart);
+
+  const spanFrames = last + 1 - first;
+  const envelope = smooth(energies).map(toDb);
+  const syllables = countSyllables(envelope, voiced);
+  const spanMinutes = (spanFrames * FRAME_MS) / 60000;
+
+  return {
+    speaking_ms: (spanFrames - pauseFrames) * FRAME_MS,
+    pause_count: pauseCount,
+    pause_ms: pauseFrames * FRAME_MS,
+    syllable_count: syllables,
+    syllables_per_minute: Math.round((syllables / spanMinutes) * 10) / 10,
+    longest_fluent_ms: Math.max(...runs) * FRAME_MS
+  };
+};
+
+/**
+ * Decodes a recording with the Web Audio API, mixes it down to mono and analyses it
+ * Resolves to null if the browser can't decode its own recording, so the upload can go ahead without measures
+ */
+export const analyzeRecording = async (audio: Blob): Promise<FluencyMetrics | null> => {
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+  if (!AudioContextClass) return null;
+
+  const context = new AudioContextClass();
+  try {
+    const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < buffer.length; i++) samples[i] += data[i] / buffer.numberOfChannels;
+    }
+    return analyzeFluency({ samples, sampleRate: buffer.sampleRate });
+  } catch (error) {
+    console.error('Error analysing recording:', error);
+    return null;
+  } finally {
+    context.close();
+  }
+};
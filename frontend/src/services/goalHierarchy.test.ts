@@ -0,0 +1,59 @@
+// The frontend keeps its own copy of the backend's goal hierarchy rules; these check the two agree
+import * as frontend from './goalHierarchy';
+import * as backend from '../../../backend/services/goalHierarchy';
+
+const progress = (percent: number) => ({ total: 4, completed: Math.round(percent / 25), percent });
+
+const goal = (goal_id: string, parent_goal_id: string | null = null, weight = 1, status = 'active') => ({
+  goal_id,
+  parent_goal_id,
+  status,
+  weight
+});
+
+describe('goal hierarchy copy', () => {
+  it('has the same weight limit', () => {
+    expect(frontend.MAX_OBJECTIVE_WEIGHT).toBe(backend.MAX_OBJECTIVE_WEIGHT);
+  });
+
+  it('rolls objectives up the same way', () => {
+    const objectiveLists = [
+      [],
+      [{ status: 'draft', weight: 1, progress: progress(0) }],
+      [
+        { status: 'active', weight: 3, progress: progress(50) },
+        { status: 'achieved', weight: 1, progress: progress(25) }
+      ],
+      [
+        { status: 'active', weight: 1, progress: progress(75) },
+        { status: 'on_hold', weight: 2, progress: progress(100) },
+        { status: 'discontinued', weight: 5, progress: progress(0) },
+        { status: 'carried_over', weight: 5, progress: progress(0) }
+      ]
+    ];
+    for (const objectives of objectiveLists) {
+      expect(frontend.rollUpProgress(objectives)).toEqual(backend.rollUpProgress(objectives));
+    }
+  });
+
+  it('builds the same tree', () => {
+    const goals = [
+      goal('long'),
+      goal('first', 'long', 1),
+      goal('second', 'long', 3),
+      goal('dropped', 'long', 2, 'discontinued'),
+      goal('flat'),
+      goal('orphan', 'missing')
+    ];
+    const rows = [
+      { goal_id: 'first', completed: true },
+      { goal_id: 'second', completed: true },
+      { goal_id: 'second', completed: false },
+      { goal_id: 'flat', completed: false },
+      { goal_id: 'orphan', completed: true }
+    ];
+
+    expect(frontend.buildGoalTree(goals, rows)).toEqual(backend.buildGoalTree(goals, rows));
+    expect(frontend.buildGoalTree(goals, [])).toEqual(backend.buildGoalTree(goals, []));
+  });
+});
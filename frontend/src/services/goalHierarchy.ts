@@ -0,0 +1,69 @@
+// Long-term goals broken into short-term objectives, and the progress that rolls up from them
+// - the same rules the backend applies
+import { GoalProgress, goalProgress } from './goalLifecycle';
+
+export const MAX_OBJECTIVE_WEIGHT = 10;
+
+// Objectives in these statuses don't count towards their long-term goal: not set yet,
+// dropped, or continued by another objective that counts instead
+const UNCOUNTED_STATUSES = ['draft', 'discontinued', 'carried_over'];
+
+export interface HierarchyGoal {
+  goal_id: string;
+  parent_goal_id: string | null;
+  status: string;
+  weight: number;
+}
+
+// A goal with its progress and, for a long-term goal, its objectives
+export type GoalNode<G extends HierarchyGoal> = G & {
+  progress: GoalProgress;
+  objectives: GoalNode<G>[];
+};
+
+/**
+ * A long-term goal's progress from its objectives: each objective's percentage counted by its weight,
+ * with achieved objectives complete whatever their practices say
+ * total and completed count the objectives rather than practices
+ * null when none of the objectives count yet
+ */
+export const rollUpProgress = (objectives: { status: string; weight: number; progress: GoalProgress }[]): GoalProgress | null => {
+  const counted = objectives.filter(objective => !UNCOUNTED_STATUSES.includes(objective.status));
+  if (counted.length === 0) return null;
+
+  const percentOf = (objective: typeof counted[number]) => objective.status === 'achieved' ? 100 : objective.progress.percent;
+  const totalWeight = counted.reduce((sum, objective) => sum + objective.weight, 0);
+  const weighted = counted.reduce((sum, objective) => sum + objective.weight * percentOf(objective), 0);
+
+  return {
+    total: counted.length,
+    completed: counted.filter(objective => percentOf(objective) === 100).length,
+    percent: Math.round(weighted / totalWeight)
+  };
+};
+
+/**
+ * Nests each objective under its long-term goal, keeping the order the goals were given in
+ * A goal's progress comes from its exercise rows, or is rolled up from its objectives when it has any
+ * Objectives whose long-term goal isn't in the list are shown at the top level
+ */
+export const buildGoalTree = <G extends HierarchyGoal>(
+  goals: G[],
+  rows: { goal_id: string; completed: boolean }[]
+): GoalNode<G>[] => {
+  const ownProgress = (goal: G): GoalProgress => goalProgress(rows.filter(row => row.goal_id === goal.goal_id));
+  const ids = new Set(goals.map(goal => goal.goal_id));
+
+  return goals
+    .filter(goal => !goal.parent_goal_id || !ids.has(goal.parent_goal_id))
+    .map(goal => {
+      const objectives = goals
+        .filter(objective => objective.parent_goal_id === goal.goal_id)
+        .map(objective => ({ ...objective, progress: ownProgress(objective), objectives: [] }));
+      return {
+        ...goal,
+        progress: rollUpProgress(objectives) || ownProgress(goal),
+        objectives
+      };
+    });
+};
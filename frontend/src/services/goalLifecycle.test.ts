@@ -0,0 +1,70 @@
+// The frontend keeps its own copy of the backend's goal lifecycle rules; these check the two agree
+import * as frontend from './goalLifecycle';
+import * as backend from '../../../backend/services/goalLifecycle';
+
+const CRITERIA = [
+  null,
+  '',
+  '80% accuracy over 3 sessions',
+  'fewer than 3% syllables stuttered',
+  '4 out of 5 attempts in 2 consecutive sessions',
+  'More than 90% of words, three sessions running',
+  'At most 10% of words repeated',
+  '7/10 correct over 1 session',
+  'Confident on the phone',
+  '150% of baseline'
+];
+
+const PROGRESS = [
+  { total: 0, completed: 0, percent: 0 },
+  { total: 4, completed: 2, percent: 50 },
+  { total: 4, completed: 4, percent: 100 }
+];
+
+describe('goal lifecycle copy', () => {
+  it('has the same statuses, transitions and labels', () => {
+    expect(frontend.INITIAL_GOAL_STATUSES).toEqual(backend.INITIAL_GOAL_STATUSES);
+    expect(frontend.GOAL_STATUS_TRANSITIONS).toEqual(backend.GOAL_STATUS_TRANSITIONS);
+    // The backend's labels go mid-sentence in error messages, the frontend's start a badge
+    for (const [status, label] of Object.entries(backend.GOAL_STATUS_LABELS)) {
+      expect(frontend.GOAL_STATUS_LABELS[status as frontend.GoalStatus]).toBe(label[0].toUpperCase() + label.slice(1));
+    }
+  });
+
+  it('reads measurable criteria the same way', () => {
+    for (const criterion of CRITERIA) {
+      expect(frontend.parseCriterion(criterion)).toEqual(backend.parseCriterion(criterion));
+    }
+  });
+
+  it('judges criteria, progress and overdue goals the same way', () => {
+    const scoreLists = [[], [85], [85, 79], [90, 92, 95], [2, 1, 12]];
+    for (const criterion of CRITERIA.map(backend.parseCriterion)) {
+      for (const scores of scoreLists) {
+        expect(criterion && frontend.criterionMet(criterion, scores)).toBe(criterion && backend.criterionMet(criterion, scores));
+      }
+    }
+
+    for (const text of CRITERIA) {
+      for (const scores of scoreLists) {
+        for (const progress of PROGRESS) {
+          for (const status of Object.keys(backend.GOAL_STATUS_LABELS)) {
+            const goal = { status, measurable_criterion: text };
+            expect(frontend.suggestGoalStatus(goal, progress, scores)).toEqual(backend.suggestGoalStatus(goal, progress, scores));
+          }
+        }
+      }
+    }
+
+    const rowLists = [[], [{ completed: true }], [{ completed: true }, { completed: false }, { completed: false }]];
+    for (const rows of rowLists) {
+      expect(frontend.goalProgress(rows)).toEqual(backend.goalProgress(rows));
+    }
+    for (const progress of PROGRESS) {
+      for (const target_date of ['2026-03-01', '2026-03-02', '2026-03-03']) {
+        const goal = { status: 'active', target_date };
+        expect(frontend.isGoalOverdue(goal, progress, '2026-03-02')).toBe(backend.isGoalOverdue(goal, progress, '2026-03-02'));
+      }
+    }
+  });
+});
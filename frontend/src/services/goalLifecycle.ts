@@ -0,0 +1,149 @@
+// Where a goal is in its lifecycle, and the checks that suggest moving it along:
+// whether its practices are done, whether its measurable criterion has been met, and whether it is overdue
+// - the same rules the backend applies
+
+export type GoalStatus = 'draft' | 'active' | 'on_hold' | 'achieved' | 'discontinued' | 'carried_over';
+
+// A goal is created as a draft while the therapist prepares it, or straight away as active
+export const INITIAL_GOAL_STATUSES: GoalStatus[] = ['draft', 'active'];
+
+// Where each status can move to; an achieved goal can be reopened if the skill slips
+export const GOAL_STATUS_TRANSITIONS: Record<GoalStatus, GoalStatus[]> = {
+  draft: ['active', 'discontinued'],
+  active: ['on_hold', 'achieved', 'discontinued', 'carried_over'],
+  on_hold: ['active', 'discontinued', 'carried_over'],
+  achieved: ['active'],
+  discontinued: [],
+  carried_over: []
+};
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  on_hold: 'On hold',
+  achieved: 'Achieved',
+  discontinued: 'Discontinued',
+  carried_over: 'Carried over'
+};
+
+// How the therapist's measurements are compared with the criterion's target
+export type CriterionComparison = 'at_least' | 'above' | 'at_most' | 'below';
+
+// A measurable criterion read from its text, e.g. "80% accuracy over 3 sessions"
+export interface MeasurableCriterion {
+  target: number; // Percentage
+  comparison: CriterionComparison;
+  sessions: number; // How many of the latest measurements must meet it
+}
+
+export interface GoalProgress {
+  total: number;
+  completed: number;
+  percent: number; // Completed practices out of all of them, 0 when there are none
+}
+
+export interface StatusSuggestion {
+  status: GoalStatus;
+  reason: string;
+}
+
+const NUMBER_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+const COMPARISON_WORDS: [RegExp, CriterionComparison][] = [
+  [/\b(at most|no more than|maximum of|max)\b/, 'at_most'],
+  [/\b(fewer than|less than|under|below)\b/, 'below'],
+  [/\b(more than|over|above)\s+\d/, 'above']
+];
+
+const wholeNumber = (word: string): number => {
+  const index = NUMBER_WORDS.indexOf(word);
+  return index >= 0 ? index + 1 : parseInt(word, 10);
+};
+
+/**
+ * Reads the target out of a measurable criterion, or null when it doesn't give one as a percentage
+ * or a count such as "4 out of 5 attempts"; "over/in N (consecutive) sessions" sets how many
+ * measurements must meet it, one by default
+ */
+export const parseCriterion = (text: string | null): MeasurableCriterion | null => {
+  if (!text) return null;
+  const criterion = text.toLowerCase();
+
+  const percent = /(\d{1,3}(?:\.\d+)?)\s*%/.exec(criterion);
+  const outOf = /(\d+)\s*(?:out of|\/)\s*(\d+)/.exec(criterion);
+  let target: number;
+  if (percent) {
+    target = parseFloat(percent[1]);
+  } else if (outOf && parseInt(outOf[2], 10) > 0) {
+    target = (parseInt(outOf[1], 10) / parseInt(outOf[2], 10)) * 100;
+  } else {
+    return null;
+  }
+  if (target > 100) return null;
+
+  const sessions = new RegExp(`\\b(\\d+|${NUMBER_WORDS.join('|')})\\s+(?:consecutive\\s+)?sessions?\\b`).exec(criterion);
+  // "over 3 sessions" is how long, not "more than"
+  const wording = criterion.replace(/over\s+\d+\s+(?:consecutive\s+)?sessions?/, '');
+  const comparison = COMPARISON_WORDS.find(([pattern]) => pattern.test(wording));
+
+  return {
+    target,
+    comparison: comparison ? comparison[1] : 'at_least',
+    sessions: sessions ? Math.max(1, wholeNumber(sessions[1])) : 1
+  };
+};
+
+const meets = (score: number, criterion: MeasurableCriterion): boolean => {
+  switch (criterion.comparison) {
+    case 'at_least': return score >= criterion.target;
+    case 'above': return score > criterion.target;
+    case 'at_most': return score <= criterion.target;
+    case 'below': return score < criterion.target;
+  }
+};
+
+// Whether the latest measurements (newest first) all meet the criterion, enough of them to count
+export const criterionMet = (criterion: MeasurableCriterion, scores: number[]): boolean => {
+  const latest = scores.slice(0, criterion.sessions);
+  return latest.length === criterion.sessions && latest.every(score => meets(score, criterion));
+};
+
+export const goalProgress = (rows: { completed: boolean }[]): GoalProgress => {
+  const completed = rows.filter(row => row.completed).length;
+  return {
+    total: rows.length,
+    completed,
+    percent: rows.length ? Math.round((completed / rows.length) * 100) : 0
+  };
+};
+
+// An active goal past its target date with practices still to do
+export const isGoalOverdue = (
+  goal: { status: string; target_date: string },
+  progress: GoalProgress,
+  today: string
+): boolean => {
+  return goal.status === 'active' && goal.target_date < today && progress.completed < progress.total;
+};
+
+/**
+ * Suggests marking an active goal achieved once every practice is done or its measurable criterion is met
+ * Only a suggestion - the therapist decides
+ */
+export const suggestGoalStatus = (
+  goal: { status: string; measurable_criterion: string | null },
+  progress: GoalProgress,
+  scores: number[]
+): StatusSuggestion | null => {
+  if (goal.status !== 'active') return null;
+
+  const criterion = parseCriterion(goal.measurable_criterion);
+  if (criterion && criterionMet(criterion, scores)) {
+    const measured = criterion.sessions === 1 ? 'The latest measurement meets' : `The last ${criterion.sessions} measurements meet`;
+    return { status: 'achieved', reason: `${measured} the criterion: ${goal.measurable_criterion}` };
+  }
+  if (progress.total > 0 && progress.percent === 100) {
+    return { status: 'achieved', reason: 'Every practice for this goal has been completed' };
+  }
+  return null;
+};
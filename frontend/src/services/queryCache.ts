@@ -0,0 +1,134 @@
+// A small client-side cache for service reads, shared by every page
+// Each read is kept under a key, e.g. ['sessions', therapistId]; see dataLayer.ts for the keys and the
+// mutations that invalidate them, and hooks/useQuery.ts for reading through the cache from a component
+
+export type QueryKey = readonly unknown[];
+
+// How long a cached read is served without asking the database again
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  fetching: boolean;
+  updatedAt: number; // 0 until the first read, and again once the entry is invalidated
+}
+
+interface CacheEntry<T> {
+  state: QueryState<T>;
+  fetcher?: () => Promise<T>;
+  request?: Promise<T>; // The read in flight, shared by everyone asking for the key meanwhile
+  listeners: Set<() => void>;
+}
+
+const EMPTY_STATE: QueryState<any> = { data: undefined, error: null, fetching: false, updatedAt: 0 };
+
+const entries = new Map<string, CacheEntry<any>>();
+
+const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+const entryFor = <T>(key: QueryKey): CacheEntry<T> => {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { state: EMPTY_STATE, listeners: new Set() };
+    entries.set(hash, entry);
+  }
+  return entry;
+};
+
+// States are replaced rather than changed, so components can tell when to re-render
+const setState = <T>(entry: CacheEntry<T>, changes: Partial<QueryState<T>>) => {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach(listener => listener());
+};
+
+const startRequest = <T>(entry: CacheEntry<T>): Promise<T> => {
+  const request = entry.fetcher!();
+  entry.request = request;
+  setState(entry, { fetching: true });
+
+  request.then(
+    data => {
+      // A read started before the entry was invalidated is out of date; the newer one wins
+      if (entry.request !== request) return;
+      entry.request = undefined;
+      setState(entry, { data, error: null, fetching: false, updatedAt: Date.now() });
+    },
+    error => {
+      if (entry.request !== request) return;
+      entry.request = undefined;
+      setState(entry, { error, fetching: false });
+    }
+  );
+  return request;
+};
+
+/**
+ * Reads through the cache: a fresh copy is returned as it is, a read already in flight is shared,
+ * and otherwise the fetcher runs. Cached data stays readable while a stale key is fetched again
+ */
+export const fetchQuery = <T>(key: QueryKey, fetcher: () => Promise<T>, staleTime: number = DEFAULT_STALE_TIME): Promise<T> => {
+  const entry = entryFor<T>(key);
+  entry.fetcher = fetcher;
+
+  if (entry.request) return entry.request;
+  const { data, updatedAt } = entry.state;
+  if (updatedAt > 0 && Date.now() - updatedAt < staleTime) return Promise.resolve(data as T);
+  return startRequest(entry);
+};
+
+export const getQueryState = <T>(key: QueryKey): QueryState<T> => entries.get(hashKey(key))?.state ?? EMPTY_STATE;
+
+/**
+ * Calls listener whenever the key's state changes; returns a function that stops listening
+ */
+export const subscribeToQuery = (key: QueryKey, listener: () => void): (() => void) => {
+  const entry = entryFor(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+};
+
+/**
+ * Replaces a key's data, e.g. to show a change before it is saved
+ */
+export const setQueryData = <T>(key: QueryKey, updater: (data: T | undefined) => T): void => {
+  const entry = entryFor<T>(key);
+  setState(entry, { data: updater(entry.state.data) });
+};
+
+// ['goals'] matches ['goals', patientId] and every other key that starts with 'goals'
+const matchesPrefix = (hash: string, prefix: QueryKey): boolean => {
+  const key: unknown[] = JSON.parse(hash);
+  return prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+};
+
+/**
+ * Marks every key starting with prefix as out of date
+ * Keys a mounted component is reading are fetched again straight away; the rest on their next read
+ */
+export const invalidateQueries = (prefix: QueryKey): void => {
+  entries.forEach((entry, hash) => {
+    if (!matchesPrefix(hash, prefix)) return;
+    entry.request = undefined;
+    setState(entry, { updatedAt: 0, fetching: false });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      startRequest(entry).catch(() => {}); // The error is kept in the entry's state
+    }
+  });
+};
+
+/**
+ * Forgets everything, so nothing read for one user is shown to the next one to log in
+ */
+export const clearQueryCache = (): void => {
+  entries.forEach((entry, hash) => {
+    entry.request = undefined;
+    entry.fetcher = undefined;
+    setState(entry, EMPTY_STATE);
+    // Entries still being read by a mounted component are kept, so it goes on hearing about them
+    if (entry.listeners.size === 0) entries.delete(hash);
+  });
+};
@@ -0,0 +1,36 @@
+// The frontend summarises and checks SMART goals itself before saving; these check it agrees with the backend
+import * as frontend from './smartGoal';
+import * as backend from '../../../backend/services/smartGoal';
+
+const DRAFTS: frontend.SmartGoalDraft[] = [
+  { specific_behaviour: 'Use easy onset at the start of sentences', measurable_criterion: '80% accuracy over 3 sessions', context: 'in conversation with family' },
+  { specific_behaviour: '  Produce /s/ in short phrases ', measurable_criterion: ' 4 out of 5 attempts ', context: '  ' },
+  { specific_behaviour: 'Order a drink', measurable_criterion: '', context: 'at a café' },
+  { specific_behaviour: '', measurable_criterion: '90% of words', context: '' },
+  { specific_behaviour: '', measurable_criterion: '', context: 'at school' }
+];
+
+// What the backend makes of the fields the frontend saves
+const saved = (draft: frontend.SmartGoalDraft) => backend.parseSmartFields(frontend.smartGoalFields(draft));
+
+describe('SMART goal copy', () => {
+  it('summarises a goal the same way', () => {
+    for (const draft of DRAFTS) {
+      expect(frontend.describeSmartGoal(draft)).toBe(backend.describeSmartGoal(saved(draft)));
+    }
+  });
+
+  it('accepts the same goals as complete', () => {
+    for (const draft of DRAFTS) {
+      const backendAccepts = (() => {
+        try {
+          backend.assertCompleteSmartGoal(saved(draft));
+          return true;
+        } catch {
+          return false;
+        }
+      })();
+      expect(frontend.smartGoalError(draft) === null).toBe(backendAccepts);
+    }
+  });
+});
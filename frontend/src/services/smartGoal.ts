@@ -0,0 +1,49 @@
+// SMART goals: a specific behaviour, a measurable criterion and the context it is practised in,
+// over the goal's timeframe (its start and target dates) - summarised the same way the backend does
+import { addDays } from './exerciseSchedule';
+
+// The SMART parts of a goal as the builder edits them; blank fields are empty strings
+export interface SmartGoalDraft {
+  specific_behaviour: string;
+  measurable_criterion: string;
+  context: string;
+}
+
+export const EMPTY_SMART_GOAL: SmartGoalDraft = { specific_behaviour: '', measurable_criterion: '', context: '' };
+
+// Offered as starting points for the measurable criterion
+export const CRITERION_EXAMPLES = [
+  '80% accuracy over 3 sessions',
+  'fewer than 3% syllables stuttered',
+  '4 out of 5 attempts in 2 consecutive sessions'
+];
+
+// Common timeframes, in weeks
+export const TIMEFRAME_WEEKS = [4, 6, 8, 12];
+
+/**
+ * The one-line goal_description for a SMART goal, e.g.
+ * "Use easy onset at the start of sentences in conversation with family (80% accuracy over 3 sessions)"
+ */
+export const describeSmartGoal = (draft: SmartGoalDraft): string => {
+  const behaviour = [draft.specific_behaviour.trim(), draft.context.trim()].filter(Boolean).join(' ');
+  const criterion = draft.measurable_criterion.trim();
+  return criterion ? `${behaviour} (${criterion})` : behaviour;
+};
+
+// What the goal still needs, or null when it is complete - the checks the backend makes
+export const smartGoalError = (draft: SmartGoalDraft): string | null => {
+  if (!draft.specific_behaviour.trim()) return 'Describe the specific behaviour to work on';
+  if (!draft.measurable_criterion.trim()) return 'Say how progress will be measured';
+  return null;
+};
+
+// The SMART fields as stored on a goal or template, with blanks as null
+export const smartGoalFields = (draft: SmartGoalDraft) => ({
+  specific_behaviour: draft.specific_behaviour.trim() || null,
+  measurable_criterion: draft.measurable_criterion.trim() || null,
+  context: draft.context.trim() || null
+});
+
+// A goal's target date for a timeframe of so many weeks from its start
+export const targetDateForWeeks = (startDate: string, weeks: number): string => addDays(startDate, weeks * 7);
@@ -1,5 +1,23 @@
 import { supabase } from './supabaseClient';
 
+export type UserRole = 'therapist' | 'patient' | 'parent_carer';
+
+/**
+ * The signed-in user as the rest of the app sees it
+ * user_id is the Supabase Auth user ID, which is also the key in the role's profile table
+ */
+export interface AuthUser {
+    user_id: string;
+    email: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+    role: UserRole;
+}
+
+// Each role keeps its profile in a table of the same name
+const ROLE_TABLES: UserRole[] = ['therapist', 'patient', 'parent_carer'];
+
 /**
  * Interface representing the complete set of registration data 
  * Including role-specific optional fields 
@@ -12,7 +30,7 @@ export interface RegisterData {
     lastName: string;
     phoneNumber: string;
     dateOfBirth: string;
-    role: 'therapist' | 'patient' | 'parent_carer';
+    role: UserRole;
 
 /**
  *  Role-specific fields 
@@ -33,12 +51,37 @@ export interface RegisterData {
 /**
  * Standardised response format for all Auth actions 
  */
-interface AuthResponse {
+export interface AuthResponse {
     success: boolean;
     message?: string;
     user?: any;
 }
 
+/**
+ * Looks for the profile row whose column matches the value in each role table in turn
+ */
+const findProfile = async (column: 'username' | 'user_id', value: string) => {
+    for (const role of ROLE_TABLES) {
+        const { data } = await supabase
+            .from(role)
+            .select('*')
+            .eq(column, value)
+            .maybeSingle();
+
+        if (data) return { role, profile: data };
+    }
+    return null;
+};
+
+const toAuthUser = (profile: any, role: UserRole): AuthUser => ({
+    user_id: profile.user_id,
+    email: profile.email,
+    username: profile.username,
+    firstName: profile.first_name,
+    lastName: profile.last_name,
+    role
+});
+
 class SupabaseAuthService {
    
     /**
@@ -141,65 +184,24 @@ class SupabaseAuthService {
      * Login flow: 
      * Searches through profile tables to map a username to an email 
      * Authenticates with supabase using the found email 
+     * Returns the AuthUser as user on success
     */
 
     // Login user 
     async login(username: string, password: string): Promise<AuthResponse> {
         try {
             // find email from username by checking all tables
-            const trimmedUsername = username.trim();
-            let email = '';
-            let userRole = '';
-            let fullUserData: any = null;
-
-            // check therapist table
-            const { data: therapistData } = await supabase
-                .from('therapist')
-                .select('*')
-                .eq('username', trimmedUsername)
-                .maybeSingle();
-
-            if (therapistData) {
-                email = therapistData.email;
-                userRole = 'therapist';
-                fullUserData = therapistData;
-            } else {
-                // check patient table 
-                const { data: patientData } = await supabase 
-                    .from('patient')
-                    .select('*')
-                    .eq('username', trimmedUsername)
-                    .maybeSingle();
-
-                if (patientData) {
-                    email = patientData.email;
-                    userRole = 'patient';
-                    fullUserData = patientData;
-                } else {
-                    // check parent_carer table 
-                    const { data: parentData } = await supabase 
-                        .from('parent_carer')
-                        .select('*')
-                        .eq('username', trimmedUsername)
-                        .maybeSingle();
-
-                    if (parentData) {
-                        email = parentData.email;
-                        userRole = 'parent_carer';
-                        fullUserData = parentData;
-                    }
-                }
-            }
+            const found = await findProfile('username', username.trim());
 
-            if (!email) {
+            if (!found) {
                 throw new Error('Invalid username or password');
             }
 
-            console.log('Found email for username, role:', userRole);
+            console.log('Found email for username, role:', found.role);
 
             // Login with email and password 
-            const { data, error } = await supabase.auth.signInWithPassword({
-                email: email,
+            const { error } = await supabase.auth.signInWithPassword({
+                email: found.profile.email,
                 password: password,
             });
 
@@ -210,16 +212,7 @@ class SupabaseAuthService {
             return {
                 success: true, 
                 message: 'Login successful',
-                user: {
-                    user_id: fullUserData.user_id,  
-                    id: fullUserData.user_id,      
-                    email: data.user.email,
-                    username: fullUserData.username,
-                    firstName: fullUserData.first_name,
-                    lastName: fullUserData.last_name,
-                    role: userRole,
-                    user_role: userRole            
-                },    
+                user: toAuthUser(found.profile, found.role),
             };
         } catch (error: any) {
             return {
@@ -234,6 +227,12 @@ class SupabaseAuthService {
         await supabase.auth.signOut();
     }
 
+    /** Resolve a Supabase Auth user ID to the app user, or null if they have no profile row yet */
+    async getAuthUser(authUserId: string): Promise<AuthUser | null> {
+        const found = await findProfile('user_id', authUserId);
+        return found ? toAuthUser(found.profile, found.role) : null;
+    }
+
     /** Retrieve the raw Supabase Auth user object */ 
     async getCurrentUser() {
         const { data: { user } } = await supabase.auth.getUser();
@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+// Node rather than jsdom, which has no TextEncoder for folding long lines
+import { buildCalendar, toEvents } from './supabaseCalendarService';
+import * as feed from '../../../supabase/functions/_shared/calendar';
+
+jest.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const therapist = { first_name: 'Sam', last_name: 'Okafor' };
+const patient = { first_name: 'Alex', last_name: 'Rivera' };
+
+const session = (sessionId: string, status: string, location: string | null) => ({
+  session_id: sessionId,
+  patient_id: 'patient-1',
+  therapist_id: 'therapist-1',
+  session_date: '2026-03-16',
+  session_time: '23:30:00',
+  session_type: 'Fluency practice, with reading; aloud',
+  duration_minutes: 90,
+  location,
+  status,
+  revision: 2,
+  updated_at: '2026-03-10T08:15:00Z',
+  cancelled_at: '2026-03-11T12:00:00Z',
+  patient,
+  therapist
+});
+
+const rows = [
+  session('session-1', 'scheduled', 'Clinic room 3, Ground floor - the long corridor past reception and the café'),
+  session('session-2', 'rescheduled', null),
+  session('session-3', 'cancelled_by_therapist', 'Online')
+];
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(new Date('2026-03-12T09:00:00Z'));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// The feed link is served by an Edge Function with its own copy of the calendar code
+describe('calendar feed copy', () => {
+  it('turns sessions into the same events for either person', () => {
+    for (const userId of ['patient-1', 'therapist-1']) {
+      expect(feed.toEvents(userId, rows, false, 'updated_at')).toEqual(toEvents(userId, rows, false, 'updated_at'));
+      expect(feed.toEvents(userId, rows, true, 'cancelled_at')).toEqual(toEvents(userId, rows, true, 'cancelled_at'));
+    }
+  });
+
+  it('builds the same calendar as the download', () => {
+    const events = [
+      ...toEvents('patient-1', rows, false, 'updated_at'),
+      ...toEvents('patient-1', rows.slice(0, 1), true, 'cancelled_at')
+    ];
+
+    expect(feed.buildCalendar(events)).toBe(buildCalendar(events));
+    expect(feed.buildCalendar([])).toBe(buildCalendar([]));
+  });
+});
@@ -0,0 +1,245 @@
+import { supabase } from './supabaseClient';
+import { RELEASED_STATUSES } from './supabaseSessionStatusService';
+
+// Calendar apps fetch feeds from the calendar-feed Edge Function, which looks the link up in calendar_feed
+// It builds the .ics with a copy of buildCalendar and toEvents in supabase/functions/_shared/calendar.ts
+const FEED_URL = `${process.env.REACT_APP_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+const CALENDAR_NAME = 'OwnUrVoice sessions';
+const PRODUCT_ID = '-//OwnUrVoice//Therapy Sessions//EN';
+
+// Lines longer than this many bytes are folded onto continuation lines (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// One session as a calendar event; uid stays the same for the life of the session
+export interface CalendarEvent {
+  uid: string;
+  session_date: string;
+  session_time: string;
+  duration_minutes: number;
+  summary: string;
+  location: string | null;
+  sequence: number;
+  last_modified: string;
+  cancelled: boolean;
+}
+
+// Whether the user has a feed link - the link itself is only shown when it is created
+export interface CalendarFeedStatus {
+  active: boolean;
+  created_at: string | null;
+}
+
+type Person = { first_name: string; last_name: string };
+
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Splits a long line into a first line and continuation lines that start with a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of Array.from(line)) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one byte to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatUtc = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Session dates and times are clinic-local, so they are sent as floating times with no time zone
+const formatLocal = (date: string, time: string, addMinutes: number = 0): string => {
+  const result = new Date(`${date}T${time.substring(0, 5)}:00Z`);
+  result.setUTCMinutes(result.getUTCMinutes() + addMinutes);
+  return formatUtc(result).replace('Z', '');
+};
+
+/**
+ * Builds an iCalendar document from a list of events - the same format the feed link serves
+ * Cancelled events are kept with STATUS:CANCELLED so calendars remove them
+ */
+export const buildCalendar = (events: CalendarEvent[]): string => {
+  const now = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${CALENDAR_NAME}`
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${formatUtc(new Date(event.last_modified))}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTART:${formatLocal(event.session_date, event.session_time)}`,
+      `DTEND:${formatLocal(event.session_date, event.session_time, event.duration_minutes)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Turns session rows (current or cancelled) into events
+ * The title names the other person: the therapist for a patient, the patient for a therapist
+ */
+export const toEvents = (userId: string, rows: any[], cancelled: boolean, modifiedField: string): CalendarEvent[] => {
+  return rows.map(row => {
+    const other: Person = row.patient_id === userId ? row.therapist : row.patient;
+    return {
+      uid: `${row.session_id}@ownurvoice`,
+      session_date: row.session_date,
+      session_time: row.session_time,
+      duration_minutes: row.duration_minutes,
+      summary: `${row.session_type} with ${other.first_name} ${other.last_name}`,
+      location: row.location,
+      sequence: row.revision,
+      last_modified: row[modifiedField],
+      // A rescheduled session's replacement is an event of its own
+      cancelled: cancelled || RELEASED_STATUSES.includes(row.status)
+    };
+  });
+};
+
+/**
+ * Fetches every session the user takes part in, including deleted ones, as calendar events
+ */
+export const getCalendarEvents = async (userId: string): Promise<CalendarEvent[]> => {
+  try {
+    const people = `
+      patient:patient_id ( first_name, last_name ),
+      therapist:therapist_id ( first_name, last_name )
+    `;
+    const involves = `patient_id.eq.${userId},therapist_id.eq.${userId}`;
+
+    const [current, cancelled] = await Promise.all([
+      supabase.from('session').select(`*, ${people}`).or(involves).order('session_date', { ascending: true }),
+      supabase.from('cancelled_session').select(`*, ${people}`).or(involves).order('session_date', { ascending: true })
+    ]);
+
+    if (current.error) throw current.error;
+    if (cancelled.error) throw cancelled.error;
+
+    return [
+      ...toEvents(userId, current.data || [], false, 'updated_at'),
+      ...toEvents(userId, cancelled.data || [], true, 'cancelled_at')
+    ];
+  } catch (error) {
+    console.error('Error fetching calendar events:', error);
+    throw error;
+  }
+};
+
+/**
+ * Downloads the user's sessions as an .ics file to import into any calendar app
+ */
+export const downloadSessionCalendar = async (userId: string): Promise<void> => {
+  const ics = buildCalendar(await getCalendarEvents(userId));
+  const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'ownurvoice-sessions.ics';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Feed tokens are stored as SHA-256 hashes, like every other token handed to users
+const hashToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Random URL-safe token, the same size as the API's opaque tokens
+const generateToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(48));
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+export const getCalendarFeedStatus = async (userId: string): Promise<CalendarFeedStatus> => {
+  try {
+    const { data, error } = await supabase
+      .from('calendar_feed')
+      .select('created_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { active: !!data, created_at: data ? data.created_at : null };
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Creates the user's private feed link, replacing any earlier one
+ * The link can't be shown again later - only its hash is saved - so a lost link has to be replaced
+ */
+export const createCalendarFeed = async (userId: string): Promise<string> => {
+  try {
+    const token = generateToken();
+
+    await deleteCalendarFeed(userId);
+    const { error } = await supabase
+      .from('calendar_feed')
+      .insert({ user_id: userId, token_hash: await hashToken(token) });
+
+    if (error) throw error;
+    return `${FEED_URL}/${token}.ics`;
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Turns the feed link off; subscribed calendars stop updating
+ */
+export const deleteCalendarFeed = async (userId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('calendar_feed')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting calendar feed:', error);
+    throw error;
+  }
+};
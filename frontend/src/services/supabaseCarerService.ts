@@ -0,0 +1,222 @@
+import { supabase } from './supabaseClient';
+import { Patient, getTherapistPatients } from './supabaseTherapistService';
+
+/**
+ * A parent or carer account - row in the parent_carer table
+ */
+export interface ParentCarer {
+  user_id: string;
+  username: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone_number: string;
+  date_of_birth: string;
+  user_role: string;
+  relationship_to_patient: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A carer's request to be linked to a patient
+ * The patient or one of their therapists accepts or declines it
+ */
+export interface CarerInvitation {
+  invitation_id: string;
+  carer_id: string;
+  patient_id: string;
+  status: 'pending' | 'accepted' | 'declined';
+  responded_by: string | null;
+  responded_at: string | null;
+  created_at: string;
+  carer?: Pick<ParentCarer, 'first_name' | 'last_name' | 'email' | 'relationship_to_patient'>;
+  patient?: Pick<Patient, 'first_name' | 'last_name' | 'email'>;
+}
+
+// Carer and patient details shown next to each invitation
+const INVITATION_SELECT = `
+  *,
+  carer:carer_id (first_name, last_name, email, relationship_to_patient),
+  patient:patient_id (first_name, last_name, email)
+`;
+
+/**
+ * Fetches the parent_carer record for a Supabase Auth User ID
+ */
+export const getCarerProfile = async (userId: string): Promise<ParentCarer | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('parent_carer')
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error fetching carer profile:', error);
+    return null;
+  }
+};
+
+/**
+ * Retrieves the children a carer has been linked to
+ */
+export const getCarerPatients = async (carerId: string): Promise<Patient[]> => {
+  try {
+    const { data: links, error: linkError } = await supabase
+      .from('carer_patient_link')
+      .select('patient_id')
+      .eq('carer_id', carerId);
+
+    if (linkError) throw linkError;
+    if (!links || links.length === 0) return [];
+
+    const { data: patients, error: patientError } = await supabase
+      .from('patient')
+      .select('*')
+      .in('user_id', links.map(l => l.patient_id))
+      .order('first_name', { ascending: true });
+
+    if (patientError) throw patientError;
+    return patients || [];
+  } catch (error) {
+    console.error('Error fetching carer patients:', error);
+    throw error;
+  }
+};
+
+/**
+ * Sends a link request to the patient with this email address
+ * Refuses if the carer is already linked or a request is still waiting for an answer
+ */
+export const requestCarerLink = async (carerId: string, patientEmail: string): Promise<CarerInvitation> => {
+  try {
+    const { data: patient, error: patientError } = await supabase
+      .from('patient')
+      .select('user_id')
+      .eq('email', patientEmail.trim())
+      .maybeSingle();
+
+    if (patientError) throw patientError;
+    if (!patient) throw new Error('No patient found with this email');
+
+    const { data: link } = await supabase
+      .from('carer_patient_link')
+      .select('patient_id')
+      .eq('carer_id', carerId)
+      .eq('patient_id', patient.user_id)
+      .maybeSingle();
+    if (link) throw new Error('You are already linked to this patient');
+
+    const { data: pending } = await supabase
+      .from('carer_invitation')
+      .select('invitation_id')
+      .eq('carer_id', carerId)
+      .eq('patient_id', patient.user_id)
+      .eq('status', 'pending')
+      .maybeSingle();
+    if (pending) throw new Error('A request to this patient is already waiting for an answer');
+
+    const { data, error } = await supabase
+      .from('carer_invitation')
+      .insert([{ carer_id: carerId, patient_id: patient.user_id, status: 'pending' }])
+      .select(INVITATION_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error requesting carer link:', error);
+    throw error;
+  }
+};
+
+/**
+ * Every request the carer has sent, newest first
+ */
+export const getCarerSentInvitations = async (carerId: string): Promise<CarerInvitation[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('carer_invitation')
+      .select(INVITATION_SELECT)
+      .eq('carer_id', carerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching sent invitations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Requests waiting for an answer from a patient, or from a therapist for any of their patients
+ */
+export const getPendingCarerInvitations = async (
+  userId: string,
+  role: 'patient' | 'therapist'
+): Promise<CarerInvitation[]> => {
+  try {
+    const patientIds = role === 'patient'
+      ? [userId]
+      : (await getTherapistPatients(userId)).map(p => p.user_id);
+    if (patientIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('carer_invitation')
+      .select(INVITATION_SELECT)
+      .in('patient_id', patientIds)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching pending invitations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Accepts or declines a request; accepting links the carer to the patient
+ * Only pending requests are updated, so a request can't be answered twice
+ */
+export const respondToCarerInvitation = async (
+  invitationId: string,
+  accept: boolean,
+  responderId: string
+): Promise<CarerInvitation> => {
+  try {
+    const { data: invitation, error } = await supabase
+      .from('carer_invitation')
+      .update({
+        status: accept ? 'accepted' : 'declined',
+        responded_by: responderId,
+        responded_at: new Date().toISOString()
+      })
+      .eq('invitation_id', invitationId)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (accept) {
+      const { error: linkError } = await supabase
+        .from('carer_patient_link')
+        .upsert(
+          [{ carer_id: invitation.carer_id, patient_id: invitation.patient_id }],
+          { onConflict: 'carer_id,patient_id', ignoreDuplicates: true }
+        );
+      if (linkError) throw linkError;
+    }
+
+    return invitation;
+  } catch (error) {
+    console.error('Error responding to carer invitation:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,295 @@
+import { supabase } from './supabaseClient';
+
+// Storage bucket the example media is uploaded to, under <exercise_id>/<file>
+const MEDIA_BUCKET = 'exercise-media';
+
+// How long a link to a media file stays valid, in seconds
+const MEDIA_URL_TTL = 60 * 60;
+
+const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+
+export type MediaKind = 'audio' | 'video' | 'image';
+
+// Formats every browser we support can play or show - same list the backend accepts
+const MEDIA_TYPES: Record<string, { kind: MediaKind; extension: string }> = {
+  'audio/mpeg': { kind: 'audio', extension: 'mp3' },
+  'audio/mp4': { kind: 'audio', extension: 'm4a' },
+  'audio/wav': { kind: 'audio', extension: 'wav' },
+  'audio/webm': { kind: 'audio', extension: 'webm' },
+  'audio/ogg': { kind: 'audio', extension: 'ogg' },
+  'video/mp4': { kind: 'video', extension: 'mp4' },
+  'video/webm': { kind: 'video', extension: 'webm' },
+  'image/jpeg': { kind: 'image', extension: 'jpg' },
+  'image/png': { kind: 'image', extension: 'png' },
+  'image/gif': { kind: 'image', extension: 'gif' },
+  'image/webp': { kind: 'image', extension: 'webp' }
+};
+
+// For the file picker's accept attribute
+export const MEDIA_ACCEPT = Object.keys(MEDIA_TYPES).join(',');
+
+// A practice word or sentence
+export interface ExercisePrompt {
+  prompt_id: string;
+  exercise_id: string;
+  position: number;
+  text: string;
+}
+
+// An example recording, video or picture, with a short-lived link to show it from
+export interface ExerciseMedia {
+  media_id: string;
+  exercise_id: string;
+  kind: MediaKind;
+  storage_key: string;
+  mime_type: string;
+  size_bytes: number;
+  caption: string;
+  created_at: string;
+  url?: string;
+}
+
+// Everything attached to an exercise, in the order the patient sees it
+export interface ExerciseContent {
+  steps: string[];
+  prompts: ExercisePrompt[];
+  media: ExerciseMedia[];
+}
+
+// A prompt to keep (prompt_id set) or add
+export interface PromptInput {
+  prompt_id?: string;
+  text: string;
+}
+
+const getMediaUrl = async (storageKey: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .createSignedUrl(storageKey, MEDIA_URL_TTL);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+/**
+ * The exercise's steps, prompts and media, with links to show the media from
+ */
+export const getExerciseContent = async (exerciseId: string): Promise<ExerciseContent> => {
+  try {
+    const [stepsResult, promptsResult, mediaResult] = await Promise.all([
+      supabase.from('exercise_step').select('instruction').eq('exercise_id', exerciseId).order('position', { ascending: true }),
+      supabase.from('exercise_prompt').select('*').eq('exercise_id', exerciseId).order('position', { ascending: true }),
+      supabase.from('exercise_media').select('*').eq('exercise_id', exerciseId).order('created_at', { ascending: true })
+    ]);
+
+    if (stepsResult.error) throw stepsResult.error;
+    if (promptsResult.error) throw promptsResult.error;
+    if (mediaResult.error) throw mediaResult.error;
+
+    const media = await Promise.all(
+      (mediaResult.data || []).map(async (item: ExerciseMedia) => ({ ...item, url: await getMediaUrl(item.storage_key) }))
+    );
+
+    return {
+      steps: (stepsResult.data || []).map((step: { instruction: string }) => step.instruction),
+      prompts: promptsResult.data || [],
+      media
+    };
+  } catch (error) {
+    console.error('Error fetching exercise content:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replaces the exercise's steps and prompts with the lists given, in their order
+ * Prompts given with their prompt_id keep it, so the attempts patients made at them are kept;
+ * prompts left out are deleted along with their attempts
+ */
+export const saveExerciseContent = async (exerciseId: string, steps: string[], prompts: PromptInput[]): Promise<void> => {
+  try {
+    const cleanSteps = steps.map(step => step.trim()).filter(Boolean);
+    const cleanPrompts = prompts
+      .map(prompt => ({ ...prompt, text: prompt.text.trim() }))
+      .filter(prompt => prompt.text);
+
+    const { error: stepsDeleteError } = await supabase.from('exercise_step').delete().eq('exercise_id', exerciseId);
+    if (stepsDeleteError) throw stepsDeleteError;
+
+    if (cleanSteps.length > 0) {
+      const { error } = await supabase
+        .from('exercise_step')
+        .insert(cleanSteps.map((instruction, position) => ({ exercise_id: exerciseId, position, instruction })));
+      if (error) throw error;
+    }
+
+    const keptIds = cleanPrompts.map(prompt => prompt.prompt_id).filter(Boolean) as string[];
+    let removal = supabase.from('exercise_prompt').delete().eq('exercise_id', exerciseId);
+    if (keptIds.length > 0) removal = removal.not('prompt_id', 'in', `(${keptIds.join(',')})`);
+    const { error: promptsDeleteError } = await removal;
+    if (promptsDeleteError) throw promptsDeleteError;
+
+    for (const [position, prompt] of cleanPrompts.entries()) {
+      const { error } = prompt.prompt_id
+        ? await supabase
+            .from('exercise_prompt')
+            .update({ position, text: prompt.text })
+            .eq('prompt_id', prompt.prompt_id)
+        : await supabase
+            .from('exercise_prompt')
+            .insert({ exercise_id: exerciseId, position, text: prompt.text });
+      if (error) throw error;
+    }
+  } catch (error) {
+    console.error('Error saving exercise content:', error);
+    throw error;
+  }
+};
+
+/**
+ * Uploads an example recording, video or picture for the exercise
+ */
+export const uploadExerciseMedia = async (exerciseId: string, file: File, caption: string): Promise<void> => {
+  try {
+    const mimeType = file.type.split(';')[0];
+    const type = MEDIA_TYPES[mimeType];
+    if (!type) throw new Error('Choose an audio file, a video or a picture');
+    if (file.size === 0) throw new Error('The file is empty');
+    if (file.size > MAX_MEDIA_BYTES) throw new Error('Files can be at most 25 MB');
+
+    const storageKey = `${exerciseId}/${crypto.randomUUID()}.${type.extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(storageKey, file, { contentType: mimeType });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase
+      .from('exercise_media')
+      .insert({
+        exercise_id: exerciseId,
+        kind: type.kind,
+        storage_key: storageKey,
+        mime_type: mimeType,
+        size_bytes: file.size,
+        caption: caption.trim()
+      });
+
+    if (error) {
+      // Don't leave a file behind that nothing points to
+      await supabase.storage.from(MEDIA_BUCKET).remove([storageKey]);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error uploading exercise media:', error);
+    throw error;
+  }
+};
+
+export const deleteExerciseMedia = async (media: ExerciseMedia): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('exercise_media')
+      .delete()
+      .eq('media_id', media.media_id);
+
+    if (error) throw error;
+    await supabase.storage.from(MEDIA_BUCKET).remove([media.storage_key]);
+  } catch (error) {
+    console.error('Error deleting exercise media:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gives a copied exercise the original's steps, prompts and media
+ * Media files are copied too, so deleting either exercise's media leaves the other's alone
+ */
+export const copyExerciseContent = async (fromExerciseId: string, toExerciseId: string): Promise<void> => {
+  try {
+    const original = await getExerciseContent(fromExerciseId);
+    await saveExerciseContent(toExerciseId, original.steps, original.prompts.map(prompt => ({ text: prompt.text })));
+
+    for (const media of original.media) {
+      const storageKey = `${toExerciseId}/${crypto.randomUUID()}.${MEDIA_TYPES[media.mime_type]?.extension || 'bin'}`;
+      const { error: copyError } = await supabase.storage.from(MEDIA_BUCKET).copy(media.storage_key, storageKey);
+      if (copyError) throw copyError;
+
+      const { error } = await supabase
+        .from('exercise_media')
+        .insert({
+          exercise_id: toExerciseId,
+          kind: media.kind,
+          storage_key: storageKey,
+          mime_type: media.mime_type,
+          size_bytes: media.size_bytes,
+          caption: media.caption
+        });
+      if (error) throw error;
+    }
+  } catch (error) {
+    console.error('Error copying exercise content:', error);
+    throw error;
+  }
+};
+
+/**
+ * Removes the exercise's media files from storage
+ * The media rows go with the exercise, so call this before deleting it
+ */
+export const removeExerciseMediaFiles = async (exerciseId: string): Promise<void> => {
+  try {
+    const { data, error } = await supabase
+      .from('exercise_media')
+      .select('storage_key')
+      .eq('exercise_id', exerciseId);
+
+    if (error) throw error;
+    if (data && data.length > 0) {
+      await supabase.storage.from(MEDIA_BUCKET).remove(data.map((media: { storage_key: string }) => media.storage_key));
+    }
+  } catch (error) {
+    console.error('Error removing exercise media:', error);
+    throw error;
+  }
+};
+
+// Practice mode
+
+/**
+ * The prompts the patient has tried during this scheduled practice
+ */
+export const getAttemptedPromptIds = async (rowId: string): Promise<string[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('prompt_attempt')
+      .select('prompt_id')
+      .eq('row_id', rowId)
+      .order('attempted_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map((attempt: { prompt_id: string }) => attempt.prompt_id);
+  } catch (error) {
+    console.error('Error fetching prompt attempts:', error);
+    throw error;
+  }
+};
+
+/**
+ * Marks a prompt as tried during this practice; trying it again is not a new attempt
+ */
+export const recordPromptAttempt = async (rowId: string, promptId: string, patientId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('prompt_attempt')
+      .upsert(
+        { row_id: rowId, prompt_id: promptId, patient_id: patientId },
+        { onConflict: 'row_id,prompt_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error recording prompt attempt:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,213 @@
+import { supabase } from './supabaseClient';
+import type { Exercise } from './supabaseTherapistService';
+import { copyExerciseContent, removeExerciseMediaFiles } from './supabaseExerciseContentService';
+
+// Same lists the backend validates against
+export const EXERCISE_CATEGORIES = ['fluency', 'articulation', 'voice', 'language'];
+export const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'];
+export const EXERCISE_FREQUENCIES = ['daily', 'twice daily', 'weekly', 'as needed'];
+
+// Which part of the library to list: the therapist's own exercises, colleagues' shared ones, or both
+export type LibraryScope = 'mine' | 'shared' | 'all';
+
+export interface LibraryFilters {
+  scope: LibraryScope;
+  category?: string;
+  difficulty_level?: string;
+  recommended_frequency?: string;
+  search?: string;
+}
+
+// An exercise as the library lists it, with whose it is
+export interface LibraryExercise extends Exercise {
+  creator?: { first_name: string; last_name: string };
+}
+
+export type ExerciseFields = Pick<
+  Exercise,
+  'title' | 'description' | 'difficulty_level' | 'recommended_frequency' | 'category'
+>;
+
+/**
+ * The therapists at the same clinic as this one, including them
+ * Clinic names match whatever their capitalisation
+ */
+export const getClinicColleagueIds = async (therapistId: string): Promise<string[]> => {
+  const { data: me, error } = await supabase
+    .from('therapist')
+    .select('clinic_name')
+    .eq('user_id', therapistId)
+    .single();
+
+  if (error) throw error;
+  if (!me?.clinic_name) return [therapistId];
+
+  const { data: colleagues, error: colleagueError } = await supabase
+    .from('therapist')
+    .select('user_id')
+    .ilike('clinic_name', me.clinic_name);
+
+  if (colleagueError) throw colleagueError;
+  return (colleagues || []).map(colleague => colleague.user_id);
+};
+
+/**
+ * The exercises a therapist can pick from, alphabetical
+ * Shared exercises are the ones colleagues at the same clinic have published
+ */
+export const getExerciseLibrary = async (therapistId: string, filters: LibraryFilters): Promise<LibraryExercise[]> => {
+  try {
+    let query = supabase
+      .from('exercise')
+      .select('*, creator:created_by ( first_name, last_name )')
+      .order('title', { ascending: true });
+
+    if (filters.scope === 'mine') {
+      query = query.eq('created_by', therapistId);
+    } else {
+      const colleagueIds = (await getClinicColleagueIds(therapistId)).filter(id => id !== therapistId);
+      const shared = colleagueIds.length > 0
+        ? `and(is_shared.eq.true,created_by.in.(${colleagueIds.join(',')}))`
+        : null;
+
+      if (filters.scope === 'shared') {
+        if (!shared) return [];
+        query = query.eq('is_shared', true).in('created_by', colleagueIds);
+      } else {
+        query = query.or([`created_by.eq.${therapistId}`, shared].filter(Boolean).join(','));
+      }
+    }
+
+    if (filters.category) query = query.eq('category', filters.category);
+    if (filters.difficulty_level) query = query.eq('difficulty_level', filters.difficulty_level);
+    if (filters.recommended_frequency) query = query.eq('recommended_frequency', filters.recommended_frequency);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    // Searched here rather than in the query, which already uses its one or() for the scope
+    const search = filters.search?.trim().toLowerCase();
+    return (data || []).filter(exercise =>
+      !search || `${exercise.title} ${exercise.description}`.toLowerCase().includes(search)
+    );
+  } catch (error) {
+    console.error('Error fetching exercise library:', error);
+    throw error;
+  }
+};
+
+export const createLibraryExercise = async (therapistId: string, fields: ExerciseFields): Promise<Exercise> => {
+  try {
+    if (!fields.title.trim()) throw new Error('Title is required');
+
+    const { data, error } = await supabase
+      .from('exercise')
+      .insert({ ...fields, title: fields.title.trim(), created_by: therapistId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error creating exercise:', error);
+    throw error;
+  }
+};
+
+export const updateLibraryExercise = async (exerciseId: string, fields: ExerciseFields): Promise<Exercise> => {
+  try {
+    if (!fields.title.trim()) throw new Error('Title is required');
+
+    const { data, error } = await supabase
+      .from('exercise')
+      .update({ ...fields, title: fields.title.trim(), updated_at: new Date().toISOString() })
+      .eq('exercise_id', exerciseId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error updating exercise:', error);
+    throw error;
+  }
+};
+
+/**
+ * Copies an exercise into the therapist's own library, to edit without changing the original
+ * A copy of the therapist's own exercise is titled "... (copy)" so the two can be told apart
+ * The copy gets its own steps, prompts and media, so editing it leaves the original alone
+ */
+export const cloneExercise = async (therapistId: string, original: Exercise): Promise<Exercise> => {
+  try {
+    const { data, error } = await supabase
+      .from('exercise')
+      .insert({
+        created_by: therapistId,
+        title: original.created_by === therapistId ? `${original.title} (copy)` : original.title,
+        description: original.description,
+        difficulty_level: original.difficulty_level,
+        recommended_frequency: original.recommended_frequency,
+        category: original.category,
+        cloned_from: original.exercise_id
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    await copyExerciseContent(original.exercise_id, data.exercise_id);
+    return data;
+  } catch (error) {
+    console.error('Error copying exercise:', error);
+    throw error;
+  }
+};
+
+/**
+ * Publishes an exercise to the therapist's clinic, or takes it back
+ * Goals that already use a withdrawn exercise keep it; colleagues just can't assign it again
+ */
+export const setExerciseShared = async (exerciseId: string, isShared: boolean): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('exercise')
+      .update({ is_shared: isShared, updated_at: new Date().toISOString() })
+      .eq('exercise_id', exerciseId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error sharing exercise:', error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes an exercise and every practice of it assigned to a goal
+ * A shared exercise colleagues have assigned to their patients is kept, so their goals don't lose it
+ */
+export const deleteLibraryExercise = async (therapistId: string, exerciseId: string): Promise<void> => {
+  try {
+    const { data: rows, error: rowsError } = await supabase
+      .from('goal_exercise_set')
+      .select('goal:goal_id ( plan:plan_id ( therapist_id ) )')
+      .eq('exercise_id', exerciseId);
+
+    if (rowsError) throw rowsError;
+    const usedByOthers = (rows || []).some((row: any) => row.goal?.plan?.therapist_id !== therapistId);
+    if (usedByOthers) {
+      throw new Error('Other therapists have assigned this exercise to their patients, so it cannot be deleted. Stop sharing it instead.');
+    }
+
+    await removeExerciseMediaFiles(exerciseId);
+
+    const { error } = await supabase
+      .from('exercise')
+      .delete()
+      .eq('exercise_id', exerciseId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting exercise:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,277 @@
+import { supabase } from './supabaseClient';
+import type { Goal } from './supabaseTherapistService';
+import { createGoal, deleteGoal, assignExerciseToGoal } from './supabaseTherapistService';
+import { ScheduleRule, inferScheduleRule } from './exerciseSchedule';
+import { rollUpProgress } from './goalHierarchy';
+import {
+  GoalStatus,
+  GoalProgress,
+  StatusSuggestion,
+  GOAL_STATUS_TRANSITIONS,
+  GOAL_STATUS_LABELS,
+  goalProgress,
+  isGoalOverdue,
+  suggestGoalStatus
+} from './goalLifecycle';
+
+// One change of a goal's status; from_status is null for the status it was created with
+export interface GoalStatusChange {
+  history_id: string;
+  goal_id: string;
+  from_status: GoalStatus | null;
+  to_status: GoalStatus;
+  reason: string | null;
+  changed_by: string | null;
+  changed_at: string;
+  changer?: { first_name: string; last_name: string } | null;
+}
+
+// The therapist's in-session measure of a goal, as a whole percentage
+export interface GoalMeasurement {
+  measurement_id: string;
+  goal_id: string;
+  measured_on: string;
+  score: number;
+  note: string | null;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+// Everything the therapist needs to decide where the goal goes next
+export interface GoalStatusSummary {
+  progress: GoalProgress; // Counts objectives rather than practices when the goal has any
+  objectives: number; // How many objectives the goal is broken into
+  overdue: boolean;
+  suggestion: StatusSuggestion | null;
+  history: GoalStatusChange[];
+  measurements: GoalMeasurement[]; // Newest first
+}
+
+const today = (): string => new Date().toISOString().split('T')[0];
+
+// Throws unless the goal may move from its current status to the new one
+const assertTransition = (goal: Goal, status: GoalStatus): void => {
+  const current = goal.status as GoalStatus;
+  if (!GOAL_STATUS_TRANSITIONS[current].includes(status)) {
+    throw new Error(
+      `A goal that is ${GOAL_STATUS_LABELS[current].toLowerCase()} cannot be marked ${GOAL_STATUS_LABELS[status].toLowerCase()}`
+    );
+  }
+};
+
+// Saves the new status and adds it to the goal's history
+const saveStatus = async (
+  goal: Goal,
+  status: GoalStatus,
+  reason: string,
+  therapistId: string,
+  carriedOverTo: string | null = null
+): Promise<void> => {
+  const { error } = await supabase
+    .from('goal')
+    .update({
+      status,
+      carried_over_to: carriedOverTo,
+      status_changed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('goal_id', goal.goal_id);
+  if (error) throw error;
+
+  const { error: historyError } = await supabase.from('goal_status_history').insert({
+    goal_id: goal.goal_id,
+    from_status: goal.status,
+    to_status: status,
+    reason: reason.trim() || null,
+    changed_by: therapistId
+  });
+  if (historyError) throw historyError;
+};
+
+/**
+ * The measurements taken for any of the goals, newest first
+ * Lets a list of goals show which look achieved without a request per goal
+ */
+export const getGoalMeasurements = async (goalIds: string[]): Promise<GoalMeasurement[]> => {
+  try {
+    if (goalIds.length === 0) return [];
+    const { data, error } = await supabase
+      .from('goal_measurement')
+      .select('*')
+      .in('goal_id', goalIds)
+      .order('measured_on', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching goal measurements:', error);
+    throw error;
+  }
+};
+
+/**
+ * The goal's status history and measurements, its progress through its practices (or rolled up from its objectives),
+ * whether it is overdue, and the status it looks ready to move to
+ */
+export const getGoalStatus = async (goal: Goal): Promise<GoalStatusSummary> => {
+  try {
+    const [rowsResult, objectivesResult, historyResult, measurements] = await Promise.all([
+      supabase.from('goal_exercise_set').select('completed').eq('goal_id', goal.goal_id),
+      supabase
+        .from('goal')
+        .select('status, weight, goal_exercise_set ( completed )')
+        .eq('parent_goal_id', goal.goal_id),
+      supabase
+        .from('goal_status_history')
+        .select('*, changer:changed_by ( first_name, last_name )')
+        .eq('goal_id', goal.goal_id)
+        .order('changed_at', { ascending: true }),
+      getGoalMeasurements([goal.goal_id])
+    ]);
+    if (rowsResult.error) throw rowsResult.error;
+    if (objectivesResult.error) throw objectivesResult.error;
+    if (historyResult.error) throw historyResult.error;
+
+    const progress = rollUpProgress((objectivesResult.data || []).map((objective: any) => ({
+      status: objective.status,
+      weight: objective.weight,
+      progress: goalProgress(objective.goal_exercise_set || [])
+    }))) || goalProgress(rowsResult.data || []);
+    return {
+      progress,
+      objectives: (objectivesResult.data || []).length,
+      overdue: isGoalOverdue(goal, progress, today()),
+      suggestion: suggestGoalStatus(goal, progress, measurements.map(measurement => measurement.score)),
+      history: historyResult.data || [],
+      measurements
+    };
+  } catch (error) {
+    console.error('Error fetching goal status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Moves a goal to a new status, keeping the reason and who made the change in its history
+ * Carrying a goal over needs a new target date, so it goes through carryOverGoal instead
+ */
+export const changeGoalStatus = async (
+  goal: Goal,
+  status: GoalStatus,
+  reason: string,
+  therapistId: string
+): Promise<void> => {
+  try {
+    if (status === 'carried_over') throw new Error('Give a new target date to carry a goal over');
+    assertTransition(goal, status);
+    await saveStatus(goal, status, reason, therapistId);
+  } catch (error) {
+    console.error('Error changing goal status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Continues an unfinished goal as a new active goal from today to targetDate, and marks the original carried over
+ * The new goal keeps the description, SMART fields, priority and place in its long-term goal, and each exercise
+ * is scheduled again by the rule it was practised by; exercises practised as needed stay as needed
+ * A long-term goal's unfinished objectives move to the new goal
+ * A schedule that can't be made leaves the original goal as it was
+ */
+export const carryOverGoal = async (
+  goal: Goal,
+  targetDate: string,
+  reason: string,
+  therapistId: string
+): Promise<Goal> => {
+  try {
+    assertTransition(goal, 'carried_over');
+    const startDate = today();
+    if (!targetDate || targetDate <= startDate) throw new Error('The carried-over goal needs a target date after today');
+
+    const [rowsResult, schedulesResult] = await Promise.all([
+      supabase
+        .from('goal_exercise_set')
+        .select('exercise_id, day_of_week, week_number, scheduled_date, slot, slot_index, created_at')
+        .eq('goal_id', goal.goal_id)
+        .order('created_at', { ascending: true }),
+      supabase.from('exercise_schedule').select('*').eq('goal_id', goal.goal_id)
+    ]);
+    if (rowsResult.error) throw rowsResult.error;
+    if (schedulesResult.error) throw schedulesResult.error;
+
+    const rowsByExercise = new Map<string, any[]>();
+    (rowsResult.data || []).forEach(row => {
+      rowsByExercise.set(row.exercise_id, [...(rowsByExercise.get(row.exercise_id) || []), row]);
+    });
+
+    const continuation = await createGoal({
+      plan_id: goal.plan_id,
+      goal_description: goal.goal_description,
+      start_date: startDate,
+      target_date: targetDate,
+      status: 'active',
+      priority: goal.priority,
+      specific_behaviour: goal.specific_behaviour,
+      measurable_criterion: goal.measurable_criterion,
+      context: goal.context,
+      parent_goal_id: goal.parent_goal_id,
+      weight: goal.weight
+    }, therapistId);
+
+    try {
+      for (const [exerciseId, exerciseRows] of Array.from(rowsByExercise.entries())) {
+        const stored = (schedulesResult.data || []).find((schedule: any) => schedule.exercise_id === exerciseId);
+        const rule: ScheduleRule = stored?.rule
+          || inferScheduleRule(exerciseRows, exerciseRows[0].created_at.slice(0, 10))?.rule
+          || { kind: 'as_needed' };
+        await assignExerciseToGoal(continuation, exerciseId, rule);
+      }
+    } catch (error) {
+      await deleteGoal(continuation.goal_id);
+      throw error;
+    }
+
+    const { error: objectivesError } = await supabase
+      .from('goal')
+      .update({ parent_goal_id: continuation.goal_id, updated_at: new Date().toISOString() })
+      .eq('parent_goal_id', goal.goal_id)
+      .in('status', ['draft', 'active', 'on_hold']);
+    if (objectivesError) throw objectivesError;
+
+    await saveStatus(goal, 'carried_over', reason, therapistId, continuation.goal_id);
+    return continuation;
+  } catch (error) {
+    console.error('Error carrying over goal:', error);
+    throw error;
+  }
+};
+
+/**
+ * Records the therapist's measure of the goal in a session, as a whole percentage
+ * measuredOn can't be in the future
+ */
+export const recordGoalMeasurement = async (
+  goalId: string,
+  measurement: { score: number; measured_on: string; note: string },
+  therapistId: string
+): Promise<void> => {
+  try {
+    const { score, measured_on, note } = measurement;
+    if (!Number.isInteger(score) || score < 0 || score > 100) throw new Error('The score must be a whole percentage from 0 to 100');
+    if (!measured_on || measured_on > today()) throw new Error('A measurement cannot be recorded for a future date');
+
+    const { error } = await supabase.from('goal_measurement').insert({
+      goal_id: goalId,
+      score,
+      measured_on,
+      note: note.trim() || null,
+      recorded_by: therapistId
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error recording goal measurement:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,228 @@
+import { supabase } from './supabaseClient';
+import type { Exercise, Goal } from './supabaseTherapistService';
+import { createGoal, assignExerciseToGoal, deleteGoal } from './supabaseTherapistService';
+import { getClinicColleagueIds } from './supabaseExerciseService';
+import { ScheduleRule, ruleForFrequency, scheduleRuleError } from './exerciseSchedule';
+import { SmartGoalDraft, describeSmartGoal, smartGoalError, smartGoalFields, targetDateForWeeks } from './smartGoal';
+
+// Same limits the backend validates against
+export const MAX_TIMEFRAME_WEEKS = 104;
+export const MAX_TEMPLATE_EXERCISES = 10;
+
+// An exercise bundled with a template, in the order they are assigned
+export interface GoalTemplateExercise {
+  exercise_id: string;
+  position: number;
+  schedule: ScheduleRule | null; // null to use the rule the exercise's recommended frequency gives
+  exercise?: Exercise;
+}
+
+// A goal a therapist can set for any patient in one step
+export interface GoalTemplate {
+  template_id: string;
+  created_by: string; // Therapist ID
+  title: string;
+  specific_behaviour: string;
+  measurable_criterion: string;
+  context: string; // Empty when the template doesn't say
+  timeframe_weeks: number; // The target date is this many weeks after the goal's start
+  priority: string;
+  is_shared: boolean; // Published to the therapist's clinic
+  created_at: string;
+  updated_at: string;
+  creator?: { first_name: string; last_name: string };
+  exercises: GoalTemplateExercise[];
+}
+
+export interface GoalTemplateInput extends SmartGoalDraft {
+  title: string;
+  timeframe_weeks: number;
+  priority: string;
+  exercises: { exercise_id: string; schedule: ScheduleRule | null }[];
+}
+
+// The template's SMART fields as the goal builder edits them
+export const templateDraft = (template: GoalTemplate): SmartGoalDraft => ({
+  specific_behaviour: template.specific_behaviour,
+  measurable_criterion: template.measurable_criterion,
+  context: template.context
+});
+
+/**
+ * The therapist's own templates and the ones colleagues at the same clinic share, by title
+ * Each comes with its bundled exercises in order
+ */
+export const getGoalTemplates = async (therapistId: string): Promise<GoalTemplate[]> => {
+  try {
+    const colleagueIds = (await getClinicColleagueIds(therapistId)).filter(id => id !== therapistId);
+    const shared = colleagueIds.length > 0
+      ? `and(is_shared.eq.true,created_by.in.(${colleagueIds.join(',')}))`
+      : null;
+
+    const { data, error } = await supabase
+      .from('goal_template')
+      .select(`
+        *,
+        creator:created_by ( first_name, last_name ),
+        exercises:goal_template_exercise ( exercise_id, position, schedule, exercise:exercise_id (*) )
+      `)
+      .or([`created_by.eq.${therapistId}`, shared].filter(Boolean).join(','))
+      .order('title', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(template => ({
+      ...template,
+      exercises: [...(template.exercises || [])].sort((a, b) => a.position - b.position)
+    }));
+  } catch (error) {
+    console.error('Error fetching goal templates:', error);
+    throw error;
+  }
+};
+
+// Why the template can't be saved, or null when it can
+const templateError = (input: GoalTemplateInput): string | null => {
+  if (!input.title.trim()) return 'Give the template a title';
+  const smartError = smartGoalError(input);
+  if (smartError) return smartError;
+  if (!Number.isInteger(input.timeframe_weeks) || input.timeframe_weeks < 1 || input.timeframe_weeks > MAX_TIMEFRAME_WEEKS) {
+    return `The timeframe must be 1 to ${MAX_TIMEFRAME_WEEKS} weeks`;
+  }
+  if (input.exercises.length > MAX_TEMPLATE_EXERCISES) return `Bundle at most ${MAX_TEMPLATE_EXERCISES} exercises`;
+  for (const exercise of input.exercises) {
+    const ruleError = exercise.schedule && scheduleRuleError(exercise.schedule);
+    if (ruleError) return ruleError;
+  }
+  return null;
+};
+
+// The bundled exercises are rewritten in the order given
+const saveTemplateExercises = async (templateId: string, exercises: GoalTemplateInput['exercises']): Promise<void> => {
+  const { error: deleteError } = await supabase.from('goal_template_exercise').delete().eq('template_id', templateId);
+  if (deleteError) throw deleteError;
+  if (exercises.length === 0) return;
+
+  const { error } = await supabase
+    .from('goal_template_exercise')
+    .insert(exercises.map((exercise, position) => ({ template_id: templateId, position, ...exercise })));
+  if (error) throw error;
+};
+
+const templateFields = (input: GoalTemplateInput) => ({
+  title: input.title.trim(),
+  specific_behaviour: input.specific_behaviour.trim(),
+  measurable_criterion: input.measurable_criterion.trim(),
+  context: input.context.trim(),
+  timeframe_weeks: input.timeframe_weeks,
+  priority: input.priority
+});
+
+export const createGoalTemplate = async (therapistId: string, input: GoalTemplateInput): Promise<void> => {
+  try {
+    const error = templateError(input);
+    if (error) throw new Error(error);
+
+    const { data, error: insertError } = await supabase
+      .from('goal_template')
+      .insert({ ...templateFields(input), created_by: therapistId })
+      .select('template_id')
+      .single();
+
+    if (insertError) throw insertError;
+    await saveTemplateExercises(data.template_id, input.exercises);
+  } catch (error) {
+    console.error('Error creating goal template:', error);
+    throw error;
+  }
+};
+
+// Goals already set from the template keep their exercises
+export const updateGoalTemplate = async (templateId: string, input: GoalTemplateInput): Promise<void> => {
+  try {
+    const error = templateError(input);
+    if (error) throw new Error(error);
+
+    const { error: updateError } = await supabase
+      .from('goal_template')
+      .update({ ...templateFields(input), updated_at: new Date().toISOString() })
+      .eq('template_id', templateId);
+
+    if (updateError) throw updateError;
+    await saveTemplateExercises(templateId, input.exercises);
+  } catch (error) {
+    console.error('Error updating goal template:', error);
+    throw error;
+  }
+};
+
+/**
+ * Publishes a template to the therapist's clinic, or takes it back
+ * Colleagues can only set it for a patient once its exercises are shared too
+ */
+export const setGoalTemplateShared = async (templateId: string, isShared: boolean): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('goal_template')
+      .update({ is_shared: isShared, updated_at: new Date().toISOString() })
+      .eq('template_id', templateId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error sharing goal template:', error);
+    throw error;
+  }
+};
+
+// Goals already set from the template are kept
+export const deleteGoalTemplate = async (templateId: string): Promise<void> => {
+  try {
+    const { error } = await supabase.from('goal_template').delete().eq('template_id', templateId);
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting goal template:', error);
+    throw error;
+  }
+};
+
+/**
+ * Sets the template's goal in the treatment plan and schedules its exercises, in one step
+ * The goal runs from startDate for the template's timeframe
+ * Each exercise is practised by the template's rule for it, or the rule its recommended frequency gives
+ * A schedule that can't be made leaves no half-set goal behind
+ */
+export const instantiateGoalTemplate = async (
+  template: GoalTemplate,
+  planId: string,
+  startDate: string,
+  priority: string,
+  therapistId: string
+): Promise<Goal> => {
+  try {
+    const unavailable = template.exercises.find(item => !item.exercise);
+    if (unavailable) throw new Error('One of the template\'s exercises is not shared with your clinic');
+
+    const draft = templateDraft(template);
+    const goal = await createGoal({
+      plan_id: planId,
+      goal_description: describeSmartGoal(draft),
+      start_date: startDate,
+      target_date: targetDateForWeeks(startDate, template.timeframe_weeks),
+      status: 'active',
+      priority,
+      ...smartGoalFields(draft)
+    }, therapistId);
+
+    try {
+      for (const item of template.exercises) {
+        await assignExerciseToGoal(goal, item.exercise_id, item.schedule || ruleForFrequency(item.exercise!.recommended_frequency));
+      }
+    } catch (error) {
+      await deleteGoal(goal.goal_id);
+      throw error;
+    }
+    return goal;
+  } catch (error) {
+    console.error('Error creating goal from template:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,163 @@
+import { supabase } from './supabaseClient';
+
+export type JournalVisibility = 'private' | 'shared';
+
+// One of the patient's journal entries
+export interface JournalEntry {
+  entry_id: string;
+  patient_id: string;
+  entry_date: string;
+  content: string;
+  mood: number; // 1 (very low) to 5 (very good)
+  confidence: number; // Self-rated speaking confidence, 1 to 10
+  goal_id: string | null;
+  exercise_id: string | null;
+  visibility: JournalVisibility;
+  created_at: string;
+  updated_at: string;
+  goal?: { goal_description: string } | null;
+  exercise?: { title: string } | null;
+}
+
+export type JournalEntryInput = Pick<
+  JournalEntry,
+  'entry_date' | 'content' | 'mood' | 'confidence' | 'goal_id' | 'exercise_id' | 'visibility'
+>;
+
+// Average mood and confidence for the week starting on week_start (a Monday)
+export interface JournalTrendPoint {
+  week_start: string;
+  mood: number;
+  confidence: number;
+  entries: number;
+}
+
+export const MOOD_LABELS: Record<number, string> = {
+  1: 'Very low', 2: 'Low', 3: 'Okay', 4: 'Good', 5: 'Very good'
+};
+
+export const MAX_MOOD = 5;
+export const MAX_CONFIDENCE = 10;
+
+const ENTRY_SELECT = `
+  *,
+  goal:goal_id ( goal_description ),
+  exercise:exercise_id ( title )
+`;
+
+const assertEntry = (entry: JournalEntryInput) => {
+  if (entry.entry_date > new Date().toISOString().split('T')[0]) {
+    throw new Error('Journal entries can\'t be dated in the future');
+  }
+  if (!Number.isInteger(entry.mood) || entry.mood < 1 || entry.mood > MAX_MOOD) {
+    throw new Error(`Mood must be from 1 to ${MAX_MOOD}`);
+  }
+  if (!Number.isInteger(entry.confidence) || entry.confidence < 1 || entry.confidence > MAX_CONFIDENCE) {
+    throw new Error(`Confidence must be from 1 to ${MAX_CONFIDENCE}`);
+  }
+};
+
+/**
+ * The patient's journal, newest first
+ * sharedOnly leaves out the entries the patient kept private (what their therapists see)
+ */
+export const getJournalEntries = async (patientId: string, sharedOnly: boolean = false): Promise<JournalEntry[]> => {
+  try {
+    let query = supabase
+      .from('journal_entry')
+      .select(ENTRY_SELECT)
+      .eq('patient_id', patientId);
+
+    if (sharedOnly) query = query.eq('visibility', 'shared');
+
+    const { data, error } = await query
+      .order('entry_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching journal entries:', error);
+    throw error;
+  }
+};
+
+export const createJournalEntry = async (patientId: string, entry: JournalEntryInput): Promise<void> => {
+  try {
+    assertEntry(entry);
+
+    const { error } = await supabase
+      .from('journal_entry')
+      .insert({ patient_id: patientId, ...entry, content: entry.content.trim() });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error creating journal entry:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replaces the entry with what is sent
+ */
+export const updateJournalEntry = async (entryId: string, entry: JournalEntryInput): Promise<void> => {
+  try {
+    assertEntry(entry);
+
+    const { error } = await supabase
+      .from('journal_entry')
+      .update({ ...entry, content: entry.content.trim(), updated_at: new Date().toISOString() })
+      .eq('entry_id', entryId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating journal entry:', error);
+    throw error;
+  }
+};
+
+export const deleteJournalEntry = async (entryId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('journal_entry')
+      .delete()
+      .eq('entry_id', entryId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting journal entry:', error);
+    throw error;
+  }
+};
+
+// The Monday on or before the date, as YYYY-MM-DD
+const weekStart = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().split('T')[0];
+};
+
+const average = (values: number[]): number => {
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+};
+
+/**
+ * Weekly averages of mood and confidence, oldest week first, for the trend charts
+ */
+export const buildJournalTrend = (entries: JournalEntry[]): JournalTrendPoint[] => {
+  const weeks = new Map<string, JournalEntry[]>();
+  entries.forEach(entry => {
+    const key = weekStart(entry.entry_date);
+    weeks.set(key, [...(weeks.get(key) || []), entry]);
+  });
+
+  return Array.from(weeks.keys()).sort().map(week => {
+    const weekEntries = weeks.get(week)!;
+    return {
+      week_start: week,
+      mood: average(weekEntries.map(entry => entry.mood)),
+      confidence: average(weekEntries.map(entry => entry.confidence)),
+      entries: weekEntries.length
+    };
+  });
+};
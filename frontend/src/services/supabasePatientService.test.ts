@@ -0,0 +1,61 @@
+import { supabase } from './supabaseClient';
+import { getPatientGoalsWithRows } from './supabasePatientService';
+
+jest.mock('./supabaseClient', () => ({ supabase: { from: jest.fn() } }));
+
+const from = supabase.from as jest.Mock;
+
+// A query that can be chained like Supabase's and resolves to the given rows
+const fakeQuery = (data: any[]) => {
+  const query: any = {
+    select: () => query,
+    eq: () => query,
+    order: () => query,
+    then: (resolve: (result: { data: any[]; error: null }) => void) => resolve({ data, error: null })
+  };
+  return query;
+};
+
+const row = (goalId: string, n: number, weekNumber: number) => ({
+  row_id: `${goalId}-row-${n}`,
+  goal_id: goalId,
+  exercise_id: 'exercise-1',
+  scheduled_date: null,
+  day_of_week: null,
+  week_number: weekNumber,
+  slot: null,
+  slot_index: 0,
+  completed: false,
+  created_at: '2026-03-02T09:00:00Z'
+});
+
+// Ten goals with three rows each, as Supabase returns them: embedded and in no particular order
+const tenGoals = Array.from({ length: 10 }, (_, i) => {
+  const goalId = `goal-${i}`;
+  return {
+    goal_id: goalId,
+    goal_description: `Goal ${i}`,
+    status: 'active',
+    plan: { patient_id: 'patient-1' },
+    rows: [row(goalId, 3, 3), row(goalId, 1, 1), row(goalId, 2, 2)]
+  };
+});
+
+beforeEach(() => {
+  from.mockReset();
+  from.mockImplementation(() => fakeQuery(tenGoals));
+});
+
+describe('getPatientGoalsWithRows', () => {
+  it('loads ten goals and all their exercise rows in one request', async () => {
+    const { goals, rowsByGoal } = await getPatientGoalsWithRows('patient-1', true);
+
+    expect(from).toHaveBeenCalledTimes(1);
+    expect(from).toHaveBeenCalledWith('goal');
+    expect(goals).toHaveLength(10);
+    expect(goals[0]).not.toHaveProperty('rows');
+    expect(goals[0]).not.toHaveProperty('plan');
+    expect(Object.keys(rowsByGoal)).toHaveLength(10);
+    expect(rowsByGoal['goal-4'].map(r => r.row_id)).toEqual(['goal-4-row-1', 'goal-4-row-2', 'goal-4-row-3']);
+  });
+});
@@ -1,5 +1,6 @@
 import { supabase } from './supabaseClient';
 import { Session, Goal, Exercise, SessionExercise, GoalExercise, Patient, Therapist } from './supabaseTherapistService';
+import { summariseAttendance } from './supabaseSessionStatusService';
 
 /**
  *Extends the base Patient interface to include optional therapist details 
@@ -31,30 +32,19 @@ export const getPatientProfile = async (userId: string): Promise<PatientProfile
 };
 
 /**
- * Retrieves all unique therapists a patient has worked with across all their sessions
+ * Retrieves the therapists the patient has accepted (therapist_patient_link rows)
  */
 export const getPatientTherapists = async (patientId: string): Promise<Therapist[]> => {
   try {
-    // Find all therapist IDs linked to this patient's sessions
-    const { data: sessions, error: sessionError } = await supabase
-      .from('session')
+    const { data: links, error: linkError } = await supabase
+      .from('therapist_patient_link')
       .select('therapist_id')
       .eq('patient_id', patientId);
 
-    if (sessionError) throw sessionError;
-    if (!sessions || sessions.length === 0) return [];
-
-    // Get unique therapist IDs
-    // Clean and de-duplicate the IDs to avoid redundant DB queries 
-    const therapistIds = Array.from(
-      new Set(
-        sessions
-          .map(s => s.therapist_id)
-          .filter(id => id !== null && id !== undefined)
-      )
-    );
+    if (linkError) throw linkError;
+    if (!links || links.length === 0) return [];
 
-    if (therapistIds.length === 0) return [];
+    const therapistIds = links.map(l => l.therapist_id);
 
     // Fetch full details for those specific therapists 
     const { data: therapists, error: therapistError } = await supabase
@@ -121,79 +111,122 @@ export const getPatientRecentSessions = async (
 };
 
 /**
- * Finds all goals currently marked as 'active' or 'in progress' 
- * Goals are linked to sessions, so check all the patient's sessions first 
+ * Finds all goals currently active - not drafts, ones on hold or ones already finished
+ * Goals belong to the patient's treatment plans, so they are found through the plan in one query
  */
 export const getPatientActiveGoals = async (patientId: string): Promise<Goal[]> => {
   try {
-    // Get all session IDs for this patient
-    const { data: sessions, error: sessionError } = await supabase
-      .from('session')
-      .select('session_id')
-      .eq('patient_id', patientId);
-
-    if (sessionError) throw sessionError;
-    if (!sessions || sessions.length === 0) return [];
-
-    const sessionIds = sessions.map(s => s.session_id).filter(id => id !== null);
-    if (sessionIds.length === 0) return [];
-
-    // Get active goals for these sessions
-    const { data: goals, error: goalError } = await supabase
+    const { data: goals, error } = await supabase
       .from('goal')
-      .select('*')
-      .in('session_id', sessionIds)
-      .in('status', ['active', 'in progress'])
+      .select('*, plan:plan_id!inner ( patient_id )')
+      .eq('plan.patient_id', patientId)
+      .eq('status', 'active')
       .order('target_date', { ascending: true });
 
-    if (goalError) throw goalError;
-    return goals || [];
+    if (error) throw error;
+    return (goals || []).map(({ plan, ...goal }) => goal);
   } catch (error) {
     console.error('Error fetching active goals:', error);
     throw error;
   }
 };
 
+// Missing values sort last, as they do in Postgres
+const compareNullable = <T extends string | number>(a: T | null, b: T | null): number => {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a < b ? -1 : 1;
+};
+
 /**
- * Multi-step retrieval to find exercises assigned to a patient via specific goals
+ * The order the schedule tables show a goal's rows in: exercises in the order they were assigned,
+ * then each one's practices by week, date and time of day, so exercises never swap places
  */
-export const getPatientAssignedExercises = async (patientId: string): Promise<GoalExercise[]> => {
+export const compareGoalRows = (a: GoalExercise, b: GoalExercise): number =>
+  compareNullable(a.created_at, b.created_at) ||
+  compareNullable(a.week_number, b.week_number) ||
+  compareNullable(a.scheduled_date, b.scheduled_date) ||
+  a.slot_index - b.slot_index;
+
+// A patient's goals, and goal_id → each goal's exercise rows (with their exercise) in compareGoalRows order
+export interface GoalsWithRows {
+  goals: Goal[];
+  rowsByGoal: Record<string, GoalExercise[]>;
+}
+
+/**
+ * The patient's goals with every exercise row of each, in a single request through their treatment plans
+ * activeOnly keeps the active goals, soonest target date first; otherwise every goal comes back, newest first
+ */
+export const getPatientGoalsWithRows = async (patientId: string, activeOnly: boolean = false): Promise<GoalsWithRows> => {
   try {
-    // Get IDs for all sessions belonging to this patient 
-    const { data: sessions, error: sessionError } = await supabase
-      .from('session')
-      .select('session_id')
-      .eq('patient_id', patientId);
+    let query = supabase
+      .from('goal')
+      .select(`
+        *,
+        plan:plan_id!inner ( patient_id ),
+        rows:goal_exercise_set ( *, exercise:exercise_id (*) )
+      `)
+      .eq('plan.patient_id', patientId);
+    if (activeOnly) query = query.eq('status', 'active');
 
-    if (sessionError) throw sessionError;
-    if (!sessions || sessions.length === 0) return [];
+    const { data, error } = await query.order(activeOnly ? 'target_date' : 'created_at', { ascending: activeOnly });
+    if (error) throw error;
 
-    const sessionIds = sessions.map(s => s.session_id).filter(id => id !== null);
-    if (sessionIds.length === 0) return [];
+    const goals: Goal[] = [];
+    const rowsByGoal: Record<string, GoalExercise[]> = {};
+    (data || []).forEach(({ plan, rows, ...goal }) => {
+      goals.push(goal);
+      rowsByGoal[goal.goal_id] = [...(rows || [])].sort(compareGoalRows);
+    });
+    return { goals, rowsByGoal };
+  } catch (error) {
+    console.error('Error fetching goals with exercises:', error);
+    throw error;
+  }
+};
 
-    // 2. Get IDs for all goals associated with those sessions 
-    const { data: goals, error: goalError } = await supabase
-      .from('goal')
-      .select('goal_id')
-      .in('session_id', sessionIds);
+// What a patient or carer can change on one of the patient's exercise rows
+export interface GoalExerciseRowChanges {
+  completed?: boolean;
+  completion_date?: string | null;
+  completed_by?: string | null; // The patient, or the carer ticking on their behalf
+  difficulty_rating?: number | null; // 0-10, null to clear the rating
+}
 
-    if (goalError) throw goalError;
-    if (!goals || goals.length === 0) return [];
+/**
+ * Ticks, unticks or rates a single exercise row
+ */
+export const updateGoalExerciseRow = async (rowId: string, changes: GoalExerciseRowChanges): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('goal_exercise_set')
+      .update(changes)
+      .eq('row_id', rowId);
 
-    const goalIds = goals.map(g => g.goal_id).filter(id => id !== null);
-    if (goalIds.length === 0) return [];
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating exercise row:', error);
+    throw error;
+  }
+};
 
-    // 3. Get the specific exercise sets and include full Exercise/Goal details
-    const { data: goalExercises, error: exerciseError } = await supabase
+/**
+ * Exercises assigned to a patient through their goals, with full Exercise/Goal details
+ */
+export const getPatientAssignedExercises = async (patientId: string): Promise<GoalExercise[]> => {
+  try {
+    const { data: goalExercises, error } = await supabase
       .from('goal_exercise_set')
       .select(`
         *,
         exercise:exercise_id (*),
-        goal:goal_id (*)
+        goal:goal_id!inner ( *, plan:plan_id!inner ( patient_id ) )
       `)
-      .in('goal_id', goalIds);
+      .eq('goal.plan.patient_id', patientId);
 
-    if (exerciseError) throw exerciseError;
+    if (error) throw error;
     return goalExercises || [];
   } catch (error) {
     console.error('Error fetching assigned exercises:', error);
@@ -209,7 +242,7 @@ export const getPatientSessionExercises = async (patientId: string): Promise<Ses
     // Get patient's sessions
     const { data: sessions, error: sessionError } = await supabase
       .from('session')
-      .select('session_id')
+      .select('session_id, status')
       .eq('patient_id', patientId);
 
     if (sessionError) throw sessionError;
@@ -293,14 +326,14 @@ export const addExerciseNotes = async (
 /**
  * Get patient statistics
  * Calculate progress percentages for the patient dashboard 
- * calculates completion rates for both high-level goals and individual exercises
+ * calculates completion rates for both high-level goals and individual exercises, and attendance
  */
 export const getPatientStats = async (patientId: string) => {
   try {
     // Get session IDs for filtering sub-queries 
     const { data: sessions, error: sessError } = await supabase
       .from('session')
-      .select('session_id')
+      .select('session_id, status')
       .eq('patient_id', patientId);
 
     if (sessError) throw sessError;
@@ -312,11 +345,13 @@ export const getPatientStats = async (patientId: string) => {
     // Get goal statistics 
     const { data: goals } = await supabase
       .from('goal')
-      .select('goal_id, status')
-      .in('session_id', sessionIds);
+      .select('goal_id, status, plan:plan_id!inner ( patient_id )')
+      .eq('plan.patient_id', patientId);
 
-    const totalGoals = goals?.length || 0;
-    const completedGoals = goals?.filter(g => g.status === 'completed').length || 0;
+    // Drafts aren't set yet, and a carried-over goal is counted once, as the goal that continues it
+    const setGoals = goals?.filter(g => g.status !== 'draft' && g.status !== 'carried_over') || [];
+    const totalGoals = setGoals.length;
+    const completedGoals = setGoals.filter(g => g.status === 'achieved').length;
 
     // Get exercises statistics
     const { data: exercises } = await supabase
@@ -336,6 +371,8 @@ export const getPatientStats = async (patientId: string) => {
       totalExercises,
       completedExercises,
       exerciseCompletionRate: totalExercises ? Math.round((completedExercises / totalExercises) * 100) : 0,
+      // Attended, missed and cancelled sessions, and the attendance rate they give
+      attendance: summariseAttendance(sessions?.map(s => s.status) || []),
     };
   } catch (error) {
     console.error('Error calculating patient stats:', error);
@@ -348,6 +385,7 @@ export const getPatientStats = async (patientId: string) => {
       totalExercises: 0,
       completedExercises: 0,
       exerciseCompletionRate: 0,
+      attendance: summariseAttendance([]),
     };
   }
 };
\ No newline at end of file
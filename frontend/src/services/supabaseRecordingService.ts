@@ -0,0 +1,272 @@
+import { supabase } from './supabaseClient';
+import { FluencyMetrics } from './fluencyAnalysis';
+
+// Storage bucket the audio is uploaded to, under <row_id>/<file>
+const RECORDING_BUCKET = 'exercise-recordings';
+
+// How long a playback link stays valid, in seconds
+const PLAYBACK_URL_TTL = 60 * 60;
+
+const MAX_RECORDING_BYTES = 10 * 1024 * 1024;
+
+// A therapist's comment on a moment in a recording
+export interface RecordingComment {
+  comment_id: string;
+  recording_id: string;
+  author_id: string;
+  position_seconds: number;
+  content: string;
+  created_at: string;
+  author?: { first_name: string; last_name: string };
+}
+
+type NullableMetrics = { [K in keyof FluencyMetrics]: FluencyMetrics[K] | null };
+
+// An attempt at an exercise row the patient recorded; the fluency measures are null until it's been analysed
+export interface ExerciseRecording extends NullableMetrics {
+  recording_id: string;
+  row_id: string;
+  patient_id: string;
+  storage_key: string;
+  mime_type: string;
+  size_bytes: number;
+  duration_seconds: number | null;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  created_at: string;
+  analyzed_at: string | null;
+  row?: {
+    goal_id: string;
+    day_of_week: string | null;
+    week_number: number | null;
+    scheduled_date: string | null;
+    slot: string | null;
+    exercise?: { exercise_id: string; title: string };
+  };
+  comments?: RecordingComment[];
+}
+
+// Weekly averages of one exercise's fluency measures, for the charts next to the goal's progress
+export interface FluencyTrendPoint extends Omit<FluencyMetrics, 'syllable_count'> {
+  week_start: string;
+  recordings: number;
+}
+
+export interface FluencyTrend {
+  goal_id: string;
+  exercise_id: string;
+  exercise_title: string;
+  weeks: FluencyTrendPoint[];
+}
+
+const RECORDING_SELECT = `
+  *,
+  row:row_id ( goal_id, day_of_week, week_number, scheduled_date, slot, exercise:exercise_id ( exercise_id, title ) ),
+  comments:recording_comment ( *, author:author_id ( first_name, last_name ) )
+`;
+
+// File extensions for the types MediaRecorder produces
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav'
+};
+
+/**
+ * Formats seconds as m:ss, e.g. 75 -> 1:15
+ */
+export const formatPosition = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Every recording the patient has made, newest first, with comments oldest first
+ */
+export const getPatientRecordings = async (patientId: string): Promise<ExerciseRecording[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('exercise_recording')
+      .select(RECORDING_SELECT)
+      .eq('patient_id', patientId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(recording => ({
+      ...recording,
+      comments: [...(recording.comments || [])].sort((a: RecordingComment, b: RecordingComment) =>
+        a.created_at.localeCompare(b.created_at)
+      )
+    }));
+  } catch (error) {
+    console.error('Error fetching recordings:', error);
+    throw error;
+  }
+};
+
+/**
+ * Uploads an attempt at an exercise row and records it against the row
+ * The audio is stored under the row's ID so a row's recordings sit together
+ * metrics are the fluency measures worked out in the browser, or null if the audio couldn't be analysed
+ */
+export const uploadRecording = async (
+  rowId: string,
+  patientId: string,
+  audio: Blob,
+  durationSeconds: number,
+  metrics: FluencyMetrics | null
+): Promise<void> => {
+  try {
+    const mimeType = audio.type.split(';')[0];
+    const extension = AUDIO_EXTENSIONS[mimeType];
+    if (!extension) throw new Error('This browser recorded audio in a format we can\'t store');
+    if (audio.size === 0) throw new Error('The recording is empty');
+    if (audio.size > MAX_RECORDING_BYTES) throw new Error('Recordings can be at most 10 MB');
+
+    const storageKey = `${rowId}/${crypto.randomUUID()}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(RECORDING_BUCKET)
+      .upload(storageKey, audio, { contentType: mimeType });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase
+      .from('exercise_recording')
+      .insert({
+        row_id: rowId,
+        patient_id: patientId,
+        storage_key: storageKey,
+        mime_type: mimeType,
+        size_bytes: audio.size,
+        duration_seconds: Math.round(durationSeconds),
+        ...(metrics ? { ...metrics, analyzed_at: new Date().toISOString() } : {})
+      });
+
+    if (error) {
+      // Don't leave audio behind that nothing points to
+      await supabase.storage.from(RECORDING_BUCKET).remove([storageKey]);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error uploading recording:', error);
+    throw error;
+  }
+};
+
+/**
+ * A short-lived link an <audio> element can play the recording from
+ */
+export const getRecordingUrl = async (storageKey: string): Promise<string> => {
+  try {
+    const { data, error } = await supabase.storage
+      .from(RECORDING_BUCKET)
+      .createSignedUrl(storageKey, PLAYBACK_URL_TTL);
+
+    if (error) throw error;
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Error fetching recording link:', error);
+    throw error;
+  }
+};
+
+/**
+ * Leaves a comment on the moment positionSeconds into the recording
+ */
+export const addRecordingComment = async (
+  recordingId: string,
+  authorId: string,
+  positionSeconds: number,
+  content: string
+): Promise<void> => {
+  try {
+    if (!content.trim()) throw new Error('Write the comment first');
+
+    const { error } = await supabase
+      .from('recording_comment')
+      .insert({
+        recording_id: recordingId,
+        author_id: authorId,
+        position_seconds: Math.max(0, Math.floor(positionSeconds)),
+        content: content.trim()
+      });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error adding recording comment:', error);
+    throw error;
+  }
+};
+
+export const markRecordingReviewed = async (recordingId: string, reviewerId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('exercise_recording')
+      .update({ reviewed_at: new Date().toISOString(), reviewed_by: reviewerId })
+      .eq('recording_id', recordingId)
+      .is('reviewed_at', null);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking recording reviewed:', error);
+    throw error;
+  }
+};
+
+// The Monday on or before the day the recording was made, as YYYY-MM-DD
+const weekStart = (timestamp: string): string => {
+  const day = new Date(`${timestamp.split('T')[0]}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().split('T')[0];
+};
+
+const average = (values: number[]): number => {
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+};
+
+/**
+ * Weekly averages of the fluency measures, one trend per exercise in each goal, oldest week first
+ * Recordings that haven't been analysed are left out
+ */
+export const buildFluencyTrends = (recordings: ExerciseRecording[]): FluencyTrend[] => {
+  const trends = new Map<string, { trend: FluencyTrend; weeks: Map<string, ExerciseRecording[]> }>();
+  recordings.forEach(recording => {
+    if (!recording.analyzed_at || !recording.row?.exercise) return;
+
+    const key = `${recording.row.goal_id}/${recording.row.exercise.exercise_id}`;
+    if (!trends.has(key)) {
+      trends.set(key, {
+        trend: {
+          goal_id: recording.row.goal_id,
+          exercise_id: recording.row.exercise.exercise_id,
+          exercise_title: recording.row.exercise.title,
+          weeks: []
+        },
+        weeks: new Map()
+      });
+    }
+    const { weeks } = trends.get(key)!;
+    const week = weekStart(recording.created_at);
+    weeks.set(week, [...(weeks.get(week) || []), recording]);
+  });
+
+  return Array.from(trends.values()).map(({ trend, weeks }) => ({
+    ...trend,
+    weeks: Array.from(weeks.keys()).sort().map(week => {
+      const weekRecordings = weeks.get(week)!;
+      const averageOf = (field: keyof FluencyMetrics) => average(weekRecordings.map(recording => recording[field] as number));
+      return {
+        week_start: week,
+        speaking_ms: averageOf('speaking_ms'),
+        pause_count: averageOf('pause_count'),
+        pause_ms: averageOf('pause_ms'),
+        syllables_per_minute: averageOf('syllables_per_minute'),
+        longest_fluent_ms: averageOf('longest_fluent_ms'),
+        recordings: weekRecordings.length
+      };
+    })
+  }));
+};
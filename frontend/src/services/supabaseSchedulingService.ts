@@ -0,0 +1,236 @@
+import { supabase } from './supabaseClient';
+import type { Session } from './supabaseTherapistService';
+import { localNow } from './clock';
+
+/**
+ * A weekly working window - row in the therapist_availability table
+ * day_of_week follows Date.getDay(): 0 is Sunday, 6 is Saturday
+ */
+export interface AvailabilityWindow {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+// Where and how long a session would be, before it is saved
+export interface ProposedSession {
+  session_date: string;
+  session_time: string;
+  duration_minutes: number;
+}
+
+export interface FreeSlot {
+  session_date: string;
+  session_time: string;
+}
+
+export const DEFAULT_SESSION_MINUTES = 60;
+
+// Lengths offered in the session modals
+export const SESSION_DURATIONS = [30, 45, 60, 90];
+
+// Used until a therapist saves their own working hours: Monday to Friday, 09:00-17:00
+export const DEFAULT_WORKING_HOURS: AvailabilityWindow[] = [1, 2, 3, 4, 5].map(day => ({
+  day_of_week: day,
+  start_time: '09:00:00',
+  end_time: '17:00:00'
+}));
+
+// Free slots start on the half hour, up to four weeks ahead
+const SLOT_STEP_MINUTES = 30;
+const FREE_SLOT_SEARCH_DAYS = 28;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number): string => {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}:00`;
+};
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(date + 'T00:00:00Z');
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+const dayOfWeek = (date: string): number => new Date(date + 'T00:00:00Z').getUTCDay();
+
+// Minutes since 1970-01-01 00:00 in the clinic's local time, so a session that runs past midnight
+// still overlaps one booked early the next morning
+const startMinute = (session: ProposedSession): number => {
+  return Date.parse(session.session_date + 'T00:00:00Z') / 60000 + toMinutes(session.session_time);
+};
+
+const overlaps = (a: ProposedSession, b: ProposedSession): boolean => {
+  const aStart = startMinute(a);
+  const bStart = startMinute(b);
+  return aStart < bStart + b.duration_minutes && bStart < aStart + a.duration_minutes;
+};
+
+/**
+ * Fetches the therapist's working hours, or the default working week if they haven't set any
+ */
+export const getWorkingHours = async (
+  therapistId: string
+): Promise<{ availability: AvailabilityWindow[]; usingDefault: boolean }> => {
+  try {
+    const { data, error } = await supabase
+      .from('therapist_availability')
+      .select('day_of_week, start_time, end_time')
+      .eq('therapist_id', therapistId)
+      .order('day_of_week', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+    return data && data.length > 0
+      ? { availability: data, usingDefault: false }
+      : { availability: DEFAULT_WORKING_HOURS, usingDefault: true };
+  } catch (error) {
+    console.error('Error fetching working hours:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replaces the therapist's whole working week
+ * Windows must end after they start and must not overlap on the same day
+ */
+export const saveWorkingHours = async (therapistId: string, windows: AvailabilityWindow[]): Promise<void> => {
+  try {
+    windows.forEach((window, i) => {
+      if (toMinutes(window.end_time) <= toMinutes(window.start_time)) {
+        throw new Error('Each working window must end after it starts');
+      }
+      const clash = windows.slice(i + 1).some(other =>
+        other.day_of_week === window.day_of_week &&
+        toMinutes(other.start_time) < toMinutes(window.end_time) &&
+        toMinutes(window.start_time) < toMinutes(other.end_time)
+      );
+      if (clash) throw new Error('Working windows on the same day cannot overlap');
+    });
+
+    const { error: deleteError } = await supabase
+      .from('therapist_availability')
+      .delete()
+      .eq('therapist_id', therapistId);
+    if (deleteError) throw deleteError;
+
+    if (windows.length === 0) return;
+
+    const { error } = await supabase
+      .from('therapist_availability')
+      .insert(windows.map(window => ({ ...window, therapist_id: therapistId })));
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving working hours:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches the therapist's booked sessions between two dates (inclusive)
+ * Cancelled and rescheduled sessions have given their time back, so they are left out
+ */
+const getSessionsBetween = async (therapistId: string, fromDate: string, toDate: string): Promise<Session[]> => {
+  const { data, error } = await supabase
+    .from('session')
+    .select('*')
+    .eq('therapist_id', therapistId)
+    .gte('session_date', fromDate)
+    .lte('session_date', toDate)
+    .not('status', 'in', '(cancelled_by_patient,cancelled_by_therapist,rescheduled)');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Throws if any proposed session overlaps another of the therapist's sessions
+ * ignoreSessionIds are sessions being moved, so they don't clash with their own old times
+ */
+export const assertNoSessionConflicts = async (
+  therapistId: string,
+  proposed: ProposedSession[],
+  ignoreSessionIds: string[] = []
+): Promise<void> => {
+  if (proposed.length === 0) return;
+
+  const dates = proposed.map(p => p.session_date).sort();
+  // From the day before, in case a session then runs past midnight
+  const existing = (await getSessionsBetween(therapistId, addDays(dates[0], -1), dates[dates.length - 1]))
+    .filter(s => !ignoreSessionIds.includes(s.session_id));
+
+  for (const session of proposed) {
+    const clash = existing.find(s => overlaps(session, s));
+    if (clash) {
+      const date = new Date(clash.session_date + 'T00:00:00Z').toLocaleDateString('en-GB');
+      throw new Error(`This overlaps another session on ${date} at ${clash.session_time.substring(0, 5)}. Please choose another time.`);
+    }
+  }
+};
+
+/**
+ * True when the session fits entirely inside one of the working windows for its day
+ */
+export const isWithinWorkingHours = (windows: AvailabilityWindow[], session: ProposedSession): boolean => {
+  const start = toMinutes(session.session_time);
+  const day = dayOfWeek(session.session_date);
+  return windows.some(window =>
+    window.day_of_week === day &&
+    toMinutes(window.start_time) <= start &&
+    start + session.duration_minutes <= toMinutes(window.end_time)
+  );
+};
+
+/**
+ * Finds the earliest times within working hours that have room for a session of this length
+ * Searches up to four weeks from fromDate; on today's date, times that have passed are skipped
+ */
+export const getNextFreeSlots = async (
+  therapistId: string,
+  fromDate: string,
+  durationMinutes: number = DEFAULT_SESSION_MINUTES,
+  count: number = 5
+): Promise<FreeSlot[]> => {
+  try {
+    const toDate = addDays(fromDate, FREE_SLOT_SEARCH_DAYS - 1);
+    const [{ availability: windows }, booked] = await Promise.all([
+      getWorkingHours(therapistId),
+      // From the day before, in case a session then runs past midnight
+      getSessionsBetween(therapistId, addDays(fromDate, -1), toDate)
+    ]);
+
+    const { today, nowMinutes } = localNow();
+
+    const slots: FreeSlot[] = [];
+    for (let date = fromDate; date <= toDate && slots.length < count; date = addDays(date, 1)) {
+      if (date < today) continue;
+
+      const day = dayOfWeek(date);
+      const dayWindows = windows
+        .filter(window => window.day_of_week === day)
+        .sort((a, b) => toMinutes(a.start_time) - toMinutes(b.start_time));
+
+      for (const window of dayWindows) {
+        const end = toMinutes(window.end_time);
+        for (let start = toMinutes(window.start_time); start + durationMinutes <= end; start += SLOT_STEP_MINUTES) {
+          if (date === today && start <= nowMinutes) continue;
+
+          const candidate = { session_date: date, session_time: toTime(start), duration_minutes: durationMinutes };
+          if (booked.some(s => overlaps(candidate, s))) continue;
+
+          slots.push({ session_date: date, session_time: candidate.session_time });
+          if (slots.length === count) break;
+        }
+        if (slots.length === count) break;
+      }
+    }
+
+    return slots;
+  } catch (error) {
+    console.error('Error finding free slots:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,222 @@
+import { supabase } from './supabaseClient';
+import { RELEASED_STATUSES, SessionStatus } from './supabaseSessionStatusService';
+import type { Session } from './supabaseTherapistService';
+
+export type NoteStatus = 'draft' | 'signed';
+
+type Person = { first_name: string; last_name: string };
+
+// A later addition to a signed note
+export interface NoteAddendum {
+  addendum_id: string;
+  note_id: string;
+  author_id: string;
+  content: string;
+  created_at: string;
+  author?: Person;
+}
+
+// A therapist's SOAP note for one session
+export interface SessionNote {
+  note_id: string;
+  session_id: string;
+  author_id: string;
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  tags: string[];
+  status: NoteStatus;
+  signed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  session?: { session_date: string; session_time: string; session_type: string };
+  author?: Person;
+  addenda?: NoteAddendum[];
+}
+
+export type NoteContent = Pick<SessionNote, 'subjective' | 'objective' | 'assessment' | 'plan' | 'tags'>;
+
+export const NOTE_SECTIONS: { key: keyof Omit<NoteContent, 'tags'>; label: string; hint: string }[] = [
+  { key: 'subjective', label: 'Subjective', hint: 'What the patient or carer reported' },
+  { key: 'objective', label: 'Objective', hint: 'What was observed or measured' },
+  { key: 'assessment', label: 'Assessment', hint: 'Your clinical interpretation' },
+  { key: 'plan', label: 'Plan', hint: 'Next steps and home practice' }
+];
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+const SIGNED_MESSAGE = 'This note has been signed and can no longer be changed. Add an addendum instead.';
+
+const NOTE_SELECT = `
+  *,
+  session:session_id!inner ( session_date, session_time, session_type, patient_id ),
+  author:author_id ( first_name, last_name ),
+  addenda:session_note_addendum ( *, author:author_id ( first_name, last_name ) )
+`;
+
+/**
+ * Turns comma-separated tag input into tags: lower case, without blanks or repeats
+ */
+export const parseTags = (input: string): string[] => {
+  const tags = Array.from(new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(tag => tag)));
+  if (tags.length > MAX_TAGS) throw new Error(`A note can have at most ${MAX_TAGS} tags`);
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) throw new Error(`Tags can be at most ${MAX_TAG_LENGTH} characters`);
+  return tags;
+};
+
+// Addenda come back in no particular order; the timeline reads oldest first
+const sortAddenda = (note: SessionNote): SessionNote => ({
+  ...note,
+  addenda: [...(note.addenda || [])].sort((a, b) => a.created_at.localeCompare(b.created_at))
+});
+
+const getNote = async (sessionId: string): Promise<SessionNote | null> => {
+  const { data, error } = await supabase
+    .from('session_note')
+    .select(NOTE_SELECT)
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? sortAddenda(data) : null;
+};
+
+/**
+ * Every note from the patient's sessions with their addenda, in the order the sessions took place
+ */
+export const getPatientNotes = async (patientId: string): Promise<SessionNote[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('session_note')
+      .select(NOTE_SELECT)
+      .eq('session.patient_id', patientId);
+
+    if (error) throw error;
+
+    return (data || [])
+      .map(sortAddenda)
+      .sort((a, b) =>
+        `${a.session!.session_date} ${a.session!.session_time}`.localeCompare(`${b.session!.session_date} ${b.session!.session_time}`)
+      );
+  } catch (error) {
+    console.error('Error fetching session notes:', error);
+    throw error;
+  }
+};
+
+/**
+ * The therapist's sessions with the patient that can have a note started:
+ * ones that have taken place, weren't cancelled or rescheduled, and have no note yet
+ */
+export const getSessionsAwaitingNotes = async (patientId: string, therapistId: string): Promise<Session[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('session')
+      .select('*, session_note ( note_id )')
+      .eq('patient_id', patientId)
+      .eq('therapist_id', therapistId)
+      .lte('session_date', new Date().toISOString().split('T')[0])
+      .order('session_date', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).filter(session =>
+      !RELEASED_STATUSES.includes(session.status as SessionStatus) &&
+      (!session.session_note || session.session_note.length === 0)
+    );
+  } catch (error) {
+    console.error('Error fetching sessions awaiting notes:', error);
+    throw error;
+  }
+};
+
+/**
+ * Starts or updates the session's draft note; the whole note is replaced with what is sent
+ * Only the therapist who started a draft can change it, and signed notes can't change at all
+ */
+export const saveDraftNote = async (sessionId: string, authorId: string, content: NoteContent): Promise<void> => {
+  try {
+    const trimmed = {
+      subjective: content.subjective.trim(),
+      objective: content.objective.trim(),
+      assessment: content.assessment.trim(),
+      plan: content.plan.trim(),
+      tags: content.tags
+    };
+
+    const existing = await getNote(sessionId);
+    if (!existing) {
+      const { error } = await supabase
+        .from('session_note')
+        .insert({ session_id: sessionId, author_id: authorId, ...trimmed });
+
+      if (error) throw error;
+      return;
+    }
+
+    if (existing.status === 'signed') throw new Error(SIGNED_MESSAGE);
+    if (existing.author_id !== authorId) throw new Error('Only the therapist who wrote this note can change it');
+
+    const { error } = await supabase
+      .from('session_note')
+      .update({ ...trimmed, updated_at: new Date().toISOString() })
+      .eq('note_id', existing.note_id)
+      .eq('status', 'draft');
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving session note:', error);
+    throw error;
+  }
+};
+
+/**
+ * Signs the draft, after which it can't be changed
+ */
+export const signSessionNote = async (sessionId: string, authorId: string): Promise<void> => {
+  try {
+    const note = await getNote(sessionId);
+    if (!note) throw new Error('This session has no notes yet');
+    if (note.status === 'signed') throw new Error('This note has already been signed');
+    if (note.author_id !== authorId) throw new Error('Only the therapist who wrote this note can sign it');
+    if (NOTE_SECTIONS.every(section => !note[section.key])) {
+      throw new Error('Fill in at least one section before signing the note');
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('session_note')
+      .update({ status: 'signed', signed_at: now, updated_at: now })
+      .eq('note_id', note.note_id)
+      .eq('status', 'draft');
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error signing session note:', error);
+    throw error;
+  }
+};
+
+/**
+ * Adds a dated correction or follow-up to a signed note
+ */
+export const addNoteAddendum = async (sessionId: string, authorId: string, content: string): Promise<void> => {
+  try {
+    if (!content.trim()) throw new Error('Write the addendum first');
+
+    const note = await getNote(sessionId);
+    if (!note) throw new Error('This session has no notes yet');
+    if (note.status !== 'signed') throw new Error('Addenda can only be added to signed notes; edit the draft instead');
+
+    const { error } = await supabase
+      .from('session_note_addendum')
+      .insert({ note_id: note.note_id, author_id: authorId, content: content.trim() });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error adding note addendum:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,235 @@
+import { supabase } from './supabaseClient';
+import { assertNoSessionConflicts } from './supabaseSchedulingService';
+import { localToday } from './clock';
+import type { Session, SeriesScope } from './supabaseTherapistService';
+
+export type SessionStatus =
+  | 'scheduled'
+  | 'attended'
+  | 'cancelled_by_patient'
+  | 'cancelled_by_therapist'
+  | 'no_show'
+  | 'rescheduled';
+
+export const SESSION_STATUS_LABELS: Record<SessionStatus, string> = {
+  scheduled: 'Scheduled',
+  attended: 'Attended',
+  cancelled_by_patient: 'Cancelled by patient',
+  cancelled_by_therapist: 'Cancelled by therapist',
+  no_show: 'No-show',
+  rescheduled: 'Rescheduled'
+};
+
+export const CANCELLED_STATUSES: SessionStatus[] = ['cancelled_by_patient', 'cancelled_by_therapist'];
+
+// Sessions in these statuses are no longer going ahead, so they don't block the therapist's time
+export const RELEASED_STATUSES: SessionStatus[] = [...CANCELLED_STATUSES, 'rescheduled'];
+
+// Where each status can move to; attended and no-show can be swapped to correct a mistake
+export const STATUS_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  scheduled: ['attended', 'cancelled_by_patient', 'cancelled_by_therapist', 'no_show', 'rescheduled'],
+  attended: ['no_show'],
+  no_show: ['attended'],
+  cancelled_by_patient: [],
+  cancelled_by_therapist: [],
+  rescheduled: []
+};
+
+// Statuses that record what happened at the session, so they can't be set before it
+export const OUTCOME_STATUSES: SessionStatus[] = ['attended', 'no_show'];
+
+export interface AttendanceSummary {
+  attended: number;
+  noShows: number;
+  cancelledByPatient: number;
+  cancelledByTherapist: number;
+  // Attended out of the sessions the patient was expected at (attended, no-shows and their own cancellations)
+  // null until one of those has happened
+  attendanceRate: number | null;
+}
+
+/**
+ * Counts attended, missed and cancelled sessions from their statuses
+ * Therapist cancellations and reschedules don't count against the patient's attendance
+ */
+export const summariseAttendance = (statuses: string[]): AttendanceSummary => {
+  const count = (status: SessionStatus) => statuses.filter(s => s === status).length;
+
+  const attended = count('attended');
+  const noShows = count('no_show');
+  const cancelledByPatient = count('cancelled_by_patient');
+  const expected = attended + noShows + cancelledByPatient;
+
+  return {
+    attended,
+    noShows,
+    cancelledByPatient,
+    cancelledByTherapist: count('cancelled_by_therapist'),
+    attendanceRate: expected ? Math.round((attended / expected) * 100) : null
+  };
+};
+
+// Throws unless the session may move from its current status to the new one
+const assertTransition = (session: Session, status: SessionStatus): void => {
+  const current = session.status as SessionStatus;
+  if (!STATUS_TRANSITIONS[current].includes(status)) {
+    throw new Error(`This session is already ${SESSION_STATUS_LABELS[current].toLowerCase()}`);
+  }
+  if (OUTCOME_STATUSES.includes(status) && session.session_date > localToday()) {
+    throw new Error('A session can only be marked attended or no-show once it has taken place');
+  }
+};
+
+/**
+ * Saves a new status with its reason and when it changed
+ */
+const saveStatus = async (
+  session: Session,
+  status: SessionStatus,
+  reason: string,
+  rescheduledTo: string | null = null
+): Promise<void> => {
+  const { error } = await supabase
+    .from('session')
+    .update({
+      status,
+      status_reason: reason.trim() || null,
+      status_changed_at: new Date().toISOString(),
+      rescheduled_to: rescheduledTo,
+      revision: session.revision + 1
+    })
+    .eq('session_id', session.session_id);
+
+  if (error) throw error;
+};
+
+const getSession = async (sessionId: string): Promise<Session> => {
+  const { data, error } = await supabase
+    .from('session')
+    .select('*')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Moves a session to a new status, keeping the reason and when it changed
+ * Cancelled sessions stay on record instead of being deleted
+ * Cancellations can also cover this and the following occurrences, or the whole series;
+ * occurrences that have already happened or been cancelled are left as they are
+ */
+export const changeSessionStatus = async (
+  sessionId: string,
+  status: SessionStatus,
+  reason: string = '',
+  scope: SeriesScope = 'this'
+): Promise<void> => {
+  try {
+    if (status === 'rescheduled') throw new Error('Give a new date and time to reschedule a session');
+
+    const session = await getSession(sessionId);
+    if (scope === 'this') {
+      assertTransition(session, status);
+      await saveStatus(session, status, reason);
+      return;
+    }
+
+    if (!session.series_id) throw new Error('This session is not part of a series');
+    if (!CANCELLED_STATUSES.includes(status)) {
+      throw new Error('Only cancellations can apply to more than one session');
+    }
+
+    let query = supabase
+      .from('session')
+      .select('*')
+      .eq('series_id', session.series_id)
+      .eq('status', 'scheduled');
+    if (scope === 'following') query = query.gte('session_date', session.session_date);
+
+    const { data: scheduled, error } = await query;
+    if (error) throw error;
+    if (!scheduled || scheduled.length === 0) throw new Error('There are no scheduled sessions left to cancel');
+
+    for (const occurrence of scheduled) {
+      await saveStatus(occurrence, status, reason);
+    }
+  } catch (error) {
+    console.error('Error updating session status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Books a replacement for a scheduled session at a new date and time, and marks the original as rescheduled
+ * The replacement keeps everything else about the session, including its place in a series
+ * Nothing changes if the new time overlaps another of the therapist's sessions
+ */
+export const rescheduleSession = async (
+  sessionId: string,
+  newTime: { session_date: string; session_time: string },
+  reason: string = ''
+): Promise<void> => {
+  try {
+    const session = await getSession(sessionId);
+    assertTransition(session, 'rescheduled');
+
+    const sessionTime = newTime.session_time + ':00';
+    await assertNoSessionConflicts(
+      session.therapist_id,
+      [{ session_date: newTime.session_date, session_time: sessionTime, duration_minutes: session.duration_minutes }],
+      [sessionId]
+    );
+
+    const { data: replacement, error } = await supabase
+      .from('session')
+      .insert({
+        patient_id: session.patient_id,
+        therapist_id: session.therapist_id,
+        session_date: newTime.session_date,
+        session_time: sessionTime,
+        session_type: session.session_type,
+        duration_minutes: session.duration_minutes,
+        status: 'scheduled',
+        location: session.location,
+        series_id: session.series_id
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    await saveStatus(session, 'rescheduled', reason, replacement.session_id);
+  } catch (error) {
+    console.error('Error rescheduling session:', error);
+    throw error;
+  }
+};
+
+/**
+ * Attendance at this therapist's sessions for each of their patients, keyed by patient ID
+ */
+export const getTherapistAttendance = async (therapistId: string): Promise<Record<string, AttendanceSummary>> => {
+  try {
+    const { data, error } = await supabase
+      .from('session')
+      .select('patient_id, status')
+      .eq('therapist_id', therapistId);
+
+    if (error) throw error;
+
+    const statuses: Record<string, string[]> = {};
+    (data || []).forEach(row => {
+      statuses[row.patient_id] = [...(statuses[row.patient_id] || []), row.status];
+    });
+
+    const attendance: Record<string, AttendanceSummary> = {};
+    Object.entries(statuses).forEach(([patientId, patientStatuses]) => {
+      attendance[patientId] = summariseAttendance(patientStatuses);
+    });
+    return attendance;
+  } catch (error) {
+    console.error('Error fetching attendance:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,74 @@
+import { createFakeSupabase, FakeSupabase } from '../test-utils/fakeSupabase';
+import { requestPatientLink, respondToTherapistLinkRequest } from './supabaseTherapistLinkService';
+import { createSessionForPatient, getTherapistPatients } from './supabaseTherapistService';
+import { getPatientTherapists } from './supabasePatientService';
+
+let mockDb: FakeSupabase;
+
+jest.mock('./supabaseClient', () => ({
+  supabase: { from: (table: string) => mockDb.client.from(table) }
+}));
+
+const sessionData = {
+  session_date: '2099-03-02',
+  session_time: '10:00:00',
+  session_type: 'Initial Assessment',
+  duration_minutes: 60,
+  location: 'Room 1'
+};
+
+beforeEach(() => {
+  // The services log each error they throw
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockDb = createFakeSupabase({
+    therapist: [{ user_id: 'therapist-1', first_name: 'Sam', last_name: 'Okafor' }],
+    patient: [
+      { user_id: 'patient-1', email: 'alex@example.com', first_name: 'Alex', created_at: '2026-03-01' },
+      { user_id: 'patient-2', email: 'jo@example.com', first_name: 'Jo', created_at: '2026-03-02' }
+    ],
+    // A session left over from before links, with a patient who never accepted the therapist
+    session: [{ session_id: 'session-1', therapist_id: 'therapist-1', patient_id: 'patient-2', session_date: '2026-03-02', status: 'attended' }],
+    therapist_patient_link: [],
+    therapist_link_request: []
+  });
+});
+
+describe('therapist links', () => {
+  it('lists only the patients who have accepted the therapist, not everyone with a session', async () => {
+    expect(await getTherapistPatients('therapist-1')).toEqual([]);
+
+    const request = await requestPatientLink('therapist-1', 'alex@example.com');
+    await respondToTherapistLinkRequest(request.request_id, true);
+
+    expect((await getTherapistPatients('therapist-1')).map(p => p.user_id)).toEqual(['patient-1']);
+    expect((await getPatientTherapists('patient-1')).map(t => t.user_id)).toEqual(['therapist-1']);
+    expect(await getPatientTherapists('patient-2')).toEqual([]);
+  });
+
+  it('links nobody when the patient declines, and a request can only be answered once', async () => {
+    const request = await requestPatientLink('therapist-1', 'alex@example.com');
+    await respondToTherapistLinkRequest(request.request_id, false);
+
+    await expect(respondToTherapistLinkRequest(request.request_id, true)).rejects.toBeTruthy();
+    expect(mockDb.tables.therapist_patient_link).toEqual([]);
+  });
+
+  it('refuses a second request while one is waiting, and a request once linked', async () => {
+    const request = await requestPatientLink('therapist-1', 'alex@example.com');
+    await expect(requestPatientLink('therapist-1', 'alex@example.com')).rejects.toThrow('already waiting');
+
+    await respondToTherapistLinkRequest(request.request_id, true);
+    await expect(requestPatientLink('therapist-1', 'alex@example.com')).rejects.toThrow('already linked');
+  });
+
+  it('only books sessions with a patient who has accepted the therapist', async () => {
+    await expect(createSessionForPatient('patient-2', 'therapist-1', sessionData)).rejects.toThrow('not accepted you');
+    expect(mockDb.tables.session).toHaveLength(1);
+
+    const request = await requestPatientLink('therapist-1', 'jo@example.com');
+    await respondToTherapistLinkRequest(request.request_id, true);
+    await createSessionForPatient('patient-2', 'therapist-1', sessionData);
+
+    expect(mockDb.tables.session).toHaveLength(2);
+  });
+});
@@ -0,0 +1,157 @@
+import { supabase } from './supabaseClient';
+import type { Patient } from './supabaseTherapistService';
+
+/**
+ * A therapist's request to take a patient on
+ * Once the patient accepts, the two are linked - row in the therapist_patient_link table -
+ * and only then can the therapist book sessions and set goals for the patient
+ */
+export interface TherapistLinkRequest {
+  request_id: string;
+  therapist_id: string;
+  patient_id: string;
+  status: 'pending' | 'accepted' | 'declined';
+  responded_at: string | null;
+  created_at: string;
+  therapist?: { first_name: string; last_name: string; email: string; clinic_name: string | null };
+  patient?: Pick<Patient, 'first_name' | 'last_name' | 'email'>;
+}
+
+// Therapist and patient details shown next to each request
+const REQUEST_SELECT = `
+  *,
+  therapist:therapist_id (first_name, last_name, email, clinic_name),
+  patient:patient_id (first_name, last_name, email)
+`;
+
+/**
+ * Whether the patient has accepted the therapist
+ */
+export const isTherapistLinkedToPatient = async (therapistId: string, patientId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('therapist_patient_link')
+    .select('patient_id')
+    .eq('therapist_id', therapistId)
+    .eq('patient_id', patientId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+/**
+ * Throws unless the patient has accepted the therapist - the check made before every booking
+ */
+export const assertLinkedToPatient = async (therapistId: string, patientId: string): Promise<void> => {
+  if (!(await isTherapistLinkedToPatient(therapistId, patientId))) {
+    throw new Error('This patient has not accepted you as their therapist yet. Send them a link request first.');
+  }
+};
+
+/**
+ * Sends a link request to the patient with this email address
+ * Refuses if the therapist is already linked or a request is still waiting for an answer
+ */
+export const requestPatientLink = async (therapistId: string, patientEmail: string): Promise<TherapistLinkRequest> => {
+  try {
+    const { data: patient, error: patientError } = await supabase
+      .from('patient')
+      .select('user_id')
+      .eq('email', patientEmail.trim())
+      .maybeSingle();
+
+    if (patientError) throw patientError;
+    if (!patient) throw new Error('No patient found with this email');
+
+    if (await isTherapistLinkedToPatient(therapistId, patient.user_id)) {
+      throw new Error('You are already linked to this patient');
+    }
+
+    const { data: pending } = await supabase
+      .from('therapist_link_request')
+      .select('request_id')
+      .eq('therapist_id', therapistId)
+      .eq('patient_id', patient.user_id)
+      .eq('status', 'pending')
+      .maybeSingle();
+    if (pending) throw new Error('A request to this patient is already waiting for an answer');
+
+    const { data, error } = await supabase
+      .from('therapist_link_request')
+      .insert([{ therapist_id: therapistId, patient_id: patient.user_id, status: 'pending' }])
+      .select(REQUEST_SELECT)
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error requesting patient link:', error);
+    throw error;
+  }
+};
+
+/**
+ * Requests waiting for the patient's answer, newest first
+ */
+export const getPendingTherapistLinkRequests = async (patientId: string): Promise<TherapistLinkRequest[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('therapist_link_request')
+      .select(REQUEST_SELECT)
+      .eq('patient_id', patientId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching therapist link requests:', error);
+    throw error;
+  }
+};
+
+/**
+ * Accepts or declines a request; accepting links the therapist to the patient
+ * Only pending requests are updated, so a request can't be answered twice
+ */
+export const respondToTherapistLinkRequest = async (
+  requestId: string,
+  accept: boolean
+): Promise<TherapistLinkRequest> => {
+  try {
+    const { data: request, error } = await supabase
+      .from('therapist_link_request')
+      .update({
+        status: accept ? 'accepted' : 'declined',
+        responded_at: new Date().toISOString()
+      })
+      .eq('request_id', requestId)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (accept) {
+      await linkTherapistToPatient(request.therapist_id, request.patient_id);
+    }
+
+    return request;
+  } catch (error) {
+    console.error('Error responding to therapist link request:', error);
+    throw error;
+  }
+};
+
+/**
+ * Records the link between a therapist and a patient; linking them twice changes nothing
+ */
+export const linkTherapistToPatient = async (therapistId: string, patientId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('therapist_patient_link')
+    .upsert(
+      [{ therapist_id: therapistId, patient_id: patientId }],
+      { onConflict: 'therapist_id,patient_id', ignoreDuplicates: true }
+    );
+  if (error) throw error;
+};
@@ -0,0 +1,63 @@
+import { createFakeSupabase, FakeSupabase } from '../test-utils/fakeSupabase';
+import { updateSession } from './supabaseTherapistService';
+
+let mockDb: FakeSupabase;
+
+jest.mock('./supabaseClient', () => ({
+  supabase: { from: (table: string) => mockDb.client.from(table) }
+}));
+
+const DATES = ['2026-03-02', '2026-03-09', '2026-03-16', '2026-03-23'];
+
+const edit = {
+  session_date: '2026-03-16',
+  session_time: '09:00',
+  session_type: 'Follow-up',
+  duration_minutes: 60,
+  location: 'Room 2'
+};
+
+// A weekly series of four sessions, one of them cancelled
+const seriesWithCancelled = (cancelledIndex: number) => createFakeSupabase({
+  session_series: [{ series_id: 'series-1', patient_id: 'patient-1', therapist_id: 'therapist-1', frequency: 'weekly', occurrences: 4 }],
+  session: DATES.map((session_date, i) => ({
+    session_id: `session-${i}`,
+    series_id: 'series-1',
+    patient_id: 'patient-1',
+    therapist_id: 'therapist-1',
+    session_date,
+    session_time: '10:30:00',
+    session_type: 'Initial Assessment',
+    duration_minutes: 60,
+    location: 'Room 1',
+    status: i === cancelledIndex ? 'cancelled_by_patient' : 'scheduled',
+    revision: 0
+  }))
+});
+
+const session = (id: string) => mockDb.tables.session.find(s => s.session_id === id)!;
+
+describe('updateSession in a series', () => {
+  it('changes the whole series in place when one occurrence is cancelled', async () => {
+    mockDb = seriesWithCancelled(1);
+
+    await updateSession('session-2', edit, 'all');
+
+    expect(mockDb.tables.session_series).toHaveLength(1);
+    expect(mockDb.tables.session.map(s => s.series_id)).toEqual(['series-1', 'series-1', 'series-1', 'series-1']);
+    expect(mockDb.tables.session.map(s => s.session_time)).toEqual(['09:00:00', '10:30:00', '09:00:00', '09:00:00']);
+    expect(session('session-1')).toMatchObject({ session_date: '2026-03-09', location: 'Room 1', revision: 0 });
+  });
+
+  it('moves a cancelled occurrence into the split with the others, counting it', async () => {
+    mockDb = seriesWithCancelled(3);
+
+    await updateSession('session-2', { ...edit, session_date: '2026-03-17' }, 'following');
+
+    const split = mockDb.tables.session_series.find(s => s.series_id !== 'series-1')!;
+    expect(split).toMatchObject({ start_date: '2026-03-17', occurrences: 2 });
+    expect(mockDb.tables.session.map(s => s.series_id)).toEqual(['series-1', 'series-1', split.series_id, split.series_id]);
+    expect(session('session-2')).toMatchObject({ session_date: '2026-03-17', session_time: '09:00:00' });
+    expect(session('session-3')).toMatchObject({ session_date: '2026-03-23', status: 'cancelled_by_patient' });
+  });
+});
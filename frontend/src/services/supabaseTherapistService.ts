@@ -1,4 +1,18 @@
 import { supabase  } from "./supabaseClient";
+import { assertNoSessionConflicts } from "./supabaseSchedulingService";
+import { RELEASED_STATUSES, SessionStatus } from "./supabaseSessionStatusService";
+import {
+  buildSchedule,
+  inferScheduleRule,
+  rescheduleRows,
+  scheduleRuleError,
+  scheduleStartDate,
+  ScheduleChange,
+  ScheduleRule
+} from "./exerciseSchedule";
+import { MAX_OBJECTIVE_WEIGHT } from "./goalHierarchy";
+import { localToday } from "./clock";
+import { assertLinkedToPatient, linkTherapistToPatient } from "./supabaseTherapistLinkService";
 
 /*
 * Entity definitions 
@@ -45,8 +59,14 @@ export interface Session {
     session_date: string; 
     session_time: string; 
     session_type: string;
+    duration_minutes: number;
     status: string; 
+    status_reason: string | null; // Why the status last changed, e.g. the patient's reason for cancelling
+    status_changed_at: string | null;
+    rescheduled_to: string | null; // Set on a rescheduled session: the session that replaced it
     location: string; 
+    series_id: string | null; // Set when the session is one occurrence of a recurring series
+    revision: number; // Goes up by one on every change, so calendar apps know to replace their copy
     created_at: string;
     updated_at: string;
     patient?: Patient;
@@ -55,15 +75,22 @@ export interface Session {
 
 export interface Goal {
     goal_id: string;
-    session_id: string; 
+    plan_id: string; // The treatment plan the goal belongs to, which ties it to its patient and therapist
     goal_description: string; 
     start_date: string; 
     target_date: string; 
     status: string; 
     priority: string; 
+    // SMART parts of the goal; null when it was written as free text
+    specific_behaviour: string | null;
+    measurable_criterion: string | null; // e.g. "80% accuracy over 3 sessions"
+    context: string | null;
+    status_changed_at: string | null;
+    carried_over_to: string | null; // The goal that continues a carried-over one
+    parent_goal_id: string | null; // The long-term goal a short-term objective belongs to
+    weight: number; // How much an objective counts towards its long-term goal, from 1 to 10
     created_at: string; 
     updated_at: string;
-    session?: Session;
 }
 
 export interface Exercise {
@@ -73,10 +100,45 @@ export interface Exercise {
     description: string; 
     difficulty_level: string; 
     recommended_frequency: string; 
+    category: string | null;     // fluency, articulation, voice or language; null for older exercises
+    is_shared: boolean;          // Published to the therapist's clinic
+    cloned_from: string | null;  // The exercise this one was copied from
     created_at: string; 
     updated_at: string; 
 }
 
+/**
+ * How a recurring block of sessions was booked
+ * Each occurrence is an ordinary session row with this series_id
+ */
+export interface SessionSeries {
+    series_id: string;
+    patient_id: string;
+    therapist_id: string;
+    frequency: SeriesFrequency;
+    start_date: string;
+    occurrences: number | null;
+    until_date: string | null;
+    session_time: string;
+    session_type: string;
+    duration_minutes: number;
+    location: string;
+    created_at: string;
+}
+
+export type SeriesFrequency = 'weekly' | 'fortnightly';
+
+// Which occurrences of a series an edit or cancellation applies to
+export type SeriesScope = 'this' | 'following' | 'all';
+
+// When a series repeats and ends - give either occurrences or until_date
+export interface SeriesRule {
+    frequency: SeriesFrequency;
+    occurrences?: number;
+    until_date?: string;
+    skip_dates: string[];
+}
+
 export interface SessionExercise {
     session_id: string; 
     exercise_id: string; 
@@ -87,8 +149,15 @@ export interface SessionExercise {
 }
 
 export interface GoalExercise {
+    row_id: string;
     goal_id: string; 
     exercise_id: string; 
+    scheduled_date: string | null; // YYYY-MM-DD; null for practices on any day of the week, or as needed
+    day_of_week: string | null;
+    week_number: number | null;
+    slot: string | null;           // Time of day, e.g. Morning
+    slot_index: number;            // Orders the slots in a day, or numbers the practices in a week
+    completed: boolean;
     created_at: string; 
     exercise?: Exercise; 
     goal?: Goal;
@@ -98,31 +167,21 @@ export interface GoalExercise {
 /**
  * Data access methods 
  
- * Retrieves a list of unique patients associated with a specific therapist
- * Get all patients who have session with this therapist 
+ * Retrieves the patients who have accepted this therapist (therapist_patient_link rows)
+ * Booking a session doesn't link them - the patient accepts a link request first
 */
 
 export const getTherapistPatients = async (therapistId: string): Promise<Patient[]> => {
     try {
-      // Get all unique patient_ids from sessions with this therapist
-      const { data: sessions, error: sessionError } = await supabase
-        .from('session')
+      const { data: links, error: linkError } = await supabase
+        .from('therapist_patient_link')
         .select('patient_id')
         .eq('therapist_id', therapistId);
   
-      if (sessionError) throw sessionError;
-      if (!sessions || sessions.length === 0) return [];
-  
-      // Get unique patient IDs and filter out any nulls
-      const patientIds = Array.from(
-        new Set( // ensure we don't fetch the same patient twice 
-          sessions
-            .map(s => s.patient_id)
-            .filter(id => id !== null && id !== undefined)
-        )
-      );
-  
-      if (patientIds.length === 0) return [];
+      if (linkError) throw linkError;
+      if (!links || links.length === 0) return [];
+
+      const patientIds = links.map(l => l.patient_id);
   
       // Fetch patient details
       const { data: patients, error: patientError } = await supabase
@@ -162,7 +221,7 @@ export const getTherapistSessions = async (therapistId: string, limit: number =
 };
 
 /**
- * Create a new patient AND create first session to link them to therapist 
+ * Create a new patient, linked to the therapist registering them, AND their first session
 */
 
 export const createPatientWithSession = async (patientData: {
@@ -220,7 +279,10 @@ export const createPatientWithSession = async (patientData: {
 
     console.log('Patient created successfully:', patient);
 
-    // Create the linking session 
+    // The therapist registering the patient takes them on, so no link request is needed
+    await linkTherapistToPatient(therapistId, patient.user_id);
+
+    // Create the first session 
     const today = new Date();
     const { data: session, error: sessionError } = await supabase
       .from('session')
@@ -271,31 +333,19 @@ export const getPatientSessions = async (patientId: string): Promise<Session[]>
 };
 
 /**
- * Retrieves all goals ever set for a patient across all sessions
+ * Retrieves all goals ever set for a patient, across all their treatment plans
 */
 
 export const getPatientGoals = async (patientId: string): Promise<Goal[]> => {
     try{
-        // Get all session IDs for this patient 
-        const { data: sessions, error: sessionError } = await supabase 
-        .from('session')
-        .select('session_id')
-        .eq('patient_id', patientId); 
-
-        if (sessionError) throw sessionError; 
-        if (!sessions || sessions.length === 0) return [];
-
-        const sessionIds = sessions.map(s => s.session_id); 
-
-        // Get all goals for these sessions 
-        const { data: goals, error: goalError } = await supabase 
+        const { data: goals, error } = await supabase 
         .from('goal')
-        .select('*')
-        .in('session_id', sessionIds)
+        .select('*, plan:plan_id!inner ( patient_id )')
+        .eq('plan.patient_id', patientId)
         .order('created_at', { ascending: false });
 
-        if (goalError) throw goalError; 
-        return goals || [];
+        if (error) throw error; 
+        return (goals || []).map(({ plan, ...goal }) => goal);
     } catch (error) {
         console.error('Error fetching patient goals:', error);
         throw error;
@@ -308,41 +358,16 @@ export const getPatientGoals = async (patientId: string): Promise<Goal[]> => {
 
 export const getPatientExercises = async (patientId: string): Promise<GoalExercise[]> => {
     try {
-      // Get patient's sessions
-      const { data: sessions, error: sessionError } = await supabase
-        .from('session')
-        .select('session_id')
-        .eq('patient_id', patientId);
-  
-      if (sessionError) throw sessionError;
-      if (!sessions || sessions.length === 0) return [];
-  
-      const sessionIds = sessions.map(s => s.session_id).filter(id => id !== null);
-      if (sessionIds.length === 0) return [];
-  
-      // Get goals for these sessions
-      const { data: goals, error: goalError } = await supabase
-        .from('goal')
-        .select('goal_id')
-        .in('session_id', sessionIds);
-  
-      if (goalError) throw goalError;
-      if (!goals || goals.length === 0) return [];
-  
-      const goalIds = goals.map(g => g.goal_id).filter(id => id !== null);
-      if (goalIds.length === 0) return [];
-  
-      // Get exercises for these goals
-      const { data: goalExercises, error: exerciseError } = await supabase
+      const { data: goalExercises, error } = await supabase
         .from('goal_exercise_set')
         .select(`
           *,
           exercise:exercise_id (*),
-          goal:goal_id (*)
+          goal:goal_id!inner ( *, plan:plan_id!inner ( patient_id ) )
         `)
-        .in('goal_id', goalIds);
+        .eq('goal.plan.patient_id', patientId);
   
-      if (exerciseError) throw exerciseError;
+      if (error) throw error;
       return goalExercises || [];
     } catch (error) {
       console.error('Error fetching patient exercises:', error);
@@ -412,17 +437,54 @@ export const getPatientSessionExercises = async (patientId: string): Promise<Ses
   };
   
   /**
-   * Create a new goal for a session
+   * Create a new goal in a treatment plan (see openTreatmentPlan); only an active plan takes new goals
+   * A short-term objective also gives its long-term goal's parent_goal_id, and goes into the same plan:
+   * objectives are one level deep, within the long-term goal's dates, and only under a goal without exercises
   */
   export const createGoal = async (goalData: {
-    session_id: string;
+    plan_id: string;
     goal_description: string;
     start_date: string;
     target_date: string;
-    status: string;
+    status: 'draft' | 'active';
     priority?: string;
-  }): Promise<Goal> => {
+    specific_behaviour?: string | null;
+    measurable_criterion?: string | null;
+    context?: string | null;
+    parent_goal_id?: string | null;
+    weight?: number;
+  }, therapistId: string): Promise<Goal> => {
     try {
+      if (goalData.weight !== undefined && (!Number.isInteger(goalData.weight) || goalData.weight < 1 || goalData.weight > MAX_OBJECTIVE_WEIGHT)) {
+        throw new Error(`The weight must be a whole number from 1 to ${MAX_OBJECTIVE_WEIGHT}`);
+      }
+      if (goalData.parent_goal_id) {
+        const [parentResult, rowsResult] = await Promise.all([
+          supabase.from('goal').select('*').eq('goal_id', goalData.parent_goal_id).single(),
+          supabase.from('goal_exercise_set').select('row_id').eq('goal_id', goalData.parent_goal_id).limit(1)
+        ]);
+        if (parentResult.error) throw parentResult.error;
+        if (rowsResult.error) throw rowsResult.error;
+
+        const parent: Goal = parentResult.data;
+        if (parent.parent_goal_id) throw new Error('An objective cannot have objectives of its own');
+        if (goalData.start_date < parent.start_date || goalData.target_date > parent.target_date) {
+          throw new Error("An objective must fall within its long-term goal's start and target dates");
+        }
+        if ((rowsResult.data || []).length > 0) {
+          throw new Error('This goal has exercises of its own, so it cannot be broken into objectives');
+        }
+        goalData = { ...goalData, plan_id: parent.plan_id };
+      }
+
+      const { data: plan, error: planError } = await supabase
+        .from('treatment_plan')
+        .select('status')
+        .eq('plan_id', goalData.plan_id)
+        .single();
+      if (planError) throw planError;
+      if (plan.status !== 'active') throw new Error('This treatment plan is closed, so no more goals can be added to it');
+
       const { data, error } = await supabase
         .from('goal')
         .insert([goalData])
@@ -430,6 +492,12 @@ export const getPatientSessionExercises = async (patientId: string): Promise<Ses
         .single();
   
       if (error) throw error;
+
+      // The first entry in the goal's status history
+      const { error: historyError } = await supabase
+        .from('goal_status_history')
+        .insert({ goal_id: data.goal_id, from_status: null, to_status: data.status, changed_by: therapistId });
+      if (historyError) throw historyError;
       return data;
     } catch (error) {
       console.error('Error creating goal:', error);
@@ -437,66 +505,56 @@ export const getPatientSessionExercises = async (patientId: string): Promise<Ses
     }
   };
   
-  /**
-   * Get all exercises created by therapist
-  */
-  export const getTherapistExercises = async (therapistId: string): Promise<Exercise[]> => {
-    try {
-      const { data, error } = await supabase
-        .from('exercise')
-        .select('*')
-        .eq('created_by', therapistId)
-        .order('title', { ascending: true });
-  
-      if (error) throw error;
-      return data || [];
-    } catch (error) {
-      console.error('Error fetching therapist exercises:', error);
-      throw error;
-    }
-  };
-  
-  /**
-   * Create a new exercise
-  */
-  export const createExercise = async (exerciseData: {
-    created_by: string;
-    title: string;
-    description: string;
-    difficulty_level: string;
-    recommended_frequency: string;
-  }): Promise<Exercise> => {
-    try {
-      const { data, error } = await supabase
-        .from('exercise')
-        .insert([exerciseData])
-        .select()
-        .single();
-  
-      if (error) throw error;
-      return data;
-    } catch (error) {
-      console.error('Error creating exercise:', error);
-      throw error;
-    }
-  };
-  
   /**
    * Assign exercise to a goal (Links an exercise to a goal)
+   * Creates one goal_exercise_set row per practice the rule schedules, from today
+   * (or the goal's start, if later) to the goal's target date, and keeps the rule with the goal
   */
   export const assignExerciseToGoal = async (
-    goalId: string,
-    exerciseId: string
-  ): Promise<GoalExercise> => {
+    goal: Goal,
+    exerciseId: string,
+    rule: ScheduleRule
+  ): Promise<GoalExercise[]> => {
     try {
+      const ruleError = scheduleRuleError(rule);
+      if (ruleError) throw new Error(ruleError);
+
+      const { data: objectives, error: objectivesError } = await supabase
+        .from('goal')
+        .select('goal_id')
+        .eq('parent_goal_id', goal.goal_id)
+        .limit(1);
+      if (objectivesError) throw objectivesError;
+      if ((objectives || []).length > 0) {
+        throw new Error('This goal is broken into objectives, so exercises are assigned to the objectives instead');
+      }
+
+      const startDate = scheduleStartDate(goal.start_date);
+      const practices = buildSchedule(rule, startDate, goal.target_date);
+      if (practices.length === 0) throw new Error("The schedule has no practices before the goal's target date");
+
       const { data, error } = await supabase
         .from('goal_exercise_set')
-        .insert([{ goal_id: goalId, exercise_id: exerciseId }])
-        .select()
-        .single();
-  
+        .insert(practices.map(practice => ({
+          goal_id: goal.goal_id,
+          exercise_id: exerciseId,
+          ...practice,
+          completed: false,       // All practices start as incomplete
+          difficulty_rating: null // No difficulty rating until the patient completes the practice
+        })))
+        .select();
+
       if (error) throw error;
-      return data;
+
+      const { error: scheduleError } = await supabase
+        .from('exercise_schedule')
+        .upsert(
+          { goal_id: goal.goal_id, exercise_id: exerciseId, rule, start_date: startDate },
+          { onConflict: 'goal_id,exercise_id' }
+        );
+
+      if (scheduleError) throw scheduleError;
+      return data || [];
     } catch (error) {
       console.error('Error assigning exercise to goal:', error);
       throw error;
@@ -524,7 +582,8 @@ export const searchPatientByEmail = async (email: string): Promise<Patient | nul
 };
 
 /**
- * Create session for existing patient (Links therapist to an existing patient)
+ * Create session for existing patient who has accepted the therapist
+ * Refused if it overlaps another of the therapist's sessions
  */
 export const createSessionForPatient = async (
   patientId: string,
@@ -533,10 +592,14 @@ export const createSessionForPatient = async (
     session_date: string;
     session_time: string;
     session_type: string;
+    duration_minutes: number;
     location: string;
   }
 ): Promise<Session> => {
   try {
+    await assertLinkedToPatient(therapistId, patientId);
+    await assertNoSessionConflicts(therapistId, [sessionData]);
+
     const { data, error } = await supabase
       .from('session')
       .insert({
@@ -545,6 +608,7 @@ export const createSessionForPatient = async (
         session_date: sessionData.session_date,
         session_time: sessionData.session_time,
         session_type: sessionData.session_type,
+        duration_minutes: sessionData.duration_minutes,
         status: 'scheduled',
         location: sessionData.location
       })
@@ -559,8 +623,126 @@ export const createSessionForPatient = async (
   }
 };
 
+// A year of weekly sessions
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const SERIES_INTERVAL_DAYS: Record<SeriesFrequency, number> = { weekly: 7, fortnightly: 14 };
+
+// Adds days to a YYYY-MM-DD date
+const addDays = (date: string, days: number): string => {
+  const result = new Date(date + 'T00:00:00Z');
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+/**
+ * Lists the dates a series falls on, starting from the first session date
+ * Skipped dates don't count towards occurrences - the block runs on until that many sessions are booked
+ */
+export const buildSeriesDates = (firstDate: string, rule: SeriesRule): string[] => {
+  const skipped = new Set(rule.skip_dates);
+  const dates: string[] = [];
+
+  for (let date = firstDate; ; date = addDays(date, SERIES_INTERVAL_DAYS[rule.frequency])) {
+    if (rule.until_date ? date > rule.until_date : dates.length === rule.occurrences) break;
+    if (skipped.has(date)) continue;
+
+    dates.push(date);
+    if (dates.length > MAX_SERIES_OCCURRENCES) {
+      throw new Error(`A series can have at most ${MAX_SERIES_OCCURRENCES} sessions`);
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Books every occurrence of a weekly or fortnightly block with an existing patient
+ * Creates the session_series record, then one session row per date
+ * Nothing is booked if any occurrence overlaps another of the therapist's sessions
+ */
+export const createSessionSeries = async (
+  patientId: string,
+  therapistId: string,
+  sessionData: {
+    session_date: string;
+    session_time: string;
+    session_type: string;
+    duration_minutes: number;
+    location: string;
+  },
+  rule: SeriesRule
+): Promise<Session[]> => {
+  try {
+    const dates = buildSeriesDates(sessionData.session_date, rule);
+    if (dates.length === 0) throw new Error('Every date in the series is skipped');
+
+    await assertLinkedToPatient(therapistId, patientId);
+
+    await assertNoSessionConflicts(therapistId, dates.map(date => ({ ...sessionData, session_date: date })));
+
+    const { data: series, error: seriesError } = await supabase
+      .from('session_series')
+      .insert({
+        patient_id: patientId,
+        therapist_id: therapistId,
+        frequency: rule.frequency,
+        start_date: sessionData.session_date,
+        occurrences: rule.occurrences ?? null,
+        until_date: rule.until_date || null,
+        session_time: sessionData.session_time,
+        session_type: sessionData.session_type,
+        duration_minutes: sessionData.duration_minutes,
+        location: sessionData.location
+      })
+      .select()
+      .single();
+
+    if (seriesError) throw seriesError;
+
+    const { data, error } = await supabase
+      .from('session')
+      .insert(dates.map(date => ({
+        patient_id: patientId,
+        therapist_id: therapistId,
+        session_date: date,
+        session_time: sessionData.session_time,
+        session_type: sessionData.session_type,
+        duration_minutes: sessionData.duration_minutes,
+        status: 'scheduled',
+        location: sessionData.location,
+        series_id: series.series_id
+      })))
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error creating session series:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches every session in a series, earliest first
+ */
+const getSeriesSessions = async (seriesId: string): Promise<Session[]> => {
+  const { data, error } = await supabase
+    .from('session')
+    .select('*')
+    .eq('series_id', seriesId)
+    .order('session_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
 /**
  * Updates an existing session's details
+ * For a session in a series, scope picks this occurrence, this and the following ones, or the whole series
+ * Moving the date moves every affected occurrence by the same number of days, so the spacing is kept;
+ * "this and following" also splits them off into a series of their own
+ * Nothing changes if a session would overlap another of the therapist's sessions
  */
 export const updateSession = async (
   sessionId: string,
@@ -568,46 +750,277 @@ export const updateSession = async (
     session_date: string;
     session_time: string;
     session_type: string;
+    duration_minutes: number;
     location: string;
-  }
+  },
+  scope: SeriesScope = 'this'
 ): Promise<void> => {
   try {
-    const { error } = await supabase
+    const fields = {
+      session_time: updates.session_time + ':00',
+      session_type: updates.session_type,
+      duration_minutes: updates.duration_minutes,
+      location: updates.location
+    };
+
+    if (scope === 'this') {
+      const { data: session, error: sessionError } = await supabase
+        .from('session')
+        .select('therapist_id, status, revision')
+        .eq('session_id', sessionId)
+        .single();
+      if (sessionError) throw sessionError;
+      if (RELEASED_STATUSES.includes(session.status)) {
+        throw new Error('Cancelled and rescheduled sessions cannot be changed');
+      }
+
+      await assertNoSessionConflicts(session.therapist_id, [{ ...fields, session_date: updates.session_date }], [sessionId]);
+
+      const { error } = await supabase
+        .from('session')
+        .update({ ...fields, session_date: updates.session_date, revision: session.revision + 1 })
+        .eq('session_id', sessionId);
+
+      if (error) throw error;
+      return;
+    }
+
+    const { data: session, error: sessionError } = await supabase
       .from('session')
-      .update({
-        session_date: updates.session_date,
-        session_time: updates.session_time + ':00',
-        session_type: updates.session_type,
-        location: updates.location
-      })
-      .eq('session_id', sessionId);
+      .select('*')
+      .eq('session_id', sessionId)
+      .single();
 
-    if (error) throw error;
+    if (sessionError) throw sessionError;
+    if (!session.series_id) throw new Error('This session is not part of a series');
+    if (RELEASED_STATUSES.includes(session.status)) {
+      throw new Error('Cancelled and rescheduled sessions cannot be changed');
+    }
+
+    const all = await getSeriesSessions(session.series_id);
+    const inScope = scope === 'all' ? all : all.filter(s => s.session_date >= session.session_date);
+    // Occurrences that are no longer going ahead keep their date and time
+    const affected = inScope.filter(s => !RELEASED_STATUSES.includes(s.status as SessionStatus));
+    // Only this and the following occurrences, with earlier ones left behind, become a series of their own
+    const splits = scope === 'following' && inScope.length < all.length;
+
+    // Shift every affected date by the same number of days as the edited one
+    const shift = Math.round(
+      (Date.parse(updates.session_date + 'T00:00:00Z') - Date.parse(session.session_date + 'T00:00:00Z')) / 86400000
+    );
+    const moved = affected.map(occurrence => ({ ...fields, session_date: addDays(occurrence.session_date, shift) }));
+    await assertNoSessionConflicts(session.therapist_id, moved, affected.map(s => s.session_id));
+
+    if (splits) {
+      const { data: original, error: originalError } = await supabase
+        .from('session_series')
+        .select('*')
+        .eq('series_id', session.series_id)
+        .single();
+      if (originalError) throw originalError;
+
+      const { data: split, error: splitError } = await supabase
+        .from('session_series')
+        .insert({
+          patient_id: original.patient_id,
+          therapist_id: original.therapist_id,
+          frequency: original.frequency,
+          start_date: updates.session_date,
+          occurrences: inScope.length,
+          until_date: null,
+          ...fields
+        })
+        .select()
+        .single();
+      if (splitError) throw splitError;
+
+      // Cancelled and rescheduled occurrences move into the split too, unchanged
+      const { error: moveError } = await supabase
+        .from('session')
+        .update({ series_id: split.series_id })
+        .eq('series_id', session.series_id)
+        .gte('session_date', session.session_date);
+      if (moveError) throw moveError;
+    }
+
+    for (const [i, occurrence] of affected.entries()) {
+      const { error } = await supabase
+        .from('session')
+        .update({ ...moved[i], revision: occurrence.revision + 1 })
+        .eq('session_id', occurrence.session_id);
+
+      if (error) throw error;
+    }
   } catch (error) {
     console.error('Error updating session:', error);
     throw error;
   }
 };
 
+/**
+ * Keeps a copy of deleted sessions, so calendar feeds can send them as cancelled
+ */
+const archiveSessions = async (sessions: Session[]): Promise<void> => {
+  if (sessions.length === 0) return;
+
+  const { error } = await supabase
+    .from('cancelled_session')
+    .insert(sessions.map(session => ({
+      session_id: session.session_id,
+      patient_id: session.patient_id,
+      therapist_id: session.therapist_id,
+      session_date: session.session_date,
+      session_time: session.session_time,
+      session_type: session.session_type,
+      duration_minutes: session.duration_minutes,
+      location: session.location,
+      revision: session.revision + 1
+    })));
+  if (error) throw error;
+};
+
 /**
  * Permanently deletes a session by session ID
+ * For a session in a series, scope picks this occurrence, this and the following ones, or the whole series
+ * Subscribed calendars are told the deleted sessions were cancelled
+ * Goals belong to the patient's treatment plan rather than a session, so they are kept
  */
-export const deleteSession = async (sessionId: string): Promise<void> => {
+export const deleteSession = async (sessionId: string, scope: SeriesScope = 'this'): Promise<void> => {
   try {
-    const { error } = await supabase
+    const { data: session, error: sessionError } = await supabase
       .from('session')
-      .delete()
-      .eq('session_id', sessionId);
+      .select('*')
+      .eq('session_id', sessionId)
+      .single();
+
+    if (sessionError) throw sessionError;
+
+    if (scope === 'this') {
+      const { error } = await supabase
+        .from('session')
+        .delete()
+        .eq('session_id', sessionId);
+
+      if (error) throw error;
+      await archiveSessions([session]);
+      return;
+    }
 
+    if (!session.series_id) throw new Error('This session is not part of a series');
+
+    const all = await getSeriesSessions(session.series_id);
+    const affected = scope === 'all' ? all : all.filter(s => s.session_date >= session.session_date);
+
+    let query = supabase.from('session').delete().eq('series_id', session.series_id);
+    if (scope === 'following') query = query.gte('session_date', session.session_date);
+
+    const { error } = await query;
     if (error) throw error;
+    await archiveSessions(affected);
+
+    // A series with no sessions left has nothing to describe
+    if ((await getSeriesSessions(session.series_id)).length === 0) {
+      await supabase.from('session_series').delete().eq('series_id', session.series_id);
+    }
   } catch (error) {
     console.error('Error deleting session:', error);
     throw error;
   }
 };
 
+// What moving a goal's target date does to one of its exercises
+export interface ExerciseScheduleChange {
+  exercise_id: string;
+  title: string;
+  added: number;   // New practices up to the new target date
+  removed: number; // Untouched practices after it
+  kept: number;    // Practices after it the patient already ticked, rated or recorded
+}
+
+interface PlannedReschedule extends ScheduleChange {
+  exercise_id: string;
+  title: string;
+  rule: ScheduleRule;
+  start_date: string;
+  stored: boolean; // false when the rule was worked out from rows assigned before rules were kept
+}
+
+/**
+ * The rows to add and remove for each of the goal's exercises to run to targetDate
+ * Exercises practised as needed have nothing to change and are left out
+ */
+const planReschedule = async (goalId: string, targetDate: string): Promise<PlannedReschedule[]> => {
+  const [rowsResult, schedulesResult] = await Promise.all([
+    supabase
+      .from('goal_exercise_set')
+      .select('row_id, exercise_id, day_of_week, week_number, scheduled_date, slot, slot_index, completed, difficulty_rating, created_at, exercise:exercise_id ( title )')
+      .eq('goal_id', goalId),
+    supabase.from('exercise_schedule').select('*').eq('goal_id', goalId)
+  ]);
+  if (rowsResult.error) throw rowsResult.error;
+  if (schedulesResult.error) throw schedulesResult.error;
+  const rows: any[] = rowsResult.data || [];
+
+  // Rows with recordings are kept, like ticked and rated ones
+  const { data: recordings, error: recordingsError } = rows.length > 0
+    ? await supabase.from('exercise_recording').select('row_id').in('row_id', rows.map(row => row.row_id))
+    : { data: [], error: null };
+  if (recordingsError) throw recordingsError;
+  const recorded = new Set((recordings || []).map((recording: { row_id: string }) => recording.row_id));
+  const today = localToday();
+
+  const rowsByExercise = new Map<string, any[]>();
+  rows.forEach(row => rowsByExercise.set(row.exercise_id, [...(rowsByExercise.get(row.exercise_id) || []), row]));
+
+  const plans: PlannedReschedule[] = [];
+  rowsByExercise.forEach((exerciseRows, exerciseId) => {
+    const stored = (schedulesResult.data || []).find((schedule: any) => schedule.exercise_id === exerciseId);
+    const schedule = stored || inferScheduleRule(exerciseRows, exerciseRows[0].created_at.slice(0, 10));
+    if (!schedule) return;
+
+    const change = rescheduleRows(
+      schedule.rule,
+      schedule.start_date,
+      targetDate,
+      today,
+      exerciseRows.map(row => ({ ...row, has_recordings: recorded.has(row.row_id) }))
+    );
+    plans.push({
+      ...change,
+      exercise_id: exerciseId,
+      title: exerciseRows[0].exercise?.title || '',
+      rule: schedule.rule,
+      start_date: schedule.start_date,
+      stored: !!stored
+    });
+  });
+  return plans;
+};
+
+/**
+ * How each of the goal's exercise schedules would change if its target date moved to targetDate,
+ * for the therapist to check before saving
+ */
+export const previewTargetDateChange = async (goalId: string, targetDate: string): Promise<ExerciseScheduleChange[]> => {
+  try {
+    const plans = await planReschedule(goalId, targetDate);
+    return plans.map(plan => ({
+      exercise_id: plan.exercise_id,
+      title: plan.title,
+      added: plan.add.length,
+      removed: plan.remove.length,
+      kept: plan.kept
+    }));
+  } catch (error) {
+    console.error('Error previewing schedule changes:', error);
+    throw error;
+  }
+};
+
 /**
  * Updates an existing goal
+ * Moving the target date extends or trims each exercise's schedule to match (see previewTargetDateChange);
+ * an objective's target date stays within its long-term goal's, and a long-term goal's covers its objectives'
  */
 export const updateGoal = async (
   goalId: string,
@@ -615,14 +1028,71 @@ export const updateGoal = async (
     goal_description: string;
     target_date: string;
     priority: string;
+    specific_behaviour?: string | null;
+    measurable_criterion?: string | null;
+    context?: string | null;
+    weight?: number;
   }
 ): Promise<void> => {
   try {
+    if (updates.weight !== undefined && (!Number.isInteger(updates.weight) || updates.weight < 1 || updates.weight > MAX_OBJECTIVE_WEIGHT)) {
+      throw new Error(`The weight must be a whole number from 1 to ${MAX_OBJECTIVE_WEIGHT}`);
+    }
+
+    const [existingResult, objectivesResult] = await Promise.all([
+      supabase.from('goal').select('target_date, parent:parent_goal_id ( target_date )').eq('goal_id', goalId).single(),
+      supabase.from('goal').select('target_date').eq('parent_goal_id', goalId)
+    ]);
+    if (existingResult.error) throw existingResult.error;
+    if (objectivesResult.error) throw objectivesResult.error;
+
+    const existing: any = existingResult.data;
+    if (existing.parent && updates.target_date > existing.parent.target_date) {
+      throw new Error("An objective must fall within its long-term goal's start and target dates");
+    }
+    const latest = (objectivesResult.data || []).map(objective => objective.target_date).sort().pop();
+    if (latest && updates.target_date < latest) {
+      throw new Error(`This goal's objectives run to ${latest}, so its target date cannot be earlier`);
+    }
+
+    const plans = existing.target_date !== updates.target_date
+      ? await planReschedule(goalId, updates.target_date)
+      : [];
+
     const { error } = await supabase
       .from('goal')
       .update(updates)
       .eq('goal_id', goalId);
     if (error) throw error;
+
+    for (const plan of plans) {
+      if (plan.remove.length > 0) {
+        const { error: removeError } = await supabase.from('goal_exercise_set').delete().in('row_id', plan.remove);
+        if (removeError) throw removeError;
+      }
+      if (plan.add.length > 0) {
+        const { error: addError } = await supabase
+          .from('goal_exercise_set')
+          .insert(plan.add.map(practice => ({
+            goal_id: goalId,
+            exercise_id: plan.exercise_id,
+            ...practice,
+            completed: false,
+            difficulty_rating: null
+          })));
+        if (addError) throw addError;
+      }
+      // Keep a rule worked out from older rows, so the next change doesn't have to work it out again
+      if (!plan.stored) {
+        const { error: scheduleError } = await supabase
+          .from('exercise_schedule')
+          .upsert(
+            { goal_id: goalId, exercise_id: plan.exercise_id, rule: plan.rule, start_date: plan.start_date },
+            { onConflict: 'goal_id,exercise_id' }
+          );
+        if (scheduleError) throw scheduleError;
+      }
+    }
   } catch (error) {
     console.error('Error updating goal:', error);
     throw error;
@@ -0,0 +1,114 @@
+import { supabase } from './supabaseClient';
+import { localToday } from './clock';
+import { assertLinkedToPatient } from './supabaseTherapistLinkService';
+
+// A therapist's episode of care with a patient; the patient's goals belong to it
+export interface TreatmentPlan {
+  plan_id: string;
+  patient_id: string;
+  therapist_id: string;
+  status: 'active' | 'closed';
+  started_on: string;
+  closed_on: string | null;
+  created_at: string;
+  updated_at: string;
+  therapist?: { first_name: string; last_name: string };
+}
+
+// Goals still being worked on or prepared keep their plan open
+const OPEN_GOAL_STATUSES = ['draft', 'active', 'on_hold'];
+
+// The therapist's current episode of care with the patient, if there is one
+const findActivePlan = async (therapistId: string, patientId: string): Promise<TreatmentPlan | null> => {
+  const { data, error } = await supabase
+    .from('treatment_plan')
+    .select('*')
+    .eq('therapist_id', therapistId)
+    .eq('patient_id', patientId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * The therapist's active plan with the patient, opened from today when there isn't one
+ * A pair has at most one active plan, which new goals go into
+ */
+export const openTreatmentPlan = async (therapistId: string, patientId: string): Promise<TreatmentPlan> => {
+  try {
+    const active = await findActivePlan(therapistId, patientId);
+    if (active) return active;
+
+    // Only a therapist the patient has accepted can start an episode of care with them
+    await assertLinkedToPatient(therapistId, patientId);
+
+    const { data, error } = await supabase
+      .from('treatment_plan')
+      .insert({ therapist_id: therapistId, patient_id: patientId, started_on: localToday() })
+      .select()
+      .single();
+
+    // 23505 = unique_violation, raised when a concurrent request opened the pair's plan first
+    if (error?.code === '23505') return (await findActivePlan(therapistId, patientId))!;
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error opening treatment plan:', error);
+    throw error;
+  }
+};
+
+/**
+ * Every plan the patient has had with any of their therapists, newest first
+ */
+export const getPatientTreatmentPlans = async (patientId: string): Promise<TreatmentPlan[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('treatment_plan')
+      .select('*, therapist:therapist_id ( first_name, last_name )')
+      .eq('patient_id', patientId)
+      .order('started_on', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching treatment plans:', error);
+    throw error;
+  }
+};
+
+/**
+ * Ends the episode of care; its goals stay on record, and the next goal set opens a new plan
+ * Goals still in progress have to be achieved, discontinued or carried over first
+ */
+export const closeTreatmentPlan = async (planId: string): Promise<TreatmentPlan> => {
+  try {
+    const { data: open, error: openError } = await supabase
+      .from('goal')
+      .select('goal_id')
+      .eq('plan_id', planId)
+      .in('status', OPEN_GOAL_STATUSES)
+      .limit(1);
+
+    if (openError) throw openError;
+    if ((open || []).length > 0) {
+      throw new Error('This treatment plan still has goals in progress. Achieve, discontinue or carry them over first.');
+    }
+
+    const { data, error } = await supabase
+      .from('treatment_plan')
+      .update({ status: 'closed', closed_on: localToday(), updated_at: new Date().toISOString() })
+      .eq('plan_id', planId)
+      .eq('status', 'active')
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error closing treatment plan:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,152 @@
+// An in-memory stand-in for the Supabase client, for testing services without a database
+// Each table is a list of rows; queries filter, sort and change them the way PostgREST would.
+// Embedded selects (e.g. `*, patient:patient_id (*)`) return the table's own columns only
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+// The column filled in with a new id when a row is inserted without one
+const ID_COLUMNS: Record<string, string> = {
+  session: 'session_id',
+  session_series: 'series_id',
+  treatment_plan: 'plan_id',
+  goal: 'goal_id',
+  goal_exercise_set: 'row_id',
+  therapist_link_request: 'request_id'
+};
+
+// '(a,b,c)' as PostgREST writes a list in a filter
+const parseList = (list: string): string[] => list.replace(/^\(|\)$/g, '').split(',').map(item => item.trim());
+
+export interface FakeSupabase {
+  tables: Record<string, Row[]>;
+  client: { from: (table: string) => any };
+  // Every call made, as "table.operation", in order - e.g. to count requests
+  calls: string[];
+}
+
+export const createFakeSupabase = (tables: Record<string, Row[]> = {}): FakeSupabase => {
+  let nextId = 1;
+  const calls: string[] = [];
+
+  const from = (table: string) => {
+    const filters: Filter[] = [];
+    let operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+    let conflictColumns: string[] = [];
+    let values: Row | Row[] = {};
+    let sort: { column: string; ascending: boolean } | null = null;
+    let limit: number | null = null;
+    let returnRows = true;
+    let single: 'single' | 'maybeSingle' | null = null;
+
+    const rowsOf = (): Row[] => {
+      tables[table] = tables[table] || [];
+      return tables[table];
+    };
+
+    const run = (): { data: any; error: any } => {
+      calls.push(`${table}.${operation}`);
+      let result: Row[];
+
+      if (operation === 'insert') {
+        const idColumn = ID_COLUMNS[table];
+        result = (Array.isArray(values) ? values : [values]).map(row => ({
+          ...(idColumn ? { [idColumn]: `${table}-${nextId++}` } : {}),
+          ...row
+        }));
+        rowsOf().push(...result);
+      } else if (operation === 'upsert') {
+        // Rows matching an existing one on the conflict columns are left as they are (ignoreDuplicates)
+        const matches = (a: Row, b: Row) => conflictColumns.every(column => a[column] === b[column]);
+        result = (Array.isArray(values) ? values : [values]).filter(row => !rowsOf().some(existing => matches(existing, row)));
+        rowsOf().push(...result.map(row => ({ ...row })));
+      } else {
+        result = rowsOf().filter(row => filters.every(filter => filter(row)));
+        if (operation === 'update') {
+          result.forEach(row => Object.assign(row, values));
+        } else if (operation === 'delete') {
+          tables[table] = rowsOf().filter(row => !result.includes(row));
+        }
+      }
+
+      if (sort) {
+        const { column, ascending } = sort;
+        result = [...result].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+      }
+      if (limit !== null) result = result.slice(0, limit);
+      result = result.map(row => ({ ...row }));
+
+      if (single) {
+        if (result.length === 1) return { data: result[0], error: null };
+        if (result.length === 0 && single === 'maybeSingle') return { data: null, error: null };
+        return { data: null, error: { message: `Expected one ${table} row, found ${result.length}` } };
+      }
+      return { data: operation === 'select' || returnRows ? result : null, error: null };
+    };
+
+    const query: any = {
+      select: () => {
+        returnRows = true;
+        return query;
+      },
+      insert: (rows: Row | Row[]) => {
+        operation = 'insert';
+        values = rows;
+        returnRows = false;
+        return query;
+      },
+      upsert: (rows: Row | Row[], options: { onConflict: string }) => {
+        operation = 'upsert';
+        values = rows;
+        conflictColumns = options.onConflict.split(',');
+        returnRows = false;
+        return query;
+      },
+      update: (changes: Row) => {
+        operation = 'update';
+        values = changes;
+        returnRows = false;
+        return query;
+      },
+      delete: () => {
+        operation = 'delete';
+        returnRows = false;
+        return query;
+      },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return query; },
+      neq: (column: string, value: any) => { filters.push(row => row[column] !== value); return query; },
+      gt: (column: string, value: any) => { filters.push(row => row[column] > value); return query; },
+      gte: (column: string, value: any) => { filters.push(row => row[column] >= value); return query; },
+      lt: (column: string, value: any) => { filters.push(row => row[column] < value); return query; },
+      lte: (column: string, value: any) => { filters.push(row => row[column] <= value); return query; },
+      in: (column: string, list: any[]) => { filters.push(row => list.includes(row[column])); return query; },
+      is: (column: string, value: any) => { filters.push(row => (row[column] ?? null) === value); return query; },
+      not: (column: string, operator: string, value: any) => {
+        if (operator === 'in') {
+          const list = parseList(value);
+          filters.push(row => !list.includes(String(row[column])));
+        } else {
+          filters.push(row => (row[column] ?? null) !== value);
+        }
+        return query;
+      },
+      order: (column: string, options: { ascending?: boolean } = {}) => {
+        sort = { column, ascending: options.ascending !== false };
+        return query;
+      },
+      limit: (count: number) => { limit = count; return query; },
+      single: () => { single = 'single'; return query; },
+      maybeSingle: () => { single = 'maybeSingle'; return query; },
+      then: (resolve: (result: { data: any; error: any }) => any, reject?: (error: any) => any) => {
+        try {
+          return Promise.resolve(run()).then(resolve, reject);
+        } catch (error) {
+          return Promise.reject(error).then(resolve, reject);
+        }
+      }
+    };
+    return query;
+  };
+
+  return { tables, client: { from }, calls };
+};
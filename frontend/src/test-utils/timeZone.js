@@ -0,0 +1,5 @@
+// Tests run on a clock ahead of UTC in summer, so a date taken from UTC rather than the
+// clinic's local clock shows up as a day out in tests that fake a time just after midnight
+module.exports = async () => {
+  process.env.TZ = 'Europe/London';
+};
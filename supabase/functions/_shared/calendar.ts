@@ -0,0 +1,127 @@
+// The iCalendar feed format, shared by the Edge Functions
+// A copy of buildCalendar and the event mapping in frontend/src/services/supabaseCalendarService.ts,
+// which the frontend tests check it against; Edge Functions can't import from the React app
+
+// Sessions in these statuses are no longer going ahead - RELEASED_STATUSES in the session status services
+const RELEASED_STATUSES = ['cancelled_by_patient', 'cancelled_by_therapist', 'rescheduled'];
+
+const CALENDAR_NAME = 'OwnUrVoice sessions';
+const PRODUCT_ID = '-//OwnUrVoice//Therapy Sessions//EN';
+
+// Lines longer than this many bytes are folded onto continuation lines (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// One session as a calendar event; uid stays the same for the life of the session
+export interface CalendarEvent {
+  uid: string;
+  session_date: string;
+  session_time: string;
+  duration_minutes: number;
+  summary: string;
+  location: string | null;
+  sequence: number;
+  last_modified: string;
+  cancelled: boolean;
+}
+
+type Person = { first_name: string; last_name: string };
+
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Splits a long line into a first line and continuation lines that start with a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of Array.from(line)) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one byte to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatUtc = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Session dates and times are clinic-local, so they are sent as floating times with no time zone
+const formatLocal = (date: string, time: string, addMinutes: number = 0): string => {
+  const result = new Date(`${date}T${time.substring(0, 5)}:00Z`);
+  result.setUTCMinutes(result.getUTCMinutes() + addMinutes);
+  return formatUtc(result).replace('Z', '');
+};
+
+/**
+ * Builds an iCalendar document from a list of events - the same format the feed link serves
+ * Cancelled events are kept with STATUS:CANCELLED so calendars remove them
+ */
+export const buildCalendar = (events: CalendarEvent[]): string => {
+  const now = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${CALENDAR_NAME}`
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${formatUtc(new Date(event.last_modified))}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTART:${formatLocal(event.session_date, event.session_time)}`,
+      `DTEND:${formatLocal(event.session_date, event.session_time, event.duration_minutes)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Turns session rows (current or cancelled) into events
+ * The title names the other person: the therapist for a patient, the patient for a therapist
+ */
+export const toEvents = (userId: string, rows: any[], cancelled: boolean, modifiedField: string): CalendarEvent[] => {
+  return rows.map(row => {
+    const other: Person = row.patient_id === userId ? row.therapist : row.patient;
+    return {
+      uid: `${row.session_id}@ownurvoice`,
+      session_date: row.session_date,
+      session_time: row.session_time,
+      duration_minutes: row.duration_minutes,
+      summary: `${row.session_type} with ${other.first_name} ${other.last_name}`,
+      location: row.location,
+      sequence: row.revision,
+      last_modified: row[modifiedField],
+      // A rescheduled session's replacement is an event of its own
+      cancelled: cancelled || RELEASED_STATUSES.includes(row.status)
+    };
+  });
+};
@@ -0,0 +1,62 @@
+// Serves a user's sessions as an iCalendar feed at /functions/v1/calendar-feed/<token>.ics
+// Calendar apps can't sign in, so this function runs without a JWT (see supabase/config.toml) -
+// the private token in the link is the only credential, and calendar_feed keeps only its SHA-256 hash
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { buildCalendar, toEvents } from '../_shared/calendar.ts';
+
+// The service role reads past row-level security, so each query below is limited to the feed's user
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const PEOPLE = `
+  patient:patient_id ( first_name, last_name ),
+  therapist:therapist_id ( first_name, last_name )
+`;
+
+// The same hash the app saves when it creates the link
+const hashToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const buildFeed = async (token: string): Promise<string | null> => {
+  const { data: feed, error } = await supabase
+    .from('calendar_feed')
+    .select('user_id')
+    .eq('token_hash', await hashToken(token))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!feed) return null;
+
+  const involves = `patient_id.eq.${feed.user_id},therapist_id.eq.${feed.user_id}`;
+  const [current, cancelled] = await Promise.all([
+    supabase.from('session').select(`*, ${PEOPLE}`).or(involves).order('session_date', { ascending: true }),
+    supabase.from('cancelled_session').select(`*, ${PEOPLE}`).or(involves).order('session_date', { ascending: true })
+  ]);
+
+  if (current.error) throw current.error;
+  if (cancelled.error) throw cancelled.error;
+
+  return buildCalendar([
+    ...toEvents(feed.user_id, current.data || [], false, 'updated_at'),
+    ...toEvents(feed.user_id, cancelled.data || [], true, 'cancelled_at')
+  ]);
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  if (req.method !== 'GET') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const token = new URL(req.url).pathname.match(/\/([^/]+)\.ics$/)?.[1];
+  try {
+    const ics = token ? await buildFeed(decodeURIComponent(token)) : null;
+    if (ics === null) {
+      return new Response('Calendar feed not found', { status: 404 });
+    }
+    return new Response(ics, { headers: { 'Content-Type': 'text/calendar; charset=utf-8' } });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return new Response('Could not build the calendar feed', { status: 500 });
+  }
+});
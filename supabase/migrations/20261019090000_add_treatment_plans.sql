@@ -0,0 +1,55 @@
+-- Goals belong to a treatment plan - a therapist's episode of care with a patient - rather than to
+-- whichever session they were set in, so sessions can be deleted without touching the patient's goals
+-- The Supabase side of backend/migrations/020_add_treatment_plans.sql and 022_add_one_active_plan_index.sql
+
+CREATE TABLE IF NOT EXISTS public.treatment_plan (
+  plan_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES public.patient(user_id) ON DELETE CASCADE,
+  therapist_id UUID NOT NULL REFERENCES public.therapist(user_id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  started_on DATE NOT NULL,
+  closed_on DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT treatment_plan_status_check CHECK (status IN ('active', 'closed'))
+);
+
+CREATE INDEX IF NOT EXISTS treatment_plan_patient_id_idx ON public.treatment_plan (patient_id);
+CREATE INDEX IF NOT EXISTS treatment_plan_therapist_id_idx ON public.treatment_plan (therapist_id);
+
+-- A pair has at most one active plan; the app returns the existing one when two requests race to open it
+CREATE UNIQUE INDEX IF NOT EXISTS treatment_plan_one_active_idx
+  ON public.treatment_plan (therapist_id, patient_id)
+  WHERE status = 'active';
+
+-- Both people can see the plan; only its therapist opens and closes it
+ALTER TABLE public.treatment_plan ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY treatment_plan_select ON public.treatment_plan
+  FOR SELECT USING (auth.uid() IN (therapist_id, patient_id));
+CREATE POLICY treatment_plan_insert ON public.treatment_plan
+  FOR INSERT WITH CHECK (auth.uid() = therapist_id);
+CREATE POLICY treatment_plan_update ON public.treatment_plan
+  FOR UPDATE USING (auth.uid() = therapist_id);
+
+-- One active plan for each pair that already has goals, from their earliest session with a goal
+INSERT INTO public.treatment_plan (patient_id, therapist_id, started_on)
+SELECT s.patient_id, s.therapist_id, MIN(s.session_date)
+FROM public.goal g
+JOIN public.session s ON s.session_id = g.session_id
+GROUP BY s.patient_id, s.therapist_id;
+
+ALTER TABLE public.goal ADD COLUMN plan_id UUID REFERENCES public.treatment_plan(plan_id) ON DELETE CASCADE;
+
+-- Moves each goal into its pair's plan
+UPDATE public.goal
+SET plan_id = p.plan_id
+FROM public.session s
+JOIN public.treatment_plan p ON p.patient_id = s.patient_id AND p.therapist_id = s.therapist_id
+WHERE public.goal.session_id = s.session_id;
+
+ALTER TABLE public.goal ALTER COLUMN plan_id SET NOT NULL;
+CREATE INDEX IF NOT EXISTS goal_plan_id_idx ON public.goal (plan_id);
+
+-- The session link goes, with anything that still depends on it
+ALTER TABLE public.goal DROP COLUMN session_id CASCADE;
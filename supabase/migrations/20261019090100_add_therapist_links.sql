@@ -0,0 +1,61 @@
+-- A therapist is linked to a patient once the patient accepts the therapist's request to take them on
+-- Booking a session no longer links them: only a linked therapist can book sessions with the patient
+-- The Supabase side of backend/migrations/021_add_therapist_links.sql
+
+CREATE TABLE IF NOT EXISTS public.therapist_link_request (
+  request_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  therapist_id UUID NOT NULL REFERENCES public.therapist(user_id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patient(user_id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS therapist_link_request_therapist_id_idx ON public.therapist_link_request (therapist_id);
+CREATE INDEX IF NOT EXISTS therapist_link_request_patient_id_idx ON public.therapist_link_request (patient_id);
+
+-- An accepted request; gives the therapist access to the patient's records
+CREATE TABLE IF NOT EXISTS public.therapist_patient_link (
+  therapist_id UUID NOT NULL REFERENCES public.therapist(user_id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patient(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (therapist_id, patient_id)
+);
+
+CREATE INDEX IF NOT EXISTS therapist_patient_link_patient_id_idx ON public.therapist_patient_link (patient_id);
+
+-- Therapists keep the patients they already see
+INSERT INTO public.therapist_patient_link (therapist_id, patient_id)
+SELECT therapist_id, patient_id FROM public.session
+UNION
+SELECT therapist_id, patient_id FROM public.treatment_plan
+ON CONFLICT DO NOTHING;
+
+-- Therapists send requests and patients answer them
+ALTER TABLE public.therapist_link_request ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY therapist_link_request_select ON public.therapist_link_request
+  FOR SELECT USING (auth.uid() IN (therapist_id, patient_id));
+CREATE POLICY therapist_link_request_insert ON public.therapist_link_request
+  FOR INSERT WITH CHECK (auth.uid() = therapist_id AND status = 'pending');
+CREATE POLICY therapist_link_request_update ON public.therapist_link_request
+  FOR UPDATE USING (auth.uid() = patient_id);
+
+-- A link is made by the patient accepting a request, or by a therapist registering a patient
+-- who has no account of their own yet
+ALTER TABLE public.therapist_patient_link ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY therapist_patient_link_select ON public.therapist_patient_link
+  FOR SELECT USING (auth.uid() IN (therapist_id, patient_id));
+CREATE POLICY therapist_patient_link_insert ON public.therapist_patient_link
+  FOR INSERT WITH CHECK (
+    (auth.uid() = patient_id AND EXISTS (
+      SELECT 1 FROM public.therapist_link_request r
+      WHERE r.therapist_id = therapist_patient_link.therapist_id
+        AND r.patient_id = therapist_patient_link.patient_id
+        AND r.status = 'accepted'
+    ))
+    OR (auth.uid() = therapist_id AND NOT EXISTS (
+      SELECT 1 FROM auth.users u WHERE u.id = therapist_patient_link.patient_id
+    ))
+  );